@@ -0,0 +1,328 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { runCli, parseCliArgs } from "../cli";
+import { CliIO } from "../context";
+import { readStorageSettings, getUserSettingsPath } from "../storage";
+
+/**
+ * Terminal that records output and answers stdin, the editor and prompts
+ */
+const createTestIO = (cwd: string, stdin = "") => {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const io: CliIO = {
+    cwd,
+    env: {},
+    stdout: (text) => stdout.push(text),
+    stderr: (text) => stderr.push(text),
+    isStdinTTY: () => !stdin,
+    readStdin: async () => stdin,
+    prompt: vi.fn(async () => ""),
+    editFile: vi.fn(async () => true),
+    copyToClipboard: vi.fn(async () => true),
+  };
+  return { io, stdout, stderr };
+};
+
+describe("CLI", () => {
+  let tempDir: string;
+  let storagePath: string;
+
+  const run = async (args: string[], stdin = "", io?: CliIO) => {
+    const test = createTestIO(tempDir, stdin);
+    const code = await runCli(
+      [...args, "--storage", storagePath],
+      io || test.io
+    );
+    return { code, ...test };
+  };
+
+  const runJson = async (args: string[], stdin = "") => {
+    const result = await run([...args, "--json"], stdin);
+    return { ...result, data: JSON.parse(result.stdout.join("\n")) };
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "snippet-cli-"));
+    storagePath = path.join(tempDir, "library", "snippets.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should add snippets from files and stdin", async () => {
+    fs.writeFileSync(path.join(tempDir, "fetch.py"), "import requests\n");
+
+    const fromFile = await runJson(["add", "fetch.py", "--tag", "http,io"]);
+    const fromStdin = await runJson(
+      ["add", "--title", "Log", "--tag", "debug", "--language", "javascript"],
+      "console.log(value);\n"
+    );
+
+    expect(fromFile.code).toBe(0);
+    expect(fromFile.data).toMatchObject({
+      title: "fetch",
+      language: "python",
+      code: "import requests",
+      tags: ["http", "io"],
+    });
+    expect(fromStdin.data).toMatchObject({
+      title: "Log",
+      language: "javascript",
+      code: "console.log(value);",
+    });
+
+    const saved = JSON.parse(fs.readFileSync(storagePath, "utf-8"));
+    expect(saved.snippets).toHaveLength(2);
+  });
+
+  it("should rank search results like the search service", async () => {
+    await run(["add", "--title", "Fetch JSON"], "return fetch(url);");
+    await run(
+      [
+        "add",
+        "--title",
+        "Parse",
+        "--description",
+        "Parse a fetch response",
+        "--tag",
+        "json",
+      ],
+      "JSON.parse(text);"
+    );
+    await run(["add", "--title", "Other", "--language", "python"], "print(1)");
+
+    const { data } = await runJson(["search", "fetch"]);
+    const filtered = await runJson(["search", "fetch -tag:json"]);
+
+    expect(data.map((result) => result.snippet.title)).toEqual([
+      "Fetch JSON",
+      "Parse",
+    ]);
+    expect(data[0].score).toBeGreaterThan(data[1].score);
+    expect(filtered.data.map((result) => result.snippet.title)).toEqual([
+      "Fetch JSON",
+    ]);
+  });
+
+  it("should edit code in the editor and metadata with flags", async () => {
+    await run(
+      ["add", "--title", "Greeting", "--language", "javascript"],
+      "hello();"
+    );
+    const { io } = createTestIO(tempDir);
+    io.editFile = vi.fn(async (filePath: string) => {
+      expect(path.extname(filePath)).toBe(".js");
+      fs.writeFileSync(filePath, "goodbye();\n");
+      return true;
+    });
+
+    const edited = await run(["edit", "greet"], "", io);
+    const retitled = await runJson([
+      "edit",
+      "Greeting",
+      "--title",
+      "Farewell",
+    ]);
+
+    expect(edited.code).toBe(0);
+    expect(retitled.data).toMatchObject({
+      title: "Farewell",
+      code: "goodbye();",
+    });
+  });
+
+  it("should render templates with flags, vars and defaults", async () => {
+    await run(
+      ["add", "--title", "Request", "--language", "javascript"],
+      'fetch("${1:/api}", { method: "${2|GET,POST|}" });'
+    );
+    fs.writeFileSync(path.join(tempDir, "vars.yaml"), "$1: /users\n");
+
+    const printed = await run(["render", "Request", "--var", "2=POST"], "-");
+    const written = await run(
+      ["render", "Request", "out/request.js", "--vars", "vars.yaml"],
+      "-"
+    );
+    const invalid = await runJson(["render", "Request", "--var", "2=PUT"]);
+
+    expect(printed.stdout).toEqual(['fetch("/api", { method: "POST" });']);
+    expect(written.code).toBe(0);
+    expect(
+      fs.readFileSync(path.join(tempDir, "out", "request.js"), "utf-8")
+    ).toBe('fetch("/users", { method: "GET" });\n');
+    expect(invalid.code).toBe(1);
+    expect(invalid.data.error.message).toBe("2 must be one of: GET, POST");
+  });
+
+  it("should prompt on a terminal for fields without a value", async () => {
+    await run(
+      ["add", "--title", "Request", "--language", "javascript"],
+      'fetch("${1:/api}", { method: "${2|GET,POST|}" });'
+    );
+    const { io, stdout } = createTestIO(tempDir);
+    io.prompt = vi.fn(async () => "2");
+
+    const code = await runCli(
+      ["render", "Request", "--var", "$1=/items", "--storage", storagePath],
+      io
+    );
+
+    expect(code).toBe(0);
+    expect(io.prompt).toHaveBeenCalledTimes(1);
+    expect(stdout).toEqual(['fetch("/items", { method: "POST" });']);
+  });
+
+  it("should ask again for choices that are not listed", async () => {
+    await run(
+      ["add", "--title", "Request", "--language", "javascript"],
+      'fetch("/api", { method: "${1|GET,POST|}" });'
+    );
+    const { io, stdout, stderr } = createTestIO(tempDir);
+    const answers = ["PUT", "3", "POST"];
+    io.prompt = vi.fn(async () => answers.shift() || "");
+
+    const code = await runCli(
+      ["render", "Request", "--storage", storagePath],
+      io
+    );
+
+    expect(code).toBe(0);
+    expect(io.prompt).toHaveBeenCalledTimes(3);
+    expect(stderr).toContain("  Pick 1-2 or one of: GET, POST");
+    expect(stdout).toEqual(['fetch("/api", { method: "POST" });']);
+  });
+
+  it("should repeat defaults in mirrors when not prompting", async () => {
+    await run(
+      ["add", "--title", "Counter", "--language", "javascript"],
+      "class ${1:Widget} { constructor() { ${1}.count++; } }"
+    );
+
+    const printed = await run(["render", "Counter"], "-");
+
+    expect(printed.stdout).toEqual([
+      "class Widget { constructor() { Widget.count++; } }",
+    ]);
+  });
+
+  it("should manage tags and categories", async () => {
+    await run(
+      ["add", "--title", "A", "--tag", "js", "--category", "web/ui"],
+      "a"
+    );
+    await run(["add", "--title", "B", "--tag", "js", "--category", "web"], "b");
+
+    const renamed = await runJson(["tag", "rename", "js", "javascript"]);
+    const moved = await runJson(["category", "rename", "web", "frontend"]);
+    const tags = await runJson(["tag", "list"]);
+    const categories = await runJson(["category", "list"]);
+
+    expect(renamed.data).toEqual({ changed: 2 });
+    expect(moved.data).toEqual({ changed: 2 });
+    expect(tags.data).toEqual([{ name: "javascript", count: 2 }]);
+    expect(categories.data[0]).toMatchObject({
+      path: "frontend",
+      count: 2,
+      children: [expect.objectContaining({ path: "frontend/ui" })],
+    });
+  });
+
+  it("should export, back up and restore the library", async () => {
+    await run(["add", "--title", "Sum", "--language", "python"], "a + b");
+
+    const exported = await run(["export", "snippets.code-snippets"]);
+    const backup = await runJson(["backup"]);
+    await run(["delete", "Sum"]);
+    const restored = await runJson(["restore", backup.data.filePath]);
+    const listed = await runJson(["list"]);
+
+    expect(exported.code).toBe(0);
+    expect(
+      JSON.parse(
+        fs.readFileSync(path.join(tempDir, "snippets.code-snippets"), "utf-8")
+      )
+    ).toHaveProperty("Sum");
+    expect(path.dirname(backup.data.filePath)).toBe(
+      path.join(tempDir, "library", "backups")
+    );
+    expect(restored.data.imported).toBe(1);
+    expect(listed.data.map((snippet) => snippet.title)).toEqual(["Sum"]);
+  });
+
+  it("should import from stdin in the given format", async () => {
+    const yaml = [
+      "snippets:",
+      "  - title: Hello",
+      "    description: Say hello",
+      "    code: echo hello",
+      "    language: shellscript",
+      "    tags: []",
+    ].join("\n");
+
+    const { data } = await runJson(["import", "-", "--format", "yaml"], yaml);
+    const stats = await runJson(["stats"]);
+
+    expect(data).toMatchObject({ imported: 1, skipped: 0 });
+    expect(stats.data).toMatchObject({
+      total: 1,
+      languages: [{ name: "shellscript", count: 1 }],
+    });
+  });
+
+  it("should fail with errors as JSON and a non-zero exit code", async () => {
+    const missing = await runJson(["show", "nothing"]);
+    const lint = await run(["add", "--title", "Empty"], " ");
+    const linted = await run(["lint"]);
+
+    expect(missing.code).toBe(1);
+    expect(missing.data.error.message).toBe("Snippet not found: nothing");
+    expect(lint.code).toBe(1);
+    expect(lint.stderr[0]).toMatch(/^Error: /);
+    expect(linted.code).toBe(0);
+    expect(linted.stdout).toEqual([
+      "0 errors, 0 warnings, 0 suggestions in 0 snippets",
+    ]);
+  });
+
+  it("should reject unknown flags", () => {
+    expect(parseCliArgs(["list", "--bogus"]).success).toBe(false);
+    expect(parseCliArgs(["tag", "list", "--tag", "a", "--tag", "b"])).toEqual({
+      success: true,
+      data: {
+        command: "tag",
+        args: ["list"],
+        flags: { tag: ["a", "b"], keepAlias: undefined },
+      },
+    });
+  });
+
+  describe("storage settings", () => {
+    it("should let workspace settings override user settings", () => {
+      const home = path.join(tempDir, "home");
+      const userSettings = getUserSettingsPath({}, "linux", home);
+      fs.mkdirSync(path.dirname(userSettings), { recursive: true });
+      fs.writeFileSync(
+        userSettings,
+        '{\n  // Comments are allowed\n  "snippetLibrary.storageLayout": "sqlite"\n}'
+      );
+      fs.mkdirSync(path.join(tempDir, ".vscode"));
+      fs.writeFileSync(
+        path.join(tempDir, ".vscode", "settings.json"),
+        '{ "snippetLibrary.storageLocation": "workspace" }'
+      );
+
+      expect(
+        readStorageSettings({
+          cwd: tempDir,
+          env: {},
+          platform: "linux",
+          homedir: home,
+        })
+      ).toEqual({ location: "workspace", layout: "sqlite" });
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { parseArgs } from "util";
+import { Result, ErrorType } from "../types";
+import { SnippetManagerImpl, ImportExportService } from "../core/services";
+import { createError } from "../core/utils";
+import { CliCommand, CliContext, CliFlags, CliIO } from "./context";
+import { createCliStorageService } from "./storage";
+import {
+  addSnippet,
+  copySnippet,
+  deleteSnippet,
+  editSnippet,
+  insertSnippet,
+  listSnippets,
+  renderSnippet,
+  searchSnippets,
+  showSnippet,
+} from "./commands/snippets";
+import { manageCategories, manageTags } from "./commands/taxonomy";
+import {
+  backupLibrary,
+  exportSnippets,
+  importSnippets,
+  lintLibrary,
+  restoreLibrary,
+  showStats,
+} from "./commands/library";
+
+const commands: Record<string, CliCommand> = {
+  list: listSnippets,
+  ls: listSnippets,
+  search: searchSnippets,
+  show: showSnippet,
+  get: showSnippet,
+  add: addSnippet,
+  edit: editSnippet,
+  delete: deleteSnippet,
+  rm: deleteSnippet,
+  copy: copySnippet,
+  insert: insertSnippet,
+  render: renderSnippet,
+  tag: manageTags,
+  category: manageCategories,
+  import: importSnippets,
+  export: exportSnippets,
+  backup: backupLibrary,
+  restore: restoreLibrary,
+  stats: showStats,
+  lint: lintLibrary,
+};
+
+const HELP = [
+  "Usage: snippets <command> [options]",
+  "",
+  "Commands:",
+  "  list [--language <id>] [--tag <tag>] [--category <path>]",
+  "                                   List snippets",
+  "  search <query> [--limit <n>]     Search with the query syntax, e.g.",
+  '                                   lang:ts tag:react "use effect"; quote',
+  "                                   queries with exclusions like -tag:old",
+  "  show <id-or-title>               Show a snippet and its code",
+  "  add [file|-] --title <title>     Add a snippet from a file or stdin",
+  "  edit <id-or-title> [--title ...] Edit the code in $EDITOR, or change",
+  "                                   metadata with flags",
+  "  delete <id-or-title>             Delete a snippet",
+  "  copy <id-or-title>               Copy a snippet to the clipboard",
+  "  insert <id-or-title> <file>      Append a snippet to a file",
+  "  render <id-or-title> [file] [--var <field>=<value>] [--vars <file>]",
+  "                                   Fill in a template and print it or",
+  "                                   write it to a file; fields without a",
+  "                                   value are prompted for on a terminal",
+  "                                   and take their defaults otherwise",
+  "  tag list|aliases|rename|alias|unalias|add|remove",
+  "                                   Manage tags and tag aliases",
+  "  category list|rename|set         Manage categories",
+  "  import <file|-> [--conflict skip|overwrite|rename]",
+  "                                   Import snippets",
+  "  export [file|-] [--metadata]     Export snippets",
+  "  backup [--output <dir>] | backup list",
+  "                                   Back up the library",
+  "  restore <backup-file>            Restore snippets from a backup",
+  "  stats                            Show library statistics",
+  "  lint [--fix]                     Check snippets for problems",
+  "",
+  "Options:",
+  "  --json                           Print JSON for scripts",
+  "  --storage <path>                 Library to use instead of the one the",
+  "                                   extension is configured with (also",
+  "                                   SNIPPET_LIBRARY_PATH)",
+  "  --format json|yaml|vscode|markdown",
+  "                                   Import, export and backup format",
+  "  --language, --description, --tag, --category, --prefix",
+  "                                   Snippet fields for add, edit, list",
+  "                                   and export; --tag may be repeated",
+];
+
+/**
+ * Parse the command line into the command, its arguments and the flags
+ */
+export function parseCliArgs(
+  argv: string[]
+): Result<{ command?: string; args: string[]; flags: CliFlags }> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        json: { type: "boolean" },
+        storage: { type: "string" },
+        help: { type: "boolean", short: "h" },
+        title: { type: "string" },
+        description: { type: "string" },
+        language: { type: "string" },
+        tag: { type: "string", multiple: true },
+        category: { type: "string" },
+        prefix: { type: "string" },
+        limit: { type: "string" },
+        format: { type: "string" },
+        conflict: { type: "string" },
+        output: { type: "string" },
+        metadata: { type: "boolean" },
+        fix: { type: "boolean" },
+        "keep-alias": { type: "boolean" },
+        var: { type: "string", multiple: true },
+        vars: { type: "string" },
+      },
+    });
+    const { "keep-alias": keepAlias, ...flags } = values;
+    const [command, ...args] = positionals;
+
+    return {
+      success: true,
+      data: { command, args, flags: { ...flags, keepAlias } },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: createError(
+        ErrorType.validation,
+        error instanceof Error ? error.message : "Invalid arguments",
+        { argv },
+        true,
+        "Run snippets help for all commands"
+      ),
+    };
+  }
+}
+
+/**
+ * Run the CLI and resolve to its exit code
+ */
+export async function runCli(argv: string[], io: CliIO): Promise<number> {
+  const parsed = parseCliArgs(argv);
+  if (!parsed.success) {
+    return reportError(io, parsed, argv.includes("--json"));
+  }
+
+  const { command, args, flags } = parsed.data;
+  const handler = command ? commands[command] : undefined;
+  if (!handler || flags.help) {
+    HELP.forEach((line) => io.stdout(line));
+    return !command || command === "help" || flags.help ? 0 : 1;
+  }
+
+  const storage = createCliStorageService({
+    storagePath: flags.storage,
+    cwd: io.cwd,
+    env: io.env,
+  });
+  const manager = new SnippetManagerImpl(storage);
+  const ctx: CliContext = {
+    storage,
+    manager,
+    importExport: new ImportExportService(manager),
+    io,
+    flags,
+    exitCode: 0,
+  };
+
+  try {
+    const initResult = await manager.initialize();
+    const result = initResult.success ? await handler(ctx, args) : initResult;
+    return result.success ? ctx.exitCode : reportError(io, result, flags.json);
+  } catch (error) {
+    return reportError(
+      io,
+      {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          error instanceof Error ? error.message : String(error),
+          { command }
+        ),
+      },
+      flags.json
+    );
+  } finally {
+    manager.dispose();
+  }
+}
+
+function reportError(
+  io: CliIO,
+  result: Result<unknown>,
+  json?: boolean
+): number {
+  if (result.success) {
+    return 0;
+  }
+
+  const { error } = result;
+  if (json) {
+    io.stdout(JSON.stringify({ error }, null, 2));
+  } else {
+    io.stderr(`Error: ${error.message}`);
+    if (error.suggestedAction) {
+      io.stderr(error.suggestedAction);
+    }
+  }
+  return 1;
+}
@@ -0,0 +1,310 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ExportFilter, ImportResult, Result, ErrorType } from "../../types";
+import {
+  FileFormat,
+  LibraryStatsService,
+  getFileExtension,
+  getFileFormat,
+} from "../../core/services";
+import { createError } from "../../core/utils";
+import {
+  CliCommand,
+  CliContext,
+  cliChange,
+  getTagFlags,
+  ok,
+  print,
+  usageError,
+} from "../context";
+
+const conflictResolutions = ["skip", "overwrite", "rename"];
+
+/**
+ * Get the --format flag, or the format of the file name without it
+ */
+const getFormat = (
+  ctx: CliContext,
+  filePath?: string
+): Result<FileFormat> => {
+  const { format } = ctx.flags;
+  if (format === undefined) {
+    return {
+      success: true,
+      data: filePath ? getFileFormat(filePath) : "json",
+    };
+  }
+  if (!ctx.importExport.isFormatSupported(format)) {
+    return {
+      success: false,
+      error: createError(
+        ErrorType.validation,
+        `Unsupported format: ${format}`,
+        { format },
+        true,
+        `Use one of: ${ctx.importExport.getSupportedFormats().join(", ")}`
+      ),
+    };
+  }
+  return { success: true, data: format };
+};
+
+const describeImport = (result: ImportResult): string[] => [
+  `Imported ${result.imported} snippets, skipped ${result.skipped}`,
+  ...result.errors.map((error) => `  ${error}`),
+];
+
+/**
+ * Import snippets from a file, or from stdin with "-". The format is
+ * detected from the file name unless --format is given.
+ */
+export const importSnippets: CliCommand = async (ctx, args) => {
+  const usage =
+    "import <file|-> [--format json|yaml|vscode|markdown]" +
+    " [--conflict skip|overwrite|rename] [--language <id>]";
+  const conflict = ctx.flags.conflict || "skip";
+  if (args.length !== 1 || !conflictResolutions.includes(conflict)) {
+    return usageError(usage);
+  }
+  const conflictResolution = conflict as "skip" | "overwrite" | "rename";
+
+  const filePath =
+    args[0] === "-" ? undefined : path.resolve(ctx.io.cwd, args[0]);
+  let result: Result<ImportResult>;
+  if (filePath && ctx.flags.format === undefined) {
+    result = await ctx.importExport.importFromFile({
+      filePath,
+      conflictResolution,
+      language: ctx.flags.language,
+    });
+  } else {
+    const format = getFormat(ctx, filePath);
+    if (!format.success) {
+      return format;
+    }
+    const content = filePath
+      ? await fs.promises.readFile(filePath, "utf-8")
+      : await ctx.io.readStdin();
+    // The format of content from stdin is taken from a file name
+    const parsed = ctx.importExport.parseImportFile(
+      content,
+      `snippets.${getFileExtension(format.data)}`,
+      ctx.flags.language
+    );
+    if (!parsed.success) {
+      return parsed;
+    }
+    result = await ctx.manager.importSnippets({
+      ...parsed.data,
+      conflictResolution,
+    });
+  }
+  if (!result.success) {
+    return result;
+  }
+
+  const imported = result.data;
+  print(ctx, imported, () => describeImport(imported));
+  return ok;
+};
+
+/**
+ * Export snippets to a file, or to stdout without a file or with "-"
+ */
+export const exportSnippets: CliCommand = async (ctx, args) => {
+  if (args.length > 1) {
+    return usageError(
+      "export [file|-] [--format json|yaml|vscode|markdown]" +
+        " [--language <id>] [--tag <tag>] [--category <path>] [--metadata]"
+    );
+  }
+
+  const filePath =
+    args[0] && args[0] !== "-"
+      ? path.resolve(ctx.io.cwd, args[0])
+      : undefined;
+  const format = getFormat(ctx, filePath);
+  if (!format.success) {
+    return format;
+  }
+
+  const filter: ExportFilter = {
+    languages: ctx.flags.language ? [ctx.flags.language] : undefined,
+    tags: ctx.flags.tag ? getTagFlags(ctx.flags) : undefined,
+    categories: ctx.flags.category ? [ctx.flags.category] : undefined,
+  };
+
+  if (!filePath) {
+    const result = await ctx.importExport.exportToString(
+      format.data,
+      filter,
+      ctx.flags.metadata
+    );
+    if (!result.success) {
+      return result;
+    }
+    // The export is the output, so --json changes nothing here
+    ctx.io.stdout(result.data);
+    return ok;
+  }
+
+  const result = await ctx.importExport.exportToFile({
+    format: format.data,
+    filePath,
+    filter,
+    includeMetadata: ctx.flags.metadata,
+  });
+  if (!result.success) {
+    return result;
+  }
+
+  print(ctx, { filePath: result.data, format: format.data }, () => [
+    `Exported snippets to ${result.data}`,
+  ]);
+  return ok;
+};
+
+/**
+ * Back up the library next to it, or into --output, or list the backups
+ */
+export const backupLibrary: CliCommand = async (ctx, args) => {
+  if (args[0] === "list" && args.length === 1) {
+    const result = await ctx.storage.listBackups();
+    if (!result.success) {
+      return result;
+    }
+
+    print(ctx, result.data, () =>
+      result.data.length === 0 ? ["No backups yet"] : result.data
+    );
+    return ok;
+  }
+  if (args.length > 0) {
+    return usageError(
+      "backup [--format json|yaml|vscode|markdown] [--output <dir>]" +
+        " | backup list"
+    );
+  }
+
+  const format = getFormat(ctx);
+  if (!format.success) {
+    return format;
+  }
+  const location = ctx.storage.getStorageLocation();
+  if (!location.success) {
+    return location;
+  }
+
+  const result = await ctx.importExport.createBackup({
+    format: format.data,
+    includeTimestamp: true,
+    customPath: ctx.flags.output
+      ? path.resolve(ctx.io.cwd, ctx.flags.output)
+      : path.join(path.dirname(location.data.path), "backups"),
+  });
+  if (!result.success) {
+    return result;
+  }
+
+  print(ctx, { filePath: result.data }, () => [
+    `Backed up the library to ${result.data}`,
+  ]);
+  return ok;
+};
+
+/**
+ * Restore snippets from a backup, overwriting snippets with the same IDs
+ */
+export const restoreLibrary: CliCommand = async (ctx, args) => {
+  if (args.length !== 1) {
+    return usageError("restore <backup-file>");
+  }
+
+  const result = await ctx.importExport.restoreFromBackup(
+    path.resolve(ctx.io.cwd, args[0])
+  );
+  if (!result.success) {
+    return result;
+  }
+
+  const restored = result.data;
+  print(ctx, restored, () => describeImport(restored));
+  return ok;
+};
+
+/**
+ * Show the library overview of the dashboard
+ */
+export const showStats: CliCommand = async (ctx) => {
+  const allResult = await ctx.manager.getAllSnippets();
+  if (!allResult.success) {
+    return allResult;
+  }
+
+  const dashboard = new LibraryStatsService().getDashboard(allResult.data);
+  const counts = (items: { name: string; count: number }[]) =>
+    items.map(({ name, count }) => `${name} (${count})`).join(", ") ||
+    "none";
+
+  print(ctx, dashboard, () => [
+    `Snippets: ${dashboard.total}`,
+    `Uses: ${dashboard.totalUsage}`,
+    `Languages: ${counts(dashboard.languages)}`,
+    `Categories: ${counts(dashboard.categories)}`,
+    `Tags: ${counts(dashboard.tags)}`,
+    `Most used: ${
+      dashboard.mostUsed
+        .map((snippet) => `${snippet.title} (${snippet.usageCount})`)
+        .join(", ") || "none"
+    }`,
+    ...dashboard.health.map((warning) => `Warning: ${warning.message}`),
+  ]);
+  return ok;
+};
+
+/**
+ * Lint the library, applying safe fixes with --fix. Errors fail the
+ * command, so it can guard commits and CI jobs.
+ */
+export const lintLibrary: CliCommand = async (ctx) => {
+  let fixed = 0;
+  if (ctx.flags.fix) {
+    const fixResult = await ctx.manager.fixLintIssues(undefined, cliChange);
+    if (!fixResult.success) {
+      return fixResult;
+    }
+    fixed = fixResult.data;
+  }
+
+  const reportResult = await ctx.manager.lintLibrary();
+  if (!reportResult.success) {
+    return reportResult;
+  }
+  const allResult = await ctx.manager.getAllSnippets();
+  if (!allResult.success) {
+    return allResult;
+  }
+
+  const report = reportResult.data;
+  ctx.exitCode = report.counts.error > 0 ? 1 : 0;
+
+  const titles = new Map(
+    allResult.data.map((snippet) => [snippet.id, snippet.title])
+  );
+  print(ctx, ctx.flags.fix ? { ...report, fixed } : report, () => [
+    ...(ctx.flags.fix ? [`Fixed ${fixed} snippets`] : []),
+    ...report.issues.map((issue) => {
+      const where = issue.snippetId
+        ? `${titles.get(issue.snippetId) || issue.snippetId}` +
+          `${issue.line ? `:${issue.line}` : ""}: `
+        : "";
+      return (
+        `${issue.severity}: ${where}${issue.message}` +
+        ` [${issue.rule}]${issue.fix ? " (fixable)" : ""}`
+      );
+    }),
+    `${report.counts.error} errors, ${report.counts.warning} warnings,` +
+      ` ${report.counts.info} suggestions in ${report.checked} snippets`,
+  ]);
+  return ok;
+};
@@ -0,0 +1,673 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import {
+  SnippetInterface,
+  SnippetData,
+  Result,
+  ErrorType,
+} from "../../types";
+import { SearchService, SearchIndex } from "../../core/services";
+import { createError } from "../../core/utils";
+import { parseQuery } from "../../core/query";
+import { detectLanguage } from "../../core/lint";
+import {
+  getPromptFields,
+  getTemplateFields,
+  renderTemplate,
+  TemplateContext,
+} from "../../core/template";
+import {
+  CliCommand,
+  CliContext,
+  cliChange,
+  findSnippet,
+  getTagFlags,
+  ok,
+  print,
+  usageError,
+} from "../context";
+
+// File extensions of common languages, to guess the language of added
+// files and give edited code a name editors recognize
+const languageExtensions: Record<string, string> = {
+  javascript: "js",
+  javascriptreact: "jsx",
+  typescript: "ts",
+  typescriptreact: "tsx",
+  python: "py",
+  ruby: "rb",
+  go: "go",
+  rust: "rs",
+  java: "java",
+  kotlin: "kt",
+  csharp: "cs",
+  cpp: "cpp",
+  c: "c",
+  php: "php",
+  swift: "swift",
+  shellscript: "sh",
+  powershell: "ps1",
+  sql: "sql",
+  html: "html",
+  css: "css",
+  scss: "scss",
+  json: "json",
+  yaml: "yaml",
+  markdown: "md",
+  plaintext: "txt",
+};
+
+const extensionLanguages = new Map(
+  Object.entries(languageExtensions).map(([language, extension]) => [
+    `.${extension}`,
+    language,
+  ])
+);
+extensionLanguages.set(".mjs", "javascript");
+extensionLanguages.set(".cjs", "javascript");
+extensionLanguages.set(".bash", "shellscript");
+extensionLanguages.set(".yml", "yaml");
+
+const describeSnippet = (snippet: SnippetInterface): string => {
+  const tags = snippet.tags.length > 0 ? ` #${snippet.tags.join(" #")}` : "";
+  return `${snippet.id}  ${snippet.title} (${snippet.language})${tags}`;
+};
+
+const getLimit = (ctx: CliContext, fallback?: number): number | undefined => {
+  const limit = parseInt(ctx.flags.limit || "", 10);
+  return limit > 0 ? limit : fallback;
+};
+
+const readError = (filePath: string, error: unknown): Result<never> => ({
+  success: false,
+  error: createError(
+    ErrorType.storageAccess,
+    `Failed to read ${filePath}`,
+    { filePath, error: error instanceof Error ? error.message : error },
+    true,
+    "Check the file path and permissions"
+  ),
+});
+
+const invalidValues = (
+  message: string,
+  details: Record<string, unknown>,
+  suggestion?: string
+): Result<never> => ({
+  success: false,
+  error: createError(ErrorType.validation, message, details, true, suggestion),
+});
+
+/**
+ * List snippets, optionally filtered by language, tags and category
+ */
+export const listSnippets: CliCommand = async (ctx) => {
+  const result = await ctx.manager.searchSnippets({
+    language: ctx.flags.language,
+    tags: ctx.flags.tag ? getTagFlags(ctx.flags) : undefined,
+    category: ctx.flags.category,
+    sortBy: "title",
+  });
+  if (!result.success) {
+    return result;
+  }
+
+  const snippets = result.data.slice(0, getLimit(ctx));
+  print(ctx, snippets, () =>
+    snippets.length === 0
+      ? ["No snippets found"]
+      : snippets.map(describeSnippet)
+  );
+  return ok;
+};
+
+/**
+ * Search snippets with the query syntax of the search boxes, ranking the
+ * results like the Web GUI and the extension do
+ */
+export const searchSnippets: CliCommand = async (ctx, args) => {
+  if (args.length === 0) {
+    return usageError("search <query> [--limit <n>]");
+  }
+
+  const parsed = parseQuery(args.join(" "));
+  if (!parsed.success) {
+    return parsed;
+  }
+  const allResult = await ctx.manager.getAllSnippets();
+  if (!allResult.success) {
+    return allResult;
+  }
+
+  // Words still have to appear in the snippet, the text only ranks them
+  const text = (parsed.data.filters || [])
+    .filter(
+      (filter) => filter.field === "text" && filter.operator === "contains"
+    )
+    .map((filter) => filter.value)
+    .join(" ");
+  const searchService = new SearchService(undefined, new SearchIndex());
+  const searchResult = await searchService.searchWithRanking(
+    allResult.data,
+    { ...parsed.data, text: text || undefined },
+    getLimit(ctx, 20)
+  );
+  if (!searchResult.success) {
+    return searchResult;
+  }
+
+  const results = searchResult.data;
+  print(
+    ctx,
+    results.map(({ snippet, score }) => ({ snippet, score })),
+    () =>
+      results.length === 0
+        ? ["No snippets match this query"]
+        : results.map(
+            ({ snippet, score }) =>
+              `${describeSnippet(snippet)}  [${score.toFixed(2)}]`
+          )
+  );
+  return ok;
+};
+
+/**
+ * Show a snippet with its code
+ */
+export const showSnippet: CliCommand = async (ctx, args) => {
+  if (args.length !== 1) {
+    return usageError("show <id-or-title>");
+  }
+
+  const found = await findSnippet(ctx, args[0]);
+  if (!found.success) {
+    return found;
+  }
+
+  const snippet = found.data;
+  print(ctx, snippet, () => [
+    snippet.title,
+    `  ID: ${snippet.id}`,
+    `  Language: ${snippet.language}`,
+    `  Tags: ${snippet.tags.join(", ") || "none"}`,
+    ...(snippet.category ? [`  Category: ${snippet.category}`] : []),
+    ...(snippet.prefix ? [`  Prefix: ${snippet.prefix}`] : []),
+    `  Usage: ${snippet.usageCount} times`,
+    ...(snippet.description ? [`  Description: ${snippet.description}`] : []),
+    "",
+    snippet.code,
+  ]);
+  return ok;
+};
+
+/**
+ * Add a snippet with the code of a file, or of stdin without a file or
+ * with "-"
+ */
+export const addSnippet: CliCommand = async (ctx, args) => {
+  const usage =
+    "add [file|-] --title <title> [--language <id>] [--description <text>]" +
+    " [--tag <tag>] [--category <path>] [--prefix <prefix>]";
+  if (args.length > 1) {
+    return usageError(usage);
+  }
+
+  const file = args[0] && args[0] !== "-" ? args[0] : undefined;
+  let code: string;
+  if (file) {
+    const filePath = path.resolve(ctx.io.cwd, file);
+    try {
+      code = await fs.promises.readFile(filePath, "utf-8");
+    } catch (error) {
+      return readError(filePath, error);
+    }
+  } else if (ctx.io.isStdinTTY()) {
+    return usageError(usage);
+  } else {
+    code = await ctx.io.readStdin();
+  }
+  code = code.replace(/\r?\n$/, "");
+
+  const title =
+    ctx.flags.title || (file && path.basename(file, path.extname(file)));
+  if (!title) {
+    return usageError(usage);
+  }
+
+  const data: SnippetData = {
+    title,
+    description: ctx.flags.description || "",
+    code,
+    language:
+      ctx.flags.language ||
+      (file && extensionLanguages.get(path.extname(file).toLowerCase())) ||
+      detectLanguage(code) ||
+      "plaintext",
+    tags: getTagFlags(ctx.flags),
+    category: ctx.flags.category,
+    prefix: ctx.flags.prefix,
+  };
+  const result = await ctx.manager.createSnippet(data, cliChange);
+  if (!result.success) {
+    return result;
+  }
+
+  print(ctx, result.data, () => [
+    `Added "${result.data.title}" (${result.data.language})`,
+    `  ID: ${result.data.id}`,
+  ]);
+  return ok;
+};
+
+/**
+ * Change the metadata of a snippet with flags, or edit its code in
+ * $VISUAL or $EDITOR when no flags are given
+ */
+export const editSnippet: CliCommand = async (ctx, args) => {
+  if (args.length !== 1) {
+    return usageError(
+      "edit <id-or-title> [--title <title>] [--language <id>]" +
+        " [--description <text>] [--tag <tag>] [--category <path>]" +
+        " [--prefix <prefix>]"
+    );
+  }
+
+  const found = await findSnippet(ctx, args[0]);
+  if (!found.success) {
+    return found;
+  }
+  const snippet = found.data;
+
+  const { flags } = ctx;
+  const updates: Partial<SnippetData> = {};
+  if (flags.title !== undefined) {
+    updates.title = flags.title;
+  }
+  if (flags.description !== undefined) {
+    updates.description = flags.description;
+  }
+  if (flags.language !== undefined) {
+    updates.language = flags.language;
+  }
+  if (flags.tag !== undefined) {
+    updates.tags = getTagFlags(flags);
+  }
+  if (flags.category !== undefined) {
+    updates.category = flags.category;
+  }
+  if (flags.prefix !== undefined) {
+    updates.prefix = flags.prefix;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    const edited = await editCode(ctx, snippet);
+    if (!edited.success) {
+      return edited;
+    }
+    if (edited.data === snippet.code) {
+      print(ctx, snippet, () => ["No changes"]);
+      return ok;
+    }
+    updates.code = edited.data;
+  }
+
+  const result = await ctx.manager.updateSnippet(
+    snippet.id,
+    updates,
+    cliChange
+  );
+  if (!result.success) {
+    return result;
+  }
+
+  print(ctx, result.data, () => [`Updated "${result.data.title}"`]);
+  return ok;
+};
+
+/**
+ * Delete a snippet
+ */
+export const deleteSnippet: CliCommand = async (ctx, args) => {
+  if (args.length !== 1) {
+    return usageError("delete <id-or-title>");
+  }
+
+  const found = await findSnippet(ctx, args[0]);
+  if (!found.success) {
+    return found;
+  }
+
+  const result = await ctx.manager.deleteSnippet(found.data.id);
+  if (!result.success) {
+    return result;
+  }
+
+  print(ctx, { deleted: found.data.id }, () => [
+    `Deleted "${found.data.title}"`,
+  ]);
+  return ok;
+};
+
+/**
+ * Copy a snippet to the clipboard, filling in its template fields
+ */
+export const copySnippet: CliCommand = async (ctx, args) => {
+  if (args.length !== 1) {
+    return usageError("copy <id-or-title>");
+  }
+
+  const found = await findSnippet(ctx, args[0]);
+  if (!found.success) {
+    return found;
+  }
+
+  const snippet = found.data;
+  const code = await fillTemplate(ctx, snippet, {});
+  const copied = await ctx.io.copyToClipboard(code);
+  await ctx.manager.incrementUsage(snippet.id, "cli");
+
+  print(ctx, { snippet: snippet.id, copied, code }, () =>
+    copied
+      ? [`Copied "${snippet.title}" to the clipboard`]
+      : ["No clipboard is available. Here is the code:", code]
+  );
+  return ok;
+};
+
+/**
+ * Append a snippet to a file, filling in its template fields
+ */
+export const insertSnippet: CliCommand = async (ctx, args) => {
+  if (args.length !== 2) {
+    return usageError("insert <id-or-title> <file>");
+  }
+
+  const found = await findSnippet(ctx, args[0]);
+  if (!found.success) {
+    return found;
+  }
+
+  const snippet = found.data;
+  const filePath = path.resolve(ctx.io.cwd, args[1]);
+  try {
+    const content = fs.existsSync(filePath)
+      ? await fs.promises.readFile(filePath, "utf-8")
+      : "";
+    const code = await fillTemplate(ctx, snippet, {
+      filePath,
+      workspaceFolder: ctx.io.cwd,
+    });
+    await fs.promises.writeFile(
+      filePath,
+      `${content}${content ? "\n\n" : ""}${code}\n`,
+      "utf-8"
+    );
+    await ctx.manager.incrementUsage(snippet.id, "cli");
+
+    print(ctx, { snippet: snippet.id, filePath }, () => [
+      `Inserted "${snippet.title}" into ${args[1]}`,
+    ]);
+    return ok;
+  } catch (error) {
+    return {
+      success: false,
+      error: createError(
+        ErrorType.storageAccess,
+        `Failed to insert into ${args[1]}`,
+        { filePath, error: error instanceof Error ? error.message : error },
+        true,
+        "Check the file path and permissions"
+      ),
+    };
+  }
+};
+
+/**
+ * Render a snippet to stdout or into a file. Template fields take their
+ * values from --vars and --var, then from prompts on a terminal, and
+ * otherwise fall back to their defaults.
+ */
+export const renderSnippet: CliCommand = async (ctx, args) => {
+  if (args.length < 1 || args.length > 2) {
+    return usageError(
+      "render <id-or-title> [file] [--var <field>=<value>] [--vars <file>]"
+    );
+  }
+
+  const found = await findSnippet(ctx, args[0]);
+  if (!found.success) {
+    return found;
+  }
+
+  const snippet = found.data;
+  const values = await getTemplateValues(ctx, snippet);
+  if (!values.success) {
+    return values;
+  }
+
+  const filePath = args[1] ? path.resolve(ctx.io.cwd, args[1]) : undefined;
+  const code = await fillTemplate(
+    ctx,
+    snippet,
+    { filePath, workspaceFolder: ctx.io.cwd },
+    { values: values.data, prompt: ctx.io.isStdinTTY() }
+  );
+
+  if (filePath) {
+    try {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, `${code}\n`, "utf-8");
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          `Failed to write ${args[1]}`,
+          { filePath, error: error instanceof Error ? error.message : error },
+          true,
+          "Check the file path and permissions"
+        ),
+      };
+    }
+  }
+  await ctx.manager.incrementUsage(snippet.id, "cli");
+
+  if (filePath) {
+    print(ctx, { snippet: snippet.id, filePath }, () => [
+      `Rendered "${snippet.title}" to ${args[1]}`,
+    ]);
+  } else {
+    print(ctx, { snippet: snippet.id, code }, () => [code]);
+  }
+  return ok;
+};
+
+/**
+ * Open the code of a snippet in the editor and read it back
+ */
+async function editCode(
+  ctx: CliContext,
+  snippet: SnippetInterface
+): Promise<Result<string>> {
+  const extension = languageExtensions[snippet.language] || "txt";
+  const filePath = path.join(
+    os.tmpdir(),
+    `snippet-${snippet.id}.${extension}`
+  );
+
+  try {
+    await fs.promises.writeFile(filePath, `${snippet.code}\n`, "utf-8");
+    if (!(await ctx.io.editFile(filePath))) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "The editor exited with an error",
+          { filePath },
+          true,
+          "Set $EDITOR to an editor that waits until the file is closed"
+        ),
+      };
+    }
+    const code = await fs.promises.readFile(filePath, "utf-8");
+    return { success: true, data: code.replace(/\r?\n$/, "") };
+  } catch (error) {
+    return readError(filePath, error);
+  } finally {
+    await fs.promises.rm(filePath, { force: true });
+  }
+}
+
+/**
+ * Read template values from the --vars file and the --var flags. Flags win
+ * over the file. Unknown fields are only an error on the command line, so
+ * one vars file can serve several snippets.
+ */
+async function getTemplateValues(
+  ctx: CliContext,
+  snippet: SnippetInterface
+): Promise<Result<Record<string, string>>> {
+  const fields = getTemplateFields(snippet.code, snippet.variables);
+  const values: Record<string, string> = {};
+  // Tabstops are shown as $1, $2, ... in prompts
+  const toKey = (name: string) => name.trim().replace(/^\$/, "");
+
+  if (ctx.flags.vars) {
+    const filePath = path.resolve(ctx.io.cwd, ctx.flags.vars);
+    let content: string;
+    try {
+      content = await fs.promises.readFile(filePath, "utf-8");
+    } catch (error) {
+      return readError(filePath, error);
+    }
+
+    let data: unknown;
+    try {
+      data = /\.ya?ml$/i.test(filePath)
+        ? yaml.load(content)
+        : JSON.parse(content);
+    } catch (error) {
+      return invalidValues(
+        `Invalid vars file: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        { filePath }
+      );
+    }
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      return invalidValues("The vars file must map field names to values", {
+        filePath,
+      });
+    }
+
+    for (const [name, value] of Object.entries(data)) {
+      if (value === null || typeof value === "object") {
+        return invalidValues(
+          `Value of "${name}" must be text, a number or true/false`,
+          { filePath }
+        );
+      }
+      values[toKey(name)] = String(value);
+    }
+  }
+
+  for (const assignment of ctx.flags.var || []) {
+    const separator = assignment.indexOf("=");
+    if (separator < 1) {
+      return usageError("render <id-or-title> --var <field>=<value>");
+    }
+    const key = toKey(assignment.slice(0, separator));
+    if (!fields.some((field) => field.key === key)) {
+      return invalidValues(
+        `Unknown template field: ${key}`,
+        { key },
+        fields.length > 0
+          ? `Fields of "${snippet.title}": ${fields
+              .map((field) => field.key)
+              .join(", ")}`
+          : `"${snippet.title}" has no template fields`
+      );
+    }
+    values[key] = assignment.slice(separator + 1);
+  }
+
+  for (const field of fields) {
+    const value = values[field.key];
+    if (
+      field.choices &&
+      value !== undefined &&
+      !field.choices.includes(value)
+    ) {
+      return invalidValues(
+        `${field.key} must be one of: ${field.choices.join(", ")}`,
+        { key: field.key, value }
+      );
+    }
+  }
+
+  return { success: true, data: values };
+}
+
+/**
+ * Prompt for tabstops, placeholders, choices and variables that have no
+ * value yet, then render the code. Without prompts the fields fall back to
+ * their defaults.
+ */
+async function fillTemplate(
+  ctx: CliContext,
+  snippet: SnippetInterface,
+  context: TemplateContext,
+  options: { values?: Record<string, string>; prompt?: boolean } = {}
+): Promise<string> {
+  const values: Record<string, string> = { ...options.values };
+  const fields =
+    options.prompt === false
+      ? []
+      : getPromptFields(snippet.code, snippet.variables, context).filter(
+          (field) => values[field.key] === undefined
+        );
+
+  if (fields.length > 0) {
+    ctx.io.stderr(`Fill in "${snippet.title}":`);
+  }
+  for (const field of fields) {
+    const label = field.index !== undefined ? `$${field.index}` : field.name;
+    const description = field.description ? ` - ${field.description}` : "";
+
+    if (field.choices) {
+      const choices = field.choices;
+      choices.forEach((choice, i) => ctx.io.stderr(`  ${i + 1}) ${choice}`));
+      // Like --var, only the listed choices are accepted
+      let value: string | undefined;
+      while (value === undefined) {
+        const answer = (
+          await ctx.io.prompt(`  ${label}${description} [1]: `)
+        ).trim();
+        value = !answer
+          ? choices[0]
+          : /^\d+$/.test(answer)
+          ? choices[parseInt(answer, 10) - 1]
+          : choices.find((choice) => choice === answer);
+        if (value === undefined) {
+          ctx.io.stderr(
+            `  Pick 1-${choices.length} or one of: ${choices.join(", ")}`
+          );
+        }
+      }
+      values[field.key] = value;
+    } else {
+      const fallback = field.defaultValue || "";
+      const answer = await ctx.io.prompt(
+        `  ${label}${description}${fallback ? ` [${fallback}]` : ""}: `
+      );
+      values[field.key] = answer || fallback;
+    }
+  }
+
+  return renderTemplate(snippet.code, values, {
+    variables: snippet.variables,
+    context,
+  });
+}
@@ -0,0 +1,239 @@
+import { CategoryNode, LibraryCount } from "../../types";
+import {
+  CliCommand,
+  cliChange,
+  findSnippet,
+  ok,
+  print,
+  usageError,
+} from "../context";
+
+const TAG_USAGE =
+  "tag list | tag aliases | tag rename <from> <to> [--keep-alias] |" +
+  " tag alias <alias> <tag> | tag unalias <alias> |" +
+  " tag add <id-or-title> <tag>... | tag remove <id-or-title> <tag>...";
+
+const CATEGORY_USAGE =
+  "category list | category rename <from> <to> |" +
+  " category set <id-or-title> [category]";
+
+const describeChanged = (count: number) =>
+  `${count} ${count === 1 ? "snippet" : "snippets"} changed`;
+
+const formatCategoryTree = (nodes: CategoryNode[], depth = 0): string[] =>
+  nodes.flatMap((node) => [
+    `${"  ".repeat(depth)}${node.name} (${node.count})`,
+    ...formatCategoryTree(node.children, depth + 1),
+  ]);
+
+/**
+ * List, rename and alias tags, and tag or untag snippets
+ */
+export const manageTags: CliCommand = async (ctx, args) => {
+  const [action, ...rest] = args;
+
+  switch (action) {
+    case "list":
+    case undefined: {
+      const allResult = await ctx.manager.getAllSnippets();
+      if (!allResult.success) {
+        return allResult;
+      }
+
+      const counts = new Map<string, number>();
+      allResult.data.forEach((snippet) =>
+        snippet.tags.forEach((tag) =>
+          counts.set(tag, (counts.get(tag) || 0) + 1)
+        )
+      );
+      const tags: LibraryCount[] = Array.from(counts.entries())
+        .map(([name, count]) => ({ name, count }))
+        .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+
+      print(ctx, tags, () =>
+        tags.length === 0
+          ? ["No tags yet"]
+          : tags.map(({ name, count }) => `${name} (${count})`)
+      );
+      return ok;
+    }
+
+    case "aliases": {
+      const result = await ctx.manager.getTagAliases();
+      if (!result.success) {
+        return result;
+      }
+
+      const aliases = Object.entries(result.data);
+      print(ctx, result.data, () =>
+        aliases.length === 0
+          ? ["No tag aliases yet"]
+          : aliases.map(([alias, tag]) => `${alias} -> ${tag}`)
+      );
+      return ok;
+    }
+
+    case "rename": {
+      if (rest.length !== 2) {
+        return usageError(TAG_USAGE);
+      }
+
+      const result = await ctx.manager.renameTag(
+        rest[0],
+        rest[1],
+        { keepAlias: ctx.flags.keepAlias },
+        cliChange
+      );
+      if (!result.success) {
+        return result;
+      }
+
+      print(ctx, { changed: result.data }, () => [
+        `Renamed tag "${rest[0]}" to "${rest[1]}": ${describeChanged(
+          result.data
+        )}`,
+      ]);
+      return ok;
+    }
+
+    case "alias": {
+      if (rest.length !== 2) {
+        return usageError(TAG_USAGE);
+      }
+
+      const result = await ctx.manager.setTagAlias(rest[0], rest[1], cliChange);
+      if (!result.success) {
+        return result;
+      }
+
+      print(ctx, result.data, () => [`"${rest[0]}" is now an alias`]);
+      return ok;
+    }
+
+    case "unalias": {
+      if (rest.length !== 1) {
+        return usageError(TAG_USAGE);
+      }
+
+      const result = await ctx.manager.removeTagAlias(rest[0]);
+      if (!result.success) {
+        return result;
+      }
+
+      print(ctx, result.data, () => [`Removed alias "${rest[0]}"`]);
+      return ok;
+    }
+
+    case "add":
+    case "remove": {
+      if (rest.length < 2) {
+        return usageError(TAG_USAGE);
+      }
+
+      const found = await findSnippet(ctx, rest[0]);
+      if (!found.success) {
+        return found;
+      }
+
+      const given = rest.slice(1);
+      const tags =
+        action === "add"
+          ? Array.from(new Set([...found.data.tags, ...given]))
+          : found.data.tags.filter((tag) => !given.includes(tag));
+      const result = await ctx.manager.updateSnippet(
+        found.data.id,
+        { tags },
+        cliChange
+      );
+      if (!result.success) {
+        return result;
+      }
+
+      print(ctx, result.data, () => [
+        `Tags of "${result.data.title}": ${
+          result.data.tags.join(", ") || "none"
+        }`,
+      ]);
+      return ok;
+    }
+
+    default:
+      return usageError(TAG_USAGE);
+  }
+};
+
+/**
+ * List and rename categories, and move snippets between them
+ */
+export const manageCategories: CliCommand = async (ctx, args) => {
+  const [action, ...rest] = args;
+
+  switch (action) {
+    case "list":
+    case undefined: {
+      const result = await ctx.manager.getCategoryTree();
+      if (!result.success) {
+        return result;
+      }
+
+      print(ctx, result.data, () =>
+        result.data.length === 0
+          ? ["No categories yet"]
+          : formatCategoryTree(result.data)
+      );
+      return ok;
+    }
+
+    case "rename": {
+      if (rest.length !== 2) {
+        return usageError(CATEGORY_USAGE);
+      }
+
+      const result = await ctx.manager.renameCategory(
+        rest[0],
+        rest[1],
+        cliChange
+      );
+      if (!result.success) {
+        return result;
+      }
+
+      print(ctx, { changed: result.data }, () => [
+        `Renamed category "${rest[0]}" to "${rest[1]}": ${describeChanged(
+          result.data
+        )}`,
+      ]);
+      return ok;
+    }
+
+    case "set": {
+      if (rest.length < 1 || rest.length > 2) {
+        return usageError(CATEGORY_USAGE);
+      }
+
+      const found = await findSnippet(ctx, rest[0]);
+      if (!found.success) {
+        return found;
+      }
+
+      const result = await ctx.manager.updateSnippet(
+        found.data.id,
+        { category: rest[1] || "" },
+        cliChange
+      );
+      if (!result.success) {
+        return result;
+      }
+
+      print(ctx, result.data, () => [
+        result.data.category
+          ? `Moved "${result.data.title}" to ${result.data.category}`
+          : `Removed the category of "${result.data.title}"`,
+      ]);
+      return ok;
+    }
+
+    default:
+      return usageError(CATEGORY_USAGE);
+  }
+};
@@ -0,0 +1,167 @@
+import {
+  SnippetInterface,
+  ChangeContext,
+  Result,
+  ErrorType,
+} from "../types";
+import {
+  SnippetManagerImpl,
+  ImportExportService,
+  StorageService,
+} from "../core/services";
+import { createError } from "../core/utils";
+
+/**
+ * Terminal the CLI talks to. Tests replace it to capture output and fake
+ * stdin, the editor, the clipboard and prompts.
+ */
+export interface CliIO {
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  stdout(text: string): void;
+  stderr(text: string): void;
+  isStdinTTY(): boolean;
+  readStdin(): Promise<string>;
+  prompt(question: string): Promise<string>;
+  editFile(filePath: string): Promise<boolean>; // False when the editor fails
+  copyToClipboard(text: string): Promise<boolean>;
+}
+
+/**
+ * Flags of all commands. Tags may be repeated or comma-separated.
+ */
+export interface CliFlags {
+  json?: boolean;
+  storage?: string;
+  help?: boolean;
+  title?: string;
+  description?: string;
+  language?: string;
+  tag?: string[];
+  category?: string;
+  prefix?: string;
+  limit?: string;
+  format?: string;
+  conflict?: string;
+  output?: string;
+  metadata?: boolean;
+  fix?: boolean;
+  keepAlias?: boolean;
+  var?: string[];
+  vars?: string;
+}
+
+/**
+ * Everything a command needs: the library, the terminal and the flags
+ */
+export interface CliContext {
+  storage: StorageService;
+  manager: SnippetManagerImpl;
+  importExport: ImportExportService;
+  io: CliIO;
+  flags: CliFlags;
+  exitCode: number; // Commands may fail without an error, as lint does
+}
+
+/**
+ * Changes made from the command line
+ */
+export const cliChange: ChangeContext = { source: "cli" };
+
+/**
+ * Command handler, given the arguments after the command name
+ */
+export type CliCommand = (
+  ctx: CliContext,
+  args: string[]
+) => Promise<Result<void>>;
+
+export const ok: Result<void> = { success: true, data: undefined };
+
+/**
+ * Print data as JSON with --json, otherwise as the given lines
+ */
+export function print(
+  ctx: CliContext,
+  data: unknown,
+  lines: () => string[]
+): void {
+  if (ctx.flags.json) {
+    ctx.io.stdout(JSON.stringify(data, null, 2));
+  } else {
+    lines().forEach((line) => ctx.io.stdout(line));
+  }
+}
+
+/**
+ * Fail a command that was called with the wrong arguments
+ */
+export function usageError(usage: string): Result<never> {
+  return {
+    success: false,
+    error: createError(
+      ErrorType.validation,
+      `Usage: snippets ${usage}`,
+      { usage },
+      true,
+      "Run snippets help for all commands"
+    ),
+  };
+}
+
+/**
+ * Get the tags given with --tag, splitting comma-separated lists
+ */
+export function getTagFlags(flags: CliFlags): string[] {
+  return (flags.tag || [])
+    .flatMap((value) => value.split(","))
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Find a snippet by ID, by title or by a part of its title that only one
+ * snippet has
+ */
+export async function findSnippet(
+  ctx: CliContext,
+  reference: string
+): Promise<Result<SnippetInterface>> {
+  const allResult = await ctx.manager.getAllSnippets();
+  if (!allResult.success) {
+    return allResult;
+  }
+
+  const snippets = allResult.data;
+  const lower = reference.toLowerCase();
+  const exact =
+    snippets.find((snippet) => snippet.id === reference) ||
+    snippets.find((snippet) => snippet.title.toLowerCase() === lower);
+  if (exact) {
+    return { success: true, data: exact };
+  }
+
+  const partial = snippets.filter((snippet) =>
+    snippet.title.toLowerCase().includes(lower)
+  );
+  if (partial.length === 1) {
+    return { success: true, data: partial[0] };
+  }
+
+  return {
+    success: false,
+    error: createError(
+      ErrorType.validation,
+      partial.length === 0
+        ? `Snippet not found: ${reference}`
+        : `"${reference}" matches ${partial.length} snippets`,
+      { reference, matches: partial.map((snippet) => snippet.id) },
+      true,
+      partial.length === 0
+        ? "Run snippets list to see the snippets"
+        : `Use one of the IDs: ${partial
+            .map((snippet) => `${snippet.id} (${snippet.title})`)
+            .join(", ")}`
+    ),
+  };
+}
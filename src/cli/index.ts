@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+import { spawn } from "child_process";
+import * as readline from "readline";
+import { CliIO } from "./context";
+import { runCli } from "./cli";
+
+export { runCli, parseCliArgs } from "./cli";
+export { CliIO, CliFlags, CliContext } from "./context";
+export {
+  createCliStorageService,
+  readStorageSettings,
+  getUserSettingsPath,
+  STORAGE_PATH_VARIABLE,
+} from "./storage";
+
+// Clipboard commands tried in order on each platform
+const clipboardCommands: Partial<Record<NodeJS.Platform, string[][]>> = {
+  win32: [["clip"]],
+  darwin: [["pbcopy"]],
+  linux: [["wl-copy"], ["xclip", "-selection", "clipboard"], ["xsel", "-ib"]],
+};
+
+const runCommand = (
+  command: string,
+  args: string[],
+  options: { input?: string; shell?: boolean } = {}
+): Promise<boolean> =>
+  new Promise((resolve) => {
+    const child = spawn(command, args, {
+      stdio: [
+        options.input === undefined ? "inherit" : "pipe",
+        "inherit",
+        "inherit",
+      ],
+      shell: options.shell,
+    });
+    child.on("error", () => resolve(false));
+    child.on("close", (code) => resolve(code === 0));
+    if (options.input !== undefined) {
+      child.stdin?.end(options.input);
+    }
+  });
+
+/**
+ * Terminal of the running process. Close it when done, so prompts stop
+ * reading stdin.
+ */
+export function createProcessIO(): CliIO & { close(): void } {
+  let prompts: readline.Interface | undefined;
+  let promptLines: AsyncIterableIterator<string> | undefined;
+
+  return {
+    cwd: process.cwd(),
+    env: process.env,
+    stdout: (text) => process.stdout.write(`${text}\n`),
+    stderr: (text) => process.stderr.write(`${text}\n`),
+    isStdinTTY: () => !!process.stdin.isTTY,
+    readStdin: async () => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of process.stdin) {
+        chunks.push(Buffer.from(chunk));
+      }
+      return Buffer.concat(chunks).toString("utf-8");
+    },
+    prompt: async (question) => {
+      if (!prompts || !promptLines) {
+        // One reader for all prompts, so piped answers are not lost
+        prompts = readline.createInterface({ input: process.stdin });
+        promptLines = prompts[Symbol.asyncIterator]();
+      }
+      process.stderr.write(question);
+      const { value } = await promptLines.next();
+      return value || "";
+    },
+    editFile: (filePath) => {
+      const editor =
+        process.env.VISUAL ||
+        process.env.EDITOR ||
+        (process.platform === "win32" ? "notepad" : "vi");
+      // The editor may come with arguments, such as "code --wait"
+      return runCommand(`${editor} "${filePath}"`, [], { shell: true });
+    },
+    copyToClipboard: async (text) => {
+      const commands = clipboardCommands[process.platform] || [];
+      for (const [command, ...args] of commands) {
+        if (await runCommand(command, args, { input: text })) {
+          return true;
+        }
+      }
+      return false;
+    },
+    close: () => prompts?.close(),
+  };
+}
+
+if (require.main === module) {
+  const io = createProcessIO();
+  runCli(process.argv.slice(2), io).then((code) => {
+    io.close();
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,134 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { StorageLayout } from "../types";
+import {
+  StorageService,
+  createWorkspaceStorageService,
+  createGlobalStorageService,
+  createTeamStorageService,
+  parseJsonWithComments,
+} from "../core/services";
+
+/**
+ * Environment variable pointing the CLI at a library, like --storage
+ */
+export const STORAGE_PATH_VARIABLE = "SNIPPET_LIBRARY_PATH";
+
+/**
+ * Storage settings the extension reads from VS Code
+ */
+export interface CliStorageSettings {
+  location: "workspace" | "global";
+  layout?: StorageLayout;
+}
+
+/**
+ * Where the CLI looks for the library and its settings
+ */
+export interface CliStorageOptions {
+  storagePath?: string; // --storage flag
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  platform?: NodeJS.Platform;
+  homedir?: string;
+}
+
+/**
+ * Get the path of the VS Code user settings file on this platform
+ */
+export function getUserSettingsPath(
+  env: NodeJS.ProcessEnv,
+  platform: NodeJS.Platform = process.platform,
+  homedir: string = os.homedir()
+): string {
+  switch (platform) {
+    case "win32":
+      return path.join(
+        env.APPDATA || path.join(homedir, "AppData", "Roaming"),
+        "Code",
+        "User",
+        "settings.json"
+      );
+    case "darwin":
+      return path.join(
+        homedir,
+        "Library",
+        "Application Support",
+        "Code",
+        "User",
+        "settings.json"
+      );
+    default:
+      return path.join(
+        env.XDG_CONFIG_HOME || path.join(homedir, ".config"),
+        "Code",
+        "User",
+        "settings.json"
+      );
+  }
+}
+
+/**
+ * Read the storage settings of the extension, with workspace settings of
+ * the current directory taking precedence over user settings. Missing or
+ * unreadable settings files are skipped.
+ */
+export function readStorageSettings(
+  options: CliStorageOptions
+): CliStorageSettings {
+  const settings: CliStorageSettings = { location: "global" };
+  const files = [
+    getUserSettingsPath(options.env, options.platform, options.homedir),
+    path.join(options.cwd, ".vscode", "settings.json"),
+  ];
+
+  for (const file of files) {
+    let values: Record<string, unknown>;
+    try {
+      values = parseJsonWithComments(fs.readFileSync(file, "utf-8"));
+    } catch {
+      continue;
+    }
+    if (!values || typeof values !== "object") {
+      continue;
+    }
+
+    const location = values["snippetLibrary.storageLocation"];
+    if (location === "workspace" || location === "global") {
+      settings.location = location;
+    }
+    const layout = values["snippetLibrary.storageLayout"];
+    if (typeof layout === "string") {
+      settings.layout = layout as StorageLayout;
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Create the storage of the library the CLI works on: the --storage path,
+ * then the SNIPPET_LIBRARY_PATH variable, then the storage location the
+ * extension is configured with
+ */
+export function createCliStorageService(
+  options: CliStorageOptions
+): StorageService {
+  const explicitPath =
+    options.storagePath || options.env[STORAGE_PATH_VARIABLE];
+  if (explicitPath) {
+    // Any library path is opened the way team libraries are: the layout
+    // follows from the file extension
+    return createTeamStorageService(path.resolve(options.cwd, explicitPath));
+  }
+
+  const settings = readStorageSettings(options);
+  if (settings.location === "workspace") {
+    return createWorkspaceStorageService(
+      path.join(options.cwd, ".vscode", "snippets"),
+      settings.layout
+    );
+  }
+  return createGlobalStorageService(settings.layout);
+}
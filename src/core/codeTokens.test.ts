@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import { analyzeCode, findCodeToken, tokenizeCode } from "./codeTokens";
+
+const kinds = (code: string, language: string) =>
+  tokenizeCode(code, language).map((token) => `${token.kind}:${token.text}`);
+
+describe("codeTokens", () => {
+  describe("tokenizeCode", () => {
+    it("should separate identifiers, keywords, strings and comments", () => {
+      expect(
+        kinds('const url = "/api"; // fetch later\nfetch(url, 3);', "typescript")
+      ).toEqual([
+        "keyword:const",
+        "identifier:url",
+        'string:"/api"',
+        "comment:// fetch later",
+        "identifier:fetch",
+        "identifier:url",
+        "number:3",
+      ]);
+    });
+
+    it("should follow the comment and string rules of the language", () => {
+      expect(kinds('# note\ndef f():\n    """doc"""', "python")).toEqual([
+        "comment:# note",
+        "keyword:def",
+        "identifier:f",
+        'string:"""doc"""',
+      ]);
+      expect(kinds("SELECT id -- key\nFROM users", "sql")).toEqual([
+        "keyword:SELECT",
+        "identifier:id",
+        "comment:-- key",
+        "keyword:FROM",
+        "identifier:users",
+      ]);
+    });
+
+    it("should handle escapes and unterminated literals", () => {
+      expect(kinds("'it\\'s' + \"open\nnext", "javascript")).toEqual([
+        "string:'it\\'s'",
+        'string:"open',
+        "identifier:next",
+      ]);
+      expect(kinds("/* never closed", "java")).toEqual([
+        "comment:/* never closed",
+      ]);
+    });
+
+    it("should keep JavaScript regular expressions whole", () => {
+      expect(kinds("return /[/(]\\//g.test(a) / 2", "javascript")).toEqual([
+        "keyword:return",
+        "string:/[/(]\\//g",
+        "identifier:test",
+        "identifier:a",
+        "number:2",
+      ]);
+      expect(kinds("x = a / b / c", "java")).toEqual([
+        "identifier:x",
+        "identifier:a",
+        "identifier:b",
+        "identifier:c",
+      ]);
+    });
+
+    it("should not take JSX closing tags for regular expressions", () => {
+      expect(
+        kinds("<ul>{xs.map(x => <li>{x}</li>)}</ul>", "javascriptreact")
+      ).toEqual([
+        "identifier:ul",
+        "identifier:xs",
+        "identifier:map",
+        "identifier:x",
+        "identifier:li",
+        "identifier:x",
+        "identifier:li",
+        "identifier:ul",
+      ]);
+    });
+
+    it("should fall back to generic rules for unknown languages", () => {
+      expect(kinds("run # later", "makefile")).toEqual([
+        "identifier:run",
+        "comment:# later",
+      ]);
+    });
+  });
+
+  describe("findCodeToken", () => {
+    it("should find the token covering a position", () => {
+      const tokens = tokenizeCode("let total = sum(a, b);", "javascript");
+
+      expect(findCodeToken(tokens, 6)?.text).toBe("total");
+      expect(findCodeToken(tokens, 12)?.text).toBe("sum");
+      expect(findCodeToken(tokens, 10)).toBeUndefined();
+    });
+  });
+
+  describe("analyzeCode", () => {
+    it("should find calls but not definitions or control flow", () => {
+      const structure = analyzeCode(
+        "function load(url) {\n" +
+          "  if (!url) return null;\n" +
+          "  return fetch(url).then((r) => r.json());\n" +
+          "}",
+        "javascript"
+      );
+
+      expect(structure.calls).toEqual(["fetch", "then", "json"]);
+      expect(structure.definitions).toEqual([
+        { kind: "function", name: "load" },
+      ]);
+    });
+
+    it("should find classes, methods and arrow functions", () => {
+      const structure = analyzeCode(
+        "export class Store extends Base {\n" +
+          "  render(): void {\n" +
+          "    this.update();\n" +
+          "  }\n" +
+          "}\n" +
+          "const useStore = () => new Store();",
+        "typescript"
+      );
+
+      expect(structure.definitions).toEqual([
+        { kind: "class", name: "Store" },
+        { kind: "function", name: "render" },
+        { kind: "function", name: "useStore" },
+      ]);
+      expect(structure.calls).toEqual(["update", "Store"]);
+    });
+
+    it("should understand other languages", () => {
+      expect(
+        analyzeCode("class Cache(dict):\n    def get(self, key):", "python")
+          .definitions
+      ).toEqual([
+        { kind: "class", name: "Cache" },
+        { kind: "function", name: "get" },
+      ]);
+      expect(
+        analyzeCode("CREATE TABLE users (id INT); SELECT COUNT(*)", "sql")
+      ).toEqual({
+        definitions: [{ kind: "type", name: "users" }],
+        calls: ["COUNT"],
+      });
+    });
+
+    it("should ignore calls inside strings and comments", () => {
+      expect(
+        analyzeCode('// fetch(url)\nlog("fetch(url)");', "javascript").calls
+      ).toEqual(["log"]);
+    });
+  });
+});
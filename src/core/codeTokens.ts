@@ -0,0 +1,465 @@
+/**
+ * Kind of a token found in snippet code
+ */
+export type CodeTokenKind =
+  | "identifier"
+  | "keyword"
+  | "string"
+  | "comment"
+  | "number";
+
+/**
+ * Token of snippet code with its position
+ */
+export interface CodeToken {
+  kind: CodeTokenKind;
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Relative weight of a search hit by where it lands in code, so that
+ * identifiers rank above strings and comments
+ */
+export const CODE_TOKEN_WEIGHTS: Record<CodeTokenKind, number> = {
+  identifier: 1,
+  keyword: 0.8,
+  number: 0.8,
+  string: 0.6,
+  comment: 0.4,
+};
+
+/**
+ * Kind of thing a snippet defines
+ */
+export type CodeDefinitionKind =
+  | "class"
+  | "interface"
+  | "function"
+  | "type"
+  | "module";
+
+/**
+ * Name defined by a snippet, such as a class or function
+ */
+export interface CodeDefinition {
+  kind: CodeDefinitionKind;
+  name: string;
+}
+
+/**
+ * What a snippet defines and which functions it calls
+ */
+export interface CodeStructure {
+  definitions: CodeDefinition[];
+  calls: string[];
+}
+
+/**
+ * Lexical rules of a language family
+ */
+interface LanguageSyntax {
+  lineComments: string[];
+  blockComments: [string, string][];
+  quotes: string[]; // Longest first, so """ wins over "
+  keywords: Set<string>;
+  definitions: Record<string, CodeDefinitionKind>;
+  ignoreCase?: boolean;
+  bracedMethods?: boolean; // `name(args) {` defines a method
+  regexLiterals?: boolean; // `/.../flags` where a value may start
+}
+
+const C_LIKE: LanguageSyntax = {
+  lineComments: ["//"],
+  blockComments: [["/*", "*/"]],
+  quotes: ['"', "'", "`"],
+  keywords: new Set(
+    (
+      "abstract as async await break case catch class const continue " +
+      "default delete do else enum export extends final finally fn for " +
+      "from fun func function go if impl implements import in instanceof " +
+      "interface let match mod namespace new package private protected " +
+      "public return static struct super switch this throw throws trait " +
+      "try type typeof use val var void while yield"
+    ).split(" ")
+  ),
+  definitions: {
+    class: "class",
+    struct: "class",
+    interface: "interface",
+    trait: "interface",
+    enum: "type",
+    type: "type",
+    function: "function",
+    fn: "function",
+    fun: "function",
+    func: "function",
+    namespace: "module",
+    mod: "module",
+  },
+  bracedMethods: true,
+};
+
+const PYTHON: LanguageSyntax = {
+  lineComments: ["#"],
+  blockComments: [],
+  quotes: ['"""', "'''", '"', "'"],
+  keywords: new Set(
+    (
+      "and as assert async await break class continue def del elif else " +
+      "except finally for from global if import in is lambda nonlocal not " +
+      "or pass raise return try while with yield"
+    ).split(" ")
+  ),
+  definitions: { class: "class", def: "function" },
+};
+
+const RUBY: LanguageSyntax = {
+  lineComments: ["#"],
+  blockComments: [["=begin", "=end"]],
+  quotes: ['"', "'"],
+  keywords: new Set(
+    (
+      "begin break case class def do else elsif end ensure for if in " +
+      "module next nil redo rescue retry return self super then unless " +
+      "until when while yield"
+    ).split(" ")
+  ),
+  definitions: { class: "class", def: "function", module: "module" },
+};
+
+const SHELL: LanguageSyntax = {
+  lineComments: ["#"],
+  blockComments: [],
+  quotes: ['"', "'"],
+  keywords: new Set(
+    (
+      "case do done elif else esac export fi for function if in local " +
+      "return then until while"
+    ).split(" ")
+  ),
+  definitions: { function: "function" },
+};
+
+const SQL: LanguageSyntax = {
+  lineComments: ["--"],
+  blockComments: [["/*", "*/"]],
+  quotes: ["'", '"'],
+  keywords: new Set(
+    (
+      "add all alter and as asc between by case create delete desc " +
+      "distinct drop else end exists from function group having in index " +
+      "inner insert into is join left like limit not null on or order " +
+      "outer procedure right select set table then union update values " +
+      "view when where"
+    ).split(" ")
+  ),
+  definitions: {
+    table: "type",
+    view: "type",
+    function: "function",
+    procedure: "function",
+  },
+  ignoreCase: true,
+};
+
+const MARKUP: LanguageSyntax = {
+  lineComments: [],
+  blockComments: [["<!--", "-->"]],
+  quotes: ['"', "'"],
+  keywords: new Set(),
+  definitions: {},
+};
+
+const STYLESHEET: LanguageSyntax = {
+  lineComments: ["//"],
+  blockComments: [["/*", "*/"]],
+  quotes: ['"', "'"],
+  keywords: new Set(),
+  definitions: {},
+};
+
+// Rust uses ' for lifetimes, so only " starts a string
+const RUST: LanguageSyntax = { ...C_LIKE, quotes: ['"'] };
+
+const JAVASCRIPT: LanguageSyntax = { ...C_LIKE, regexLiterals: true };
+
+// Used for languages without rules of their own
+const GENERIC: LanguageSyntax = {
+  lineComments: ["//", "#"],
+  blockComments: [["/*", "*/"]],
+  quotes: ['"', "'", "`"],
+  keywords: new Set(),
+  definitions: {},
+};
+
+const LANGUAGE_SYNTAX: Record<string, LanguageSyntax> = {
+  javascript: JAVASCRIPT,
+  javascriptreact: JAVASCRIPT,
+  typescript: JAVASCRIPT,
+  typescriptreact: JAVASCRIPT,
+  java: C_LIKE,
+  c: C_LIKE,
+  cpp: C_LIKE,
+  csharp: C_LIKE,
+  go: C_LIKE,
+  kotlin: C_LIKE,
+  swift: C_LIKE,
+  php: C_LIKE,
+  scala: C_LIKE,
+  dart: C_LIKE,
+  rust: RUST,
+  python: PYTHON,
+  ruby: RUBY,
+  shellscript: SHELL,
+  powershell: SHELL,
+  sql: SQL,
+  html: MARKUP,
+  xml: MARKUP,
+  vue: MARKUP,
+  css: STYLESHEET,
+  scss: STYLESHEET,
+  less: STYLESHEET,
+};
+
+const WORD = /[\p{L}_$][\p{L}\p{N}_$]*/uy;
+const NUMBER = /\p{N}[\p{L}\p{N}_.]*/uy;
+// Function assigned to a variable: `= function`, `= (a) =>` or `= a =>`
+const FUNCTION_VALUE = /^\s*=\s*(async\s*)?(function\b|\([^)]*\)\s*=>|\w+\s*=>)/;
+// A slash after these starts a regular expression rather than a division
+const REGEX_AFTER = "(,=:[!&|?{};+-*%<>~^";
+const REGEX_AFTER_KEYWORDS = new Set(
+  (
+    "await case delete do else in instanceof new return throw typeof " +
+    "void yield"
+  ).split(" ")
+);
+
+/**
+ * Split code into identifiers, keywords, string literals, comments and
+ * numbers, following the comment and string rules of its language.
+ * Operators and whitespace are left out.
+ */
+export function tokenizeCode(code: string, language: string): CodeToken[] {
+  const syntax = LANGUAGE_SYNTAX[(language || "").toLowerCase()] || GENERIC;
+  const tokens: CodeToken[] = [];
+  let index = 0;
+
+  const push = (kind: CodeTokenKind, end: number) => {
+    tokens.push({ kind, text: code.slice(index, end), start: index, end });
+    index = end;
+  };
+
+  scan: while (index < code.length) {
+    for (const marker of syntax.lineComments) {
+      if (code.startsWith(marker, index)) {
+        const end = code.indexOf("\n", index);
+        push("comment", end < 0 ? code.length : end);
+        continue scan;
+      }
+    }
+
+    for (const [open, close] of syntax.blockComments) {
+      if (code.startsWith(open, index)) {
+        const end = code.indexOf(close, index + open.length);
+        push("comment", end < 0 ? code.length : end + close.length);
+        continue scan;
+      }
+    }
+
+    for (const quote of syntax.quotes) {
+      if (code.startsWith(quote, index)) {
+        push("string", findStringEnd(code, index, quote));
+        continue scan;
+      }
+    }
+
+    // Regular expressions are kept whole like strings
+    if (syntax.regexLiterals && code[index] === "/") {
+      const end = findRegexEnd(code, index, tokens[tokens.length - 1]);
+      if (end > 0) {
+        push("string", end);
+        continue;
+      }
+    }
+
+    WORD.lastIndex = index;
+    const word = WORD.exec(code);
+    if (word) {
+      const text = syntax.ignoreCase ? word[0].toLowerCase() : word[0];
+      const kind = syntax.keywords.has(text) ? "keyword" : "identifier";
+      push(kind, WORD.lastIndex);
+      continue;
+    }
+
+    NUMBER.lastIndex = index;
+    if (NUMBER.exec(code)) {
+      push("number", NUMBER.lastIndex);
+      continue;
+    }
+
+    index++;
+  }
+
+  return tokens;
+}
+
+/**
+ * Find the token covering a position of the code, if any
+ */
+export function findCodeToken(
+  tokens: CodeToken[],
+  position: number
+): CodeToken | undefined {
+  let low = 0;
+  let high = tokens.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const token = tokens[middle];
+    if (position < token.start) {
+      high = middle - 1;
+    } else if (position >= token.end) {
+      low = middle + 1;
+    } else {
+      return token;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find what a snippet defines and which functions it calls. This reads
+ * the tokens rather than parsing, so it recognizes common declarations
+ * such as `class Name`, `def name` or `const name = () =>`.
+ */
+export function analyzeCode(code: string, language: string): CodeStructure {
+  const syntax = LANGUAGE_SYNTAX[(language || "").toLowerCase()] || GENERIC;
+  const tokens = tokenizeCode(code, language).filter(
+    (token) => token.kind === "identifier" || token.kind === "keyword"
+  );
+  const definitions: CodeDefinition[] = [];
+  const calls = new Set<string>();
+
+  tokens.forEach((token, i) => {
+    const previous = tokens[i - 1];
+    const keyword = syntax.ignoreCase ? token.text.toLowerCase() : token.text;
+
+    if (token.kind === "keyword") {
+      const kind = syntax.definitions[keyword];
+      const next = tokens[i + 1];
+      if (kind && next?.kind === "identifier") {
+        definitions.push({ kind, name: next.text });
+      } else if (
+        ["const", "let", "var", "val"].includes(keyword) &&
+        next?.kind === "identifier" &&
+        FUNCTION_VALUE.test(code.slice(next.end))
+      ) {
+        definitions.push({ kind: "function", name: next.text });
+      }
+      return;
+    }
+
+    const after = code.slice(token.end);
+    if (!/^\s*\(/.test(after)) {
+      return;
+    }
+    const previousKeyword =
+      previous?.kind === "keyword" &&
+      (syntax.ignoreCase ? previous.text.toLowerCase() : previous.text);
+    if (previousKeyword && syntax.definitions[previousKeyword]) {
+      return; // Name of a function being defined
+    }
+
+    if (syntax.bracedMethods && isBracedMethod(after)) {
+      definitions.push({ kind: "function", name: token.text });
+    } else {
+      calls.add(token.text);
+    }
+  });
+
+  return { definitions, calls: Array.from(calls) };
+}
+
+/**
+ * Find where a string literal starting at `start` ends; unterminated
+ * single line strings end at the line break
+ */
+function findStringEnd(code: string, start: number, quote: string): number {
+  let index = start + quote.length;
+  while (index < code.length) {
+    if (code[index] === "\\") {
+      index += 2;
+    } else if (code.startsWith(quote, index)) {
+      return index + quote.length;
+    } else if (quote.length === 1 && quote !== "`" && code[index] === "\n") {
+      return index;
+    } else {
+      index++;
+    }
+  }
+  return code.length;
+}
+
+/**
+ * Find the end of a regular expression literal starting at a slash, or -1
+ * when the slash divides or closes a JSX tag. What precedes the slash
+ * tells them apart.
+ */
+function findRegexEnd(
+  code: string,
+  start: number,
+  previous: CodeToken | undefined
+): number {
+  if (code[start - 1] === "<") {
+    return -1;
+  }
+
+  let before = start - 1;
+  while (before >= 0 && /\s/.test(code[before])) {
+    before--;
+  }
+  const afterKeyword =
+    previous?.kind === "keyword" &&
+    previous.end === before + 1 &&
+    REGEX_AFTER_KEYWORDS.has(previous.text);
+  if (before >= 0 && !afterKeyword && !REGEX_AFTER.includes(code[before])) {
+    return -1;
+  }
+
+  let inClass = false;
+  for (let index = start + 1; index < code.length; index++) {
+    const char = code[index];
+    if (char === "\\") {
+      index++;
+    } else if (char === "\n") {
+      return -1;
+    } else if (char === "[") {
+      inClass = true;
+    } else if (char === "]") {
+      inClass = false;
+    } else if (char === "/" && !inClass) {
+      let end = index + 1;
+      while (end < code.length && /[a-z]/i.test(code[end])) {
+        end++;
+      }
+      return end;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Whether an argument list is followed by a block, as in `render() {`
+ */
+function isBracedMethod(after: string): boolean {
+  let depth = 0;
+  for (let index = after.indexOf("("); index < after.length; index++) {
+    if (after[index] === "(") {
+      depth++;
+    } else if (after[index] === ")" && --depth === 0) {
+      return /^\s*(:\s*[\w<>[\], |.?]+\s*)?\{/.test(after.slice(index + 1));
+    }
+  }
+  return false;
+}
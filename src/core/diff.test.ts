@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { diffLines, formatDiff, mergeLines, splitLines } from "./diff";
+
+describe("diff", () => {
+  describe("splitLines", () => {
+    it("should normalize CRLF line endings", () => {
+      expect(splitLines("a\r\nb\nc")).toEqual(["a", "b", "c"]);
+    });
+
+    it("should return no lines for empty text", () => {
+      expect(splitLines("")).toEqual([]);
+    });
+  });
+
+  describe("diffLines", () => {
+    it("should mark identical texts as unchanged", () => {
+      const diff = diffLines("a\nb", "a\nb");
+
+      expect(diff.every((line) => line.type === "unchanged")).toBe(true);
+      expect(diff).toHaveLength(2);
+    });
+
+    it("should detect added and removed lines", () => {
+      const diff = diffLines("a\nb\nc", "a\nx\nc\nd");
+
+      expect(diff.map((line) => `${line.type}:${line.content}`)).toEqual([
+        "unchanged:a",
+        "removed:b",
+        "added:x",
+        "unchanged:c",
+        "added:d",
+      ]);
+    });
+
+    it("should track line numbers on both sides", () => {
+      const diff = diffLines("a\nb", "b");
+
+      expect(diff[0]).toEqual({
+        type: "removed",
+        content: "a",
+        oldLineNumber: 1,
+      });
+      expect(diff[1]).toEqual({
+        type: "unchanged",
+        content: "b",
+        oldLineNumber: 2,
+        newLineNumber: 1,
+      });
+    });
+  });
+
+  describe("mergeLines", () => {
+    const base = "a\nb\nc\nd";
+
+    it("should combine changes to different lines", () => {
+      const result = mergeLines(base, "A\nb\nc\nd", "a\nb\nc\nD\ne");
+
+      expect(result).toEqual({ text: "A\nb\nc\nD\ne", hunks: [] });
+    });
+
+    it("should accept identical changes on both sides", () => {
+      expect(mergeLines(base, "a\nx\nc\nd", "a\nx\nc\nd").hunks).toEqual(
+        []
+      );
+    });
+
+    it("should mark overlapping changes with conflict markers", () => {
+      const result = mergeLines(base, "a\nlocal\nc\nd", "a\nremote\nc\nd");
+
+      expect(result.text).toBe(
+        "a\n<<<<<<< local\nlocal\n=======\nremote\n>>>>>>> remote\nc\nd"
+      );
+      expect(result.hunks).toEqual([
+        { baseLine: 2, base: "b", local: "local", remote: "remote" },
+      ]);
+    });
+
+    it("should keep the local lines without markers", () => {
+      const result = mergeLines(
+        base,
+        "a\nlocal\nc\nd",
+        "a\nremote\nc\nd",
+        false
+      );
+
+      expect(result.text).toBe("a\nlocal\nc\nd");
+      expect(result.hunks).toHaveLength(1);
+    });
+  });
+
+  describe("formatDiff", () => {
+    it("should prefix lines by change type", () => {
+      expect(formatDiff(diffLines("a\nb", "a\nc"))).toBe("  a\n- b\n+ c");
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { DiffLine, MergeHunk } from "../types";
+
+/**
+ * Split text into lines, normalizing line endings
+ */
+export function splitLines(text: string): string[] {
+  if (!text) {
+    return [];
+  }
+  return text.replace(/\r\n/g, "\n").split("\n");
+}
+
+/**
+ * Compute a line-based diff between two texts using the longest common
+ * subsequence of lines
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  const table = buildLcsTable(oldLines, newLines);
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({
+        type: "unchanged",
+        content: oldLines[i],
+        oldLineNumber: i + 1,
+        newLineNumber: j + 1,
+      });
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      result.push({
+        type: "removed",
+        content: oldLines[i],
+        oldLineNumber: i + 1,
+      });
+      i++;
+    } else {
+      result.push({
+        type: "added",
+        content: newLines[j],
+        newLineNumber: j + 1,
+      });
+      j++;
+    }
+  }
+
+  while (i < oldLines.length) {
+    result.push({ type: "removed", content: oldLines[i], oldLineNumber: i + 1 });
+    i++;
+  }
+
+  while (j < newLines.length) {
+    result.push({ type: "added", content: newLines[j], newLineNumber: j + 1 });
+    j++;
+  }
+
+  return result;
+}
+
+/**
+ * Format a diff as unified-style text ("+", "-" and " " prefixes)
+ */
+export function formatDiff(diff: DiffLine[]): string {
+  return diff
+    .map((line) => {
+      switch (line.type) {
+        case "added":
+          return `+ ${line.content}`;
+        case "removed":
+          return `- ${line.content}`;
+        default:
+          return `  ${line.content}`;
+      }
+    })
+    .join("\n");
+}
+
+/**
+ * Result of merging two texts against their common base
+ */
+export interface TextMergeResult {
+  text: string;
+  hunks: Array<Omit<MergeHunk, "field">>;
+}
+
+/**
+ * Three-way merge of two texts changed from a common base. Regions changed
+ * on only one side, or identically on both, are combined; regions changed
+ * differently on both sides become hunks and are written either as
+ * conflict markers or, without markers, as the local lines.
+ */
+export function mergeLines(
+  baseText: string,
+  localText: string,
+  remoteText: string,
+  markers = true
+): TextMergeResult {
+  const base = splitLines(baseText);
+  const local = splitLines(localText);
+  const remote = splitLines(remoteText);
+  const localMatches = matchLines(base, local);
+  const remoteMatches = matchLines(base, remote);
+
+  const lines: string[] = [];
+  const hunks: TextMergeResult["hunks"] = [];
+  let i = 0;
+  let j = 0;
+  let k = 0;
+
+  while (i <= base.length) {
+    // Next base line kept by both sides closes the current region
+    let stable = i;
+    while (
+      stable < base.length &&
+      (localMatches[stable] < 0 || remoteMatches[stable] < 0)
+    ) {
+      stable++;
+    }
+
+    const localEnd = stable < base.length ? localMatches[stable] : local.length;
+    const remoteEnd =
+      stable < base.length ? remoteMatches[stable] : remote.length;
+    const baseChunk = base.slice(i, stable);
+    const localChunk = local.slice(j, localEnd);
+    const remoteChunk = remote.slice(k, remoteEnd);
+
+    if (sameLines(localChunk, baseChunk)) {
+      lines.push(...remoteChunk);
+    } else if (
+      sameLines(remoteChunk, baseChunk) ||
+      sameLines(localChunk, remoteChunk)
+    ) {
+      lines.push(...localChunk);
+    } else {
+      hunks.push({
+        baseLine: i + 1,
+        base: baseChunk.join("\n"),
+        local: localChunk.join("\n"),
+        remote: remoteChunk.join("\n"),
+      });
+      if (markers) {
+        lines.push(
+          "<<<<<<< local",
+          ...localChunk,
+          "=======",
+          ...remoteChunk,
+          ">>>>>>> remote"
+        );
+      } else {
+        lines.push(...localChunk);
+      }
+    }
+
+    if (stable < base.length) {
+      lines.push(base[stable]);
+    }
+    i = stable + 1;
+    j = localEnd + 1;
+    k = remoteEnd + 1;
+  }
+
+  return { text: lines.join("\n"), hunks };
+}
+
+/**
+ * For each line of a, the index of the line of b it is matched with in the
+ * longest common subsequence, or -1
+ */
+function matchLines(a: string[], b: string[]): number[] {
+  const table = buildLcsTable(a, b);
+  const matches: number[] = new Array(a.length).fill(-1);
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      matches[i] = j;
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Build the suffix LCS length table for two line arrays
+ */
+function buildLcsTable(a: string[], b: string[]): number[][] {
+  const table: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] =
+        a[i] === b[j]
+          ? table[i + 1][j + 1] + 1
+          : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  return table;
+}
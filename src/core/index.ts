@@ -14,6 +14,12 @@ export * from "../interfaces/StorageService";
 // Export utility functions
 export * from "./utils";
 export * from "./validation";
+export * from "./diff";
+export * from "./template";
+export * from "./query";
+export * from "./taxonomy";
+export * from "./codeTokens";
+export * from "./lint";
 
 // Export model classes (renamed to avoid conflicts with type aliases)
 export { Snippet as SnippetModel } from "./models/Snippet";
@@ -23,23 +29,44 @@ export { StorageConfig as StorageConfigModel } from "./models/StorageConfig";
 // Export services (excluding conflicting names)
 export {
   FileSystemStorageService,
+  PerSnippetStorageService,
+  SqliteStorageService,
+  LayeredStorageService,
+  LibraryLayer,
+  LayeredStorageOptions,
   SnippetManagerImpl,
   UsageStatistics,
+  SnippetHistoryService,
+  SavedSearchService,
+  CollectionService,
+  TagAliasService,
+  UsageAnalyticsService,
   SearchService,
   SearchResult,
   SearchMatch,
   SearchSuggestion,
   SearchHistoryEntry,
+  SearchCandidateProvider,
+  SearchRankingOptions,
+  RecentUsageProvider,
+  SearchIndex,
+  SearchIndexOptions,
+  SearchIndexHit,
+  tokenize,
   RealTimeSearchManager,
   SearchEvent,
   SearchMetrics,
   createRealTimeSearchManager,
   SearchQueryBuilder,
-  AdvancedSearchFilter,
-  AdvancedSearchQuery,
   SavedSearch,
   SearchPatterns,
+  DuplicateDetectionService,
+  DuplicateDetectionOptions,
+  normalizeCode,
+  LibraryStatsService,
+  LibraryStatsOptions,
   createStorageService,
   createWorkspaceStorageService,
   createGlobalStorageService,
+  createTeamStorageService,
 } from "./services";
@@ -0,0 +1,451 @@
+import {
+  SnippetInterface,
+  SnippetData,
+  LintIssue,
+  LintOptions,
+  LintReport,
+  LintRule,
+  LintSeverity,
+} from "../types";
+import { validateSnippetData } from "./validation";
+import { tokenizeCode } from "./codeTokens";
+import { getSnippetPrefixes } from "./utils";
+
+export const DEFAULT_LINT_OPTIONS: LintOptions = {
+  maxTitleLength: 60,
+  tagAliases: {},
+  disabledRules: [],
+};
+
+const SEVERITY_ORDER: LintSeverity[] = ["error", "warning", "info"];
+
+/**
+ * Patterns that give away the language of code. Languages of a family
+ * share their patterns, so TypeScript is not reported as JavaScript.
+ */
+const LANGUAGE_SIGNALS: Array<{ languages: string[]; patterns: RegExp[] }> = [
+  {
+    languages: [
+      "javascript",
+      "typescript",
+      "javascriptreact",
+      "typescriptreact",
+      "vue",
+    ],
+    patterns: [
+      /\b(const|let)\s+[\w$]+\s*=/,
+      /\)\s*=>/,
+      /\bconsole\.\w+\(/,
+      /\brequire\(["']/,
+      /\bfunction\s*[\w$]*\s*\(/,
+      /\bexport\s+(default|const|function|class)\b/,
+    ],
+  },
+  {
+    languages: ["python"],
+    patterns: [
+      /^\s*def\s+\w+\s*\(.*\)\s*(->\s*[^:]+)?:\s*$/m,
+      /^\s*elif\b/m,
+      /\bself\.\w+/,
+      /^\s*from\s+[\w.]+\s+import\s+/m,
+      /__name__\s*==\s*["']__main__["']/,
+    ],
+  },
+  {
+    languages: ["ruby"],
+    patterns: [
+      /^\s*end\s*$/m,
+      /\bputs\s/,
+      /\.each\s+do\s*\|/,
+      /\battr_\w+\s+:/,
+    ],
+  },
+  {
+    languages: ["shellscript", "powershell"],
+    patterns: [
+      /^#!\/(usr\/)?bin\/(env\s+)?(ba|z)?sh\b/m,
+      /^\s*(fi|done|esac)\s*$/m,
+      /^\s*echo\s/m,
+      /\[\[\s.*\s\]\]/,
+    ],
+  },
+  {
+    languages: ["sql"],
+    patterns: [
+      /\bselect\b[\s\S]+\bfrom\b/i,
+      /\bcreate\s+table\b/i,
+      /\binsert\s+into\b/i,
+      /\bupdate\s+\w+\s+set\b/i,
+    ],
+  },
+  {
+    languages: ["html", "xml", "vue"],
+    patterns: [
+      /<\/?(div|span|html|body|head|ul|li|a|p|section|template)\b[^>]*>/i,
+      /<!DOCTYPE\s+html>/i,
+    ],
+  },
+  {
+    languages: ["css", "scss", "less"],
+    patterns: [/[.#][\w-]+\s*\{[^}]*[\w-]+\s*:\s*[^;]+;/, /@media\b/],
+  },
+  {
+    languages: ["go"],
+    patterns: [
+      /^package\s+\w+\s*$/m,
+      /\bfunc\s+(\(\w+\s+\*?\w+\)\s*)?\w+\(/,
+      /\w\s*:=\s*/,
+      /\bfmt\.\w+\(/,
+    ],
+  },
+  {
+    languages: ["rust"],
+    patterns: [
+      /\bfn\s+\w+\s*(<[^>]*>)?\(/,
+      /\blet\s+mut\b/,
+      /\b\w+!\(/,
+      /\bimpl\b[^{]*\{/,
+    ],
+  },
+  {
+    languages: ["java", "csharp", "kotlin"],
+    patterns: [
+      /\bpublic\s+(static\s+)?(class|void|int|String|string)\b/,
+      /\bSystem\.out\.println\(/,
+      /\bConsole\.WriteLine\(/,
+    ],
+  },
+];
+
+// Languages whose code is prose or where brackets need not pair up,
+// like the `pattern)` of a shell case statement
+const UNCHECKED_BRACKET_LANGUAGES = new Set([
+  "plaintext",
+  "text",
+  "markdown",
+  "shellscript",
+  "html",
+  "xml",
+]);
+
+// Languages where trailing whitespace means something, like the two
+// spaces of a Markdown line break
+const SIGNIFICANT_WHITESPACE_LANGUAGES = new Set(["markdown"]);
+
+const CLOSING_BRACKETS = new Map([
+  [")", "("],
+  ["]", "["],
+  ["}", "{"],
+]);
+
+const SECRET_PATTERNS: Array<{ name: string; pattern: RegExp }> = [
+  { name: "AWS access key", pattern: /\b(AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { name: "GitHub token", pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/ },
+  { name: "Slack token", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/ },
+  { name: "Stripe secret key", pattern: /\b[rs]k_live_[A-Za-z0-9]{20,}\b/ },
+  { name: "Google API key", pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { name: "private key", pattern: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----/ },
+];
+
+// `apiKey = "..."`, `password: '...'` and the like. Values with template
+// fields or placeholder words are left alone.
+const CREDENTIAL_ASSIGNMENT = new RegExp(
+  /\b(?:api[_-]?key|secret|token|passw(?:or)?d)\w*["']?\s*[:=]\s*/.source +
+    /["']([^"'\s]{12,})["']/.source,
+  "gi"
+);
+const PLACEHOLDER_VALUE = /\$|your|example|placeholder|changeme|x{4,}|<.*>/i;
+
+const lineAt = (code: string, index: number) =>
+  code.slice(0, index).split("\n").length;
+
+/**
+ * Guess the language of code from telltale patterns. Nothing is returned
+ * unless one language family stands out.
+ */
+export function detectLanguage(code: string): string | undefined {
+  const scores = LANGUAGE_SIGNALS.map(
+    ({ patterns }) => patterns.filter((pattern) => pattern.test(code)).length
+  );
+  const best = Math.max(...scores);
+  if (best < 2 || scores.filter((score) => score === best).length > 1) {
+    return undefined;
+  }
+  return LANGUAGE_SIGNALS[scores.indexOf(best)].languages[0];
+}
+
+function checkLanguage(
+  snippet: SnippetInterface
+): Omit<LintIssue, "rule" | "severity"> | undefined {
+  const language = (snippet.language || "").toLowerCase();
+  const declared = LANGUAGE_SIGNALS.filter((signal) =>
+    signal.languages.includes(language)
+  );
+  // Only languages the heuristics know can be told apart
+  if (
+    declared.length === 0 ||
+    declared.some(({ patterns }) =>
+      patterns.some((pattern) => pattern.test(snippet.code))
+    )
+  ) {
+    return undefined;
+  }
+
+  const detected = detectLanguage(snippet.code);
+  if (!detected) {
+    return undefined;
+  }
+  return {
+    message: `Code looks like ${detected} rather than ${snippet.language}`,
+  };
+}
+
+function checkBrackets(
+  snippet: SnippetInterface
+): Omit<LintIssue, "rule" | "severity"> | undefined {
+  const code = snippet.code || "";
+  if (UNCHECKED_BRACKET_LANGUAGES.has((snippet.language || "").toLowerCase())) {
+    return undefined;
+  }
+
+  // Brackets in strings and comments do not count
+  const skipped = tokenizeCode(code, snippet.language).filter(
+    (token) => token.kind === "string" || token.kind === "comment"
+  );
+  const open: Array<{ bracket: string; index: number }> = [];
+  let next = 0;
+
+  for (let index = 0; index < code.length; index++) {
+    while (next < skipped.length && skipped[next].end <= index) {
+      next++;
+    }
+    if (next < skipped.length && skipped[next].start <= index) {
+      index = skipped[next].end - 1;
+      continue;
+    }
+
+    const char = code[index];
+    if (char === "(" || char === "[" || char === "{") {
+      open.push({ bracket: char, index });
+    } else if (CLOSING_BRACKETS.has(char)) {
+      const last = open.pop();
+      if (!last || last.bracket !== CLOSING_BRACKETS.get(char)) {
+        return {
+          message: `Unexpected "${char}"`,
+          line: lineAt(code, index),
+        };
+      }
+    }
+  }
+
+  const unclosed = open.pop();
+  return unclosed
+    ? {
+        message: `"${unclosed.bracket}" is never closed`,
+        line: lineAt(code, unclosed.index),
+      }
+    : undefined;
+}
+
+function findSecrets(
+  code: string
+): Array<Omit<LintIssue, "rule" | "severity">> {
+  const found: Array<Omit<LintIssue, "rule" | "severity">> = [];
+
+  for (const { name, pattern } of SECRET_PATTERNS) {
+    const match = pattern.exec(code);
+    if (match) {
+      found.push({
+        message: `Code contains what looks like a ${name}`,
+        line: lineAt(code, match.index),
+      });
+    }
+  }
+
+  // A known kind of secret is not reported again as a credential
+  for (const match of Array.from(code.matchAll(CREDENTIAL_ASSIGNMENT))) {
+    const line = lineAt(code, match.index || 0);
+    if (
+      !PLACEHOLDER_VALUE.test(match[1]) &&
+      !found.some((secret) => secret.line === line)
+    ) {
+      found.push({
+        message: "Code contains what looks like a hard-coded credential",
+        line,
+      });
+    }
+  }
+
+  return found.sort((a, b) => (a.line || 0) - (b.line || 0));
+}
+
+/**
+ * Lint a snippet on its own. Checks that need the rest of the library,
+ * such as colliding prefixes, are made by `lintLibrary`.
+ */
+export function lintSnippet(
+  snippet: SnippetInterface,
+  options: Partial<LintOptions> = {}
+): LintIssue[] {
+  const settings = { ...DEFAULT_LINT_OPTIONS, ...options };
+  const issues: LintIssue[] = [];
+  const add = (
+    rule: LintRule,
+    severity: LintSeverity,
+    issue: Omit<LintIssue, "rule" | "severity" | "snippetId">
+  ) => issues.push({ rule, severity, snippetId: snippet.id, ...issue });
+  const code = snippet.code || "";
+
+  const validation = validateSnippetData(snippet);
+  if (!validation.success) {
+    for (const error of (validation as any).error.details.errors) {
+      add("invalid", "error", { message: error });
+    }
+  }
+
+  for (const secret of findSecrets(code)) {
+    add("secret", "error", secret);
+  }
+
+  if (!snippet.description?.trim()) {
+    add("missingDescription", "warning", {
+      message: "Snippet has no description",
+    });
+  }
+
+  const language = checkLanguage(snippet);
+  if (language) {
+    add("languageMismatch", "warning", language);
+  }
+
+  const brackets = checkBrackets(snippet);
+  if (brackets) {
+    add("unbalancedBrackets", "warning", brackets);
+  }
+
+  if (snippet.title.length > settings.maxTitleLength) {
+    add("longTitle", "info", {
+      message: `Title is longer than ${settings.maxTitleLength} characters`,
+    });
+  }
+
+  const lines = code.split("\n");
+  const trailing = SIGNIFICANT_WHITESPACE_LANGUAGES.has(
+    (snippet.language || "").toLowerCase()
+  )
+    ? 0
+    : lines.filter((line) => /[ \t]+$/.test(line)).length;
+  if (trailing > 0) {
+    add("trailingWhitespace", "info", {
+      message:
+        trailing === 1
+          ? "A line ends with whitespace"
+          : `${trailing} lines end with whitespace`,
+      line: lines.findIndex((line) => /[ \t]+$/.test(line)) + 1,
+      // Fixed snippets are saved again, which invalid snippets cannot be
+      fix: validation.success
+        ? {
+            description: "Remove trailing whitespace",
+            changes: { code: code.replace(/[ \t]+$/gm, "") },
+          }
+        : undefined,
+    });
+  }
+
+  return issues.filter(
+    (issue) => !settings.disabledRules.includes(issue.rule)
+  );
+}
+
+/**
+ * Lint every snippet of a library, plus the checks across snippets:
+ * prefixes that trigger several snippets in the same language and tag
+ * aliases pointing at tags no snippet uses
+ */
+export function lintLibrary(
+  snippets: SnippetInterface[],
+  options: Partial<LintOptions> = {}
+): LintReport {
+  const settings = { ...DEFAULT_LINT_OPTIONS, ...options };
+  const issues = snippets.flatMap((snippet) => lintSnippet(snippet, settings));
+
+  const scopes = (snippet: SnippetInterface) =>
+    snippet.scope && snippet.scope.length > 0
+      ? snippet.scope
+      : [snippet.language];
+  const byPrefix = new Map<string, SnippetInterface[]>();
+  snippets.forEach((snippet) => {
+    const prefixes = getSnippetPrefixes(snippet).map((prefix) =>
+      prefix.toLowerCase()
+    );
+    new Set(prefixes).forEach((prefix) => {
+      byPrefix.set(prefix, [...(byPrefix.get(prefix) || []), snippet]);
+    });
+  });
+  byPrefix.forEach((group, prefix) => {
+    group.forEach((snippet) => {
+      const others = group.filter(
+        (other) =>
+          other !== snippet &&
+          scopes(other).some((scope) => scopes(snippet).includes(scope))
+      );
+      if (others.length > 0) {
+        issues.push({
+          rule: "duplicatePrefix",
+          severity: "warning",
+          snippetId: snippet.id,
+          message: `Prefix "${prefix}" is also used by ${others
+            .map((other) => `"${other.title}"`)
+            .join(", ")}`,
+        });
+      }
+    });
+  });
+
+  const usedTags = new Set(snippets.flatMap((snippet) => snippet.tags));
+  Object.entries(settings.tagAliases).forEach(([alias, tag]) => {
+    if (!usedTags.has(tag)) {
+      issues.push({
+        rule: "unusedTag",
+        severity: "info",
+        message:
+          `Tag alias "${alias}" points to "${tag}", ` +
+          "which no snippet uses",
+      });
+    }
+  });
+
+  const reported = issues
+    .filter((issue) => !settings.disabledRules.includes(issue.rule))
+    .sort(
+      (a, b) =>
+        SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+    );
+  const counts = { error: 0, warning: 0, info: 0 };
+  reported.forEach((issue) => counts[issue.severity]++);
+
+  return {
+    checked: snippets.length,
+    issues: reported,
+    counts,
+    fixable: reported.filter((issue) => issue.fix).length,
+  };
+}
+
+/**
+ * Changes per snippet that apply the safe fixes of lint issues
+ */
+export function collectLintFixes(
+  issues: LintIssue[]
+): Map<string, Partial<SnippetData>> {
+  const fixes = new Map<string, Partial<SnippetData>>();
+  issues.forEach((issue) => {
+    if (issue.fix && issue.snippetId) {
+      fixes.set(issue.snippetId, {
+        ...(fixes.get(issue.snippetId) || {}),
+        ...issue.fix.changes,
+      });
+    }
+  });
+  return fixes;
+}
@@ -1,4 +1,9 @@
-import { SearchQueryInterface, Result, ErrorType } from "../../types";
+import {
+  SearchQueryInterface,
+  SnippetSource,
+  Result,
+  ErrorType,
+} from "../../types";
 import { createError } from "../utils";
 import { validateSearchQuery } from "../validation";
 
@@ -10,6 +15,7 @@ export class SearchQuery implements SearchQueryInterface {
   public language?: string;
   public tags?: string[];
   public category?: string;
+  public source?: SnippetSource;
   public dateRange?: {
     start: Date;
     end: Date;
@@ -30,6 +36,7 @@ export class SearchQuery implements SearchQueryInterface {
     this.language = query.language;
     this.tags = query.tags ? [...query.tags] : undefined;
     this.category = query.category;
+    this.source = query.source;
     this.dateRange = query.dateRange
       ? {
           start: new Date(query.dateRange.start),
@@ -223,6 +230,7 @@ export class SearchQuery implements SearchQueryInterface {
       !this.language &&
       (!this.tags || this.tags.length === 0) &&
       !this.category &&
+      !this.source &&
       !this.dateRange
     );
   }
@@ -245,6 +253,9 @@ export class SearchQuery implements SearchQueryInterface {
     if (this.tags && this.tags.length > 0)
       filters.push(`tags: [${this.tags.join(", ")}]`);
     if (this.category) filters.push(`category: ${this.category}`);
+    if (this.source) {
+      filters.push(`library: ${this.source}`);
+    }
     if (this.dateRange)
       filters.push(
         `date range: ${this.dateRange.start.toDateString()} - ${this.dateRange.end.toDateString()}`
@@ -271,6 +282,7 @@ export class SearchQuery implements SearchQueryInterface {
       language: this.language,
       tags: this.tags ? [...this.tags] : undefined,
       category: this.category,
+      source: this.source,
       dateRange: this.dateRange
         ? {
             start: new Date(this.dateRange.start),
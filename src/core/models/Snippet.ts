@@ -1,6 +1,32 @@
-import { SnippetInterface, SnippetData, Result, ErrorType } from "../../types";
+import {
+  SnippetInterface,
+  SnippetData,
+  SnippetVariable,
+  SnippetSource,
+  Result,
+  ErrorType,
+} from "../../types";
 import { generateId, createError } from "../utils";
 import { validateSnippetData } from "../validation";
+import { isInCategory } from "../taxonomy";
+
+/**
+ * Snippet fields that may be left unset
+ */
+export type OptionalSnippetField =
+  | "category"
+  | "prefix"
+  | "prefixAliases"
+  | "scope"
+  | "variables";
+
+export const optionalSnippetFields: OptionalSnippetField[] = [
+  "category",
+  "prefix",
+  "prefixAliases",
+  "scope",
+  "variables",
+];
 
 /**
  * Snippet class with validation methods
@@ -17,7 +43,10 @@ export class Snippet implements SnippetInterface {
   public updatedAt: Date;
   public usageCount: number;
   public prefix?: string;
+  public prefixAliases?: string[];
   public scope?: string[];
+  public variables?: SnippetVariable[];
+  public source?: SnippetSource;
 
   constructor(data: SnippetData, id?: string) {
     // Validate the data before creating the snippet
@@ -39,7 +68,11 @@ export class Snippet implements SnippetInterface {
     this.updatedAt = new Date();
     this.usageCount = 0;
     this.prefix = data.prefix;
+    this.prefixAliases = data.prefixAliases
+      ? [...data.prefixAliases]
+      : undefined;
     this.scope = data.scope ? [...data.scope] : undefined;
+    this.variables = cloneVariables(data.variables);
   }
 
   /**
@@ -59,14 +92,21 @@ export class Snippet implements SnippetInterface {
   }
 
   /**
-   * Update the snippet with new data
+   * Update the snippet with new data. Fields left undefined in the updates
+   * keep their value unless they are listed in `clear`.
    */
-  update(updates: Partial<SnippetData>): Result<void> {
+  update(
+    updates: Partial<SnippetData>,
+    clear: OptionalSnippetField[] = []
+  ): Result<void> {
     // Create a temporary object with the updates to validate
-    const updatedData = {
+    const updatedData: SnippetData = {
       ...this.toSnippetData(),
       ...updates,
     };
+    for (const field of clear) {
+      delete updatedData[field];
+    }
 
     const validation = validateSnippetData(updatedData);
     if (!validation.success) {
@@ -85,8 +125,19 @@ export class Snippet implements SnippetInterface {
     if (updates.tags !== undefined) this.tags = [...updates.tags];
     if (updates.category !== undefined) this.category = updates.category;
     if (updates.prefix !== undefined) this.prefix = updates.prefix;
+    if (updates.prefixAliases !== undefined) {
+      this.prefixAliases = updates.prefixAliases
+        ? [...updates.prefixAliases]
+        : undefined;
+    }
     if (updates.scope !== undefined)
       this.scope = updates.scope ? [...updates.scope] : undefined;
+    if (updates.variables !== undefined) {
+      this.variables = cloneVariables(updates.variables);
+    }
+    for (const field of clear) {
+      this[field] = undefined;
+    }
 
     this.updatedAt = new Date();
 
@@ -113,7 +164,9 @@ export class Snippet implements SnippetInterface {
       tags: [...this.tags],
       category: this.category,
       prefix: this.prefix,
+      prefixAliases: this.prefixAliases ? [...this.prefixAliases] : undefined,
       scope: this.scope ? [...this.scope] : undefined,
+      variables: cloneVariables(this.variables),
     };
   }
 
@@ -133,7 +186,10 @@ export class Snippet implements SnippetInterface {
       updatedAt: this.updatedAt,
       usageCount: this.usageCount,
       prefix: this.prefix,
+      prefixAliases: this.prefixAliases ? [...this.prefixAliases] : undefined,
       scope: this.scope ? [...this.scope] : undefined,
+      variables: cloneVariables(this.variables),
+      source: this.source,
     };
   }
 
@@ -160,10 +216,17 @@ export class Snippet implements SnippetInterface {
   }
 
   /**
-   * Check if snippet belongs to specified category
+   * Check if snippet belongs to specified category or a subcategory of it
    */
   hasCategory(category: string): boolean {
-    return this.category === category;
+    return isInCategory(this.category, category);
+  }
+
+  /**
+   * Check if snippet was loaded from specified library
+   */
+  hasSource(source: string): boolean {
+    return this.source === source;
   }
 
   /**
@@ -173,3 +236,17 @@ export class Snippet implements SnippetInterface {
     return this.language === language;
   }
 }
+
+/**
+ * Copy template variables so instances do not share mutable state
+ */
+function cloneVariables(
+  variables?: SnippetVariable[]
+): SnippetVariable[] | undefined {
+  return variables
+    ? variables.map((variable) => ({
+        ...variable,
+        choices: variable.choices ? [...variable.choices] : undefined,
+      }))
+    : undefined;
+}
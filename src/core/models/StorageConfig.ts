@@ -1,4 +1,9 @@
-import { StorageConfigInterface, Result, ErrorType } from "../../types";
+import {
+  StorageConfigInterface,
+  StorageLayout,
+  Result,
+  ErrorType,
+} from "../../types";
 import { createError, isEmpty } from "../utils";
 import * as path from "path";
 
@@ -9,6 +14,7 @@ export class StorageConfig implements StorageConfigInterface {
   public location: "workspace" | "global";
   public path?: string;
   public format: "json" | "yaml";
+  public layout?: StorageLayout;
   public autoBackup: boolean;
   public backupInterval: number;
 
@@ -22,6 +28,7 @@ export class StorageConfig implements StorageConfigInterface {
     this.location = config.location || "global";
     this.path = config.path;
     this.format = config.format || "json";
+    this.layout = config.layout;
     this.autoBackup =
       config.autoBackup !== undefined ? config.autoBackup : true;
     this.backupInterval = config.backupInterval || 3600000; // 1 hour in milliseconds
@@ -62,6 +69,7 @@ export class StorageConfig implements StorageConfigInterface {
         data: new StorageConfig({
           location: config.storageLocation || "global",
           format: config.storageFormat || "json",
+          layout: config.storageLayout,
           autoBackup:
             config.autoBackup !== undefined ? config.autoBackup : true,
           backupInterval: config.backupInterval || 3600000,
@@ -162,6 +170,23 @@ export class StorageConfig implements StorageConfigInterface {
       }
     }
 
+    // Validate layout
+    if (config.layout !== undefined) {
+      const validLayouts = ["single-file", "per-snippet", "sqlite"];
+      if (!validLayouts.includes(config.layout)) {
+        return {
+          success: false,
+          error: createError(
+            ErrorType.validation,
+            `Storage layout must be one of: ${validLayouts.join(", ")}`,
+            { layout: config.layout },
+            true,
+            "Use 'single-file', 'per-snippet' or 'sqlite' for storage layout"
+          ),
+        };
+      }
+    }
+
     // Validate autoBackup
     if (
       config.autoBackup !== undefined &&
@@ -230,6 +255,9 @@ export class StorageConfig implements StorageConfigInterface {
     if (updates.location !== undefined) this.location = updates.location;
     if (updates.path !== undefined) this.path = updates.path;
     if (updates.format !== undefined) this.format = updates.format;
+    if (updates.layout !== undefined) {
+      this.layout = updates.layout;
+    }
     if (updates.autoBackup !== undefined) this.autoBackup = updates.autoBackup;
     if (updates.backupInterval !== undefined)
       this.backupInterval = updates.backupInterval;
@@ -237,6 +265,13 @@ export class StorageConfig implements StorageConfigInterface {
     return { success: true, data: undefined };
   }
 
+  /**
+   * Get the storage layout, defaulting to a single collection file
+   */
+  getLayout(): StorageLayout {
+    return this.layout || "single-file";
+  }
+
   /**
    * Get the file extension based on format
    */
@@ -313,6 +348,7 @@ export class StorageConfig implements StorageConfigInterface {
       location: this.location,
       path: this.path,
       format: this.format,
+      layout: this.layout,
       autoBackup: this.autoBackup,
       backupInterval: this.backupInterval,
     };
@@ -333,6 +369,7 @@ export class StorageConfig implements StorageConfigInterface {
       this.location === other.location &&
       this.path === other.path &&
       this.format === other.format &&
+      this.getLayout() === other.getLayout() &&
       this.autoBackup === other.autoBackup &&
       this.backupInterval === other.backupInterval
     );
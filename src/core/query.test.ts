@@ -0,0 +1,283 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseQuery,
+  resolveQuery,
+  matchesFilters,
+  getQueryCompletions,
+} from "./query";
+import { SnippetInterface } from "../types";
+
+const now = new Date("2024-06-30T12:00:00Z");
+
+const createSnippet = (
+  overrides: Partial<SnippetInterface> = {}
+): SnippetInterface => ({
+  id: "snippet-1",
+  title: "React hook",
+  description: "Fetch data in a component",
+  code: "const [data, setData] = useState(null);",
+  language: "typescript",
+  tags: ["react", "hooks"],
+  category: "data access",
+  createdAt: new Date("2024-06-01T00:00:00Z"),
+  updatedAt: new Date("2024-06-20T00:00:00Z"),
+  usageCount: 8,
+  ...overrides,
+});
+
+describe("query", () => {
+  describe("parseQuery", () => {
+    it("should compile fields, exclusions and phrases", () => {
+      const result = parseQuery(
+        'lang:ts tag:react -tag:legacy category:"data access" used:>5 ' +
+          'updated:<30d "exact phrase"',
+        now
+      );
+
+      expect(result.success).toBe(true);
+      if (!result.success) {
+        return;
+      }
+      expect(result.data.language).toBe("typescript");
+      expect(result.data.category).toBe("data access");
+      expect(result.data.filters).toEqual([
+        { field: "tags", operator: "equals", value: "react" },
+        { field: "tags", operator: "not", value: "legacy" },
+        { field: "usageCount", operator: "greaterThan", value: "5" },
+        {
+          field: "updatedAt",
+          operator: "greaterThan",
+          value: "2024-05-31T12:00:00.000Z",
+        },
+        { field: "text", operator: "contains", value: "exact phrase" },
+      ]);
+    });
+
+    it("should return an empty query for blank input", () => {
+      expect(parseQuery("   ")).toEqual({ success: true, data: {} });
+    });
+
+    it("should keep URLs and scoped names as text", () => {
+      const result = parseQuery("http://example.com std::vector");
+
+      expect(result.success).toBe(true);
+      if (!result.success) {
+        return;
+      }
+      expect(result.data.filters?.map((filter) => filter.value)).toEqual([
+        "http://example.com",
+        "std::vector",
+      ]);
+    });
+
+    it("should match a whole day for a date without comparison", () => {
+      const result = parseQuery("created:2024-06-01", now);
+
+      expect(result.success).toBe(true);
+      if (!result.success) {
+        return;
+      }
+      expect(result.data.filters).toEqual([
+        {
+          field: "createdAt",
+          operator: "atLeast",
+          value: "2024-06-01T00:00:00.000Z",
+        },
+        {
+          field: "createdAt",
+          operator: "lessThan",
+          value: "2024-06-02T00:00:00.000Z",
+        },
+      ]);
+    });
+
+    it("should report unknown fields with their position", () => {
+      const result = parseQuery("react colour:red");
+
+      expect(result.success).toBe(false);
+      if (result.success) {
+        return;
+      }
+      expect(result.error.message).toBe('Unknown search field "colour"');
+      expect(result.error.details).toMatchObject({ position: 6 });
+    });
+
+    it("should report missing values and unclosed quotes", () => {
+      const missing = parseQuery("tag:");
+      const unclosed = parseQuery('"exact phrase');
+
+      expect(missing.success).toBe(false);
+      expect(unclosed.success).toBe(false);
+      if (missing.success || unclosed.success) {
+        return;
+      }
+      expect(missing.error.message).toBe("Missing value for tag:");
+      expect(unclosed.error.message).toMatch(/quote/i);
+    });
+
+    it("should reject invalid comparisons", () => {
+      const usage = parseQuery("used:>many");
+      const age = parseQuery("updated:<soon");
+
+      expect(usage.success).toBe(false);
+      expect(age.success).toBe(false);
+    });
+
+    it("should reject requiring two languages", () => {
+      const result = parseQuery("lang:ts lang:python");
+
+      expect(result.success).toBe(false);
+      if (result.success) {
+        return;
+      }
+      expect(result.error.message).toBe("Only one language can be required");
+    });
+  });
+
+  describe("resolveQuery", () => {
+    it("should combine the parsed text with the other fields", () => {
+      const result = resolveQuery(
+        {
+          text: "lang:ts hook",
+          language: "python",
+          category: "frontend",
+          tags: ["react"],
+          filters: [{ field: "code", operator: "contains", value: "use" }],
+        },
+        now
+      );
+
+      expect(result.success).toBe(true);
+      if (!result.success) {
+        return;
+      }
+      expect(result.data).toEqual({
+        text: undefined,
+        language: "typescript",
+        category: "frontend",
+        source: undefined,
+        tags: ["react"],
+        filters: [
+          { field: "code", operator: "contains", value: "use" },
+          { field: "text", operator: "contains", value: "hook" },
+        ],
+      });
+    });
+
+    it("should report errors in the text", () => {
+      const result = resolveQuery({ text: "nope:value" }, now);
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("matchesFilters", () => {
+    const matches = (input: string, snippet = createSnippet()) => {
+      const result = parseQuery(input, now);
+      if (!result.success) {
+        throw new Error(result.error.message);
+      }
+      return matchesFilters(snippet, result.data);
+    };
+
+    it("should match words anywhere in the snippet ignoring case", () => {
+      expect(matches("usestate")).toBe(true);
+      expect(matches("hooks component")).toBe(true);
+      expect(matches("vue")).toBe(false);
+    });
+
+    it("should exclude words and tags", () => {
+      expect(matches("-useState")).toBe(false);
+      expect(matches("-tag:legacy")).toBe(true);
+      expect(matches("-tag:react")).toBe(false);
+    });
+
+    it("should compare tags as whole values", () => {
+      expect(matches("tag:react")).toBe(true);
+      expect(matches("tag:rea")).toBe(false);
+    });
+
+    it("should compare usage counts and ages", () => {
+      expect(matches("used:>5")).toBe(true);
+      expect(matches("used:<=5")).toBe(false);
+      expect(matches("-used:>5")).toBe(false);
+      expect(matches("updated:<30d")).toBe(true);
+      expect(matches("updated:<7d")).toBe(false);
+      expect(matches("created:2024-06-01")).toBe(true);
+    });
+
+    it("should search single fields", () => {
+      expect(matches("title:hook")).toBe(true);
+      expect(matches("code:hook")).toBe(false);
+      expect(matches('desc:"fetch data"')).toBe(true);
+    });
+
+    it("should match the structure of the code", () => {
+      const component = createSnippet({
+        code:
+          "// TODO: fetch instead\n" +
+          "export class Profile extends Component {\n" +
+          "  load() { return axios.get(this.url); }\n" +
+          "}",
+      });
+
+      expect(matches("calls:useState")).toBe(true);
+      expect(matches("calls:get", component)).toBe(true);
+      expect(matches("calls:fetch", component)).toBe(false);
+      expect(matches("defines:class", component)).toBe(true);
+      expect(matches("defines:profile", component)).toBe(true);
+      expect(matches("-defines:class")).toBe(true);
+    });
+  });
+
+  describe("getQueryCompletions", () => {
+    const snippets = [
+      createSnippet(),
+      createSnippet({ id: "snippet-2", tags: ["react", "redux"] }),
+    ];
+
+    it("should complete field names", () => {
+      const completions = getQueryCompletions("lang:ts ta", snippets);
+
+      expect(completions.map((completion) => completion.label)).toEqual([
+        "tag:",
+      ]);
+      expect(completions[0].query).toBe("lang:ts tag:");
+    });
+
+    it("should complete tag values, most used first", () => {
+      const completions = getQueryCompletions("-tag:", snippets);
+
+      expect(completions.map((completion) => completion.label)).toEqual([
+        "-tag:react",
+        "-tag:hooks",
+        "-tag:redux",
+      ]);
+      expect(completions[0]).toMatchObject({
+        description: "2 snippets",
+        query: "-tag:react ",
+      });
+    });
+
+    it("should complete called functions", () => {
+      const completions = getQueryCompletions("calls:use", snippets);
+
+      expect(completions[0]).toMatchObject({
+        label: "calls:useState",
+        description: "2 snippets",
+      });
+    });
+
+    it("should quote values with spaces", () => {
+      const completions = getQueryCompletions("category:da", snippets);
+
+      expect(completions[0].query).toBe('category:"data access" ');
+    });
+
+    it("should complete the term at the cursor", () => {
+      const completions = getQueryCompletions("us react", snippets, 2);
+
+      expect(completions[0].query).toBe("used: react");
+    });
+  });
+});
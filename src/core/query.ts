@@ -0,0 +1,843 @@
+import {
+  SnippetInterface,
+  SnippetSource,
+  AdvancedSearchFilter,
+  AdvancedSearchQuery,
+  Result,
+  ErrorType,
+} from "../types";
+import { createError } from "./utils";
+import { analyzeCode, CodeStructure } from "./codeTokens";
+import { getCategoryPaths } from "./taxonomy";
+
+/**
+ * Field that can be used in a search query, as in `tag:react`
+ */
+export interface QueryField {
+  name: string;
+  aliases: string[];
+  description: string;
+  values?: string[]; // Suggested values when they don't come from snippets
+}
+
+/**
+ * Completion offered while typing a search query
+ */
+export interface QueryCompletion {
+  label: string; // Completed term, such as "tag:react"
+  description: string;
+  query: string; // Whole query with the completion applied
+}
+
+/**
+ * Fields understood by the search query syntax
+ */
+export const QUERY_FIELDS: QueryField[] = [
+  { name: "lang", aliases: ["language"], description: "Snippet language" },
+  { name: "tag", aliases: ["tags"], description: "Snippet tag" },
+  { name: "category", aliases: [], description: "Snippet category" },
+  {
+    name: "source",
+    aliases: [],
+    description: "Library the snippet comes from",
+    values: ["global", "workspace", "team"],
+  },
+  { name: "title", aliases: [], description: "Text in the title" },
+  {
+    name: "description",
+    aliases: ["desc"],
+    description: "Text in the description",
+  },
+  { name: "code", aliases: [], description: "Text in the code" },
+  {
+    name: "calls",
+    aliases: ["call"],
+    description: "Function called in the code",
+  },
+  {
+    name: "defines",
+    aliases: ["def"],
+    description: "Kind or name of what the code defines",
+    values: ["class", "function", "interface", "type", "module"],
+  },
+  {
+    name: "used",
+    aliases: ["usage"],
+    description: "Times the snippet was inserted",
+    values: [">0", "0", ">5", ">10"],
+  },
+  {
+    name: "created",
+    aliases: [],
+    description: "Creation date (2024-01-31) or age (7d, 4w, 6m, 1y)",
+    values: ["<7d", "<30d", ">1y"],
+  },
+  {
+    name: "updated",
+    aliases: [],
+    description: "Last update date (2024-01-31) or age (7d, 4w, 6m, 1y)",
+    values: ["<7d", "<30d", ">1y"],
+  },
+];
+
+/**
+ * Short language names accepted by `lang:`
+ */
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: "javascript",
+  jsx: "javascriptreact",
+  ts: "typescript",
+  tsx: "typescriptreact",
+  py: "python",
+  rb: "ruby",
+  rs: "rust",
+  cs: "csharp",
+  kt: "kotlin",
+  sh: "shellscript",
+  ps1: "powershell",
+  md: "markdown",
+  yml: "yaml",
+};
+
+const SOURCES: SnippetSource[] = ["global", "workspace", "team"];
+
+// Fields compared as whole values; the others are searched for text
+const EXACT_FIELDS: AdvancedSearchFilter["field"][] = [
+  "tags",
+  "category",
+  "language",
+  "calls",
+  "defines",
+];
+
+const INVERTED_OPERATORS: Partial<
+  Record<AdvancedSearchFilter["operator"], AdvancedSearchFilter["operator"]>
+> = {
+  equals: "not",
+  greaterThan: "atMost",
+  lessThan: "atLeast",
+  atLeast: "lessThan",
+  atMost: "greaterThan",
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Analyzed code of recently matched snippets, keyed by language and code
+const codeStructures = new Map<string, CodeStructure>();
+const MAX_CODE_STRUCTURES = 5000;
+
+/**
+ * Term of a search query as written
+ */
+interface QueryTerm {
+  field?: string;
+  value: string;
+  negated: boolean;
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse a search query such as
+ * `lang:ts tag:react -tag:legacy category:"data access" used:>5
+ * updated:<30d "exact phrase"` into an advanced search query.
+ *
+ * Words and quoted phrases must all appear in the snippet; a leading "-"
+ * excludes a word, phrase or field value. Relative ages are resolved
+ * against `now`, so the parsed query can be sent elsewhere unchanged.
+ * Errors carry the position of the offending term in their details.
+ */
+export function parseQuery(
+  input: string,
+  now: Date = new Date()
+): Result<AdvancedSearchQuery> {
+  const termsResult = splitTerms(input);
+  if (!termsResult.success) {
+    return termsResult;
+  }
+
+  const query: AdvancedSearchQuery = {};
+  const filters: AdvancedSearchFilter[] = [];
+
+  for (const term of termsResult.data) {
+    const fail = (
+      message: string,
+      suggestedAction?: string
+    ): Result<AdvancedSearchQuery> =>
+      parseError(message, input, term, suggestedAction);
+
+    if (term.field === undefined) {
+      if (term.value) {
+        filters.push({
+          field: "text",
+          operator: term.negated ? "not" : "contains",
+          value: term.value,
+        });
+      }
+      continue;
+    }
+
+    const field = findField(term.field);
+    if (!field) {
+      return fail(
+        `Unknown search field "${term.field}"`,
+        `Use one of ${QUERY_FIELDS.map((known) => `${known.name}:`).join(
+          ", "
+        )}, or quote the text to search for it`
+      );
+    }
+    if (!term.value) {
+      return fail(
+        `Missing value for ${field.name}:`,
+        `Write the value right after the colon, e.g. ${field.name}:value`
+      );
+    }
+
+    switch (field.name) {
+      case "lang": {
+        const language =
+          LANGUAGE_ALIASES[term.value.toLowerCase()] ||
+          term.value.toLowerCase();
+        if (term.negated) {
+          filters.push({ field: "language", operator: "not", value: language });
+        } else if (query.language && query.language !== language) {
+          return fail(
+            "Only one language can be required",
+            "Exclude other languages with -lang: instead"
+          );
+        } else {
+          query.language = language;
+        }
+        break;
+      }
+
+      case "category":
+        if (term.negated) {
+          filters.push({
+            field: "category",
+            operator: "not",
+            value: term.value,
+          });
+        } else if (query.category && query.category !== term.value) {
+          return fail(
+            "Only one category can be required",
+            "Exclude other categories with -category: instead"
+          );
+        } else {
+          query.category = term.value;
+        }
+        break;
+
+      case "source":
+        if (!SOURCES.includes(term.value as SnippetSource)) {
+          return fail(
+            `Unknown library "${term.value}"`,
+            `Use one of ${SOURCES.join(", ")}`
+          );
+        }
+        if (term.negated) {
+          return fail(
+            "Libraries cannot be excluded",
+            "Pick the library to search with source:"
+          );
+        }
+        query.source = term.value as SnippetSource;
+        break;
+
+      case "tag":
+        filters.push({
+          field: "tags",
+          operator: term.negated ? "not" : "equals",
+          value: term.value,
+        });
+        break;
+
+      case "title":
+      case "description":
+      case "code":
+        filters.push({
+          field: field.name,
+          operator: term.negated ? "not" : "contains",
+          value: term.value,
+        });
+        break;
+
+      case "calls":
+      case "defines":
+        filters.push({
+          field: field.name,
+          operator: term.negated ? "not" : "equals",
+          value: term.value,
+        });
+        break;
+
+      case "used": {
+        const [operator, count] = splitComparison(term.value);
+        if (!/^\d+$/.test(count)) {
+          return fail(
+            `Expected a number for used:, got "${term.value}"`,
+            "Compare the usage count, e.g. used:>5 or used:0"
+          );
+        }
+        filters.push(
+          negateFilter(
+            { field: "usageCount", operator, value: count },
+            term.negated
+          )
+        );
+        break;
+      }
+
+      case "created":
+      case "updated": {
+        const dateFilters = parseDateFilters(
+          field.name === "created" ? "createdAt" : "updatedAt",
+          term.value,
+          now
+        );
+        if (!dateFilters) {
+          return fail(
+            `Expected a date or an age for ${field.name}:, got "${term.value}"`,
+            `Use a date such as ${field.name}:>2024-01-31 or an age ` +
+              `such as ${field.name}:<30d`
+          );
+        }
+        if (term.negated && dateFilters.length > 1) {
+          return fail(
+            `A single day cannot be excluded with -${field.name}:`,
+            "Compare with < or > instead"
+          );
+        }
+        filters.push(
+          ...dateFilters.map((filter) => negateFilter(filter, term.negated))
+        );
+        break;
+      }
+    }
+  }
+
+  if (filters.length > 0) {
+    query.filters = filters;
+  }
+
+  return { success: true, data: query };
+}
+
+/**
+ * Resolve a query whose text uses the query syntax, as typed in a search
+ * box next to filter controls, into a query without text. Fields given by
+ * the text take precedence over the same fields of the query.
+ */
+export function resolveQuery(
+  query: AdvancedSearchQuery,
+  now: Date = new Date()
+): Result<AdvancedSearchQuery> {
+  const parsed = parseQuery(query.text || "", now);
+  if (!parsed.success) {
+    return parsed;
+  }
+
+  const filters = [...(query.filters || []), ...(parsed.data.filters || [])];
+  return {
+    success: true,
+    data: {
+      ...query,
+      text: undefined,
+      language: parsed.data.language || query.language,
+      category: parsed.data.category || query.category,
+      source: parsed.data.source || query.source,
+      filters: filters.length > 0 ? filters : undefined,
+    },
+  };
+}
+
+/**
+ * Check whether a snippet passes the advanced filters of a query
+ */
+export function matchesFilters(
+  snippet: SnippetInterface,
+  query: AdvancedSearchQuery
+): boolean {
+  if (!query.filters || query.filters.length === 0) {
+    return true;
+  }
+
+  return query.operator === "or"
+    ? query.filters.some((filter) => matchesFilter(snippet, filter))
+    : query.filters.every((filter) => matchesFilter(snippet, filter));
+}
+
+/**
+ * Check whether a snippet passes a single filter. Tags, category and
+ * language are compared as whole values, so "not" excludes an exact value
+ * there and any occurrence of the text elsewhere. Text comparisons ignore
+ * case unless the filter is case sensitive.
+ */
+export function matchesFilter(
+  snippet: SnippetInterface,
+  filter: AdvancedSearchFilter
+): boolean {
+  switch (filter.field) {
+    case "usageCount":
+      return compareValues(
+        snippet.usageCount,
+        Number(filter.value),
+        filter.operator
+      );
+    case "createdAt":
+    case "updatedAt":
+      return compareValues(
+        new Date(snippet[filter.field]).getTime(),
+        new Date(filter.value).getTime(),
+        filter.operator
+      );
+  }
+
+  const values = getFieldValues(snippet, filter.field);
+  if (filter.operator === "not") {
+    const positive: AdvancedSearchFilter = {
+      ...filter,
+      operator: EXACT_FIELDS.includes(filter.field) ? "equals" : "contains",
+    };
+    return !values.some((value) => matchesText(value, positive));
+  }
+
+  return values.some((value) => matchesText(value, filter));
+}
+
+/**
+ * Get completions for the term being typed at the cursor: field names
+ * while the field is typed, then values found in the given snippets
+ */
+export function getQueryCompletions(
+  input: string,
+  snippets: SnippetInterface[],
+  cursor: number = input.length,
+  limit: number = 20
+): QueryCompletion[] {
+  const termStart = findTermStart(input, cursor);
+  const before = input.slice(0, termStart);
+  const after = input.slice(cursor);
+  let term = input.slice(termStart, cursor);
+  const negation = term.startsWith("-") ? "-" : "";
+  term = term.slice(negation.length);
+
+  const colon = term.indexOf(":");
+  if (colon < 0) {
+    const partial = term.toLowerCase();
+    return QUERY_FIELDS.filter((field) =>
+      [field.name, ...field.aliases].some((name) => name.startsWith(partial))
+    )
+      .slice(0, limit)
+      .map((field) => ({
+        label: `${negation}${field.name}:`,
+        description: field.description,
+        query: `${before}${negation}${field.name}:${after}`,
+      }));
+  }
+
+  const field = findField(term.slice(0, colon));
+  if (!field) {
+    return [];
+  }
+
+  const partial = term
+    .slice(colon + 1)
+    .replace(/^"/, "")
+    .toLowerCase();
+  const rest = after.replace(/^\s+/, "");
+
+  return getSuggestedValues(field, snippets)
+    .filter(
+      ([value]) =>
+        value.toLowerCase().startsWith(partial) &&
+        value.toLowerCase() !== partial
+    )
+    .slice(0, limit)
+    .map(([value, description]) => {
+      const label = `${negation}${field.name}:${quoteValue(value)}`;
+      return {
+        label,
+        description,
+        query: `${before}${label} ${rest}`,
+      };
+    });
+}
+
+/**
+ * Split a query into terms, keeping quoted phrases and values together
+ */
+function splitTerms(input: string): Result<QueryTerm[]> {
+  const terms: QueryTerm[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    let negated = false;
+    if (input[index] === "-" && /\S/.test(input[index + 1] || "")) {
+      negated = true;
+      index++;
+    }
+
+    // "field:" but not "http://" or "std::"
+    let field: string | undefined;
+    const fieldMatch = /^([A-Za-z]+):(?![:/])/.exec(input.slice(index));
+    if (fieldMatch) {
+      field = fieldMatch[1];
+      index += fieldMatch[0].length;
+    }
+
+    let value: string;
+    if (input[index] === '"') {
+      const close = input.indexOf('"', index + 1);
+      if (close < 0) {
+        return parseError(
+          "Missing closing quote",
+          input,
+          { value: "", negated, start: index, end: input.length },
+          'End the quoted text with "'
+        );
+      }
+      value = input.slice(index + 1, close);
+      index = close + 1;
+    } else {
+      const valueStart = index;
+      while (index < input.length && !/\s/.test(input[index])) {
+        index++;
+      }
+      value = input.slice(valueStart, index);
+    }
+
+    terms.push({ field, value, negated, start, end: index });
+  }
+
+  return { success: true, data: terms };
+}
+
+/**
+ * Build a parse error pointing at a term of the query
+ */
+function parseError<T>(
+  message: string,
+  input: string,
+  term: QueryTerm,
+  suggestedAction?: string
+): Result<T> {
+  return {
+    success: false,
+    error: createError(
+      ErrorType.validation,
+      message,
+      {
+        query: input,
+        position: term.start,
+        length: term.end - term.start,
+        term: input.slice(term.start, term.end),
+      },
+      true,
+      suggestedAction
+    ),
+  };
+}
+
+/**
+ * Find a query field by name or alias
+ */
+function findField(name: string): QueryField | undefined {
+  const lowerName = name.toLowerCase();
+  return QUERY_FIELDS.find(
+    (field) => field.name === lowerName || field.aliases.includes(lowerName)
+  );
+}
+
+/**
+ * Split a leading comparison such as ">=" off a value
+ */
+function splitComparison(
+  value: string
+): [AdvancedSearchFilter["operator"], string] {
+  const match = /^(>=|<=|>|<|=)?(.*)$/.exec(value)!;
+  const operators = new Map<string, AdvancedSearchFilter["operator"]>([
+    [">", "greaterThan"],
+    ["<", "lessThan"],
+    [">=", "atLeast"],
+    ["<=", "atMost"],
+    ["=", "equals"],
+  ]);
+  return [operators.get(match[1] || "=")!, match[2]];
+}
+
+/**
+ * Turn a date or an age into filters on a date field. Ages count back from
+ * now, so `<30d` means newer than 30 days. A date without a comparison
+ * matches that whole day (UTC).
+ */
+function parseDateFilters(
+  field: "createdAt" | "updatedAt",
+  value: string,
+  now: Date
+): AdvancedSearchFilter[] | null {
+  const [operator, operand] = splitComparison(value);
+  const hasComparison = /^[<>=]/.test(value);
+
+  const age = /^(\d+)([dwmy])$/i.exec(operand);
+  if (age) {
+    const amount = Number(age[1]);
+    const date = new Date(now.getTime());
+    switch (age[2].toLowerCase()) {
+      case "d":
+        date.setTime(date.getTime() - amount * DAY);
+        break;
+      case "w":
+        date.setTime(date.getTime() - amount * 7 * DAY);
+        break;
+      case "m":
+        date.setMonth(date.getMonth() - amount);
+        break;
+      case "y":
+        date.setFullYear(date.getFullYear() - amount);
+        break;
+    }
+
+    // Younger than the age means later than the date, and the reverse
+    const ageOperators: Partial<
+      Record<AdvancedSearchFilter["operator"], AdvancedSearchFilter["operator"]>
+    > = {
+      lessThan: "greaterThan",
+      atMost: "atLeast",
+      greaterThan: "lessThan",
+      atLeast: "atMost",
+    };
+    return [
+      {
+        field,
+        operator: hasComparison
+          ? ageOperators[operator] || "atLeast"
+          : "atLeast",
+        value: date.toISOString(),
+      },
+    ];
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(operand)) {
+    return null;
+  }
+  const day = new Date(`${operand}T00:00:00.000Z`);
+  if (isNaN(day.getTime())) {
+    return null;
+  }
+  const nextDay = new Date(day.getTime() + DAY).toISOString();
+  const dayStart = day.toISOString();
+
+  switch (hasComparison ? operator : "equals") {
+    case "greaterThan":
+      return [{ field, operator: "atLeast", value: nextDay }];
+    case "atLeast":
+      return [{ field, operator: "atLeast", value: dayStart }];
+    case "lessThan":
+      return [{ field, operator: "lessThan", value: dayStart }];
+    case "atMost":
+      return [{ field, operator: "lessThan", value: nextDay }];
+    default:
+      return [
+        { field, operator: "atLeast", value: dayStart },
+        { field, operator: "lessThan", value: nextDay },
+      ];
+  }
+}
+
+/**
+ * Invert the comparison of a filter for a negated term
+ */
+function negateFilter(
+  filter: AdvancedSearchFilter,
+  negated: boolean
+): AdvancedSearchFilter {
+  if (!negated) {
+    return filter;
+  }
+  return { ...filter, operator: INVERTED_OPERATORS[filter.operator]! };
+}
+
+/**
+ * Compare numbers, such as usage counts or timestamps
+ */
+function compareValues(
+  actual: number,
+  expected: number,
+  operator: AdvancedSearchFilter["operator"]
+): boolean {
+  switch (operator) {
+    case "equals":
+      return actual === expected;
+    case "not":
+      return actual !== expected;
+    case "greaterThan":
+      return actual > expected;
+    case "lessThan":
+      return actual < expected;
+    case "atLeast":
+      return actual >= expected;
+    case "atMost":
+      return actual <= expected;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Get the text values of a snippet field; "text" covers every field that
+ * free text search looks at
+ */
+function getFieldValues(
+  snippet: SnippetInterface,
+  field: AdvancedSearchFilter["field"]
+): string[] {
+  switch (field) {
+    case "tags":
+      return snippet.tags;
+    case "category":
+      // A category filter also matches subcategories
+      return [
+        snippet.category || "",
+        ...getCategoryPaths(snippet.category || ""),
+      ];
+    case "calls":
+      return getCodeStructure(snippet).calls;
+    case "defines":
+      return getCodeStructure(snippet).definitions.flatMap((definition) => [
+        definition.kind,
+        definition.name,
+      ]);
+    case "text":
+      return [
+        snippet.title,
+        snippet.description,
+        snippet.code,
+        snippet.language,
+        ...snippet.tags,
+        snippet.category || "",
+      ];
+    default:
+      return [String(snippet[field as keyof SnippetInterface] ?? "")];
+  }
+}
+
+/**
+ * Analyze the code of a snippet, reusing earlier results for the same code
+ */
+function getCodeStructure(snippet: SnippetInterface): CodeStructure {
+  const key = `${snippet.language}\n${snippet.code}`;
+  let structure = codeStructures.get(key);
+  if (!structure) {
+    if (codeStructures.size >= MAX_CODE_STRUCTURES) {
+      // Maps iterate in insertion order, so this drops the oldest entry
+      codeStructures.delete(codeStructures.keys().next().value);
+    }
+    structure = analyzeCode(snippet.code, snippet.language);
+    codeStructures.set(key, structure);
+  }
+  return structure;
+}
+
+/**
+ * Match one text value against a filter
+ */
+function matchesText(text: string, filter: AdvancedSearchFilter): boolean {
+  if (filter.operator === "regex") {
+    try {
+      return new RegExp(filter.value, filter.caseSensitive ? "" : "i").test(
+        text
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  const actual = filter.caseSensitive ? text : text.toLowerCase();
+  const expected = filter.caseSensitive
+    ? filter.value
+    : filter.value.toLowerCase();
+
+  switch (filter.operator) {
+    case "contains":
+      return actual.includes(expected);
+    case "equals":
+      return actual === expected;
+    case "startsWith":
+      return actual.startsWith(expected);
+    case "endsWith":
+      return actual.endsWith(expected);
+    default:
+      return compareValues(
+        actual.localeCompare(expected),
+        0,
+        filter.operator
+      );
+  }
+}
+
+/**
+ * Find where the term at the cursor starts, treating quoted text as part
+ * of one term
+ */
+function findTermStart(input: string, cursor: number): number {
+  let start = 0;
+  let quoted = false;
+  for (let index = 0; index < cursor; index++) {
+    if (input[index] === '"') {
+      quoted = !quoted;
+    } else if (!quoted && /\s/.test(input[index])) {
+      start = index + 1;
+    }
+  }
+  return start;
+}
+
+/**
+ * Values to suggest for a field with their descriptions, most used first
+ */
+function getSuggestedValues(
+  field: QueryField,
+  snippets: SnippetInterface[]
+): Array<[string, string]> {
+  if (field.values) {
+    return field.values.map((value) => [value, field.description]);
+  }
+
+  const counts = new Map<string, number>();
+  for (const snippet of snippets) {
+    const values =
+      field.name === "lang"
+        ? [snippet.language]
+        : field.name === "tag"
+        ? snippet.tags
+        : field.name === "category"
+        ? getCategoryPaths(snippet.category || "")
+        : field.name === "calls"
+        ? getCodeStructure(snippet).calls
+        : [];
+    for (const value of values) {
+      counts.set(value, (counts.get(value) || 0) + 1);
+    }
+  }
+
+  return Array.from(counts)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([value, count]) => [
+      value,
+      `${count} snippet${count === 1 ? "" : "s"}`,
+    ]);
+}
+
+/**
+ * Quote a value that contains whitespace
+ */
+function quoteValue(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
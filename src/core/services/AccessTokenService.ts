@@ -0,0 +1,337 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { IncomingHttpHeaders } from "http";
+import type { Socket } from "socket.io";
+import {
+  AccessGrant,
+  AccessScope,
+  ApiToken,
+  Result,
+  ErrorType,
+} from "../../types";
+import { createError, generateId } from "../utils";
+
+/**
+ * Cookie that carries the session secret once the browser has opened the
+ * Web GUI with it
+ */
+export const SESSION_COOKIE = "snippet_library_session";
+
+/**
+ * Configuration for the access token service
+ */
+export interface AccessTokenConfig {
+  filePath?: string; // Where API tokens are kept
+  sessionSecret?: string; // Generated when not given
+}
+
+const scopes: AccessScope[] = ["read", "write"];
+
+const createSecret = () => crypto.randomBytes(32).toString("base64url");
+
+const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+// Hashes have the same length, so comparing them takes the same time for
+// every guess
+const matchesHash = (token: string, tokenHash: string) =>
+  crypto.timingSafeEqual(
+    Buffer.from(hashToken(token), "hex"),
+    Buffer.from(tokenHash, "hex")
+  );
+
+/**
+ * Get the token a request carries: a bearer token, or the session cookie
+ */
+export function getRequestToken(
+  headers: IncomingHttpHeaders
+): string | undefined {
+  const authorization = headers.authorization || "";
+  const bearer = /^Bearer\s+(\S+)$/i.exec(authorization.trim());
+  if (bearer) {
+    return bearer[1];
+  }
+
+  for (const cookie of (headers.cookie || "").split(";")) {
+    const separator = cookie.indexOf("=");
+    if (cookie.slice(0, separator).trim() === SESSION_COOKIE) {
+      try {
+        return decodeURIComponent(cookie.slice(separator + 1).trim());
+      } catch {
+        // A malformed cookie carries no token
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the token of a Socket.IO handshake: the auth payload of the client,
+ * or the headers of the connecting request
+ */
+export function getHandshakeToken(handshake: {
+  auth?: Record<string, unknown>;
+  headers: IncomingHttpHeaders;
+}): string | undefined {
+  const token = handshake.auth?.token;
+  return typeof token === "string"
+    ? token
+    : getRequestToken(handshake.headers);
+}
+
+/**
+ * Socket.IO middleware that admits connections carrying a session or API
+ * token. Clients only send events to change something, so every event of a
+ * read-only token is turned down with an accessDenied event.
+ */
+export function createSocketGuard(accessTokens: AccessTokenService) {
+  return (socket: Socket, next: (error?: Error) => void): void => {
+    const grant = accessTokens.authenticate(
+      getHandshakeToken(socket.handshake)
+    );
+    if (!grant) {
+      // Clients get the data with the connect_error event
+      const error: Error & { data?: unknown } = new Error("Unauthorized");
+      error.data = {
+        error: "Unauthorized",
+        message: "A session or API token is required to connect",
+      };
+      next(error);
+      return;
+    }
+
+    socket.data.access = grant;
+    if (grant.scope === "read") {
+      socket.use(([event]) => {
+        socket.emit("accessDenied", {
+          error: "Forbidden",
+          message: "This API token can only read the library",
+          event,
+        });
+      });
+    }
+    next();
+  };
+}
+
+/**
+ * Guards the Web GUI server. The session secret is made for one run of
+ * VS Code and handed to the browser it opens; API tokens let scripts read
+ * or change the library. API tokens are persisted to a JSON file when a
+ * file path is configured, otherwise they are kept in memory only.
+ */
+export class AccessTokenService {
+  private config: AccessTokenConfig;
+  private sessionSecret: string;
+  private sessionHash: string;
+  private tokens: ApiToken[] = [];
+
+  constructor(config: Partial<AccessTokenConfig> = {}) {
+    this.config = { ...config };
+    this.sessionSecret = config.sessionSecret || createSecret();
+    this.sessionHash = hashToken(this.sessionSecret);
+  }
+
+  /**
+   * Load persisted API tokens from disk
+   */
+  async load(): Promise<Result<void>> {
+    this.tokens = [];
+
+    if (!this.config.filePath || !fs.existsSync(this.config.filePath)) {
+      return { success: true, data: undefined };
+    }
+
+    try {
+      const content = await fs.promises.readFile(this.config.filePath, "utf-8");
+      const parsed = content.trim() ? JSON.parse(content) : {};
+      const entries: any[] = Array.isArray(parsed.tokens) ? parsed.tokens : [];
+
+      for (const entry of entries) {
+        if (
+          !entry ||
+          !entry.id ||
+          !scopes.includes(entry.scope) ||
+          !/^[0-9a-f]{64}$/.test(entry.tokenHash)
+        ) {
+          continue;
+        }
+        this.tokens.push({
+          id: entry.id,
+          name: entry.name || entry.id,
+          scope: entry.scope,
+          tokenHash: entry.tokenHash,
+          createdAt: new Date(entry.createdAt),
+        });
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to load API tokens",
+          {
+            filePath: this.config.filePath,
+            error: error instanceof Error ? error.message : error,
+          },
+          true,
+          "Check the API tokens file format or delete it to start over"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Get the secret of the browser session
+   */
+  getSessionSecret(): string {
+    return this.sessionSecret;
+  }
+
+  /**
+   * Get all API tokens, oldest first
+   */
+  getTokens(): ApiToken[] {
+    return this.tokens.map((token) => ({ ...token }));
+  }
+
+  /**
+   * Find out what a token gives access to. The session may do anything;
+   * API tokens are limited to their scope. Unknown tokens get null.
+   */
+  authenticate(token?: string): AccessGrant | null {
+    if (!token) {
+      return null;
+    }
+    if (matchesHash(token, this.sessionHash)) {
+      return { kind: "session", scope: "write" };
+    }
+
+    const apiToken = this.tokens.find((candidate) =>
+      matchesHash(token, candidate.tokenHash)
+    );
+    return apiToken
+      ? { kind: "token", scope: apiToken.scope, tokenId: apiToken.id }
+      : null;
+  }
+
+  /**
+   * Create an API token. The token is only returned here, so it has to be
+   * handed to the user right away.
+   */
+  async createToken(
+    name: string,
+    scope: AccessScope
+  ): Promise<Result<{ token: string; apiToken: ApiToken }>> {
+    const trimmed = (name || "").trim();
+    if (!trimmed || !scopes.includes(scope)) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.validation,
+          "Token name and scope are required",
+          { name, scope },
+          true,
+          "Name the token and choose read or write access"
+        ),
+      };
+    }
+
+    // The prefix lets secret scanners recognize leaked tokens
+    const token = `sl_${createSecret()}`;
+    const apiToken: ApiToken = {
+      id: generateId(),
+      name: trimmed,
+      scope,
+      tokenHash: hashToken(token),
+      createdAt: new Date(),
+    };
+
+    const result = await this.commit([...this.tokens, apiToken]);
+    if (!result.success) {
+      return result;
+    }
+    return { success: true, data: { token, apiToken: { ...apiToken } } };
+  }
+
+  /**
+   * Revoke an API token, so requests with it are rejected
+   */
+  async revokeToken(id: string): Promise<Result<void>> {
+    if (!this.tokens.some((token) => token.id === id)) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.notFound,
+          "API token not found",
+          { id },
+          false,
+          "Check the token ID"
+        ),
+      };
+    }
+
+    return this.commit(this.tokens.filter((token) => token.id !== id));
+  }
+
+  /**
+   * Replace the tokens and save them, restoring the previous tokens when
+   * saving fails
+   */
+  private async commit(tokens: ApiToken[]): Promise<Result<void>> {
+    const previous = this.tokens;
+    this.tokens = tokens;
+
+    const saveResult = await this.save();
+    if (!saveResult.success) {
+      this.tokens = previous;
+    }
+    return saveResult;
+  }
+
+  /**
+   * Save API tokens to disk
+   */
+  private async save(): Promise<Result<void>> {
+    if (!this.config.filePath) {
+      return { success: true, data: undefined };
+    }
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.config.filePath), {
+        recursive: true,
+      });
+
+      const data = {
+        version: "1.0.0",
+        tokens: this.tokens,
+      };
+
+      await fs.promises.writeFile(
+        this.config.filePath,
+        JSON.stringify(data, null, 2),
+        "utf-8"
+      );
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to save API tokens",
+          {
+            filePath: this.config.filePath,
+            error: error instanceof Error ? error.message : error,
+          },
+          true,
+          "Check file permissions and ensure the storage location is writable"
+        ),
+      };
+    }
+  }
+}
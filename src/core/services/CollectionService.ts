@@ -0,0 +1,466 @@
+import * as fs from "fs";
+import * as path from "path";
+import { SnippetCollection, Result, ErrorType } from "../../types";
+import { createError } from "../utils";
+
+/**
+ * Configuration for the collection service
+ */
+export interface CollectionConfig {
+  filePath?: string;
+}
+
+/**
+ * Keeps the collections ("folders") of a library. Collections hold snippet
+ * IDs in a user-defined order and nest one level deep. They are persisted
+ * to a JSON sidecar file when a file path is configured, otherwise they are
+ * kept in memory only.
+ *
+ * Collections are never changed in place, so a failed save restores the
+ * previous map.
+ */
+export class CollectionService {
+  private config: CollectionConfig;
+  private collections: Map<string, SnippetCollection> = new Map();
+
+  constructor(config: Partial<CollectionConfig> = {}) {
+    this.config = { ...config };
+  }
+
+  /**
+   * Load persisted collections from disk
+   */
+  async load(): Promise<Result<void>> {
+    this.collections.clear();
+
+    if (!this.config.filePath || !fs.existsSync(this.config.filePath)) {
+      return { success: true, data: undefined };
+    }
+
+    try {
+      const content = await fs.promises.readFile(this.config.filePath, "utf-8");
+      const parsed = content.trim() ? JSON.parse(content) : {};
+      const entries: any[] = Array.isArray(parsed.collections)
+        ? parsed.collections
+        : [];
+
+      for (const entry of entries) {
+        if (!entry || !entry.id || !entry.name) {
+          continue;
+        }
+        this.collections.set(entry.id, reviveCollection(entry));
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to load collections",
+          {
+            filePath: this.config.filePath,
+            error: error instanceof Error ? error.message : error,
+          },
+          true,
+          "Check the collections file format or delete it to start over"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Get all collections, sorted by name
+   */
+  getAll(): SnippetCollection[] {
+    return Array.from(this.collections.values()).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  /**
+   * Get a collection by ID
+   */
+  get(id: string): SnippetCollection | null {
+    return this.collections.get(id) || null;
+  }
+
+  /**
+   * Get the subcollections of a collection, sorted by name
+   */
+  getChildren(id: string): SnippetCollection[] {
+    return this.getAll().filter((collection) => collection.parentId === id);
+  }
+
+  /**
+   * Create an empty collection
+   */
+  async create(
+    name: string,
+    options: { description?: string; parentId?: string } = {}
+  ): Promise<Result<SnippetCollection>> {
+    const validation = this.validate(name, options.parentId);
+    if (!validation.success) {
+      return validation;
+    }
+
+    const now = new Date();
+    const collection: SnippetCollection = {
+      id: `collection_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: name.trim(),
+      description: options.description?.trim() || undefined,
+      parentId: options.parentId || undefined,
+      snippetIds: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return this.commit(collection, (collections) =>
+      collections.set(collection.id, collection)
+    );
+  }
+
+  /**
+   * Rename a collection, change its description or move it. A parent ID of
+   * null moves the collection to the top level.
+   */
+  async update(
+    id: string,
+    updates: { name?: string; description?: string; parentId?: string | null }
+  ): Promise<Result<SnippetCollection>> {
+    const existing = this.collections.get(id);
+    if (!existing) {
+      return notFound(id);
+    }
+
+    const name = updates.name ?? existing.name;
+    const parentId =
+      updates.parentId === undefined
+        ? existing.parentId
+        : updates.parentId || undefined;
+    const validation = this.validate(name, parentId, id);
+    if (!validation.success) {
+      return validation;
+    }
+
+    const updated: SnippetCollection = {
+      ...existing,
+      name: name.trim(),
+      description:
+        updates.description === undefined
+          ? existing.description
+          : updates.description.trim() || undefined,
+      parentId,
+      updatedAt: new Date(),
+    };
+
+    return this.commit(updated, (collections) =>
+      collections.set(id, updated)
+    );
+  }
+
+  /**
+   * Delete a collection together with its subcollections. The snippets
+   * themselves are kept.
+   */
+  async delete(id: string): Promise<Result<void>> {
+    const existing = this.collections.get(id);
+    if (!existing) {
+      return notFound(id);
+    }
+
+    return this.commit(undefined, (collections) => {
+      collections.delete(id);
+      for (const child of this.getChildren(id)) {
+        collections.delete(child.id);
+      }
+    });
+  }
+
+  /**
+   * Add snippets to a collection at a position, at the end by default.
+   * Snippets already in the collection are moved to that position.
+   */
+  async addSnippets(
+    id: string,
+    snippetIds: string[],
+    index?: number
+  ): Promise<Result<SnippetCollection>> {
+    const existing = this.collections.get(id);
+    if (!existing) {
+      return notFound(id);
+    }
+
+    const added = Array.from(new Set(snippetIds));
+    const remaining = existing.snippetIds.filter(
+      (snippetId) => !added.includes(snippetId)
+    );
+    const position =
+      index === undefined
+        ? remaining.length
+        : Math.max(0, Math.min(index, remaining.length));
+    remaining.splice(position, 0, ...added);
+
+    return this.setSnippetIds(existing, remaining);
+  }
+
+  /**
+   * Remove snippets from a collection
+   */
+  async removeSnippets(
+    id: string,
+    snippetIds: string[]
+  ): Promise<Result<SnippetCollection>> {
+    const existing = this.collections.get(id);
+    if (!existing) {
+      return notFound(id);
+    }
+
+    return this.setSnippetIds(
+      existing,
+      existing.snippetIds.filter((snippetId) => !snippetIds.includes(snippetId))
+    );
+  }
+
+  /**
+   * Put the snippets of a collection in a new order. The new order must
+   * contain exactly the snippets of the collection.
+   */
+  async reorderSnippets(
+    id: string,
+    snippetIds: string[]
+  ): Promise<Result<SnippetCollection>> {
+    const existing = this.collections.get(id);
+    if (!existing) {
+      return notFound(id);
+    }
+
+    const sameSnippets =
+      snippetIds.length === existing.snippetIds.length &&
+      new Set(snippetIds).size === snippetIds.length &&
+      snippetIds.every((snippetId) => existing.snippetIds.includes(snippetId));
+    if (!sameSnippets) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.validation,
+          "New order must contain exactly the snippets of the collection",
+          { id, snippetIds, current: existing.snippetIds },
+          true,
+          "Reload the collection and try again"
+        ),
+      };
+    }
+
+    return this.setSnippetIds(existing, snippetIds);
+  }
+
+  /**
+   * Put a snippet in the place of another in every collection that holds
+   * it, or remove it when there is no replacement (e.g. after a delete)
+   */
+  async replaceSnippet(
+    snippetId: string,
+    replacementId?: string
+  ): Promise<Result<void>> {
+    const holders = Array.from(this.collections.values()).filter(
+      (collection) => collection.snippetIds.includes(snippetId)
+    );
+    if (holders.length === 0) {
+      return { success: true, data: undefined };
+    }
+
+    return this.commit(undefined, (collections) => {
+      for (const holder of holders) {
+        const snippetIds = holder.snippetIds.flatMap((id) => {
+          if (id !== snippetId) {
+            return [id];
+          }
+          return replacementId && !holder.snippetIds.includes(replacementId)
+            ? [replacementId]
+            : [];
+        });
+        collections.set(holder.id, {
+          ...holder,
+          snippetIds,
+          updatedAt: new Date(),
+        });
+      }
+    });
+  }
+
+  /**
+   * Clear in-memory collections
+   */
+  dispose(): void {
+    this.collections.clear();
+  }
+
+  private async setSnippetIds(
+    existing: SnippetCollection,
+    snippetIds: string[]
+  ): Promise<Result<SnippetCollection>> {
+    const updated: SnippetCollection = {
+      ...existing,
+      snippetIds,
+      updatedAt: new Date(),
+    };
+
+    return this.commit(updated, (collections) =>
+      collections.set(existing.id, updated)
+    );
+  }
+
+  /**
+   * Apply a change and persist it, restoring the previous collections when
+   * the save fails
+   */
+  private async commit<T>(
+    data: T,
+    change: (collections: Map<string, SnippetCollection>) => void
+  ): Promise<Result<T>> {
+    const previous = new Map(this.collections);
+    change(this.collections);
+
+    const saveResult = await this.save();
+    if (!saveResult.success) {
+      this.collections = previous;
+      return saveResult;
+    }
+
+    return { success: true, data };
+  }
+
+  private validate(
+    name: string,
+    parentId: string | undefined,
+    id?: string
+  ): Result<void> {
+    const trimmed = (name || "").trim();
+    if (!trimmed) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.validation,
+          "Collection name is required",
+          { name },
+          true,
+          "Give the collection a name"
+        ),
+      };
+    }
+
+    if (parentId) {
+      const parent = this.collections.get(parentId);
+      if (!parent) {
+        return notFound(parentId);
+      }
+
+      const hasChildren =
+        id !== undefined &&
+        Array.from(this.collections.values()).some(
+          (collection) => collection.parentId === id
+        );
+      if (parentId === id || parent.parentId || hasChildren) {
+        return {
+          success: false,
+          error: createError(
+            ErrorType.validation,
+            "Collections can only be nested one level deep",
+            { id, parentId },
+            true,
+            "Choose a top-level collection without a parent as the parent"
+          ),
+        };
+      }
+    }
+
+    // Names only need to be unique among collections with the same parent
+    const existing = Array.from(this.collections.values()).find(
+      (collection) =>
+        collection.id !== id &&
+        collection.parentId === parentId &&
+        collection.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    if (existing) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.validation,
+          "Collection with this name already exists",
+          { name: trimmed, existingId: existing.id },
+          true,
+          "Choose a different name or use the existing collection"
+        ),
+      };
+    }
+
+    return { success: true, data: undefined };
+  }
+
+  private async save(): Promise<Result<void>> {
+    if (!this.config.filePath) {
+      return { success: true, data: undefined };
+    }
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.config.filePath), {
+        recursive: true,
+      });
+
+      const data = {
+        version: "1.0.0",
+        collections: this.getAll(),
+      };
+
+      await fs.promises.writeFile(
+        this.config.filePath,
+        JSON.stringify(data, null, 2),
+        "utf-8"
+      );
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to save collections",
+          {
+            filePath: this.config.filePath,
+            error: error instanceof Error ? error.message : error,
+          },
+          true,
+          "Check file permissions and ensure the storage location is writable"
+        ),
+      };
+    }
+  }
+}
+
+function notFound<T>(id: string): Result<T> {
+  return {
+    success: false,
+    error: createError(
+      ErrorType.notFound,
+      "Collection not found",
+      { id },
+      false,
+      "Check the collection ID"
+    ),
+  };
+}
+
+function reviveCollection(entry: any): SnippetCollection {
+  return {
+    id: entry.id,
+    name: entry.name,
+    description: entry.description || undefined,
+    parentId: entry.parentId || undefined,
+    snippetIds: Array.isArray(entry.snippetIds)
+      ? entry.snippetIds.filter((id: unknown) => typeof id === "string")
+      : [],
+    createdAt: new Date(entry.createdAt),
+    updatedAt: new Date(entry.updatedAt || entry.createdAt),
+  };
+}
@@ -1,5 +1,15 @@
 import { EventEmitter } from "events";
-import { SnippetInterface, Result, ErrorType } from "../../types";
+import {
+  SnippetInterface,
+  SnippetData,
+  MergeHunk,
+  ConflictDetails,
+  ConflictFieldDiff,
+  ConflictFieldResolution,
+  Result,
+  ErrorType,
+} from "../../types";
+import { diffLines, mergeLines } from "../diff";
 
 /**
  * Conflict types
@@ -21,9 +31,10 @@ export interface Conflict {
   localSnippet: SnippetInterface;
   remoteSnippet: SnippetInterface;
   detectedAt: Date;
-  source: "vscode" | "webgui" | "filesystem";
+  source: "vscode" | "webgui" | "filesystem" | "git";
   severity: "low" | "medium" | "high";
   autoResolvable: boolean;
+  baseSnippet?: SnippetInterface; // Common ancestor of both versions
 }
 
 /**
@@ -42,6 +53,9 @@ export interface ResolutionStrategy {
     local: SnippetInterface,
     remote: SnippetInterface
   ) => SnippetInterface;
+  // How a three-way merge reports overlapping code changes: conflict
+  // markers in the merged code, or hunks only with the local code kept
+  conflictStyle?: "markers" | "hunks";
 }
 
 /**
@@ -53,6 +67,7 @@ export interface ResolutionResult {
   strategy: ResolutionStrategy;
   appliedAt: Date;
   changes: string[]; // Description of changes made
+  hunks?: MergeHunk[]; // Overlapping changes a three-way merge left open
 }
 
 /**
@@ -60,14 +75,27 @@ export interface ResolutionResult {
  */
 export interface ConflictResolutionService {
   /**
-   * Detect conflicts between two snippets
+   * Detect conflicts between two snippets. The base is the version both
+   * were changed from; without one the stored base revision is used.
    */
   detectConflict(
     localSnippet: SnippetInterface,
     remoteSnippet: SnippetInterface,
-    source: "vscode" | "webgui" | "filesystem"
+    source: "vscode" | "webgui" | "filesystem" | "git",
+    baseSnippet?: SnippetInterface
   ): Conflict | null;
 
+  /**
+   * Remember the last version of a snippet all sides agreed on, used as the
+   * base of later three-way merges
+   */
+  recordBaseRevision(snippet: SnippetInterface): void;
+
+  /**
+   * Get the stored base revision of a snippet
+   */
+  getBaseRevision(snippetId: string): SnippetInterface | null;
+
   /**
    * Resolve a conflict using the specified strategy
    */
@@ -144,11 +172,13 @@ export class ConflictResolutionServiceImpl
   private pendingConflicts = new Map<string, Conflict>();
   private resolvedConflicts: ResolutionResult[] = [];
   private conflictCounter = 0;
+  private baseRevisions = new Map<string, SnippetInterface>();
 
   detectConflict(
     localSnippet: SnippetInterface,
     remoteSnippet: SnippetInterface,
-    source: "vscode" | "webgui" | "filesystem"
+    source: "vscode" | "webgui" | "filesystem" | "git",
+    baseSnippet?: SnippetInterface
   ): Conflict | null {
     // No conflict if snippets are identical
     if (this.areSnippetsIdentical(localSnippet, remoteSnippet)) {
@@ -178,9 +208,25 @@ export class ConflictResolutionServiceImpl
       autoResolvable,
     };
 
+    const base = baseSnippet || this.baseRevisions.get(localSnippet.id);
+    if (base) {
+      conflict.baseSnippet = base;
+    }
+
     return conflict;
   }
 
+  recordBaseRevision(snippet: SnippetInterface): void {
+    this.baseRevisions.set(snippet.id, {
+      ...snippet,
+      tags: [...snippet.tags],
+    });
+  }
+
+  getBaseRevision(snippetId: string): SnippetInterface | null {
+    return this.baseRevisions.get(snippetId) || null;
+  }
+
   async resolveConflict(
     conflict: Conflict,
     strategy: ResolutionStrategy
@@ -188,6 +234,7 @@ export class ConflictResolutionServiceImpl
     try {
       let resolvedSnippet: SnippetInterface;
       const changes: string[] = [];
+      let hunks: MergeHunk[] | undefined;
 
       switch (strategy.type) {
         case "local_wins":
@@ -226,6 +273,19 @@ export class ConflictResolutionServiceImpl
           break;
 
         case "merge":
+          if (conflict.baseSnippet) {
+            const threeWayResult = this.mergeThreeWay(
+              conflict.baseSnippet,
+              conflict.localSnippet,
+              conflict.remoteSnippet,
+              strategy.conflictStyle || "markers"
+            );
+            resolvedSnippet = threeWayResult.snippet;
+            changes.push(...threeWayResult.changes);
+            hunks = threeWayResult.hunks;
+            break;
+          }
+
           const mergeResult = this.mergeSnippets(
             conflict.localSnippet,
             conflict.remoteSnippet,
@@ -278,10 +338,14 @@ export class ConflictResolutionServiceImpl
         appliedAt: new Date(),
         changes,
       };
+      if (hunks && hunks.length > 0) {
+        result.hunks = hunks;
+      }
 
       // Remove from pending conflicts
       this.pendingConflicts.delete(conflict.id);
       this.resolvedConflicts.push(result);
+      this.recordBaseRevision(resolvedSnippet);
 
       // Emit resolution event
       this.emit("conflictResolved", result);
@@ -408,6 +472,7 @@ export class ConflictResolutionServiceImpl
   dispose(): void {
     this.clearConflicts();
     this.resolvedConflicts = [];
+    this.baseRevisions.clear();
     this.removeAllListeners();
   }
 
@@ -594,6 +659,115 @@ export class ConflictResolutionServiceImpl
     return { snippet: merged, changes };
   }
 
+  /**
+   * Merge both versions against their common base field by field. Changes
+   * made on one side only are taken from that side; the code and
+   * description are merged line by line, and tag and scope lists by the
+   * entries each side added or removed. Overlapping changes are returned
+   * as hunks and keep the local value, or conflict markers in the code.
+   */
+  private mergeThreeWay(
+    base: SnippetInterface,
+    local: SnippetInterface,
+    remote: SnippetInterface,
+    conflictStyle: "markers" | "hunks"
+  ): { snippet: SnippetInterface; changes: string[]; hunks: MergeHunk[] } {
+    const changes: string[] = [];
+    const hunks: MergeHunk[] = [];
+    const merged: SnippetInterface = { ...local };
+
+    for (const field of ["code", "description"] as const) {
+      if (local[field] === remote[field]) {
+        continue;
+      }
+
+      const marked = field === "code" && conflictStyle === "markers";
+      const textResult = mergeLines(
+        base[field],
+        local[field],
+        remote[field],
+        marked
+      );
+      merged[field] = textResult.text;
+
+      if (textResult.hunks.length === 0) {
+        changes.push(`Merged ${field} from both versions`);
+        continue;
+      }
+      for (const hunk of textResult.hunks) {
+        hunks.push({ field, ...hunk });
+        changes.push(
+          `Conflicting changes to ${field} at line ${hunk.baseLine}` +
+            (marked ? " marked in the merged code" : "; kept the local lines")
+        );
+      }
+    }
+
+    for (const field of [
+      "title",
+      "language",
+      "category",
+      "prefix",
+      "variables",
+    ] as const) {
+      const value = this.mergeValue(
+        field,
+        base[field],
+        local[field],
+        remote[field],
+        changes,
+        hunks
+      );
+      (merged as any)[field] = value;
+    }
+
+    for (const field of ["tags", "prefixAliases", "scope"] as const) {
+      if (!local[field] && !remote[field]) {
+        continue;
+      }
+      const list = mergeList(base[field], local[field], remote[field]);
+      if (JSON.stringify(list) !== JSON.stringify(local[field] || [])) {
+        merged[field] = list;
+        changes.push(`Merged ${field} from both versions`);
+      }
+    }
+
+    merged.usageCount = Math.max(local.usageCount, remote.usageCount);
+
+    return { snippet: merged, changes, hunks };
+  }
+
+  /**
+   * Three-way merge of a single value
+   */
+  private mergeValue<T>(
+    field: string,
+    base: T,
+    local: T,
+    remote: T,
+    changes: string[],
+    hunks: MergeHunk[]
+  ): T {
+    const same = (a: T, b: T) => JSON.stringify(a) === JSON.stringify(b);
+
+    if (same(local, remote) || same(base, remote)) {
+      return local;
+    }
+    if (same(base, local)) {
+      changes.push(`Used remote ${field}`);
+      return remote;
+    }
+
+    hunks.push({
+      field,
+      base: formatValue(base),
+      local: formatValue(local),
+      remote: formatValue(remote),
+    });
+    changes.push(`Conflicting changes to ${field}; kept the local value`);
+    return local;
+  }
+
   private calculateSimilarity(text1: string, text2: string): number {
     // Simple similarity calculation using Levenshtein distance
     const maxLength = Math.max(text1.length, text2.length);
@@ -630,3 +804,106 @@ export class ConflictResolutionServiceImpl
     return matrix[str2.length][str1.length];
   }
 }
+
+/**
+ * Snippet fields users can pick between when resolving a conflict
+ */
+const CONFLICT_FIELDS: Array<keyof SnippetData> = [
+  "title",
+  "description",
+  "code",
+  "language",
+  "tags",
+  "category",
+  "prefix",
+  "prefixAliases",
+  "scope",
+  "variables",
+];
+
+const TEXT_FIELDS: Array<keyof SnippetData> = ["description", "code"];
+
+/**
+ * Describe a conflict by the fields that differ between both versions
+ */
+export function describeConflict(conflict: Conflict): ConflictDetails {
+  const fields: ConflictFieldDiff[] = [];
+
+  for (const field of CONFLICT_FIELDS) {
+    const local = conflict.localSnippet[field];
+    const remote = conflict.remoteSnippet[field];
+    if (JSON.stringify(local) === JSON.stringify(remote)) {
+      continue;
+    }
+
+    const fieldDiff: ConflictFieldDiff = { field, local, remote };
+    if (conflict.baseSnippet) {
+      fieldDiff.base = conflict.baseSnippet[field];
+    }
+    if (TEXT_FIELDS.includes(field)) {
+      fieldDiff.diff = diffLines(String(local || ""), String(remote || ""));
+    }
+    fields.push(fieldDiff);
+  }
+
+  return {
+    id: conflict.id,
+    snippetId: conflict.snippetId,
+    type: conflict.type,
+    source: conflict.source,
+    severity: conflict.severity,
+    autoResolvable: conflict.autoResolvable,
+    detectedAt: conflict.detectedAt,
+    localSnippet: conflict.localSnippet,
+    remoteSnippet: conflict.remoteSnippet,
+    ...(conflict.baseSnippet && { baseSnippet: conflict.baseSnippet }),
+    fields,
+  };
+}
+
+/**
+ * Build the snippet for a field-by-field resolution. Fields not picked
+ * keep their local value; edited values override both versions.
+ */
+export function applyFieldResolution(
+  local: SnippetInterface,
+  remote: SnippetInterface,
+  resolution: ConflictFieldResolution
+): SnippetInterface {
+  const resolved: SnippetInterface = { ...local };
+
+  for (const field of CONFLICT_FIELDS) {
+    if (resolution.fields?.[field] === "remote") {
+      (resolved as any)[field] = remote[field];
+    }
+    if (resolution.merged && field in resolution.merged) {
+      (resolved as any)[field] = resolution.merged[field];
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Merge lists by the entries each side added or removed since the base
+ */
+function mergeList(
+  base: string[] = [],
+  local: string[] = [],
+  remote: string[] = []
+): string[] {
+  const baseSet = new Set(base);
+  const localSet = new Set(local);
+  const remoteSet = new Set(remote);
+
+  return Array.from(new Set([...local, ...remote])).filter((entry) =>
+    baseSet.has(entry) ? localSet.has(entry) && remoteSet.has(entry) : true
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
@@ -0,0 +1,291 @@
+import { SnippetInterface, DuplicateGroup } from "../../types";
+import { tokenizeCode } from "../codeTokens";
+
+/**
+ * Tuning of duplicate detection
+ */
+export interface DuplicateDetectionOptions {
+  threshold: number; // Similarity needed for near duplicates, 0 to 1
+  shingleSize: number; // Tokens per shingle compared between snippets
+  minTokens: number; // Shorter snippets only match with the same names
+  maxShingleFrequency: number; // More common shingles find no candidates
+}
+
+/**
+ * Code of a snippet reduced to what duplicate detection compares
+ */
+interface CodeFingerprint {
+  snippet: SnippetInterface;
+  exact: string; // Normalized code with identifiers renamed in order
+  shingles: Set<string>;
+}
+
+const DEFAULT_OPTIONS: DuplicateDetectionOptions = {
+  threshold: 0.85,
+  shingleSize: 5,
+  minTokens: 8,
+  maxShingleFrequency: 200,
+};
+
+/**
+ * Normalize code so that formatting, comments and naming do not matter.
+ * Identifiers are renamed in the order they first appear, so
+ * `a = b + a` and `x = y + x` give the same fingerprint, while string and
+ * number literals and operators are kept. With `keepNames` identifiers
+ * are left as they are.
+ */
+export function normalizeCode(
+  code: string,
+  language: string,
+  keepNames: boolean = false
+): string[] {
+  const names = new Map<string, string>();
+  const normalized: string[] = [];
+  let previousEnd = 0;
+
+  const addPunctuation = (gap: string) => {
+    for (const character of gap.replace(/\s+/g, "")) {
+      normalized.push(character);
+    }
+  };
+
+  for (const token of tokenizeCode(code || "", language)) {
+    addPunctuation(code.slice(previousEnd, token.start));
+    previousEnd = token.end;
+
+    if (token.kind === "comment") {
+      continue;
+    }
+    if (token.kind === "identifier" && !keepNames) {
+      let name = names.get(token.text);
+      if (!name) {
+        name = `$${names.size}`;
+        names.set(token.text, name);
+      }
+      normalized.push(name);
+    } else {
+      normalized.push(token.text);
+    }
+  }
+  addPunctuation((code || "").slice(previousEnd));
+
+  return normalized;
+}
+
+/**
+ * Finds snippets whose code is the same or nearly the same. Exact
+ * duplicates share a normalized fingerprint; near duplicates are compared
+ * by the Jaccard similarity of their token shingles, in which every
+ * identifier and literal is alike. Linked snippets form one group, so a
+ * group can hold snippets that are each close to another member.
+ */
+export class DuplicateDetectionService {
+  private options: DuplicateDetectionOptions;
+
+  constructor(options: Partial<DuplicateDetectionOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Group duplicate snippets, the closest groups first. Snippets without
+   * code are left out.
+   */
+  findDuplicates(
+    snippets: SnippetInterface[],
+    options: Partial<DuplicateDetectionOptions> = {}
+  ): DuplicateGroup[] {
+    const settings = { ...this.options, ...options };
+    const fingerprints = snippets
+      .map((snippet) => this.fingerprint(snippet, settings))
+      .filter((fingerprint): fingerprint is CodeFingerprint => !!fingerprint);
+
+    const parents = fingerprints.map((_, i) => i);
+    const similarities = fingerprints.map(() => 1);
+    const find = (i: number): number => {
+      while (parents[i] !== i) {
+        parents[i] = parents[parents[i]];
+        i = parents[i];
+      }
+      return i;
+    };
+    const link = (a: number, b: number, similarity: number) => {
+      const rootA = find(a);
+      const rootB = find(b);
+      const lowest = Math.min(
+        similarities[rootA],
+        similarities[rootB],
+        similarity
+      );
+      parents[rootB] = rootA;
+      similarities[rootA] = lowest;
+    };
+
+    const byFingerprint = new Map<string, number>();
+    fingerprints.forEach((fingerprint, i) => {
+      const first = byFingerprint.get(fingerprint.exact);
+      if (first === undefined) {
+        byFingerprint.set(fingerprint.exact, i);
+      } else {
+        link(first, i, 1);
+      }
+    });
+
+    if (settings.threshold < 1) {
+      this.findSimilarPairs(fingerprints, settings).forEach(([a, b, score]) =>
+        link(a, b, score)
+      );
+    }
+
+    const members = new Map<number, number[]>();
+    fingerprints.forEach((_, i) => {
+      const root = find(i);
+      const indices = members.get(root);
+      if (indices) {
+        indices.push(i);
+      } else {
+        members.set(root, [i]);
+      }
+    });
+
+    const groups: DuplicateGroup[] = [];
+    members.forEach((indices, root) => {
+      if (indices.length < 2) {
+        return;
+      }
+      const grouped = indices.map((i) => fingerprints[i]);
+      const sorted = grouped
+        .map((fingerprint) => fingerprint.snippet)
+        .sort(
+          (a, b) =>
+            b.usageCount - a.usageCount ||
+            new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+        );
+      const [firstId] = sorted.map((snippet) => snippet.id).sort();
+      groups.push({
+        id: `duplicates-${firstId}`,
+        snippets: sorted,
+        similarity: similarities[root],
+        exact: grouped.every(
+          (fingerprint) => fingerprint.exact === grouped[0].exact
+        ),
+      });
+    });
+
+    return groups.sort(
+      (a, b) =>
+        b.similarity - a.similarity ||
+        b.snippets.length - a.snippets.length ||
+        a.id.localeCompare(b.id)
+    );
+  }
+
+  /**
+   * Similarity of two snippets' code, 1 for exact duplicates
+   */
+  compare(a: SnippetInterface, b: SnippetInterface): number {
+    const first = this.fingerprint(a, this.options);
+    const second = this.fingerprint(b, this.options);
+    if (!first || !second) {
+      return 0;
+    }
+    return first.exact === second.exact
+      ? 1
+      : jaccard(first.shingles, second.shingles);
+  }
+
+  private fingerprint(
+    snippet: SnippetInterface,
+    options: DuplicateDetectionOptions
+  ): CodeFingerprint | undefined {
+    const tokens = normalizeCode(snippet.code, snippet.language);
+    if (tokens.length === 0) {
+      return undefined;
+    }
+
+    // Renaming would make most short snippets alike
+    const short = tokens.length < options.minTokens;
+    const exact = (
+      short ? normalizeCode(snippet.code, snippet.language, true) : tokens
+    ).join(" ");
+
+    const shingles = new Set<string>();
+    if (!short) {
+      const generic = tokens.map((token) =>
+        token.startsWith("$") || /^["'`\p{N}]/u.test(token) ? "$" : token
+      );
+      const size = Math.min(options.shingleSize, generic.length);
+      for (let i = 0; i + size <= generic.length; i++) {
+        shingles.add(generic.slice(i, i + size).join(" "));
+      }
+    }
+
+    return { snippet, exact, shingles };
+  }
+
+  /**
+   * Find pairs of snippets at least as similar as the threshold. Only
+   * pairs sharing a shingle are compared, and shingles common to many
+   * snippets, like `) ; } $ (`, are not used to find pairs.
+   */
+  private findSimilarPairs(
+    fingerprints: CodeFingerprint[],
+    options: DuplicateDetectionOptions
+  ): Array<[number, number, number]> {
+    const postings = new Map<string, number[]>();
+    fingerprints.forEach((fingerprint, i) => {
+      fingerprint.shingles.forEach((shingle) => {
+        const posting = postings.get(shingle);
+        if (posting) {
+          posting.push(i);
+        } else {
+          postings.set(shingle, [i]);
+        }
+      });
+    });
+
+    const candidates = new Set<number>();
+    const pairs: Array<[number, number, number]> = [];
+    fingerprints.forEach((fingerprint, i) => {
+      candidates.clear();
+      fingerprint.shingles.forEach((shingle) => {
+        const posting = postings.get(shingle)!;
+        if (posting.length > options.maxShingleFrequency) {
+          return;
+        }
+        for (const j of posting) {
+          if (j > i) {
+            candidates.add(j);
+          }
+        }
+      });
+
+      candidates.forEach((j) => {
+        const other = fingerprints[j].shingles;
+        const sizes = [fingerprint.shingles.size, other.size];
+        // The union is at least as large as the larger set
+        if (Math.min(...sizes) < options.threshold * Math.max(...sizes)) {
+          return;
+        }
+        const similarity = jaccard(fingerprint.shingles, other);
+        if (similarity >= options.threshold) {
+          pairs.push([i, j, similarity]);
+        }
+      });
+    });
+
+    return pairs;
+  }
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  a.forEach((value) => {
+    if (b.has(value)) {
+      shared++;
+    }
+  });
+  return shared / (a.size + b.size - shared);
+}
@@ -20,9 +20,9 @@ import { createError, generateId } from "../utils";
  * File system based storage service implementation
  */
 export class FileSystemStorageService implements StorageService {
-  private config: StorageConfig;
+  protected config: StorageConfig;
   private watcher: FSWatcher | null = null;
-  private watchCallback: ((changes: StorageChange[]) => void) | null = null;
+  protected watchCallback: ((changes: StorageChange[]) => void) | null = null;
 
   constructor(config?: Partial<StorageConfigInterface>) {
     this.config = new StorageConfig(config);
@@ -32,9 +32,16 @@ export class FileSystemStorageService implements StorageService {
    * Load all snippets from storage
    */
   async loadSnippets(): Promise<Result<SnippetInterface[]>> {
-    try {
-      const filePath = this.getSnippetsFilePath();
+    return this.readSnippetsFile(this.getSnippetsFilePath());
+  }
 
+  /**
+   * Read snippets from a collection file in the configured format
+   */
+  protected async readSnippetsFile(
+    filePath: string
+  ): Promise<Result<SnippetInterface[]>> {
+    try {
       // Check if file exists
       if (!fs.existsSync(filePath)) {
         // Return empty array if file doesn't exist
@@ -275,7 +282,7 @@ export class FileSystemStorageService implements StorageService {
       this.config = newConfig;
 
       // Restart watching if it was active
-      if (this.watcher && this.watchCallback) {
+      if (this.watchCallback) {
         const callback = this.watchCallback;
         this.stopWatching();
         this.watchChanges(callback);
@@ -318,7 +325,6 @@ export class FileSystemStorageService implements StorageService {
       // If location changed, restart watching
       if (
         (configUpdates.location || configUpdates.path) &&
-        this.watcher &&
         this.watchCallback
       ) {
         const callback = this.watchCallback;
@@ -609,11 +615,11 @@ export class FileSystemStorageService implements StorageService {
 
   // Private helper methods
 
-  private getSnippetsFilePath(): string {
+  protected getSnippetsFilePath(): string {
     return this.resolveStoragePath(this.config.getStorageFilePath());
   }
 
-  private getBackupDirectory(): string {
+  protected getBackupDirectory(): string {
     const storageDir = path.dirname(this.getSnippetsFilePath());
     return path.join(storageDir, "backups");
   }
@@ -660,7 +666,7 @@ export class FileSystemStorageService implements StorageService {
     }
   }
 
-  private async createBackupIfDue(): Promise<void> {
+  protected async createBackupIfDue(): Promise<void> {
     try {
       const backupFiles = await this.listBackups();
       if (!backupFiles.success) return;
@@ -1,5 +1,6 @@
 import * as fs from "fs";
 import * as path from "path";
+import * as yaml from "js-yaml";
 import { EventEmitter } from "events";
 import {
   SnippetInterface,
@@ -7,6 +8,12 @@ import {
   Result,
   ErrorType,
 } from "../../types";
+import {
+  findSnippetMetadataFile,
+  isSnippetMetadataFile,
+  parseSnippetMetadata,
+  readSnippetFiles,
+} from "./SnippetFileLayout";
 
 /**
  * File system watcher configuration
@@ -90,6 +97,7 @@ export class FileSystemWatcherImpl
   private isActive = false;
   private debounceTimers = new Map<string, NodeJS.Timeout>();
   private lastModified = new Map<string, number>();
+  private snippetIds = new Map<string, string>(); // Metadata sidecar path -> snippet ID
 
   constructor(config: FileWatcherConfig) {
     super();
@@ -122,6 +130,8 @@ export class FileSystemWatcherImpl
         };
       }
 
+      await this.loadSnippetIds();
+
       // Start watching
       this.watcher = fs.watch(
         this.config.watchPath,
@@ -340,7 +350,19 @@ export class FileSystemWatcherImpl
       this.emit("fileChange", fileChangeEvent);
 
       // Try to parse as snippet file and emit storage change
-      if (this.isSnippetFile(filePath)) {
+      const metadataPath = isSnippetMetadataFile(filePath)
+        ? filePath
+        : findSnippetMetadataFile(filePath);
+      if (metadataPath) {
+        // Per-snippet layout: a code file or its metadata sidecar changed
+        const storageChange = await this.parseSnippetFiles(
+          metadataPath,
+          metadataPath === filePath ? changeType : "updated"
+        );
+        if (storageChange) {
+          this.emit("storageChange", storageChange);
+        }
+      } else if (this.isSnippetFile(filePath)) {
         const storageChange = await this.parseSnippetFile(filePath, changeType);
         if (storageChange) {
           this.emit("storageChange", storageChange);
@@ -410,9 +432,7 @@ export class FileSystemWatcherImpl
       if (ext === ".json") {
         data = JSON.parse(content);
       } else if (ext === ".yaml" || ext === ".yml") {
-        // For YAML parsing, we'd need a YAML library
-        // For now, assume JSON format
-        data = JSON.parse(content);
+        data = yaml.load(content);
       } else {
         return null;
       }
@@ -459,6 +479,78 @@ export class FileSystemWatcherImpl
     }
   }
 
+  private async parseSnippetFiles(
+    metadataPath: string,
+    changeType: "created" | "updated" | "deleted"
+  ): Promise<StorageChange | null> {
+    try {
+      if (changeType === "deleted") {
+        const id =
+          this.snippetIds.get(metadataPath) ||
+          path.basename(metadataPath).split(".")[0];
+        this.snippetIds.delete(metadataPath);
+        return {
+          type: "deleted",
+          snippet: {
+            id,
+            title: "Deleted Snippet",
+            description: "",
+            code: "",
+            language: "",
+            tags: [],
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            usageCount: 0,
+          },
+          timestamp: new Date(),
+        };
+      }
+
+      const snippet = await readSnippetFiles(metadataPath);
+      this.snippetIds.set(metadataPath, snippet.id);
+
+      return {
+        type: changeType,
+        snippet,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      // The code file and sidecar may be mid-write
+      console.error("Error parsing snippet file:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Remember the snippet IDs of the sidecars already on disk, so deleting
+   * one reports the right snippet
+   */
+  private async loadSnippetIds(): Promise<void> {
+    this.snippetIds.clear();
+    let files: string[];
+    try {
+      files = await this.getAllFiles(this.config.watchPath);
+    } catch (error) {
+      console.error("Error listing snippet files:", error);
+      return;
+    }
+
+    for (const filePath of files) {
+      if (!isSnippetMetadataFile(filePath) || this.shouldIgnoreFile(filePath)) {
+        continue;
+      }
+      try {
+        const metadata = parseSnippetMetadata(
+          await fs.promises.readFile(filePath, "utf-8"),
+          filePath
+        );
+        this.snippetIds.set(filePath, metadata.id);
+      } catch (error) {
+        console.error("Error parsing snippet file:", error);
+      }
+    }
+  }
+
   private async getAllFiles(dirPath: string): Promise<string[]> {
     const files: string[] = [];
 
@@ -0,0 +1,675 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import * as fs from "fs";
+import * as path from "path";
+import { SnippetInterface, Result, ErrorType } from "../../types";
+import { createError } from "../utils";
+import {
+  ConflictResolutionService,
+  Conflict,
+} from "./ConflictResolutionService";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Git synchronization configuration
+ */
+export interface GitSyncConfig {
+  remote: string; // URL or path of the shared repository
+  workingDirectory: string; // Local clone managed by the sync service
+  branch?: string; // Defaults to "main"
+  filePath?: string; // Library file inside the repository
+  author?: { name: string; email: string };
+}
+
+/**
+ * Git synchronization status
+ */
+export interface GitSyncStatus {
+  remote: string;
+  branch: string;
+  inProgress: boolean;
+  lastSync: Date | null;
+  lastCommit: string | null;
+  lastError: string | null;
+  conflicts: number; // Divergent edits found by the last sync
+}
+
+/**
+ * Outcome of a git synchronization
+ */
+export interface GitSyncResult {
+  snippets: SnippetInterface[]; // Library after merging remote changes
+  conflicts: Conflict[];
+  pulled: number; // Snippets added, changed or removed by remote changes
+  changedIds: string[]; // IDs of the snippets counted in pulled
+  committed: boolean;
+  pushed: boolean;
+  commit: string | null;
+}
+
+/**
+ * Interface for synchronizing a library with a git repository
+ */
+export interface GitSyncService {
+  /**
+   * Prepare the local clone of the repository
+   */
+  initialize(config: GitSyncConfig): Promise<Result<void>>;
+
+  /**
+   * Commit the local library, pull and merge remote changes and push the
+   * result. Snippets edited differently on both sides are added to the
+   * pending conflicts. They keep their local version in the library, but
+   * the repository keeps the remote version until the conflict is resolved.
+   * Pending git conflicts are kept in the clone's .git folder, so they
+   * survive a restart.
+   */
+  sync(localSnippets: SnippetInterface[]): Promise<Result<GitSyncResult>>;
+
+  /**
+   * Get current git synchronization status
+   */
+  getStatus(): GitSyncStatus;
+
+  /**
+   * Dispose resources
+   */
+  dispose(): void;
+}
+
+/**
+ * Snippet as stored in the repository. Usage counts are personal and are
+ * not shared.
+ */
+type SnippetRecord = Omit<SnippetInterface, "usageCount" | "source">;
+
+const DEFAULT_BRANCH = "main";
+const DEFAULT_FILE_PATH = "snippets.json";
+// Inside .git, so it is never committed
+const CONFLICTS_FILE = "snippet-library-conflicts.json";
+
+/**
+ * Implementation of git synchronization using the git command line
+ */
+export class GitSyncServiceImpl implements GitSyncService {
+  private config: GitSyncConfig | null = null;
+  private conflictResolver: ConflictResolutionService;
+  private inProgress = false;
+  private lastSync: Date | null = null;
+  private lastCommit: string | null = null;
+  private lastError: string | null = null;
+  private conflictCount = 0;
+
+  constructor(conflictResolver: ConflictResolutionService) {
+    this.conflictResolver = conflictResolver;
+    this.conflictResolver.onConflictResolved(() => {
+      this.saveConflicts().catch((error) => {
+        this.lastError = errorMessage(error);
+      });
+    });
+  }
+
+  async initialize(config: GitSyncConfig): Promise<Result<void>> {
+    try {
+      this.config = config;
+      const cwd = config.workingDirectory;
+
+      await fs.promises.mkdir(cwd, { recursive: true });
+      if (!fs.existsSync(path.join(cwd, ".git"))) {
+        await this.git(["init"]);
+        await this.git(["symbolic-ref", "HEAD", this.branchRef()]);
+        await this.git(["remote", "add", "origin", config.remote]);
+      } else {
+        await this.git(["remote", "set-url", "origin", config.remote]);
+      }
+
+      if (config.author) {
+        await this.git(["config", "user.name", config.author.name]);
+        await this.git(["config", "user.email", config.author.email]);
+      } else if (!(await this.tryGit(["config", "user.email"]))) {
+        // Commits need an identity even where none is configured globally
+        await this.git(["config", "user.name", "Snippet Library"]);
+        await this.git(["config", "user.email", "snippet-library@localhost"]);
+      }
+
+      this.lastCommit = await this.revParse("HEAD");
+      await this.loadConflicts();
+      return { success: true, data: undefined };
+    } catch (error) {
+      this.lastError = errorMessage(error);
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to prepare the git repository",
+          { remote: config.remote, error: this.lastError },
+          true,
+          "Check that git is installed and the sync folder is writable"
+        ),
+      };
+    }
+  }
+
+  async sync(
+    localSnippets: SnippetInterface[]
+  ): Promise<Result<GitSyncResult>> {
+    if (!this.config) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Git sync not initialized",
+          {},
+          true,
+          "Call initialize() first"
+        ),
+      };
+    }
+
+    if (this.inProgress) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.syncConflict,
+          "Git sync already in progress",
+          {},
+          true,
+          "Wait for the current sync to finish"
+        ),
+      };
+    }
+
+    this.inProgress = true;
+    try {
+      const result = await this.runSync(localSnippets);
+
+      this.lastSync = new Date();
+      this.lastCommit = result.commit;
+      this.lastError = null;
+      this.conflictCount = result.conflicts.length;
+
+      return { success: true, data: result };
+    } catch (error) {
+      this.lastError = errorMessage(error);
+      return {
+        success: false,
+        error: createError(
+          ErrorType.network,
+          "Failed to sync the library with git",
+          { remote: this.config.remote, error: this.lastError },
+          true,
+          "Check the remote repository and your git credentials"
+        ),
+      };
+    } finally {
+      this.inProgress = false;
+    }
+  }
+
+  getStatus(): GitSyncStatus {
+    return {
+      remote: this.config?.remote || "",
+      branch: this.getBranch(),
+      inProgress: this.inProgress,
+      lastSync: this.lastSync,
+      lastCommit: this.lastCommit,
+      lastError: this.lastError,
+      conflicts: this.conflictCount,
+    };
+  }
+
+  dispose(): void {
+    this.config = null;
+  }
+
+  // Private helper methods
+
+  private async runSync(
+    localSnippets: SnippetInterface[]
+  ): Promise<GitSyncResult> {
+    const remoteRef = `refs/remotes/origin/${this.getBranch()}`;
+
+    await this.git(["fetch", "origin"]);
+    const remoteHead = await this.revParse(remoteRef);
+    const head = await this.revParse("HEAD");
+
+    // Commit local changes first so they are part of the history we merge.
+    // Snippets with an unresolved conflict stay as they were committed.
+    const held = new Set(
+      this.conflictResolver
+        .getPendingConflicts()
+        .filter((conflict) => conflict.source === "git")
+        .map((conflict) => conflict.snippetId)
+    );
+    const headRecords = head ? await this.readRecords("HEAD") : [];
+    const libraryRecords = buildLocalRecords(localSnippets, headRecords);
+    const localRecords = replaceHeld(libraryRecords, headRecords, held);
+    let committed = false;
+    if (head || localRecords.length > 0) {
+      await this.writeRecords(localRecords);
+      committed = await this.commit("Update snippet library");
+    }
+
+    let mergedRecords = localRecords;
+    let conflicts: Conflict[] = [];
+    let localHead = await this.revParse("HEAD");
+
+    if (remoteHead && remoteHead !== localHead) {
+      const remoteRecords = await this.readRecords(remoteRef);
+
+      if (!localHead) {
+        await this.git(["reset", "--hard", remoteRef]);
+        mergedRecords = remoteRecords;
+      } else if (await this.isAncestor(remoteHead, localHead)) {
+        // Remote changes are already part of the local history
+      } else if (await this.isAncestor(localHead, remoteHead)) {
+        await this.git(["merge", "--ff-only", remoteRef]);
+        mergedRecords = remoteRecords;
+      } else {
+        const base = await this.tryGit(["merge-base", "HEAD", remoteRef]);
+        const baseRecords = base ? await this.readRecords(base) : [];
+        const merge = this.mergeRecords(
+          baseRecords,
+          localRecords,
+          remoteRecords,
+          localSnippets
+        );
+        mergedRecords = merge.records;
+        conflicts = merge.conflicts;
+        conflicts.forEach((conflict) => {
+          held.add(conflict.snippetId);
+          this.conflictResolver.addConflict(conflict);
+        });
+        if (conflicts.length > 0) {
+          await this.saveConflicts();
+        }
+
+        // Record both parents; the tree is the merged library
+        await this.git([
+          "merge",
+          "--no-commit",
+          "--allow-unrelated-histories",
+          "-s",
+          "ours",
+          remoteRef,
+        ]);
+        await this.writeRecords(mergedRecords);
+        await this.commit("Merge remote snippet changes", true);
+      }
+      localHead = await this.revParse("HEAD");
+    }
+
+    let pushed = false;
+    if (localHead && localHead !== remoteHead) {
+      await this.git(["push", "origin", `HEAD:${this.branchRef()}`]);
+      pushed = true;
+    }
+
+    // The library keeps its version of snippets in conflict
+    const resultRecords = replaceHeld(mergedRecords, libraryRecords, held);
+    const changedIds = findChanges(libraryRecords, resultRecords);
+    return {
+      snippets: toSnippets(resultRecords, localSnippets),
+      conflicts,
+      pulled: changedIds.length,
+      changedIds,
+      committed,
+      pushed,
+      commit: localHead,
+    };
+  }
+
+  /**
+   * Three-way merge of snippet records. A side's change is taken when the
+   * other side left the snippet as it was in the common base; snippets
+   * changed differently on both sides keep their remote version, so the
+   * push does not overwrite it, and are reported as conflicts. An edit
+   * wins over a deletion.
+   */
+  private mergeRecords(
+    base: SnippetRecord[],
+    local: SnippetRecord[],
+    remote: SnippetRecord[],
+    localSnippets: SnippetInterface[]
+  ): { records: SnippetRecord[]; conflicts: Conflict[] } {
+    const baseById = new Map(base.map((record) => [record.id, record]));
+    const localById = new Map(local.map((record) => [record.id, record]));
+    const remoteById = new Map(remote.map((record) => [record.id, record]));
+    const ids = Array.from(
+      new Set([...local, ...remote].map((record) => record.id))
+    );
+
+    const records: SnippetRecord[] = [];
+    const conflicts: Conflict[] = [];
+
+    for (const id of ids) {
+      const baseRecord = baseById.get(id);
+      const localRecord = localById.get(id);
+      const remoteRecord = remoteById.get(id);
+      const localChanged = !sameContent(localRecord, baseRecord);
+      const remoteChanged = !sameContent(remoteRecord, baseRecord);
+
+      let merged: SnippetRecord | undefined;
+      if (!remoteChanged) {
+        merged = localRecord;
+      } else if (!localChanged || sameContent(localRecord, remoteRecord)) {
+        merged = remoteRecord;
+      } else if (localRecord && remoteRecord) {
+        merged = remoteRecord;
+        const [localSnippet, remoteSnippet, baseSnippet] = toSnippets(
+          baseRecord
+            ? [localRecord, remoteRecord, baseRecord]
+            : [localRecord, remoteRecord],
+          localSnippets
+        );
+        const conflict = this.conflictResolver.detectConflict(
+          localSnippet,
+          remoteSnippet,
+          "git",
+          baseSnippet
+        );
+        if (conflict) {
+          conflicts.push(conflict);
+        }
+      } else {
+        merged = localRecord || remoteRecord;
+      }
+
+      if (merged) {
+        records.push(merged);
+      }
+    }
+
+    return { records, conflicts };
+  }
+
+  /**
+   * Restore the git conflicts pending when the service last ran. Until they
+   * are resolved, their snippets keep the remote version in the repository.
+   */
+  private async loadConflicts(): Promise<void> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.getConflictsPath(), "utf-8");
+    } catch {
+      return;
+    }
+
+    const pending = new Set(
+      this.conflictResolver
+        .getPendingConflicts()
+        .map((conflict) => conflict.id)
+    );
+    const data = JSON.parse(content);
+    for (const stored of data.conflicts || []) {
+      if (pending.has(stored.id)) {
+        continue;
+      }
+      const conflict: Conflict = {
+        ...stored,
+        detectedAt: new Date(stored.detectedAt),
+        localSnippet: reviveSnippet(stored.localSnippet),
+        remoteSnippet: reviveSnippet(stored.remoteSnippet),
+      };
+      if (stored.baseSnippet) {
+        conflict.baseSnippet = reviveSnippet(stored.baseSnippet);
+      }
+      this.conflictResolver.addConflict(conflict);
+    }
+  }
+
+  /**
+   * Keep the pending git conflicts next to the clone
+   */
+  private async saveConflicts(): Promise<void> {
+    if (!this.config) {
+      return;
+    }
+
+    const conflicts = this.conflictResolver
+      .getPendingConflicts()
+      .filter((conflict) => conflict.source === "git");
+    const filePath = this.getConflictsPath();
+    if (conflicts.length === 0) {
+      await fs.promises.rm(filePath, { force: true });
+      return;
+    }
+    await fs.promises.writeFile(
+      filePath,
+      JSON.stringify({ conflicts }, null, 2) + "\n",
+      "utf-8"
+    );
+  }
+
+  private async readRecords(revision: string): Promise<SnippetRecord[]> {
+    const content = await this.tryGit([
+      "show",
+      `${revision}:${this.getFilePath()}`,
+    ]);
+    if (content === null) {
+      return [];
+    }
+
+    const data = JSON.parse(content);
+    return (data.snippets || []).map((record: any) => ({
+      ...record,
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt),
+    }));
+  }
+
+  private async writeRecords(records: SnippetRecord[]): Promise<void> {
+    const filePath = path.join(
+      this.config!.workingDirectory,
+      this.getFilePath()
+    );
+    const sorted = [...records].sort((a, b) => a.id.localeCompare(b.id));
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(
+      filePath,
+      JSON.stringify({ snippets: sorted.map(toRecord) }, null, 2) + "\n",
+      "utf-8"
+    );
+  }
+
+  /**
+   * Commit the library file, returning whether anything was committed
+   */
+  private async commit(message: string, merging = false): Promise<boolean> {
+    await this.git(["add", "--", this.getFilePath()]);
+    // Exits with an error when there are staged changes
+    const unchanged = await this.tryGit(["diff", "--cached", "--quiet"]);
+    if (unchanged !== null && !merging) {
+      return false;
+    }
+
+    await this.git(["commit", "--no-verify", "-m", message]);
+    return true;
+  }
+
+  private async isAncestor(
+    ancestor: string,
+    descendant: string
+  ): Promise<boolean> {
+    const result = await this.tryGit([
+      "merge-base",
+      "--is-ancestor",
+      ancestor,
+      descendant,
+    ]);
+    return result !== null;
+  }
+
+  private async revParse(revision: string): Promise<string | null> {
+    return this.tryGit(["rev-parse", "--verify", "--quiet", revision]);
+  }
+
+  /**
+   * Run a git command, returning null instead of failing
+   */
+  private async tryGit(args: string[]): Promise<string | null> {
+    try {
+      return await this.git(args);
+    } catch {
+      return null;
+    }
+  }
+
+  private async git(args: string[]): Promise<string> {
+    // Never wait for credentials on a prompt nobody can see
+    const env = { ...process.env };
+    env.GIT_TERMINAL_PROMPT = "0";
+    const { stdout } = await execFileAsync("git", args, {
+      cwd: this.config!.workingDirectory,
+      env,
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    return stdout.trim();
+  }
+
+  private getBranch(): string {
+    return this.config?.branch || DEFAULT_BRANCH;
+  }
+
+  private branchRef(): string {
+    return `refs/heads/${this.getBranch()}`;
+  }
+
+  private getFilePath(): string {
+    return this.config?.filePath || DEFAULT_FILE_PATH;
+  }
+
+  private getConflictsPath(): string {
+    return path.join(this.config!.workingDirectory, ".git", CONFLICTS_FILE);
+  }
+}
+
+/**
+ * Repository form of a snippet with a fixed key order, so unchanged
+ * snippets serialize identically
+ */
+function toRecord(snippet: SnippetRecord | SnippetInterface): SnippetRecord {
+  return {
+    id: snippet.id,
+    title: snippet.title,
+    description: snippet.description,
+    code: snippet.code,
+    language: snippet.language,
+    tags: [...snippet.tags],
+    category: snippet.category,
+    prefix: snippet.prefix,
+    prefixAliases: snippet.prefixAliases,
+    scope: snippet.scope,
+    variables: snippet.variables,
+    createdAt: new Date(snippet.createdAt),
+    updatedAt: new Date(snippet.updatedAt),
+  };
+}
+
+/**
+ * Records for the local library. Snippets whose content matches the
+ * committed version keep that version, so usage alone never creates a
+ * commit.
+ */
+function buildLocalRecords(
+  snippets: SnippetInterface[],
+  committed: SnippetRecord[]
+): SnippetRecord[] {
+  const committedById = new Map(committed.map((record) => [record.id, record]));
+
+  return snippets.map((snippet) => {
+    const record = toRecord(snippet);
+    const previous = committedById.get(snippet.id);
+    return previous && sameContent(previous, record) ? previous : record;
+  });
+}
+
+/**
+ * Replace the records of held snippets with their records in another
+ * version of the library
+ */
+function replaceHeld(
+  records: SnippetRecord[],
+  other: SnippetRecord[],
+  held: Set<string>
+): SnippetRecord[] {
+  if (held.size === 0) {
+    return records;
+  }
+  return records
+    .filter((record) => !held.has(record.id))
+    .concat(other.filter((record) => held.has(record.id)));
+}
+
+/**
+ * Restore snippets from records, keeping local usage counts
+ */
+function toSnippets(
+  records: SnippetRecord[],
+  localSnippets: SnippetInterface[]
+): SnippetInterface[] {
+  const usage = new Map(
+    localSnippets.map((snippet) => [snippet.id, snippet.usageCount])
+  );
+
+  return records.map((record) => {
+    const snippet: SnippetInterface = {
+      ...toRecord(record),
+      usageCount: usage.get(record.id) || 0,
+    };
+    // Drop optional fields the record does not have
+    for (const key of Object.keys(snippet)) {
+      if ((snippet as any)[key] === undefined) {
+        delete (snippet as any)[key];
+      }
+    }
+    return snippet;
+  });
+}
+
+/**
+ * Compare snippet content, ignoring the update time
+ */
+function sameContent(a?: SnippetRecord, b?: SnippetRecord): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  return contentKey(a) === contentKey(b);
+}
+
+function contentKey(record: SnippetRecord): string {
+  const { updatedAt: _updatedAt, ...content } = toRecord(record);
+  return JSON.stringify(content);
+}
+
+/**
+ * IDs of snippets that differ between two versions of the library
+ */
+function findChanges(before: SnippetRecord[], after: SnippetRecord[]): string[] {
+  const beforeById = new Map(before.map((record) => [record.id, record]));
+  const afterIds = new Set(after.map((record) => record.id));
+
+  const changed = after.filter(
+    (record) => !sameContent(record, beforeById.get(record.id))
+  );
+  const removed = before.filter((record) => !afterIds.has(record.id));
+
+  return [...changed, ...removed].map((record) => record.id);
+}
+
+/**
+ * Restore the dates of a snippet read back from JSON
+ */
+function reviveSnippet(snippet: any): SnippetInterface {
+  return {
+    ...snippet,
+    createdAt: new Date(snippet.createdAt),
+    updatedAt: new Date(snippet.updatedAt),
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -14,11 +14,22 @@ import {
 } from "../../types";
 import { SnippetManager } from "../../interfaces";
 import { createError } from "../utils";
+import {
+  isVSCodeSnippetFile,
+  parseJsonWithComments,
+  parseVSCodeSnippets,
+  serializeVSCodeSnippets,
+} from "./VSCodeSnippetFormat";
+import {
+  parseMarkdownSnippets,
+  serializeMarkdownSnippets,
+} from "./MarkdownSnippetFormat";
 
 /**
- * File format for import/export operations
+ * File format for import/export operations ("vscode" is the native
+ * `.code-snippets` format, "markdown" a document for wikis and READMEs)
  */
-export type FileFormat = "json" | "yaml";
+export type FileFormat = "json" | "yaml" | "vscode" | "markdown";
 
 /**
  * Export options with file format specification
@@ -37,6 +48,7 @@ export interface ImportOptions {
   filePath: string;
   conflictResolution: "skip" | "overwrite" | "rename";
   validateFormat?: boolean;
+  language?: string; // Language for VS Code snippets without a scope
 }
 
 /**
@@ -63,27 +75,11 @@ export class ImportExportService {
    */
   async exportToFile(options: ExportOptions): Promise<Result<string>> {
     try {
-      // Get snippets from manager
-      const exportResult = await this.snippetManager.exportSnippets(
-        options.filter
+      const fileContent = await this.exportToString(
+        options.format,
+        options.filter,
+        options.includeMetadata
       );
-
-      if (!exportResult.success) {
-        return {
-          success: false,
-          error: (exportResult as any).error,
-        };
-      }
-
-      const exportData = exportResult.data;
-
-      // Prepare data for export
-      const dataToExport = options.includeMetadata
-        ? exportData
-        : { snippets: exportData.snippets };
-
-      // Convert to specified format
-      const fileContent = this.serializeData(dataToExport, options.format);
       if (!fileContent.success) {
         return fileContent;
       }
@@ -117,6 +113,37 @@ export class ImportExportService {
     }
   }
 
+  /**
+   * Export snippets to a string with specified format
+   */
+  async exportToString(
+    format: FileFormat,
+    filter?: ExportFilter,
+    includeMetadata: boolean = false
+  ): Promise<Result<string>> {
+    // Get snippets from manager
+    const exportResult = await this.snippetManager.exportSnippets(filter);
+
+    if (!exportResult.success) {
+      return {
+        success: false,
+        error: (exportResult as any).error,
+      };
+    }
+
+    const exportData = exportResult.data;
+
+    // Prepare data for export; collections travel with their snippets
+    const dataToExport = includeMetadata
+      ? exportData
+      : exportData.collections
+      ? { snippets: exportData.snippets, collections: exportData.collections }
+      : { snippets: exportData.snippets };
+
+    // Convert to specified format
+    return this.serializeData(dataToExport, format);
+  }
+
   /**
    * Import snippets from a file
    */
@@ -141,11 +168,12 @@ export class ImportExportService {
       // Read file content
       const fileContent = await fs.readFile(options.filePath, "utf-8");
 
-      // Detect format from file extension
-      const format = this.detectFileFormat(options.filePath);
-
-      // Parse file content
-      const parseResult = this.parseData(fileContent, format);
+      // Parse and validate file content
+      const parseResult = this.parseImportFile(
+        fileContent,
+        options.filePath,
+        options.language
+      );
       if (!parseResult.success) {
         return {
           success: false,
@@ -153,20 +181,9 @@ export class ImportExportService {
         };
       }
 
-      const parsedData = parseResult.data;
-
-      // Validate data structure
-      const validationResult = this.validateImportData(parsedData);
-      if (!validationResult.success) {
-        return {
-          success: false,
-          error: (validationResult as any).error,
-        };
-      }
-
       // Prepare import data
       const importData: ImportData = {
-        snippets: parsedData.snippets || parsedData, // Handle both wrapped and unwrapped formats
+        ...parseResult.data,
         conflictResolution: options.conflictResolution,
       };
 
@@ -189,6 +206,95 @@ export class ImportExportService {
     }
   }
 
+  /**
+   * Parse import file content into snippet data. The format is detected from
+   * the file name; VS Code snippet files are also recognized by content, and
+   * per-language files (e.g. `snippets/javascript.json`) take their language
+   * from the file name.
+   */
+  parseImportContent(
+    content: string,
+    filePath: string,
+    language?: string
+  ): Result<SnippetData[]> {
+    const parseResult = this.parseImportFile(content, filePath, language);
+    if (!parseResult.success) {
+      return parseResult;
+    }
+    return { success: true, data: parseResult.data.snippets };
+  }
+
+  /**
+   * Parse import file content into snippet data and the collections that
+   * were exported with the snippets, if any
+   */
+  parseImportFile(
+    content: string,
+    filePath: string,
+    language?: string
+  ): Result<Pick<ImportData, "snippets" | "collections">> {
+    const format = this.detectFileFormat(filePath);
+
+    let parseResult = this.parseData(content, format);
+    if (!parseResult.success && format === "json") {
+      // VS Code per-language snippet files usually contain comments
+      const vscodeResult = this.parseData(content, "vscode");
+      if (vscodeResult.success && isVSCodeSnippetFile(vscodeResult.data)) {
+        parseResult = vscodeResult;
+      }
+    }
+
+    if (!parseResult.success) {
+      return {
+        success: false,
+        error: (parseResult as any).error,
+      };
+    }
+
+    let parsedData = parseResult.data;
+
+    if (format === "vscode" || isVSCodeSnippetFile(parsedData)) {
+      if (!isVSCodeSnippetFile(parsedData)) {
+        return {
+          success: false,
+          error: createError(
+            ErrorType.validation,
+            "Invalid VS Code snippet file",
+            { filePath },
+            false,
+            "Each snippet must be an object with a 'body' field"
+          ),
+        };
+      }
+
+      parsedData = parseVSCodeSnippets(parsedData, {
+        language:
+          language ||
+          (format === "json" ? getSnippetFileLanguage(filePath) : undefined),
+      });
+    }
+
+    // Validate data structure
+    const validationResult = this.validateImportData(parsedData);
+    if (!validationResult.success) {
+      return {
+        success: false,
+        error: (validationResult as any).error,
+      };
+    }
+
+    // Handle both wrapped and unwrapped formats
+    return {
+      success: true,
+      data: {
+        snippets: parsedData.snippets || parsedData,
+        collections: Array.isArray(parsedData.collections)
+          ? parsedData.collections
+          : undefined,
+      },
+    };
+  }
+
   /**
    * Create a backup of all snippets
    */
@@ -249,7 +355,7 @@ export class ImportExportService {
    * Get supported file formats
    */
   getSupportedFormats(): FileFormat[] {
-    return ["json", "yaml"];
+    return ["json", "yaml", "vscode", "markdown"];
   }
 
   /**
@@ -263,15 +369,7 @@ export class ImportExportService {
    * Detect file format from file extension
    */
   private detectFileFormat(filePath: string): FileFormat {
-    const ext = path.extname(filePath).toLowerCase();
-    switch (ext) {
-      case ".yaml":
-      case ".yml":
-        return "yaml";
-      case ".json":
-      default:
-        return "json";
-    }
+    return getFileFormat(filePath);
   }
 
   /**
@@ -290,6 +388,20 @@ export class ImportExportService {
             success: true,
             data: yaml.dump(data, { indent: 2 }),
           };
+        case "vscode":
+          return {
+            success: true,
+            data: JSON.stringify(
+              serializeVSCodeSnippets(data.snippets || data),
+              null,
+              2
+            ),
+          };
+        case "markdown":
+          return {
+            success: true,
+            data: serializeMarkdownSnippets(data.snippets || data),
+          };
         default:
           return {
             success: false,
@@ -298,7 +410,7 @@ export class ImportExportService {
               "Unsupported export format",
               { format },
               false,
-              "Use 'json' or 'yaml' format"
+              `Use one of: ${this.getSupportedFormats().join(", ")}`
             ),
           };
       }
@@ -336,6 +448,16 @@ export class ImportExportService {
             success: true,
             data: yamlData,
           };
+        case "vscode":
+          return {
+            success: true,
+            data: parseJsonWithComments(content),
+          };
+        case "markdown":
+          return {
+            success: true,
+            data: parseMarkdownSnippets(content),
+          };
         default:
           return {
             success: false,
@@ -344,7 +466,7 @@ export class ImportExportService {
               "Unsupported import format",
               { format },
               false,
-              "Use 'json' or 'yaml' format"
+              `Use one of: ${this.getSupportedFormats().join(", ")}`
             ),
           };
       }
@@ -421,6 +543,32 @@ export class ImportExportService {
         }
       }
 
+      // Validate collections exported with the snippets
+      const collections = Array.isArray(data) ? undefined : data.collections;
+      if (collections !== undefined) {
+        const invalid = Array.isArray(collections)
+          ? collections.findIndex(
+              (collection: any) =>
+                !collection ||
+                typeof collection.id !== "string" ||
+                typeof collection.name !== "string" ||
+                !Array.isArray(collection.snippetIds)
+            )
+          : 0;
+        if (invalid !== -1) {
+          return {
+            success: false,
+            error: createError(
+              ErrorType.validation,
+              `Invalid collection at index ${invalid}`,
+              { collections },
+              false,
+              "Collections must have an 'id', a 'name' and 'snippetIds'"
+            ),
+          };
+        }
+      }
+
       return { success: true, data: true };
     } catch (error) {
       return {
@@ -446,9 +594,10 @@ export class ImportExportService {
       ? new Date().toISOString().replace(/[:.]/g, "-")
       : "";
 
+    const extension = getFileExtension(options.format);
     const filename = timestamp
-      ? `snippets-backup-${timestamp}.${options.format}`
-      : `snippets-backup.${options.format}`;
+      ? `snippets-backup-${timestamp}.${extension}`
+      : `snippets-backup.${extension}`;
 
     if (options.customPath) {
       return path.join(options.customPath, filename);
@@ -462,3 +611,48 @@ export class ImportExportService {
     );
   }
 }
+
+/**
+ * Get the file format of a file from its extension, defaulting to JSON
+ */
+export function getFileFormat(filePath: string): FileFormat {
+  switch (path.extname(filePath).toLowerCase()) {
+    case ".yaml":
+    case ".yml":
+      return "yaml";
+    case ".code-snippets":
+      return "vscode";
+    case ".md":
+    case ".markdown":
+      return "markdown";
+    case ".json":
+    default:
+      return "json";
+  }
+}
+
+/**
+ * Get the file extension used for a file format
+ */
+export function getFileExtension(format: FileFormat): string {
+  switch (format) {
+    case "vscode":
+      return "code-snippets";
+    case "markdown":
+      return "md";
+    default:
+      return format;
+  }
+}
+
+/**
+ * Get the language a VS Code per-language snippet file is named after, as
+ * in `snippets/python.json`. Names like `snippets.json` or
+ * `react-snippets.json` name a collection rather than a language.
+ */
+function getSnippetFileLanguage(filePath: string): string | undefined {
+  const name = path.basename(filePath, path.extname(filePath));
+  return /^[a-z][a-z0-9-]*$/.test(name) && !name.includes("snippet")
+    ? name
+    : undefined;
+}
@@ -0,0 +1,446 @@
+import {
+  SnippetInterface,
+  SnippetSource,
+  StorageLocation,
+  StorageChange,
+  Result,
+  ErrorType,
+  StorageConfigInterface,
+} from "../../types";
+import { StorageService } from "./StorageService";
+import { createError } from "../utils";
+
+/**
+ * One library combined into a layered view
+ */
+export interface LibraryLayer {
+  source: SnippetSource;
+  storage: StorageService;
+  readOnly?: boolean;
+}
+
+/**
+ * Options for combining libraries
+ */
+export interface LayeredStorageOptions {
+  /** Libraries in order of precedence, highest first */
+  layers: LibraryLayer[];
+  /** Library receiving new snippets; defaults to the first writable one */
+  writeSource?: SnippetSource;
+}
+
+/**
+ * Storage service that combines several libraries, such as a personal
+ * global library, the workspace library and a shared read-only team
+ * folder, into one view.
+ *
+ * Loaded snippets are tagged with the source they came from. When two
+ * libraries contain a snippet with the same ID or prefix, the one from the
+ * library with higher precedence is shown and the other is kept on disk
+ * untouched. Saved snippets go back to the library they were loaded from;
+ * new snippets go to the write library. Read-only libraries reject edits
+ * and deletions, and usage counts of their snippets are not persisted.
+ */
+export class LayeredStorageService implements StorageService {
+  private layers: LibraryLayer[];
+  private writeLayer: LibraryLayer;
+  private storedSnippets = new Map<SnippetSource, SnippetInterface[]>();
+  private owners = new Map<string, SnippetSource>();
+  private watchCallback: ((changes: StorageChange[]) => void) | null = null;
+
+  constructor(options: LayeredStorageOptions) {
+    const sources = options.layers.map((layer) => layer.source);
+    if (new Set(sources).size !== sources.length) {
+      throw new Error("Each library source can only be combined once");
+    }
+
+    const writeLayer = options.writeSource
+      ? options.layers.find((layer) => layer.source === options.writeSource)
+      : options.layers.find((layer) => !layer.readOnly);
+    if (!writeLayer || writeLayer.readOnly) {
+      throw new Error(
+        "Layered libraries need a writable library for new snippets"
+      );
+    }
+
+    this.layers = [...options.layers];
+    this.writeLayer = writeLayer;
+  }
+
+  /**
+   * Get the sources of the combined libraries, highest precedence first
+   */
+  getSources(): SnippetSource[] {
+    return this.layers.map((layer) => layer.source);
+  }
+
+  /**
+   * Get the source of the library receiving new snippets
+   */
+  getWriteSource(): SnippetSource {
+    return this.writeLayer.source;
+  }
+
+  /**
+   * Load all libraries and merge them by precedence
+   */
+  async loadSnippets(): Promise<Result<SnippetInterface[]>> {
+    const storedSnippets = new Map<SnippetSource, SnippetInterface[]>();
+    const owners = new Map<string, SnippetSource>();
+    const prefixes = new Set<string>();
+    const snippets: SnippetInterface[] = [];
+
+    for (const layer of this.layers) {
+      const loadResult = await layer.storage.loadSnippets();
+      if (!loadResult.success) {
+        return {
+          success: false,
+          error: createError(
+            ErrorType.storageAccess,
+            `Failed to load the ${layer.source} library`,
+            { source: layer.source, error: (loadResult as any).error },
+            true,
+            "Check the library location and permissions"
+          ),
+        };
+      }
+
+      const layerSnippets = loadResult.data.map(withoutSource);
+      storedSnippets.set(layer.source, layerSnippets);
+
+      for (const snippet of layerSnippets) {
+        // Shadowed by a library with higher precedence
+        if (
+          owners.has(snippet.id) ||
+          (snippet.prefix && prefixes.has(snippet.prefix))
+        ) {
+          continue;
+        }
+
+        owners.set(snippet.id, layer.source);
+        if (snippet.prefix) {
+          prefixes.add(snippet.prefix);
+        }
+        snippets.push({ ...snippet, source: layer.source });
+      }
+    }
+
+    this.storedSnippets = storedSnippets;
+    this.owners = owners;
+
+    return { success: true, data: snippets };
+  }
+
+  /**
+   * Save snippets back to the libraries they belong to
+   */
+  async saveSnippets(snippets: SnippetInterface[]): Promise<Result<void>> {
+    try {
+      const routed = new Map<SnippetSource, Map<string, SnippetInterface>>(
+        this.layers.map((layer) => [layer.source, new Map()])
+      );
+      const created: SnippetInterface[] = [];
+
+      for (const snippet of snippets) {
+        const source = this.owners.get(snippet.id);
+        if (!source) {
+          created.push(snippet);
+        }
+        routed
+          .get(source || this.writeLayer.source)!
+          .set(snippet.id, withoutSource(snippet));
+      }
+
+      const readOnlyResult = this.checkReadOnlyLayers(routed);
+      if (!readOnlyResult.success) {
+        return readOnlyResult;
+      }
+
+      for (const layer of this.layers) {
+        if (layer.readOnly) {
+          continue;
+        }
+
+        const stored = this.storedSnippets.get(layer.source) || [];
+        const layerSnippets = this.mergeLayerSnippets(
+          layer.source,
+          stored,
+          routed.get(layer.source)!
+        );
+        if (stableStringify(layerSnippets) === stableStringify(stored)) {
+          continue;
+        }
+
+        const saveResult = await layer.storage.saveSnippets(layerSnippets);
+        if (!saveResult.success) {
+          return saveResult;
+        }
+        this.storedSnippets.set(layer.source, layerSnippets);
+      }
+
+      for (const [id, source] of Array.from(this.owners)) {
+        if (!routed.get(source)!.has(id)) {
+          this.owners.delete(id);
+        }
+      }
+      for (const snippet of created) {
+        this.owners.set(snippet.id, this.writeLayer.source);
+      }
+
+      // New snippets only learn their source from storage
+      if (created.length > 0 && this.watchCallback) {
+        this.watchCallback(
+          created.map((snippet) => ({
+            type: "created",
+            snippet: { ...snippet, source: this.writeLayer.source },
+            timestamp: new Date(),
+          }))
+        );
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to save snippets to storage",
+          { error: error instanceof Error ? error.message : error },
+          true,
+          "Check file permissions and ensure the storage location is writable"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Watch all libraries, tagging changes with their source
+   */
+  watchChanges(callback: (changes: StorageChange[]) => void): Result<void> {
+    this.watchCallback = callback;
+
+    for (const layer of this.layers) {
+      const watchResult = layer.storage.watchChanges((changes) => {
+        this.watchCallback?.(
+          changes.map((change) => ({
+            ...change,
+            snippet: { ...change.snippet, source: layer.source },
+          }))
+        );
+      });
+      if (!watchResult.success) {
+        // Keep watching the other libraries
+        console.warn(
+          `Failed to watch the ${layer.source} library:`,
+          (watchResult as any).error.message
+        );
+      }
+    }
+
+    return { success: true, data: undefined };
+  }
+
+  /**
+   * Stop watching for changes
+   */
+  stopWatching(): Result<void> {
+    this.watchCallback = null;
+    for (const layer of this.layers) {
+      layer.storage.stopWatching();
+    }
+    return { success: true, data: undefined };
+  }
+
+  /**
+   * Get the location of the write library
+   */
+  getStorageLocation(): Result<StorageLocation> {
+    return this.writeLayer.storage.getStorageLocation();
+  }
+
+  /**
+   * Move the write library
+   */
+  async setStorageLocation(location: StorageLocation): Promise<Result<void>> {
+    return this.writeLayer.storage.setStorageLocation(location);
+  }
+
+  /**
+   * Get the configuration of the write library
+   */
+  getConfig(): StorageConfigInterface {
+    return this.writeLayer.storage.getConfig();
+  }
+
+  /**
+   * Update the configuration of the write library
+   */
+  async updateConfig(
+    config: Partial<StorageConfigInterface>
+  ): Promise<Result<void>> {
+    return this.writeLayer.storage.updateConfig(config);
+  }
+
+  /**
+   * Check that the write library is accessible
+   */
+  async checkStorageAccess(): Promise<Result<boolean>> {
+    return this.writeLayer.storage.checkStorageAccess();
+  }
+
+  /**
+   * Back up the write library
+   */
+  async createBackup(): Promise<Result<string>> {
+    return this.writeLayer.storage.createBackup();
+  }
+
+  /**
+   * List backups of the write library
+   */
+  async listBackups(): Promise<Result<string[]>> {
+    return this.writeLayer.storage.listBackups();
+  }
+
+  /**
+   * Read snippets from a backup of the write library
+   */
+  async restoreFromBackup(
+    backupPath: string
+  ): Promise<Result<SnippetInterface[]>> {
+    return this.writeLayer.storage.restoreFromBackup(backupPath);
+  }
+
+  /**
+   * Initialize the writable libraries. Read-only libraries are never
+   * created or changed.
+   */
+  async initialize(): Promise<Result<void>> {
+    for (const layer of this.layers) {
+      if (layer.readOnly) {
+        continue;
+      }
+      const initResult = await layer.storage.initialize();
+      if (!initResult.success) {
+        return initResult;
+      }
+    }
+
+    return { success: true, data: undefined };
+  }
+
+  /**
+   * Clean up resources of all libraries
+   */
+  dispose(): void {
+    this.watchCallback = null;
+    for (const layer of this.layers) {
+      layer.storage.dispose();
+    }
+  }
+
+  // Private helper methods
+
+  /**
+   * Reject changes to snippets shown from read-only libraries. Usage counts
+   * and the update time that records them are ignored.
+   */
+  private checkReadOnlyLayers(
+    routed: Map<SnippetSource, Map<string, SnippetInterface>>
+  ): Result<void> {
+    for (const layer of this.layers) {
+      if (!layer.readOnly) {
+        continue;
+      }
+
+      const saved = routed.get(layer.source)!;
+      for (const stored of this.storedSnippets.get(layer.source) || []) {
+        if (this.owners.get(stored.id) !== layer.source) {
+          continue;
+        }
+
+        const snippet = saved.get(stored.id);
+        if (!snippet || contentKey(snippet) !== contentKey(stored)) {
+          return {
+            success: false,
+            error: createError(
+              ErrorType.validation,
+              `Snippet belongs to the read-only ${layer.source} library`,
+              { id: stored.id, title: stored.title, source: layer.source },
+              false,
+              "Copy the snippet into your own library to change it"
+            ),
+          };
+        }
+      }
+    }
+
+    return { success: true, data: undefined };
+  }
+
+  /**
+   * Combine the snippets saved for a library with the ones it keeps hidden
+   * behind libraries of higher precedence, preserving the stored order
+   */
+  private mergeLayerSnippets(
+    source: SnippetSource,
+    stored: SnippetInterface[],
+    saved: Map<string, SnippetInterface>
+  ): SnippetInterface[] {
+    const merged: SnippetInterface[] = [];
+    const written = new Set<string>();
+
+    for (const snippet of stored) {
+      if (this.owners.get(snippet.id) !== source) {
+        merged.push(snippet);
+      } else if (saved.has(snippet.id)) {
+        merged.push(saved.get(snippet.id)!);
+        written.add(snippet.id);
+      }
+    }
+
+    for (const [id, snippet] of saved) {
+      if (!written.has(id)) {
+        merged.push(snippet);
+      }
+    }
+
+    return merged;
+  }
+}
+
+/**
+ * Copy a snippet without its source tag, which is not stored
+ */
+function withoutSource(snippet: SnippetInterface): SnippetInterface {
+  const { source: _source, ...rest } = snippet;
+  return rest;
+}
+
+/**
+ * Comparable form of a snippet's content
+ */
+function contentKey(snippet: SnippetInterface): string {
+  const {
+    usageCount: _usageCount,
+    updatedAt: _updatedAt,
+    ...content
+  } = withoutSource(snippet);
+  return stableStringify(content);
+}
+
+/**
+ * Serialize a value with object keys in sorted order, so snippets compare
+ * equal regardless of the key order they were loaded or built with
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === "object" && !Array.isArray(item)
+      ? Object.fromEntries(
+          Object.keys(item)
+            .sort()
+            .map((key) => [key, item[key]])
+        )
+      : item
+  );
+}
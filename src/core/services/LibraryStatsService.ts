@@ -0,0 +1,166 @@
+import {
+  SnippetInterface,
+  LibraryCount,
+  LibraryDashboard,
+  LibraryGrowthPoint,
+  LibraryHealthWarning,
+} from "../../types";
+import { getCategorySegments } from "../taxonomy";
+import { DuplicateDetectionService } from "./DuplicateDetectionService";
+
+/**
+ * How much of the library the dashboard lists
+ */
+export interface LibraryStatsOptions {
+  listSize: number; // Snippets in recent and most used lists
+  tagLimit: number; // Most common tags counted
+  months: number; // Months of growth, ending with the current one
+}
+
+const DEFAULT_OPTIONS: LibraryStatsOptions = {
+  listSize: 5,
+  tagLimit: 20,
+  months: 12,
+};
+
+const toMonth = (date: Date) => date.toISOString().slice(0, 7);
+
+const countBy = (values: string[]): LibraryCount[] => {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts.entries())
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+};
+
+const describeCount = (count: number, singular: string, plural: string) =>
+  `${count} ${count === 1 ? singular : plural}`;
+
+const newestFirst =
+  (field: "createdAt" | "updatedAt") =>
+  (a: SnippetInterface, b: SnippetInterface) =>
+    new Date(b[field]).getTime() - new Date(a[field]).getTime();
+
+/**
+ * Computes the dashboard overview of a library: counts, recent and most
+ * used snippets, growth per month and health warnings
+ */
+export class LibraryStatsService {
+  private options: LibraryStatsOptions;
+
+  constructor(
+    options: Partial<LibraryStatsOptions> = {},
+    private duplicates = new DuplicateDetectionService()
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  getDashboard(
+    snippets: SnippetInterface[],
+    now: Date = new Date()
+  ): LibraryDashboard {
+    const { listSize, tagLimit } = this.options;
+
+    return {
+      total: snippets.length,
+      totalUsage: snippets.reduce(
+        (sum, snippet) => sum + (snippet.usageCount || 0),
+        0
+      ),
+      languages: countBy(snippets.map((snippet) => snippet.language)),
+      categories: countBy(
+        snippets
+          .map((snippet) => getCategorySegments(snippet.category || "")[0])
+          .filter((category): category is string => !!category)
+      ),
+      tags: countBy(snippets.flatMap((snippet) => snippet.tags)).slice(
+        0,
+        tagLimit
+      ),
+      recentlyCreated: [...snippets]
+        .sort(newestFirst("createdAt"))
+        .slice(0, listSize),
+      recentlyUpdated: [...snippets]
+        .sort(newestFirst("updatedAt"))
+        .slice(0, listSize),
+      mostUsed: snippets
+        .filter((snippet) => snippet.usageCount > 0)
+        .sort((a, b) => b.usageCount - a.usageCount)
+        .slice(0, listSize),
+      growth: this.getGrowth(snippets, now),
+      health: this.getHealth(snippets),
+    };
+  }
+
+  /**
+   * Snippets added per month. Totals include snippets added before the
+   * first month shown.
+   */
+  private getGrowth(
+    snippets: SnippetInterface[],
+    now: Date
+  ): LibraryGrowthPoint[] {
+    const months: string[] = [];
+    for (let offset = this.options.months - 1; offset >= 0; offset--) {
+      months.push(
+        toMonth(
+          new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - offset))
+        )
+      );
+    }
+
+    const created = snippets.map((snippet) =>
+      toMonth(new Date(snippet.createdAt))
+    );
+    let total = created.filter((month) => month < months[0]).length;
+
+    return months.map((month) => {
+      const added = created.filter((other) => other === month).length;
+      total += added;
+      return { month, added, total };
+    });
+  }
+
+  private getHealth(snippets: SnippetInterface[]): LibraryHealthWarning[] {
+    const missingDescription = snippets.filter(
+      (snippet) => !snippet.description?.trim()
+    );
+    const untagged = snippets.filter((snippet) => snippet.tags.length === 0);
+    // The most used snippet of each group is the one worth keeping
+    const duplicates = this.duplicates
+      .findDuplicates(snippets)
+      .flatMap((group) => group.snippets.slice(1));
+
+    const warnings: LibraryHealthWarning[] = [
+      {
+        kind: "missingDescription",
+        message: describeCount(
+          missingDescription.length,
+          "snippet has no description",
+          "snippets have no description"
+        ),
+        snippets: missingDescription,
+      },
+      {
+        kind: "untagged",
+        message: describeCount(
+          untagged.length,
+          "snippet has no tags",
+          "snippets have no tags"
+        ),
+        snippets: untagged,
+      },
+      {
+        kind: "duplicates",
+        message: describeCount(
+          duplicates.length,
+          "snippet duplicates another snippet",
+          "snippets duplicate other snippets"
+        ),
+        snippets: duplicates,
+      },
+    ];
+
+    return warnings.filter((warning) => warning.snippets.length > 0);
+  }
+}
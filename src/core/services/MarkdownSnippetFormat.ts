@@ -0,0 +1,206 @@
+import * as yaml from "js-yaml";
+import { SnippetInterface, SnippetData } from "../../types";
+
+/**
+ * Front-matter metadata written above each snippet's code block
+ */
+interface MarkdownSnippetMetadata {
+  tags?: string[];
+  category?: string;
+  prefix?: string;
+  prefixAliases?: string[];
+  scope?: string[];
+  variables?: SnippetData["variables"];
+  language?: string;
+}
+
+const FENCE_PATTERN = /^(`{3,}|~{3,})\s*([^`\s]*)\s*$/;
+
+// A closing run of "#" only counts after whitespace, so "C#" keeps its "#"
+const HEADING_PATTERN = /^##\s+(.+?)(?:\s+#+)?\s*$/;
+
+// Description lines that would start a new section, a code block or front
+// matter, possibly escaped already. Serializing adds a backslash and parsing
+// removes one, so they read back unchanged.
+const ESCAPED_LINE_PATTERN = /^(\\*)(##?\s|`{3,}|~{3,}|---$)/;
+const UNESCAPE_LINE_PATTERN = /^\\(\\*(?:##?\s|`{3,}|~{3,}|---$))/;
+
+/**
+ * Serialize snippets to a Markdown document. Each snippet is a level-2
+ * heading followed by YAML front matter, the description and a fenced code
+ * block tagged with the snippet's language.
+ */
+export function serializeMarkdownSnippets(
+  snippets: SnippetInterface[],
+  title: string = "Snippet Library"
+): string {
+  const sections = snippets.map((snippet) => {
+    const metadata: MarkdownSnippetMetadata = {};
+    if (snippet.tags.length > 0) {
+      metadata.tags = [...snippet.tags];
+    }
+    if (snippet.category) {
+      metadata.category = snippet.category;
+    }
+    if (snippet.prefix) {
+      metadata.prefix = snippet.prefix;
+    }
+    if (snippet.prefixAliases && snippet.prefixAliases.length > 0) {
+      metadata.prefixAliases = [...snippet.prefixAliases];
+    }
+    if (snippet.scope && snippet.scope.length > 0) {
+      metadata.scope = [...snippet.scope];
+    }
+    if (snippet.variables && snippet.variables.length > 0) {
+      metadata.variables = snippet.variables;
+    }
+
+    const title = snippet.title.replace(/\r?\n/g, " ");
+    // A title ending in " #" gets a closing run so the "#" is kept
+    const lines = [`## ${/\s#+$/.test(title) ? `${title} #` : title}`, ""];
+
+    if (Object.keys(metadata).length > 0) {
+      lines.push("---", yaml.dump(metadata, { indent: 2 }).trimEnd(), "---", "");
+    }
+
+    if (snippet.description) {
+      lines.push(
+        snippet.description
+          .split("\n")
+          .map((line) => line.replace(ESCAPED_LINE_PATTERN, "\\$1$2"))
+          .join("\n"),
+        ""
+      );
+    }
+
+    const fence = getFence(snippet.code);
+    lines.push(`${fence}${snippet.language}`, snippet.code, fence);
+
+    return lines.join("\n");
+  });
+
+  return [`# ${title}`, "", ...sections.map((section) => `${section}\n`)]
+    .join("\n")
+    .trimEnd()
+    .concat("\n");
+}
+
+/**
+ * Parse a Markdown document written by serializeMarkdownSnippets (or by
+ * hand in the same shape) back into snippet data. Sections without a code
+ * block are skipped.
+ */
+export function parseMarkdownSnippets(content: string): SnippetData[] {
+  const lines = content.replace(/\r\n/g, "\n").split("\n");
+  const snippets: SnippetData[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const heading = lines[i].match(HEADING_PATTERN);
+    if (!heading) {
+      i = skipLine(lines, i);
+      continue;
+    }
+
+    i++;
+    const title = heading[1];
+    let metadata: MarkdownSnippetMetadata = {};
+    const description: string[] = [];
+    let code: string | null = null;
+    let fenceLanguage = "";
+
+    while (i < lines.length && lines[i].trim() === "") {
+      i++;
+    }
+
+    // Front matter
+    if (lines[i] === "---") {
+      const end = lines.indexOf("---", i + 1);
+      if (end !== -1) {
+        const loaded = yaml.load(lines.slice(i + 1, end).join("\n"));
+        metadata =
+          loaded && typeof loaded === "object"
+            ? (loaded as MarkdownSnippetMetadata)
+            : {};
+        i = end + 1;
+      }
+    }
+
+    // Description and code block, up to the next snippet heading
+    while (i < lines.length && !/^##?\s/.test(lines[i])) {
+      const fence = lines[i].match(FENCE_PATTERN);
+      if (fence && code === null) {
+        const closing = findClosingFence(lines, i + 1, fence[1]);
+        fenceLanguage = fence[2];
+        code = lines.slice(i + 1, closing).join("\n");
+        i = closing + 1;
+        continue;
+      }
+      if (code === null) {
+        description.push(lines[i].replace(UNESCAPE_LINE_PATTERN, "$1"));
+      }
+      i++;
+    }
+
+    if (code === null) {
+      continue;
+    }
+
+    snippets.push({
+      title,
+      description: description.join("\n").trim(),
+      code,
+      language: fenceLanguage || metadata.language || "plaintext",
+      tags: Array.isArray(metadata.tags) ? metadata.tags.map(String) : [],
+      category: metadata.category ? String(metadata.category) : undefined,
+      prefix: metadata.prefix ? String(metadata.prefix) : undefined,
+      prefixAliases: Array.isArray(metadata.prefixAliases)
+        ? metadata.prefixAliases.map(String)
+        : undefined,
+      scope: Array.isArray(metadata.scope)
+        ? metadata.scope.map(String)
+        : undefined,
+      variables: Array.isArray(metadata.variables)
+        ? metadata.variables
+        : undefined,
+    });
+  }
+
+  return snippets;
+}
+
+/**
+ * Get a code fence longer than any backtick run in the code
+ */
+function getFence(code: string): string {
+  const longest = Math.max(
+    0,
+    ...(code.match(/`+/g) || []).map((run) => run.length)
+  );
+  return "`".repeat(Math.max(3, longest + 1));
+}
+
+/**
+ * Find the line index of the fence closing the block opened with `fence`
+ */
+function findClosingFence(lines: string[], start: number, fence: string): number {
+  for (let i = start; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (
+      trimmed.length >= fence.length &&
+      trimmed === fence[0].repeat(trimmed.length)
+    ) {
+      return i;
+    }
+  }
+  return lines.length;
+}
+
+/**
+ * Move past a line, skipping whole code blocks outside snippet sections so
+ * their contents are never mistaken for headings
+ */
+function skipLine(lines: string[], i: number): number {
+  const fence = lines[i].match(FENCE_PATTERN);
+  return fence ? findClosingFence(lines, i + 1, fence[1]) + 1 : i + 1;
+}
@@ -0,0 +1,456 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  SnippetInterface,
+  StorageLocation,
+  StorageChange,
+  Result,
+  ErrorType,
+  StorageConfigInterface,
+} from "../../types";
+import { FileSystemStorageService } from "./FileSystemStorageService";
+import { FileSystemWatcherImpl } from "./FileSystemWatcher";
+import {
+  SnippetFiles,
+  getCategoryDirectory,
+  getCodeFilePath,
+  getSnippetFileStem,
+  isSnippetMetadataFile,
+  parseSnippetMetadata,
+  readSnippetFiles,
+  serializeSnippetFiles,
+  slugify,
+} from "./SnippetFileLayout";
+import { createError } from "../utils";
+
+/**
+ * Location of an existing snippet's files in the library
+ */
+interface StoredSnippetFiles {
+  metadataPath: string;
+  codePath: string;
+}
+
+/**
+ * Storage service that keeps one code file and one metadata sidecar per
+ * snippet (`<category>/<slug>.<ext>` and `<category>/<slug>.snippet.json`),
+ * so shared libraries produce readable, per-snippet diffs.
+ *
+ * The library lives in a `library` directory next to the configured
+ * snippets file, or in the configured path itself when it has no file
+ * extension. Backups are still written as single collection files.
+ */
+export class PerSnippetStorageService extends FileSystemStorageService {
+  private fileWatcher: FileSystemWatcherImpl | null = null;
+
+  constructor(config?: Partial<StorageConfigInterface>) {
+    super({ ...config, layout: "per-snippet" });
+  }
+
+  /**
+   * Load all snippets from the library directory
+   */
+  async loadSnippets(): Promise<Result<SnippetInterface[]>> {
+    try {
+      const libraryDirectory = this.getLibraryDirectory();
+      if (!fs.existsSync(libraryDirectory)) {
+        return { success: true, data: [] };
+      }
+
+      const snippets: SnippetInterface[] = [];
+      for (const metadataPath of await this.findMetadataFiles()) {
+        try {
+          snippets.push(await readSnippetFiles(metadataPath));
+        } catch (error) {
+          return {
+            success: false,
+            error: createError(
+              ErrorType.storageAccess,
+              "Invalid snippet file",
+              {
+                filePath: metadataPath,
+                error: error instanceof Error ? error.message : error,
+              },
+              true,
+              "Fix or remove the snippet's metadata and code files"
+            ),
+          };
+        }
+      }
+
+      snippets.sort(
+        (a, b) =>
+          a.createdAt.getTime() - b.createdAt.getTime() ||
+          a.title.localeCompare(b.title)
+      );
+
+      return { success: true, data: snippets };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to load snippets from storage",
+          { error: error instanceof Error ? error.message : error },
+          true,
+          "Check file permissions and ensure the storage location is accessible"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Save snippets, writing only files whose content changed and removing
+   * files of snippets that no longer exist or have moved
+   */
+  async saveSnippets(snippets: SnippetInterface[]): Promise<Result<void>> {
+    try {
+      const libraryDirectory = this.getLibraryDirectory();
+      await fs.promises.mkdir(libraryDirectory, { recursive: true });
+
+      const existing = await this.indexStoredSnippets();
+      const claimed = new Set<string>();
+
+      for (const snippet of snippets) {
+        const files = this.planSnippetFiles(snippet, existing, claimed);
+        claimed.add(files.metadataPath);
+        claimed.add(files.codePath);
+
+        await fs.promises.mkdir(path.dirname(files.metadataPath), {
+          recursive: true,
+        });
+        await this.writeIfChanged(files.codePath, files.codeContent);
+        await this.writeIfChanged(files.metadataPath, files.metadataContent);
+      }
+
+      // Remove files left behind by deleted, renamed or recategorized
+      // snippets, never anything outside the library
+      for (const stored of existing.values()) {
+        for (const filePath of [stored.metadataPath, stored.codePath]) {
+          if (
+            !claimed.has(filePath) &&
+            this.isInLibrary(filePath) &&
+            fs.existsSync(filePath)
+          ) {
+            await fs.promises.unlink(filePath);
+          }
+        }
+      }
+      await this.removeEmptyDirectories(libraryDirectory);
+
+      // Create backup if enabled
+      if (this.config.autoBackup) {
+        await this.createBackupIfDue();
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to save snippets to storage",
+          { error: error instanceof Error ? error.message : error },
+          true,
+          "Check file permissions and ensure the storage location is writable"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Watch the library directory, reporting a change per snippet
+   */
+  watchChanges(callback: (changes: StorageChange[]) => void): Result<void> {
+    try {
+      if (this.fileWatcher) {
+        this.stopWatching();
+      }
+
+      const libraryDirectory = this.getLibraryDirectory();
+      if (!fs.existsSync(libraryDirectory)) {
+        fs.mkdirSync(libraryDirectory, { recursive: true });
+      }
+
+      this.watchCallback = callback;
+      this.fileWatcher = new FileSystemWatcherImpl({
+        watchPath: libraryDirectory,
+        debounceMs: 300,
+        recursive: true,
+        ignorePatterns: [".git", "node_modules"],
+      });
+      this.fileWatcher.onStorageChange((change) => {
+        this.watchCallback?.([change]);
+      });
+      this.fileWatcher.start().then((result) => {
+        if (!result.success) {
+          console.warn(
+            "Failed to watch snippet library:",
+            (result as any).error.message
+          );
+        }
+      });
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to start watching storage changes",
+          { error: error instanceof Error ? error.message : error },
+          true,
+          "Check file system permissions and ensure the storage location is accessible"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Stop watching for changes
+   */
+  stopWatching(): Result<void> {
+    if (this.fileWatcher) {
+      this.fileWatcher.dispose();
+      this.fileWatcher = null;
+    }
+    this.watchCallback = null;
+    return { success: true, data: undefined };
+  }
+
+  /**
+   * Get current storage location (the library directory)
+   */
+  getStorageLocation(): Result<StorageLocation> {
+    try {
+      return {
+        success: true,
+        data: {
+          type: this.config.location,
+          path: this.getLibraryDirectory(),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to get storage location",
+          { error: error instanceof Error ? error.message : error },
+          true
+        ),
+      };
+    }
+  }
+
+  /**
+   * Check if the library directory exists or can be created, and is writable
+   */
+  async checkStorageAccess(): Promise<Result<boolean>> {
+    try {
+      const libraryDirectory = this.getLibraryDirectory();
+      await fs.promises.mkdir(libraryDirectory, { recursive: true });
+      await fs.promises.access(libraryDirectory, fs.constants.W_OK);
+
+      return { success: true, data: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Storage location is not accessible",
+          { error: error instanceof Error ? error.message : error },
+          true,
+          "Check file permissions and ensure the storage location exists and is writable"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Initialize storage. On first use, snippets from an existing single-file
+   * library at the configured path are migrated into per-snippet files.
+   */
+  async initialize(): Promise<Result<void>> {
+    try {
+      const libraryDirectory = this.getLibraryDirectory();
+      const isNewLibrary = !fs.existsSync(libraryDirectory);
+
+      await fs.promises.mkdir(libraryDirectory, { recursive: true });
+      await fs.promises.mkdir(this.getBackupDirectory(), { recursive: true });
+
+      const snippetsFilePath = this.getSnippetsFilePath();
+      if (
+        isNewLibrary &&
+        snippetsFilePath !== libraryDirectory &&
+        fs.existsSync(snippetsFilePath)
+      ) {
+        const legacyResult = await super.loadSnippets();
+        if (!legacyResult.success) {
+          return {
+            success: false,
+            error: (legacyResult as any).error,
+          };
+        }
+        const saveResult = await this.saveSnippets(legacyResult.data);
+        if (!saveResult.success) {
+          return saveResult;
+        }
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to initialize storage",
+          { error: error instanceof Error ? error.message : error },
+          true,
+          "Check file permissions and ensure the storage location is writable"
+        ),
+      };
+    }
+  }
+
+  // Private helper methods
+
+  private getLibraryDirectory(): string {
+    const storagePath = this.getSnippetsFilePath();
+    // A path without a file extension names the library directory itself
+    return path.extname(storagePath)
+      ? path.join(path.dirname(storagePath), "library")
+      : storagePath;
+  }
+
+  private isInLibrary(filePath: string): boolean {
+    const relative = path.relative(this.getLibraryDirectory(), filePath);
+    return (
+      !!relative && !relative.startsWith("..") && !path.isAbsolute(relative)
+    );
+  }
+
+  private async findMetadataFiles(
+    directory: string = this.getLibraryDirectory()
+  ): Promise<string[]> {
+    const files: string[] = [];
+    const entries = await fs.promises.readdir(directory, {
+      withFileTypes: true,
+    });
+
+    for (const entry of entries) {
+      if (entry.name.startsWith(".")) {
+        continue;
+      }
+      const fullPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await this.findMetadataFiles(fullPath)));
+      } else if (entry.isFile() && isSnippetMetadataFile(entry.name)) {
+        files.push(fullPath);
+      }
+    }
+
+    return files.sort();
+  }
+
+  /**
+   * Map snippet IDs to their files currently on disk. Unreadable sidecars
+   * are left out so they are never deleted by a save.
+   */
+  private async indexStoredSnippets(): Promise<Map<string, StoredSnippetFiles>> {
+    const index = new Map<string, StoredSnippetFiles>();
+
+    for (const metadataPath of await this.findMetadataFiles()) {
+      try {
+        const metadata = parseSnippetMetadata(
+          await fs.promises.readFile(metadataPath, "utf-8"),
+          metadataPath
+        );
+        index.set(metadata.id, {
+          metadataPath,
+          codePath: getCodeFilePath(metadataPath, metadata),
+        });
+      } catch {
+        // Keep files we cannot attribute to a snippet
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * Choose where a snippet is written: keep its current file name while the
+   * title and category still match, otherwise take the first free
+   * `<slug>`, `<slug>-2`, ... in the category directory
+   */
+  private planSnippetFiles(
+    snippet: SnippetInterface,
+    existing: Map<string, StoredSnippetFiles>,
+    claimed: Set<string>
+  ): SnippetFiles {
+    const directory = path.join(
+      this.getLibraryDirectory(),
+      getCategoryDirectory(snippet.category)
+    );
+    const slug = slugify(snippet.title);
+    const format = this.config.format;
+
+    const ownedByOthers = new Set<string>();
+    for (const [id, stored] of existing) {
+      if (id !== snippet.id) {
+        ownedByOthers.add(stored.metadataPath);
+        ownedByOthers.add(stored.codePath);
+      }
+    }
+    const isFree = (files: SnippetFiles) =>
+      [files.metadataPath, files.codePath].every(
+        (filePath) => !claimed.has(filePath) && !ownedByOthers.has(filePath)
+      );
+
+    const current = existing.get(snippet.id);
+    if (current && path.dirname(current.metadataPath) === directory) {
+      const stem = getSnippetFileStem(current.metadataPath);
+      if (stem === slug || new RegExp(`^${slug}-\\d+$`).test(stem)) {
+        const files = serializeSnippetFiles(snippet, directory, stem, format);
+        if (isFree(files)) {
+          return files;
+        }
+      }
+    }
+
+    for (let i = 1; ; i++) {
+      const stem = i === 1 ? slug : `${slug}-${i}`;
+      const files = serializeSnippetFiles(snippet, directory, stem, format);
+      if (isFree(files)) {
+        return files;
+      }
+    }
+  }
+
+  private async writeIfChanged(filePath: string, content: string) {
+    if (fs.existsSync(filePath)) {
+      const current = await fs.promises.readFile(filePath, "utf-8");
+      if (current === content) {
+        return;
+      }
+    }
+    await fs.promises.writeFile(filePath, content, "utf-8");
+  }
+
+  private async removeEmptyDirectories(directory: string): Promise<void> {
+    const entries = await fs.promises.readdir(directory, {
+      withFileTypes: true,
+    });
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith(".")) {
+        continue;
+      }
+      const fullPath = path.join(directory, entry.name);
+      await this.removeEmptyDirectories(fullPath);
+      if ((await fs.promises.readdir(fullPath)).length === 0) {
+        await fs.promises.rmdir(fullPath);
+      }
+    }
+  }
+}
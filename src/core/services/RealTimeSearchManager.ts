@@ -5,6 +5,7 @@ import {
   ErrorType,
 } from "../../types";
 import { SearchService, SearchResult, SearchSuggestion } from "./SearchService";
+import { SearchIndex } from "./SearchIndex";
 import { createError } from "../utils";
 
 /**
@@ -52,7 +53,9 @@ export class RealTimeSearchManager {
   private onSearchErrorListeners: Array<(error: any) => void> = [];
 
   constructor(searchService?: SearchService) {
-    this.searchService = searchService || new SearchService();
+    // Searching as the user types needs the index to stay fast
+    this.searchService =
+      searchService || new SearchService(undefined, new SearchIndex());
   }
 
   /**
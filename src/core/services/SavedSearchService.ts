@@ -0,0 +1,325 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  SavedSearch,
+  AdvancedSearchQuery,
+  Result,
+  ErrorType,
+} from "../../types";
+import { createError, deepClone } from "../utils";
+import { parseQuery } from "../query";
+
+/**
+ * Configuration for the saved search service
+ */
+export interface SavedSearchConfig {
+  filePath?: string;
+}
+
+/**
+ * Keeps named searches ("smart collections") of a library. Saved searches
+ * are persisted to a JSON sidecar file when a file path is configured,
+ * otherwise they are kept in memory only.
+ */
+export class SavedSearchService {
+  private config: SavedSearchConfig;
+  private searches: Map<string, SavedSearch> = new Map();
+
+  constructor(config: Partial<SavedSearchConfig> = {}) {
+    this.config = { ...config };
+  }
+
+  /**
+   * Load persisted saved searches from disk
+   */
+  async load(): Promise<Result<void>> {
+    this.searches.clear();
+
+    if (!this.config.filePath || !fs.existsSync(this.config.filePath)) {
+      return { success: true, data: undefined };
+    }
+
+    try {
+      const content = await fs.promises.readFile(this.config.filePath, "utf-8");
+      const parsed = content.trim() ? JSON.parse(content) : {};
+      const entries: any[] = Array.isArray(parsed.searches)
+        ? parsed.searches
+        : [];
+
+      for (const entry of entries) {
+        if (!entry || !entry.id || !entry.name) {
+          continue;
+        }
+        this.searches.set(entry.id, reviveSavedSearch(entry));
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to load saved searches",
+          {
+            filePath: this.config.filePath,
+            error: error instanceof Error ? error.message : error,
+          },
+          true,
+          "Check the saved searches file format or delete it to start over"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Get all saved searches, sorted by name
+   */
+  getAll(): SavedSearch[] {
+    return Array.from(this.searches.values()).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  /**
+   * Get a saved search by ID
+   */
+  get(id: string): SavedSearch | null {
+    return this.searches.get(id) || null;
+  }
+
+  /**
+   * Save a search under a new name
+   */
+  async create(
+    name: string,
+    query: AdvancedSearchQuery
+  ): Promise<Result<SavedSearch>> {
+    const validation = this.validate(name, query);
+    if (!validation.success) {
+      return validation;
+    }
+
+    const now = new Date();
+    const search: SavedSearch = {
+      id: `search_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: name.trim(),
+      query: copyQuery(query),
+      createdAt: now,
+      lastUsed: now,
+      useCount: 0,
+    };
+
+    this.searches.set(search.id, search);
+    const saveResult = await this.save();
+    if (!saveResult.success) {
+      this.searches.delete(search.id);
+      return saveResult;
+    }
+
+    return { success: true, data: search };
+  }
+
+  /**
+   * Rename a saved search or change its query
+   */
+  async update(
+    id: string,
+    updates: { name?: string; query?: AdvancedSearchQuery }
+  ): Promise<Result<SavedSearch>> {
+    const existing = this.searches.get(id);
+    if (!existing) {
+      return notFound(id);
+    }
+
+    const name = updates.name ?? existing.name;
+    const query = updates.query ?? existing.query;
+    const validation = this.validate(name, query, id);
+    if (!validation.success) {
+      return validation;
+    }
+
+    const updated: SavedSearch = {
+      ...existing,
+      name: name.trim(),
+      query: copyQuery(query),
+    };
+
+    this.searches.set(id, updated);
+    const saveResult = await this.save();
+    if (!saveResult.success) {
+      this.searches.set(id, existing);
+      return saveResult;
+    }
+
+    return { success: true, data: updated };
+  }
+
+  /**
+   * Delete a saved search
+   */
+  async delete(id: string): Promise<Result<void>> {
+    const existing = this.searches.get(id);
+    if (!existing) {
+      return notFound(id);
+    }
+
+    this.searches.delete(id);
+    const saveResult = await this.save();
+    if (!saveResult.success) {
+      this.searches.set(id, existing);
+      return saveResult;
+    }
+
+    return { success: true, data: undefined };
+  }
+
+  /**
+   * Record that a saved search was run
+   */
+  async markUsed(
+    id: string,
+    timestamp: Date = new Date()
+  ): Promise<Result<SavedSearch>> {
+    const existing = this.searches.get(id);
+    if (!existing) {
+      return notFound(id);
+    }
+
+    existing.lastUsed = timestamp;
+    existing.useCount++;
+
+    // Usage statistics are secondary, so a failed save is not reported
+    await this.save();
+    return { success: true, data: existing };
+  }
+
+  /**
+   * Clear in-memory saved searches
+   */
+  dispose(): void {
+    this.searches.clear();
+  }
+
+  private validate(
+    name: string,
+    query: AdvancedSearchQuery,
+    id?: string
+  ): Result<void> {
+    const trimmed = (name || "").trim();
+    if (!trimmed) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.validation,
+          "Saved search name is required",
+          { name },
+          true,
+          "Give the saved search a name"
+        ),
+      };
+    }
+
+    const existing = Array.from(this.searches.values()).find(
+      (search) =>
+        search.id !== id && search.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    if (existing) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.validation,
+          "Saved search with this name already exists",
+          { name: trimmed, existingId: existing.id },
+          true,
+          "Choose a different name or update the existing saved search"
+        ),
+      };
+    }
+
+    const parsed = parseQuery(query.text || "");
+    if (!parsed.success) {
+      return parsed;
+    }
+
+    return { success: true, data: undefined };
+  }
+
+  private async save(): Promise<Result<void>> {
+    if (!this.config.filePath) {
+      return { success: true, data: undefined };
+    }
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.config.filePath), {
+        recursive: true,
+      });
+
+      const data = {
+        version: "1.0.0",
+        searches: this.getAll(),
+      };
+
+      await fs.promises.writeFile(
+        this.config.filePath,
+        JSON.stringify(data, null, 2),
+        "utf-8"
+      );
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to save saved searches",
+          {
+            filePath: this.config.filePath,
+            error: error instanceof Error ? error.message : error,
+          },
+          true,
+          "Check file permissions and ensure the storage location is writable"
+        ),
+      };
+    }
+  }
+}
+
+function notFound<T>(id: string): Result<T> {
+  return {
+    success: false,
+    error: createError(
+      ErrorType.notFound,
+      "Saved search not found",
+      { id },
+      false,
+      "Check the saved search ID"
+    ),
+  };
+}
+
+function reviveSavedSearch(entry: any): SavedSearch {
+  return {
+    id: entry.id,
+    name: entry.name,
+    query: copyQuery(entry.query),
+    createdAt: new Date(entry.createdAt),
+    lastUsed: new Date(entry.lastUsed || entry.createdAt),
+    useCount: entry.useCount || 0,
+  };
+}
+
+/**
+ * Copy a query, keeping the dates of its date range as dates
+ */
+function copyQuery(
+  query: AdvancedSearchQuery | undefined
+): AdvancedSearchQuery {
+  const copy: AdvancedSearchQuery = deepClone(query || {});
+  if (copy.dateRange) {
+    copy.dateRange = {
+      start: new Date(copy.dateRange.start),
+      end: new Date(copy.dateRange.end),
+    };
+  }
+  return copy;
+}
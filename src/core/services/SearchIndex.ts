@@ -0,0 +1,513 @@
+import { SnippetInterface, StorageChange } from "../../types";
+import { CODE_TOKEN_WEIGHTS, tokenizeCode } from "../codeTokens";
+
+/**
+ * Tuning of the search index
+ */
+export interface SearchIndexOptions {
+  k1: number; // BM25 term frequency saturation
+  b: number; // BM25 document length normalization
+  maxExpansions: number; // Indexed terms tried for each query term
+  minSimilarity: number; // Trigram similarity needed for typo matches
+}
+
+/**
+ * Snippet found through the index
+ */
+export interface SearchIndexHit {
+  snippet: SnippetInterface;
+  score: number;
+  terms: string[]; // Indexed terms that matched the query
+}
+
+/**
+ * Indexed snippet with its weighted term frequencies
+ */
+interface IndexedDocument {
+  snippet: SnippetInterface;
+  version: number;
+  terms: Map<string, number>;
+  length: number;
+  slot: number; // Position in the score arrays of a search
+}
+
+/**
+ * Indexed term a query term resolves to, with how closely it matches
+ */
+interface TermExpansion {
+  term: string;
+  weight: number;
+}
+
+const DEFAULT_OPTIONS: SearchIndexOptions = {
+  k1: 1.2,
+  b: 0.75,
+  maxExpansions: 20,
+  minSimilarity: 0.5,
+};
+
+// Same relative weights as the fuzzy search in SearchService
+const FIELD_WEIGHTS = {
+  title: 3,
+  description: 2,
+  tags: 2,
+  category: 2,
+  code: 1,
+};
+
+const PREFIX_WEIGHT = 0.8;
+const TYPO_WEIGHT = 0.6;
+const MIN_TYPO_LENGTH = 4;
+// Terms this long may have two typos, shorter ones one
+const TWO_TYPO_LENGTH = 8;
+
+/**
+ * Split text into lower case search terms. Identifiers are kept whole and
+ * also split at camelCase, snake_case and digit boundaries, so `useState`
+ * is found by "usestate", "use" and "state".
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const word of text.match(/[\p{L}\p{N}_$]+/gu) || []) {
+    const whole = word.replace(/^[_$]+|[_$]+$/g, "").toLowerCase();
+    if (whole.length > 1) {
+      tokens.push(whole);
+    }
+
+    const parts =
+      word.match(/\p{Lu}+(?!\p{Ll})|\p{Lu}?\p{Ll}+|\p{N}+|\p{Lo}+/gu) || [];
+    if (parts.length > 1) {
+      for (const part of parts) {
+        if (part.length > 1) {
+          tokens.push(part.toLowerCase());
+        }
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Trigrams of a term padded with spaces, so prefixes and suffixes count
+ */
+function trigrams(term: string, padEnd: boolean = true): string[] {
+  const padded = ` ${term}${padEnd ? " " : ""}`;
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return Array.from(grams);
+}
+
+/**
+ * Edits (insertions, deletions, substitutions and swaps of adjacent
+ * letters) turning one term into the other, or `max + 1` when more are
+ * needed
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      next[j] = Math.min(next[j - 1] + 1, row[j] + 1, row[j - 1] + cost);
+      if (
+        i > 1 &&
+        j > 1 &&
+        a[i - 1] === b[j - 2] &&
+        a[i - 2] === b[j - 1]
+      ) {
+        next[j] = Math.min(next[j], previous[j - 2] + 1);
+      }
+      best = Math.min(best, next[j]);
+    }
+    if (best > max) {
+      return max + 1;
+    }
+    previous = row;
+    row = next;
+  }
+  return Math.min(row[b.length], max + 1);
+}
+
+/**
+ * Inverted index over snippet text with BM25 ranking. Terms come from the
+ * title, description, tags, category and the tokens of the code.
+ * Query terms also match indexed terms they are a prefix of, and terms
+ * sharing enough trigrams or few enough edits to be a likely typo.
+ *
+ * The index is kept current incrementally: through `applyChanges` for
+ * storage change events, or `sync` for a snippet list that may have
+ * changed since the last search.
+ */
+export class SearchIndex {
+  private options: SearchIndexOptions;
+  private documents = new Map<string, IndexedDocument>();
+  // Weighted frequency of each term in the documents containing it
+  private postings = new Map<string, Map<IndexedDocument, number>>();
+  private termsByTrigram = new Map<string, Set<string>>();
+  private totalLength = 0;
+  // Slots of removed documents, reused before new ones are added
+  private freeSlots: number[] = [];
+  private slotCount = 0;
+  // Snippet list of the last sync, while the index still matches it
+  private synced: SnippetInterface[] | null = null;
+
+  constructor(options: Partial<SearchIndexOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Number of indexed snippets
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Replace the indexed snippets
+   */
+  build(snippets: SnippetInterface[]): void {
+    this.clear();
+    snippets.forEach((snippet) => this.add(snippet));
+  }
+
+  /**
+   * Remove every snippet from the index
+   */
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.termsByTrigram.clear();
+    this.totalLength = 0;
+    this.freeSlots = [];
+    this.slotCount = 0;
+    this.synced = null;
+  }
+
+  /**
+   * Index a snippet, replacing an earlier version of it
+   */
+  add(snippet: SnippetInterface): void {
+    this.remove(snippet.id);
+    this.synced = null;
+
+    const terms = new Map<string, number>();
+    const addText = (text: string | undefined, weight: number) => {
+      for (const token of tokenize(text || "")) {
+        terms.set(token, (terms.get(token) || 0) + weight);
+      }
+    };
+    addText(snippet.title, FIELD_WEIGHTS.title);
+    addText(snippet.description, FIELD_WEIGHTS.description);
+    addText((snippet.tags || []).join(" "), FIELD_WEIGHTS.tags);
+    addText(snippet.category, FIELD_WEIGHTS.category);
+    // Identifiers in code count more than its strings and comments
+    for (const token of tokenizeCode(snippet.code || "", snippet.language)) {
+      addText(token.text, FIELD_WEIGHTS.code * CODE_TOKEN_WEIGHTS[token.kind]);
+    }
+
+    const document: IndexedDocument = {
+      snippet,
+      version: this.getVersion(snippet),
+      terms,
+      length: 0,
+      slot: this.freeSlots.pop() ?? this.slotCount++,
+    };
+    terms.forEach((frequency, term) => {
+      document.length += frequency;
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+        this.addToVocabulary(term);
+      }
+      posting.set(document, frequency);
+    });
+
+    this.documents.set(snippet.id, document);
+    this.totalLength += document.length;
+  }
+
+  /**
+   * Remove a snippet from the index
+   */
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) {
+      return;
+    }
+
+    document.terms.forEach((_, term) => {
+      const posting = this.postings.get(term);
+      if (!posting) {
+        return;
+      }
+      posting.delete(document);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+        this.removeFromVocabulary(term);
+      }
+    });
+
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+    this.freeSlots.push(document.slot);
+    this.synced = null;
+  }
+
+  /**
+   * Apply storage change events to the index
+   */
+  applyChanges(changes: StorageChange[]): void {
+    for (const change of changes) {
+      if (change.type === "deleted") {
+        this.remove(change.snippet.id);
+      } else {
+        this.add(change.snippet);
+      }
+    }
+  }
+
+  /**
+   * Bring the index in line with a snippet list, reindexing only snippets
+   * that were added or updated since they were indexed
+   */
+  sync(snippets: SnippetInterface[]): void {
+    // Searching as the user types hands in the same snippets each time
+    const synced = this.synced;
+    if (
+      synced &&
+      snippets.length === synced.length &&
+      snippets.every((snippet, i) => snippet === synced[i])
+    ) {
+      return;
+    }
+
+    for (const snippet of snippets) {
+      const document = this.documents.get(snippet.id);
+      if (document?.snippet === snippet) {
+        continue;
+      }
+      if (!document || document.version !== this.getVersion(snippet)) {
+        this.add(snippet);
+      } else {
+        // Unchanged text, but results should hand out the current object
+        document.snippet = snippet;
+      }
+    }
+
+    if (this.documents.size > snippets.length) {
+      const ids = new Set(snippets.map((snippet) => snippet.id));
+      Array.from(this.documents.keys())
+        .filter((id) => !ids.has(id))
+        .forEach((id) => this.remove(id));
+    }
+    this.synced = [...snippets];
+  }
+
+  /**
+   * Get an indexed snippet
+   */
+  getSnippet(id: string): SnippetInterface | undefined {
+    return this.documents.get(id)?.snippet;
+  }
+
+  /**
+   * Find snippets matching any of the terms in the text, best first. With
+   * `matchAll`, only snippets matching every term are returned.
+   */
+  search(
+    text: string,
+    limit?: number,
+    matchAll: boolean = false
+  ): SearchIndexHit[] {
+    const queryTerms = Array.from(new Set(tokenize(text)));
+    if (queryTerms.length === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    const { k1, b } = this.options;
+    const averageLength = this.totalLength / this.documents.size;
+    const hitDocuments: IndexedDocument[] = [];
+    // Hits, their number of matched query terms and the best expansion of
+    // the current query term, by document slot
+    const hitsBySlot = new Array<SearchIndexHit | undefined>(this.slotCount);
+    const matchedTerms = new Uint32Array(this.slotCount);
+    const bestScores = new Float64Array(this.slotCount);
+    const bestTerms = new Array<string | undefined>(this.slotCount);
+
+    for (const queryTerm of queryTerms) {
+      // Score each snippet by the best expansion of this query term
+      const matched: IndexedDocument[] = [];
+
+      for (const { term, weight } of this.expand(queryTerm)) {
+        const posting = this.postings.get(term)!;
+        const idf = Math.log(
+          1 + (this.documents.size - posting.size + 0.5) / (posting.size + 0.5)
+        );
+
+        posting.forEach((frequency, document) => {
+          const score =
+            (weight * idf * frequency * (k1 + 1)) /
+            (frequency + k1 * (1 - b + (b * document.length) / averageLength));
+          const slot = document.slot;
+          if (bestTerms[slot] === undefined) {
+            matched.push(document);
+          } else if (score <= bestScores[slot]) {
+            return;
+          }
+          bestScores[slot] = score;
+          bestTerms[slot] = term;
+        });
+      }
+
+      for (const document of matched) {
+        const slot = document.slot;
+        const score = bestScores[slot];
+        const term = bestTerms[slot]!;
+        bestTerms[slot] = undefined;
+        matchedTerms[slot]++;
+
+        const hit = hitsBySlot[slot];
+        if (!hit) {
+          hitsBySlot[slot] = {
+            snippet: document.snippet,
+            score,
+            terms: [term],
+          };
+          hitDocuments.push(document);
+        } else {
+          hit.score += score;
+          if (!hit.terms.includes(term)) {
+            hit.terms.push(term);
+          }
+        }
+      }
+    }
+
+    const results: SearchIndexHit[] = [];
+    for (const document of hitDocuments) {
+      if (!matchAll || matchedTerms[document.slot] === queryTerms.length) {
+        results.push(hitsBySlot[document.slot]!);
+      }
+    }
+    results.sort((a, b) => b.score - a.score);
+
+    return limit === undefined ? results : results.slice(0, limit);
+  }
+
+  /**
+   * Resolve a query term to indexed terms: the term itself, terms it is a
+   * prefix of and, when neither exists, terms that look like a typo of it
+   */
+  private expand(queryTerm: string): TermExpansion[] {
+    const expansions: TermExpansion[] = [];
+    if (this.postings.has(queryTerm)) {
+      expansions.push({ term: queryTerm, weight: 1 });
+    }
+
+    // Prefix matches contain every trigram of the padded prefix
+    const prefixGrams = trigrams(queryTerm, false);
+    const candidates = prefixGrams
+      .map((gram) => this.termsByTrigram.get(gram))
+      .sort((a, b) => (a?.size || 0) - (b?.size || 0));
+    if (candidates.length > 0 && candidates.every(Boolean)) {
+      const [smallest, ...others] = candidates as Set<string>[];
+      smallest.forEach((term) => {
+        if (
+          term !== queryTerm &&
+          term.startsWith(queryTerm) &&
+          others.every((grams) => grams.has(term))
+        ) {
+          expansions.push({ term, weight: PREFIX_WEIGHT });
+        }
+      });
+    }
+
+    if (expansions.length === 0 && queryTerm.length >= MIN_TYPO_LENGTH) {
+      expansions.push(...this.findSimilarTerms(queryTerm));
+    }
+
+    // Closest matches first, then the most common terms
+    return expansions
+      .sort(
+        (a, b) =>
+          b.weight - a.weight ||
+          this.postings.get(b.term)!.size - this.postings.get(a.term)!.size
+      )
+      .slice(0, this.options.maxExpansions);
+  }
+
+  /**
+   * Find indexed terms sharing enough trigrams with a query term, or a
+   * trigram and at most one edit (two for long terms). Swapped or
+   * replaced letters in short terms break most of their trigrams.
+   */
+  private findSimilarTerms(queryTerm: string): TermExpansion[] {
+    const grams = trigrams(queryTerm);
+    const shared = new Map<string, number>();
+    for (const gram of grams) {
+      this.termsByTrigram
+        .get(gram)
+        ?.forEach((term) => shared.set(term, (shared.get(term) || 0) + 1));
+    }
+
+    const maxEdits = queryTerm.length >= TWO_TYPO_LENGTH ? 2 : 1;
+    const similar: TermExpansion[] = [];
+    shared.forEach((count, term) => {
+      // Dice coefficient; a padded term has as many trigrams as letters
+      let similarity = (2 * count) / (grams.length + term.length);
+      if (similarity < this.options.minSimilarity) {
+        const edits = editDistance(queryTerm, term, maxEdits);
+        if (edits > maxEdits) {
+          return;
+        }
+        similarity = 1 - edits / Math.max(queryTerm.length, term.length);
+      }
+      similar.push({ term, weight: TYPO_WEIGHT * similarity });
+    });
+    return similar;
+  }
+
+  private addToVocabulary(term: string): void {
+    for (const gram of trigrams(term)) {
+      let terms = this.termsByTrigram.get(gram);
+      if (!terms) {
+        terms = new Set();
+        this.termsByTrigram.set(gram, terms);
+      }
+      terms.add(term);
+    }
+  }
+
+  private removeFromVocabulary(term: string): void {
+    for (const gram of trigrams(term)) {
+      const terms = this.termsByTrigram.get(gram);
+      if (terms) {
+        terms.delete(term);
+        if (terms.size === 0) {
+          this.termsByTrigram.delete(gram);
+        }
+      }
+    }
+  }
+
+  /**
+   * Snippets only change text together with their update time
+   */
+  private getVersion(snippet: SnippetInterface): number {
+    const updatedAt = snippet.updatedAt;
+    return updatedAt instanceof Date
+      ? updatedAt.getTime()
+      : new Date(updatedAt).getTime();
+  }
+}
@@ -1,38 +1,18 @@
-import { SearchQueryInterface, Result, ErrorType } from "../../types";
+import {
+  SearchQueryInterface,
+  AdvancedSearchFilter,
+  AdvancedSearchQuery,
+  SavedSearch,
+  Result,
+  ErrorType,
+} from "../../types";
 import { SearchQuery } from "../models/SearchQuery";
 import { createError } from "../utils";
 
-/**
- * Advanced search filter
- */
-export interface AdvancedSearchFilter {
-  field: "title" | "description" | "code" | "tags" | "category" | "language";
-  operator: "contains" | "equals" | "startsWith" | "endsWith" | "regex" | "not";
-  value: string;
-  caseSensitive?: boolean;
-}
-
-/**
- * Search query with advanced filters
- */
-export interface AdvancedSearchQuery extends SearchQueryInterface {
-  filters?: AdvancedSearchFilter[];
-  operator?: "and" | "or"; // How to combine filters
-}
+export { AdvancedSearchFilter, AdvancedSearchQuery, SavedSearch };
 
-/**
- * Saved search query
- */
-export interface SavedSearch {
-  id: string;
-  name: string;
-  query: AdvancedSearchQuery;
-  createdAt: Date;
-  lastUsed: Date;
-  useCount: number;
-}
-
-// Global saved searches storage (in a real implementation, this would be persisted)
+// Saved searches shared by all query builders, in memory only; the snippet
+// manager persists its saved searches through SavedSearchService
 const globalSavedSearches: Map<string, SavedSearch> = new Map();
 
 /**
@@ -376,7 +356,7 @@ export class SearchQueryBuilder {
       return {
         success: false,
         error: createError(
-          ErrorType.validation,
+          ErrorType.notFound,
           "Saved search not found",
           { id },
           false,
@@ -413,7 +393,7 @@ export class SearchQueryBuilder {
       return {
         success: false,
         error: createError(
-          ErrorType.validation,
+          ErrorType.notFound,
           "Saved search not found",
           { id },
           false
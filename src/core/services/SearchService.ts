@@ -1,10 +1,20 @@
 import {
   SnippetInterface,
   SearchQueryInterface,
+  AdvancedSearchQuery,
   Result,
   ErrorType,
 } from "../../types";
 import { createError } from "../utils";
+import { matchesFilters } from "../query";
+import { isInCategory } from "../taxonomy";
+import { SearchIndex } from "./SearchIndex";
+import {
+  CodeTokenKind,
+  CODE_TOKEN_WEIGHTS,
+  findCodeToken,
+  tokenizeCode,
+} from "../codeTokens";
 
 /**
  * Search result with relevance score
@@ -16,10 +26,26 @@ export interface SearchResult {
 }
 
 /**
- * Information about where a match was found
+ * Result of an indexed search, with the index terms the snippet matched.
+ * Its matches are located once the results are ranked.
+ */
+interface IndexedSearchResult extends SearchResult {
+  terms: string[];
+}
+
+/**
+ * Information about where a match was found. Matches in code tell whether
+ * they landed in an identifier, keyword, string, comment or number, as in
+ * "code.identifier"; "code" is left for the rest of the code.
  */
 export interface SearchMatch {
-  field: "title" | "description" | "code" | "tags" | "category";
+  field:
+    | "title"
+    | "description"
+    | "code"
+    | `code.${CodeTokenKind}`
+    | "tags"
+    | "category";
   text: string;
   startIndex: number;
   endIndex: number;
@@ -39,27 +65,106 @@ export interface SearchSuggestion {
  * Search history entry
  */
 export interface SearchHistoryEntry {
-  query: SearchQueryInterface;
+  query: AdvancedSearchQuery;
   timestamp: Date;
   resultCount: number;
 }
 
 /**
- * Advanced search service with fuzzy matching, ranking, and suggestions
+ * Source of indexed filter results, such as an indexed storage service
+ */
+export interface SearchCandidateProvider {
+  querySnippetIds(query: SearchQueryInterface): Promise<Result<string[]>>;
+}
+
+/**
+ * Source of how much and how recently snippets were used
+ */
+export interface RecentUsageProvider {
+  /**
+   * Number of uses of a snippet, each counting half as much for every
+   * half-life that passed since it happened
+   */
+  getRecentUseScore(
+    snippetId: string,
+    halfLifeDays: number,
+    now?: Date
+  ): number;
+}
+
+/**
+ * Weights of the signals added to the relevance of every result
+ */
+export interface SearchRankingOptions {
+  usageWeight: number; // Total number of uses
+  newSnippetWeight: number; // Snippets created in the last 30 days
+  recentUseWeight: number; // Uses weighted by how recent they are
+  recentUseHalfLifeDays: number;
+  usageProvider?: RecentUsageProvider; // Recent use is ignored without it
+}
+
+const defaultRankingOptions: SearchRankingOptions = {
+  usageWeight: 0.1,
+  newSnippetWeight: 0.2,
+  recentUseWeight: 0.5,
+  recentUseHalfLifeDays: 7,
+};
+
+/**
+ * Advanced search service with fuzzy matching, ranking, and suggestions.
+ * With a search index, text is looked up in the index and ranked with
+ * BM25 instead of comparing it against every snippet.
  */
 export class SearchService {
   private searchHistory: SearchHistoryEntry[] = [];
   private maxHistorySize = 100;
+  private candidateProvider?: SearchCandidateProvider;
+  private index?: SearchIndex;
+  private ranking: SearchRankingOptions;
+
+  constructor(
+    candidateProvider?: SearchCandidateProvider,
+    index?: SearchIndex,
+    ranking: Partial<SearchRankingOptions> = {}
+  ) {
+    this.candidateProvider = candidateProvider;
+    this.index = index;
+    this.ranking = { ...defaultRankingOptions, ...ranking };
+  }
+
+  /**
+   * Get the weights used to rank results
+   */
+  getRankingOptions(): SearchRankingOptions {
+    return { ...this.ranking };
+  }
+
+  /**
+   * Change some of the weights used to rank results
+   */
+  setRankingOptions(ranking: Partial<SearchRankingOptions>): void {
+    this.ranking = { ...this.ranking, ...ranking };
+  }
 
   /**
-   * Perform fuzzy search on snippets with ranking
+   * Get the search index used for text search, if any
+   */
+  getIndex(): SearchIndex | undefined {
+    return this.index;
+  }
+
+  /**
+   * Perform fuzzy search on snippets with ranking. With a limit, only the
+   * best results are returned, and only their matches are located.
    */
   async searchWithRanking(
     snippets: SnippetInterface[],
-    query: SearchQueryInterface
+    query: AdvancedSearchQuery,
+    limit?: number
   ): Promise<Result<SearchResult[]>> {
     try {
       let results: SearchResult[] = [];
+      let indexed = false;
 
       // If no search criteria, return all snippets with default score
       if (this.isEmptyQuery(query)) {
@@ -70,7 +175,18 @@ export class SearchService {
         }));
       } else {
         // Perform fuzzy search and scoring
-        results = this.performFuzzySearch(snippets, query);
+        const candidates = await this.narrowCandidates(snippets, query);
+        if (this.index && query.text) {
+          indexed = true;
+          results = this.performIndexedSearch(
+            this.index,
+            snippets,
+            candidates,
+            query
+          );
+        } else {
+          results = this.performFuzzySearch(candidates, query);
+        }
       }
 
       // Apply additional filters
@@ -82,6 +198,20 @@ export class SearchService {
       // Record search in history
       this.addToHistory(query, results.length);
 
+      if (limit !== undefined) {
+        results = results.slice(0, limit);
+      }
+      if (indexed) {
+        results = results.map((result) => ({
+          snippet: result.snippet,
+          score: result.score,
+          matches: this.findTermMatches(
+            result.snippet,
+            (result as IndexedSearchResult).terms
+          ),
+        }));
+      }
+
       return { success: true, data: results };
     } catch (error) {
       return {
@@ -191,6 +321,99 @@ export class SearchService {
     return results;
   }
 
+  /**
+   * Look the query text up in the search index, keeping only candidates.
+   * Filters and bonuses are scored like the fuzzy search does.
+   */
+  private performIndexedSearch(
+    index: SearchIndex,
+    snippets: SnippetInterface[],
+    candidates: SnippetInterface[],
+    query: SearchQueryInterface
+  ): IndexedSearchResult[] {
+    index.sync(snippets);
+
+    const allowed =
+      candidates === snippets
+        ? null
+        : new Set(candidates.map((snippet) => snippet.id));
+    const hits = index.search(query.text!);
+    const now = Date.now();
+    // Replaced by the matches found once the results are ranked
+    const noMatches: SearchMatch[] = [];
+
+    return (
+      allowed ? hits.filter((hit) => allowed.has(hit.snippet.id)) : hits
+    ).map((hit) => ({
+      snippet: hit.snippet,
+      score: hit.score + this.scoreBonuses(hit.snippet, query, now),
+      matches: noMatches,
+      terms: hit.terms,
+    }));
+  }
+
+  /**
+   * Find where matched index terms occur in the snippet fields
+   */
+  private findTermMatches(
+    snippet: SnippetInterface,
+    terms: string[]
+  ): SearchMatch[] {
+    const fields: [SearchMatch["field"], string, number][] = [
+      ["title", snippet.title, 3.0],
+      ["description", snippet.description, 2.0],
+      ["code", snippet.code, 1.5],
+      ["tags", (snippet.tags || []).join(" "), 2.0],
+      ["category", snippet.category || "", 2.0],
+    ];
+    const matches: SearchMatch[] = [];
+    const codeMatches: SearchMatch[] = [];
+
+    for (const [field, text, score] of fields) {
+      const lowerText = text.toLowerCase();
+      for (const term of terms) {
+        let index = lowerText.indexOf(term);
+        while (index !== -1) {
+          (field === "code" ? codeMatches : matches).push({
+            field,
+            text: text.substring(index, index + term.length),
+            startIndex: index,
+            endIndex: index + term.length,
+            score,
+          });
+          index = lowerText.indexOf(term, index + term.length);
+        }
+      }
+    }
+
+    return [...matches, ...this.locateCodeMatches(snippet, codeMatches)];
+  }
+
+  /**
+   * Tell where in the code each match landed, weighting identifier
+   * matches above matches in strings and comments
+   */
+  private locateCodeMatches(
+    snippet: SnippetInterface,
+    matches: SearchMatch[]
+  ): SearchMatch[] {
+    if (matches.length === 0) {
+      return matches;
+    }
+
+    const tokens = tokenizeCode(snippet.code, snippet.language);
+    return matches.map((match) => {
+      const token = findCodeToken(tokens, match.startIndex);
+      return token
+        ? {
+            ...match,
+            field: `code.${token.kind}` as const,
+            score: match.score * CODE_TOKEN_WEIGHTS[token.kind],
+          }
+        : { ...match, score: match.score * CODE_TOKEN_WEIGHTS.keyword };
+    });
+  }
+
   /**
    * Score a snippet against search query
    */
@@ -208,15 +431,39 @@ export class SearchService {
       totalScore += textMatches.reduce((sum, match) => sum + match.score, 0);
     }
 
+    totalScore += this.scoreBonuses(snippet, query, Date.now());
+
+    return {
+      snippet,
+      score: totalScore,
+      matches,
+    };
+  }
+
+  /**
+   * Score the filters a snippet matches, how much it is used and how new
+   * it is. Text matches are left to the caller.
+   */
+  private scoreBonuses(
+    snippet: SnippetInterface,
+    query: SearchQueryInterface,
+    now: number
+  ): number {
+    let totalScore = 0;
+
     // Exact matches get bonus points
     if (query.language && snippet.language === query.language) {
       totalScore += 2.0;
     }
 
-    if (query.category && snippet.category === query.category) {
+    if (query.category && isInCategory(snippet.category, query.category)) {
       totalScore += 1.5;
     }
 
+    if (query.source && snippet.source === query.source) {
+      totalScore += 1.0;
+    }
+
     // Tag matches
     if (query.tags && query.tags.length > 0) {
       const tagMatches = query.tags.filter((tag) =>
@@ -228,18 +475,25 @@ export class SearchService {
     }
 
     // Usage count bonus (popular snippets get slight boost)
-    totalScore += Math.log(snippet.usageCount + 1) * 0.1;
+    totalScore += Math.log(snippet.usageCount + 1) * this.ranking.usageWeight;
 
     // Recency bonus (newer snippets get slight boost)
     const daysSinceCreated =
-      (Date.now() - snippet.createdAt.getTime()) / (1000 * 60 * 60 * 24);
-    totalScore += Math.max(0, (30 - daysSinceCreated) / 30) * 0.2;
+      (now - snippet.createdAt.getTime()) / (1000 * 60 * 60 * 24);
+    totalScore +=
+      Math.max(0, (30 - daysSinceCreated) / 30) *
+      this.ranking.newSnippetWeight;
+
+    // Recent use bonus (snippets used lately get a boost)
+    if (this.ranking.usageProvider && this.ranking.recentUseWeight > 0) {
+      const recentUses = this.ranking.usageProvider.getRecentUseScore(
+        snippet.id,
+        this.ranking.recentUseHalfLifeDays
+      );
+      totalScore += Math.log(recentUses + 1) * this.ranking.recentUseWeight;
+    }
 
-    return {
-      snippet,
-      score: totalScore,
-      matches,
-    };
+    return totalScore;
   }
 
   /**
@@ -277,7 +531,7 @@ export class SearchService {
       "code",
       1.5
     );
-    matches.push(...codeMatches);
+    matches.push(...this.locateCodeMatches(snippet, codeMatches));
 
     // Search in tags (medium weight)
     if (snippet.tags && Array.isArray(snippet.tags)) {
@@ -431,12 +685,41 @@ export class SearchService {
       : 1 - matrix[str2.length][str1.length] / maxLength;
   }
 
+  /**
+   * Let the candidate provider apply the exact-match filters through its
+   * indices. Text and tags are left to fuzzy matching, which is looser than
+   * an index lookup.
+   */
+  private async narrowCandidates(
+    snippets: SnippetInterface[],
+    query: SearchQueryInterface
+  ): Promise<SnippetInterface[]> {
+    if (
+      !this.candidateProvider ||
+      !(query.language || query.category || query.dateRange)
+    ) {
+      return snippets;
+    }
+
+    const idsResult = await this.candidateProvider.querySnippetIds({
+      language: query.language,
+      category: query.category,
+      dateRange: query.dateRange,
+    });
+    if (!idsResult.success) {
+      return snippets;
+    }
+
+    const ids = new Set(idsResult.data);
+    return snippets.filter((snippet) => ids.has(snippet.id));
+  }
+
   /**
    * Apply additional filters to search results
    */
   private applyFilters(
     results: SearchResult[],
-    query: SearchQueryInterface
+    query: AdvancedSearchQuery
   ): SearchResult[] {
     let filtered = results;
 
@@ -448,7 +731,13 @@ export class SearchService {
 
     if (query.category) {
       filtered = filtered.filter(
-        (result) => result.snippet.category === query.category
+        (result) => isInCategory(result.snippet.category, query.category!)
+      );
+    }
+
+    if (query.source) {
+      filtered = filtered.filter(
+        (result) => result.snippet.source === query.source
       );
     }
 
@@ -472,6 +761,12 @@ export class SearchService {
       });
     }
 
+    if (query.filters && query.filters.length > 0) {
+      filtered = filtered.filter((result) =>
+        matchesFilters(result.snippet, query)
+      );
+    }
+
     return filtered;
   }
 
@@ -527,6 +822,7 @@ export class SearchService {
       !query.text &&
       !query.language &&
       !query.category &&
+      !query.source &&
       (!query.tags || query.tags.length === 0) &&
       !query.dateRange
     );
@@ -535,9 +831,13 @@ export class SearchService {
   /**
    * Add search to history
    */
-  private addToHistory(query: SearchQueryInterface, resultCount: number): void {
-    // Don't add empty queries to history
-    if (this.isEmptyQuery(query)) {
+  private addToHistory(query: AdvancedSearchQuery, resultCount: number): void {
+    // Don't add empty queries to history. Filters only narrow the results,
+    // so they count here but not when scoring.
+    if (
+      this.isEmptyQuery(query) &&
+      (!query.filters || query.filters.length === 0)
+    ) {
       return;
     }
 
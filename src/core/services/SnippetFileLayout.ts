@@ -0,0 +1,249 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import { SnippetInterface } from "../../types";
+
+/**
+ * Metadata sidecar stored next to each snippet's code file in the
+ * per-snippet storage layout
+ */
+export interface SnippetMetadataFile
+  extends Omit<SnippetInterface, "code" | "createdAt" | "updatedAt"> {
+  codeFile: string; // Code file name, relative to the sidecar
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Files making up a single snippet on disk
+ */
+export interface SnippetFiles {
+  metadataPath: string;
+  metadataContent: string;
+  codePath: string;
+  codeContent: string;
+}
+
+const METADATA_SUFFIXES = [".snippet.json", ".snippet.yaml", ".snippet.yml"];
+
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  javascript: "js",
+  javascriptreact: "jsx",
+  typescript: "ts",
+  typescriptreact: "tsx",
+  python: "py",
+  java: "java",
+  c: "c",
+  cpp: "cpp",
+  csharp: "cs",
+  go: "go",
+  rust: "rs",
+  ruby: "rb",
+  php: "php",
+  swift: "swift",
+  kotlin: "kt",
+  scala: "scala",
+  dart: "dart",
+  lua: "lua",
+  r: "r",
+  shellscript: "sh",
+  bash: "sh",
+  shell: "sh",
+  powershell: "ps1",
+  sql: "sql",
+  html: "html",
+  css: "css",
+  scss: "scss",
+  less: "less",
+  json: "json",
+  yaml: "yml",
+  xml: "xml",
+  markdown: "md",
+  vue: "vue",
+  dockerfile: "dockerfile",
+};
+
+/**
+ * Check whether a file is a snippet metadata sidecar
+ */
+export function isSnippetMetadataFile(filePath: string): boolean {
+  const name = path.basename(filePath).toLowerCase();
+  return METADATA_SUFFIXES.some((suffix) => name.endsWith(suffix));
+}
+
+/**
+ * Get the file name stem shared by a sidecar and its code file
+ */
+export function getSnippetFileStem(filePath: string): string {
+  const name = path.basename(filePath);
+  const suffix = METADATA_SUFFIXES.find((candidate) =>
+    name.toLowerCase().endsWith(candidate)
+  );
+  return suffix
+    ? name.slice(0, -suffix.length)
+    : path.basename(name, path.extname(name));
+}
+
+/**
+ * Find the sidecar describing a code file, if there is one
+ */
+export function findSnippetMetadataFile(codePath: string): string | null {
+  const stem = getSnippetFileStem(codePath);
+  for (const suffix of METADATA_SUFFIXES) {
+    const candidate = path.join(path.dirname(codePath), `${stem}${suffix}`);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the code file extension for a language
+ */
+export function getCodeFileExtension(language: string): string {
+  return LANGUAGE_EXTENSIONS[language.toLowerCase()] || "txt";
+}
+
+/**
+ * Turn a title or category segment into a file-system friendly name
+ */
+export function slugify(value: string): string {
+  const slug = value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, "")
+    .trim()
+    .replace(/[\s_]+/g, "-")
+    .replace(/-+/g, "-")
+    .slice(0, 60)
+    .replace(/^-|-$/g, "");
+  return slug || "snippet";
+}
+
+/**
+ * Get the directory, relative to the library root, for a category.
+ * Uncategorized snippets live at the root.
+ */
+export function getCategoryDirectory(category?: string): string {
+  if (!category) {
+    return "";
+  }
+  return category
+    .split("/")
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+    .map(slugify)
+    .join(path.sep);
+}
+
+/**
+ * Serialize a snippet to a code file and a metadata sidecar named
+ * `<stem>.<ext>` and `<stem>.snippet.<format>` in `directory`
+ */
+export function serializeSnippetFiles(
+  snippet: SnippetInterface,
+  directory: string,
+  stem: string,
+  format: "json" | "yaml"
+): SnippetFiles {
+  const codeFile = `${stem}.${getCodeFileExtension(snippet.language)}`;
+  const { code, createdAt, updatedAt, ...rest } = snippet;
+
+  const metadata: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries({
+    ...rest,
+    codeFile,
+    createdAt: new Date(createdAt).toISOString(),
+    updatedAt: new Date(updatedAt).toISOString(),
+  })) {
+    if (value !== undefined) {
+      metadata[key] = value;
+    }
+  }
+
+  return {
+    metadataPath: path.join(directory, `${stem}.snippet.${format}`),
+    metadataContent:
+      format === "yaml"
+        ? yaml.dump(metadata, { indent: 2 })
+        : `${JSON.stringify(metadata, null, 2)}\n`,
+    codePath: path.join(directory, codeFile),
+    // Code files end with a newline so they diff cleanly
+    codeContent: `${code}\n`,
+  };
+}
+
+/**
+ * Parse a metadata sidecar without reading the code file
+ */
+export function parseSnippetMetadata(
+  content: string,
+  metadataPath: string
+): SnippetMetadataFile {
+  const data: any = metadataPath.toLowerCase().endsWith(".json")
+    ? JSON.parse(content)
+    : yaml.load(content);
+
+  if (!data || typeof data !== "object" || !data.id || !data.codeFile) {
+    throw new Error(`Invalid snippet metadata file: ${metadataPath}`);
+  }
+  if (!isPlainFileName(data.codeFile)) {
+    throw new Error(
+      `Code file must be a file name next to the sidecar: ${metadataPath}`
+    );
+  }
+
+  return data as SnippetMetadataFile;
+}
+
+/**
+ * Check that a code file name stays in the sidecar's directory: no path
+ * separators, no `.` or `..`
+ */
+function isPlainFileName(name: unknown): boolean {
+  return (
+    typeof name === "string" &&
+    name !== "." &&
+    name !== ".." &&
+    !/[\\/]/.test(name)
+  );
+}
+
+/**
+ * Get the path of a sidecar's code file
+ */
+export function getCodeFilePath(
+  metadataPath: string,
+  metadata: SnippetMetadataFile
+): string {
+  return path.join(path.dirname(metadataPath), metadata.codeFile);
+}
+
+/**
+ * Read a snippet from its metadata sidecar and code file
+ */
+export async function readSnippetFiles(
+  metadataPath: string
+): Promise<SnippetInterface> {
+  const metadata = parseSnippetMetadata(
+    await fs.promises.readFile(metadataPath, "utf-8"),
+    metadataPath
+  );
+  const code = await fs.promises.readFile(
+    getCodeFilePath(metadataPath, metadata),
+    "utf-8"
+  );
+
+  const { codeFile, ...rest } = metadata;
+  return {
+    ...rest,
+    code: code.endsWith("\n") ? code.slice(0, -1) : code,
+    createdAt: new Date(metadata.createdAt),
+    updatedAt: new Date(metadata.updatedAt),
+    tags: Array.isArray(metadata.tags) ? metadata.tags : [],
+    usageCount:
+      typeof metadata.usageCount === "number" ? metadata.usageCount : 0,
+  };
+}
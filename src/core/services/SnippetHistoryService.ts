@@ -0,0 +1,295 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  SnippetData,
+  SnippetRevision,
+  RevisionDiff,
+  ChangeContext,
+  Result,
+  ErrorType,
+} from "../../types";
+import { createError, deepClone, arraysEqual } from "../utils";
+import { diffLines } from "../diff";
+
+/**
+ * Fields of a snippet that are tracked in its revision history
+ */
+export const trackedSnippetFields: Array<keyof SnippetData> = [
+  "title",
+  "description",
+  "code",
+  "language",
+  "tags",
+  "category",
+  "prefix",
+  "prefixAliases",
+  "scope",
+  "variables",
+];
+
+/**
+ * Configuration for the snippet history service
+ */
+export interface SnippetHistoryConfig {
+  filePath?: string;
+  maxRevisionsPerSnippet: number;
+}
+
+/**
+ * Keeps a per-snippet list of revisions (full snapshots) so that edits can be
+ * inspected, diffed and rolled back. History is persisted to a JSON sidecar
+ * file when a file path is configured, otherwise it is kept in memory only.
+ */
+export class SnippetHistoryService {
+  private config: SnippetHistoryConfig;
+  private history: Map<string, SnippetRevision[]> = new Map();
+
+  constructor(config: Partial<SnippetHistoryConfig> = {}) {
+    this.config = {
+      maxRevisionsPerSnippet: 50,
+      ...config,
+    };
+  }
+
+  /**
+   * Load persisted history from disk
+   */
+  async load(): Promise<Result<void>> {
+    this.history.clear();
+
+    if (!this.config.filePath || !fs.existsSync(this.config.filePath)) {
+      return { success: true, data: undefined };
+    }
+
+    try {
+      const content = await fs.promises.readFile(this.config.filePath, "utf-8");
+      const parsed = content.trim() ? JSON.parse(content) : {};
+      const entries: Record<string, any[]> = parsed.history || {};
+
+      for (const [snippetId, revisions] of Object.entries(entries)) {
+        if (!Array.isArray(revisions)) {
+          continue;
+        }
+        this.history.set(
+          snippetId,
+          revisions.map((revision) => ({
+            ...revision,
+            timestamp: new Date(revision.timestamp),
+          }))
+        );
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to load snippet history",
+          {
+            filePath: this.config.filePath,
+            error: error instanceof Error ? error.message : error,
+          },
+          true,
+          "Check the history file format or delete it to start a new history"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Record a new revision for a snippet. Returns the new revision, or null if
+   * nothing changed since the latest recorded revision.
+   */
+  async recordRevision(
+    snippetId: string,
+    snapshot: SnippetData,
+    context: ChangeContext = {},
+    timestamp: Date = new Date()
+  ): Promise<Result<SnippetRevision | null>> {
+    const revisions = this.history.get(snippetId) || [];
+    const latest = revisions[revisions.length - 1];
+    const changedFields = latest
+      ? getChangedFields(latest.snapshot, snapshot)
+      : [...trackedSnippetFields];
+
+    if (latest && changedFields.length === 0) {
+      return { success: true, data: null };
+    }
+
+    const revision: SnippetRevision = {
+      snippetId,
+      revision: latest ? latest.revision + 1 : 1,
+      timestamp,
+      source: context.source || "unknown",
+      author: context.author,
+      changedFields,
+      snapshot: deepClone(snapshot),
+    };
+
+    revisions.push(revision);
+    if (revisions.length > this.config.maxRevisionsPerSnippet) {
+      revisions.splice(0, revisions.length - this.config.maxRevisionsPerSnippet);
+    }
+    this.history.set(snippetId, revisions);
+
+    const saveResult = await this.save();
+    if (!saveResult.success) {
+      return saveResult;
+    }
+
+    return { success: true, data: revision };
+  }
+
+  /**
+   * Check whether any revisions are recorded for a snippet
+   */
+  hasHistory(snippetId: string): boolean {
+    return (this.history.get(snippetId) || []).length > 0;
+  }
+
+  /**
+   * Get all revisions of a snippet, newest first
+   */
+  getHistory(snippetId: string): SnippetRevision[] {
+    return [...(this.history.get(snippetId) || [])].reverse();
+  }
+
+  /**
+   * Get a specific revision of a snippet
+   */
+  getRevision(snippetId: string, revision: number): SnippetRevision | null {
+    return (
+      (this.history.get(snippetId) || []).find(
+        (entry) => entry.revision === revision
+      ) || null
+    );
+  }
+
+  /**
+   * Compute the diff between two revisions of a snippet
+   */
+  diffRevisions(
+    snippetId: string,
+    fromRevision: number,
+    toRevision: number
+  ): Result<RevisionDiff> {
+    const from = this.getRevision(snippetId, fromRevision);
+    const to = this.getRevision(snippetId, toRevision);
+
+    if (!from || !to) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.notFound,
+          "Revision not found",
+          {
+            snippetId,
+            fromRevision,
+            toRevision,
+            missing: !from ? fromRevision : toRevision,
+          },
+          false,
+          "Check the revision numbers against the snippet history"
+        ),
+      };
+    }
+
+    const changedFields = getChangedFields(from.snapshot, to.snapshot);
+    const fields: RevisionDiff["fields"] = {};
+    for (const field of changedFields) {
+      fields[field] = { from: from.snapshot[field], to: to.snapshot[field] };
+    }
+
+    return {
+      success: true,
+      data: {
+        snippetId,
+        fromRevision,
+        toRevision,
+        changedFields,
+        fields,
+        codeDiff: diffLines(from.snapshot.code, to.snapshot.code),
+      },
+    };
+  }
+
+  /**
+   * Remove all history for a snippet
+   */
+  async removeHistory(snippetId: string): Promise<Result<void>> {
+    if (!this.history.delete(snippetId)) {
+      return { success: true, data: undefined };
+    }
+    return this.save();
+  }
+
+  /**
+   * Clear in-memory history
+   */
+  dispose(): void {
+    this.history.clear();
+  }
+
+  private async save(): Promise<Result<void>> {
+    if (!this.config.filePath) {
+      return { success: true, data: undefined };
+    }
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.config.filePath), {
+        recursive: true,
+      });
+
+      const data = {
+        version: "1.0.0",
+        history: Object.fromEntries(this.history.entries()),
+      };
+
+      await fs.promises.writeFile(
+        this.config.filePath,
+        JSON.stringify(data, null, 2),
+        "utf-8"
+      );
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to save snippet history",
+          {
+            filePath: this.config.filePath,
+            error: error instanceof Error ? error.message : error,
+          },
+          true,
+          "Check file permissions and ensure the storage location is writable"
+        ),
+      };
+    }
+  }
+}
+
+/**
+ * Get the list of tracked fields that differ between two snapshots
+ */
+export function getChangedFields(
+  from: Partial<SnippetData>,
+  to: Partial<SnippetData>
+): Array<keyof SnippetData> {
+  return trackedSnippetFields.filter((field) => {
+    const a = from[field];
+    const b = to[field];
+
+    if (field === "variables") {
+      return JSON.stringify(a || []) !== JSON.stringify(b || []);
+    }
+
+    if (Array.isArray(a) || Array.isArray(b)) {
+      return !arraysEqual((a as string[]) || [], (b as string[]) || []);
+    }
+
+    return (a ?? undefined) !== (b ?? undefined);
+  });
+}
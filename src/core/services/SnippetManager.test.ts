@@ -292,7 +292,7 @@ describe("SnippetManagerImpl", () => {
       });
 
       expect(result.success).toBe(false);
-      expect(result.error?.type).toBe(ErrorType.validation);
+      expect(result.error?.type).toBe(ErrorType.notFound);
       expect(result.error?.message).toContain("not found");
     });
   });
@@ -321,7 +321,7 @@ describe("SnippetManagerImpl", () => {
       const result = await snippetManager.deleteSnippet("non-existent-id");
 
       expect(result.success).toBe(false);
-      expect(result.error?.type).toBe(ErrorType.validation);
+      expect(result.error?.type).toBe(ErrorType.notFound);
       expect(result.error?.message).toContain("not found");
     });
 
@@ -437,6 +437,58 @@ describe("SnippetManagerImpl", () => {
       expect(result.success).toBe(true);
       expect(result.data).toHaveLength(0);
     });
+    it("should apply advanced filters", async () => {
+      const result = await snippetManager.searchSnippets({
+        filters: [
+          { field: "tags", operator: "not", value: "script" },
+          { field: "title", operator: "contains", value: "script" },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.map((snippet) => snippet.title).sort()).toEqual([
+        "JavaScript Function",
+        "TypeScript Interface",
+      ]);
+    });
+
+    it("should find text through the search index", async () => {
+      const typo = await snippetManager.searchSnippets({ text: "automaton" });
+      const substring = await snippetManager.searchSnippets({ text: "ipt Fun" });
+
+      expect(typo.data?.map((snippet) => snippet.title)).toEqual([
+        "Python Script",
+      ]);
+      expect(substring.data?.map((snippet) => snippet.title)).toEqual([
+        "JavaScript Function",
+      ]);
+    });
+
+    it("should search updated and externally changed snippets", async () => {
+      const all = await snippetManager.getAllSnippets();
+      const [first, second] = all.data!;
+      await snippetManager.updateSnippet(first.id, { title: "Debounce" });
+      const changed = { ...second, title: "Throttle", updatedAt: new Date() };
+      (mockStorageService.loadSnippets as Mock).mockResolvedValue({
+        success: true,
+        data: [all.data![2], changed],
+      });
+
+      const onChange = (mockStorageService.watchChanges as Mock).mock
+        .calls[0][0];
+      onChange([{ type: "updated", snippet: changed }]);
+      const updated = await snippetManager.searchSnippets({
+        text: "debonce",
+      });
+      const external = await snippetManager.searchSnippets({
+        text: "throtle",
+      });
+
+      expect(updated.data?.map((snippet) => snippet.id)).toEqual([first.id]);
+      expect(external.data?.map((snippet) => snippet.id)).toEqual([
+        second.id,
+      ]);
+    });
   });
 
   describe("importSnippets", () => {
@@ -575,7 +627,28 @@ describe("SnippetManagerImpl", () => {
       const result = await snippetManager.incrementUsage("non-existent-id");
 
       expect(result.success).toBe(false);
-      expect(result.error?.type).toBe(ErrorType.validation);
+      expect(result.error?.type).toBe(ErrorType.notFound);
+    });
+
+    it("should report recorded uses by source", async () => {
+      const used = await snippetManager.createSnippet(
+        createTestSnippetData({ title: "Used" })
+      );
+      await snippetManager.createSnippet(
+        createTestSnippetData({ title: "Unused" })
+      );
+
+      await snippetManager.incrementUsage(used.data!.id, "completion");
+      await snippetManager.incrementUsage(used.data!.id, "webCopy");
+      const report = await snippetManager.getUsageReport({ days: 7 });
+
+      expect(report.success).toBe(true);
+      expect(report.data?.total.total).toBe(2);
+      expect(report.data?.sources).toEqual({ completion: 1, webCopy: 1 });
+      expect(report.data?.snippets[0].snippet.title).toBe("Used");
+      expect(report.data?.neverUsed.map((snippet) => snippet.title)).toEqual([
+        "Unused",
+      ]);
     });
   });
 
@@ -680,6 +753,573 @@ describe("SnippetManagerImpl", () => {
     });
   });
 
+  describe("revision history", () => {
+    beforeEach(async () => {
+      await snippetManager.initialize();
+    });
+
+    it("should record a revision on create and on each update", async () => {
+      const createResult = await snippetManager.createSnippet(
+        createTestSnippetData(),
+        { source: "extension" }
+      );
+      const id = createResult.data!.id;
+
+      await snippetManager.updateSnippet(
+        id,
+        { code: "console.log('updated');" },
+        { source: "webgui" }
+      );
+
+      const historyResult = await snippetManager.getSnippetHistory(id);
+
+      expect(historyResult.success).toBe(true);
+      expect(historyResult.data?.map((r) => r.revision)).toEqual([2, 1]);
+      expect(historyResult.data?.[0].source).toBe("webgui");
+      expect(historyResult.data?.[0].changedFields).toEqual(["code"]);
+      expect(historyResult.data?.[1].source).toBe("extension");
+    });
+
+    it("should record a base revision for snippets loaded from storage", async () => {
+      (mockStorageService.loadSnippets as Mock).mockResolvedValue({
+        success: true,
+        data: [createTestSnippet()],
+      });
+      await snippetManager.refresh();
+
+      await snippetManager.updateSnippet("test-id-1", { title: "Renamed" });
+
+      const historyResult = await snippetManager.getSnippetHistory("test-id-1");
+      expect(historyResult.data).toHaveLength(2);
+      expect(historyResult.data?.[1].snapshot.title).toBe("Test Snippet");
+      expect(historyResult.data?.[1].timestamp).toEqual(
+        new Date("2023-01-01")
+      );
+    });
+
+    it("should diff two revisions", async () => {
+      const createResult = await snippetManager.createSnippet(
+        createTestSnippetData()
+      );
+      const id = createResult.data!.id;
+      await snippetManager.updateSnippet(id, { description: "Changed" });
+
+      const diffResult = await snippetManager.diffSnippetRevisions(id, 1, 2);
+
+      expect(diffResult.success).toBe(true);
+      expect(diffResult.data?.changedFields).toEqual(["description"]);
+    });
+
+    it("should roll back to a previous revision as a new revision", async () => {
+      const createResult = await snippetManager.createSnippet(
+        createTestSnippetData()
+      );
+      const id = createResult.data!.id;
+      await snippetManager.updateSnippet(id, {
+        code: "broken();",
+        tags: ["broken"],
+      });
+
+      const rollbackResult = await snippetManager.rollbackSnippet(id, 1);
+
+      expect(rollbackResult.success).toBe(true);
+      expect(rollbackResult.data?.code).toBe("console.log('Hello, World!');");
+      expect(rollbackResult.data?.tags).toEqual(["test", "example"]);
+
+      const historyResult = await snippetManager.getSnippetHistory(id);
+      expect(historyResult.data?.[0].revision).toBe(3);
+      expect(historyResult.data?.[0].source).toBe("rollback");
+    });
+
+    it("should unset fields added after the revision on rollback", async () => {
+      const createResult = await snippetManager.createSnippet(
+        createTestSnippetData({ category: undefined, prefix: undefined })
+      );
+      const id = createResult.data!.id;
+      await snippetManager.updateSnippet(id, {
+        category: "cat",
+        prefix: "pre",
+      });
+
+      const rollbackResult = await snippetManager.rollbackSnippet(id, 1);
+
+      expect(rollbackResult.success).toBe(true);
+      expect(rollbackResult.data?.category).toBeUndefined();
+      expect(rollbackResult.data?.prefix).toBeUndefined();
+    });
+
+    it("should fail to roll back to an unknown revision", async () => {
+      const createResult = await snippetManager.createSnippet(
+        createTestSnippetData()
+      );
+
+      const result = await snippetManager.rollbackSnippet(
+        createResult.data!.id,
+        42
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe("Revision not found");
+    });
+
+    it("should drop history when a snippet is deleted", async () => {
+      const createResult = await snippetManager.createSnippet(
+        createTestSnippetData()
+      );
+      const id = createResult.data!.id;
+
+      await snippetManager.deleteSnippet(id);
+
+      const historyResult = await snippetManager.getSnippetHistory(id);
+      expect(historyResult.success).toBe(false);
+    });
+  });
+
+  describe("mergeSnippets", () => {
+    beforeEach(async () => {
+      (mockStorageService.loadSnippets as Mock).mockResolvedValue({
+        success: true,
+        data: [
+          createTestSnippet({ usageCount: 3, category: undefined }),
+          createTestSnippet({
+            id: "test-id-2",
+            title: "Copy",
+            description: "Saved again",
+            tags: ["example", "logging"],
+            category: "Debugging",
+            usageCount: 4,
+          }),
+          createTestSnippet({
+            id: "test-id-3",
+            title: "Another copy",
+            usageCount: 1,
+          }),
+        ],
+      });
+      await snippetManager.initialize();
+    });
+
+    it("should combine tags, usage and descriptions into the target", async () => {
+      const result = await snippetManager.mergeSnippets("test-id-1", [
+        "test-id-2",
+        "test-id-3",
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({
+        id: "test-id-1",
+        title: "Test Snippet",
+        tags: ["test", "example", "logging"],
+        category: "Debugging",
+        usageCount: 8,
+      });
+      expect(result.data?.description).toBe(
+        "A test snippet\n\nSaved again"
+      );
+
+      const remaining = await snippetManager.getAllSnippets();
+      expect(remaining.data?.map((snippet) => snippet.id)).toEqual([
+        "test-id-1",
+      ]);
+      const historyResult = await snippetManager.getSnippetHistory("test-id-1");
+      expect(historyResult.data?.[0].source).toBe("merge");
+    });
+
+    it("should keep only the descriptions that fit the limit", async () => {
+      await snippetManager.updateSnippet("test-id-2", {
+        description: "a".repeat(300),
+      });
+      await snippetManager.updateSnippet("test-id-3", {
+        description: "b".repeat(300),
+      });
+
+      const result = await snippetManager.mergeSnippets("test-id-1", [
+        "test-id-2",
+        "test-id-3",
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.description).toBe(
+        `A test snippet\n\n${"a".repeat(300)}`
+      );
+    });
+
+    it("should reject merging a snippet into itself", async () => {
+      const result = await snippetManager.mergeSnippets("test-id-1", [
+        "test-id-1",
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.type).toBe(ErrorType.validation);
+    });
+
+    it("should fail for unknown snippets without changing anything", async () => {
+      const result = await snippetManager.mergeSnippets("test-id-1", [
+        "missing",
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.details).toEqual({ ids: ["missing"] });
+      const all = await snippetManager.getAllSnippets();
+      expect(all.data).toHaveLength(3);
+    });
+
+    it("should keep every snippet when the merge cannot be saved", async () => {
+      (mockStorageService.saveSnippets as Mock).mockResolvedValueOnce({
+        success: false,
+        error: {
+          type: ErrorType.storageAccess,
+          message: "Save failed",
+          recoverable: true,
+        },
+      });
+
+      const result = await snippetManager.mergeSnippets("test-id-1", [
+        "test-id-2",
+        "test-id-3",
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(mockStorageService.saveSnippets).toHaveBeenCalledTimes(1);
+      const all = await snippetManager.getAllSnippets();
+      expect(all.data?.map((snippet) => snippet.id)).toEqual([
+        "test-id-1",
+        "test-id-2",
+        "test-id-3",
+      ]);
+      expect(all.data?.[0]).toMatchObject({
+        tags: ["test", "example"],
+        usageCount: 3,
+      });
+    });
+  });
+
+  describe("saved searches", () => {
+    beforeEach(async () => {
+      (mockStorageService.loadSnippets as Mock).mockResolvedValue({
+        success: true,
+        data: [
+          createTestSnippet({ tags: ["react", "hooks"], usageCount: 2 }),
+          createTestSnippet({
+            id: "test-id-2",
+            title: "Python script",
+            language: "python",
+            tags: ["cli"],
+          }),
+        ],
+      });
+      await snippetManager.initialize();
+    });
+
+    it("should count the snippets each saved search matches", async () => {
+      const saved = await snippetManager.saveSearch("React", {
+        text: "tag:react",
+      });
+      await snippetManager.saveSearch("Python", { language: "python" });
+      expect(saved.data?.count).toBe(1);
+
+      const result = await snippetManager.getSavedSearches();
+
+      expect(result.success).toBe(true);
+      expect(
+        result.data?.map((search) => [search.name, search.count])
+      ).toEqual([
+        ["Python", 1],
+        ["React", 1],
+      ]);
+
+      await snippetManager.deleteSnippet("test-id-2");
+      const updated = await snippetManager.getSavedSearches();
+      expect(updated.data?.[0].count).toBe(0);
+    });
+
+    it("should run a saved search and record its use", async () => {
+      const saved = await snippetManager.saveSearch("Used", {
+        text: "used:>1",
+      });
+
+      const result = await snippetManager.runSavedSearch(saved.data!.id);
+
+      expect(result.data?.map((snippet) => snippet.id)).toEqual([
+        "test-id-1",
+      ]);
+      const searches = await snippetManager.getSavedSearches();
+      expect(searches.data?.[0].useCount).toBe(1);
+    });
+
+    it("should fail for unknown saved searches", async () => {
+      const result = await snippetManager.runSavedSearch("missing");
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe("Saved search not found");
+    });
+  });
+
+  describe("collections", () => {
+    beforeEach(async () => {
+      (mockStorageService.loadSnippets as Mock).mockResolvedValue({
+        success: true,
+        data: [
+          createTestSnippet(),
+          createTestSnippet({ id: "test-id-2", title: "Second" }),
+          createTestSnippet({ id: "test-id-3", title: "Third" }),
+        ],
+      });
+      await snippetManager.initialize();
+    });
+
+    it("should keep snippets in the order they are arranged", async () => {
+      const created = await snippetManager.createCollection("Favorites");
+      const id = created.data!.id;
+      await snippetManager.addToCollection(id, ["test-id-3", "test-id-1"]);
+      await snippetManager.addToCollection(id, ["test-id-2"], 0);
+
+      const reordered = await snippetManager.reorderCollection(id, [
+        "test-id-1",
+        "test-id-2",
+        "test-id-3",
+      ]);
+      const snippets = await snippetManager.getCollectionSnippets(id);
+
+      expect(reordered.success).toBe(true);
+      expect(snippets.data?.map((snippet) => snippet.title)).toEqual([
+        "Test Snippet",
+        "Second",
+        "Third",
+      ]);
+    });
+
+    it("should nest collections only one level deep", async () => {
+      const parent = await snippetManager.createCollection("Frontend");
+      const child = await snippetManager.createCollection("React", {
+        parentId: parent.data!.id,
+      });
+
+      const grandchild = await snippetManager.createCollection("Hooks", {
+        parentId: child.data!.id,
+      });
+
+      expect(child.success).toBe(true);
+      expect(grandchild.success).toBe(false);
+      expect(grandchild.error?.message).toBe(
+        "Collections can only be nested one level deep"
+      );
+    });
+
+    it("should follow snippets that are merged or deleted", async () => {
+      const created = await snippetManager.createCollection("Favorites");
+      const id = created.data!.id;
+      await snippetManager.addToCollection(id, ["test-id-2", "test-id-3"]);
+
+      await snippetManager.mergeSnippets("test-id-1", ["test-id-2"]);
+      await snippetManager.deleteSnippet("test-id-3");
+
+      const collections = await snippetManager.getCollections();
+      expect(collections.data?.[0].snippetIds).toEqual(["test-id-1"]);
+    });
+
+    it("should export and import collections with their snippets", async () => {
+      const parent = await snippetManager.createCollection("Frontend");
+      const child = await snippetManager.createCollection("React", {
+        parentId: parent.data!.id,
+      });
+      await snippetManager.createCollection("Other");
+      await snippetManager.addToCollection(parent.data!.id, ["test-id-3"]);
+      await snippetManager.addToCollection(child.data!.id, ["test-id-2"]);
+
+      const exported = await snippetManager.exportSnippets({
+        collections: [parent.data!.id],
+      });
+
+      expect(exported.data?.snippets.map((s) => s.id).sort()).toEqual([
+        "test-id-2",
+        "test-id-3",
+      ]);
+      expect(exported.data?.collections?.map((c) => c.name)).toEqual([
+        "Frontend",
+        "React",
+      ]);
+
+      const importer = new SnippetManagerImpl(createMockStorageService());
+      const storage = (importer as any).storageService as StorageService;
+      (storage.initialize as Mock).mockResolvedValue({ success: true });
+      (storage.loadSnippets as Mock).mockResolvedValue({
+        success: true,
+        data: [],
+      });
+      (storage.saveSnippets as Mock).mockResolvedValue({ success: true });
+      (storage.watchChanges as Mock).mockReturnValue({ success: true });
+      await importer.initialize();
+
+      const imported = await importer.importSnippets({
+        snippets: exported.data!.snippets,
+        collections: exported.data!.collections,
+        conflictResolution: "skip",
+      });
+      const collections = await importer.getCollections();
+      const react = collections.data!.find((c) => c.name === "React")!;
+      const frontend = collections.data!.find((c) => c.name === "Frontend")!;
+      const reactSnippets = await importer.getCollectionSnippets(react.id);
+
+      expect(imported.data?.errors).toEqual([]);
+      expect(react.parentId).toBe(frontend.id);
+      expect(reactSnippets.data?.map((snippet) => snippet.title)).toEqual([
+        "Second",
+      ]);
+    });
+  });
+
+  describe("taxonomy", () => {
+    beforeEach(async () => {
+      (mockStorageService.loadSnippets as Mock).mockResolvedValue({
+        success: true,
+        data: [
+          createTestSnippet({ tags: ["js", "react"], category: "web/ui" }),
+          createTestSnippet({
+            id: "test-id-2",
+            title: "Second",
+            tags: ["js", "javascript"],
+            category: "web/api/rest",
+          }),
+          createTestSnippet({
+            id: "test-id-3",
+            title: "Third",
+            tags: ["python"],
+            category: "scripts",
+          }),
+        ],
+      });
+      await snippetManager.initialize();
+    });
+
+    it("should include subcategories in category lookups", async () => {
+      const tree = await snippetManager.getCategoryTree();
+      const web = await snippetManager.getSnippetsByCategory("web");
+      const searched = await snippetManager.searchSnippets({
+        category: "web/api",
+      });
+
+      expect(tree.data?.map((node) => [node.path, node.count])).toEqual([
+        ["scripts", 1],
+        ["web", 2],
+      ]);
+      expect(web.data).toHaveLength(2);
+      expect(searched.data?.map((snippet) => snippet.title)).toEqual([
+        "Second",
+      ]);
+    });
+
+    it("should rename a tag in every snippet at once", async () => {
+      const result = await snippetManager.renameTag("js", "javascript", {
+        keepAlias: true,
+      });
+      const first = await snippetManager.getSnippet("test-id-1");
+      const second = await snippetManager.getSnippet("test-id-2");
+      const aliases = await snippetManager.getTagAliases();
+
+      expect(result.data).toBe(2);
+      expect(mockStorageService.saveSnippets).toHaveBeenCalledTimes(1);
+      expect(first.data?.tags).toEqual(["javascript", "react"]);
+      expect(second.data?.tags).toEqual(["javascript"]);
+      expect(aliases.data).toEqual({ js: "javascript" });
+    });
+
+    it("should leave every snippet unchanged when saving fails", async () => {
+      (mockStorageService.saveSnippets as Mock).mockResolvedValueOnce({
+        success: false,
+        error: {
+          type: ErrorType.storageAccess,
+          message: "Save failed",
+          recoverable: true,
+        },
+      });
+
+      const result = await snippetManager.renameTag("js", "ecmascript");
+      const tags = await snippetManager.getTags();
+
+      expect(result.success).toBe(false);
+      expect(tags.data).toEqual(["javascript", "js", "python", "react"]);
+    });
+
+    it("should move a category and its subcategories", async () => {
+      const result = await snippetManager.renameCategory("web", "frontend");
+      const tree = await snippetManager.getCategoryTree();
+      const missing = await snippetManager.renameCategory("mobile", "apps");
+
+      expect(result.data).toBe(2);
+      expect(mockStorageService.saveSnippets).toHaveBeenCalledTimes(1);
+      expect(tree.data?.map((node) => node.path)).toEqual([
+        "frontend",
+        "scripts",
+      ]);
+      expect(tree.data?.[0].children.map((node) => node.path)).toEqual([
+        "frontend/api",
+        "frontend/ui",
+      ]);
+      expect(missing.error?.message).toBe("Category not found");
+    });
+
+    it("should resolve aliases in new snippets and searches", async () => {
+      await snippetManager.setTagAlias("py", "python");
+
+      const created = await snippetManager.createSnippet(
+        createTestSnippetData({
+          title: "Fourth",
+          tags: ["PY", "cli"],
+          category: " scripts / cli ",
+        })
+      );
+      const searched = await snippetManager.searchSnippets({ tags: ["py"] });
+
+      expect(created.data?.tags).toEqual(["python", "cli"]);
+      expect(created.data?.category).toBe("scripts/cli");
+      expect(searched.data?.map((snippet) => snippet.title)).toEqual([
+        "Third",
+        "Fourth",
+      ]);
+    });
+  });
+
+  describe("lint", () => {
+    beforeEach(async () => {
+      await snippetManager.initialize();
+    });
+
+    it("should lint the library and apply safe fixes", async () => {
+      const messy = await snippetManager.createSnippet(
+        createTestSnippetData({ title: "Messy", code: "run();  \nstop();\t" })
+      );
+      await snippetManager.createSnippet(
+        createTestSnippetData({ title: "Other", prefix: "other" })
+      );
+
+      const report = await snippetManager.lintLibrary();
+      expect(report.success).toBe(true);
+      expect(report.data?.issues.map((issue) => issue.rule)).toEqual([
+        "trailingWhitespace",
+      ]);
+
+      const fixed = await snippetManager.fixLintIssues(undefined, {
+        source: "extension",
+      });
+      const snippet = await snippetManager.getSnippet(messy.data!.id);
+
+      expect(fixed.data).toBe(1);
+      expect(snippet.data?.code).toBe("run();\nstop();");
+      expect((await snippetManager.lintLibrary()).data?.issues).toEqual([]);
+    });
+
+    it("should only fix the given snippets", async () => {
+      await snippetManager.createSnippet(
+        createTestSnippetData({ code: "run(); " })
+      );
+
+      const fixed = await snippetManager.fixLintIssues(["another-id"]);
+
+      expect(fixed).toEqual({ success: true, data: 0 });
+    });
+  });
+
   describe("refresh", () => {
     beforeEach(async () => {
       await snippetManager.initialize();
@@ -1,7 +1,7 @@
 import {
   SnippetInterface,
   SnippetData,
-  SearchQueryInterface,
+  AdvancedSearchQuery,
   ImportData,
   ImportResult,
   ExportData,
@@ -10,23 +10,79 @@ import {
   ErrorType,
   ConflictResolution,
   StorageChange,
+  SnippetRevision,
+  RevisionDiff,
+  ChangeContext,
+  SavedSearch,
+  SavedSearchSummary,
+  SnippetCollection,
+  CategoryNode,
+  TagAliases,
+  UsageSource,
+  UsageReport,
+  UsageReportOptions,
+  LintOptions,
+  LintReport,
 } from "../../types";
+import * as path from "path";
 import { SnippetManager, UsageStatistics } from "./SnippetManager";
 import { StorageService } from "./StorageService";
-import { Snippet } from "../models/Snippet";
+import { SnippetHistoryService } from "./SnippetHistoryService";
+import { SavedSearchService } from "./SavedSearchService";
+import { CollectionService } from "./CollectionService";
+import { TagAliasService } from "./TagAliasService";
+import { UsageAnalyticsService } from "./UsageAnalyticsService";
+import { SearchIndex } from "./SearchIndex";
+import {
+  Snippet,
+  OptionalSnippetField,
+  optionalSnippetFields,
+} from "../models/Snippet";
 import { SearchQuery } from "../models/SearchQuery";
 import { createError, generateId } from "../utils";
+import { matchesFilters, resolveQuery } from "../query";
+import { collectLintFixes, lintLibrary } from "../lint";
+import { MAX_DESCRIPTION_LENGTH } from "../validation";
+import {
+  buildCategoryTree,
+  getAliasKey,
+  isInCategory,
+  normalizeCategory,
+  replaceTag,
+  resolveTag,
+  resolveTags,
+} from "../taxonomy";
 
 /**
  * Implementation of SnippetManager interface
  */
 export class SnippetManagerImpl implements SnippetManager {
   private snippets: Map<string, Snippet> = new Map();
+  // Snapshots of the saved snippets, so in-place edits are not indexed
+  // before they are persisted
+  private searchIndex = new SearchIndex();
   private storageService: StorageService;
+  private historyService: SnippetHistoryService | null;
+  private savedSearchService: SavedSearchService | null;
+  private collectionService: CollectionService | null;
+  private tagAliasService: TagAliasService | null;
+  private usageService: UsageAnalyticsService | null;
   private initialized = false;
 
-  constructor(storageService: StorageService) {
+  constructor(
+    storageService: StorageService,
+    historyService?: SnippetHistoryService,
+    savedSearchService?: SavedSearchService,
+    collectionService?: CollectionService,
+    tagAliasService?: TagAliasService,
+    usageService?: UsageAnalyticsService
+  ) {
     this.storageService = storageService;
+    this.historyService = historyService || null;
+    this.savedSearchService = savedSearchService || null;
+    this.collectionService = collectionService || null;
+    this.tagAliasService = tagAliasService || null;
+    this.usageService = usageService || null;
   }
 
   /**
@@ -49,6 +105,81 @@ export class SnippetManagerImpl implements SnippetManager {
         };
       }
 
+      // Load revision history
+      if (!this.historyService) {
+        this.historyService = new SnippetHistoryService({
+          filePath: this.getSidecarFilePath("history"),
+        });
+      }
+      const historyResult = await this.historyService.load();
+      if (!historyResult.success) {
+        // Log warning but don't fail initialization
+        console.warn(
+          "Failed to load snippet history:",
+          (historyResult as any).error.message
+        );
+      }
+
+      // Load saved searches
+      if (!this.savedSearchService) {
+        this.savedSearchService = new SavedSearchService({
+          filePath: this.getSidecarFilePath("searches"),
+        });
+      }
+      const searchesResult = await this.savedSearchService.load();
+      if (!searchesResult.success) {
+        // Log warning but don't fail initialization
+        console.warn(
+          "Failed to load saved searches:",
+          (searchesResult as any).error.message
+        );
+      }
+
+      // Load collections
+      if (!this.collectionService) {
+        this.collectionService = new CollectionService({
+          filePath: this.getSidecarFilePath("collections"),
+        });
+      }
+      const collectionsResult = await this.collectionService.load();
+      if (!collectionsResult.success) {
+        // Log warning but don't fail initialization
+        console.warn(
+          "Failed to load collections:",
+          (collectionsResult as any).error.message
+        );
+      }
+
+      // Load tag aliases
+      if (!this.tagAliasService) {
+        this.tagAliasService = new TagAliasService({
+          filePath: this.getSidecarFilePath("tags"),
+        });
+      }
+      const aliasesResult = await this.tagAliasService.load();
+      if (!aliasesResult.success) {
+        // Log warning but don't fail initialization
+        console.warn(
+          "Failed to load tag aliases:",
+          (aliasesResult as any).error.message
+        );
+      }
+
+      // Load usage analytics
+      if (!this.usageService) {
+        this.usageService = new UsageAnalyticsService({
+          filePath: this.getSidecarFilePath("usage"),
+        });
+      }
+      const usageResult = await this.usageService.load();
+      if (!usageResult.success) {
+        // Log warning but don't fail initialization
+        console.warn(
+          "Failed to load usage analytics:",
+          (usageResult as any).error.message
+        );
+      }
+
       // Set up file watching
       const watchResult = this.storageService.watchChanges(
         this.handleStorageChanges.bind(this)
@@ -80,7 +211,10 @@ export class SnippetManagerImpl implements SnippetManager {
   /**
    * Create a new snippet
    */
-  async createSnippet(data: SnippetData): Promise<Result<SnippetInterface>> {
+  async createSnippet(
+    data: SnippetData,
+    context: ChangeContext = {}
+  ): Promise<Result<SnippetInterface>> {
     if (!this.initialized) {
       return {
         success: false,
@@ -96,7 +230,7 @@ export class SnippetManagerImpl implements SnippetManager {
 
     try {
       // Create new snippet instance
-      const snippet = new Snippet(data);
+      const snippet = new Snippet(this.normalizeTaxonomy(data));
 
       // Check for duplicate titles
       const existingSnippet = Array.from(this.snippets.values()).find(
@@ -120,7 +254,7 @@ export class SnippetManagerImpl implements SnippetManager {
       this.snippets.set(snippet.id, snippet);
 
       // Save to storage
-      const saveResult = await this.saveSnippetsToStorage();
+      const saveResult = await this.saveSnippetToStorage(snippet);
       if (!saveResult.success) {
         // Rollback memory change
         this.snippets.delete(snippet.id);
@@ -130,6 +264,8 @@ export class SnippetManagerImpl implements SnippetManager {
         };
       }
 
+      await this.recordRevision(snippet, context);
+
       return { success: true, data: snippet.toJSON() };
     } catch (error) {
       return {
@@ -221,7 +357,20 @@ export class SnippetManagerImpl implements SnippetManager {
    */
   async updateSnippet(
     id: string,
-    updates: Partial<SnippetData>
+    updates: Partial<SnippetData>,
+    context: ChangeContext = {}
+  ): Promise<Result<SnippetInterface>> {
+    return this.applySnippetUpdate(id, updates, context);
+  }
+
+  /**
+   * Update an existing snippet, unsetting the fields listed in `clear`
+   */
+  private async applySnippetUpdate(
+    id: string,
+    updates: Partial<SnippetData>,
+    context: ChangeContext,
+    clear: OptionalSnippetField[] = []
   ): Promise<Result<SnippetInterface>> {
     if (!this.initialized) {
       return {
@@ -242,7 +391,7 @@ export class SnippetManagerImpl implements SnippetManager {
         return {
           success: false,
           error: createError(
-            ErrorType.validation,
+            ErrorType.notFound,
             "Snippet not found",
             { id },
             false,
@@ -271,8 +420,17 @@ export class SnippetManagerImpl implements SnippetManager {
         }
       }
 
+      // Snippets created before history tracking get their current state
+      // recorded as the base revision so the update can be rolled back
+      if (this.historyService && !this.historyService.hasHistory(id)) {
+        await this.recordRevision(snippet, {}, snippet.updatedAt);
+      }
+
       // Update the snippet
-      const updateResult = snippet.update(updates);
+      const updateResult = snippet.update(
+        this.normalizeTaxonomy(updates),
+        clear
+      );
       if (!updateResult.success) {
         return {
           success: false,
@@ -281,7 +439,7 @@ export class SnippetManagerImpl implements SnippetManager {
       }
 
       // Save to storage
-      const saveResult = await this.saveSnippetsToStorage();
+      const saveResult = await this.saveSnippetToStorage(snippet);
       if (!saveResult.success) {
         return {
           success: false,
@@ -289,6 +447,8 @@ export class SnippetManagerImpl implements SnippetManager {
         };
       }
 
+      await this.recordRevision(snippet, context);
+
       return { success: true, data: snippet.toJSON() };
     } catch (error) {
       return {
@@ -326,7 +486,7 @@ export class SnippetManagerImpl implements SnippetManager {
         return {
           success: false,
           error: createError(
-            ErrorType.validation,
+            ErrorType.notFound,
             "Snippet not found",
             { id },
             false,
@@ -339,7 +499,7 @@ export class SnippetManagerImpl implements SnippetManager {
       this.snippets.delete(id);
 
       // Save to storage
-      const saveResult = await this.saveSnippetsToStorage();
+      const saveResult = await this.deleteSnippetFromStorage(id);
       if (!saveResult.success) {
         // Rollback memory change
         this.snippets.set(id, snippet);
@@ -349,6 +509,16 @@ export class SnippetManagerImpl implements SnippetManager {
         };
       }
 
+      if (this.historyService) {
+        await this.historyService.removeHistory(id);
+      }
+      if (this.collectionService) {
+        await this.collectionService.replaceSnippet(id);
+      }
+      if (this.usageService) {
+        await this.usageService.replaceSnippet(id);
+      }
+
       return { success: true, data: true };
     } catch (error) {
       return {
@@ -366,7 +536,7 @@ export class SnippetManagerImpl implements SnippetManager {
    * Search snippets with query
    */
   async searchSnippets(
-    query: SearchQueryInterface
+    query: AdvancedSearchQuery
   ): Promise<Result<SnippetInterface[]>> {
     if (!this.initialized) {
       return {
@@ -382,14 +552,15 @@ export class SnippetManagerImpl implements SnippetManager {
     }
 
     try {
-      const searchQuery = new SearchQuery(query);
-      let results = Array.from(this.snippets.values());
+      const searchQuery = new SearchQuery({
+        ...query,
+        tags: query.tags && resolveTags(query.tags, this.getAliases()),
+      });
+      let results = await this.getSearchCandidates(searchQuery);
 
       // Apply filters
       if (searchQuery.text) {
-        results = results.filter((snippet) =>
-          snippet.matches(searchQuery.text!)
-        );
+        results = this.matchText(results, searchQuery.text);
       }
 
       if (searchQuery.language) {
@@ -410,6 +581,12 @@ export class SnippetManagerImpl implements SnippetManager {
         );
       }
 
+      if (searchQuery.source) {
+        results = results.filter((snippet) =>
+          snippet.hasSource(searchQuery.source!)
+        );
+      }
+
       if (searchQuery.dateRange) {
         results = results.filter((snippet) => {
           const createdAt = snippet.createdAt;
@@ -420,6 +597,10 @@ export class SnippetManagerImpl implements SnippetManager {
         });
       }
 
+      if (query.filters && query.filters.length > 0) {
+        results = results.filter((snippet) => matchesFilters(snippet, query));
+      }
+
       // Apply sorting
       if (searchQuery.sortBy) {
         results.sort((a, b) => {
@@ -458,10 +639,10 @@ export class SnippetManagerImpl implements SnippetManager {
   }
 
   /**
-   * Import snippets from data
+   * Get all saved searches with the number of snippets each matches
    */
-  async importSnippets(data: ImportData): Promise<Result<ImportResult>> {
-    if (!this.initialized) {
+  async getSavedSearches(): Promise<Result<SavedSearchSummary[]>> {
+    if (!this.initialized || !this.savedSearchService) {
       return {
         success: false,
         error: createError(
@@ -474,129 +655,49 @@ export class SnippetManagerImpl implements SnippetManager {
       };
     }
 
-    try {
-      const result: ImportResult = {
-        imported: 0,
-        skipped: 0,
-        errors: [],
-        conflicts: [],
-      };
-
-      for (const snippetData of data.snippets) {
-        try {
-          // Check for existing snippet with same title
-          const existingSnippet = Array.from(this.snippets.values()).find(
-            (s) => s.title === snippetData.title
-          );
-
-          if (existingSnippet) {
-            const conflict: ConflictResolution = {
-              existingSnippet: existingSnippet.toJSON(),
-              newSnippet: snippetData,
-              resolution: data.conflictResolution,
-            };
-
-            switch (data.conflictResolution) {
-              case "skip":
-                result.skipped++;
-                result.conflicts.push({ ...conflict, resolution: "skip" });
-                continue;
-
-              case "overwrite":
-                const updateResult = await this.updateSnippet(
-                  existingSnippet.id,
-                  snippetData
-                );
-                if (updateResult.success) {
-                  result.imported++;
-                  result.conflicts.push({
-                    ...conflict,
-                    resolution: "overwrite",
-                  });
-                } else {
-                  result.errors.push(
-                    `Failed to overwrite snippet "${snippetData.title}": ${
-                      (updateResult as any).error.message
-                    }`
-                  );
-                }
-                break;
-
-              case "rename":
-                let newTitle = snippetData.title;
-                let counter = 1;
-                while (
-                  Array.from(this.snippets.values()).some(
-                    (s) => s.title === newTitle
-                  )
-                ) {
-                  newTitle = `${snippetData.title} (${counter})`;
-                  counter++;
-                }
-
-                const createResult = await this.createSnippet({
-                  ...snippetData,
-                  title: newTitle,
-                });
+    const summaries: SavedSearchSummary[] = [];
+    for (const search of this.savedSearchService.getAll()) {
+      summaries.push(await this.summarize(search));
+    }
 
-                if (createResult.success) {
-                  result.imported++;
-                  result.conflicts.push({
-                    ...conflict,
-                    resolution: "rename",
-                    newName: newTitle,
-                  });
-                } else {
-                  result.errors.push(
-                    `Failed to create renamed snippet "${newTitle}": ${
-                      (createResult as any).error.message
-                    }`
-                  );
-                }
-                break;
-            }
-          } else {
-            // No conflict, create new snippet
-            const createResult = await this.createSnippet(snippetData);
-            if (createResult.success) {
-              result.imported++;
-            } else {
-              result.errors.push(
-                `Failed to create snippet "${snippetData.title}": ${
-                  (createResult as any).error.message
-                }`
-              );
-            }
-          }
-        } catch (error) {
-          result.errors.push(
-            `Error processing snippet "${snippetData.title}": ${
-              error instanceof Error ? error.message : error
-            }`
-          );
-        }
-      }
+    return { success: true, data: summaries };
+  }
 
-      return { success: true, data: result };
-    } catch (error) {
+  /**
+   * Save a search under a name, returning it with its current count
+   */
+  async saveSearch(
+    name: string,
+    query: AdvancedSearchQuery
+  ): Promise<Result<SavedSearchSummary>> {
+    if (!this.initialized || !this.savedSearchService) {
       return {
         success: false,
         error: createError(
           ErrorType.unknown,
-          "Failed to import snippets",
-          { error: error instanceof Error ? error.message : error },
+          "Snippet manager not initialized",
+          {},
           true,
-          "Check import data format and try again"
+          "Call initialize() before using the snippet manager"
         ),
       };
     }
+
+    const result = await this.savedSearchService.create(name, query);
+    if (!result.success) {
+      return result;
+    }
+    return { success: true, data: await this.summarize(result.data) };
   }
 
   /**
-   * Export snippets with optional filter
+   * Rename a saved search or change its query
    */
-  async exportSnippets(filter?: ExportFilter): Promise<Result<ExportData>> {
-    if (!this.initialized) {
+  async updateSavedSearch(
+    id: string,
+    updates: { name?: string; query?: AdvancedSearchQuery }
+  ): Promise<Result<SavedSearchSummary>> {
+    if (!this.initialized || !this.savedSearchService) {
       return {
         success: false,
         error: createError(
@@ -609,69 +710,38 @@ export class SnippetManagerImpl implements SnippetManager {
       };
     }
 
-    try {
-      let snippets = Array.from(this.snippets.values());
-
-      // Apply filters if provided
-      if (filter) {
-        if (filter.languages && filter.languages.length > 0) {
-          snippets = snippets.filter((snippet) =>
-            filter.languages!.includes(snippet.language)
-          );
-        }
-
-        if (filter.tags && filter.tags.length > 0) {
-          snippets = snippets.filter((snippet) =>
-            filter.tags!.some((tag) => snippet.tags.includes(tag))
-          );
-        }
-
-        if (filter.categories && filter.categories.length > 0) {
-          snippets = snippets.filter(
-            (snippet) =>
-              snippet.category && filter.categories!.includes(snippet.category)
-          );
-        }
-
-        if (filter.dateRange) {
-          snippets = snippets.filter((snippet) => {
-            const createdAt = snippet.createdAt;
-            return (
-              createdAt >= filter.dateRange!.start &&
-              createdAt <= filter.dateRange!.end
-            );
-          });
-        }
-      }
-
-      const exportData: ExportData = {
-        snippets: snippets.map((s) => s.toJSON()),
-        metadata: {
-          exportedAt: new Date(),
-          version: "1.0.0",
-          count: snippets.length,
-        },
-      };
+    const result = await this.savedSearchService.update(id, updates);
+    if (!result.success) {
+      return result;
+    }
+    return { success: true, data: await this.summarize(result.data) };
+  }
 
-      return { success: true, data: exportData };
-    } catch (error) {
+  /**
+   * Delete a saved search
+   */
+  async deleteSavedSearch(id: string): Promise<Result<void>> {
+    if (!this.initialized || !this.savedSearchService) {
       return {
         success: false,
         error: createError(
           ErrorType.unknown,
-          "Failed to export snippets",
-          { error: error instanceof Error ? error.message : error },
-          true
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
         ),
       };
     }
+
+    return this.savedSearchService.delete(id);
   }
 
   /**
-   * Increment usage count for a snippet
+   * Run a saved search and record its use
    */
-  async incrementUsage(id: string): Promise<Result<void>> {
-    if (!this.initialized) {
+  async runSavedSearch(id: string): Promise<Result<SnippetInterface[]>> {
+    if (!this.initialized || !this.savedSearchService) {
       return {
         success: false,
         error: createError(
@@ -684,25 +754,561 @@ export class SnippetManagerImpl implements SnippetManager {
       };
     }
 
-    try {
-      const snippet = this.snippets.get(id);
-      if (!snippet) {
-        return {
-          success: false,
-          error: createError(
-            ErrorType.validation,
-            "Snippet not found",
-            { id },
-            false,
-            "Check the snippet ID and ensure it exists"
-          ),
-        };
-      }
-
+    const search = this.savedSearchService.get(id);
+    if (!search) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.notFound,
+          "Saved search not found",
+          { id },
+          false,
+          "Check the saved search ID"
+        ),
+      };
+    }
+
+    const matches = await this.searchSaved(search);
+    if (matches.success) {
+      await this.savedSearchService.markUsed(id);
+    }
+    return matches;
+  }
+
+  /**
+   * Get all collections, sorted by name
+   */
+  async getCollections(): Promise<Result<SnippetCollection[]>> {
+    if (!this.initialized || !this.collectionService) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
+
+    return {
+      success: true,
+      data: this.collectionService
+        .getAll()
+        .map((collection) => this.withKnownSnippets(collection)),
+    };
+  }
+
+  /**
+   * Create an empty collection, optionally inside a top-level collection
+   */
+  async createCollection(
+    name: string,
+    options: { description?: string; parentId?: string } = {}
+  ): Promise<Result<SnippetCollection>> {
+    if (!this.initialized || !this.collectionService) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
+
+    return this.collectionService.create(name, options);
+  }
+
+  /**
+   * Rename, describe or move a collection
+   */
+  async updateCollection(
+    id: string,
+    updates: { name?: string; description?: string; parentId?: string | null }
+  ): Promise<Result<SnippetCollection>> {
+    if (!this.initialized || !this.collectionService) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
+
+    const result = await this.collectionService.update(id, updates);
+    if (!result.success) {
+      return result;
+    }
+    return { success: true, data: this.withKnownSnippets(result.data) };
+  }
+
+  /**
+   * Delete a collection and its subcollections, keeping their snippets
+   */
+  async deleteCollection(id: string): Promise<Result<void>> {
+    if (!this.initialized || !this.collectionService) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
+
+    return this.collectionService.delete(id);
+  }
+
+  /**
+   * Get the snippets of a collection in their manual order
+   */
+  async getCollectionSnippets(
+    id: string
+  ): Promise<Result<SnippetInterface[]>> {
+    if (!this.initialized || !this.collectionService) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
+
+    const collection = this.collectionService.get(id);
+    if (!collection) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.notFound,
+          "Collection not found",
+          { id },
+          false,
+          "Check the collection ID"
+        ),
+      };
+    }
+
+    return {
+      success: true,
+      data: this.withKnownSnippets(collection).snippetIds.map((snippetId) =>
+        this.snippets.get(snippetId)!.toJSON()
+      ),
+    };
+  }
+
+  /**
+   * Add snippets to a collection at a position, at the end by default
+   */
+  async addToCollection(
+    id: string,
+    snippetIds: string[],
+    index?: number
+  ): Promise<Result<SnippetCollection>> {
+    if (!this.initialized || !this.collectionService) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
+
+    const missing = snippetIds.filter(
+      (snippetId) => !this.snippets.has(snippetId)
+    );
+    if (missing.length > 0) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.notFound,
+          "Snippet not found",
+          { ids: missing },
+          false,
+          "Check the snippet IDs and ensure they exist"
+        ),
+      };
+    }
+
+    const result = await this.collectionService.addSnippets(
+      id,
+      snippetIds,
+      index
+    );
+    if (!result.success) {
+      return result;
+    }
+    return { success: true, data: this.withKnownSnippets(result.data) };
+  }
+
+  /**
+   * Remove snippets from a collection
+   */
+  async removeFromCollection(
+    id: string,
+    snippetIds: string[]
+  ): Promise<Result<SnippetCollection>> {
+    if (!this.initialized || !this.collectionService) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
+
+    const result = await this.collectionService.removeSnippets(id, snippetIds);
+    if (!result.success) {
+      return result;
+    }
+    return { success: true, data: this.withKnownSnippets(result.data) };
+  }
+
+  /**
+   * Put the snippets of a collection in a new order
+   */
+  async reorderCollection(
+    id: string,
+    snippetIds: string[]
+  ): Promise<Result<SnippetCollection>> {
+    if (!this.initialized || !this.collectionService) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
+
+    // Snippets deleted outside the manager are not shown, so keep them last
+    const stale =
+      this.collectionService
+        .get(id)
+        ?.snippetIds.filter((snippetId) => !this.snippets.has(snippetId)) ||
+      [];
+    const result = await this.collectionService.reorderSnippets(id, [
+      ...snippetIds,
+      ...stale,
+    ]);
+    if (!result.success) {
+      return result;
+    }
+    return { success: true, data: this.withKnownSnippets(result.data) };
+  }
+
+  /**
+   * Import snippets from data
+   */
+  async importSnippets(data: ImportData): Promise<Result<ImportResult>> {
+    if (!this.initialized) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
+
+    try {
+      const result: ImportResult = {
+        imported: 0,
+        skipped: 0,
+        errors: [],
+        conflicts: [],
+      };
+      // IDs of the imported snippets in this library, by exported ID
+      const importedIds = new Map<string, string>();
+
+      for (const snippetData of data.snippets) {
+        const sourceId = (snippetData as Partial<SnippetInterface>).id;
+        try {
+          // Check for existing snippet with same title
+          const existingSnippet = Array.from(this.snippets.values()).find(
+            (s) => s.title === snippetData.title
+          );
+
+          if (existingSnippet) {
+            const conflict: ConflictResolution = {
+              existingSnippet: existingSnippet.toJSON(),
+              newSnippet: snippetData,
+              resolution: data.conflictResolution,
+            };
+
+            switch (data.conflictResolution) {
+              case "skip":
+                result.skipped++;
+                result.conflicts.push({ ...conflict, resolution: "skip" });
+                if (sourceId) {
+                  importedIds.set(sourceId, existingSnippet.id);
+                }
+                continue;
+
+              case "overwrite":
+                const updateResult = await this.updateSnippet(
+                  existingSnippet.id,
+                  snippetData,
+                  { source: "import" }
+                );
+                if (updateResult.success) {
+                  result.imported++;
+                  if (sourceId) {
+                    importedIds.set(sourceId, existingSnippet.id);
+                  }
+                  result.conflicts.push({
+                    ...conflict,
+                    resolution: "overwrite",
+                  });
+                } else {
+                  result.errors.push(
+                    `Failed to overwrite snippet "${snippetData.title}": ${
+                      (updateResult as any).error.message
+                    }`
+                  );
+                }
+                break;
+
+              case "rename":
+                let newTitle = snippetData.title;
+                let counter = 1;
+                while (
+                  Array.from(this.snippets.values()).some(
+                    (s) => s.title === newTitle
+                  )
+                ) {
+                  newTitle = `${snippetData.title} (${counter})`;
+                  counter++;
+                }
+
+                const createResult = await this.createSnippet(
+                  {
+                    ...snippetData,
+                    title: newTitle,
+                  },
+                  { source: "import" }
+                );
+
+                if (createResult.success) {
+                  result.imported++;
+                  if (sourceId) {
+                    importedIds.set(sourceId, createResult.data.id);
+                  }
+                  result.conflicts.push({
+                    ...conflict,
+                    resolution: "rename",
+                    newName: newTitle,
+                  });
+                } else {
+                  result.errors.push(
+                    `Failed to create renamed snippet "${newTitle}": ${
+                      (createResult as any).error.message
+                    }`
+                  );
+                }
+                break;
+            }
+          } else {
+            // No conflict, create new snippet
+            const createResult = await this.createSnippet(snippetData, {
+              source: "import",
+            });
+            if (createResult.success) {
+              result.imported++;
+              if (sourceId) {
+                importedIds.set(sourceId, createResult.data.id);
+              }
+            } else {
+              result.errors.push(
+                `Failed to create snippet "${snippetData.title}": ${
+                  (createResult as any).error.message
+                }`
+              );
+            }
+          }
+        } catch (error) {
+          result.errors.push(
+            `Error processing snippet "${snippetData.title}": ${
+              error instanceof Error ? error.message : error
+            }`
+          );
+        }
+      }
+
+      if (data.collections && data.collections.length > 0) {
+        await this.importCollections(data.collections, importedIds, result);
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Failed to import snippets",
+          { error: error instanceof Error ? error.message : error },
+          true,
+          "Check import data format and try again"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Export snippets with optional filter
+   */
+  async exportSnippets(filter?: ExportFilter): Promise<Result<ExportData>> {
+    if (!this.initialized) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
+
+    try {
+      let snippets = Array.from(this.snippets.values());
+
+      // Apply filters if provided
+      if (filter) {
+        if (filter.languages && filter.languages.length > 0) {
+          snippets = snippets.filter((snippet) =>
+            filter.languages!.includes(snippet.language)
+          );
+        }
+
+        if (filter.tags && filter.tags.length > 0) {
+          snippets = snippets.filter((snippet) =>
+            filter.tags!.some((tag) => snippet.tags.includes(tag))
+          );
+        }
+
+        if (filter.categories && filter.categories.length > 0) {
+          snippets = snippets.filter(
+            (snippet) =>
+              snippet.category && filter.categories!.includes(snippet.category)
+          );
+        }
+
+        if (filter.collections && filter.collections.length > 0) {
+          const collected = this.getCollectedSnippetIds(filter.collections);
+          snippets = snippets.filter((snippet) => collected.has(snippet.id));
+        }
+
+        if (filter.dateRange) {
+          snippets = snippets.filter((snippet) => {
+            const createdAt = snippet.createdAt;
+            return (
+              createdAt >= filter.dateRange!.start &&
+              createdAt <= filter.dateRange!.end
+            );
+          });
+        }
+      }
+
+      const exportData: ExportData = {
+        snippets: snippets.map((s) => s.toJSON()),
+        metadata: {
+          exportedAt: new Date(),
+          version: "1.0.0",
+          count: snippets.length,
+        },
+      };
+
+      const collections = this.getExportCollections(
+        snippets.map((snippet) => snippet.id),
+        filter?.collections || []
+      );
+      if (collections.length > 0) {
+        exportData.collections = collections;
+      }
+
+      return { success: true, data: exportData };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Failed to export snippets",
+          { error: error instanceof Error ? error.message : error },
+          true
+        ),
+      };
+    }
+  }
+
+  /**
+   * Increment usage count for a snippet and record where it was used
+   */
+  async incrementUsage(
+    id: string,
+    source: UsageSource = "unknown"
+  ): Promise<Result<void>> {
+    if (!this.initialized) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
+
+    try {
+      const snippet = this.snippets.get(id);
+      if (!snippet) {
+        return {
+          success: false,
+          error: createError(
+            ErrorType.notFound,
+            "Snippet not found",
+            { id },
+            false,
+            "Check the snippet ID and ensure it exists"
+          ),
+        };
+      }
+
       snippet.incrementUsage();
 
       // Save to storage
-      const saveResult = await this.saveSnippetsToStorage();
+      const saveResult = await this.saveSnippetToStorage(snippet);
       if (!saveResult.success) {
         return {
           success: false,
@@ -710,6 +1316,17 @@ export class SnippetManagerImpl implements SnippetManager {
         };
       }
 
+      if (this.usageService) {
+        const usageResult = await this.usageService.record(id, source);
+        if (!usageResult.success) {
+          // The usage count is saved, only the analytics event is lost
+          console.warn(
+            "Failed to record usage event:",
+            usageResult.error.message
+          );
+        }
+      }
+
       return { success: true, data: undefined };
     } catch (error) {
       return {
@@ -854,14 +1471,135 @@ export class SnippetManagerImpl implements SnippetManager {
         }
       }
 
-      return { success: true, data: true };
+      return { success: true, data: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.validation,
+          "Failed to validate snippet",
+          { snippet, error: error instanceof Error ? error.message : error },
+          true
+        ),
+      };
+    }
+  }
+
+  /**
+   * Get usage statistics
+   */
+  async getUsageStats(): Promise<
+    Result<{
+      totalSnippets: number;
+      totalUsage: number;
+      topUsed: SnippetInterface[];
+    }>
+  > {
+    if (!this.initialized) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
+
+    try {
+      const snippets = Array.from(this.snippets.values());
+      const totalSnippets = snippets.length;
+      const totalUsage = snippets.reduce((sum, s) => sum + s.usageCount, 0);
+      const averageUsage = totalSnippets > 0 ? totalUsage / totalSnippets : 0;
+
+      // Most used snippets (top 10)
+      const mostUsedSnippets = snippets
+        .map((snippet) => ({
+          snippet: snippet.toJSON(),
+          usageCount: snippet.usageCount,
+        }))
+        .sort((a, b) => b.usageCount - a.usageCount)
+        .slice(0, 10);
+
+      // Language distribution
+      const languageCounts = new Map<string, number>();
+      snippets.forEach((snippet) => {
+        const count = languageCounts.get(snippet.language) || 0;
+        languageCounts.set(snippet.language, count + 1);
+      });
+
+      const languageDistribution = Array.from(languageCounts.entries())
+        .map(([language, count]) => ({
+          language,
+          count,
+          percentage: totalSnippets > 0 ? (count / totalSnippets) * 100 : 0,
+        }))
+        .sort((a, b) => b.count - a.count);
+
+      // Tag distribution
+      const tagCounts = new Map<string, number>();
+      snippets.forEach((snippet) => {
+        snippet.tags.forEach((tag) => {
+          const count = tagCounts.get(tag) || 0;
+          tagCounts.set(tag, count + 1);
+        });
+      });
+
+      const tagDistribution = Array.from(tagCounts.entries())
+        .map(([tag, count]) => ({
+          tag,
+          count,
+          percentage: totalSnippets > 0 ? (count / totalSnippets) * 100 : 0,
+        }))
+        .sort((a, b) => b.count - a.count);
+
+      // Category distribution
+      const categoryCounts = new Map<string, number>();
+      snippets.forEach((snippet) => {
+        if (snippet.category) {
+          const count = categoryCounts.get(snippet.category) || 0;
+          categoryCounts.set(snippet.category, count + 1);
+        }
+      });
+
+      const categoryDistribution = Array.from(categoryCounts.entries())
+        .map(([category, count]) => ({
+          category,
+          count,
+          percentage: totalSnippets > 0 ? (count / totalSnippets) * 100 : 0,
+        }))
+        .sort((a, b) => b.count - a.count);
+
+      // Recently created (last 10)
+      const recentlyCreated = snippets
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(0, 10)
+        .map((s) => s.toJSON());
+
+      // Recently updated (last 10)
+      const recentlyUpdated = snippets
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+        .slice(0, 10)
+        .map((s) => s.toJSON());
+
+      const topUsed = mostUsedSnippets.map((item) => item.snippet);
+
+      const statistics = {
+        totalSnippets,
+        totalUsage,
+        topUsed,
+      };
+
+      return { success: true, data: statistics };
     } catch (error) {
       return {
         success: false,
         error: createError(
-          ErrorType.validation,
-          "Failed to validate snippet",
-          { snippet, error: error instanceof Error ? error.message : error },
+          ErrorType.unknown,
+          "Failed to get usage statistics",
+          { error: error instanceof Error ? error.message : error },
           true
         ),
       };
@@ -869,15 +1607,9 @@ export class SnippetManagerImpl implements SnippetManager {
   }
 
   /**
-   * Get usage statistics
+   * Get usage statistics (full version)
    */
-  async getUsageStats(): Promise<
-    Result<{
-      totalSnippets: number;
-      totalUsage: number;
-      topUsed: SnippetInterface[];
-    }>
-  > {
+  async getUsageStatistics(): Promise<Result<UsageStatistics>> {
     if (!this.initialized) {
       return {
         success: false,
@@ -967,21 +1699,286 @@ export class SnippetManagerImpl implements SnippetManager {
         .slice(0, 10)
         .map((s) => s.toJSON());
 
-      const topUsed = mostUsedSnippets.map((item) => item.snippet);
+      const statistics: UsageStatistics = {
+        totalSnippets,
+        totalUsage,
+        averageUsage,
+        mostUsedSnippets,
+        languageDistribution,
+        tagDistribution,
+        categoryDistribution,
+        recentlyCreated,
+        recentlyUpdated,
+      };
+
+      return { success: true, data: statistics };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Failed to get usage statistics",
+          { error: error instanceof Error ? error.message : error },
+          true
+        ),
+      };
+    }
+  }
+
+  /**
+   * Report how snippets were used over the last days
+   */
+  async getUsageReport(
+    options: UsageReportOptions = {}
+  ): Promise<Result<UsageReport>> {
+    if (!this.initialized || !this.usageService) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
+
+    try {
+      const snippets = Array.from(this.snippets.values()).map((snippet) =>
+        snippet.toJSON()
+      );
+      return {
+        success: true,
+        data: this.usageService.getReport(snippets, options),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Failed to get usage report",
+          { error: error instanceof Error ? error.message : error },
+          true
+        ),
+      };
+    }
+  } /**
+   *
+ Get snippets by language
+   */
+  async getSnippetsByLanguage(
+    language: string
+  ): Promise<Result<SnippetInterface[]>> {
+    if (!this.initialized) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
+
+    try {
+      const snippets = Array.from(this.snippets.values())
+        .filter((snippet) => snippet.hasLanguage(language))
+        .map((s) => s.toJSON());
+
+      return { success: true, data: snippets };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Failed to get snippets by language",
+          { language, error: error instanceof Error ? error.message : error },
+          true
+        ),
+      };
+    }
+  }
+
+  /**
+   * Get snippets by tags
+   */
+  async getSnippetsByTags(tags: string[]): Promise<Result<SnippetInterface[]>> {
+    if (!this.initialized) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
+
+    try {
+      const resolved = resolveTags(tags, this.getAliases());
+      const snippets = Array.from(this.snippets.values())
+        .filter((snippet) => snippet.hasTags(resolved))
+        .map((s) => s.toJSON());
+
+      return { success: true, data: snippets };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Failed to get snippets by tags",
+          { tags, error: error instanceof Error ? error.message : error },
+          true
+        ),
+      };
+    }
+  }
+
+  /**
+   * Get snippets by category
+   */
+  async getSnippetsByCategory(
+    category: string
+  ): Promise<Result<SnippetInterface[]>> {
+    if (!this.initialized) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
+
+    try {
+      const snippets = Array.from(this.snippets.values())
+        .filter((snippet) => snippet.hasCategory(category))
+        .map((s) => s.toJSON());
+
+      return { success: true, data: snippets };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Failed to get snippets by category",
+          { category, error: error instanceof Error ? error.message : error },
+          true
+        ),
+      };
+    }
+  }
+
+  /**
+   * Get all unique languages
+   */
+  async getLanguages(): Promise<Result<string[]>> {
+    if (!this.initialized) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
+
+    try {
+      const languages = Array.from(
+        new Set(Array.from(this.snippets.values()).map((s) => s.language))
+      ).sort();
+
+      return { success: true, data: languages };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Failed to get languages",
+          { error: error instanceof Error ? error.message : error },
+          true
+        ),
+      };
+    }
+  }
+
+  /**
+   * Get all unique tags
+   */
+  async getTags(): Promise<Result<string[]>> {
+    if (!this.initialized) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
+
+    try {
+      const allTags = Array.from(this.snippets.values()).flatMap((s) => s.tags);
+      const uniqueTags = Array.from(new Set(allTags)).sort();
+
+      return { success: true, data: uniqueTags };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Failed to get tags",
+          { error: error instanceof Error ? error.message : error },
+          true
+        ),
+      };
+    }
+  }
 
-      const statistics = {
-        totalSnippets,
-        totalUsage,
-        topUsed,
+  /**
+   * Get all unique categories
+   */
+  async getCategories(): Promise<Result<string[]>> {
+    if (!this.initialized) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
       };
+    }
 
-      return { success: true, data: statistics };
+    try {
+      const categories = Array.from(this.snippets.values())
+        .map((s) => s.category)
+        .filter((category): category is string => category !== undefined);
+
+      const uniqueCategories = Array.from(new Set(categories)).sort();
+
+      return { success: true, data: uniqueCategories };
     } catch (error) {
       return {
         success: false,
         error: createError(
           ErrorType.unknown,
-          "Failed to get usage statistics",
+          "Failed to get categories",
           { error: error instanceof Error ? error.message : error },
           true
         ),
@@ -990,9 +1987,9 @@ export class SnippetManagerImpl implements SnippetManager {
   }
 
   /**
-   * Get usage statistics (full version)
+   * Get the category tree with the number of snippets under every node
    */
-  async getUsageStatistics(): Promise<Result<UsageStatistics>> {
+  async getCategoryTree(): Promise<Result<CategoryNode[]>> {
     if (!this.initialized) {
       return {
         success: false,
@@ -1006,113 +2003,194 @@ export class SnippetManagerImpl implements SnippetManager {
       };
     }
 
-    try {
-      const snippets = Array.from(this.snippets.values());
-      const totalSnippets = snippets.length;
-      const totalUsage = snippets.reduce((sum, s) => sum + s.usageCount, 0);
-      const averageUsage = totalSnippets > 0 ? totalUsage / totalSnippets : 0;
+    return {
+      success: true,
+      data: buildCategoryTree(Array.from(this.snippets.values())),
+    };
+  }
 
-      // Most used snippets (top 10)
-      const mostUsedSnippets = snippets
-        .map((snippet) => ({
-          snippet: snippet.toJSON(),
-          usageCount: snippet.usageCount,
-        }))
-        .sort((a, b) => b.usageCount - a.usageCount)
-        .slice(0, 10);
+  /**
+   * Get the tag aliases of the library
+   */
+  async getTagAliases(): Promise<Result<TagAliases>> {
+    if (!this.initialized) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
 
-      // Language distribution
-      const languageCounts = new Map<string, number>();
-      snippets.forEach((snippet) => {
-        const count = languageCounts.get(snippet.language) || 0;
-        languageCounts.set(snippet.language, count + 1);
-      });
+    return { success: true, data: this.getAliases() };
+  }
 
-      const languageDistribution = Array.from(languageCounts.entries())
-        .map(([language, count]) => ({
-          language,
-          count,
-          percentage: totalSnippets > 0 ? (count / totalSnippets) * 100 : 0,
-        }))
-        .sort((a, b) => b.count - a.count);
+  /**
+   * Make a tag an alias of another tag. Snippets tagged with the alias are
+   * retagged, and the alias is resolved in new snippets and searches.
+   */
+  async setTagAlias(
+    alias: string,
+    tag: string,
+    context: ChangeContext = {}
+  ): Promise<Result<TagAliases>> {
+    if (!this.initialized || !this.tagAliasService) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
 
-      // Tag distribution
-      const tagCounts = new Map<string, number>();
-      snippets.forEach((snippet) => {
-        snippet.tags.forEach((tag) => {
-          const count = tagCounts.get(tag) || 0;
-          tagCounts.set(tag, count + 1);
-        });
-      });
+    const previous = this.tagAliasService.getAll();
+    const result = await this.tagAliasService.set(alias, tag);
+    if (!result.success) {
+      return result;
+    }
 
-      const tagDistribution = Array.from(tagCounts.entries())
-        .map(([tag, count]) => ({
-          tag,
-          count,
-          percentage: totalSnippets > 0 ? (count / totalSnippets) * 100 : 0,
-        }))
-        .sort((a, b) => b.count - a.count);
+    const key = getAliasKey(alias);
+    const target = result.data[key];
+    const rewriteResult = await this.rewriteTags(
+      (tags) =>
+        Array.from(
+          new Set(
+            tags.map((existing) =>
+              getAliasKey(existing) === key ? target : existing
+            )
+          )
+        ),
+      context
+    );
+    if (!rewriteResult.success) {
+      // Keep aliases and snippets consistent
+      await this.tagAliasService.restore(previous);
+      return rewriteResult;
+    }
 
-      // Category distribution
-      const categoryCounts = new Map<string, number>();
-      snippets.forEach((snippet) => {
-        if (snippet.category) {
-          const count = categoryCounts.get(snippet.category) || 0;
-          categoryCounts.set(snippet.category, count + 1);
-        }
-      });
+    return result;
+  }
 
-      const categoryDistribution = Array.from(categoryCounts.entries())
-        .map(([category, count]) => ({
-          category,
-          count,
-          percentage: totalSnippets > 0 ? (count / totalSnippets) * 100 : 0,
-        }))
-        .sort((a, b) => b.count - a.count);
+  /**
+   * Remove a tag alias. Snippets are left unchanged.
+   */
+  async removeTagAlias(alias: string): Promise<Result<TagAliases>> {
+    if (!this.initialized || !this.tagAliasService) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
 
-      // Recently created (last 10)
-      const recentlyCreated = snippets
-        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
-        .slice(0, 10)
-        .map((s) => s.toJSON());
+    return this.tagAliasService.remove(alias);
+  }
 
-      // Recently updated (last 10)
-      const recentlyUpdated = snippets
-        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
-        .slice(0, 10)
-        .map((s) => s.toJSON());
+  /**
+   * Rename a tag in every snippet, merging it into the new tag where a
+   * snippet has both. All snippets are saved at once, so either every
+   * snippet is retagged or none is. Resolves to the number of snippets
+   * changed.
+   */
+  async renameTag(
+    from: string,
+    to: string,
+    options: { keepAlias?: boolean } = {},
+    context: ChangeContext = {}
+  ): Promise<Result<number>> {
+    if (!this.initialized || !this.tagAliasService) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.unknown,
+          "Snippet manager not initialized",
+          {},
+          true,
+          "Call initialize() before using the snippet manager"
+        ),
+      };
+    }
 
-      const statistics: UsageStatistics = {
-        totalSnippets,
-        totalUsage,
-        averageUsage,
-        mostUsedSnippets,
-        languageDistribution,
-        tagDistribution,
-        categoryDistribution,
-        recentlyCreated,
-        recentlyUpdated,
+    const target = resolveTag((to || "").trim(), this.getAliases());
+    if (!target) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.validation,
+          "New tag name is required",
+          { from, to },
+          true,
+          "Give the tag a new name"
+        ),
       };
+    }
 
-      return { success: true, data: statistics };
-    } catch (error) {
+    const tagged = Array.from(this.snippets.values()).some((snippet) =>
+      snippet.tags.includes(from)
+    );
+    if (!tagged) {
       return {
         success: false,
         error: createError(
-          ErrorType.unknown,
-          "Failed to get usage statistics",
-          { error: error instanceof Error ? error.message : error },
-          true
+          ErrorType.notFound,
+          "Tag not found",
+          { tag: from },
+          false,
+          "Check the tag name"
         ),
       };
     }
-  } /**
-   *
- Get snippets by language
+    if (target === from) {
+      return { success: true, data: 0 };
+    }
+
+    const rewriteResult = await this.rewriteTags(
+      (tags) => replaceTag(tags, from, target),
+      context
+    );
+    if (!rewriteResult.success) {
+      return rewriteResult;
+    }
+
+    const aliasResult = await this.tagAliasService.renameTag(
+      from,
+      target,
+      options.keepAlias
+    );
+    if (!aliasResult.success) {
+      // The snippets are renamed already, so stale aliases are only logged
+      console.warn(
+        "Failed to update tag aliases:",
+        (aliasResult as any).error.message
+      );
+    }
+
+    return rewriteResult;
+  }
+
+  /**
+   * Move a category and its subcategories under a new path in every
+   * snippet at once, so renaming "web" to "frontend" turns "web/ui" into
+   * "frontend/ui". Resolves to the number of snippets changed.
    */
-  async getSnippetsByLanguage(
-    language: string
-  ): Promise<Result<SnippetInterface[]>> {
+  async renameCategory(
+    from: string,
+    to: string,
+    context: ChangeContext = {}
+  ): Promise<Result<number>> {
     if (!this.initialized) {
       return {
         success: false,
@@ -1126,29 +2204,53 @@ export class SnippetManagerImpl implements SnippetManager {
       };
     }
 
-    try {
-      const snippets = Array.from(this.snippets.values())
-        .filter((snippet) => snippet.hasLanguage(language))
-        .map((s) => s.toJSON());
+    const source = normalizeCategory(from || "");
+    const target = normalizeCategory(to || "");
+    if (!target) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.validation,
+          "New category name is required",
+          { from, to },
+          true,
+          "Give the category a new name"
+        ),
+      };
+    }
 
-      return { success: true, data: snippets };
-    } catch (error) {
+    const categorized = Array.from(this.snippets.values()).some((snippet) =>
+      isInCategory(snippet.category, source)
+    );
+    if (!source || !categorized) {
       return {
         success: false,
         error: createError(
-          ErrorType.unknown,
-          "Failed to get snippets by language",
-          { language, error: error instanceof Error ? error.message : error },
-          true
+          ErrorType.notFound,
+          "Category not found",
+          { category: from },
+          false,
+          "Check the category name"
         ),
       };
     }
+
+    return this.rewriteSnippets((snippet) => {
+      if (!isInCategory(snippet.category, source)) {
+        return null;
+      }
+      const rest = normalizeCategory(snippet.category!).slice(source.length);
+      const category = target + rest;
+      return category === snippet.category ? null : { category };
+    }, context);
   }
 
   /**
-   * Get snippets by tags
+   * Lint the whole library, checking tag aliases of the library as well
    */
-  async getSnippetsByTags(tags: string[]): Promise<Result<SnippetInterface[]>> {
+  async lintLibrary(
+    options: Partial<LintOptions> = {}
+  ): Promise<Result<LintReport>> {
     if (!this.initialized) {
       return {
         success: false,
@@ -1163,18 +2265,23 @@ export class SnippetManagerImpl implements SnippetManager {
     }
 
     try {
-      const snippets = Array.from(this.snippets.values())
-        .filter((snippet) => snippet.hasTags(tags))
-        .map((s) => s.toJSON());
-
-      return { success: true, data: snippets };
+      const snippets = Array.from(this.snippets.values()).map((snippet) =>
+        snippet.toJSON()
+      );
+      return {
+        success: true,
+        data: lintLibrary(snippets, {
+          tagAliases: this.getAliases(),
+          ...options,
+        }),
+      };
     } catch (error) {
       return {
         success: false,
         error: createError(
           ErrorType.unknown,
-          "Failed to get snippets by tags",
-          { tags, error: error instanceof Error ? error.message : error },
+          "Failed to lint library",
+          { error: error instanceof Error ? error.message : error },
           true
         ),
       };
@@ -1182,12 +2289,39 @@ export class SnippetManagerImpl implements SnippetManager {
   }
 
   /**
-   * Get snippets by category
+   * Apply the safe fixes of lint issues, one update per snippet
    */
-  async getSnippetsByCategory(
-    category: string
-  ): Promise<Result<SnippetInterface[]>> {
-    if (!this.initialized) {
+  async fixLintIssues(
+    snippetIds?: string[],
+    context: ChangeContext = {}
+  ): Promise<Result<number>> {
+    const lintResult = await this.lintLibrary();
+    if (!lintResult.success) {
+      return lintResult;
+    }
+
+    let fixed = 0;
+    for (const [id, changes] of Array.from(
+      collectLintFixes(lintResult.data.issues)
+    )) {
+      if (snippetIds && !snippetIds.includes(id)) {
+        continue;
+      }
+      const updateResult = await this.updateSnippet(id, changes, context);
+      if (!updateResult.success) {
+        return updateResult;
+      }
+      fixed++;
+    }
+
+    return { success: true, data: fixed };
+  }
+
+  /**
+   * Get the revision history of a snippet, newest first
+   */
+  async getSnippetHistory(id: string): Promise<Result<SnippetRevision[]>> {
+    if (!this.initialized || !this.historyService) {
       return {
         success: false,
         error: createError(
@@ -1200,29 +2334,93 @@ export class SnippetManagerImpl implements SnippetManager {
       };
     }
 
-    try {
-      const snippets = Array.from(this.snippets.values())
-        .filter((snippet) => snippet.hasCategory(category))
-        .map((s) => s.toJSON());
+    const snippet = this.snippets.get(id);
+    if (!snippet) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.notFound,
+          "Snippet not found",
+          { id },
+          false,
+          "Check the snippet ID and ensure it exists"
+        ),
+      };
+    }
+
+    return { success: true, data: this.historyService.getHistory(id) };
+  }
+
+  /**
+   * Get a line diff between two revisions of a snippet
+   */
+  async diffSnippetRevisions(
+    id: string,
+    fromRevision: number,
+    toRevision: number
+  ): Promise<Result<RevisionDiff>> {
+    const historyResult = await this.getSnippetHistory(id);
+    if (!historyResult.success) {
+      return historyResult;
+    }
+
+    return this.historyService!.diffRevisions(id, fromRevision, toRevision);
+  }
 
-      return { success: true, data: snippets };
-    } catch (error) {
+  /**
+   * Roll a snippet back to a previous revision. The rollback itself is
+   * recorded as a new revision, so it can be undone as well.
+   */
+  async rollbackSnippet(
+    id: string,
+    revision: number,
+    context: ChangeContext = {}
+  ): Promise<Result<SnippetInterface>> {
+    const historyResult = await this.getSnippetHistory(id);
+    if (!historyResult.success) {
+      return historyResult;
+    }
+
+    const target = this.historyService!.getRevision(id, revision);
+    if (!target) {
       return {
         success: false,
         error: createError(
-          ErrorType.unknown,
-          "Failed to get snippets by category",
-          { category, error: error instanceof Error ? error.message : error },
-          true
+          ErrorType.notFound,
+          "Revision not found",
+          { id, revision },
+          false,
+          "Check the revision number against the snippet history"
         ),
       };
     }
+
+    // Fields the revision did not have are unset rather than kept
+    const snapshot = target.snapshot;
+    const clear = optionalSnippetFields.filter(
+      (field) => snapshot[field] === undefined
+    );
+
+    return this.applySnippetUpdate(
+      id,
+      { ...snapshot },
+      { ...context, source: "rollback" },
+      clear
+    );
   }
 
   /**
-   * Get all unique languages
+   * Merge duplicate snippets into a target snippet. The target keeps its
+   * code and title, gains the tags of every source, the sum of their usage
+   * counts and their distinct descriptions (as many as fit the description
+   * limit), and takes the first category when it has none. The sources are deleted in the same write, so either
+   * the whole merge is stored or nothing changes.
    */
-  async getLanguages(): Promise<Result<string[]>> {
+  async mergeSnippets(
+    targetId: string,
+    sourceIds: string[],
+    context: ChangeContext = {}
+  ): Promise<Result<SnippetInterface>> {
     if (!this.initialized) {
       return {
         success: false,
@@ -1236,54 +2434,118 @@ export class SnippetManagerImpl implements SnippetManager {
       };
     }
 
-    try {
-      const languages = Array.from(
-        new Set(Array.from(this.snippets.values()).map((s) => s.language))
-      ).sort();
-
-      return { success: true, data: languages };
-    } catch (error) {
+    const target = this.snippets.get(targetId);
+    const ids = Array.from(new Set(sourceIds));
+    const missing = [targetId, ...ids].filter((id) => !this.snippets.has(id));
+    if (!target || missing.length > 0) {
       return {
         success: false,
         error: createError(
-          ErrorType.unknown,
-          "Failed to get languages",
-          { error: error instanceof Error ? error.message : error },
-          true
+          ErrorType.notFound,
+          "Snippet not found",
+          { ids: missing },
+          false,
+          "Check the snippet IDs and ensure they exist"
         ),
       };
     }
-  }
-
-  /**
-   * Get all unique tags
-   */
-  async getTags(): Promise<Result<string[]>> {
-    if (!this.initialized) {
+    if (ids.length === 0 || ids.includes(targetId)) {
       return {
         success: false,
         error: createError(
-          ErrorType.unknown,
-          "Snippet manager not initialized",
-          {},
+          ErrorType.validation,
+          "Select other snippets to merge into the target",
+          { targetId, sourceIds },
           true,
-          "Call initialize() before using the snippet manager"
+          "Pick at least one snippet other than the target"
         ),
       };
     }
 
     try {
-      const allTags = Array.from(this.snippets.values()).flatMap((s) => s.tags);
-      const uniqueTags = Array.from(new Set(allTags)).sort();
+      const sources = ids.map((id) => this.snippets.get(id)!);
+      const merged = [target, ...sources];
+      const descriptions: string[] = [];
+      for (const snippet of merged) {
+        const description = (snippet.description || "").trim();
+        const length = [...descriptions, description].join("\n\n").length;
+        if (
+          description &&
+          !descriptions.includes(description) &&
+          length <= MAX_DESCRIPTION_LENGTH
+        ) {
+          descriptions.push(description);
+        }
+      }
 
-      return { success: true, data: uniqueTags };
+      if (this.historyService && !this.historyService.hasHistory(targetId)) {
+        await this.recordRevision(target, {}, target.updatedAt);
+      }
+
+      const previous = target.toJSON();
+      const updateResult = target.update({
+        tags: Array.from(new Set(merged.flatMap((snippet) => snippet.tags))),
+        description: descriptions.join("\n\n"),
+        category:
+          target.category ||
+          sources.find((snippet) => snippet.category)?.category,
+      });
+      if (!updateResult.success) {
+        return {
+          success: false,
+          error: (updateResult as any).error,
+        };
+      }
+      target.usageCount = merged.reduce(
+        (total, snippet) => total + snippet.usageCount,
+        0
+      );
+
+      // Save the target and drop the sources in a single write, so a failure
+      // cannot leave the library half merged
+      const previousSnippets = this.snippets;
+      this.snippets = new Map(previousSnippets);
+      for (const id of ids) {
+        this.snippets.delete(id);
+      }
+      const saveResult = await this.saveSnippetsToStorage();
+      if (!saveResult.success) {
+        // Rollback memory change
+        this.snippets = previousSnippets;
+        Object.assign(target, previous);
+        return {
+          success: false,
+          error: (saveResult as any).error,
+        };
+      }
+      await this.recordRevision(target, { ...context, source: "merge" });
+
+      for (const id of ids) {
+        // The merged snippet takes the place of its sources in collections
+        // and keeps their usage
+        if (this.historyService) {
+          await this.historyService.removeHistory(id);
+        }
+        if (this.collectionService) {
+          await this.collectionService.replaceSnippet(id, targetId);
+        }
+        if (this.usageService) {
+          await this.usageService.replaceSnippet(id, targetId);
+        }
+      }
+
+      return { success: true, data: target.toJSON() };
     } catch (error) {
       return {
         success: false,
         error: createError(
           ErrorType.unknown,
-          "Failed to get tags",
-          { error: error instanceof Error ? error.message : error },
+          "Failed to merge snippets",
+          {
+            targetId,
+            sourceIds,
+            error: error instanceof Error ? error.message : error,
+          },
           true
         ),
       };
@@ -1291,9 +2553,13 @@ export class SnippetManagerImpl implements SnippetManager {
   }
 
   /**
-   * Get all unique categories
+   * Replace the whole library with synchronized snippets, keeping their IDs.
+   * Snippets that are new or changed get a revision recorded.
    */
-  async getCategories(): Promise<Result<string[]>> {
+  async replaceSnippets(
+    snippets: SnippetInterface[],
+    context: ChangeContext = {}
+  ): Promise<Result<void>> {
     if (!this.initialized) {
       return {
         success: false,
@@ -1307,20 +2573,40 @@ export class SnippetManagerImpl implements SnippetManager {
       };
     }
 
+    const previous = this.snippets;
     try {
-      const categories = Array.from(this.snippets.values())
-        .map((s) => s.category)
-        .filter((category): category is string => category !== undefined);
+      const replaced = new Map<string, Snippet>();
+      for (const snippetData of snippets) {
+        replaced.set(snippetData.id, Snippet.fromExisting({ ...snippetData }));
+      }
 
-      const uniqueCategories = Array.from(new Set(categories)).sort();
+      this.snippets = replaced;
+      const saveResult = await this.saveSnippetsToStorage();
+      if (!saveResult.success) {
+        // Rollback memory change
+        this.snippets = previous;
+        return saveResult;
+      }
 
-      return { success: true, data: uniqueCategories };
+      for (const snippet of Array.from(replaced.values())) {
+        const before = previous.get(snippet.id);
+        if (
+          !before ||
+          JSON.stringify(before.toSnippetData()) !==
+            JSON.stringify(snippet.toSnippetData())
+        ) {
+          await this.recordRevision(snippet, context);
+        }
+      }
+
+      return { success: true, data: undefined };
     } catch (error) {
+      this.snippets = previous;
       return {
         success: false,
         error: createError(
           ErrorType.unknown,
-          "Failed to get categories",
+          "Failed to replace snippets",
           { error: error instanceof Error ? error.message : error },
           true
         ),
@@ -1371,6 +2657,21 @@ export class SnippetManagerImpl implements SnippetManager {
   dispose(): void {
     this.storageService.stopWatching();
     this.storageService.dispose();
+    if (this.historyService) {
+      this.historyService.dispose();
+    }
+    if (this.savedSearchService) {
+      this.savedSearchService.dispose();
+    }
+    if (this.collectionService) {
+      this.collectionService.dispose();
+    }
+    if (this.tagAliasService) {
+      this.tagAliasService.dispose();
+    }
+    if (this.usageService) {
+      this.usageService.dispose();
+    }
     this.snippets.clear();
     this.initialized = false;
   }
@@ -1394,10 +2695,12 @@ export class SnippetManagerImpl implements SnippetManager {
       this.snippets.clear();
 
       // Convert to Snippet instances and add to memory
+      const loaded: SnippetInterface[] = [];
       for (const snippetData of loadResult.data) {
         try {
           const snippet = Snippet.fromExisting(snippetData);
           this.snippets.set(snippet.id, snippet);
+          loaded.push(snippet.toJSON());
         } catch (error) {
           console.warn(
             `Failed to load snippet ${snippetData.id}:`,
@@ -1405,6 +2708,7 @@ export class SnippetManagerImpl implements SnippetManager {
           );
         }
       }
+      this.searchIndex.sync(loaded);
 
       return { success: true, data: undefined };
     } catch (error) {
@@ -1435,6 +2739,7 @@ export class SnippetManagerImpl implements SnippetManager {
         return saveResult;
       }
 
+      this.searchIndex.sync(snippets);
       return { success: true, data: undefined };
     } catch (error) {
       return {
@@ -1450,10 +2755,435 @@ export class SnippetManagerImpl implements SnippetManager {
     }
   }
 
+  /**
+   * Save a single snippet, falling back to rewriting all snippets when the
+   * storage cannot save snippets individually
+   */
+  private async saveSnippetToStorage(snippet: Snippet): Promise<Result<void>> {
+    try {
+      const data = snippet.toJSON();
+      const saveResult = this.storageService.saveSnippet
+        ? await this.storageService.saveSnippet(data)
+        : await this.saveSnippetsToStorage();
+      if (saveResult.success) {
+        // Reindex even if the update time is unchanged, as edits within
+        // one millisecond share it
+        this.searchIndex.add(data);
+      }
+      return saveResult;
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to save snippet to storage",
+          {
+            id: snippet.id,
+            error: error instanceof Error ? error.message : error,
+          },
+          true,
+          "Check storage configuration and permissions"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Delete a single snippet from storage, falling back to rewriting the
+   * remaining snippets when the storage cannot delete individually
+   */
+  private async deleteSnippetFromStorage(id: string): Promise<Result<void>> {
+    if (!this.storageService.deleteSnippet) {
+      return this.saveSnippetsToStorage();
+    }
+
+    try {
+      const deleteResult = await this.storageService.deleteSnippet(id);
+      if (deleteResult.success) {
+        this.searchIndex.remove(id);
+      }
+      return deleteResult;
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to delete snippet from storage",
+          { id, error: error instanceof Error ? error.message : error },
+          true,
+          "Check storage configuration and permissions"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Snippets a search has to consider. Storages with indices narrow these
+   * down first; the in-memory filters still run on the result, so a failed
+   * storage query only costs a full scan. Text is left to matchText, whose
+   * identifier splitting and typo matching are looser than the storage's
+   * substring match.
+   */
+  private async getSearchCandidates(query: SearchQuery): Promise<Snippet[]> {
+    if (
+      this.storageService.querySnippetIds &&
+      (query.language ||
+        query.category ||
+        query.tags?.length ||
+        query.dateRange)
+    ) {
+      const idsResult = await this.storageService.querySnippetIds({
+        language: query.language,
+        category: query.category,
+        tags: query.tags,
+        dateRange: query.dateRange,
+      });
+      if (idsResult.success) {
+        return idsResult.data
+          .map((id) => this.snippets.get(id))
+          .filter((snippet): snippet is Snippet => snippet !== undefined);
+      }
+    }
+
+    return Array.from(this.snippets.values());
+  }
+
+  /**
+   * Snippets matching the search text. Snippets the index finds for every
+   * term come first, best first, so typos and identifier parts still
+   * match; snippets containing the text elsewhere follow.
+   */
+  private matchText(candidates: Snippet[], text: string): Snippet[] {
+    const remaining = new Map(
+      candidates.map((snippet) => [snippet.id, snippet])
+    );
+    const results: Snippet[] = [];
+
+    for (const hit of this.searchIndex.search(text, undefined, true)) {
+      const snippet = remaining.get(hit.snippet.id);
+      if (snippet) {
+        results.push(snippet);
+        remaining.delete(snippet.id);
+      }
+    }
+
+    remaining.forEach((snippet) => {
+      if (snippet.matches(text)) {
+        results.push(snippet);
+      }
+    });
+    return results;
+  }
+
+  /**
+   * Add the number of snippets a saved search matches
+   */
+  private async summarize(search: SavedSearch): Promise<SavedSearchSummary> {
+    const matches = await this.searchSaved(search);
+    return { ...search, count: matches.success ? matches.data.length : 0 };
+  }
+
+  /**
+   * Recreate imported collections. Collections are matched by name, so
+   * importing a collection again adds its new snippets to the existing one.
+   */
+  private async importCollections(
+    collections: SnippetCollection[],
+    importedIds: Map<string, string>,
+    result: ImportResult
+  ): Promise<void> {
+    if (!this.collectionService) {
+      return;
+    }
+
+    // Parents come first so that subcollections can refer to them
+    const ordered = [
+      ...collections.filter((collection) => !collection.parentId),
+      ...collections.filter((collection) => collection.parentId),
+    ];
+    const collectionIds = new Map<string, string>();
+
+    for (const collection of ordered) {
+      const parentId = collection.parentId
+        ? collectionIds.get(collection.parentId)
+        : undefined;
+      let target = this.collectionService
+        .getAll()
+        .find(
+          (existing) =>
+            existing.parentId === parentId &&
+            existing.name.toLowerCase() === collection.name.toLowerCase()
+        );
+
+      if (!target) {
+        const createResult = await this.collectionService.create(
+          collection.name,
+          { description: collection.description, parentId }
+        );
+        if (!createResult.success) {
+          result.errors.push(
+            `Failed to create collection "${collection.name}": ${
+              createResult.error.message
+            }`
+          );
+          continue;
+        }
+        target = createResult.data;
+      }
+      collectionIds.set(collection.id, target.id);
+
+      const existingIds = target.snippetIds;
+      const snippetIds = (collection.snippetIds || [])
+        .map((id) => importedIds.get(id))
+        .filter((id): id is string => !!id && !existingIds.includes(id));
+      if (snippetIds.length === 0) {
+        continue;
+      }
+
+      const addResult = await this.collectionService.addSnippets(
+        target.id,
+        snippetIds
+      );
+      if (!addResult.success) {
+        result.errors.push(
+          `Failed to add snippets to collection "${collection.name}": ${
+            addResult.error.message
+          }`
+        );
+      }
+    }
+  }
+
+  /**
+   * Get the IDs of the snippets in collections and their subcollections
+   */
+  private getCollectedSnippetIds(collectionIds: string[]): Set<string> {
+    const snippetIds = new Set<string>();
+    if (!this.collectionService) {
+      return snippetIds;
+    }
+
+    for (const collection of this.collectionService.getAll()) {
+      if (
+        collectionIds.includes(collection.id) ||
+        (collection.parentId && collectionIds.includes(collection.parentId))
+      ) {
+        collection.snippetIds.forEach((id) => snippetIds.add(id));
+      }
+    }
+    return snippetIds;
+  }
+
+  /**
+   * Get the collections to export with snippets. Selected collections are
+   * exported even when empty; other collections only when they hold an
+   * exported snippet, or when the whole library is exported.
+   */
+  private getExportCollections(
+    exportedIds: string[],
+    selectedIds: string[]
+  ): SnippetCollection[] {
+    if (!this.collectionService) {
+      return [];
+    }
+
+    const exported = new Set(exportedIds);
+    const wholeLibrary =
+      selectedIds.length === 0 && exported.size === this.snippets.size;
+    const selected = (collection: SnippetCollection) =>
+      selectedIds.includes(collection.id) ||
+      (!!collection.parentId && selectedIds.includes(collection.parentId));
+
+    const collections = this.collectionService
+      .getAll()
+      .filter((collection) =>
+        selectedIds.length > 0 ? selected(collection) : true
+      )
+      .map((collection) => ({
+        ...collection,
+        snippetIds: collection.snippetIds.filter((id) => exported.has(id)),
+      }))
+      .filter(
+        (collection) =>
+          wholeLibrary ||
+          selected(collection) ||
+          collection.snippetIds.length > 0
+      );
+
+    // A subcollection exported without its parent becomes a top-level one
+    const included = new Set(collections.map((collection) => collection.id));
+    return collections.map((collection) =>
+      collection.parentId && !included.has(collection.parentId)
+        ? { ...collection, parentId: undefined }
+        : collection
+    );
+  }
+
+  /**
+   * Leave out snippets of a collection that no longer exist, such as
+   * snippets deleted by another process
+   */
+  private withKnownSnippets(collection: SnippetCollection): SnippetCollection {
+    return {
+      ...collection,
+      snippetIds: collection.snippetIds.filter((id) => this.snippets.has(id)),
+    };
+  }
+
+  /**
+   * Run the query of a saved search, parsing its text as of now
+   */
+  private async searchSaved(
+    search: SavedSearch
+  ): Promise<Result<SnippetInterface[]>> {
+    const resolved = resolveQuery(search.query);
+    if (!resolved.success) {
+      return resolved;
+    }
+    return this.searchSnippets(resolved.data);
+  }
+
+  /**
+   * Record the current state of a snippet in its revision history
+   */
+  private async recordRevision(
+    snippet: Snippet,
+    context: ChangeContext,
+    timestamp?: Date
+  ): Promise<void> {
+    if (!this.historyService) {
+      return;
+    }
+
+    // History is secondary to the snippet itself, so failures are only logged
+    const result = await this.historyService.recordRevision(
+      snippet.id,
+      snippet.toSnippetData(),
+      context,
+      timestamp
+    );
+    if (!result.success) {
+      console.warn(
+        `Failed to record revision for snippet ${snippet.id}:`,
+        (result as any).error.message
+      );
+    }
+  }
+
+  private getAliases(): TagAliases {
+    return this.tagAliasService ? this.tagAliasService.getAll() : {};
+  }
+
+  /**
+   * Resolve tag aliases and normalize the category path of snippet data
+   */
+  private normalizeTaxonomy<T extends Partial<SnippetData>>(data: T): T {
+    const normalized = { ...data };
+    if (data.tags) {
+      normalized.tags = resolveTags(data.tags, this.getAliases());
+    }
+    if (data.category) {
+      normalized.category = normalizeCategory(data.category);
+    }
+    return normalized;
+  }
+
+  /**
+   * Rewrite the tags of every snippet and save the library in one go
+   */
+  private rewriteTags(
+    rewrite: (tags: string[]) => string[],
+    context: ChangeContext
+  ): Promise<Result<number>> {
+    return this.rewriteSnippets((snippet) => {
+      const tags = rewrite(snippet.tags);
+      return tags.join("\n") === snippet.tags.join("\n") ? null : { tags };
+    }, context);
+  }
+
+  /**
+   * Apply changes to any number of snippets and save the library in one
+   * go, restoring the previous snippets when saving fails. Snippets the
+   * rewrite returns null for are left alone.
+   */
+  private async rewriteSnippets(
+    rewrite: (snippet: Snippet) => Partial<SnippetData> | null,
+    context: ChangeContext
+  ): Promise<Result<number>> {
+    const previous = this.snippets;
+    const rewritten = new Map(previous);
+    const changed: Snippet[] = [];
+
+    for (const snippet of Array.from(previous.values())) {
+      const changes = rewrite(snippet);
+      if (!changes) {
+        continue;
+      }
+
+      const updated = Snippet.fromExisting({
+        ...snippet.toJSON(),
+        ...changes,
+        updatedAt: new Date(),
+      });
+      const validation = updated.validate();
+      if (!validation.success) {
+        return {
+          success: false,
+          error: (validation as any).error,
+        };
+      }
+      rewritten.set(updated.id, updated);
+      changed.push(updated);
+    }
+
+    if (changed.length === 0) {
+      return { success: true, data: 0 };
+    }
+
+    // Snippets created before history tracking get their current state
+    // recorded as the base revision so the retagging can be rolled back
+    for (const snippet of changed) {
+      if (this.historyService && !this.historyService.hasHistory(snippet.id)) {
+        const before = previous.get(snippet.id)!;
+        await this.recordRevision(before, {}, before.updatedAt);
+      }
+    }
+
+    this.snippets = rewritten;
+    const saveResult = await this.saveSnippetsToStorage();
+    if (!saveResult.success) {
+      // Rollback memory change
+      this.snippets = previous;
+      return saveResult;
+    }
+
+    for (const snippet of changed) {
+      await this.recordRevision(snippet, context);
+    }
+
+    return { success: true, data: changed.length };
+  }
+
+  /**
+   * Get the path of a sidecar file next to the snippets file, if known
+   */
+  private getSidecarFilePath(kind: string): string | undefined {
+    const locationResult = this.storageService.getStorageLocation();
+    if (!locationResult || !locationResult.success) {
+      return undefined;
+    }
+
+    const storagePath = locationResult.data.path;
+    const basename = path.basename(storagePath, path.extname(storagePath));
+    return path.join(path.dirname(storagePath), `${basename}.${kind}.json`);
+  }
+
   /**
    * Handle storage changes from file watching
    */
   private handleStorageChanges(changes: StorageChange[]): void {
+    // The changes are final, so the index is current before the refresh
+    this.searchIndex.applyChanges(changes);
     // For now, just refresh from storage when changes are detected
     // In a more sophisticated implementation, we could merge changes
     this.refresh().catch((error) => {
@@ -0,0 +1,724 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import Database from "better-sqlite3";
+import {
+  SnippetInterface,
+  StorageLocation,
+  StorageChange,
+  Result,
+  ErrorType,
+  StorageConfigInterface,
+  SearchQueryInterface,
+} from "../../types";
+import { FileSystemStorageService } from "./FileSystemStorageService";
+import { createError } from "../utils";
+import { normalizeCategory, CATEGORY_SEPARATOR } from "../taxonomy";
+
+const SCHEMA_VERSION = 2;
+
+const DATABASE_EXTENSIONS = [".db", ".sqlite", ".sqlite3"];
+
+// How often to check whether another process wrote to the database
+const WATCH_INTERVAL = 1000;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS snippets (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    code TEXT NOT NULL,
+    language TEXT NOT NULL,
+    category TEXT,
+    prefix TEXT,
+    prefix_aliases TEXT,
+    scope TEXT,
+    variables TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    usage_count INTEGER NOT NULL DEFAULT 0,
+    row_hash TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_snippets_language ON snippets(language);
+  CREATE INDEX IF NOT EXISTS idx_snippets_category ON snippets(category);
+  CREATE INDEX IF NOT EXISTS idx_snippets_created_at ON snippets(created_at);
+
+  CREATE TABLE IF NOT EXISTS snippet_tags (
+    snippet_id TEXT NOT NULL REFERENCES snippets(id) ON DELETE CASCADE,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (snippet_id, tag)
+  );
+  CREATE INDEX IF NOT EXISTS idx_snippet_tags_tag ON snippet_tags(tag);
+
+  CREATE VIRTUAL TABLE IF NOT EXISTS snippets_fts USING fts5(
+    id UNINDEXED, title, description, code, language, tags, category,
+    tokenize = 'trigram'
+  );
+
+  CREATE TABLE IF NOT EXISTS storage_meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+// Changes bringing databases of an older schema version to the next one
+const MIGRATIONS = new Map([
+  [2, "ALTER TABLE snippets ADD COLUMN prefix_aliases TEXT"],
+]);
+
+/**
+ * Row of the snippets table
+ */
+interface SnippetRow {
+  id: string;
+  title: string;
+  description: string;
+  code: string;
+  language: string;
+  category: string | null;
+  prefix: string | null;
+  prefix_aliases: string | null;
+  scope: string | null;
+  variables: string | null;
+  created_at: string;
+  updated_at: string;
+  usage_count: number;
+  row_hash: string;
+}
+
+/**
+ * Storage service backed by a SQLite database file. Writes are
+ * transactional and touch only changed rows; language, category and tag
+ * indices plus a trigram full-text table let searches be answered without
+ * scanning every snippet (see querySnippetIds).
+ *
+ * The database is `snippets.db` next to the configured snippets file, or
+ * the configured path itself when it ends in `.db`, `.sqlite` or
+ * `.sqlite3`. On first use, snippets from the JSON/YAML snippets file are
+ * migrated into the database; the file itself is left in place.
+ *
+ * Other processes, such as the CLI, may write to the same database. Full
+ * saves therefore only write the snippets the caller changed and never
+ * delete rows changed since they were last read, and watchChanges reports
+ * what other processes wrote.
+ */
+export class SqliteStorageService extends FileSystemStorageService {
+  private database: Database.Database | null = null;
+  // Row hashes as this service last read or wrote them
+  private knownRows = new Map<string, string>();
+  private watchTimer: NodeJS.Timeout | null = null;
+  private dataVersion = 0;
+
+  constructor(config?: Partial<StorageConfigInterface>) {
+    super({ ...config, layout: "sqlite" });
+  }
+
+  /**
+   * Load all snippets from the database
+   */
+  async loadSnippets(): Promise<Result<SnippetInterface[]>> {
+    try {
+      const database = this.getDatabase();
+      const rows = database
+        .prepare("SELECT * FROM snippets ORDER BY created_at, title")
+        .all() as SnippetRow[];
+      const tags = this.getTagsBySnippet(database);
+      this.knownRows = new Map(rows.map((row) => [row.id, row.row_hash]));
+
+      return {
+        success: true,
+        data: rows.map((row) => this.fromRow(row, tags.get(row.id) || [])),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to load snippets from storage",
+          { error: error instanceof Error ? error.message : error },
+          true,
+          "Check file permissions and ensure the storage location is accessible"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Replace the stored snippets in a single transaction, writing only rows
+   * the caller changed. Rows another process added or changed since they
+   * were last read are kept.
+   */
+  async saveSnippets(snippets: SnippetInterface[]): Promise<Result<void>> {
+    try {
+      const database = this.getDatabase();
+      const existing = new Map(
+        (
+          database.prepare("SELECT id, row_hash FROM snippets").all() as Array<
+            Pick<SnippetRow, "id" | "row_hash">
+          >
+        ).map((row) => [row.id, row.row_hash])
+      );
+
+      database.transaction(() => {
+        for (const snippet of snippets) {
+          const row = this.toRow(snippet);
+          const stored = existing.get(row.id);
+          existing.delete(row.id);
+          if (stored === row.row_hash) {
+            this.knownRows.set(row.id, row.row_hash);
+          } else if (this.knownRows.get(row.id) !== row.row_hash) {
+            this.writeSnippet(database, row, snippet.tags);
+            this.knownRows.set(row.id, row.row_hash);
+          }
+        }
+        for (const [id, hash] of existing) {
+          if (this.knownRows.get(id) === hash) {
+            this.removeSnippet(database, id);
+            this.knownRows.delete(id);
+          }
+        }
+      })();
+
+      // Create backup if enabled
+      if (this.config.autoBackup) {
+        await this.createBackupIfDue();
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to save snippets to storage",
+          { error: error instanceof Error ? error.message : error },
+          true,
+          "Check file permissions and ensure the storage location is writable"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Insert or update a single snippet
+   */
+  async saveSnippet(snippet: SnippetInterface): Promise<Result<void>> {
+    try {
+      const database = this.getDatabase();
+      const row = this.toRow(snippet);
+      database.transaction(() => {
+        this.writeSnippet(database, row, snippet.tags);
+      })();
+      this.knownRows.set(row.id, row.row_hash);
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to save snippet to storage",
+          {
+            id: snippet.id,
+            error: error instanceof Error ? error.message : error,
+          },
+          true,
+          "Check file permissions and ensure the storage location is writable"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Delete a single snippet
+   */
+  async deleteSnippet(id: string): Promise<Result<void>> {
+    try {
+      const database = this.getDatabase();
+      database.transaction(() => this.removeSnippet(database, id))();
+      this.knownRows.delete(id);
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to delete snippet from storage",
+          { id, error: error instanceof Error ? error.message : error },
+          true,
+          "Check file permissions and ensure the storage location is writable"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Find snippets matching a query's filters. Text matches case-insensitive
+   * substrings of the title, description, code, language, tags or category;
+   * language and category are exact; every tag must be present.
+   */
+  async querySnippetIds(
+    query: SearchQueryInterface
+  ): Promise<Result<string[]>> {
+    try {
+      const conditions: string[] = [];
+      const params: unknown[] = [];
+
+      if (query.text) {
+        if (Array.from(query.text).length >= 3) {
+          // Trigram tokens make a quoted phrase match any substring
+          conditions.push(
+            "id IN (SELECT id FROM snippets_fts WHERE snippets_fts MATCH ?)"
+          );
+          params.push(`"${query.text.replace(/"/g, '""')}"`);
+        } else {
+          const columns = [
+            "title",
+            "description",
+            "code",
+            "language",
+            "tags",
+            "category",
+          ];
+          // LIKE only ignores the case of ASCII letters, so "üb" would miss
+          // "Über"; compare lower case text the way the in-memory search does
+          conditions.push(
+            `id IN (SELECT id FROM snippets_fts WHERE ${columns
+              .map((column) => `instr(lower_text(${column}), ?) > 0`)
+              .join(" OR ")})`
+          );
+          const text = query.text.toLowerCase();
+          params.push(...columns.map(() => text));
+        }
+      }
+
+      if (query.language) {
+        conditions.push("language = ?");
+        params.push(query.language);
+      }
+
+      if (query.category) {
+        // Subcategories are included, so "backend" matches "backend/db"
+        const category = normalizeCategory(query.category);
+        conditions.push("(category = ? OR category LIKE ? ESCAPE '\\')");
+        params.push(
+          query.category,
+          `${category.replace(/[\\%_]/g, "\\$&")}${CATEGORY_SEPARATOR}%`
+        );
+      }
+
+      for (const tag of query.tags || []) {
+        conditions.push(
+          "id IN (SELECT snippet_id FROM snippet_tags WHERE tag = ?)"
+        );
+        params.push(tag);
+      }
+
+      if (query.dateRange) {
+        conditions.push("created_at BETWEEN ? AND ?");
+        params.push(
+          new Date(query.dateRange.start).toISOString(),
+          new Date(query.dateRange.end).toISOString()
+        );
+      }
+
+      const where =
+        conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+      const rows = this.getDatabase()
+        .prepare(`SELECT id FROM snippets ${where} ORDER BY created_at, title`)
+        .all(...params) as Array<Pick<SnippetRow, "id">>;
+
+      return { success: true, data: rows.map((row) => row.id) };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to query snippets",
+          { query, error: error instanceof Error ? error.message : error },
+          true,
+          "Check search query parameters"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Report snippets other processes wrote to the database. SQLite bumps
+   * the data version whenever another connection commits, so polling it
+   * is cheap.
+   */
+  watchChanges(callback: (changes: StorageChange[]) => void): Result<void> {
+    try {
+      this.stopWatching();
+      this.dataVersion = this.getDataVersion();
+      this.watchCallback = callback;
+      this.watchTimer = setInterval(
+        () => this.checkExternalChanges(),
+        WATCH_INTERVAL
+      );
+      this.watchTimer.unref();
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to start watching storage changes",
+          { error: error instanceof Error ? error.message : error },
+          true,
+          "Check file permissions and ensure the storage location is accessible"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Stop watching for changes
+   */
+  stopWatching(): Result<void> {
+    if (this.watchTimer) {
+      clearInterval(this.watchTimer);
+      this.watchTimer = null;
+    }
+    this.watchCallback = null;
+    return { success: true, data: undefined };
+  }
+
+  /**
+   * Get current storage location (the database file)
+   */
+  getStorageLocation(): Result<StorageLocation> {
+    return {
+      success: true,
+      data: {
+        type: this.config.location,
+        path: this.getDatabasePath(),
+      },
+    };
+  }
+
+  /**
+   * Set storage location, reopening the database at the new path
+   */
+  async setStorageLocation(location: StorageLocation): Promise<Result<void>> {
+    this.closeDatabase();
+    return super.setStorageLocation(location);
+  }
+
+  /**
+   * Update storage configuration, reopening the database if its path changed
+   */
+  async updateConfig(
+    configUpdates: Partial<StorageConfigInterface>
+  ): Promise<Result<void>> {
+    this.closeDatabase();
+    return super.updateConfig(configUpdates);
+  }
+
+  /**
+   * Create the database and schema, migrating the snippets file once
+   */
+  async initialize(): Promise<Result<void>> {
+    try {
+      await fs.promises.mkdir(this.getBackupDirectory(), { recursive: true });
+
+      const database = this.getDatabase();
+      const migrated = database
+        .prepare("SELECT value FROM storage_meta WHERE key = 'migratedFrom'")
+        .get();
+
+      if (!migrated) {
+        const legacyPath = this.getLegacyFilePath();
+        const legacyResult = await this.readSnippetsFile(legacyPath);
+        if (!legacyResult.success) {
+          return {
+            success: false,
+            error: (legacyResult as any).error,
+          };
+        }
+
+        if (legacyResult.data.length > 0) {
+          const saveResult = await this.saveSnippets(legacyResult.data);
+          if (!saveResult.success) {
+            return saveResult;
+          }
+        }
+
+        database
+          .prepare(
+            "INSERT INTO storage_meta (key, value) VALUES ('migratedFrom', ?)"
+          )
+          .run(legacyPath);
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to initialize storage",
+          { error: error instanceof Error ? error.message : error },
+          true,
+          "Check file permissions and ensure the storage location is writable"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Close the database and clean up resources
+   */
+  dispose(): void {
+    super.dispose();
+    this.closeDatabase();
+  }
+
+  // Private helper methods
+
+  private getDatabasePath(): string {
+    const storagePath = this.getSnippetsFilePath();
+    return DATABASE_EXTENSIONS.includes(path.extname(storagePath).toLowerCase())
+      ? storagePath
+      : path.join(path.dirname(storagePath), "snippets.db");
+  }
+
+  private getLegacyFilePath(): string {
+    const storagePath = this.getSnippetsFilePath();
+    return storagePath === this.getDatabasePath()
+      ? path.join(path.dirname(storagePath), this.config.getSnippetsFilename())
+      : storagePath;
+  }
+
+  private getDatabase(): Database.Database {
+    if (this.database) {
+      return this.database;
+    }
+
+    const databasePath = this.getDatabasePath();
+    fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+
+    const database = new Database(databasePath);
+    try {
+      database.pragma("journal_mode = WAL");
+      database.pragma("foreign_keys = ON");
+      database.function(
+        "lower_text",
+        { deterministic: true },
+        (value: unknown) =>
+          typeof value === "string" ? value.toLowerCase() : value
+      );
+
+      const version = Number(
+        database.pragma("user_version", { simple: true })
+      );
+      if (version !== SCHEMA_VERSION) {
+        // New databases get the current schema; older ones are migrated
+        database.exec(SCHEMA);
+        for (let next = version + 1; next <= SCHEMA_VERSION; next++) {
+          if (version > 0) {
+            database.exec(MIGRATIONS.get(next)!);
+          }
+        }
+        database.pragma(`user_version = ${SCHEMA_VERSION}`);
+      }
+    } catch (error) {
+      database.close();
+      throw error;
+    }
+
+    this.database = database;
+    return database;
+  }
+
+  private closeDatabase(): void {
+    if (this.database) {
+      this.database.close();
+      this.database = null;
+    }
+    this.knownRows.clear();
+  }
+
+  private getDataVersion(): number {
+    return Number(this.getDatabase().pragma("data_version", { simple: true }));
+  }
+
+  private checkExternalChanges(): void {
+    if (!this.watchCallback) {
+      return;
+    }
+
+    try {
+      const version = this.getDataVersion();
+      if (version === this.dataVersion) {
+        return;
+      }
+      this.dataVersion = version;
+
+      const changes = this.findExternalChanges();
+      if (changes.length > 0) {
+        this.watchCallback(changes);
+      }
+    } catch (error) {
+      // Log error but don't throw - watching should be resilient
+      console.error("Error checking database changes:", error);
+    }
+  }
+
+  /**
+   * Compare the database with the rows this service last read or wrote
+   */
+  private findExternalChanges(): StorageChange[] {
+    const database = this.getDatabase();
+    const rows = database
+      .prepare("SELECT * FROM snippets ORDER BY created_at, title")
+      .all() as SnippetRow[];
+    const tags = this.getTagsBySnippet(database);
+    const timestamp = new Date();
+    const changes: StorageChange[] = [];
+    const removed = new Set(this.knownRows.keys());
+
+    for (const row of rows) {
+      removed.delete(row.id);
+      const known = this.knownRows.get(row.id);
+      if (known !== row.row_hash) {
+        changes.push({
+          type: known === undefined ? "created" : "updated",
+          snippet: this.fromRow(row, tags.get(row.id) || []),
+          timestamp,
+        });
+        this.knownRows.set(row.id, row.row_hash);
+      }
+    }
+    for (const id of removed) {
+      // Only the ID of a deleted row is left
+      changes.push({
+        type: "deleted",
+        snippet: { id } as SnippetInterface,
+        timestamp,
+      });
+      this.knownRows.delete(id);
+    }
+
+    return changes;
+  }
+
+  private getTagsBySnippet(database: Database.Database): Map<string, string[]> {
+    const tags = new Map<string, string[]>();
+    const rows = database
+      .prepare("SELECT snippet_id, tag FROM snippet_tags ORDER BY rowid")
+      .all() as Array<{ snippet_id: string; tag: string }>;
+
+    for (const row of rows) {
+      const list = tags.get(row.snippet_id) || [];
+      list.push(row.tag);
+      tags.set(row.snippet_id, list);
+    }
+
+    return tags;
+  }
+
+  private writeSnippet(
+    database: Database.Database,
+    row: SnippetRow,
+    tags: string[]
+  ): void {
+    database
+      .prepare(
+        `INSERT INTO snippets (id, title, description, code, language, category,
+           prefix, prefix_aliases, scope, variables, created_at, updated_at,
+           usage_count, row_hash)
+         VALUES (@id, @title, @description, @code, @language, @category,
+           @prefix, @prefix_aliases, @scope, @variables, @created_at,
+           @updated_at, @usage_count, @row_hash)
+         ON CONFLICT(id) DO UPDATE SET
+           title = excluded.title, description = excluded.description,
+           code = excluded.code, language = excluded.language,
+           category = excluded.category, prefix = excluded.prefix,
+           prefix_aliases = excluded.prefix_aliases, scope = excluded.scope, variables = excluded.variables,
+           created_at = excluded.created_at, updated_at = excluded.updated_at,
+           usage_count = excluded.usage_count, row_hash = excluded.row_hash`
+      )
+      .run(row);
+
+    database.prepare("DELETE FROM snippet_tags WHERE snippet_id = ?").run(row.id);
+    const insertTag = database.prepare(
+      "INSERT OR IGNORE INTO snippet_tags (snippet_id, tag) VALUES (?, ?)"
+    );
+    for (const tag of tags) {
+      insertTag.run(row.id, tag);
+    }
+
+    database.prepare("DELETE FROM snippets_fts WHERE id = ?").run(row.id);
+    database
+      .prepare(
+        `INSERT INTO snippets_fts (id, title, description, code, language, tags, category)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        row.id,
+        row.title,
+        row.description,
+        row.code,
+        row.language,
+        tags.join("\n"),
+        row.category || ""
+      );
+  }
+
+  private removeSnippet(database: Database.Database, id: string): void {
+    database.prepare("DELETE FROM snippets WHERE id = ?").run(id);
+    database.prepare("DELETE FROM snippets_fts WHERE id = ?").run(id);
+  }
+
+  private toRow(snippet: SnippetInterface): SnippetRow {
+    const row: Omit<SnippetRow, "row_hash"> = {
+      id: snippet.id,
+      title: snippet.title,
+      description: snippet.description || "",
+      code: snippet.code,
+      language: snippet.language,
+      category: snippet.category || null,
+      prefix: snippet.prefix || null,
+      prefix_aliases: snippet.prefixAliases
+        ? JSON.stringify(snippet.prefixAliases)
+        : null,
+      scope: snippet.scope ? JSON.stringify(snippet.scope) : null,
+      variables: snippet.variables ? JSON.stringify(snippet.variables) : null,
+      created_at: new Date(snippet.createdAt).toISOString(),
+      updated_at: new Date(snippet.updatedAt).toISOString(),
+      usage_count: snippet.usageCount || 0,
+    };
+
+    return {
+      ...row,
+      row_hash: createHash("sha1")
+        .update(JSON.stringify([row, snippet.tags]))
+        .digest("hex"),
+    };
+  }
+
+  private fromRow(row: SnippetRow, tags: string[]): SnippetInterface {
+    return {
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      code: row.code,
+      language: row.language,
+      tags,
+      category: row.category ?? undefined,
+      prefix: row.prefix ?? undefined,
+      prefixAliases: row.prefix_aliases
+        ? JSON.parse(row.prefix_aliases)
+        : undefined,
+      scope: row.scope ? JSON.parse(row.scope) : undefined,
+      variables: row.variables ? JSON.parse(row.variables) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      usageCount: row.usage_count,
+    };
+  }
+}
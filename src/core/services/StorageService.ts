@@ -4,6 +4,7 @@ import {
   StorageChange,
   Result,
   StorageConfigInterface,
+  SearchQueryInterface,
 } from "../../types";
 
 /**
@@ -20,6 +21,23 @@ export interface StorageService {
    */
   saveSnippets(snippets: SnippetInterface[]): Promise<Result<void>>;
 
+  /**
+   * Save a single snippet without rewriting the others. Storages without
+   * this are saved through saveSnippets.
+   */
+  saveSnippet?(snippet: SnippetInterface): Promise<Result<void>>;
+
+  /**
+   * Delete a single snippet without rewriting the others
+   */
+  deleteSnippet?(id: string): Promise<Result<void>>;
+
+  /**
+   * Find the IDs of snippets matching a query's filters using storage-side
+   * indices, so callers can avoid scanning every snippet
+   */
+  querySnippetIds?(query: SearchQueryInterface): Promise<Result<string[]>>;
+
   /**
    * Watch for external changes to storage files
    */
@@ -22,7 +22,15 @@ import {
   ConflictResolutionServiceImpl,
   Conflict,
   ResolutionStrategy,
+  ResolutionResult,
 } from "./ConflictResolutionService";
+import {
+  GitSyncService,
+  GitSyncServiceImpl,
+  GitSyncConfig,
+  GitSyncResult,
+  GitSyncStatus,
+} from "./GitSyncService";
 import { SnippetManager } from "../../interfaces/SnippetManager";
 import {
   SnippetInterface,
@@ -41,6 +49,7 @@ export interface SyncCoordinatorConfig {
   enableAutoSync: boolean;
   enableConflictResolution: boolean;
   syncInterval?: number; // milliseconds
+  git?: GitSyncConfig; // Shared git repository for the library
 }
 
 /**
@@ -54,6 +63,7 @@ export interface SyncStatus {
   connectedClients: number;
   fileWatcherActive: boolean;
   webSocketActive: boolean;
+  git?: GitSyncStatus; // Present when a git repository is configured
 }
 
 /**
@@ -84,6 +94,12 @@ export interface SynchronizationCoordinator {
    */
   sync(): Promise<Result<void>>;
 
+  /**
+   * Synchronize the library with its git repository: commit local changes,
+   * pull and merge remote ones and push. Divergent edits become conflicts.
+   */
+  syncGit(): Promise<Result<GitSyncResult>>;
+
   /**
    * Handle snippet update from VS Code
    */
@@ -133,6 +149,11 @@ export interface SynchronizationCoordinator {
    */
   onConflictDetected(callback: (conflict: Conflict) => void): void;
 
+  /**
+   * Register for conflict resolution events
+   */
+  onConflictResolved(callback: (result: ResolutionResult) => void): void;
+
   /**
    * Dispose all resources
    */
@@ -153,6 +174,7 @@ export class SynchronizationCoordinatorImpl
   private fileWatcher: FileSystemWatcher;
   private webSocketService: WebSocketSyncService;
   private conflictResolver: ConflictResolutionService;
+  private gitSyncService: GitSyncService | null = null;
 
   private isInitialized = false;
   private isActive = false;
@@ -201,6 +223,18 @@ export class SynchronizationCoordinatorImpl
         }
       }
 
+      // Prepare the git repository if configured
+      if (config.git) {
+        this.gitSyncService = new GitSyncServiceImpl(this.conflictResolver);
+        const gitResult = await this.gitSyncService.initialize(config.git);
+        if (!gitResult.success) {
+          console.warn(
+            "Failed to initialize git sync:",
+            gitResult.error.message
+          );
+        }
+      }
+
       // Set up event handlers
       this.setupEventHandlers();
 
@@ -336,6 +370,71 @@ export class SynchronizationCoordinatorImpl
     return await this.syncService.sync();
   }
 
+  async syncGit(): Promise<Result<GitSyncResult>> {
+    if (!this.gitSyncService || !this.snippetManager) {
+      return {
+        success: false,
+        error: {
+          type: ErrorType.validation,
+          message: "Git sync is not configured",
+          recoverable: true,
+          suggestedAction: "Set a git remote for the snippet library",
+        },
+      };
+    }
+
+    try {
+      const snippetsResult = await this.snippetManager.getAllSnippets();
+      if (!snippetsResult.success) {
+        return snippetsResult;
+      }
+
+      const result = await this.gitSyncService.sync(snippetsResult.data);
+      if (!result.success) {
+        this.emitGitEvent("sync_failed", { error: result.error.message });
+        return result;
+      }
+
+      // Apply remote changes to the library as it is now, so edits made
+      // while the sync ran are kept
+      if (result.data.pulled > 0) {
+        const currentResult = await this.snippetManager.getAllSnippets();
+        if (!currentResult.success) {
+          return currentResult;
+        }
+        const replaceResult = await this.snippetManager.replaceSnippets(
+          applyGitChanges(
+            snippetsResult.data,
+            result.data,
+            currentResult.data
+          ),
+          { source: "sync" }
+        );
+        if (!replaceResult.success) {
+          return replaceResult;
+        }
+      }
+
+      this.emitGitEvent("sync_completed", {
+        pulled: result.data.pulled,
+        pushed: result.data.pushed,
+        conflicts: result.data.conflicts.length,
+        commit: result.data.commit,
+      });
+
+      return result;
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          type: ErrorType.syncConflict,
+          message: `Failed to sync with git: ${error}`,
+          recoverable: true,
+        },
+      };
+    }
+  }
+
   async handleVSCodeUpdate(
     snippet: SnippetInterface,
     action: "created" | "updated" | "deleted"
@@ -533,6 +632,7 @@ export class SynchronizationCoordinatorImpl
       connectedClients: wsStatus.connectedClients,
       fileWatcherActive: this.fileWatcher.isWatching(),
       webSocketActive: wsStatus.isRunning,
+      ...(this.gitSyncService && { git: this.gitSyncService.getStatus() }),
     };
   }
 
@@ -544,6 +644,10 @@ export class SynchronizationCoordinatorImpl
     this.conflictResolver.onConflictDetected(callback);
   }
 
+  onConflictResolved(callback: (result: ResolutionResult) => void): void {
+    this.conflictResolver.onConflictResolved(callback);
+  }
+
   dispose(): void {
     this.stop();
 
@@ -551,6 +655,7 @@ export class SynchronizationCoordinatorImpl
     this.fileWatcher.dispose();
     this.webSocketService.dispose();
     this.conflictResolver.dispose();
+    this.gitSyncService?.dispose();
 
     this.removeAllListeners();
   }
@@ -595,6 +700,21 @@ export class SynchronizationCoordinatorImpl
     });
   }
 
+  private emitGitEvent(
+    type: "sync_completed" | "sync_failed",
+    data: any
+  ): void {
+    const event: SyncEvent = {
+      type,
+      data,
+      timestamp: new Date(),
+      source: "git",
+    };
+
+    this.emit("syncEvent", event);
+    this.webSocketService.broadcastSyncEvent(event);
+  }
+
   private async handleWebSocketMessage(
     message: WebSocketMessage,
     clientId: string
@@ -643,6 +763,9 @@ export class SynchronizationCoordinatorImpl
       );
       if (conflict) {
         this.conflictResolver.addConflict(conflict);
+      } else {
+        // Both sides agree, so this is the base for later merges
+        this.conflictResolver.recordBaseRevision(snippet);
       }
     } catch (error) {
       console.error("Error checking for conflicts:", error);
@@ -661,3 +784,58 @@ export class SynchronizationCoordinatorImpl
     }, interval);
   }
 }
+
+/**
+ * Apply the snippets a git sync changed to the current library. Snippets
+ * edited or deleted since the sync read the library keep the local edit;
+ * usage recorded meanwhile is kept either way.
+ */
+function applyGitChanges(
+  before: SnippetInterface[],
+  sync: GitSyncResult,
+  current: SnippetInterface[]
+): SnippetInterface[] {
+  const changed = new Set(sync.changedIds);
+  const beforeById = new Map(before.map((snippet) => [snippet.id, snippet]));
+  const syncedById = new Map(
+    sync.snippets.map((snippet) => [snippet.id, snippet])
+  );
+  const currentIds = new Set(current.map((snippet) => snippet.id));
+
+  const snippets: SnippetInterface[] = [];
+  for (const snippet of current) {
+    const previous = beforeById.get(snippet.id);
+    if (
+      !changed.has(snippet.id) ||
+      !previous ||
+      contentKey(previous) !== contentKey(snippet)
+    ) {
+      snippets.push(snippet);
+      continue;
+    }
+    const synced = syncedById.get(snippet.id);
+    if (synced) {
+      snippets.push({ ...synced, usageCount: snippet.usageCount });
+    }
+  }
+  for (const snippet of sync.snippets) {
+    if (
+      changed.has(snippet.id) &&
+      !currentIds.has(snippet.id) &&
+      !beforeById.has(snippet.id)
+    ) {
+      snippets.push(snippet);
+    }
+  }
+
+  return snippets;
+}
+
+function contentKey(snippet: SnippetInterface): string {
+  const {
+    usageCount: _usageCount,
+    updatedAt: _updatedAt,
+    ...content
+  } = snippet;
+  return JSON.stringify(content);
+}
@@ -18,7 +18,7 @@ export interface SyncEvent {
     | "sync_failed";
   data: any;
   timestamp: Date;
-  source: "vscode" | "webgui" | "filesystem";
+  source: "vscode" | "webgui" | "filesystem" | "git";
 }
 
 /**
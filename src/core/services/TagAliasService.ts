@@ -0,0 +1,235 @@
+import * as fs from "fs";
+import * as path from "path";
+import { TagAliases, Result, ErrorType } from "../../types";
+import { createError } from "../utils";
+import { getAliasKey, resolveTag } from "../taxonomy";
+
+/**
+ * Configuration for the tag alias service
+ */
+export interface TagAliasConfig {
+  filePath?: string;
+}
+
+/**
+ * Keeps the tag aliases of a library, such as "js" for "javascript".
+ * Aliases always point at a tag that is not an alias itself. They are
+ * persisted to a JSON sidecar file when a file path is configured,
+ * otherwise they are kept in memory only.
+ */
+export class TagAliasService {
+  private config: TagAliasConfig;
+  private aliases: TagAliases = {};
+
+  constructor(config: Partial<TagAliasConfig> = {}) {
+    this.config = { ...config };
+  }
+
+  /**
+   * Load persisted aliases from disk
+   */
+  async load(): Promise<Result<void>> {
+    this.aliases = {};
+
+    if (!this.config.filePath || !fs.existsSync(this.config.filePath)) {
+      return { success: true, data: undefined };
+    }
+
+    try {
+      const content = await fs.promises.readFile(this.config.filePath, "utf-8");
+      const parsed = content.trim() ? JSON.parse(content) : {};
+      const entries =
+        parsed.aliases && typeof parsed.aliases === "object"
+          ? Object.entries(parsed.aliases)
+          : [];
+
+      for (const [alias, tag] of entries) {
+        if (typeof tag === "string" && alias.trim() && tag.trim()) {
+          this.aliases[getAliasKey(alias)] = tag.trim();
+        }
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to load tag aliases",
+          {
+            filePath: this.config.filePath,
+            error: error instanceof Error ? error.message : error,
+          },
+          true,
+          "Check the tag aliases file format or delete it to start over"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Get all aliases, sorted by alias
+   */
+  getAll(): TagAliases {
+    return Object.fromEntries(
+      Object.entries(this.aliases).sort(([a], [b]) => a.localeCompare(b))
+    );
+  }
+
+  /**
+   * Make a tag an alias of another tag. Aliases that pointed at the new
+   * alias are moved to the tag it stands for.
+   */
+  async set(alias: string, tag: string): Promise<Result<TagAliases>> {
+    const key = getAliasKey(alias || "");
+    const target = resolveTag((tag || "").trim(), this.aliases);
+    if (!key || !target) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.validation,
+          "Alias and tag are required",
+          { alias, tag },
+          true,
+          "Give both the alias and the tag it stands for"
+        ),
+      };
+    }
+    if (key === getAliasKey(target)) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.validation,
+          "A tag cannot be an alias of itself",
+          { alias, tag },
+          true,
+          "Choose a different tag for the alias"
+        ),
+      };
+    }
+
+    const aliases = { ...this.aliases, [key]: target };
+    for (const [other, otherTarget] of Object.entries(aliases)) {
+      if (getAliasKey(otherTarget) === key) {
+        aliases[other] = target;
+      }
+    }
+
+    return this.commit(aliases);
+  }
+
+  /**
+   * Remove an alias
+   */
+  async remove(alias: string): Promise<Result<TagAliases>> {
+    const key = getAliasKey(alias || "");
+    if (!(key in this.aliases)) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.notFound,
+          "Tag alias not found",
+          { alias },
+          false,
+          "Check the alias name"
+        ),
+      };
+    }
+
+    const aliases = { ...this.aliases };
+    delete aliases[key];
+    return this.commit(aliases);
+  }
+
+  /**
+   * Point the aliases of a renamed tag at its new name. The old name
+   * becomes an alias too when keepAlias is set.
+   */
+  async renameTag(
+    from: string,
+    to: string,
+    keepAlias = false
+  ): Promise<Result<TagAliases>> {
+    const aliases: TagAliases = {};
+    for (const [alias, tag] of Object.entries(this.aliases)) {
+      aliases[alias] = tag === from ? to : tag;
+    }
+    if (keepAlias && getAliasKey(from) !== getAliasKey(to)) {
+      aliases[getAliasKey(from)] = to;
+    }
+    // The new name is a tag now, so it cannot stay an alias
+    delete aliases[getAliasKey(to)];
+
+    return this.commit(aliases);
+  }
+
+  /**
+   * Replace all aliases, as when undoing a change
+   */
+  async restore(aliases: TagAliases): Promise<Result<TagAliases>> {
+    return this.commit({ ...aliases });
+  }
+
+  /**
+   * Clear in-memory aliases
+   */
+  dispose(): void {
+    this.aliases = {};
+  }
+
+  /**
+   * Replace the aliases and save them, restoring the previous aliases
+   * when saving fails
+   */
+  private async commit(aliases: TagAliases): Promise<Result<TagAliases>> {
+    const previous = this.aliases;
+    this.aliases = aliases;
+
+    const saveResult = await this.save();
+    if (!saveResult.success) {
+      this.aliases = previous;
+      return saveResult;
+    }
+
+    return { success: true, data: this.getAll() };
+  }
+
+  private async save(): Promise<Result<void>> {
+    if (!this.config.filePath) {
+      return { success: true, data: undefined };
+    }
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.config.filePath), {
+        recursive: true,
+      });
+
+      const data = {
+        version: "1.0.0",
+        aliases: this.getAll(),
+      };
+
+      await fs.promises.writeFile(
+        this.config.filePath,
+        JSON.stringify(data, null, 2),
+        "utf-8"
+      );
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to save tag aliases",
+          {
+            filePath: this.config.filePath,
+            error: error instanceof Error ? error.message : error,
+          },
+          true,
+          "Check file permissions and ensure the storage location is writable"
+        ),
+      };
+    }
+  }
+}
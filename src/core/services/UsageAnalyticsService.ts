@@ -0,0 +1,422 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  SnippetInterface,
+  UsageEvent,
+  UsageSource,
+  UsageReport,
+  UsageReportOptions,
+  UsageTrend,
+  Result,
+  ErrorType,
+} from "../../types";
+import { createError } from "../utils";
+import { RecentUsageProvider } from "./SearchService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Configuration for the usage analytics service
+ */
+export interface UsageAnalyticsConfig {
+  filePath?: string;
+  retentionDays: number; // Older events are rolled up into daily counts
+  rollupRetentionDays: number; // Older daily counts are dropped
+}
+
+/**
+ * Uses of a snippet from one source on one day
+ */
+interface UsageRollup {
+  snippetId: string;
+  day: string;
+  source: UsageSource;
+  count: number;
+}
+
+/**
+ * Records when and where snippets are used. Recent events are kept one by
+ * one; once they are older than the retention period they are rolled up
+ * into daily counts per snippet and source. Usage is persisted to a JSON
+ * sidecar file when a file path is configured, otherwise it is kept in
+ * memory only.
+ */
+export class UsageAnalyticsService implements RecentUsageProvider {
+  private config: UsageAnalyticsConfig;
+  private events: UsageEvent[] = [];
+  private rollups: UsageRollup[] = [];
+  private lastUsed: Map<string, Date> = new Map();
+
+  constructor(config: Partial<UsageAnalyticsConfig> = {}) {
+    this.config = {
+      retentionDays: 90,
+      rollupRetentionDays: 730,
+      ...config,
+    };
+  }
+
+  /**
+   * Load persisted usage from disk
+   */
+  async load(): Promise<Result<void>> {
+    this.events = [];
+    this.rollups = [];
+    this.lastUsed.clear();
+
+    if (!this.config.filePath || !fs.existsSync(this.config.filePath)) {
+      return { success: true, data: undefined };
+    }
+
+    try {
+      const content = await fs.promises.readFile(this.config.filePath, "utf-8");
+      const parsed = content.trim() ? JSON.parse(content) : {};
+
+      this.events = (Array.isArray(parsed.events) ? parsed.events : []).map(
+        (event: any) => ({ ...event, timestamp: new Date(event.timestamp) })
+      );
+      this.rollups = Array.isArray(parsed.rollups) ? parsed.rollups : [];
+      for (const [snippetId, timestamp] of Object.entries(
+        parsed.lastUsed || {}
+      )) {
+        this.lastUsed.set(snippetId, new Date(timestamp as string));
+      }
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to load usage analytics",
+          {
+            filePath: this.config.filePath,
+            error: error instanceof Error ? error.message : error,
+          },
+          true,
+          "Check the usage file format or delete it to start over"
+        ),
+      };
+    }
+  }
+
+  /**
+   * Record a use of a snippet, rolling up events that are past the
+   * retention period
+   */
+  async record(
+    snippetId: string,
+    source: UsageSource = "unknown",
+    timestamp: Date = new Date()
+  ): Promise<Result<UsageEvent>> {
+    const event: UsageEvent = { snippetId, timestamp, source };
+    this.events.push(event);
+
+    const lastUsed = this.lastUsed.get(snippetId);
+    if (!lastUsed || lastUsed < timestamp) {
+      this.lastUsed.set(snippetId, timestamp);
+    }
+    this.rollUp(timestamp);
+
+    const saveResult = await this.save();
+    if (!saveResult.success) {
+      return saveResult;
+    }
+
+    return { success: true, data: event };
+  }
+
+  /**
+   * Get the recorded events, newest first. Rolled up uses are not included.
+   */
+  getEvents(snippetId?: string): UsageEvent[] {
+    return this.events
+      .filter((event) => !snippetId || event.snippetId === snippetId)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  /**
+   * Get when a snippet was last used, if it ever was
+   */
+  getLastUsed(snippetId: string): Date | undefined {
+    return this.lastUsed.get(snippetId);
+  }
+
+  /**
+   * Count the uses of a snippet, halving the weight of a use for every
+   * half-life since it happened
+   */
+  getRecentUseScore(
+    snippetId: string,
+    halfLifeDays: number,
+    now: Date = new Date()
+  ): number {
+    const halfLife = halfLifeDays * DAY_MS;
+    const decay = (time: number) =>
+      Math.pow(0.5, Math.max(0, now.getTime() - time) / halfLife);
+
+    let score = 0;
+    for (const event of this.events) {
+      if (event.snippetId === snippetId) {
+        score += decay(event.timestamp.getTime());
+      }
+    }
+    for (const rollup of this.rollups) {
+      if (rollup.snippetId === snippetId) {
+        score += rollup.count * decay(Date.parse(rollup.day));
+      }
+    }
+    return score;
+  }
+
+  /**
+   * Report how the given snippets were used over the last days: trends per
+   * snippet, language and tag, plus snippets that were never used or not
+   * used for a while
+   */
+  getReport(
+    snippets: SnippetInterface[],
+    options: UsageReportOptions = {},
+    now: Date = new Date()
+  ): UsageReport {
+    const dayCount = Math.min(
+      Math.max(Math.floor(options.days || 30), 1),
+      365
+    );
+    const staleDays = Math.max(options.staleDays ?? 90, 0);
+    const today = Date.parse(toDay(now));
+    const days = Array.from({ length: dayCount }, (_, i) =>
+      toDay(new Date(today - (dayCount - 1 - i) * DAY_MS))
+    );
+    const dayIndex = new Map(days.map((day, i) => [day, i]));
+
+    const total = emptyTrend(dayCount);
+    const sources: Partial<Record<UsageSource, number>> = {};
+    const bySnippet = new Map<string, UsageTrend>();
+    const count = (
+      snippetId: string,
+      day: string,
+      source: UsageSource,
+      uses: number
+    ) => {
+      const index = dayIndex.get(day);
+      if (index === undefined) {
+        return;
+      }
+      const trend = bySnippet.get(snippetId) || emptyTrend(dayCount);
+      addUses(trend, index, uses);
+      bySnippet.set(snippetId, trend);
+      addUses(total, index, uses);
+      sources[source] = (sources[source] || 0) + uses;
+    };
+
+    for (const event of this.events) {
+      count(event.snippetId, toDay(event.timestamp), event.source, 1);
+    }
+    for (const rollup of this.rollups) {
+      count(rollup.snippetId, rollup.day, rollup.source, rollup.count);
+    }
+
+    const languages = new Map<string, UsageTrend>();
+    const tags = new Map<string, UsageTrend>();
+    const used: UsageReport["snippets"] = [];
+    const neverUsed: SnippetInterface[] = [];
+    const stale: UsageReport["stale"] = [];
+    const staleBefore = now.getTime() - staleDays * DAY_MS;
+
+    for (const snippet of snippets) {
+      const lastUsed = this.lastUsed.get(snippet.id);
+      const trend = bySnippet.get(snippet.id);
+
+      if (trend) {
+        used.push({ snippet, lastUsed, ...trend });
+        mergeTrend(languages, snippet.language, trend);
+        for (const tag of snippet.tags) {
+          mergeTrend(tags, tag, trend);
+        }
+      }
+
+      if (!lastUsed && snippet.usageCount === 0) {
+        neverUsed.push(snippet);
+      } else if (!lastUsed || lastUsed.getTime() < staleBefore) {
+        // Uses counted before events were recorded have no date
+        stale.push({ snippet, lastUsed });
+      }
+    }
+
+    return {
+      start: new Date(Date.parse(days[0])),
+      end: now,
+      days,
+      staleDays,
+      total,
+      sources,
+      snippets: used.sort((a, b) => b.total - a.total),
+      languages: Array.from(languages, ([language, trend]) => ({
+        language,
+        ...trend,
+      })).sort((a, b) => b.total - a.total),
+      tags: Array.from(tags, ([tag, trend]) => ({ tag, ...trend })).sort(
+        (a, b) => b.total - a.total
+      ),
+      neverUsed,
+      stale: stale.sort(
+        (a, b) => (a.lastUsed?.getTime() || 0) - (b.lastUsed?.getTime() || 0)
+      ),
+    };
+  }
+
+  /**
+   * Move the usage of a snippet to another one, as when snippets are
+   * merged, or forget it when there is no replacement (e.g. after a delete)
+   */
+  async replaceSnippet(
+    snippetId: string,
+    replacementId?: string
+  ): Promise<Result<void>> {
+    const lastUsed = this.lastUsed.get(snippetId);
+    const hasUsage =
+      !!lastUsed ||
+      this.events.some((event) => event.snippetId === snippetId) ||
+      this.rollups.some((rollup) => rollup.snippetId === snippetId);
+    if (!hasUsage) {
+      return { success: true, data: undefined };
+    }
+
+    const replace = <T extends { snippetId: string }>(entries: T[]): T[] =>
+      entries.flatMap((entry) => {
+        if (entry.snippetId !== snippetId) {
+          return [entry];
+        }
+        return replacementId ? [{ ...entry, snippetId: replacementId }] : [];
+      });
+    this.events = replace(this.events);
+    this.rollups = replace(this.rollups);
+
+    this.lastUsed.delete(snippetId);
+    if (replacementId && lastUsed) {
+      const replacementUsed = this.lastUsed.get(replacementId);
+      if (!replacementUsed || replacementUsed < lastUsed) {
+        this.lastUsed.set(replacementId, lastUsed);
+      }
+    }
+
+    return this.save();
+  }
+
+  /**
+   * Clear in-memory usage
+   */
+  dispose(): void {
+    this.events = [];
+    this.rollups = [];
+    this.lastUsed.clear();
+  }
+
+  /**
+   * Fold events past the retention period into daily counts and drop
+   * daily counts past their own retention period
+   */
+  private rollUp(now: Date): void {
+    const eventsBefore = now.getTime() - this.config.retentionDays * DAY_MS;
+    const rollupsBefore = toDay(
+      new Date(now.getTime() - this.config.rollupRetentionDays * DAY_MS)
+    );
+
+    const rollups = new Map<string, UsageRollup>();
+    const addRollup = (rollup: UsageRollup) => {
+      const key = `${rollup.snippetId}|${rollup.day}|${rollup.source}`;
+      const existing = rollups.get(key);
+      rollups.set(
+        key,
+        existing
+          ? { ...existing, count: existing.count + rollup.count }
+          : rollup
+      );
+    };
+
+    this.rollups.forEach(addRollup);
+    this.events = this.events.filter((event) => {
+      if (event.timestamp.getTime() >= eventsBefore) {
+        return true;
+      }
+      addRollup({
+        snippetId: event.snippetId,
+        day: toDay(event.timestamp),
+        source: event.source,
+        count: 1,
+      });
+      return false;
+    });
+
+    this.rollups = Array.from(rollups.values()).filter(
+      (rollup) => rollup.day >= rollupsBefore
+    );
+  }
+
+  private async save(): Promise<Result<void>> {
+    if (!this.config.filePath) {
+      return { success: true, data: undefined };
+    }
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.config.filePath), {
+        recursive: true,
+      });
+
+      const data = {
+        version: "1.0.0",
+        events: this.events,
+        rollups: this.rollups,
+        lastUsed: Object.fromEntries(this.lastUsed.entries()),
+      };
+
+      await fs.promises.writeFile(
+        this.config.filePath,
+        JSON.stringify(data, null, 2),
+        "utf-8"
+      );
+
+      return { success: true, data: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.storageAccess,
+          "Failed to save usage analytics",
+          {
+            filePath: this.config.filePath,
+            error: error instanceof Error ? error.message : error,
+          },
+          true,
+          "Check file permissions and ensure the storage location is writable"
+        ),
+      };
+    }
+  }
+}
+
+/**
+ * Day of a date as YYYY-MM-DD, in UTC
+ */
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function emptyTrend(days: number): UsageTrend {
+  return { total: 0, daily: new Array(days).fill(0) };
+}
+
+function addUses(trend: UsageTrend, dayIndex: number, uses: number): void {
+  trend.daily[dayIndex] += uses;
+  trend.total += uses;
+}
+
+function mergeTrend(
+  trends: Map<string, UsageTrend>,
+  key: string,
+  trend: UsageTrend
+): void {
+  const merged = trends.get(key) || emptyTrend(trend.daily.length);
+  trend.daily.forEach((uses, index) => addUses(merged, index, uses));
+  trends.set(key, merged);
+}
@@ -0,0 +1,188 @@
+import { SnippetInterface, SnippetData } from "../../types";
+import { toVSCodeSnippetBody } from "../template";
+
+/**
+ * Snippet definition as stored in VS Code `.code-snippets` files and
+ * per-language `snippets/<language>.json` files
+ */
+export interface VSCodeSnippetDefinition {
+  prefix?: string | string[];
+  body: string | string[];
+  description?: string | string[];
+  scope?: string;
+}
+
+/**
+ * Contents of a VS Code snippet file, keyed by snippet name
+ */
+export type VSCodeSnippetFile = Record<string, VSCodeSnippetDefinition>;
+
+/**
+ * Options for converting VS Code snippets to snippet data
+ */
+export interface VSCodeSnippetParseOptions {
+  /** Language for snippets without a scope (e.g. from a per-language file name) */
+  language?: string;
+}
+
+/**
+ * Parse JSON with comments and trailing commas, as allowed in VS Code
+ * snippet files
+ */
+export function parseJsonWithComments(content: string): any {
+  let result = "";
+  let inString = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    const next = content[i + 1];
+
+    if (inString) {
+      result += char;
+      if (char === "\\") {
+        result += next ?? "";
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === "/" && next === "/") {
+      while (i < content.length && content[i] !== "\n") {
+        i++;
+      }
+      result += "\n";
+    } else if (char === "/" && next === "*") {
+      i += 2;
+      while (i < content.length && !(content[i] === "*" && content[i + 1] === "/")) {
+        i++;
+      }
+      i++;
+    } else {
+      result += char;
+    }
+  }
+
+  // Drop trailing commas before closing brackets (outside strings)
+  return JSON.parse(
+    result.replace(/("(?:[^"\\]|\\.)*")|,(\s*[}\]])/g, (match, str, close) =>
+      str !== undefined ? str : close
+    )
+  );
+}
+
+/**
+ * Check whether parsed file content is a VS Code snippet file rather than
+ * our own export envelope or a plain snippet array
+ */
+export function isVSCodeSnippetFile(data: any): data is VSCodeSnippetFile {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return false;
+  }
+
+  if (Array.isArray(data.snippets)) {
+    return false;
+  }
+
+  const entries = Object.values(data);
+  return (
+    entries.length > 0 &&
+    entries.every(
+      (entry: any) =>
+        entry &&
+        typeof entry === "object" &&
+        (typeof entry.body === "string" || Array.isArray(entry.body))
+    )
+  );
+}
+
+/**
+ * Convert a VS Code snippet file to snippet data. `body` maps to `code`,
+ * `scope` to `scope`, and the language comes from the first scope entry or,
+ * without a scope, the options. The first prefix becomes `prefix`, the
+ * others its aliases. Names too long for a title are cut short.
+ */
+export function parseVSCodeSnippets(
+  file: VSCodeSnippetFile,
+  options: VSCodeSnippetParseOptions = {}
+): SnippetData[] {
+  return Object.entries(file).map(([name, definition]) => {
+    const scope = (definition.scope || "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    const language = scope[0] || options.language || "plaintext";
+    const [prefix, ...prefixAliases] = ([] as unknown[])
+      .concat(definition.prefix ?? [])
+      .filter((entry): entry is string => typeof entry === "string" && !!entry);
+    const description = Array.isArray(definition.description)
+      ? definition.description.join("\n")
+      : definition.description;
+
+    return {
+      title: name.slice(0, 100),
+      description: description || "",
+      code: Array.isArray(definition.body)
+        ? definition.body.join("\n")
+        : String(definition.body),
+      language,
+      tags: [],
+      prefix,
+      ...(prefixAliases.length > 0 ? { prefixAliases } : {}),
+      // A scope of just the snippet's own language is implied
+      scope:
+        scope.length === 0 || (scope.length === 1 && scope[0] === language)
+          ? undefined
+          : scope,
+    };
+  });
+}
+
+/**
+ * Convert snippets to a VS Code snippet file. Snippets with custom
+ * variables get a body VS Code can expand; other code is written as is.
+ * The snippet's language leads its scope, so it is read back the same.
+ */
+export function serializeVSCodeSnippets(
+  snippets: SnippetInterface[]
+): VSCodeSnippetFile {
+  const file: VSCodeSnippetFile = {};
+
+  for (const snippet of snippets) {
+    let name = snippet.title;
+    for (let i = 2; file[name]; i++) {
+      name = `${snippet.title} (${i})`;
+    }
+
+    const body =
+      snippet.variables && snippet.variables.length > 0
+        ? toVSCodeSnippetBody(snippet.code, snippet.variables)
+        : snippet.code;
+
+    const prefixes = [snippet.prefix, ...(snippet.prefixAliases || [])].filter(
+      (prefix): prefix is string => !!prefix
+    );
+
+    const scope = snippet.scope?.includes(snippet.language)
+      ? [
+          snippet.language,
+          ...snippet.scope.filter((entry) => entry !== snippet.language),
+        ]
+      : snippet.scope;
+
+    file[name] = {
+      ...(prefixes.length > 0
+        ? { prefix: prefixes.length === 1 ? prefixes[0] : prefixes }
+        : {}),
+      body: body.split("\n"),
+      ...(snippet.description ? { description: snippet.description } : {}),
+      scope: scope?.join(",") || snippet.language,
+    };
+  }
+
+  return file;
+}
@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  AccessTokenService,
+  getRequestToken,
+  getHandshakeToken,
+  createSocketGuard,
+} from "../AccessTokenService";
+
+describe("AccessTokenService", () => {
+  let service: AccessTokenService;
+
+  beforeEach(() => {
+    service = new AccessTokenService({ sessionSecret: "session-secret" });
+  });
+
+  it("should give the session full access", () => {
+    expect(service.authenticate("session-secret")).toEqual({
+      kind: "session",
+      scope: "write",
+    });
+    expect(service.authenticate("wrong")).toBeNull();
+    expect(service.authenticate(undefined)).toBeNull();
+  });
+
+  it("should generate a different session secret for every service", () => {
+    const first = new AccessTokenService().getSessionSecret();
+    const second = new AccessTokenService().getSessionSecret();
+
+    expect(first).toHaveLength(43);
+    expect(first).not.toBe(second);
+  });
+
+  it("should limit API tokens to their scope until revoked", async () => {
+    const created = await service.createToken(" CI ", "read");
+    if (!created.success) {
+      throw new Error(created.error.message);
+    }
+    const { token, apiToken } = created.data;
+
+    expect(token).toMatch(/^sl_/);
+    expect(apiToken).toMatchObject({ name: "CI", scope: "read" });
+    expect(apiToken.tokenHash).not.toContain(token);
+    expect(service.authenticate(token)).toEqual({
+      kind: "token",
+      scope: "read",
+      tokenId: apiToken.id,
+    });
+
+    const revoked = await service.revokeToken(apiToken.id);
+
+    expect(revoked.success).toBe(true);
+    expect(service.authenticate(token)).toBeNull();
+    expect(service.getTokens()).toEqual([]);
+  });
+
+  it("should reject tokens without a name or scope", async () => {
+    const unnamed = await service.createToken("  ", "write");
+    const unscoped = await service.createToken("CI", "admin" as any);
+    const missing = await service.revokeToken("missing");
+
+    expect(unnamed.success).toBe(false);
+    expect(unscoped.success).toBe(false);
+    expect(missing.success).toBe(false);
+    if (missing.success) {
+      return;
+    }
+    expect(missing.error.message).toBe("API token not found");
+  });
+
+  describe("persistence", () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "access-tokens-"));
+      filePath = path.join(tempDir, "tokens.json");
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should keep API tokens but not the session secret", async () => {
+      const first = new AccessTokenService({ filePath });
+      const created = await first.createToken("Deploy", "write");
+      if (!created.success) {
+        throw new Error(created.error.message);
+      }
+
+      const second = new AccessTokenService({ filePath });
+      const loaded = await second.load();
+
+      expect(loaded.success).toBe(true);
+      expect(second.authenticate(created.data.token)?.scope).toBe("write");
+      expect(second.authenticate(first.getSessionSecret())).toBeNull();
+      expect(fs.readFileSync(filePath, "utf-8")).not.toContain(
+        created.data.token
+      );
+    });
+
+    it("should report unreadable token files", async () => {
+      fs.writeFileSync(filePath, "{ not json");
+
+      const result = await new AccessTokenService({ filePath }).load();
+
+      expect(result.success).toBe(false);
+      if (result.success) {
+        return;
+      }
+      expect(result.error.message).toBe("Failed to load API tokens");
+    });
+  });
+
+  describe("request tokens", () => {
+    it("should prefer a bearer token over the session cookie", () => {
+      expect(
+        getRequestToken({
+          authorization: "Bearer sl_abc",
+          cookie: "snippet_library_session=secret",
+        })
+      ).toBe("sl_abc");
+      expect(
+        getRequestToken({
+          cookie: "theme=dark; snippet_library_session=a%2Bb",
+        })
+      ).toBe("a+b");
+      expect(getRequestToken({ authorization: "Basic abc" })).toBeUndefined();
+    });
+
+    it("should treat a malformed session cookie as no token", () => {
+      expect(
+        getRequestToken({ cookie: "snippet_library_session=%E0%A4%A" })
+      ).toBeUndefined();
+    });
+
+    it("should read the auth payload of socket handshakes", () => {
+      expect(
+        getHandshakeToken({
+          auth: { token: "sl_socket" },
+          headers: { authorization: "Bearer sl_header" },
+        })
+      ).toBe("sl_socket");
+      expect(
+        getHandshakeToken({
+          auth: {},
+          headers: { authorization: "Bearer sl_header" },
+        })
+      ).toBe("sl_header");
+    });
+  });
+
+  describe("socket guard", () => {
+    const createSocket = (token?: string) => ({
+      handshake: { auth: { token }, headers: {} },
+      data: {} as Record<string, any>,
+      use: vi.fn(),
+      emit: vi.fn(),
+    });
+
+    it("should reject handshakes without a valid token", () => {
+      const next = vi.fn();
+
+      createSocketGuard(service)(createSocket("wrong") as any, next);
+
+      expect(next.mock.calls[0][0]).toBeInstanceOf(Error);
+      expect(next.mock.calls[0][0].data).toEqual({
+        error: "Unauthorized",
+        message: "A session or API token is required to connect",
+      });
+    });
+
+    it("should turn down events of read-only tokens", async () => {
+      const created = await service.createToken("Reports", "read");
+      if (!created.success) {
+        throw new Error(created.error.message);
+      }
+      const reader = createSocket(created.data.token);
+      const session = createSocket("session-secret");
+      const next = vi.fn();
+
+      createSocketGuard(service)(reader as any, next);
+      createSocketGuard(service)(session as any, next);
+      const [eventGuard] = reader.use.mock.calls[0];
+      const forward = vi.fn();
+      eventGuard(["conflictResolution", { conflictId: "c1" }], forward);
+
+      expect(next).toHaveBeenCalledTimes(2);
+      expect(next).toHaveBeenCalledWith();
+      expect(reader.data.access.scope).toBe("read");
+      expect(forward).not.toHaveBeenCalled();
+      expect(reader.emit).toHaveBeenCalledWith("accessDenied", {
+        error: "Forbidden",
+        message: "This API token can only read the library",
+        event: "conflictResolution",
+      });
+      expect(session.use).not.toHaveBeenCalled();
+    });
+  });
+});
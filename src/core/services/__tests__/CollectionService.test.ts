@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { CollectionService } from "../CollectionService";
+
+describe("CollectionService", () => {
+  let service: CollectionService;
+
+  beforeEach(() => {
+    service = new CollectionService();
+  });
+
+  describe("create and update", () => {
+    it("should only require unique names among siblings", async () => {
+      const frontend = await service.create("Frontend");
+      const backend = await service.create("Backend");
+      if (!frontend.success || !backend.success) {
+        throw new Error("create failed");
+      }
+
+      const first = await service.create("Utils", {
+        parentId: frontend.data.id,
+      });
+      const second = await service.create("utils", {
+        parentId: backend.data.id,
+      });
+      const duplicate = await service.create(" utils ", {
+        parentId: frontend.data.id,
+      });
+
+      expect(first.success).toBe(true);
+      expect(second.success).toBe(true);
+      expect(duplicate.success).toBe(false);
+      if (duplicate.success) {
+        return;
+      }
+      expect(duplicate.error.message).toBe(
+        "Collection with this name already exists"
+      );
+    });
+
+    it("should not move a collection with children under another", async () => {
+      const parent = await service.create("Frontend");
+      const other = await service.create("Backend");
+      if (!parent.success || !other.success) {
+        throw new Error("create failed");
+      }
+      await service.create("React", { parentId: parent.data.id });
+
+      const moved = await service.update(parent.data.id, {
+        parentId: other.data.id,
+      });
+
+      expect(moved.success).toBe(false);
+      expect(service.get(parent.data.id)?.parentId).toBeUndefined();
+    });
+
+    it("should delete subcollections with their parent", async () => {
+      const parent = await service.create("Frontend");
+      if (!parent.success) {
+        throw new Error("create failed");
+      }
+      await service.create("React", { parentId: parent.data.id });
+      await service.create("Backend");
+
+      const result = await service.delete(parent.data.id);
+
+      expect(result.success).toBe(true);
+      expect(service.getAll().map((collection) => collection.name)).toEqual([
+        "Backend",
+      ]);
+    });
+  });
+
+  describe("snippet order", () => {
+    let id: string;
+
+    beforeEach(async () => {
+      const created = await service.create("Favorites");
+      if (!created.success) {
+        throw new Error("create failed");
+      }
+      id = created.data.id;
+      await service.addSnippets(id, ["a", "b", "c"]);
+    });
+
+    it("should move snippets that are added again", async () => {
+      const result = await service.addSnippets(id, ["c", "d"], 1);
+
+      expect(result.success).toBe(true);
+      expect(service.get(id)?.snippetIds).toEqual(["a", "c", "d", "b"]);
+    });
+
+    it("should reject orders with other snippets", async () => {
+      const missing = await service.reorderSnippets(id, ["c", "a"]);
+      const reordered = await service.reorderSnippets(id, ["c", "a", "b"]);
+
+      expect(missing.success).toBe(false);
+      expect(reordered.success).toBe(true);
+      expect(service.get(id)?.snippetIds).toEqual(["c", "a", "b"]);
+    });
+
+    it("should replace or remove a snippet everywhere", async () => {
+      const other = await service.create("Other");
+      if (!other.success) {
+        throw new Error("create failed");
+      }
+      await service.addSnippets(other.data.id, ["b", "e"]);
+
+      await service.replaceSnippet("b", "e");
+      await service.replaceSnippet("c");
+
+      expect(service.get(id)?.snippetIds).toEqual(["a", "e"]);
+      expect(service.get(other.data.id)?.snippetIds).toEqual(["e"]);
+    });
+  });
+
+  describe("persistence", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "collections-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should persist and reload collections", async () => {
+      const filePath = path.join(tempDir, "snippets.collections.json");
+      const writer = new CollectionService({ filePath });
+      const parent = await writer.create("Frontend", {
+        description: "UI snippets",
+      });
+      if (!parent.success) {
+        throw new Error("create failed");
+      }
+      const child = await writer.create("React", {
+        parentId: parent.data.id,
+      });
+      if (!child.success) {
+        throw new Error("create failed");
+      }
+      await writer.addSnippets(child.data.id, ["b", "a"]);
+
+      const reader = new CollectionService({ filePath });
+      const loadResult = await reader.load();
+
+      expect(loadResult.success).toBe(true);
+      expect(reader.get(parent.data.id)?.description).toBe("UI snippets");
+      expect(reader.getChildren(parent.data.id)).toHaveLength(1);
+      expect(reader.get(child.data.id)?.snippetIds).toEqual(["b", "a"]);
+      expect(reader.get(child.data.id)?.createdAt).toBeInstanceOf(Date);
+    });
+  });
+});
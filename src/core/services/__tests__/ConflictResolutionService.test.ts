@@ -4,6 +4,8 @@ import {
   ConflictType,
   Conflict,
   ResolutionStrategy,
+  describeConflict,
+  applyFieldResolution,
 } from "../ConflictResolutionService";
 import { SnippetInterface } from "../../../types";
 
@@ -287,6 +289,151 @@ describe("ConflictResolutionService", () => {
     });
   });
 
+  describe("three-way merge", () => {
+    let baseSnippet: SnippetInterface;
+
+    beforeEach(() => {
+      baseSnippet = {
+        ...localSnippet,
+        title: "Shared Snippet",
+        code: "const a = 1;\nconst b = 2;\nconst c = 3;",
+        tags: ["test", "shared"],
+      };
+    });
+
+    const detect = (
+      local: Partial<SnippetInterface>,
+      remote: Partial<SnippetInterface>
+    ) =>
+      conflictService.detectConflict(
+        { ...baseSnippet, ...local },
+        { ...baseSnippet, updatedAt: new Date("2023-01-03"), ...remote },
+        "git",
+        baseSnippet
+      )!;
+
+    it("should merge edits to different lines of code", async () => {
+      const conflict = detect(
+        { code: "const a = 10;\nconst b = 2;\nconst c = 3;" },
+        {
+          code: "const a = 1;\nconst b = 2;\nconst c = 30;",
+          tags: ["test", "shared", "numbers"],
+        }
+      );
+
+      const result = await conflictService.resolveConflict(conflict, {
+        type: "merge",
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.resolvedSnippet.code).toBe(
+        "const a = 10;\nconst b = 2;\nconst c = 30;"
+      );
+      expect(result.data.resolvedSnippet.tags).toEqual([
+        "test",
+        "shared",
+        "numbers",
+      ]);
+      expect(result.data.changes).toContain("Merged code from both versions");
+      expect(result.data.hunks).toBeUndefined();
+    });
+
+    it("should take fields changed on one side only", async () => {
+      const conflict = detect(
+        { title: "Renamed Locally" },
+        { description: "Remote description", tags: ["test"] }
+      );
+
+      const result = await conflictService.resolveConflict(conflict, {
+        type: "merge",
+      });
+
+      expect(result.data.resolvedSnippet).toMatchObject({
+        title: "Renamed Locally",
+        description: "Remote description",
+        tags: ["test"],
+      });
+    });
+
+    it("should mark overlapping code changes with conflict markers", async () => {
+      const conflict = detect(
+        { code: "const a = 1;\nconst b = 20;\nconst c = 3;" },
+        { code: "const a = 1;\nconst b = 200;\nconst c = 3;" }
+      );
+
+      const result = await conflictService.resolveConflict(conflict, {
+        type: "merge",
+      });
+
+      expect(result.data.resolvedSnippet.code).toBe(
+        [
+          "const a = 1;",
+          "<<<<<<< local",
+          "const b = 20;",
+          "=======",
+          "const b = 200;",
+          ">>>>>>> remote",
+          "const c = 3;",
+        ].join("\n")
+      );
+      expect(result.data.changes).toContain(
+        "Conflicting changes to code at line 2 marked in the merged code"
+      );
+      expect(result.data.hunks).toEqual([
+        {
+          field: "code",
+          baseLine: 2,
+          base: "const b = 2;",
+          local: "const b = 20;",
+          remote: "const b = 200;",
+        },
+      ]);
+    });
+
+    it("should report overlapping changes as hunks only when asked", async () => {
+      const conflict = detect(
+        { title: "Local Title", code: "const a = 1;\nconst b = 20;" },
+        { title: "Remote Title", code: "const a = 1;\nconst b = 200;" }
+      );
+
+      const result = await conflictService.resolveConflict(conflict, {
+        type: "merge",
+        conflictStyle: "hunks",
+      });
+
+      expect(result.data.resolvedSnippet.code).toBe(
+        "const a = 1;\nconst b = 20;"
+      );
+      expect(result.data.resolvedSnippet.title).toBe("Local Title");
+      expect(result.data.hunks?.map((hunk) => hunk.field)).toEqual([
+        "code",
+        "title",
+      ]);
+    });
+
+    it("should use the stored base revision and update it on resolution", async () => {
+      conflictService.recordBaseRevision(baseSnippet);
+      const conflict = conflictService.detectConflict(
+        { ...baseSnippet, title: "Local Title" },
+        { ...baseSnippet, code: "changed();" },
+        "vscode"
+      )!;
+      expect(conflict.baseSnippet).toEqual(baseSnippet);
+
+      const result = await conflictService.resolveConflict(conflict, {
+        type: "merge",
+      });
+
+      expect(result.data.resolvedSnippet).toMatchObject({
+        title: "Local Title",
+        code: "changed();",
+      });
+      expect(conflictService.getBaseRevision(baseSnippet.id)).toEqual(
+        result.data.resolvedSnippet
+      );
+    });
+  });
+
   describe("auto-resolution", () => {
     it("should auto-resolve resolvable conflicts", async () => {
       const conflicts: Conflict[] = [
@@ -360,6 +507,53 @@ describe("ConflictResolutionService", () => {
     });
   });
 
+  describe("field resolution", () => {
+    it("should describe the fields that differ", () => {
+      const conflict = conflictService.detectConflict(
+        localSnippet,
+        { ...remoteSnippet, code: "console.log('local');\nreturn;" },
+        "webgui"
+      )!;
+
+      const details = describeConflict(conflict);
+
+      expect(details.id).toBe(conflict.id);
+      expect(details.fields.map((field) => field.field)).toEqual([
+        "title",
+        "description",
+        "code",
+        "tags",
+        "category",
+      ]);
+      expect(details.fields[0]).toEqual({
+        field: "title",
+        local: "Local Snippet",
+        remote: "Remote Snippet",
+      });
+      expect(details.fields[2].diff?.map((line) => line.type)).toEqual([
+        "unchanged",
+        "added",
+      ]);
+    });
+
+    it("should apply picked fields and edited values", () => {
+      const resolved = applyFieldResolution(localSnippet, remoteSnippet, {
+        fields: { title: "remote", tags: "remote", code: "local" },
+        merged: { description: "Edited description" },
+      });
+
+      expect(resolved).toMatchObject({
+        id: "test-1",
+        title: "Remote Snippet",
+        tags: ["remote", "test"],
+        code: localSnippet.code,
+        description: "Edited description",
+        category: "utilities",
+        usageCount: 5,
+      });
+    });
+  });
+
   describe("conflict management", () => {
     let conflict: Conflict;
 
@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest";
+import {
+  DuplicateDetectionService,
+  normalizeCode,
+} from "../DuplicateDetectionService";
+import { SnippetInterface } from "../../../types";
+
+const createSnippet = (
+  id: string,
+  code: string,
+  overrides: Partial<SnippetInterface> = {}
+): SnippetInterface => ({
+  id,
+  title: `Snippet ${id}`,
+  description: "",
+  code,
+  language: "javascript",
+  tags: [],
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+  usageCount: 0,
+  ...overrides,
+});
+
+const fetchJson =
+  "async function load(url) {\n" +
+  "  const response = await fetch(url);\n" +
+  "  if (!response.ok) throw new Error(response.statusText);\n" +
+  "  return response.json();\n" +
+  "}";
+
+describe("DuplicateDetectionService", () => {
+  const service = new DuplicateDetectionService();
+
+  describe("normalizeCode", () => {
+    it("should ignore whitespace, comments and identifier names", () => {
+      expect(normalizeCode("a = b + a; // sum", "javascript")).toEqual(
+        normalizeCode("total  =\n count+total;", "javascript")
+      );
+      expect(normalizeCode("a = b - a;", "javascript")).not.toEqual(
+        normalizeCode("a = b + a;", "javascript")
+      );
+    });
+
+    it("should keep names when asked", () => {
+      expect(normalizeCode("log(x)", "javascript", true)).toEqual([
+        "log",
+        "(",
+        "x",
+        ")",
+      ]);
+    });
+  });
+
+  describe("findDuplicates", () => {
+    it("should group exact duplicates regardless of formatting and names", () => {
+      const renamed = fetchJson
+        .replace(/response/g, "res")
+        .replace(/url/g, "endpoint")
+        .replace(/\n\s*/g, " ");
+
+      const groups = service.findDuplicates([
+        createSnippet("a", fetchJson, { usageCount: 2 }),
+        createSnippet("b", `// Fetch JSON\n${renamed}`, { usageCount: 5 }),
+        createSnippet("c", "SELECT * FROM users;", { language: "sql" }),
+      ]);
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0]).toMatchObject({
+        id: "duplicates-a",
+        similarity: 1,
+        exact: true,
+      });
+      // Most used first, as the suggested snippet to keep
+      expect(groups[0].snippets.map((snippet) => snippet.id)).toEqual([
+        "b",
+        "a",
+      ]);
+    });
+
+    it("should group near duplicates above the threshold", () => {
+      const extended = fetchJson.replace(
+        "  return response.json();",
+        "  console.log(response.status);\n  return response.json();"
+      );
+
+      const snippets = [
+        createSnippet("a", fetchJson),
+        createSnippet("b", extended),
+      ];
+
+      const groups = service.findDuplicates(snippets, { threshold: 0.6 });
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0].exact).toBe(false);
+      expect(groups[0].similarity).toBeGreaterThanOrEqual(0.6);
+      expect(groups[0].similarity).toBeLessThan(1);
+      expect(service.findDuplicates(snippets, { threshold: 0.95 })).toEqual(
+        []
+      );
+    });
+
+    it("should put every linked snippet in one group", () => {
+      const lines = Array.from(
+        { length: 12 },
+        (_, i) => `items.push(format(value${i}, ${i}));`
+      );
+      const first = lines.join("\n");
+      const second = [...lines.slice(0, 11), "items.sort();"].join("\n");
+      const third = [...lines.slice(0, 10), "items.sort();", "done();"].join(
+        "\n"
+      );
+
+      const groups = service.findDuplicates(
+        [
+          createSnippet("a", first),
+          createSnippet("b", second),
+          createSnippet("c", third),
+        ],
+        { threshold: 0.7 }
+      );
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0].snippets).toHaveLength(3);
+    });
+
+    it("should only match short snippets with the same names", () => {
+      const groups = service.findDuplicates([
+        createSnippet("a", "console.log(x);"),
+        createSnippet("b", "console.log(x) ;"),
+        createSnippet("c", "window.alert(y);"),
+        createSnippet("d", ""),
+      ]);
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0].snippets.map((snippet) => snippet.id).sort()).toEqual([
+        "a",
+        "b",
+      ]);
+    });
+
+    it("should compare two snippets", () => {
+      expect(
+        service.compare(
+          createSnippet("a", fetchJson),
+          createSnippet("b", fetchJson.replace(/url/g, "path"))
+        )
+      ).toBe(1);
+      expect(
+        service.compare(
+          createSnippet("a", fetchJson),
+          createSnippet("b", "SELECT * FROM users;")
+        )
+      ).toBe(0);
+    });
+  });
+});
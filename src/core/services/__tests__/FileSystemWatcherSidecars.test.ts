@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { FileSystemWatcherImpl } from "../FileSystemWatcher";
+import { serializeSnippetFiles } from "../SnippetFileLayout";
+import { StorageChange } from "../../../types";
+
+describe("FileSystemWatcher with snippet sidecars", () => {
+  let tempDir: string;
+  let watcher: FileSystemWatcherImpl;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "snippet-sidecars-"));
+    watcher = new FileSystemWatcherImpl({
+      watchPath: tempDir,
+      debounceMs: 10,
+      recursive: true,
+      ignorePatterns: [],
+    });
+  });
+
+  afterEach(() => {
+    watcher.dispose();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should report the snippet ID of sidecars deleted after starting", async () => {
+    const files = serializeSnippetFiles(
+      {
+        id: "a1b2c3",
+        title: "Fetch JSON",
+        description: "",
+        code: "fetch(url);",
+        language: "javascript",
+        tags: [],
+        createdAt: new Date("2024-01-01"),
+        updatedAt: new Date("2024-01-01"),
+        usageCount: 0,
+      },
+      tempDir,
+      "fetch-json",
+      "json"
+    );
+    fs.writeFileSync(files.metadataPath, files.metadataContent);
+    fs.writeFileSync(files.codePath, files.codeContent);
+    await watcher.start();
+
+    const deleted = new Promise<StorageChange>((resolve) => {
+      watcher.onStorageChange((change) => {
+        if (change.type === "deleted") {
+          resolve(change);
+        }
+      });
+    });
+    fs.rmSync(files.metadataPath);
+
+    expect((await deleted).snippet.id).toBe("a1b2c3");
+  });
+});
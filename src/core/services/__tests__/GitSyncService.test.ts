@@ -0,0 +1,256 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { GitSyncServiceImpl } from "../GitSyncService";
+import { ConflictResolutionServiceImpl } from "../ConflictResolutionService";
+import { SnippetInterface } from "../../../types";
+
+const createSnippet = (
+  overrides: Partial<SnippetInterface> = {}
+): SnippetInterface => ({
+  id: "snippet-1",
+  title: "Fetch JSON",
+  description: "Fetch a URL and parse the response",
+  code: "const res = await fetch(url);",
+  language: "javascript",
+  tags: ["http"],
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2024-01-02T00:00:00.000Z"),
+  usageCount: 0,
+  ...overrides,
+});
+
+describe("GitSyncService", () => {
+  let tempDir: string;
+  let remote: string;
+  let alice: GitSyncServiceImpl;
+  let bob: GitSyncServiceImpl;
+
+  const createClone = async (
+    name: string,
+    conflictResolver = new ConflictResolutionServiceImpl()
+  ) => {
+    const service = new GitSyncServiceImpl(conflictResolver);
+    const result = await service.initialize({
+      remote,
+      workingDirectory: path.join(tempDir, name),
+    });
+    expect(result.success).toBe(true);
+    return service;
+  };
+
+  const remoteLog = () =>
+    execFileSync("git", ["log", "--format=%s", "main"], {
+      cwd: remote,
+      encoding: "utf-8",
+    })
+      .trim()
+      .split("\n");
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "git-sync-"));
+    remote = path.join(tempDir, "remote.git");
+    execFileSync("git", ["init", "--bare", "--quiet", remote]);
+
+    alice = await createClone("alice");
+    bob = await createClone("bob");
+  });
+
+  afterEach(() => {
+    alice.dispose();
+    bob.dispose();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should push the local library to an empty repository", async () => {
+    const result = await alice.sync([
+      createSnippet(),
+      createSnippet({ id: "snippet-2", title: "Debounce" }),
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      committed: true,
+      pushed: true,
+      pulled: 0,
+      conflicts: [],
+    });
+    expect(remoteLog()).toEqual(["Update snippet library"]);
+    expect(alice.getStatus()).toMatchObject({
+      branch: "main",
+      inProgress: false,
+      lastCommit: result.data?.commit,
+      lastError: null,
+      conflicts: 0,
+    });
+  });
+
+  it("should pull snippets into an empty library, keeping their IDs", async () => {
+    await alice.sync([createSnippet({ usageCount: 5 })]);
+
+    const result = await bob.sync([]);
+
+    expect(result.success).toBe(true);
+    expect(result.data?.pulled).toBe(1);
+    expect(result.data?.pushed).toBe(false);
+    expect(result.data?.snippets).toEqual([createSnippet()]);
+  });
+
+  it("should merge edits to different snippets from both sides", async () => {
+    const first = createSnippet();
+    const second = createSnippet({ id: "snippet-2", title: "Debounce" });
+    await alice.sync([first, second]);
+    await bob.sync([]);
+
+    const aliceLibrary = [
+      { ...first, code: "const res = await fetch(u);" },
+      second,
+    ];
+    await alice.sync(aliceLibrary);
+    const result = await bob.sync([
+      first,
+      { ...second, tags: ["timing"] },
+      createSnippet({ id: "snippet-3", title: "Throttle" }),
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.data?.conflicts).toEqual([]);
+    expect(result.data?.pulled).toBe(1);
+    expect(
+      result.data?.snippets.map((snippet) => [snippet.id, snippet.code])
+    ).toEqual([
+      ["snippet-1", "const res = await fetch(u);"],
+      ["snippet-2", second.code],
+      ["snippet-3", first.code],
+    ]);
+    expect(remoteLog()[0]).toBe("Merge remote snippet changes");
+
+    // The other side now fast-forwards to the merged library
+    const aliceResult = await alice.sync(aliceLibrary);
+    expect(aliceResult.data?.pulled).toBe(2);
+    expect(aliceResult.data?.pushed).toBe(false);
+    expect(aliceResult.data?.snippets).toEqual(result.data?.snippets);
+    expect(aliceResult.data?.commit).toBe(result.data?.commit);
+  });
+
+  it("should report divergent edits as git conflicts and keep the local version", async () => {
+    const snippet = createSnippet();
+    await alice.sync([snippet]);
+    await bob.sync([]);
+
+    await alice.sync([{ ...snippet, code: "return fetch(url).then(parse);" }]);
+    const result = await bob.sync([
+      { ...snippet, code: "const data = await (await fetch(url)).json();" },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.data?.conflicts).toHaveLength(1);
+    expect(result.data?.conflicts[0]).toMatchObject({
+      snippetId: "snippet-1",
+      source: "git",
+      localSnippet: {
+        code: "const data = await (await fetch(url)).json();",
+      },
+      remoteSnippet: { code: "return fetch(url).then(parse);" },
+      baseSnippet: { code: snippet.code },
+    });
+    expect(result.data?.snippets[0].code).toBe(
+      "const data = await (await fetch(url)).json();"
+    );
+    expect(bob.getStatus().conflicts).toBe(1);
+  });
+
+  it("should not push either edit of a conflict until it is resolved", async () => {
+    const resolver = new ConflictResolutionServiceImpl();
+    const carol = await createClone("carol", resolver);
+    const snippet = createSnippet();
+    const aliceVersion = { ...snippet, code: "return fetch(url).then(j);" };
+    const carolVersion = { ...snippet, code: "return fetch(url).then(k);" };
+    await alice.sync([snippet]);
+    await carol.sync([]);
+    await alice.sync([aliceVersion]);
+
+    const merged = await carol.sync([carolVersion]);
+    const again = await carol.sync([carolVersion]);
+    const aliceResult = await alice.sync([aliceVersion]);
+
+    expect(merged.data?.conflicts).toHaveLength(1);
+    expect(resolver.getPendingConflicts()).toEqual(merged.data?.conflicts);
+    expect(again.data).toMatchObject({ pushed: false, pulled: 0 });
+    expect(again.data?.snippets[0].code).toBe(carolVersion.code);
+    expect(aliceResult.data?.pulled).toBe(0);
+    expect(aliceResult.data?.snippets[0].code).toBe(aliceVersion.code);
+
+    // The version chosen on resolving reaches the other clone
+    await resolver.resolveConflict(resolver.getPendingConflicts()[0], {
+      type: "local_wins",
+    });
+    const resolved = await carol.sync([carolVersion]);
+    const alicePull = await alice.sync([aliceVersion]);
+    carol.dispose();
+
+    expect(resolved.data?.pushed).toBe(true);
+    expect(alicePull.data?.pulled).toBe(1);
+    expect(alicePull.data?.snippets[0].code).toBe(carolVersion.code);
+  });
+
+  it("should keep holding conflicts after a restart", async () => {
+    const snippet = createSnippet();
+    const aliceVersion = { ...snippet, code: "return fetch(url).then(j);" };
+    const bobVersion = { ...snippet, code: "return fetch(url).then(k);" };
+    await alice.sync([snippet]);
+    await bob.sync([]);
+    await alice.sync([aliceVersion]);
+    const merged = await bob.sync([bobVersion]);
+    bob.dispose();
+
+    const resolver = new ConflictResolutionServiceImpl();
+    bob = await createClone("bob", resolver);
+    const restarted = await bob.sync([bobVersion]);
+    const aliceResult = await alice.sync([aliceVersion]);
+
+    expect(merged.data?.changedIds).toEqual([]);
+    expect(resolver.getPendingConflicts()).toEqual(merged.data?.conflicts);
+    expect(restarted.data).toMatchObject({ pushed: false, pulled: 0 });
+    expect(aliceResult.data?.snippets[0].code).toBe(aliceVersion.code);
+
+    await resolver.resolveConflict(resolver.getPendingConflicts()[0], {
+      type: "local_wins",
+    });
+    bob.dispose();
+    bob = await createClone("bob", new ConflictResolutionServiceImpl());
+    const resolved = await bob.sync([bobVersion]);
+
+    expect(resolved.data?.pushed).toBe(true);
+    expect(resolved.data?.conflicts).toEqual([]);
+  });
+
+  it("should not commit usage-only changes", async () => {
+    const snippet = createSnippet();
+    await alice.sync([snippet]);
+
+    const result = await alice.sync([
+      { ...snippet, usageCount: 3, updatedAt: new Date() },
+    ]);
+
+    expect(result.data?.committed).toBe(false);
+    expect(result.data?.pushed).toBe(false);
+    expect(remoteLog()).toHaveLength(1);
+  });
+
+  it("should report failures through the status", async () => {
+    const broken = new GitSyncServiceImpl(new ConflictResolutionServiceImpl());
+    await broken.initialize({
+      remote: path.join(tempDir, "missing.git"),
+      workingDirectory: path.join(tempDir, "broken"),
+    });
+
+    const result = await broken.sync([createSnippet()]);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe("Failed to sync the library with git");
+    expect(broken.getStatus().lastError).toBeTruthy();
+  });
+});
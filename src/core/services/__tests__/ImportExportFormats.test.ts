@@ -361,6 +361,178 @@ console.log(\`Template: \${message}\`);`,
     });
   });
 
+  describe("VS Code Snippet Format Export/Import Cycle", () => {
+    it("should round-trip prefix, body, description, scope and language", async () => {
+      const exportPath = "/tmp/test-export.code-snippets";
+
+      const exportResult = await importExportService.exportToFile({
+        format: "vscode",
+        filePath: exportPath,
+      });
+      expect(exportResult.success).toBe(true);
+
+      const content = vi.mocked(fs.writeFile).mock.calls[0][1] as string;
+      const file = JSON.parse(content);
+      expect(file["React Component"]).toMatchObject({
+        prefix: "rfc",
+        description: "Basic React functional component",
+        scope: "javascript,typescript,jsx,tsx",
+      });
+      expect(file["React Component"].body).toEqual(
+        sampleSnippets[0].code.split("\n")
+      );
+      expect(file["Python Class"].scope).toBe("python");
+
+      vi.mocked(fs.readFile).mockResolvedValue(content);
+
+      const importResult = await importExportService.importFromFile({
+        filePath: exportPath,
+        conflictResolution: "rename",
+      });
+      expect(importResult.success).toBe(true);
+
+      const importCall = vi.mocked(mockSnippetManager.importSnippets).mock
+        .calls[0][0];
+      expect(importCall.conflictResolution).toBe("rename");
+      expect(importCall.snippets).toHaveLength(3);
+      expect(importCall.snippets[0]).toMatchObject({
+        title: "React Component",
+        description: sampleSnippets[0].description,
+        code: sampleSnippets[0].code,
+        language: "javascript",
+        prefix: "rfc",
+        scope: ["javascript", "typescript", "jsx", "tsx"],
+      });
+      expect(importCall.snippets[1]).toMatchObject({
+        title: "Python Class",
+        language: "python",
+        scope: undefined,
+      });
+    });
+
+    it("should import per-language snippet files with comments", async () => {
+      vi.mocked(fs.readFile).mockResolvedValue(`{
+  // Place your snippets for javascript here
+  "Print to console": {
+    "prefix": "log",
+    "body": ["console.log('$1');", "$2"],
+    "description": "Log output to console",
+  },
+}`);
+
+      const result = await importExportService.importFromFile({
+        filePath: "/home/user/.config/Code/User/snippets/javascript.json",
+        conflictResolution: "skip",
+      });
+
+      expect(result.success).toBe(true);
+      const importCall = vi.mocked(mockSnippetManager.importSnippets).mock
+        .calls[0][0];
+      expect(importCall.snippets).toEqual([
+        {
+          title: "Print to console",
+          description: "Log output to console",
+          code: "console.log('$1');\n$2",
+          language: "javascript",
+          tags: [],
+          prefix: "log",
+          scope: undefined,
+        },
+      ]);
+    });
+
+    it("should not take a language from collection file names", async () => {
+      vi.mocked(fs.readFile).mockResolvedValue(
+        JSON.stringify({
+          Note: { body: "TODO" },
+          Log: { body: "print($1)", scope: "python" },
+        })
+      );
+
+      await importExportService.importFromFile({
+        filePath: "/home/user/project/snippets/snippets.json",
+        conflictResolution: "skip",
+      });
+
+      const importCall = vi.mocked(mockSnippetManager.importSnippets).mock
+        .calls[0][0];
+      expect(importCall.snippets.map((snippet) => snippet.language)).toEqual([
+        "plaintext",
+        "python",
+      ]);
+    });
+
+    it("should reject .code-snippets files without snippet bodies", async () => {
+      vi.mocked(fs.readFile).mockResolvedValue(
+        JSON.stringify({ broken: { prefix: "x" } })
+      );
+
+      const result = await importExportService.importFromFile({
+        filePath: "/tmp/broken.code-snippets",
+        conflictResolution: "skip",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe("Invalid VS Code snippet file");
+      expect(mockSnippetManager.importSnippets).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Markdown Format Export/Import Cycle", () => {
+    it("should round-trip snippets through a Markdown document", async () => {
+      const exportPath = "/tmp/test-export.md";
+
+      const exportResult = await importExportService.exportToFile({
+        format: "markdown",
+        filePath: exportPath,
+      });
+      expect(exportResult.success).toBe(true);
+
+      const content = vi.mocked(fs.writeFile).mock.calls[0][1] as string;
+      expect(content).toContain("## React Component");
+      expect(content).toContain("```javascript\nimport React from 'react';");
+
+      vi.mocked(fs.readFile).mockResolvedValue(content);
+
+      const importResult = await importExportService.importFromFile({
+        filePath: exportPath,
+        conflictResolution: "skip",
+      });
+      expect(importResult.success).toBe(true);
+
+      const importCall = vi.mocked(mockSnippetManager.importSnippets).mock
+        .calls[0][0];
+      expect(importCall.snippets).toHaveLength(sampleSnippets.length);
+      importCall.snippets.forEach((snippet, index) => {
+        const original = sampleSnippets[index];
+        expect(snippet).toMatchObject({
+          title: original.title,
+          description: original.description,
+          code: original.code,
+          language: original.language,
+          tags: original.tags,
+          category: original.category,
+          prefix: original.prefix,
+          scope: original.scope,
+        });
+      });
+    });
+
+    it("should import nothing from Markdown files without code blocks", async () => {
+      vi.mocked(fs.readFile).mockResolvedValue("# Notes\n\nNo code here.\n");
+
+      const result = await importExportService.importFromFile({
+        filePath: "/tmp/notes.markdown",
+        conflictResolution: "skip",
+      });
+
+      expect(result.success).toBe(true);
+      const importCall = vi.mocked(mockSnippetManager.importSnippets).mock
+        .calls[0][0];
+      expect(importCall.snippets).toEqual([]);
+    });
+  });
+
   describe("Cross-Format Compatibility", () => {
     it("should import JSON data exported as YAML", async () => {
       // First export as JSON
@@ -204,7 +204,7 @@ describe("ImportExportService - Integration Tests", () => {
       expect(importExportService.isFormatSupported("xml")).toBe(false);
 
       const formats = importExportService.getSupportedFormats();
-      expect(formats).toEqual(["json", "yaml"]);
+      expect(formats).toEqual(["json", "yaml", "vscode", "markdown"]);
     });
   });
 
@@ -332,6 +332,34 @@ snippets:
       });
     });
 
+    it("should import collections exported with the snippets", async () => {
+      const collections = [
+        {
+          id: "collection-1",
+          name: "Debugging",
+          snippetIds: ["1"],
+          createdAt: "2023-01-01T00:00:00.000Z",
+          updatedAt: "2023-01-01T00:00:00.000Z",
+        },
+      ];
+      vi.mocked(fs.readFile).mockResolvedValue(
+        JSON.stringify({ snippets: [mockSnippets[0]], collections })
+      );
+
+      const result = await importExportService.importFromFile({
+        filePath: path.join(tempDir, "import.json"),
+        conflictResolution: "skip",
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockSnippetManager.importSnippets).toHaveBeenCalledWith(
+        expect.objectContaining({
+          snippets: [expect.objectContaining({ id: "1" })],
+          collections,
+        })
+      );
+    });
+
     it("should handle file not found", async () => {
       vi.mocked(fs.access).mockRejectedValue(new Error("File not found"));
 
@@ -554,7 +582,7 @@ snippets:
 
     it("should return supported formats", () => {
       const formats = importExportService.getSupportedFormats();
-      expect(formats).toEqual(["json", "yaml"]);
+      expect(formats).toEqual(["json", "yaml", "vscode", "markdown"]);
     });
   });
 
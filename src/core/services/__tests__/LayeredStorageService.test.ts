@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { LayeredStorageService } from "../LayeredStorageService";
+import { FileSystemStorageService } from "../FileSystemStorageService";
+import { SnippetManagerImpl } from "../SnippetManagerImpl";
+import { createTeamStorageService } from "../index";
+import { PerSnippetStorageService } from "../PerSnippetStorageService";
+import { SnippetInterface } from "../../../types";
+
+const createSnippet = (
+  overrides: Partial<SnippetInterface> = {}
+): SnippetInterface => ({
+  id: "snippet-1",
+  title: "Fetch JSON",
+  description: "Fetch a URL and parse the response",
+  code: "const res = await fetch(url);",
+  language: "javascript",
+  tags: ["http"],
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2024-01-02T00:00:00.000Z"),
+  usageCount: 0,
+  ...overrides,
+});
+
+describe("LayeredStorageService", () => {
+  let tempDir: string;
+  let storage: LayeredStorageService;
+
+  const libraryFile = (name: string) =>
+    path.join(tempDir, name, "snippets.json");
+
+  const readLibrary = (name: string): SnippetInterface[] =>
+    JSON.parse(fs.readFileSync(libraryFile(name), "utf-8")).snippets;
+
+  const writeLibrary = (name: string, snippets: SnippetInterface[]) => {
+    fs.mkdirSync(path.join(tempDir, name), { recursive: true });
+    fs.writeFileSync(libraryFile(name), JSON.stringify({ snippets }));
+  };
+
+  const createLibrary = (name: string) =>
+    new FileSystemStorageService({
+      location: "global",
+      path: libraryFile(name),
+      format: "json",
+      autoBackup: false,
+    });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "layered-storage-"));
+
+    writeLibrary("workspace", [
+      createSnippet({ id: "ws-1", title: "Workspace Only", prefix: "ws" }),
+      createSnippet({ id: "shared-id", title: "Workspace Override" }),
+    ]);
+    writeLibrary("global", [
+      createSnippet({ id: "gl-1", title: "Personal", prefix: "log" }),
+      createSnippet({ id: "shared-id", title: "Personal Original" }),
+    ]);
+    writeLibrary("team", [
+      createSnippet({ id: "team-1", title: "Team Logger", prefix: "log" }),
+      createSnippet({ id: "team-2", title: "Team Fetch", prefix: "tfetch" }),
+    ]);
+
+    storage = new LayeredStorageService({
+      layers: [
+        { source: "workspace", storage: createLibrary("workspace") },
+        { source: "global", storage: createLibrary("global") },
+        { source: "team", storage: createLibrary("team"), readOnly: true },
+      ],
+      writeSource: "global",
+    });
+  });
+
+  afterEach(() => {
+    storage.dispose();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should merge libraries by precedence and tag each snippet with its source", async () => {
+    const result = await storage.loadSnippets();
+
+    expect(result.success).toBe(true);
+    expect(
+      result.data?.map((snippet) => [snippet.id, snippet.title, snippet.source])
+    ).toEqual([
+      ["ws-1", "Workspace Only", "workspace"],
+      ["shared-id", "Workspace Override", "workspace"],
+      ["gl-1", "Personal", "global"],
+      // team-1 is hidden: its "log" prefix is taken by the global library
+      ["team-2", "Team Fetch", "team"],
+    ]);
+  });
+
+  it("should write edits back to the owning library only", async () => {
+    const snippets = (await storage.loadSnippets()).data!;
+    const personal = snippets.find((snippet) => snippet.id === "gl-1")!;
+    personal.title = "Personal Edited";
+    const teamFile = fs.readFileSync(libraryFile("team"), "utf-8");
+
+    const result = await storage.saveSnippets(snippets);
+
+    expect(result.success).toBe(true);
+    expect(readLibrary("global").map((snippet) => snippet.title)).toEqual([
+      "Personal Edited",
+      // Shadowed snippets stay on disk
+      "Personal Original",
+    ]);
+    expect(readLibrary("global")[0]).not.toHaveProperty("source");
+    expect(readLibrary("workspace")).toHaveLength(2);
+    expect(fs.readFileSync(libraryFile("team"), "utf-8")).toBe(teamFile);
+  });
+
+  it("should save new snippets to the write library and delete from the owner", async () => {
+    const snippets = (await storage.loadSnippets()).data!;
+
+    const result = await storage.saveSnippets([
+      ...snippets.filter((snippet) => snippet.id !== "ws-1"),
+      createSnippet({ id: "new-1", title: "Brand New" }),
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(readLibrary("workspace").map((snippet) => snippet.id)).toEqual([
+      "shared-id",
+    ]);
+    expect(readLibrary("global").map((snippet) => snippet.id)).toEqual([
+      "gl-1",
+      "shared-id",
+      "new-1",
+    ]);
+    expect(
+      (await storage.loadSnippets()).data?.find(
+        (snippet) => snippet.id === "new-1"
+      )?.source
+    ).toBe("global");
+  });
+
+  it("should reject edits and deletions of read-only snippets", async () => {
+    const snippets = (await storage.loadSnippets()).data!;
+
+    const edited = snippets.map((snippet) =>
+      snippet.id === "team-2" ? { ...snippet, code: "changed();" } : snippet
+    );
+    const editResult = await storage.saveSnippets(edited);
+    expect(editResult.success).toBe(false);
+    expect(editResult.error?.message).toBe(
+      "Snippet belongs to the read-only team library"
+    );
+
+    const deleteResult = await storage.saveSnippets(
+      snippets.filter((snippet) => snippet.id !== "team-2")
+    );
+    expect(deleteResult.success).toBe(false);
+  });
+
+  it("should accept usage of read-only snippets without persisting it", async () => {
+    const snippets = (await storage.loadSnippets()).data!;
+    const teamFile = fs.readFileSync(libraryFile("team"), "utf-8");
+
+    const result = await storage.saveSnippets(
+      snippets.map((snippet) =>
+        snippet.id === "team-2"
+          ? { ...snippet, usageCount: 3, updatedAt: new Date() }
+          : snippet
+      )
+    );
+
+    expect(result.success).toBe(true);
+    expect(fs.readFileSync(libraryFile("team"), "utf-8")).toBe(teamFile);
+  });
+
+  it("should require a writable library for new snippets", () => {
+    expect(
+      () =>
+        new LayeredStorageService({
+          layers: [
+            { source: "team", storage: createLibrary("team"), readOnly: true },
+          ],
+        })
+    ).toThrow("Layered libraries need a writable library for new snippets");
+  });
+
+  it("should let the snippet manager filter by source", async () => {
+    const manager = new SnippetManagerImpl(storage);
+    await manager.initialize();
+
+    const created = await manager.createSnippet({
+      title: "Created In Manager",
+      description: "",
+      code: "x",
+      language: "javascript",
+      tags: [],
+    });
+    expect(created.success).toBe(true);
+    await manager.refresh();
+
+    const teamResult = await manager.searchSnippets({ source: "team" });
+    const globalResult = await manager.searchSnippets({ source: "global" });
+
+    expect(teamResult.data?.map((snippet) => snippet.id)).toEqual(["team-2"]);
+    expect(globalResult.data?.map((snippet) => snippet.title)).toEqual([
+      "Personal",
+      "Created In Manager",
+    ]);
+
+    manager.dispose();
+  });
+
+  it("should open team folders as per-snippet libraries", () => {
+    expect(
+      createTeamStorageService(path.join(tempDir, "team-lib"))
+    ).toBeInstanceOf(PerSnippetStorageService);
+    expect(
+      createTeamStorageService(path.join(tempDir, "team.json"))
+    ).not.toBeInstanceOf(PerSnippetStorageService);
+  });
+});
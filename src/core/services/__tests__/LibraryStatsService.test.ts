@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import { LibraryStatsService } from "../LibraryStatsService";
+import { SnippetInterface } from "../../../types";
+
+const now = new Date("2024-03-15T12:00:00Z");
+
+const createSnippet = (
+  id: string,
+  overrides: Partial<SnippetInterface> = {}
+): SnippetInterface => ({
+  id,
+  title: `Snippet ${id}`,
+  description: `Description of ${id}`,
+  code: `console.log("${id}")`,
+  language: "javascript",
+  tags: ["logging"],
+  createdAt: new Date("2024-03-01"),
+  updatedAt: new Date("2024-03-01"),
+  usageCount: 0,
+  ...overrides,
+});
+
+describe("LibraryStatsService", () => {
+  const service = new LibraryStatsService({ months: 3, listSize: 2 });
+
+  it("should count snippets by language, top level category and tag", () => {
+    const dashboard = service.getDashboard(
+      [
+        createSnippet("1", { category: "backend/db", tags: ["sql", "db"] }),
+        createSnippet("2", { category: "backend", tags: ["sql"] }),
+        createSnippet("3", { language: "python", category: "scripts" }),
+      ],
+      now
+    );
+
+    expect(dashboard.total).toBe(3);
+    expect(dashboard.languages).toEqual([
+      { name: "javascript", count: 2 },
+      { name: "python", count: 1 },
+    ]);
+    expect(dashboard.categories).toEqual([
+      { name: "backend", count: 2 },
+      { name: "scripts", count: 1 },
+    ]);
+    expect(dashboard.tags).toEqual([
+      { name: "sql", count: 2 },
+      { name: "db", count: 1 },
+      { name: "logging", count: 1 },
+    ]);
+  });
+
+  it("should list recent and most used snippets", () => {
+    const dashboard = service.getDashboard(
+      [
+        createSnippet("old", {
+          createdAt: new Date("2023-01-01"),
+          updatedAt: new Date("2024-03-10"),
+          usageCount: 9,
+        }),
+        createSnippet("new", { createdAt: new Date("2024-03-12") }),
+        createSnippet("middle", {
+          createdAt: new Date("2024-02-01"),
+          usageCount: 2,
+        }),
+      ],
+      now
+    );
+
+    expect(dashboard.totalUsage).toBe(11);
+    expect(dashboard.recentlyCreated.map((s) => s.id)).toEqual([
+      "new",
+      "middle",
+    ]);
+    expect(dashboard.recentlyUpdated[0].id).toBe("old");
+    expect(dashboard.mostUsed.map((s) => s.id)).toEqual(["old", "middle"]);
+  });
+
+  it("should report growth per month including older snippets", () => {
+    const dashboard = service.getDashboard(
+      [
+        createSnippet("1", { createdAt: new Date("2023-06-01") }),
+        createSnippet("2", { createdAt: new Date("2024-02-10") }),
+        createSnippet("3", { createdAt: new Date("2024-03-02") }),
+        createSnippet("4", { createdAt: new Date("2024-03-05") }),
+      ],
+      now
+    );
+
+    expect(dashboard.growth).toEqual([
+      { month: "2024-01", added: 0, total: 1 },
+      { month: "2024-02", added: 1, total: 2 },
+      { month: "2024-03", added: 2, total: 4 },
+    ]);
+  });
+
+  it("should warn about missing descriptions, tags and duplicates", () => {
+    const code = "const total = items.reduce((sum, item) => sum + item, 0);";
+    const dashboard = service.getDashboard(
+      [
+        createSnippet("1", { description: " ", code, usageCount: 3 }),
+        createSnippet("2", { tags: [], code }),
+        createSnippet("3"),
+      ],
+      now
+    );
+
+    expect(
+      dashboard.health.map((warning) => [
+        warning.kind,
+        warning.snippets.map((s) => s.id),
+      ])
+    ).toEqual([
+      ["missingDescription", ["1"]],
+      ["untagged", ["2"]],
+      ["duplicates", ["2"]],
+    ]);
+    expect(dashboard.health[0].message).toBe("1 snippet has no description");
+  });
+
+  it("should leave out warnings without affected snippets", () => {
+    expect(service.getDashboard([createSnippet("1")], now).health).toEqual(
+      []
+    );
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseMarkdownSnippets,
+  serializeMarkdownSnippets,
+} from "../MarkdownSnippetFormat";
+import { SnippetInterface } from "../../../types";
+
+describe("MarkdownSnippetFormat", () => {
+  const base: SnippetInterface = {
+    id: "1",
+    title: "Fetch JSON",
+    description: "Fetch a URL and parse the response",
+    code: "const res = await fetch(url);\nconst data = await res.json();",
+    language: "javascript",
+    tags: ["http", "async"],
+    category: "network",
+    prefix: "fetchjson",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    usageCount: 0,
+  };
+
+  describe("serializeMarkdownSnippets", () => {
+    it("should write a heading, front matter and fenced code block", () => {
+      const markdown = serializeMarkdownSnippets([base]);
+
+      expect(markdown).toBe(
+        [
+          "# Snippet Library",
+          "",
+          "## Fetch JSON",
+          "",
+          "---",
+          "tags:",
+          "  - http",
+          "  - async",
+          "category: network",
+          "prefix: fetchjson",
+          "---",
+          "",
+          "Fetch a URL and parse the response",
+          "",
+          "```javascript",
+          base.code,
+          "```",
+          "",
+        ].join("\n")
+      );
+    });
+
+    it("should omit empty front matter and lengthen fences around backticks", () => {
+      const markdown = serializeMarkdownSnippets([
+        {
+          ...base,
+          description: "",
+          tags: [],
+          category: undefined,
+          prefix: undefined,
+          language: "markdown",
+          code: "```js\nx\n```",
+        },
+      ]);
+
+      expect(markdown).not.toContain("---");
+      expect(markdown).toContain("````markdown\n```js\nx\n```\n````");
+    });
+  });
+
+  describe("parseMarkdownSnippets", () => {
+    it("should read serialized snippets back", () => {
+      const snippets = [
+        { ...base, scope: ["javascript", "typescript"] },
+        {
+          ...base,
+          id: "2",
+          title: "Greeting",
+          description: "Line one\n\nLine two",
+          code: "```\nHello ${NAME}\n```",
+          language: "markdown",
+          tags: [],
+          category: undefined,
+          prefix: undefined,
+          variables: [{ name: "NAME", defaultValue: "World" }],
+        },
+      ];
+
+      expect(parseMarkdownSnippets(serializeMarkdownSnippets(snippets))).toEqual([
+        {
+          title: "Fetch JSON",
+          description: base.description,
+          code: base.code,
+          language: "javascript",
+          tags: ["http", "async"],
+          category: "network",
+          prefix: "fetchjson",
+          scope: ["javascript", "typescript"],
+          variables: undefined,
+        },
+        {
+          title: "Greeting",
+          description: "Line one\n\nLine two",
+          code: "```\nHello ${NAME}\n```",
+          language: "markdown",
+          tags: [],
+          category: undefined,
+          prefix: undefined,
+          scope: undefined,
+          variables: [{ name: "NAME", defaultValue: "World" }],
+        },
+      ]);
+    });
+
+    it("should keep a trailing # in titles", () => {
+      const snippets = [
+        { ...base, title: "LINQ in C#" },
+        { ...base, id: "2", title: "Issue #" },
+      ];
+
+      const parsed = parseMarkdownSnippets(serializeMarkdownSnippets(snippets));
+
+      expect(parsed.map((snippet) => snippet.title)).toEqual([
+        "LINQ in C#",
+        "Issue #",
+      ]);
+      expect(parseMarkdownSnippets("## Closed ##\n```\nx\n```")).toEqual([
+        expect.objectContaining({ title: "Closed" }),
+      ]);
+    });
+
+    it("should keep heading-like lines in descriptions", () => {
+      const description = "Runs fast.\n\n## Caveats\n\\# Not a heading";
+
+      const markdown = serializeMarkdownSnippets([{ ...base, description }]);
+      const parsed = parseMarkdownSnippets(markdown);
+
+      expect(markdown).toContain("\\## Caveats");
+      expect(parsed).toHaveLength(1);
+      expect(parsed[0]).toMatchObject({ title: "Fetch JSON", description });
+    });
+
+    it("should keep code blocks in descriptions", () => {
+      const description =
+        "Use it like this:\n```js\nexample();\n```\n~~~\nalso\n~~~\n\\```";
+
+      const parsed = parseMarkdownSnippets(
+        serializeMarkdownSnippets([{ ...base, description }])
+      );
+
+      expect(parsed).toHaveLength(1);
+      expect(parsed[0]).toMatchObject({ description, code: base.code });
+    });
+
+    it("should keep descriptions starting with ---", () => {
+      const snippets = [
+        { ...base, description: "---\nSeparated\n---" },
+        {
+          ...base,
+          id: "2",
+          description: "---\nNo front matter here\n---",
+          tags: [],
+          category: undefined,
+          prefix: undefined,
+        },
+      ];
+
+      const parsed = parseMarkdownSnippets(serializeMarkdownSnippets(snippets));
+
+      expect(parsed.map((snippet) => snippet.description)).toEqual([
+        "---\nSeparated\n---",
+        "---\nNo front matter here\n---",
+      ]);
+      expect(parsed[0].tags).toEqual(base.tags);
+    });
+
+    it("should accept hand-written documents and skip sections without code", () => {
+      const snippets = parseMarkdownSnippets(
+        [
+          "Intro text",
+          "",
+          "```",
+          "## not a heading",
+          "```",
+          "",
+          "## Notes",
+          "",
+          "Nothing to see here.",
+          "",
+          "## Shell one-liner",
+          "~~~",
+          "ls -la",
+          "~~~",
+        ].join("\r\n")
+      );
+
+      expect(snippets).toEqual([
+        expect.objectContaining({
+          title: "Shell one-liner",
+          description: "",
+          code: "ls -la",
+          language: "plaintext",
+          tags: [],
+        }),
+      ]);
+    });
+  });
+});
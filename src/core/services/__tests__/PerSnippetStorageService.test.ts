@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { PerSnippetStorageService } from "../PerSnippetStorageService";
+import { createStorageService } from "../index";
+import { SnippetInterface, StorageChange } from "../../../types";
+
+const createSnippet = (
+  overrides: Partial<SnippetInterface> = {}
+): SnippetInterface => ({
+  id: "snippet-1",
+  title: "Fetch JSON",
+  description: "Fetch a URL and parse the response",
+  code: "const res = await fetch(url);\nreturn res.json();",
+  language: "javascript",
+  tags: ["http"],
+  category: "network",
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2024-01-02T00:00:00.000Z"),
+  usageCount: 2,
+  ...overrides,
+});
+
+const listFiles = (directory: string, prefix = ""): string[] =>
+  fs
+    .readdirSync(directory, { withFileTypes: true })
+    .flatMap((entry) =>
+      entry.isDirectory()
+        ? listFiles(path.join(directory, entry.name), `${prefix}${entry.name}/`)
+        : [`${prefix}${entry.name}`]
+    )
+    .sort();
+
+describe("PerSnippetStorageService", () => {
+  let tempDir: string;
+  let libraryDir: string;
+  let service: PerSnippetStorageService;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "per-snippet-storage-"));
+    libraryDir = path.join(tempDir, "library");
+    service = new PerSnippetStorageService({
+      location: "global",
+      path: path.join(tempDir, "snippets.json"),
+      format: "json",
+      autoBackup: false,
+    });
+  });
+
+  afterEach(() => {
+    service.dispose();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should be selected by the per-snippet layout", () => {
+    expect(createStorageService({ layout: "per-snippet" })).toBeInstanceOf(
+      PerSnippetStorageService
+    );
+    expect(createStorageService({ layout: "single-file" })).not.toBeInstanceOf(
+      PerSnippetStorageService
+    );
+  });
+
+  it("should write a code file and metadata sidecar per snippet", async () => {
+    const result = await service.saveSnippets([
+      createSnippet(),
+      createSnippet({
+        id: "snippet-2",
+        title: "Hello",
+        code: "print('hi')",
+        language: "python",
+        category: undefined,
+      }),
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(listFiles(libraryDir)).toEqual([
+      "hello.py",
+      "hello.snippet.json",
+      "network/fetch-json.js",
+      "network/fetch-json.snippet.json",
+    ]);
+    expect(
+      fs.readFileSync(path.join(libraryDir, "network/fetch-json.js"), "utf-8")
+    ).toBe("const res = await fetch(url);\nreturn res.json();\n");
+
+    const metadata = JSON.parse(
+      fs.readFileSync(
+        path.join(libraryDir, "network/fetch-json.snippet.json"),
+        "utf-8"
+      )
+    );
+    expect(metadata).toMatchObject({
+      id: "snippet-1",
+      title: "Fetch JSON",
+      codeFile: "fetch-json.js",
+      tags: ["http"],
+      createdAt: "2024-01-01T00:00:00.000Z",
+    });
+    expect(metadata.code).toBeUndefined();
+  });
+
+  it("should load saved snippets back", async () => {
+    const snippets = [
+      createSnippet(),
+      createSnippet({
+        id: "snippet-2",
+        title: "Trailing newline",
+        code: "line\n",
+        createdAt: new Date("2024-02-01T00:00:00.000Z"),
+        variables: [{ name: "NAME" }],
+      }),
+    ];
+    await service.saveSnippets(snippets);
+
+    const result = await service.loadSnippets();
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(snippets);
+  });
+
+  it("should write YAML sidecars when configured", async () => {
+    await service.updateConfig({ format: "yaml" });
+    await service.saveSnippets([createSnippet()]);
+
+    expect(listFiles(libraryDir)).toEqual([
+      "network/fetch-json.js",
+      "network/fetch-json.snippet.yaml",
+    ]);
+    expect((await service.loadSnippets()).data?.[0].title).toBe("Fetch JSON");
+  });
+
+  it("should move files on rename and remove files of deleted snippets", async () => {
+    await service.saveSnippets([
+      createSnippet(),
+      createSnippet({ id: "snippet-2", title: "Other" }),
+    ]);
+
+    await service.saveSnippets([
+      createSnippet({ title: "Fetch Text", category: "http/client" }),
+    ]);
+
+    expect(listFiles(libraryDir)).toEqual([
+      "http/client/fetch-text.js",
+      "http/client/fetch-text.snippet.json",
+    ]);
+    expect(fs.existsSync(path.join(libraryDir, "network"))).toBe(false);
+  });
+
+  it("should keep file names stable and de-duplicate clashing titles", async () => {
+    await service.saveSnippets([createSnippet()]);
+    const sidecar = path.join(libraryDir, "network/fetch-json.snippet.json");
+    const before = fs.statSync(sidecar).mtimeMs;
+
+    await service.saveSnippets([
+      createSnippet(),
+      createSnippet({ id: "snippet-2", title: "Fetch JSON!" }),
+    ]);
+
+    expect(fs.statSync(sidecar).mtimeMs).toBe(before);
+    expect(listFiles(libraryDir)).toEqual([
+      "network/fetch-json-2.js",
+      "network/fetch-json-2.snippet.json",
+      "network/fetch-json.js",
+      "network/fetch-json.snippet.json",
+    ]);
+  });
+
+  it("should fail to load rather than drop unreadable sidecars", async () => {
+    fs.mkdirSync(libraryDir, { recursive: true });
+    fs.writeFileSync(path.join(libraryDir, "broken.snippet.json"), "{");
+
+    const result = await service.loadSnippets();
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe("Invalid snippet file");
+  });
+
+  it("should never read or remove code files outside the library", async () => {
+    const outsidePath = path.join(tempDir, "precious.txt");
+    fs.writeFileSync(outsidePath, "keep me");
+    fs.mkdirSync(path.join(libraryDir, "network"), { recursive: true });
+    fs.writeFileSync(
+      path.join(libraryDir, "network/escape.snippet.json"),
+      JSON.stringify({
+        ...createSnippet({ id: "escape" }),
+        codeFile: "../../precious.txt",
+      })
+    );
+
+    const result = await service.loadSnippets();
+    await service.saveSnippets([createSnippet()]);
+
+    expect(result.success).toBe(false);
+    expect(fs.readFileSync(outsidePath, "utf-8")).toBe("keep me");
+  });
+
+  it("should migrate an existing single-file library on initialize", async () => {
+    fs.writeFileSync(
+      path.join(tempDir, "snippets.json"),
+      JSON.stringify({ snippets: [createSnippet()] })
+    );
+
+    const result = await service.initialize();
+
+    expect(result.success).toBe(true);
+    expect(listFiles(libraryDir)).toEqual([
+      "network/fetch-json.js",
+      "network/fetch-json.snippet.json",
+    ]);
+  });
+
+  it("should report external edits as per-snippet changes", async () => {
+    await service.saveSnippets([createSnippet()]);
+    const changes: StorageChange[] = [];
+    service.watchChanges((batch) => changes.push(...batch));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    fs.writeFileSync(
+      path.join(libraryDir, "network/fetch-json.js"),
+      "const edited = true;\n"
+    );
+
+    for (let i = 0; i < 40 && changes.length === 0; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+
+    expect(changes[0]).toMatchObject({
+      type: "updated",
+      snippet: { id: "snippet-1", code: "const edited = true;" },
+    });
+  });
+
+  it("should use a configured path without extension as the library directory", () => {
+    const directoryService = new PerSnippetStorageService({
+      location: "global",
+      path: path.join(tempDir, "team-snippets"),
+    });
+
+    expect(directoryService.getStorageLocation().data?.path).toBe(
+      path.join(tempDir, "team-snippets")
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { SavedSearchService } from "../SavedSearchService";
+
+describe("SavedSearchService", () => {
+  let service: SavedSearchService;
+
+  beforeEach(() => {
+    service = new SavedSearchService();
+  });
+
+  describe("create", () => {
+    it("should save a search and list searches by name", async () => {
+      await service.create("Unused", { text: "used:0" });
+      const result = await service.create("  React hooks ", {
+        text: "tag:react hook",
+        language: "typescript",
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) {
+        return;
+      }
+      expect(result.data.name).toBe("React hooks");
+      expect(result.data.useCount).toBe(0);
+      expect(service.getAll().map((search) => search.name)).toEqual([
+        "React hooks",
+        "Unused",
+      ]);
+    });
+
+    it("should reject empty and duplicate names", async () => {
+      await service.create("React", { text: "react" });
+
+      const empty = await service.create("  ", { text: "react" });
+      const duplicate = await service.create("react", { text: "hooks" });
+
+      expect(empty.success).toBe(false);
+      expect(duplicate.success).toBe(false);
+      if (duplicate.success) {
+        return;
+      }
+      expect(duplicate.error.message).toBe(
+        "Saved search with this name already exists"
+      );
+    });
+
+    it("should reject queries that do not parse", async () => {
+      const result = await service.create("Broken", { text: "nope:value" });
+
+      expect(result.success).toBe(false);
+      expect(service.getAll()).toHaveLength(0);
+    });
+  });
+
+  describe("update and delete", () => {
+    it("should rename a search and keep its query", async () => {
+      const created = await service.create("React", { text: "react" });
+      if (!created.success) {
+        throw new Error("create failed");
+      }
+
+      const result = await service.update(created.data.id, {
+        name: "React snippets",
+      });
+
+      expect(result.success).toBe(true);
+      expect(service.get(created.data.id)).toMatchObject({
+        name: "React snippets",
+        query: { text: "react" },
+      });
+    });
+
+    it("should report unknown searches", async () => {
+      const updated = await service.update("missing", { name: "Other" });
+      const deleted = await service.delete("missing");
+
+      expect(updated.success).toBe(false);
+      expect(deleted.success).toBe(false);
+      if (deleted.success) {
+        return;
+      }
+      expect(deleted.error.message).toBe("Saved search not found");
+    });
+  });
+
+  describe("persistence", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "saved-searches-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should persist and reload saved searches", async () => {
+      const filePath = path.join(tempDir, "snippets.searches.json");
+      const writer = new SavedSearchService({ filePath });
+      const created = await writer.create("Recent", { text: "updated:<7d" });
+      if (!created.success) {
+        throw new Error("create failed");
+      }
+      await writer.markUsed(created.data.id);
+      await writer.create("Deleted", { text: "old" });
+      await writer.delete(writer.getAll()[0].id);
+
+      const reader = new SavedSearchService({ filePath });
+      const loadResult = await reader.load();
+
+      expect(loadResult.success).toBe(true);
+      const searches = reader.getAll();
+      expect(searches).toHaveLength(1);
+      expect(searches[0].name).toBe("Recent");
+      expect(searches[0].query).toEqual({ text: "updated:<7d" });
+      expect(searches[0].useCount).toBe(1);
+      expect(searches[0].lastUsed).toBeInstanceOf(Date);
+    });
+  });
+});
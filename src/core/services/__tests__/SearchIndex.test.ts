@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { SearchIndex, tokenize } from "../SearchIndex";
+import { SearchService } from "../SearchService";
+import { RealTimeSearchManager } from "../RealTimeSearchManager";
+import { SnippetInterface } from "../../../types";
+
+const createSnippet = (
+  id: string,
+  overrides: Partial<SnippetInterface> = {}
+): SnippetInterface => ({
+  id,
+  title: "Untitled",
+  description: "",
+  code: "",
+  language: "javascript",
+  tags: [],
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+  usageCount: 0,
+  ...overrides,
+});
+
+const snippets: SnippetInterface[] = [
+  createSnippet("hook", {
+    title: "React state hook",
+    description: "Keep component state",
+    code: "const [value, setValue] = useState(initialValue);",
+    tags: ["react", "hooks"],
+  }),
+  createSnippet("fetch", {
+    title: "Fetch JSON",
+    description: "Load JSON from an API",
+    code: "const response = await fetch(api_url);\nreturn response.json();",
+    tags: ["http"],
+  }),
+  createSnippet("query", {
+    title: "Select users",
+    description: "Query all active users",
+    code: "SELECT * FROM users WHERE active = 1;",
+    language: "sql",
+    tags: ["database"],
+    category: "Data access",
+  }),
+];
+
+describe("SearchIndex", () => {
+  let index: SearchIndex;
+
+  beforeEach(() => {
+    index = new SearchIndex();
+    index.build(snippets);
+  });
+
+  describe("tokenize", () => {
+    it("should split identifiers into their parts", () => {
+      expect(tokenize("useState(api_url) HTTPServer2")).toEqual([
+        "usestate",
+        "use",
+        "state",
+        "api_url",
+        "api",
+        "url",
+        "httpserver2",
+        "http",
+        "server",
+      ]);
+    });
+
+    it("should drop single characters", () => {
+      expect(tokenize("a = b + c")).toEqual([]);
+    });
+  });
+
+  describe("search", () => {
+    it("should find identifiers inside code", () => {
+      expect(index.search("state").map((hit) => hit.snippet.id)).toEqual([
+        "hook",
+      ]);
+      expect(index.search("url").map((hit) => hit.snippet.id)).toEqual([
+        "fetch",
+      ]);
+    });
+
+    it("should rank title matches above code matches", () => {
+      const fetchInCode = createSnippet("wrapper", {
+        title: "Request wrapper",
+        code: "fetch(url).then(handle);",
+      });
+      index.add(fetchInCode);
+
+      expect(index.search("fetch").map((hit) => hit.snippet.id)).toEqual([
+        "fetch",
+        "wrapper",
+      ]);
+    });
+
+    it("should rank snippets matching more terms first", () => {
+      const hits = index.search("json users");
+
+      expect(hits.map((hit) => hit.snippet.id).sort()).toEqual([
+        "fetch",
+        "query",
+      ]);
+      expect(index.search("active users")[0].snippet.id).toBe("query");
+    });
+
+    it("should keep only snippets matching every term when asked", () => {
+      const hits = index.search("json users", undefined, true);
+      const prefixes = index.search("activ user", undefined, true);
+
+      expect(hits).toEqual([]);
+      expect(prefixes.map((hit) => hit.snippet.id)).toEqual(["query"]);
+    });
+
+    it("should match prefixes of indexed terms", () => {
+      const hits = index.search("datab");
+
+      expect(hits.map((hit) => hit.snippet.id)).toEqual(["query"]);
+      expect(hits[0].terms).toEqual(["database"]);
+    });
+
+    it("should tolerate typos", () => {
+      expect(index.search("reactt")[0].snippet.id).toBe("hook");
+      expect(index.search("componnet")[0].snippet.id).toBe("hook");
+    });
+
+    it("should tolerate swapped and replaced letters in short terms", () => {
+      for (const typo of ["fecth", "fatch", "fetxh", "jsno"]) {
+        expect(index.search(typo)[0]?.snippet.id).toBe("fetch");
+      }
+      expect(index.search("stae")[0]?.snippet.id).toBe("hook");
+      expect(index.search("slect")[0]?.snippet.id).toBe("query");
+    });
+
+    it("should tolerate two typos in long terms only", () => {
+      expect(index.search("databsae")[0]?.snippet.id).toBe("query");
+      expect(index.search("cmoponnet")[0]?.snippet.id).toBe("hook");
+      expect(index.search("fxtxh")).toEqual([]);
+    });
+
+    it("should return nothing for unknown terms", () => {
+      expect(index.search("kubernetes")).toEqual([]);
+      expect(index.search("   ")).toEqual([]);
+    });
+
+    it("should limit the number of hits", () => {
+      expect(index.search("json users", 1)).toHaveLength(1);
+    });
+  });
+
+  describe("updates", () => {
+    it("should apply storage changes", () => {
+      index.applyChanges([
+        {
+          type: "updated",
+          snippet: { ...snippets[0], title: "Reducer", code: "" },
+          timestamp: new Date(),
+        },
+        { type: "deleted", snippet: snippets[1], timestamp: new Date() },
+      ]);
+
+      expect(index.size).toBe(2);
+      expect(index.search("state")).toEqual([
+        expect.objectContaining({ terms: ["state"] }),
+      ]);
+      expect(index.search("setvalue")).toEqual([]);
+      expect(index.search("reducer")[0].snippet.id).toBe("hook");
+      expect(index.search("fetch")).toEqual([]);
+    });
+
+    it("should reindex only changed snippets on sync", () => {
+      const renamed = {
+        ...snippets[2],
+        title: "Select customers",
+        updatedAt: new Date("2024-02-01"),
+      };
+      index.sync([snippets[0], renamed]);
+
+      expect(index.size).toBe(2);
+      expect(index.search("customers")[0].snippet).toBe(renamed);
+      expect(index.search("json")).toEqual([]);
+    });
+  });
+});
+
+describe("SearchService with an index", () => {
+  it("should rank text through the index and apply filters", async () => {
+    const service = new SearchService(undefined, new SearchIndex());
+
+    const result = await service.searchWithRanking(snippets, {
+      text: "users json",
+      language: "sql",
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.map((r) => r.snippet.id)).toEqual(["query"]);
+      expect(result.data[0].matches).toContainEqual(
+        expect.objectContaining({ field: "title", text: "users" })
+      );
+    }
+  });
+
+  it("should stay fast on a large collection", async () => {
+    const words = ["react", "fetch", "state", "query", "render", "parse"];
+    const large = Array.from({ length: 50000 }, (_, i) =>
+      createSnippet(`snippet-${i}`, {
+        title: `${words[i % words.length]} helper ${i}`,
+        description: `Utility number ${i}`,
+        code: `function ${words[(i * 7) % words.length]}Item${i % 97}() {}`,
+        tags: [words[(i * 3) % words.length]],
+      })
+    );
+    const manager = new RealTimeSearchManager();
+    const service = manager.getSearchService();
+    const queries = ["rendr 12345", "react"];
+    const searchAll = () =>
+      Promise.all(
+        queries.map((text) => service.searchWithRanking(large, { text }, 20))
+      );
+    // The first searches build the index and warm up
+    for (let i = 0; i < 3; i++) {
+      await searchAll();
+    }
+
+    const start = performance.now();
+    for (let i = 0; i < 4; i++) {
+      await searchAll();
+    }
+    const duration = (performance.now() - start) / (4 * queries.length);
+    const [typo, common] = await searchAll();
+
+    expect(typo.data?.[0].snippet.id).toBe("snippet-12345");
+    expect(common.data).toHaveLength(20);
+    expect(common.data?.[0].matches.length).toBeGreaterThan(0);
+    // Headroom over the 20 ms target for slow CI machines
+    expect(duration).toBeLessThan(50);
+  });
+});
@@ -3,7 +3,11 @@ import {
   SearchResult,
   SearchSuggestion,
 } from "../SearchService";
-import { SnippetInterface, SearchQueryInterface } from "../../../types";
+import {
+  SnippetInterface,
+  SearchQueryInterface,
+  AdvancedSearchQuery,
+} from "../../../types";
 
 // Mock data for testing
 const createMockSnippet = (
@@ -228,6 +232,54 @@ describe("SearchService", () => {
       }
     });
 
+    it("should apply advanced filters", async () => {
+      const query: AdvancedSearchQuery = {
+        filters: [
+          { field: "text", operator: "contains", value: "react" },
+          { field: "usageCount", operator: "greaterThan", value: "9" },
+        ],
+      };
+      const result = await searchService.searchWithRanking(mockSnippets, query);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.map((r) => r.snippet.title)).toEqual([
+          "React Component",
+        ]);
+      }
+    });
+
+    it("should rank identifier matches above comment matches", async () => {
+      const inComment = createMockSnippet(
+        "comment",
+        "Request",
+        "",
+        "// TODO: use fetch\nrequest(url);",
+        "javascript"
+      );
+      const inCall = createMockSnippet(
+        "call",
+        "Request",
+        "",
+        "const data = fetch(url);",
+        "javascript"
+      );
+      const result = await searchService.searchWithRanking(
+        [inComment, inCall],
+        { text: "fetch" }
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.map((r) => r.snippet.id)).toEqual([
+          "call",
+          "comment",
+        ]);
+        expect(result.data[0].matches[0].field).toBe("code.identifier");
+        expect(result.data[1].matches[0].field).toBe("code.comment");
+      }
+    });
+
     it("should rank results by relevance", async () => {
       const query: SearchQueryInterface = { text: "react" };
       const result = await searchService.searchWithRanking(mockSnippets, query);
@@ -259,6 +311,52 @@ describe("SearchService", () => {
         expect(firstResult.matches[0]).toHaveProperty("score");
       }
     });
+
+    it("should narrow candidates through a candidate provider", async () => {
+      const querySnippetIds = vi.fn().mockResolvedValue({
+        success: true,
+        data: ["2"],
+      });
+      const indexedService = new SearchService({ querySnippetIds });
+
+      const result = await indexedService.searchWithRanking(mockSnippets, {
+        text: "function",
+        language: "python",
+      });
+
+      expect(querySnippetIds).toHaveBeenCalledWith({
+        language: "python",
+        category: undefined,
+        dateRange: undefined,
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.map((r) => r.snippet.id)).toEqual(["2"]);
+      }
+    });
+
+    it("should rank recently used snippets higher", async () => {
+      const getRecentUseScore = vi.fn((id: string) => (id === "4" ? 20 : 0));
+      const rankedService = new SearchService(undefined, undefined, {
+        recentUseWeight: 2,
+        usageProvider: { getRecentUseScore },
+      });
+      const query = { text: "react", language: "javascript" };
+
+      const plain = await searchService.searchWithRanking(mockSnippets, query);
+      const ranked = await rankedService.searchWithRanking(
+        mockSnippets,
+        query
+      );
+
+      expect(plain.success && ranked.success).toBe(true);
+      if (plain.success && ranked.success) {
+        expect(plain.data[0].snippet.id).toBe("1");
+        expect(ranked.data[0].snippet.id).toBe("4");
+      }
+      expect(getRecentUseScore).toHaveBeenCalledWith("4", 7);
+      expect(rankedService.getRankingOptions().usageWeight).toBe(0.1);
+    });
   });
 
   describe("getSearchSuggestions", () => {
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  SnippetHistoryService,
+  getChangedFields,
+} from "../SnippetHistoryService";
+import { SnippetData } from "../../../types";
+
+const createSnapshot = (overrides: Partial<SnippetData> = {}): SnippetData => ({
+  title: "Test Snippet",
+  description: "A test snippet",
+  code: "const a = 1;\nconsole.log(a);",
+  language: "javascript",
+  tags: ["test"],
+  category: "utilities",
+  ...overrides,
+});
+
+describe("SnippetHistoryService", () => {
+  let historyService: SnippetHistoryService;
+
+  beforeEach(() => {
+    historyService = new SnippetHistoryService();
+  });
+
+  describe("recordRevision", () => {
+    it("should record the first revision with all fields changed", async () => {
+      const result = await historyService.recordRevision(
+        "snippet-1",
+        createSnapshot(),
+        { source: "extension" }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data?.revision).toBe(1);
+      expect(result.data?.source).toBe("extension");
+      expect(result.data?.changedFields).toContain("code");
+    });
+
+    it("should record only changed fields for later revisions", async () => {
+      await historyService.recordRevision("snippet-1", createSnapshot());
+      const result = await historyService.recordRevision(
+        "snippet-1",
+        createSnapshot({ title: "Renamed", tags: ["test", "new"] }),
+        { source: "webgui", author: "alex" }
+      );
+
+      expect(result.data?.revision).toBe(2);
+      expect(result.data?.changedFields).toEqual(["title", "tags"]);
+      expect(result.data?.author).toBe("alex");
+    });
+
+    it("should skip recording when nothing changed", async () => {
+      await historyService.recordRevision("snippet-1", createSnapshot());
+      const result = await historyService.recordRevision(
+        "snippet-1",
+        createSnapshot()
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBeNull();
+      expect(historyService.getHistory("snippet-1")).toHaveLength(1);
+    });
+
+    it("should keep at most the configured number of revisions", async () => {
+      historyService = new SnippetHistoryService({ maxRevisionsPerSnippet: 2 });
+
+      for (let i = 0; i < 4; i++) {
+        await historyService.recordRevision(
+          "snippet-1",
+          createSnapshot({ code: `code ${i}` })
+        );
+      }
+
+      const history = historyService.getHistory("snippet-1");
+      expect(history.map((revision) => revision.revision)).toEqual([4, 3]);
+    });
+  });
+
+  describe("getHistory", () => {
+    it("should return revisions newest first", async () => {
+      await historyService.recordRevision("snippet-1", createSnapshot());
+      await historyService.recordRevision(
+        "snippet-1",
+        createSnapshot({ code: "changed" })
+      );
+
+      const history = historyService.getHistory("snippet-1");
+
+      expect(history.map((revision) => revision.revision)).toEqual([2, 1]);
+    });
+
+    it("should return an empty list for unknown snippets", () => {
+      expect(historyService.getHistory("missing")).toEqual([]);
+      expect(historyService.hasHistory("missing")).toBe(false);
+    });
+  });
+
+  describe("diffRevisions", () => {
+    it("should diff fields and code between revisions", async () => {
+      await historyService.recordRevision("snippet-1", createSnapshot());
+      await historyService.recordRevision(
+        "snippet-1",
+        createSnapshot({
+          description: "Updated",
+          code: "const a = 2;\nconsole.log(a);",
+        })
+      );
+
+      const result = historyService.diffRevisions("snippet-1", 1, 2);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.changedFields).toEqual(["description", "code"]);
+      expect(result.data?.fields.description).toEqual({
+        from: "A test snippet",
+        to: "Updated",
+      });
+      expect(
+        result.data?.codeDiff.filter((line) => line.type !== "unchanged")
+      ).toEqual([
+        { type: "removed", content: "const a = 1;", oldLineNumber: 1 },
+        { type: "added", content: "const a = 2;", newLineNumber: 1 },
+      ]);
+    });
+
+    it("should fail for unknown revisions", async () => {
+      await historyService.recordRevision("snippet-1", createSnapshot());
+
+      const result = historyService.diffRevisions("snippet-1", 1, 5);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe("Revision not found");
+    });
+  });
+
+  describe("persistence", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "snippet-history-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should persist and reload history", async () => {
+      const filePath = path.join(tempDir, "snippets.history.json");
+      const writer = new SnippetHistoryService({ filePath });
+      await writer.recordRevision("snippet-1", createSnapshot(), {
+        source: "import",
+      });
+
+      const reader = new SnippetHistoryService({ filePath });
+      const loadResult = await reader.load();
+
+      expect(loadResult.success).toBe(true);
+      const history = reader.getHistory("snippet-1");
+      expect(history).toHaveLength(1);
+      expect(history[0].source).toBe("import");
+      expect(history[0].timestamp).toBeInstanceOf(Date);
+    });
+
+    it("should remove history for deleted snippets", async () => {
+      const filePath = path.join(tempDir, "snippets.history.json");
+      const service = new SnippetHistoryService({ filePath });
+      await service.recordRevision("snippet-1", createSnapshot());
+
+      await service.removeHistory("snippet-1");
+
+      const reader = new SnippetHistoryService({ filePath });
+      await reader.load();
+      expect(reader.hasHistory("snippet-1")).toBe(false);
+    });
+  });
+
+  describe("getChangedFields", () => {
+    it("should treat missing and undefined optional fields as equal", () => {
+      expect(
+        getChangedFields(
+          createSnapshot({ prefix: undefined }),
+          createSnapshot()
+        )
+      ).toEqual([]);
+    });
+  });
+});
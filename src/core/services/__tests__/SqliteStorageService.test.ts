@@ -0,0 +1,326 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import Database from "better-sqlite3";
+import { SqliteStorageService } from "../SqliteStorageService";
+import { SnippetManagerImpl } from "../SnippetManagerImpl";
+import { createStorageService } from "../index";
+import { SnippetInterface } from "../../../types";
+
+const createSnippet = (
+  overrides: Partial<SnippetInterface> = {}
+): SnippetInterface => ({
+  id: "snippet-1",
+  title: "Fetch JSON",
+  description: "Fetch a URL and parse the response",
+  code: "const res = await fetch(url);\nreturn res.json();",
+  language: "javascript",
+  tags: ["http"],
+  category: "network",
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2024-01-02T00:00:00.000Z"),
+  usageCount: 2,
+  ...overrides,
+});
+
+const librarySnippets = (): SnippetInterface[] => [
+  createSnippet(),
+  createSnippet({
+    id: "snippet-2",
+    title: "Read File",
+    description: "Read a text file",
+    code: "with open(path) as f:\n    return f.read()",
+    language: "python",
+    tags: ["io", "files"],
+    category: "filesystem",
+    createdAt: new Date("2024-02-01T00:00:00.000Z"),
+  }),
+  createSnippet({
+    id: "snippet-3",
+    title: "Post JSON",
+    description: "Send a JSON body",
+    code: "await fetch(url, { method: 'POST' });",
+    tags: ["http", "post"],
+    createdAt: new Date("2024-03-01T00:00:00.000Z"),
+    prefix: "post",
+    prefixAliases: ["fetch.post"],
+    scope: ["javascript", "typescript"],
+    variables: [{ name: "URL", defaultValue: "https://example.com" }],
+  }),
+];
+
+describe("SqliteStorageService", () => {
+  let tempDir: string;
+  let service: SqliteStorageService;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "sqlite-storage-"));
+    service = new SqliteStorageService({
+      location: "global",
+      path: path.join(tempDir, "snippets.json"),
+      format: "json",
+      autoBackup: false,
+    });
+  });
+
+  afterEach(() => {
+    service.dispose();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should be selected by the sqlite layout", () => {
+    expect(createStorageService({ layout: "sqlite" })).toBeInstanceOf(
+      SqliteStorageService
+    );
+  });
+
+  it("should store snippets in snippets.db next to the configured file", async () => {
+    await service.saveSnippets([createSnippet()]);
+
+    expect(service.getStorageLocation().data?.path).toBe(
+      path.join(tempDir, "snippets.db")
+    );
+    expect(fs.existsSync(path.join(tempDir, "snippets.db"))).toBe(true);
+    expect(fs.existsSync(path.join(tempDir, "snippets.json"))).toBe(false);
+  });
+
+  it("should load saved snippets back", async () => {
+    const snippets = librarySnippets();
+    await service.saveSnippets(snippets);
+
+    const result = await service.loadSnippets();
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(snippets);
+  });
+
+  it("should remove snippets missing from a save", async () => {
+    await service.saveSnippets(librarySnippets());
+    await service.saveSnippets([createSnippet()]);
+
+    const result = await service.loadSnippets();
+
+    expect(result.data?.map((snippet) => snippet.id)).toEqual(["snippet-1"]);
+    expect((await service.querySnippetIds({ tags: ["io"] })).data).toEqual(
+      []
+    );
+  });
+
+  describe("other processes", () => {
+    let other: SqliteStorageService;
+
+    beforeEach(async () => {
+      await service.saveSnippets(librarySnippets());
+      await service.loadSnippets();
+      other = new SqliteStorageService({
+        location: "global",
+        path: path.join(tempDir, "snippets.json"),
+        autoBackup: false,
+      });
+    });
+
+    afterEach(() => {
+      other.dispose();
+      vi.useRealTimers();
+    });
+
+    it("should keep their snippets on a full save", async () => {
+      await other.saveSnippet(createSnippet({ id: "cli", title: "From CLI" }));
+      await other.saveSnippet(
+        createSnippet({ id: "snippet-2", title: "Renamed by CLI" })
+      );
+
+      // Saves the library as read before the CLI wrote to it
+      await service.saveSnippets([
+        createSnippet({ tags: ["web"] }),
+        librarySnippets()[1],
+      ]);
+
+      const snippets = (await service.loadSnippets()).data!;
+      expect(snippets.map((snippet) => snippet.title)).toEqual([
+        "Fetch JSON",
+        "From CLI",
+        "Renamed by CLI",
+      ]);
+      expect(snippets[0].tags).toEqual(["web"]);
+    });
+
+    it("should report what they write", async () => {
+      vi.useFakeTimers();
+      const callback = vi.fn();
+      service.watchChanges(callback);
+
+      await other.saveSnippet(createSnippet({ id: "cli", title: "From CLI" }));
+      await other.deleteSnippet("snippet-2");
+      vi.advanceTimersByTime(1000);
+      await service.saveSnippet(createSnippet({ usageCount: 9 }));
+      vi.advanceTimersByTime(1000);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(
+        callback.mock.calls[0][0].map((change: any) => [
+          change.type,
+          change.snippet.id,
+        ])
+      ).toEqual([
+        ["created", "cli"],
+        ["deleted", "snippet-2"],
+      ]);
+    });
+  });
+
+  it("should save and delete single snippets", async () => {
+    await service.saveSnippets(librarySnippets());
+
+    await service.saveSnippet(createSnippet({ usageCount: 7, tags: ["web"] }));
+    await service.deleteSnippet("snippet-2");
+
+    const snippets = (await service.loadSnippets()).data!;
+    expect(snippets.map((snippet) => snippet.id)).toEqual([
+      "snippet-1",
+      "snippet-3",
+    ]);
+    expect(snippets[0]).toMatchObject({ usageCount: 7, tags: ["web"] });
+  });
+
+  it("should query by language, category, tags and date range", async () => {
+    await service.saveSnippets(librarySnippets());
+
+    expect((await service.querySnippetIds({ language: "python" })).data).toEqual(
+      ["snippet-2"]
+    );
+    expect((await service.querySnippetIds({ category: "network" })).data).toEqual(
+      ["snippet-1", "snippet-3"]
+    );
+    expect(
+      (await service.querySnippetIds({ tags: ["http", "post"] })).data
+    ).toEqual(["snippet-3"]);
+    expect(
+      (
+        await service.querySnippetIds({
+          dateRange: {
+            start: new Date("2024-01-15T00:00:00.000Z"),
+            end: new Date("2024-02-15T00:00:00.000Z"),
+          },
+        })
+      ).data
+    ).toEqual(["snippet-2"]);
+  });
+
+  it("should match text as a case-insensitive substring of any field", async () => {
+    await service.saveSnippets(librarySnippets());
+
+    expect((await service.querySnippetIds({ text: "JSON" })).data).toEqual([
+      "snippet-1",
+      "snippet-3",
+    ]);
+    expect((await service.querySnippetIds({ text: "f.re" })).data).toEqual([
+      "snippet-2",
+    ]);
+    expect((await service.querySnippetIds({ text: "io" })).data).toEqual([
+      "snippet-2",
+    ]);
+    expect(
+      (await service.querySnippetIds({ text: "fetch", language: "python" }))
+        .data
+    ).toEqual([]);
+  });
+
+  it("should ignore the case of non-ASCII letters in short text", async () => {
+    await service.saveSnippets([
+      ...librarySnippets(),
+      createSnippet({ id: "snippet-4", title: "Über uns", tags: ["Ärger"] }),
+    ]);
+
+    expect((await service.querySnippetIds({ text: "üb" })).data).toEqual([
+      "snippet-4",
+    ]);
+    expect((await service.querySnippetIds({ text: "Är" })).data).toEqual([
+      "snippet-4",
+    ]);
+    expect((await service.querySnippetIds({ text: "ÜBER" })).data).toEqual([
+      "snippet-4",
+    ]);
+  });
+
+  it("should migrate the snippets file once on initialize", async () => {
+    fs.writeFileSync(
+      path.join(tempDir, "snippets.json"),
+      JSON.stringify({ snippets: librarySnippets() })
+    );
+
+    expect((await service.initialize()).success).toBe(true);
+    expect((await service.loadSnippets()).data).toHaveLength(3);
+
+    // Deleting a migrated snippet must not bring it back on the next start
+    await service.deleteSnippet("snippet-1");
+    service.dispose();
+    service = new SqliteStorageService({
+      location: "global",
+      path: path.join(tempDir, "snippets.json"),
+      autoBackup: false,
+    });
+    await service.initialize();
+
+    expect((await service.loadSnippets()).data).toHaveLength(2);
+    expect(fs.existsSync(path.join(tempDir, "snippets.json"))).toBe(true);
+  });
+
+  it("should add new columns to databases of an older schema", async () => {
+    await service.saveSnippets([createSnippet()]);
+    service.dispose();
+    const database = new Database(path.join(tempDir, "snippets.db"));
+    database.exec("ALTER TABLE snippets DROP COLUMN prefix_aliases");
+    database.pragma("user_version = 1");
+    database.close();
+
+    await service.saveSnippets([createSnippet({ prefixAliases: ["get"] })]);
+
+    expect((await service.loadSnippets()).data?.[0].prefixAliases).toEqual([
+      "get",
+    ]);
+  });
+
+  it("should let the snippet manager save single snippets and query the index", async () => {
+    await service.saveSnippets(librarySnippets());
+    const saveSnippets = vi.spyOn(service, "saveSnippets");
+    const querySnippetIds = vi.spyOn(service, "querySnippetIds");
+    const manager = new SnippetManagerImpl(service);
+    await manager.initialize();
+
+    await manager.incrementUsage("snippet-2");
+    const searchResult = await manager.searchSnippets({
+      text: "json",
+      tags: ["post"],
+    });
+
+    expect(saveSnippets).not.toHaveBeenCalled();
+    expect((await service.loadSnippets()).data?.[1].usageCount).toBe(3);
+    expect(querySnippetIds).toHaveBeenCalled();
+    expect(searchResult.data?.map((snippet) => snippet.id)).toEqual([
+      "snippet-3",
+    ]);
+
+    manager.dispose();
+  });
+
+  it("should leave search text to the snippet manager's matching", async () => {
+    await service.saveSnippets([
+      ...librarySnippets(),
+      createSnippet({
+        id: "snippet-4",
+        title: "Current user",
+        code: "return session.getUserName();",
+      }),
+    ]);
+    const manager = new SnippetManagerImpl(service);
+    await manager.initialize();
+
+    const result = await manager.searchSnippets({ text: "user name" });
+
+    expect(result.data?.map((snippet) => snippet.id)).toEqual(["snippet-4"]);
+
+    manager.dispose();
+  });
+});
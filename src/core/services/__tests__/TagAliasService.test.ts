@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { TagAliasService } from "../TagAliasService";
+
+describe("TagAliasService", () => {
+  let service: TagAliasService;
+
+  beforeEach(() => {
+    service = new TagAliasService();
+  });
+
+  it("should point aliases at the tag an alias stands for", async () => {
+    await service.set("ecmascript", "js");
+    const result = await service.set("JS", "javascript");
+    const chained = await service.set("es", "ecmascript");
+
+    expect(result.success).toBe(true);
+    expect(chained.success).toBe(true);
+    expect(service.getAll()).toEqual({
+      ecmascript: "javascript",
+      es: "javascript",
+      js: "javascript",
+    });
+  });
+
+  it("should reject an alias of itself", async () => {
+    const result = await service.set("React", "react");
+
+    expect(result.success).toBe(false);
+    if (result.success) {
+      return;
+    }
+    expect(result.error.message).toBe("A tag cannot be an alias of itself");
+  });
+
+  it("should follow renamed tags and keep the old name", async () => {
+    await service.set("js", "javascript");
+    await service.set("node", "nodejs");
+
+    await service.renameTag("javascript", "node", true);
+
+    expect(service.getAll()).toEqual({
+      javascript: "node",
+      js: "node",
+    });
+  });
+
+  describe("persistence", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "tag-aliases-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should persist aliases to the sidecar file", async () => {
+      const filePath = path.join(tempDir, "snippets.tags.json");
+      const persisted = new TagAliasService({ filePath });
+      await persisted.set("ts", "typescript");
+      await persisted.remove("missing");
+
+      const reloaded = new TagAliasService({ filePath });
+      await reloaded.load();
+
+      expect(reloaded.getAll()).toEqual({ ts: "typescript" });
+    });
+  });
+});
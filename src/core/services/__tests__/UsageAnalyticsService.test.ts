@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { UsageAnalyticsService } from "../UsageAnalyticsService";
+import { SnippetInterface } from "../../../types";
+
+const now = new Date("2024-03-31T12:00:00Z");
+const daysAgo = (days: number) =>
+  new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const createSnippet = (
+  id: string,
+  overrides: Partial<SnippetInterface> = {}
+): SnippetInterface => ({
+  id,
+  title: `Snippet ${id}`,
+  description: "",
+  code: "console.log('hello')",
+  language: "javascript",
+  tags: [],
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+  usageCount: 0,
+  ...overrides,
+});
+
+describe("UsageAnalyticsService", () => {
+  let service: UsageAnalyticsService;
+
+  beforeEach(() => {
+    service = new UsageAnalyticsService({ retentionDays: 30 });
+  });
+
+  it("should report trends per snippet, language, tag and source", async () => {
+    await service.record("a", "completion", daysAgo(0));
+    await service.record("a", "webCopy", daysAgo(0));
+    await service.record("b", "quickInsert", daysAgo(2));
+    await service.record("b", "quickInsert", daysAgo(10));
+
+    const report = service.getReport(
+      [
+        createSnippet("a", { tags: ["react"], usageCount: 2 }),
+        createSnippet("b", {
+          language: "python",
+          tags: ["react"],
+          usageCount: 2,
+        }),
+      ],
+      { days: 7 },
+      now
+    );
+
+    expect(report.days).toHaveLength(7);
+    expect(report.days[6]).toBe("2024-03-31");
+    expect(report.total).toEqual({ total: 3, daily: [0, 0, 0, 0, 1, 0, 2] });
+    expect(report.sources).toEqual({
+      completion: 1,
+      webCopy: 1,
+      quickInsert: 1,
+    });
+    expect(
+      report.snippets.map((item) => [item.snippet.id, item.total])
+    ).toEqual([
+      ["a", 2],
+      ["b", 1],
+    ]);
+    expect(report.languages.map((item) => item.language)).toEqual([
+      "javascript",
+      "python",
+    ]);
+    expect(report.tags).toEqual([
+      { tag: "react", total: 3, daily: [0, 0, 0, 0, 1, 0, 2] },
+    ]);
+  });
+
+  it("should list never used and stale snippets", async () => {
+    await service.record("recent", "completion", daysAgo(1));
+    await service.record("old", "completion", daysAgo(100));
+
+    const report = service.getReport(
+      [
+        createSnippet("recent", { usageCount: 1 }),
+        createSnippet("old", { usageCount: 1 }),
+        createSnippet("counted", { usageCount: 4 }),
+        createSnippet("unused"),
+      ],
+      { staleDays: 30 },
+      now
+    );
+
+    expect(report.neverUsed.map((snippet) => snippet.id)).toEqual(["unused"]);
+    expect(report.stale.map((item) => item.snippet.id)).toEqual([
+      "counted",
+      "old",
+    ]);
+    expect(report.stale[1].lastUsed).toEqual(daysAgo(100));
+  });
+
+  it("should roll up old events into daily counts", async () => {
+    await service.record("a", "completion", daysAgo(40));
+    await service.record("a", "completion", daysAgo(40));
+    await service.record("a", "insert", daysAgo(0));
+
+    const report = service.getReport(
+      [createSnippet("a", { usageCount: 3 })],
+      { days: 60 },
+      now
+    );
+
+    expect(service.getEvents("a")).toHaveLength(1);
+    expect(report.total.total).toBe(3);
+    expect(report.sources).toEqual({ completion: 2, insert: 1 });
+  });
+
+  it("should weight recent uses above old ones", async () => {
+    await service.record("recent", "completion", daysAgo(0));
+    await service.record("old", "completion", daysAgo(7));
+    await service.record("old", "completion", daysAgo(7));
+
+    expect(service.getRecentUseScore("recent", 7, now)).toBeCloseTo(1);
+    expect(service.getRecentUseScore("old", 7, now)).toBeCloseTo(1);
+    expect(service.getRecentUseScore("old", 14, now)).toBeGreaterThan(1);
+    expect(service.getRecentUseScore("unused", 7, now)).toBe(0);
+  });
+
+  it("should move usage to the snippet that replaces another", async () => {
+    await service.record("source", "completion", daysAgo(1));
+    await service.record("target", "completion", daysAgo(3));
+    await service.replaceSnippet("source", "target");
+    await service.replaceSnippet("target-of-nothing");
+
+    expect(service.getEvents("target")).toHaveLength(2);
+    expect(service.getEvents("source")).toHaveLength(0);
+    expect(service.getLastUsed("target")).toEqual(daysAgo(1));
+  });
+
+  describe("persistence", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "usage-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should persist events, rollups and last use", async () => {
+      const filePath = path.join(tempDir, "snippets.usage.json");
+      const persisted = new UsageAnalyticsService({
+        filePath,
+        retentionDays: 30,
+      });
+      await persisted.record("a", "completion", daysAgo(40));
+      await persisted.record("a", "webCopy", daysAgo(1));
+
+      const reloaded = new UsageAnalyticsService({ filePath });
+      await reloaded.load();
+
+      expect(reloaded.getEvents("a")).toEqual([
+        { snippetId: "a", timestamp: daysAgo(1), source: "webCopy" },
+      ]);
+      expect(reloaded.getLastUsed("a")).toEqual(daysAgo(1));
+      expect(
+        reloaded.getReport([createSnippet("a")], { days: 60 }, now).total.total
+      ).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseJsonWithComments,
+  isVSCodeSnippetFile,
+  parseVSCodeSnippets,
+  serializeVSCodeSnippets,
+  VSCodeSnippetFile,
+} from "../VSCodeSnippetFormat";
+import { SnippetInterface } from "../../../types";
+
+describe("VSCodeSnippetFormat", () => {
+  describe("parseJsonWithComments", () => {
+    it("should strip comments and trailing commas outside strings", () => {
+      const data = parseJsonWithComments(`{
+        // line comment
+        "url": "http://example.com", /* block */
+        "list": [1, 2,],
+      }`);
+
+      expect(data).toEqual({ url: "http://example.com", list: [1, 2] });
+    });
+
+    it("should keep comment-like text and commas inside strings", () => {
+      expect(parseJsonWithComments('{"a": "x, }", "b": "// not"}')).toEqual({
+        a: "x, }",
+        b: "// not",
+      });
+    });
+  });
+
+  describe("isVSCodeSnippetFile", () => {
+    it("should recognize snippet definitions keyed by name", () => {
+      expect(isVSCodeSnippetFile({ Log: { prefix: "log", body: "x" } })).toBe(
+        true
+      );
+    });
+
+    it("should not match export envelopes, arrays or empty objects", () => {
+      expect(isVSCodeSnippetFile({ snippets: [] })).toBe(false);
+      expect(isVSCodeSnippetFile([{ body: "x" }])).toBe(false);
+      expect(isVSCodeSnippetFile({})).toBe(false);
+      expect(isVSCodeSnippetFile({ a: { prefix: "x" } })).toBe(false);
+    });
+  });
+
+  describe("parseVSCodeSnippets", () => {
+    it("should map body, scope and language", () => {
+      const [snippet] = parseVSCodeSnippets({
+        "For Loop": {
+          prefix: ["for", "loop"],
+          body: ["for (;;) {", "  $0", "}"],
+          scope: "javascript, typescript",
+        },
+      });
+
+      expect(snippet).toEqual({
+        title: "For Loop",
+        description: "",
+        code: "for (;;) {\n  $0\n}",
+        language: "javascript",
+        tags: [],
+        prefix: "for",
+        prefixAliases: ["loop"],
+        scope: ["javascript", "typescript"],
+      });
+    });
+
+    it("should prefer the given language and keep prefixes as they are", () => {
+      const [snippet] = parseVSCodeSnippets(
+        { Log: { prefix: "console.log", body: "console.log($1);" } },
+        { language: "typescript" }
+      );
+
+      expect(snippet.language).toBe("typescript");
+      expect(snippet.prefix).toBe("console.log");
+      expect(snippet.scope).toBeUndefined();
+    });
+
+    it("should take the language from the scope before the options", () => {
+      const [snippet] = parseVSCodeSnippets(
+        { Log: { body: "print($1)", scope: "python" } },
+        { language: "snippets" }
+      );
+
+      expect(snippet.language).toBe("python");
+    });
+
+    it("should cut names short to fit a title", () => {
+      const [snippet] = parseVSCodeSnippets({ ["x".repeat(120)]: { body: "" } });
+
+      expect(snippet.title).toBe("x".repeat(100));
+    });
+
+    it("should fall back to plaintext without scope or language", () => {
+      const [snippet] = parseVSCodeSnippets({ Note: { body: "TODO" } });
+
+      expect(snippet.language).toBe("plaintext");
+    });
+  });
+
+  describe("serializeVSCodeSnippets", () => {
+    const base: SnippetInterface = {
+      id: "1",
+      title: "Greeting",
+      description: "",
+      code: "hello $NAME",
+      language: "markdown",
+      tags: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      usageCount: 0,
+    };
+
+    it("should de-duplicate names and omit empty fields", () => {
+      const file = serializeVSCodeSnippets([base, { ...base, id: "2" }]);
+
+      expect(Object.keys(file)).toEqual(["Greeting", "Greeting (2)"]);
+      expect(file.Greeting).toEqual({
+        body: ["hello $NAME"],
+        scope: "markdown",
+      });
+    });
+
+    it("should write the language first in the scope", () => {
+      const file = serializeVSCodeSnippets([
+        { ...base, language: "typescript", scope: ["javascript", "typescript"] },
+      ]);
+      const [snippet] = parseVSCodeSnippets(file);
+
+      expect(file.Greeting.scope).toBe("typescript,javascript");
+      expect(snippet.language).toBe("typescript");
+      expect(snippet.scope).toEqual(["typescript", "javascript"]);
+    });
+
+    it("should write aliases as further prefixes", () => {
+      const file = serializeVSCodeSnippets([
+        { ...base, prefix: "hi", prefixAliases: ["hello"] },
+      ]);
+
+      expect(file.Greeting.prefix).toEqual(["hi", "hello"]);
+    });
+
+    it("should expand custom variables into placeholders", () => {
+      const file = serializeVSCodeSnippets([
+        { ...base, variables: [{ name: "NAME", defaultValue: "world" }] },
+      ]);
+
+      expect(file.Greeting.body).toEqual(["hello ${1:world}"]);
+    });
+  });
+
+  it("should read back what it writes", () => {
+    const file: VSCodeSnippetFile = {
+      "Log to console": {
+        prefix: ["console.log", "#log", "clg"],
+        body: ["console.log($1);"],
+        description: "Log to the console",
+        scope: "javascript",
+      },
+    };
+
+    const snippets = parseVSCodeSnippets(file).map((data, i) => ({
+      ...data,
+      id: String(i),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      usageCount: 0,
+    }));
+
+    expect(serializeVSCodeSnippets(snippets)).toEqual(file);
+  });
+});
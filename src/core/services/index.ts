@@ -1,8 +1,47 @@
 // Export all service interfaces and implementations
 export { StorageService } from "./StorageService";
 export { FileSystemStorageService } from "./FileSystemStorageService";
+export { PerSnippetStorageService } from "./PerSnippetStorageService";
+export { SqliteStorageService } from "./SqliteStorageService";
+export {
+  LayeredStorageService,
+  LibraryLayer,
+  LayeredStorageOptions,
+} from "./LayeredStorageService";
+export {
+  SnippetMetadataFile,
+  SnippetFiles,
+  isSnippetMetadataFile,
+  findSnippetMetadataFile,
+  readSnippetFiles,
+  serializeSnippetFiles,
+} from "./SnippetFileLayout";
 export { SnippetManager, UsageStatistics } from "./SnippetManager";
 export { SnippetManagerImpl } from "./SnippetManagerImpl";
+export {
+  SnippetHistoryService,
+  SnippetHistoryConfig,
+  trackedSnippetFields,
+  getChangedFields,
+} from "./SnippetHistoryService";
+export {
+  SavedSearchService,
+  SavedSearchConfig,
+} from "./SavedSearchService";
+export { CollectionService, CollectionConfig } from "./CollectionService";
+export { TagAliasService, TagAliasConfig } from "./TagAliasService";
+export {
+  AccessTokenService,
+  AccessTokenConfig,
+  SESSION_COOKIE,
+  getRequestToken,
+  getHandshakeToken,
+  createSocketGuard,
+} from "./AccessTokenService";
+export {
+  UsageAnalyticsService,
+  UsageAnalyticsConfig,
+} from "./UsageAnalyticsService";
 
 // Export search and filtering services
 export {
@@ -11,7 +50,16 @@ export {
   SearchMatch,
   SearchSuggestion,
   SearchHistoryEntry,
+  SearchCandidateProvider,
+  SearchRankingOptions,
+  RecentUsageProvider,
 } from "./SearchService";
+export {
+  SearchIndex,
+  SearchIndexOptions,
+  SearchIndexHit,
+  tokenize,
+} from "./SearchIndex";
 export {
   RealTimeSearchManager,
   SearchEvent,
@@ -25,6 +73,15 @@ export {
   SavedSearch,
   SearchPatterns,
 } from "./SearchQueryBuilder";
+export {
+  DuplicateDetectionService,
+  DuplicateDetectionOptions,
+  normalizeCode,
+} from "./DuplicateDetectionService";
+export {
+  LibraryStatsService,
+  LibraryStatsOptions,
+} from "./LibraryStatsService";
 
 // Export import/export services
 export {
@@ -33,7 +90,22 @@ export {
   ImportOptions,
   BackupOptions,
   FileFormat,
+  getFileFormat,
+  getFileExtension,
 } from "./ImportExportService";
+export {
+  VSCodeSnippetDefinition,
+  VSCodeSnippetFile,
+  VSCodeSnippetParseOptions,
+  parseJsonWithComments,
+  isVSCodeSnippetFile,
+  parseVSCodeSnippets,
+  serializeVSCodeSnippets,
+} from "./VSCodeSnippetFormat";
+export {
+  parseMarkdownSnippets,
+  serializeMarkdownSnippets,
+} from "./MarkdownSnippetFormat";
 
 // Export synchronization services
 export {
@@ -62,7 +134,16 @@ export {
   Conflict,
   ResolutionStrategy,
   ResolutionResult,
+  describeConflict,
+  applyFieldResolution,
 } from "./ConflictResolutionService";
+export {
+  GitSyncService,
+  GitSyncServiceImpl,
+  GitSyncConfig,
+  GitSyncStatus,
+  GitSyncResult,
+} from "./GitSyncService";
 export {
   SynchronizationCoordinator,
   SynchronizationCoordinatorImpl,
@@ -72,26 +153,40 @@ export {
 
 // Export factory functions
 import { FileSystemStorageService } from "./FileSystemStorageService";
-import { StorageConfigInterface } from "../../types";
+import { PerSnippetStorageService } from "./PerSnippetStorageService";
+import { SqliteStorageService } from "./SqliteStorageService";
+import { StorageConfigInterface, StorageLayout } from "../../types";
+import * as path from "path";
 
 /**
- * Create a storage service with optional configuration
+ * Create a storage service with optional configuration. The layout option
+ * selects between a single collection file, per-snippet files and a SQLite
+ * database.
  */
 export function createStorageService(
   config?: Partial<StorageConfigInterface>
 ): FileSystemStorageService {
-  return new FileSystemStorageService(config);
+  switch (config?.layout) {
+    case "per-snippet":
+      return new PerSnippetStorageService(config);
+    case "sqlite":
+      return new SqliteStorageService(config);
+    default:
+      return new FileSystemStorageService(config);
+  }
 }
 
 /**
  * Create a workspace-scoped storage service
  */
 export function createWorkspaceStorageService(
-  customPath?: string
+  customPath?: string,
+  layout?: StorageLayout
 ): FileSystemStorageService {
   const config: Partial<StorageConfigInterface> = {
     location: "workspace",
     format: "json",
+    layout,
     autoBackup: true,
   };
 
@@ -101,16 +196,43 @@ export function createWorkspaceStorageService(
       : `${customPath}/snippets.json`;
   }
 
-  return new FileSystemStorageService(config);
+  return createStorageService(config);
 }
 
 /**
  * Create a global storage service
  */
-export function createGlobalStorageService(): FileSystemStorageService {
-  return new FileSystemStorageService({
+export function createGlobalStorageService(
+  layout?: StorageLayout
+): FileSystemStorageService {
+  return createStorageService({
     location: "global",
     format: "json",
+    layout,
     autoBackup: true,
   });
 }
+
+/**
+ * Create a storage service for a shared team library. A `.json`, `.yaml` or
+ * `.yml` path is a single snippets file, a `.db` path a SQLite database and
+ * any other path a per-snippet library directory.
+ */
+export function createTeamStorageService(
+  teamPath: string
+): FileSystemStorageService {
+  const extension = path.extname(teamPath).toLowerCase();
+  const layout: StorageLayout = [".json", ".yaml", ".yml"].includes(extension)
+    ? "single-file"
+    : [".db", ".sqlite", ".sqlite3"].includes(extension)
+    ? "sqlite"
+    : "per-snippet";
+
+  return createStorageService({
+    location: "global",
+    path: teamPath,
+    format: extension === ".yaml" || extension === ".yml" ? "yaml" : "json",
+    layout,
+    autoBackup: false,
+  });
+}
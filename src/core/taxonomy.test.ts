@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizeCategory,
+  getCategoryPaths,
+  isInCategory,
+  buildCategoryTree,
+  resolveTags,
+  replaceTag,
+} from "./taxonomy";
+
+describe("taxonomy", () => {
+  describe("categories", () => {
+    it("should normalize the shape of category paths", () => {
+      expect(normalizeCategory(" Backend / db//postgres/ ")).toBe(
+        "Backend/db/postgres"
+      );
+      expect(getCategoryPaths("backend/db/postgres")).toEqual([
+        "backend",
+        "backend/db",
+        "backend/db/postgres",
+      ]);
+    });
+
+    it("should match subcategories but not siblings with a common prefix", () => {
+      expect(isInCategory("backend/db/postgres", "backend")).toBe(true);
+      expect(isInCategory("backend/db", "backend/db")).toBe(true);
+      expect(isInCategory("backend-tools", "backend")).toBe(false);
+      expect(isInCategory("backend", "backend/db")).toBe(false);
+      expect(isInCategory(undefined, "backend")).toBe(false);
+    });
+
+    it("should build a sorted tree with counts per node", () => {
+      const tree = buildCategoryTree([
+        { category: "backend/db/postgres" },
+        { category: "backend/db" },
+        { category: "backend/api" },
+        { category: "frontend" },
+        {},
+      ]);
+
+      expect(tree.map((node) => [node.path, node.count])).toEqual([
+        ["backend", 3],
+        ["frontend", 1],
+      ]);
+      expect(tree[0].children.map((node) => [node.name, node.count])).toEqual(
+        [
+          ["api", 1],
+          ["db", 2],
+        ]
+      );
+      expect(tree[0].children[1].children[0]).toMatchObject({
+        name: "postgres",
+        path: "backend/db/postgres",
+        count: 1,
+      });
+    });
+  });
+
+  describe("tags", () => {
+    it("should resolve aliases regardless of case and drop duplicates", () => {
+      expect(
+        resolveTags(["JS", "javascript", "react"], { js: "javascript" })
+      ).toEqual(["javascript", "react"]);
+    });
+
+    it("should merge a renamed tag into an existing one", () => {
+      expect(replaceTag(["js", "react", "javascript"], "js", "javascript"))
+        .toEqual(["javascript", "react"]);
+    });
+  });
+});
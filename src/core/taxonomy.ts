@@ -0,0 +1,129 @@
+import { CategoryNode, TagAliases } from "../types";
+
+/**
+ * Separator between the segments of a hierarchical category, as in
+ * "backend/db/postgres"
+ */
+export const CATEGORY_SEPARATOR = "/";
+
+/**
+ * Split a category into its trimmed, non-empty segments
+ */
+export function getCategorySegments(category: string): string[] {
+  return category
+    .split(CATEGORY_SEPARATOR)
+    .map((segment) => segment.trim().replace(/\s+/g, " "))
+    .filter(Boolean);
+}
+
+/**
+ * Normalize the shape of a category path, so " backend / db/" becomes
+ * "backend/db". Letter case is kept.
+ */
+export function normalizeCategory(category: string): string {
+  return getCategorySegments(category).join(CATEGORY_SEPARATOR);
+}
+
+/**
+ * Get the paths of a category and its ancestors, outermost first
+ */
+export function getCategoryPaths(category: string): string[] {
+  const segments = getCategorySegments(category);
+  return segments.map((_, index) =>
+    segments.slice(0, index + 1).join(CATEGORY_SEPARATOR)
+  );
+}
+
+/**
+ * Check whether a category is the given category or one of its
+ * subcategories
+ */
+export function isInCategory(
+  category: string | undefined,
+  ancestor: string
+): boolean {
+  if (!category) {
+    return false;
+  }
+  if (category === ancestor) {
+    return true;
+  }
+
+  const path = normalizeCategory(category);
+  const ancestorPath = normalizeCategory(ancestor);
+  return (
+    !!ancestorPath &&
+    (path === ancestorPath ||
+      path.startsWith(ancestorPath + CATEGORY_SEPARATOR))
+  );
+}
+
+/**
+ * Build the category tree of snippets. Every node counts the snippets of
+ * its category and subcategories; nodes are sorted by name.
+ */
+export function buildCategoryTree(
+  snippets: Array<{ category?: string }>
+): CategoryNode[] {
+  const roots: CategoryNode[] = [];
+  const nodes = new Map<string, CategoryNode>();
+
+  for (const snippet of snippets) {
+    let siblings = roots;
+    for (const path of getCategoryPaths(snippet.category || "")) {
+      let node = nodes.get(path);
+      if (!node) {
+        node = {
+          name: path.slice(path.lastIndexOf(CATEGORY_SEPARATOR) + 1),
+          path,
+          count: 0,
+          children: [],
+        };
+        nodes.set(path, node);
+        siblings.push(node);
+      }
+      node.count++;
+      siblings = node.children;
+    }
+  }
+
+  sortNodes(roots);
+  return roots;
+}
+
+/**
+ * Key under which an alias is stored. Aliases ignore letter case.
+ */
+export function getAliasKey(tag: string): string {
+  return tag.trim().toLowerCase();
+}
+
+/**
+ * Resolve a tag through the aliases of a library
+ */
+export function resolveTag(tag: string, aliases: TagAliases): string {
+  return aliases[getAliasKey(tag)] ?? tag;
+}
+
+/**
+ * Resolve tags through the aliases of a library, dropping tags that
+ * resolve to one already present
+ */
+export function resolveTags(tags: string[], aliases: TagAliases): string[] {
+  return Array.from(new Set(tags.map((tag) => resolveTag(tag, aliases))));
+}
+
+/**
+ * Replace a tag, keeping its position. When the new tag is already
+ * present the two are merged.
+ */
+export function replaceTag(tags: string[], from: string, to: string): string[] {
+  return Array.from(new Set(tags.map((tag) => (tag === from ? to : tag))));
+}
+
+function sortNodes(nodes: CategoryNode[]): void {
+  nodes.sort((a, b) => a.name.localeCompare(b.name));
+  for (const node of nodes) {
+    sortNodes(node.children);
+  }
+}
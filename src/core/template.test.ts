@@ -0,0 +1,238 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseTemplate,
+  getTemplateFields,
+  getPromptFields,
+  hasTemplateFields,
+  renderTemplate,
+  toVSCodeSnippetBody,
+  validateTemplate,
+} from "./template";
+
+describe("template", () => {
+  describe("parseTemplate", () => {
+    it("should parse tabstops, placeholders, choices and variables", () => {
+      const { nodes, errors } = parseTemplate(
+        "$1 ${2} ${3:name} ${4|a,b|} $TM_FILENAME ${CLIPBOARD:x}"
+      );
+
+      expect(errors).toEqual([]);
+      expect(nodes.filter((node) => node.type !== "text")).toHaveLength(6);
+    });
+
+    it("should parse nested placeholders", () => {
+      const fields = getTemplateFields("${1:outer ${2:inner}}");
+
+      expect(fields.map((field) => field.key)).toEqual(["1", "2"]);
+      expect(fields[0].defaultValue).toBe("outer inner");
+    });
+
+    it("should treat escaped dollars as text", () => {
+      expect(hasTemplateFields("cost: \\$1")).toBe(false);
+      expect(renderTemplate("cost: \\$1")).toBe("cost: $1");
+    });
+
+    it("should report unterminated fields", () => {
+      expect(parseTemplate("${1:name").errors).toHaveLength(1);
+      expect(parseTemplate("${1|a,b").errors).toHaveLength(1);
+    });
+
+    it("should parse transforms of tabstops and variables", () => {
+      const { nodes, errors } = parseTemplate(
+        "${TM_FILENAME/(.*)/${1:/upcase}/} ${1/a\\/b/c/g}"
+      );
+
+      expect(errors).toEqual([]);
+      expect(nodes[0]).toMatchObject({
+        type: "variable",
+        name: "TM_FILENAME",
+        transform: { regex: "(.*)", format: "${1:/upcase}", options: "" },
+      });
+      expect(nodes[2]).toMatchObject({
+        type: "tabstop",
+        index: 1,
+        transform: { regex: "a\\/b", format: "c", options: "g" },
+      });
+      expect(parseTemplate("${1/(/x/}").errors).toHaveLength(1);
+    });
+
+    it("should leave shell parameter expansions alone", () => {
+      const code = "echo ${file/.txt/.md} ${name/x}";
+
+      expect(parseTemplate(code).errors).toEqual([]);
+      expect(renderTemplate(code)).toBe(code);
+    });
+
+    it("should leave JavaScript template literals alone", () => {
+      const code = "const s = `${user.name}`;";
+
+      expect(parseTemplate(code).errors).toEqual([]);
+      expect(renderTemplate(code)).toBe(code);
+    });
+  });
+
+  describe("getTemplateFields", () => {
+    it("should merge repeated tabstops and skip $0", () => {
+      const fields = getTemplateFields("${1:name} = $1;$0");
+
+      expect(fields).toHaveLength(1);
+      expect(fields[0]).toMatchObject({
+        kind: "placeholder",
+        index: 1,
+        defaultValue: "name",
+      });
+    });
+
+    it("should ignore undeclared non built-in variables", () => {
+      const fields = getTemplateFields("echo $HOME $TM_FILENAME $name", [
+        { name: "name", defaultValue: "world" },
+      ]);
+
+      expect(fields.map((field) => field.key)).toEqual(["TM_FILENAME", "name"]);
+      expect(fields[0].builtin).toBe(true);
+      expect(fields[1].defaultValue).toBe("world");
+    });
+
+    it("should expose choice lists", () => {
+      const [field] = getTemplateFields("${1|get,post|}");
+
+      expect(field.kind).toBe("choice");
+      expect(field.choices).toEqual(["get", "post"]);
+      expect(field.defaultValue).toBe("get");
+    });
+  });
+
+  describe("getPromptFields", () => {
+    it("should only prompt for built-ins the context cannot resolve", () => {
+      const code = "$1 $TM_FILENAME $CURRENT_YEAR";
+
+      expect(getPromptFields(code).map((field) => field.key)).toEqual([
+        "1",
+        "TM_FILENAME",
+      ]);
+      expect(
+        getPromptFields(code, [], { filePath: "/src/app.ts" }).map(
+          (field) => field.key
+        )
+      ).toEqual(["1"]);
+    });
+  });
+
+  describe("renderTemplate", () => {
+    it("should substitute values and fall back to defaults", () => {
+      const code = "function ${1:name}(${2}) { return ${3|a,b|}; }$0";
+
+      expect(renderTemplate(code, { "2": "x" })).toBe(
+        "function name(x) { return a; }"
+      );
+      expect(renderTemplate(code, { "1": "add", "3": "b" })).toBe(
+        "function add() { return b; }"
+      );
+    });
+
+    it("should resolve built-in and custom variables", () => {
+      const result = renderTemplate(
+        "// $TM_FILENAME_BASE by $AUTHOR in $CURRENT_YEAR",
+        {},
+        {
+          variables: [{ name: "AUTHOR", defaultValue: "me" }],
+          context: {
+            filePath: "/src/app.ts",
+            now: new Date(2024, 0, 15),
+          },
+        }
+      );
+
+      expect(result).toBe("// app by me in 2024");
+    });
+
+    it("should use a variable default when it cannot be resolved", () => {
+      expect(renderTemplate("${CLIPBOARD:none}")).toBe("none");
+    });
+
+    it("should repeat defaults in mirrors without a value", () => {
+      expect(renderTemplate("${1:foo} ${1}")).toBe("foo foo");
+      expect(renderTemplate("${1|a,b|} ${1}")).toBe("a a");
+      expect(renderTemplate("$1 = ${1:x}")).toBe("x = x");
+      expect(renderTemplate("${1:a ${2}} ${2:b}")).toBe("a b b");
+      expect(renderTemplate("${1:foo} ${1}", { "1": "bar" })).toBe("bar bar");
+    });
+
+    it("should apply transforms", () => {
+      const code =
+        "${1:my-widget} ${1/(.*)/${1:/pascalcase}/} ${1/-/_/g} " +
+        "${1/(x)?.*/${1:?has x:no x}/} ${TM_FILENAME/(.*)/${1:/upcase}/}";
+
+      expect(
+        renderTemplate(code, {}, { context: { filePath: "/src/app.ts" } })
+      ).toBe("my-widget MyWidget my_widget no x APP.TS");
+    });
+  });
+
+  describe("toVSCodeSnippetBody", () => {
+    it("should turn custom variables into mirrored placeholders", () => {
+      const body = toVSCodeSnippetBody("${1:x} $NAME $NAME", [
+        { name: "NAME", defaultValue: "value" },
+      ]);
+
+      expect(body).toBe("${1:x} ${2:value} $2");
+    });
+
+    it("should turn custom variable choices into choice placeholders", () => {
+      expect(
+        toVSCodeSnippetBody("$METHOD", [
+          { name: "METHOD", choices: ["get", "post"] },
+        ])
+      ).toBe("${1|get,post|}");
+    });
+
+    it("should keep transforms", () => {
+      const body = toVSCodeSnippetBody(
+        "${1:a} ${1/(.*)/${1:/upcase}/g} ${TM_FILENAME/(.*)/$1/} " +
+          "${NAME/(.)/$1$1/} $NAME ${ONLY/(.*)/<$1>/}",
+        [
+          { name: "NAME", defaultValue: "v" },
+          { name: "ONLY", defaultValue: "o" },
+        ]
+      );
+
+      expect(body).toBe(
+        "${1:a} ${1/(.*)/${1:/upcase}/g} ${TM_FILENAME/(.*)/$1/} " +
+          "${2/(.)/$1$1/} ${2:v} <o>"
+      );
+    });
+
+    it("should escape unknown variables and keep built-ins", () => {
+      expect(toVSCodeSnippetBody("echo $HOME ${TM_FILENAME}")).toBe(
+        "echo \\$HOME ${TM_FILENAME}"
+      );
+    });
+  });
+
+  describe("validateTemplate", () => {
+    it("should accept valid variables", () => {
+      expect(
+        validateTemplate("$NAME", [{ name: "NAME", defaultValue: "x" }])
+      ).toEqual([]);
+    });
+
+    it("should reject invalid, duplicate and built-in variable names", () => {
+      const errors = validateTemplate("", [
+        { name: "1bad" },
+        { name: "DUP" },
+        { name: "DUP" },
+        { name: "CLIPBOARD" },
+      ]);
+
+      expect(errors).toHaveLength(3);
+    });
+
+    it("should require the default value to be one of the choices", () => {
+      expect(
+        validateTemplate("", [
+          { name: "METHOD", choices: ["get"], defaultValue: "post" },
+        ])
+      ).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,931 @@
+import { SnippetVariable, TemplateField } from "../types";
+
+/**
+ * Variables resolved by VS Code itself (and by renderTemplate outside VS Code)
+ */
+export const BUILTIN_TEMPLATE_VARIABLES = [
+  "TM_SELECTED_TEXT",
+  "TM_CURRENT_LINE",
+  "TM_CURRENT_WORD",
+  "TM_LINE_INDEX",
+  "TM_LINE_NUMBER",
+  "TM_FILENAME",
+  "TM_FILENAME_BASE",
+  "TM_DIRECTORY",
+  "TM_FILEPATH",
+  "RELATIVE_FILEPATH",
+  "CLIPBOARD",
+  "WORKSPACE_NAME",
+  "WORKSPACE_FOLDER",
+  "CURRENT_YEAR",
+  "CURRENT_YEAR_SHORT",
+  "CURRENT_MONTH",
+  "CURRENT_MONTH_NAME",
+  "CURRENT_MONTH_NAME_SHORT",
+  "CURRENT_DATE",
+  "CURRENT_DAY_NAME",
+  "CURRENT_DAY_NAME_SHORT",
+  "CURRENT_HOUR",
+  "CURRENT_MINUTE",
+  "CURRENT_SECOND",
+  "CURRENT_SECONDS_UNIX",
+  "RANDOM",
+  "RANDOM_HEX",
+  "UUID",
+];
+
+/**
+ * Values for built-in variables when rendering outside VS Code
+ */
+export interface TemplateContext {
+  filePath?: string;
+  workspaceFolder?: string;
+  selectedText?: string;
+  currentLine?: string;
+  clipboard?: string;
+  now?: Date;
+}
+
+/**
+ * Regular expression replacement applied to a tabstop or variable, as in
+ * ${1/(.*)/${1:/upcase}/g}. Parts are kept as written.
+ */
+export interface TemplateTransform {
+  regex: string;
+  format: string;
+  options: string;
+}
+
+/**
+ * Parsed node of a snippet template
+ */
+export type TemplateNode =
+  | { type: "text"; value: string }
+  | {
+      type: "tabstop";
+      index: number;
+      children: TemplateNode[];
+      transform?: TemplateTransform;
+    }
+  | { type: "choice"; index: number; choices: string[] }
+  | {
+      type: "variable";
+      name: string;
+      children: TemplateNode[] | null;
+      raw: string;
+      transform?: TemplateTransform;
+    };
+
+/**
+ * Result of parsing a snippet template
+ */
+export interface TemplateParseResult {
+  nodes: TemplateNode[];
+  errors: string[];
+}
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// /regex/format/options} of a transform. Groups in the format such as
+// ${1:/upcase} may contain slashes.
+const TRANSFORM_PATTERN =
+  /^\/((?:\\.|[^\\/])*)\/((?:\\.|\$\{[^}]*\}|[^\\/])*)\/([a-z]*)\}/;
+
+/**
+ * Check whether a variable is one of the built-in variables
+ */
+export function isBuiltinVariable(name: string): boolean {
+  return BUILTIN_TEMPLATE_VARIABLES.includes(name);
+}
+
+/**
+ * Parse snippet code using the VS Code snippet syntax: tabstops ($1, ${1}),
+ * placeholders (${1:default}), choices (${1|a,b|}), variables ($NAME,
+ * ${NAME}, ${NAME:default}) and transforms (${1/regex/format/options}).
+ * Backslash escapes "$", "}" and "\".
+ */
+export function parseTemplate(code: string): TemplateParseResult {
+  const errors: string[] = [];
+  const parser = new TemplateParser(code || "", errors);
+  const nodes = parser.parseNodes(false);
+  return { nodes, errors };
+}
+
+/**
+ * Check whether snippet code contains any template fields
+ */
+export function hasTemplateFields(
+  code: string,
+  variables: SnippetVariable[] = []
+): boolean {
+  return getTemplateFields(code, variables).length > 0;
+}
+
+/**
+ * Get the distinct template fields of a snippet, in order of first
+ * appearance. Tabstop $0 (the final cursor position) is not a field, and
+ * variables that are neither built-in nor declared are plain text (e.g. shell
+ * or PHP variables).
+ */
+export function getTemplateFields(
+  code: string,
+  variables: SnippetVariable[] = []
+): TemplateField[] {
+  const fields: TemplateField[] = [];
+  const seen = new Map<string, TemplateField>();
+  const declared = new Map(variables.map((v) => [v.name, v]));
+
+  const visit = (nodes: TemplateNode[]) => {
+    for (const node of nodes) {
+      if (node.type === "text") {
+        continue;
+      }
+
+      if (node.type === "variable") {
+        const declaration = declared.get(node.name);
+        const builtin = isBuiltinVariable(node.name);
+        if (!declaration && !builtin) {
+          continue;
+        }
+
+        const key = `var:${node.name}`;
+        const defaultValue = node.children
+          ? renderNodes(node.children, {})
+          : undefined;
+        const existing = seen.get(key);
+        if (existing) {
+          existing.defaultValue = existing.defaultValue ?? defaultValue;
+        } else {
+          const field: TemplateField = {
+            kind: "variable",
+            key: node.name,
+            name: node.name,
+            builtin,
+            defaultValue: defaultValue ?? declaration?.defaultValue,
+            choices: declaration?.choices,
+            description: declaration?.description,
+          };
+          seen.set(key, field);
+          fields.push(field);
+        }
+        if (node.children) {
+          visit(node.children);
+        }
+        continue;
+      }
+
+      if (node.index === 0) {
+        if (node.type === "tabstop") {
+          visit(node.children);
+        }
+        continue;
+      }
+
+      const key = `tab:${node.index}`;
+      const existing = seen.get(key);
+      const defaultValue =
+        node.type === "tabstop" && node.children.length > 0
+          ? renderNodes(node.children, {})
+          : undefined;
+      const choices = node.type === "choice" ? node.choices : undefined;
+
+      if (existing) {
+        existing.defaultValue = existing.defaultValue ?? defaultValue;
+        existing.choices = existing.choices ?? choices;
+      } else {
+        const field: TemplateField = {
+          kind: choices ? "choice" : defaultValue ? "placeholder" : "tabstop",
+          key: String(node.index),
+          index: node.index,
+          defaultValue: defaultValue ?? choices?.[0],
+          choices,
+        };
+        seen.set(key, field);
+        fields.push(field);
+      }
+
+      if (node.type === "tabstop") {
+        visit(node.children);
+      }
+    }
+  };
+
+  visit(parseTemplate(code).nodes);
+
+  return fields;
+}
+
+/**
+ * Get the fields a user has to fill in when inserting outside VS Code:
+ * tabstops, placeholders, choices and custom variables, plus built-in
+ * variables that cannot be resolved from the given context.
+ */
+export function getPromptFields(
+  code: string,
+  variables: SnippetVariable[] = [],
+  context: TemplateContext = {}
+): TemplateField[] {
+  return getTemplateFields(code, variables).filter(
+    (field) =>
+      !field.builtin ||
+      resolveBuiltinVariable(field.name as string, context) === undefined
+  );
+}
+
+/**
+ * Validate template syntax and custom variable declarations
+ */
+export function validateTemplate(
+  code: string,
+  variables: SnippetVariable[] = []
+): string[] {
+  const errors = [...parseTemplate(code).errors];
+  const names = new Set<string>();
+
+  for (const variable of variables) {
+    if (!variable || typeof variable.name !== "string") {
+      errors.push("All variables must have a name");
+      continue;
+    }
+    if (!VARIABLE_NAME_PATTERN.test(variable.name)) {
+      errors.push(
+        `Variable "${variable.name}" must start with a letter or underscore and contain only letters, digits and underscores`
+      );
+    }
+    if (isBuiltinVariable(variable.name)) {
+      errors.push(
+        `Variable "${variable.name}" conflicts with a built-in variable`
+      );
+    }
+    if (names.has(variable.name)) {
+      errors.push(`Variable "${variable.name}" is declared more than once`);
+    }
+    names.add(variable.name);
+
+    if (variable.choices !== undefined) {
+      if (!Array.isArray(variable.choices) || variable.choices.length === 0) {
+        errors.push(`Variable "${variable.name}" must have at least one choice`);
+      } else if (
+        variable.defaultValue !== undefined &&
+        !variable.choices.includes(variable.defaultValue)
+      ) {
+        errors.push(
+          `Default value of variable "${variable.name}" must be one of its choices`
+        );
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Render a template to plain text. Field values are keyed by tabstop index
+ * ("1", "2", ...) or variable name; fields without a value fall back to
+ * their default, their first choice, or the built-in variable value. Every
+ * occurrence of a tabstop shows the same value, so mirrors repeat the
+ * default of their placeholder.
+ */
+export function renderTemplate(
+  code: string,
+  values: Record<string, string> = {},
+  options: { variables?: SnippetVariable[]; context?: TemplateContext } = {}
+): string {
+  const declared = new Map(
+    (options.variables || []).map((variable) => [variable.name, variable])
+  );
+  const context = options.context || {};
+
+  const resolveVariable = (
+    node: Extract<TemplateNode, { type: "variable" }>
+  ): string | undefined => {
+    const declaration = declared.get(node.name);
+    let value: string | undefined;
+    if (declaration) {
+      value =
+        values[node.name] ??
+        declaration.defaultValue ??
+        declaration.choices?.[0];
+    } else if (isBuiltinVariable(node.name)) {
+      value = values[node.name] ?? resolveBuiltinVariable(node.name, context);
+    } else {
+      return node.raw;
+    }
+    return value !== undefined && node.transform
+      ? applyTransform(value, node.transform)
+      : value;
+  };
+
+  const { nodes } = parseTemplate(code);
+  const defaults = getFieldDefaults(nodes);
+  const resolved = { ...values };
+  // Defaults may show other fields, so they are worked out until they settle
+  for (let pass = 0; pass <= defaults.size; pass++) {
+    let changed = false;
+    for (const [key, node] of defaults) {
+      if (values[key] !== undefined) {
+        continue;
+      }
+      const value =
+        node.type === "choice"
+          ? node.choices[0] || ""
+          : renderNodes(node.children, resolved, resolveVariable);
+      changed = changed || resolved[key] !== value;
+      resolved[key] = value;
+    }
+    if (!changed) {
+      break;
+    }
+  }
+
+  return renderNodes(nodes, resolved, resolveVariable);
+}
+
+/**
+ * Convert snippet code to a VS Code snippet body. Custom variables are
+ * unknown to VS Code, so they become placeholders (mirrored across all
+ * occurrences) using the declared default value; other unknown variables
+ * are escaped so they are inserted literally.
+ */
+export function toVSCodeSnippetBody(
+  code: string,
+  variables: SnippetVariable[] = []
+): string {
+  const { nodes } = parseTemplate(code);
+  const declared = new Map(
+    variables.map((variable) => [variable.name, variable])
+  );
+  let nextIndex = getMaxTabstopIndex(nodes) + 1;
+  const assigned = new Map<string, number>();
+  const placed = new Set<string>();
+  const assign = (name: string) => {
+    if (!assigned.has(name)) {
+      assigned.set(name, nextIndex++);
+    }
+    return assigned.get(name)!;
+  };
+
+  // Variables only used through transforms never get a placeholder, so
+  // their declared value is inserted already transformed
+  const plain = new Set<string>();
+  const findPlain = (list: TemplateNode[]) => {
+    for (const node of list) {
+      if (node.type === "variable" && !node.transform) {
+        plain.add(node.name);
+      }
+      if (node.type === "tabstop" || node.type === "variable") {
+        findPlain(node.children || []);
+      }
+    }
+  };
+  findPlain(nodes);
+
+  const serialize = (list: TemplateNode[]): string =>
+    list
+      .map((node) => {
+        switch (node.type) {
+          case "text":
+            return escapeText(node.value);
+          case "tabstop":
+            if (node.transform) {
+              return `\${${node.index}${serializeTransform(node.transform)}}`;
+            }
+            return node.children.length > 0
+              ? `\${${node.index}:${serialize(node.children)}}`
+              : `$${node.index}`;
+          case "choice":
+            return `\${${node.index}|${node.choices
+              .map(escapeChoice)
+              .join(",")}|}`;
+          case "variable": {
+            const declaration = declared.get(node.name);
+            if (!declaration) {
+              if (!isBuiltinVariable(node.name)) {
+                return escapeText(node.raw);
+              }
+              if (node.transform) {
+                return `\${${node.name}${serializeTransform(node.transform)}}`;
+              }
+              return node.children
+                ? `\${${node.name}:${serialize(node.children)}}`
+                : `\${${node.name}}`;
+            }
+
+            if (node.transform) {
+              if (!plain.has(node.name)) {
+                const value =
+                  declaration.defaultValue ??
+                  declaration.choices?.[0] ??
+                  declaration.name;
+                return escapeText(applyTransform(value, node.transform));
+              }
+              const index = assign(node.name);
+              return `\${${index}${serializeTransform(node.transform)}}`;
+            }
+
+            if (!placed.has(node.name)) {
+              placed.add(node.name);
+              const index = assign(node.name);
+              if (declaration.choices && declaration.choices.length > 0) {
+                return `\${${index}|${declaration.choices
+                  .map(escapeChoice)
+                  .join(",")}|}`;
+              }
+              const defaultValue = node.children
+                ? serialize(node.children)
+                : escapeText(declaration.defaultValue ?? declaration.name);
+              return `\${${index}:${defaultValue}}`;
+            }
+            return `$${assigned.get(node.name)}`;
+          }
+        }
+      })
+      .join("");
+
+  return serialize(nodes);
+}
+
+/**
+ * Resolve a built-in variable for rendering outside VS Code
+ */
+export function resolveBuiltinVariable(
+  name: string,
+  context: TemplateContext
+): string | undefined {
+  const now = context.now || new Date();
+  const filePath = context.filePath
+    ? context.filePath.replace(/\\/g, "/")
+    : undefined;
+  const fileName = filePath ? filePath.split("/").pop() || "" : undefined;
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const monthNames = [
+    "January",
+    "February",
+    "March",
+    "April",
+    "May",
+    "June",
+    "July",
+    "August",
+    "September",
+    "October",
+    "November",
+    "December",
+  ];
+  const dayNames = [
+    "Sunday",
+    "Monday",
+    "Tuesday",
+    "Wednesday",
+    "Thursday",
+    "Friday",
+    "Saturday",
+  ];
+
+  switch (name) {
+    case "TM_SELECTED_TEXT":
+      return context.selectedText;
+    case "TM_CURRENT_LINE":
+      return context.currentLine;
+    case "TM_FILENAME":
+      return fileName;
+    case "TM_FILENAME_BASE":
+      return fileName !== undefined
+        ? fileName.replace(/\.[^.]*$/, "")
+        : undefined;
+    case "TM_DIRECTORY":
+      return filePath ? filePath.split("/").slice(0, -1).join("/") : undefined;
+    case "TM_FILEPATH":
+      return filePath;
+    case "RELATIVE_FILEPATH":
+      if (filePath && context.workspaceFolder) {
+        const root = context.workspaceFolder.replace(/\\/g, "/");
+        return filePath.startsWith(root + "/")
+          ? filePath.slice(root.length + 1)
+          : filePath;
+      }
+      return filePath;
+    case "CLIPBOARD":
+      return context.clipboard;
+    case "WORKSPACE_FOLDER":
+      return context.workspaceFolder;
+    case "WORKSPACE_NAME":
+      return context.workspaceFolder
+        ? context.workspaceFolder.replace(/\\/g, "/").split("/").pop()
+        : undefined;
+    case "CURRENT_YEAR":
+      return String(now.getFullYear());
+    case "CURRENT_YEAR_SHORT":
+      return String(now.getFullYear()).slice(-2);
+    case "CURRENT_MONTH":
+      return pad(now.getMonth() + 1);
+    case "CURRENT_MONTH_NAME":
+      return monthNames[now.getMonth()];
+    case "CURRENT_MONTH_NAME_SHORT":
+      return monthNames[now.getMonth()].slice(0, 3);
+    case "CURRENT_DATE":
+      return pad(now.getDate());
+    case "CURRENT_DAY_NAME":
+      return dayNames[now.getDay()];
+    case "CURRENT_DAY_NAME_SHORT":
+      return dayNames[now.getDay()].slice(0, 3);
+    case "CURRENT_HOUR":
+      return pad(now.getHours());
+    case "CURRENT_MINUTE":
+      return pad(now.getMinutes());
+    case "CURRENT_SECOND":
+      return pad(now.getSeconds());
+    case "CURRENT_SECONDS_UNIX":
+      return String(Math.floor(now.getTime() / 1000));
+    case "RANDOM":
+      return String(Math.random()).slice(2, 8).padEnd(6, "0");
+    case "RANDOM_HEX":
+      return Math.floor(Math.random() * 0xffffff)
+        .toString(16)
+        .padStart(6, "0");
+    case "UUID":
+      return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+        const r = Math.floor(Math.random() * 16);
+        return (c === "x" ? r : (r & 0x3) | 0x8).toString(16);
+      });
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Render parsed nodes to text. Variables resolve through the callback; by
+ * default they are kept as written.
+ */
+function renderNodes(
+  nodes: TemplateNode[],
+  values: Record<string, string>,
+  resolveVariable: (
+    node: Extract<TemplateNode, { type: "variable" }>
+  ) => string | undefined = (node) => node.raw
+): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.value;
+        case "tabstop": {
+          const value = values[String(node.index)];
+          if (node.transform) {
+            return applyTransform(value ?? "", node.transform);
+          }
+          if (value !== undefined) {
+            return value;
+          }
+          return renderNodes(node.children, values, resolveVariable);
+        }
+        case "choice": {
+          const value = values[String(node.index)];
+          return value !== undefined ? value : node.choices[0] || "";
+        }
+        case "variable": {
+          const resolved = resolveVariable(node);
+          if (resolved !== undefined && resolved !== "") {
+            return resolved;
+          }
+          if (node.children) {
+            return renderNodes(node.children, values, resolveVariable);
+          }
+          return resolved ?? "";
+        }
+      }
+    })
+    .join("");
+}
+
+/**
+ * Find the node that gives each tabstop its default: its first placeholder
+ * with a value, or its first choice list. Nested fields come before the
+ * placeholders containing them, so their defaults can be used there.
+ */
+function getFieldDefaults(
+  nodes: TemplateNode[],
+  defaults = new Map<string, TemplateNode & { type: "tabstop" | "choice" }>()
+) {
+  for (const node of nodes) {
+    if (node.type === "tabstop" || node.type === "variable") {
+      getFieldDefaults(node.children || [], defaults);
+    }
+    const key =
+      node.type === "tabstop" || node.type === "choice"
+        ? String(node.index)
+        : undefined;
+    if (
+      key &&
+      !defaults.has(key) &&
+      (node.type === "choice" ||
+        (node.type === "tabstop" && node.children.length > 0))
+    ) {
+      defaults.set(key, node);
+    }
+  }
+  return defaults;
+}
+
+/**
+ * Replace what the regex of a transform matches using its format, which
+ * refers to groups as $1, ${1}, ${1:/upcase}, ${1:+if}, ${1:?if:else} and
+ * ${1:-else}. An invalid regex leaves the value unchanged.
+ */
+function applyTransform(value: string, transform: TemplateTransform): string {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(transform.regex, transform.options);
+  } catch {
+    return value;
+  }
+
+  return value.replace(regex, (...args: any[]) => {
+    // Arguments end with the offset and the string, then named groups
+    const end = typeof args[args.length - 1] === "object" ? -3 : -2;
+    return formatTransform(transform.format, args.slice(0, end));
+  });
+}
+
+function formatTransform(
+  format: string,
+  groups: Array<string | undefined>
+): string {
+  let result = "";
+  let pos = 0;
+
+  while (pos < format.length) {
+    const rest = format.slice(pos);
+    const simple = rest.match(/^\$(\d+)/);
+    const field = rest.match(/^\$\{(\d+)(?::((?:\\.|[^\\}])*))?\}/);
+
+    if (rest[0] === "\\" && rest.length > 1) {
+      result += rest[1];
+      pos += 2;
+    } else if (simple) {
+      result += groups[Number(simple[1])] ?? "";
+      pos += simple[0].length;
+    } else if (field) {
+      result += formatGroup(groups[Number(field[1])] ?? "", field[2]);
+      pos += field[0].length;
+    } else {
+      result += rest[0];
+      pos++;
+    }
+  }
+
+  return result;
+}
+
+function formatGroup(group: string, modifier: string | undefined): string {
+  if (modifier === undefined) {
+    return group;
+  }
+
+  const words = group.match(/[a-z0-9]+/gi) || [];
+  const capitalize = (word: string) =>
+    word.charAt(0).toUpperCase() + word.slice(1);
+  switch (modifier) {
+    case "/upcase":
+      return group.toUpperCase();
+    case "/downcase":
+      return group.toLowerCase();
+    case "/capitalize":
+      return capitalize(group);
+    case "/pascalcase":
+      return words.map((word) => capitalize(word.toLowerCase())).join("");
+    case "/camelcase":
+      return words
+        .map((word, i) =>
+          i === 0 ? word.toLowerCase() : capitalize(word.toLowerCase())
+        )
+        .join("");
+  }
+
+  const unescape = (text: string) => text.replace(/\\(.)/g, "$1");
+  if (modifier.startsWith("+")) {
+    return group ? unescape(modifier.slice(1)) : "";
+  }
+  if (modifier.startsWith("?")) {
+    const choices = modifier.slice(1);
+    const separator = choices.search(/(?<!\\):/);
+    const ifText = separator < 0 ? choices : choices.slice(0, separator);
+    const elseText = separator < 0 ? "" : choices.slice(separator + 1);
+    return unescape(group ? ifText : elseText);
+  }
+  const elseText = modifier.startsWith("-") ? modifier.slice(1) : modifier;
+  return group || unescape(elseText);
+}
+
+function serializeTransform(transform: TemplateTransform): string {
+  return `/${transform.regex}/${transform.format}/${transform.options}`;
+}
+
+function getMaxTabstopIndex(nodes: TemplateNode[]): number {
+  let max = 0;
+  for (const node of nodes) {
+    if (node.type === "tabstop" || node.type === "choice") {
+      max = Math.max(max, node.index);
+    }
+    if (node.type === "tabstop") {
+      max = Math.max(max, getMaxTabstopIndex(node.children));
+    }
+    if (node.type === "variable" && node.children) {
+      max = Math.max(max, getMaxTabstopIndex(node.children));
+    }
+  }
+  return max;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/[\\$}]/g, (c) => `\\${c}`);
+}
+
+function escapeChoice(choice: string): string {
+  return choice.replace(/[\\,|$}]/g, (c) => `\\${c}`);
+}
+
+/**
+ * Recursive descent parser for the snippet template syntax
+ */
+class TemplateParser {
+  private pos = 0;
+
+  constructor(private source: string, private errors: string[]) {}
+
+  parseNodes(nested: boolean): TemplateNode[] {
+    const nodes: TemplateNode[] = [];
+    let text = "";
+
+    const flush = () => {
+      if (text) {
+        nodes.push({ type: "text", value: text });
+        text = "";
+      }
+    };
+
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+
+      if (char === "\\") {
+        const next = this.source[this.pos + 1];
+        if (next === "$" || next === "}" || next === "\\") {
+          text += next;
+          this.pos += 2;
+          continue;
+        }
+        text += char;
+        this.pos++;
+        continue;
+      }
+
+      if (nested && char === "}") {
+        break;
+      }
+
+      if (char === "$") {
+        const node = this.parseDollar();
+        if (node) {
+          flush();
+          nodes.push(node);
+          continue;
+        }
+      }
+
+      text += char;
+      this.pos++;
+    }
+
+    flush();
+    return nodes;
+  }
+
+  private parseDollar(): TemplateNode | null {
+    const start = this.pos;
+    const node = this.parseField();
+    if (node && node.type === "variable") {
+      node.raw = this.source.slice(start, this.pos);
+    }
+    return node;
+  }
+
+  private parseField(): TemplateNode | null {
+    const start = this.pos;
+    const rest = this.source.slice(this.pos + 1);
+
+    // $1 or $NAME
+    const simple = rest.match(/^(\d+|[A-Za-z_][A-Za-z0-9_]*)/);
+    if (simple) {
+      this.pos += 1 + simple[1].length;
+      return /^\d+$/.test(simple[1])
+        ? { type: "tabstop", index: parseInt(simple[1], 10), children: [] }
+        : { type: "variable", name: simple[1], children: null, raw: "" };
+    }
+
+    if (rest[0] !== "{") {
+      return null;
+    }
+
+    const head = rest.slice(1).match(/^(\d+|[A-Za-z_][A-Za-z0-9_]*)/);
+    if (!head) {
+      return null;
+    }
+
+    const id = head[1];
+    const isIndex = /^\d+$/.test(id);
+    this.pos += 2 + id.length;
+    const next = this.source[this.pos];
+
+    if (next === "}") {
+      this.pos++;
+      return isIndex
+        ? { type: "tabstop", index: parseInt(id, 10), children: [] }
+        : { type: "variable", name: id, children: null, raw: "" };
+    }
+
+    if (next === ":") {
+      this.pos++;
+      const children = this.parseNodes(true);
+      if (this.source[this.pos] !== "}") {
+        this.errors.push(
+          `Unterminated placeholder "\${${id}:" at position ${start}`
+        );
+        return isIndex
+          ? { type: "tabstop", index: parseInt(id, 10), children }
+          : { type: "variable", name: id, children, raw: "" };
+      }
+      this.pos++;
+      return isIndex
+        ? { type: "tabstop", index: parseInt(id, 10), children }
+        : { type: "variable", name: id, children, raw: "" };
+    }
+
+    if (next === "/") {
+      const match = this.source.slice(this.pos).match(TRANSFORM_PATTERN);
+      if (!match) {
+        // Not a transform either (e.g. a shell ${name/pattern}), keep as text
+        this.pos = start;
+        return null;
+      }
+      this.pos += match[0].length;
+      const transform = {
+        regex: match[1],
+        format: match[2],
+        options: match[3],
+      };
+      if (isIndex || isBuiltinVariable(id)) {
+        try {
+          new RegExp(transform.regex, transform.options);
+        } catch {
+          this.errors.push(
+            `Invalid regular expression in transform of "${id}" at position ${start}`
+          );
+        }
+      }
+      return isIndex
+        ? { type: "tabstop", index: parseInt(id, 10), children: [], transform }
+        : { type: "variable", name: id, children: null, raw: "", transform };
+    }
+
+    if (next === "|" && isIndex) {
+      this.pos++;
+      const choices: string[] = [];
+      let current = "";
+      while (this.pos < this.source.length) {
+        const char = this.source[this.pos];
+        if (char === "\\" && this.pos + 1 < this.source.length) {
+          current += this.source[this.pos + 1];
+          this.pos += 2;
+          continue;
+        }
+        if (char === ",") {
+          choices.push(current);
+          current = "";
+          this.pos++;
+          continue;
+        }
+        if (char === "|" && this.source[this.pos + 1] === "}") {
+          choices.push(current);
+          this.pos += 2;
+          if (choices.some((choice) => choice === "")) {
+            this.errors.push(
+              `Choice list for tabstop ${id} contains an empty choice`
+            );
+          }
+          return { type: "choice", index: parseInt(id, 10), choices };
+        }
+        current += char;
+        this.pos++;
+      }
+      this.errors.push(
+        `Unterminated choice list "\${${id}|" at position ${start}`
+      );
+      choices.push(current);
+      return { type: "choice", index: parseInt(id, 10), choices };
+    }
+
+    // Not a template field (e.g. a JavaScript template literal), keep as text
+    this.pos = start;
+    return null;
+  }
+}
@@ -29,7 +29,9 @@ export function createSnippetFromData(data: SnippetData): SnippetInterface {
     updatedAt: now,
     usageCount: 0,
     prefix: data.prefix,
+    prefixAliases: data.prefixAliases ? [...data.prefixAliases] : undefined,
     scope: data.scope ? [...data.scope] : undefined,
+    variables: data.variables ? deepClone(data.variables) : undefined,
   };
 }
 
@@ -48,7 +50,13 @@ export function updateSnippetWithData(
     updatedAt: new Date(),
     usageCount: snippet.usageCount, // Preserve usage count
     tags: updates.tags ? [...updates.tags] : snippet.tags,
+    prefixAliases: updates.prefixAliases
+      ? [...updates.prefixAliases]
+      : snippet.prefixAliases,
     scope: updates.scope ? [...updates.scope] : snippet.scope,
+    variables: updates.variables
+      ? deepClone(updates.variables)
+      : snippet.variables,
   };
 }
 
@@ -78,6 +86,25 @@ export function isEmpty(str: string | undefined | null): boolean {
   return !str || str.trim().length === 0;
 }
 
+/**
+ * Prefix that triggers a snippet in VS Code: its own prefix, or else the
+ * title in lower case without whitespace
+ */
+export function getSnippetPrefix(
+  snippet: Pick<SnippetInterface, "prefix" | "title">
+): string {
+  return snippet.prefix || snippet.title.toLowerCase().replace(/\s+/g, "");
+}
+
+/**
+ * Get every prefix that inserts a snippet, the main prefix first
+ */
+export function getSnippetPrefixes(
+  snippet: Pick<SnippetInterface, "prefix" | "prefixAliases" | "title">
+): string[] {
+  return [getSnippetPrefix(snippet), ...(snippet.prefixAliases || [])];
+}
+
 /**
  * Sanitize a string for use as a filename
  */
@@ -204,13 +204,66 @@ describe("validation", () => {
         );
       });
 
-      it("should reject prefix with invalid characters", () => {
+      it("should reject prefix with whitespace", () => {
         const data = { ...validSnippetData, prefix: "test prefix!" };
         const result = validateSnippetData(data);
 
         expect(result.success).toBe(false);
         expect(result.error?.details.errors).toContain(
-          "Prefix must contain only alphanumeric characters, hyphens, and underscores"
+          "Prefix must not contain whitespace"
+        );
+      });
+
+      it("should accept VS Code prefixes and check aliases alike", () => {
+        const valid = validateSnippetData({
+          ...validSnippetData,
+          prefix: "console.log",
+          prefixAliases: ["#region", "log"],
+        });
+        const invalid = validateSnippetData({
+          ...validSnippetData,
+          prefixAliases: ["log", "two words"],
+        });
+
+        expect(valid.success).toBe(true);
+        expect(invalid.error?.details.errors).toEqual([
+          "Prefix alias must not contain whitespace",
+        ]);
+      });
+    });
+
+    describe("template validation", () => {
+      it("should accept code with tabstops and declared variables", () => {
+        const data = {
+          ...validSnippetData,
+          code: "console.log(${1:message}, $AUTHOR);$0",
+          variables: [{ name: "AUTHOR", defaultValue: "me" }],
+        };
+        const result = validateSnippetData(data);
+
+        expect(result.success).toBe(true);
+      });
+
+      it("should reject unterminated placeholders", () => {
+        const data = { ...validSnippetData, code: "console.log(${1:message);" };
+        const result = validateSnippetData(data);
+
+        expect(result.success).toBe(false);
+        expect(result.error?.details.errors[0]).toContain(
+          "Unterminated placeholder"
+        );
+      });
+
+      it("should reject variables conflicting with built-ins", () => {
+        const data = {
+          ...validSnippetData,
+          variables: [{ name: "TM_FILENAME" }],
+        };
+        const result = validateSnippetData(data);
+
+        expect(result.success).toBe(false);
+        expect(result.error?.details.errors).toContain(
+          'Variable "TM_FILENAME" conflicts with a built-in variable'
         );
       });
     });
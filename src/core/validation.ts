@@ -1,5 +1,8 @@
 import { SnippetData, ErrorType, Result, SnippetError } from "../types";
 import { isEmpty, createError } from "./utils";
+import { validateTemplate } from "./template";
+
+export const MAX_DESCRIPTION_LENGTH = 500;
 
 /**
  * Validate snippet data
@@ -15,8 +18,10 @@ export function validateSnippetData(data: SnippetData): Result<boolean> {
   }
 
   // Validate description
-  if (data.description && data.description.length > 500) {
-    errors.push("Description must be 500 characters or less");
+  if (data.description && data.description.length > MAX_DESCRIPTION_LENGTH) {
+    errors.push(
+      `Description must be ${MAX_DESCRIPTION_LENGTH} characters or less`
+    );
   }
 
   // Validate code
@@ -59,15 +64,25 @@ export function validateSnippetData(data: SnippetData): Result<boolean> {
     errors.push("Category must be 100 characters or less");
   }
 
-  // Validate prefix
+  // Validate prefixes. VS Code prefixes such as "console.log" or "#region"
+  // are kept as they are, but a prefix is typed as a single word.
   if (data.prefix) {
-    if (data.prefix.length > 50) {
-      errors.push("Prefix must be 50 characters or less");
-    }
-    if (!/^[a-zA-Z0-9-_]+$/.test(data.prefix)) {
-      errors.push(
-        "Prefix must contain only alphanumeric characters, hyphens, and underscores"
-      );
+    errors.push(...validatePrefix(data.prefix, "Prefix"));
+  }
+  if (data.prefixAliases) {
+    if (!Array.isArray(data.prefixAliases)) {
+      errors.push("Prefix aliases must be an array");
+    } else {
+      for (const alias of data.prefixAliases) {
+        const aliasErrors =
+          typeof alias === "string" && !isEmpty(alias)
+            ? validatePrefix(alias, "Prefix alias")
+            : ["All prefix aliases must be non-empty strings"];
+        if (aliasErrors.length > 0) {
+          errors.push(...aliasErrors);
+          break;
+        }
+      }
     }
   }
 
@@ -87,6 +102,13 @@ export function validateSnippetData(data: SnippetData): Result<boolean> {
     }
   }
 
+  // Validate template fields and custom variables
+  if (data.variables !== undefined && !Array.isArray(data.variables)) {
+    errors.push("Variables must be an array");
+  } else if (typeof data.code === "string") {
+    errors.push(...validateTemplate(data.code, data.variables || []));
+  }
+
   if (errors.length > 0) {
     return {
       success: false,
@@ -103,6 +125,20 @@ export function validateSnippetData(data: SnippetData): Result<boolean> {
   return { success: true, data: true };
 }
 
+/**
+ * Check a snippet prefix, naming it by its field in the errors
+ */
+function validatePrefix(prefix: string, label: string): string[] {
+  const errors: string[] = [];
+  if (prefix.length > 50) {
+    errors.push(`${label} must be 50 characters or less`);
+  }
+  if (!/^\S+$/.test(prefix)) {
+    errors.push(`${label} must not contain whitespace`);
+  }
+  return errors;
+}
+
 /**
  * Validate search query parameters
  */
@@ -159,6 +195,22 @@ export function validateSearchQuery(query: any): Result<boolean> {
     };
   }
 
+  // Validate library source filter
+  if (query.source !== undefined) {
+    const validSources = ["global", "workspace", "team"];
+    if (!validSources.includes(query.source)) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.validation,
+          `Library source must be one of: ${validSources.join(", ")}`,
+          { source: query.source },
+          true
+        ),
+      };
+    }
+  }
+
   // Validate sort parameters
   if (query.sortBy !== undefined) {
     const validSortFields = ["title", "createdAt", "usageCount"];
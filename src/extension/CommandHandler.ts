@@ -1,8 +1,185 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import { SnippetManagerImpl } from "../core/services/SnippetManagerImpl";
-import { SnippetInterface, SnippetData, SearchQueryInterface } from "../types";
+import {
+  SnippetInterface,
+  SnippetData,
+  SearchQueryInterface,
+  ChangeContext,
+  SnippetVariable,
+  SnippetSource,
+  DuplicateGroup,
+  AdvancedSearchQuery,
+  SavedSearchSummary,
+  SnippetCollection,
+  CategoryNode,
+  UsageSource,
+  UsageReport,
+  LintReport,
+  LintSeverity,
+} from "../types";
 import { ConfigurationManager } from "./ConfigurationManager";
+import { formatDiff } from "../core/diff";
+import { hasTemplateFields, toVSCodeSnippetBody } from "../core/template";
+import { ImportExportService } from "../core/services/ImportExportService";
+import { serializeVSCodeSnippets } from "../core/services/VSCodeSnippetFormat";
+import { serializeMarkdownSnippets } from "../core/services/MarkdownSnippetFormat";
+import { parseQuery, getQueryCompletions } from "../core/query";
+import { DuplicateDetectionService } from "../core/services/DuplicateDetectionService";
+import {
+  buildCategoryTree,
+  getCategorySegments,
+  isInCategory,
+  CATEGORY_SEPARATOR,
+} from "../core/taxonomy";
+
+/**
+ * Change context attached to edits made through VS Code commands
+ */
+const extensionChange: ChangeContext = { source: "extension" };
+
+/**
+ * Quick search entry: a matching snippet, a query completion or a message
+ */
+type SearchPickItem = vscode.QuickPickItem & {
+  snippet?: SnippetInterface;
+  completion?: string;
+};
+
+/**
+ * Saved search entry, or the entry for saving a new search
+ */
+type SavedSearchPickItem = vscode.QuickPickItem & {
+  search?: SavedSearchSummary;
+};
+
+/**
+ * Collection entry, or the entry for creating a new collection
+ */
+type CollectionPickItem = vscode.QuickPickItem & {
+  collection?: SnippetCollection;
+};
+
+/**
+ * Describe where snippets are used from, for usage reports
+ */
+const usageSourceLabels: Record<UsageSource, string> = {
+  completion: "Completion",
+  insert: "Insert command",
+  quickInsert: "Quick insert",
+  webCopy: "Web GUI copy",
+  cli: "Command line",
+  unknown: "Other",
+};
+
+/**
+ * Format the recent use, never used and stale sections of the usage
+ * statistics document
+ */
+function formatUsageReport(report: UsageReport): string[] {
+  const listSnippets = (snippets: SnippetInterface[]) => [
+    ...snippets.slice(0, 10).map((snippet) => `- ${snippet.title}`),
+    ...(snippets.length > 10 ? [`- ...and ${snippets.length - 10} more`] : []),
+  ];
+
+  return [
+    "",
+    `## Last ${report.days.length} Days`,
+    `**Uses:** ${report.total.total}`,
+    ...Object.entries(report.sources).map(
+      ([source, count]) =>
+        `- **${usageSourceLabels[source as UsageSource]}:** ${count} uses`
+    ),
+    "",
+    ...report.snippets
+      .slice(0, 5)
+      .map(
+        (item, index) =>
+          `${index + 1}. **${item.snippet.title}** (${item.total} uses)`
+      ),
+    "",
+    `## Not Used in ${report.staleDays} Days (${report.stale.length})`,
+    ...listSnippets(report.stale.map((item) => item.snippet)),
+    "",
+    `## Never Used (${report.neverUsed.length})`,
+    ...listSnippets(report.neverUsed),
+  ];
+}
+
+const lintSeverityHeadings: Record<LintSeverity, string> = {
+  error: "Errors",
+  warning: "Warnings",
+  info: "Suggestions",
+};
+
+/**
+ * Format a lint report as a markdown document, grouped by severity
+ */
+function formatLintReport(
+  report: LintReport,
+  snippets: SnippetInterface[]
+): string {
+  const titles = new Map(
+    snippets.map((snippet) => [snippet.id, snippet.title])
+  );
+  const sections = (["error", "warning", "info"] as LintSeverity[])
+    .map((severity) => {
+      const issues = report.issues.filter(
+        (issue) => issue.severity === severity
+      );
+      if (issues.length === 0) {
+        return [];
+      }
+      return [
+        "",
+        `## ${lintSeverityHeadings[severity]} (${issues.length})`,
+        ...issues.map((issue) => {
+          const where = issue.snippetId
+            ? `**${titles.get(issue.snippetId) || issue.snippetId}**${
+                issue.line ? ` (line ${issue.line})` : ""
+              }: `
+            : "";
+          const fix = issue.fix ? ` _Fix: ${issue.fix.description}_` : "";
+          return `- ${where}${issue.message} \`${issue.rule}\`${fix}`;
+        }),
+      ];
+    })
+    .flat();
+
+  return [
+    "# Snippet Library Lint",
+    "",
+    `Checked ${report.checked} snippets: ${report.counts.error} errors, ` +
+      `${report.counts.warning} warnings, ${report.counts.info} suggestions.`,
+    ...sections,
+  ].join("\n");
+}
+
+/**
+ * List the nodes of a category tree depth first, with their depth
+ */
+function flattenCategoryTree(
+  nodes: CategoryNode[],
+  depth = 0
+): Array<{ node: CategoryNode; depth: number }> {
+  return nodes.flatMap((node) => [
+    { node, depth },
+    ...flattenCategoryTree(node.children, depth + 1),
+  ]);
+}
+
+/**
+ * Summarize the query of a saved search for display
+ */
+function describeSavedQuery(query: AdvancedSearchQuery): string {
+  const parts = [
+    query.text,
+    query.language && `lang:${query.language}`,
+    query.category && `category:${query.category}`,
+    ...(query.tags || []).map((tag) => `tag:${tag}`),
+  ].filter((part): part is string => !!part);
+  return parts.length > 0 ? parts.join(" ") : "All snippets";
+}
 
 /**
  * Handles all VS Code command implementations
@@ -10,6 +187,7 @@ import { ConfigurationManager } from "./ConfigurationManager";
 export class CommandHandler {
   private snippetManager: SnippetManagerImpl;
   private configManager: ConfigurationManager;
+  private duplicateDetection = new DuplicateDetectionService();
 
   constructor(
     snippetManager: SnippetManagerImpl,
@@ -152,7 +330,10 @@ export class CommandHandler {
       };
 
       // Save the snippet
-      const result = await this.snippetManager.createSnippet(snippetData);
+      const result = await this.snippetManager.createSnippet(
+        snippetData,
+        extensionChange
+      );
       if (result.success) {
         vscode.window.showInformationMessage(
           `Snippet "${title}" saved successfully!`
@@ -278,7 +459,7 @@ export class CommandHandler {
       );
 
       // Increment usage count
-      await this.snippetManager.incrementUsage(selected.snippet.id);
+      await this.snippetManager.incrementUsage(selected.snippet.id, "insert");
 
       // Show success message with undo hint
       vscode.window.showInformationMessage(
@@ -353,7 +534,8 @@ export class CommandHandler {
     const processedCode = this.processSnippetCode(
       snippet.code,
       originalEditor,
-      originalPosition
+      originalPosition,
+      snippet.variables
     );
 
     // Create preview content showing how it will look at cursor position
@@ -502,7 +684,10 @@ export class CommandHandler {
       );
 
       // Increment usage count
-      await this.snippetManager.incrementUsage(selected.snippet.id);
+      await this.snippetManager.incrementUsage(
+        selected.snippet.id,
+        "quickInsert"
+      );
 
       // Show success message
       vscode.window.showInformationMessage(
@@ -518,6 +703,192 @@ export class CommandHandler {
     }
   }
 
+  /**
+   * Search snippets across libraries, optionally limited to one library,
+   * and insert the selected snippet
+   */
+  async quickSearch(): Promise<void> {
+    try {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor) {
+        vscode.window.showWarningMessage(
+          "No active editor found. Please open a file to insert snippet."
+        );
+        return;
+      }
+
+      const originalPosition = editor.selection.active;
+
+      const allResult = await this.snippetManager.getAllSnippets();
+      if (!allResult.success) {
+        vscode.window.showErrorMessage(
+          `Failed to load snippets: ${allResult.error.message}`
+        );
+        return;
+      }
+
+      // Only offer a library filter when several libraries are combined
+      const sources = Array.from(
+        new Set(
+          allResult.data
+            .map((snippet) => snippet.source)
+            .filter((source): source is SnippetSource => !!source)
+        )
+      );
+
+      const query: SearchQueryInterface = {
+        sortBy: "usageCount",
+        sortOrder: "desc",
+      };
+      if (sources.length > 1) {
+        const sourceItems: (vscode.QuickPickItem & {
+          source?: SnippetSource;
+        })[] = [
+          { label: "$(library) All Libraries" },
+          ...sources.map((source) => ({
+            label: `$(folder-library) ${source}`,
+            description: `${
+              allResult.data.filter((snippet) => snippet.source === source)
+                .length
+            } snippets`,
+            source,
+          })),
+        ];
+
+        const selectedSource = await vscode.window.showQuickPick(sourceItems, {
+          placeHolder: "Select a library to search",
+        });
+        if (!selectedSource) {
+          return; // User cancelled
+        }
+        query.source = selectedSource.source;
+      }
+
+      const selected = await this.pickSearchResult(allResult.data, query);
+      if (!selected) {
+        return; // User cancelled
+      }
+
+      await this.insertSnippetAtCursor(editor, selected, originalPosition);
+      await this.snippetManager.incrementUsage(selected.id, "quickInsert");
+    } catch (error) {
+      console.error("Error in quick search:", error);
+      vscode.window.showErrorMessage(
+        `Error searching snippets: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  }
+
+  /**
+   * Let the user type a search query, such as `lang:ts tag:react "phrase"`,
+   * and pick one of the matching snippets. Field names and values are
+   * offered as completions while the query is typed.
+   */
+  private pickSearchResult(
+    snippets: SnippetInterface[],
+    baseQuery: SearchQueryInterface
+  ): Promise<SnippetInterface | undefined> {
+    const quickPick = vscode.window.createQuickPick<SearchPickItem>();
+    quickPick.placeholder =
+      'Search snippets, e.g. lang:ts tag:react -tag:legacy "exact phrase"';
+    // Results are already filtered by the query syntax
+    quickPick.matchOnDescription = false;
+    quickPick.matchOnDetail = false;
+
+    let latestSearch = 0;
+    const update = async (value: string) => {
+      const search = ++latestSearch;
+      const completions: SearchPickItem[] = /\S$/.test(value)
+        ? getQueryCompletions(value, snippets, value.length, 5).map(
+            (completion) => ({
+              label: `$(symbol-field) ${completion.label}`,
+              description: completion.description,
+              completion: completion.query,
+              alwaysShow: true,
+            })
+          )
+        : [];
+
+      const parsed = parseQuery(value);
+      if (!parsed.success) {
+        quickPick.items = [
+          {
+            label: `$(error) ${parsed.error.message}`,
+            detail: parsed.error.suggestedAction,
+            alwaysShow: true,
+          },
+          ...completions,
+        ];
+        return;
+      }
+
+      quickPick.busy = true;
+      const searchResult = await this.snippetManager.searchSnippets({
+        ...baseQuery,
+        ...parsed.data,
+        source: parsed.data.source || baseQuery.source,
+      });
+      if (search !== latestSearch) {
+        return; // A newer query is being searched
+      }
+      quickPick.busy = false;
+
+      const results: SearchPickItem[] = searchResult.success
+        ? searchResult.data.map((snippet) => {
+            const library = snippet.source ? ` • ${snippet.source}` : "";
+            const tags =
+              snippet.tags.length > 0 ? ` • ${snippet.tags.join(", ")}` : "";
+
+            return {
+              label: `$(file-code) ${snippet.title}`,
+              description: `${snippet.language}${library}${tags}`,
+              detail: snippet.description || "No description",
+              snippet,
+              alwaysShow: true,
+            };
+          })
+        : [
+            {
+              label: `$(error) ${searchResult.error.message}`,
+              alwaysShow: true,
+            },
+          ];
+      if (results.length === 0) {
+        results.push({
+          label: value.trim()
+            ? "$(info) No snippets match this query"
+            : "$(info) No snippets found. Create some snippets first!",
+          alwaysShow: true,
+        });
+      }
+
+      quickPick.items = [...completions, ...results];
+    };
+
+    return new Promise((resolve) => {
+      quickPick.onDidChangeValue((value) => void update(value));
+      quickPick.onDidAccept(() => {
+        const [item] = quickPick.selectedItems;
+        if (item?.completion !== undefined) {
+          quickPick.value = item.completion;
+          void update(item.completion);
+        } else if (item?.snippet) {
+          resolve(item.snippet);
+          quickPick.hide();
+        }
+      });
+      quickPick.onDidHide(() => {
+        resolve(undefined);
+        quickPick.dispose();
+      });
+
+      void update("");
+      quickPick.show();
+    });
+  }
+
   /**
    * Open snippet management interface
    */
@@ -757,11 +1128,21 @@ export class CommandHandler {
             value: "viewByCategory",
             description: "Browse snippets organized by category",
           },
+          {
+            label: "$(folder-library) View by Collection",
+            value: "viewByCollection",
+            description: "Browse snippets in the order of a collection",
+          },
           {
             label: "$(tag) View by Tags",
             value: "viewByTags",
             description: "Browse snippets organized by tags",
           },
+          {
+            label: "$(replace-all) Rename or Merge Tag",
+            value: "renameTag",
+            description: "Rename a tag in every snippet at once",
+          },
           {
             label: "$(symbol-misc) View by Language",
             value: "viewByLanguage",
@@ -772,6 +1153,21 @@ export class CommandHandler {
             value: "statistics",
             description: "View snippet usage statistics and insights",
           },
+          {
+            label: "$(copy) Find Duplicates",
+            value: "duplicates",
+            description: "Merge or delete snippets with the same code",
+          },
+          {
+            label: "$(bookmark) Saved Searches",
+            value: "savedSearches",
+            description: "Open or create searches kept with the library",
+          },
+          {
+            label: "$(checklist) Lint Library",
+            value: "lint",
+            description: "Find secrets, missing descriptions and more",
+          },
           {
             label: "$(organization) Cleanup",
             value: "cleanup",
@@ -791,15 +1187,30 @@ export class CommandHandler {
         case "viewByCategory":
           await this.viewSnippetsByCategory();
           break;
+        case "viewByCollection":
+          await this.viewSnippetsByCollection();
+          break;
         case "viewByTags":
           await this.viewSnippetsByTags();
           break;
+        case "renameTag":
+          await this.renameTag();
+          break;
         case "viewByLanguage":
           await this.viewSnippetsByLanguage();
           break;
         case "statistics":
           await this.showUsageStatistics();
           break;
+        case "duplicates":
+          await this.findDuplicates();
+          break;
+        case "savedSearches":
+          await this.savedSearches();
+          break;
+        case "lint":
+          await this.lintLibrary();
+          break;
         case "cleanup":
           await this.cleanupOrganization();
           break;
@@ -815,33 +1226,122 @@ export class CommandHandler {
   }
 
   /**
-   * Open web GUI
+   * Find groups of duplicate and near-duplicate snippets, then merge or
+   * delete the snippets of a group
    */
-  async openWebGUI(): Promise<void> {
-    // This will be handled by the WebGUILauncher in the extension
-    // The CommandHandler doesn't directly manage the launcher
-    vscode.commands.executeCommand("snippetLibrary.launchWebGUI");
+  async findDuplicates(): Promise<void> {
+    try {
+      const allSnippetsResult = await this.snippetManager.getAllSnippets();
+      if (!allSnippetsResult.success) {
+        vscode.window.showErrorMessage(
+          `Failed to get snippets: ${allSnippetsResult.error.message}`
+        );
+        return;
+      }
+
+      const groups = this.duplicateDetection.findDuplicates(
+        allSnippetsResult.data
+      );
+      if (groups.length === 0) {
+        vscode.window.showInformationMessage("No duplicate snippets found.");
+        return;
+      }
+
+      const selectedGroup = await vscode.window.showQuickPick(
+        groups.map((group) => ({
+          label: `$(copy) ${group.snippets[0].title}`,
+          description: `${group.snippets.length} snippets | ${
+            group.exact
+              ? "same code"
+              : `${Math.round(group.similarity * 100)}% similar`
+          }`,
+          detail: group.snippets.map((snippet) => snippet.title).join(", "),
+          group,
+        })),
+        {
+          placeHolder: `Found ${groups.length} groups of duplicate snippets`,
+          matchOnDescription: true,
+          matchOnDetail: true,
+        }
+      );
+
+      if (!selectedGroup) {
+        return; // User cancelled
+      }
+
+      await this.resolveDuplicateGroup(selectedGroup.group);
+    } catch (error) {
+      console.error("Error finding duplicates:", error);
+      vscode.window.showErrorMessage(
+        `Error finding duplicates: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
   }
 
   /**
-   * Refresh snippets from storage
+   * Lint the whole library, show the report as a document and offer to
+   * apply the fixes that are safe
    */
-  async refreshSnippets(): Promise<void> {
+  async lintLibrary(): Promise<void> {
     try {
-      const result = await this.snippetManager.refresh();
-      if (result.success) {
+      const reportResult = await this.snippetManager.lintLibrary();
+      if (!reportResult.success) {
+        vscode.window.showErrorMessage(
+          `Failed to lint snippets: ${reportResult.error.message}`
+        );
+        return;
+      }
+
+      const report = reportResult.data;
+      if (report.issues.length === 0) {
         vscode.window.showInformationMessage(
-          "Snippets refreshed successfully!"
+          `No problems found in ${report.checked} snippets.`
         );
-      } else {
+        return;
+      }
+
+      const allSnippetsResult = await this.snippetManager.getAllSnippets();
+      const document = await vscode.workspace.openTextDocument({
+        content: formatLintReport(
+          report,
+          allSnippetsResult.success ? allSnippetsResult.data : []
+        ),
+        language: "markdown",
+      });
+      await vscode.window.showTextDocument(document, { preview: true });
+
+      if (report.fixable === 0) {
+        return;
+      }
+
+      const action = await vscode.window.showInformationMessage(
+        `Found ${report.issues.length} problems, ${report.fixable} can be fixed automatically.`,
+        "Apply Fixes"
+      );
+      if (action !== "Apply Fixes") {
+        return;
+      }
+
+      const fixResult = await this.snippetManager.fixLintIssues(
+        undefined,
+        extensionChange
+      );
+      if (!fixResult.success) {
         vscode.window.showErrorMessage(
-          `Failed to refresh snippets: ${result.error.message}`
+          `Failed to apply fixes: ${fixResult.error.message}`
         );
+        return;
       }
+
+      vscode.window.showInformationMessage(
+        `Fixed ${fixResult.data} snippets`
+      );
     } catch (error) {
-      console.error("Error refreshing snippets:", error);
+      console.error("Error linting snippets:", error);
       vscode.window.showErrorMessage(
-        `Error refreshing snippets: ${
+        `Error linting snippets: ${
           error instanceof Error ? error.message : error
         }`
       );
@@ -849,44 +1349,62 @@ export class CommandHandler {
   }
 
   /**
-   * Export snippets to file
+   * Pick a saved search, listed with the number of snippets it matches, and
+   * browse its snippets. Saved searches are shared with the Web GUI.
    */
-  async exportSnippets(): Promise<void> {
+  async savedSearches(): Promise<void> {
     try {
-      const result = await this.snippetManager.exportSnippets();
-      if (!result.success) {
+      const searchesResult = await this.snippetManager.getSavedSearches();
+      if (!searchesResult.success) {
         vscode.window.showErrorMessage(
-          `Failed to export snippets: ${result.error.message}`
+          `Failed to load saved searches: ${searchesResult.error.message}`
         );
         return;
       }
 
-      const exportData = result.data;
-      const exportJson = JSON.stringify(exportData, null, 2);
-
-      // Show save dialog
-      const uri = await vscode.window.showSaveDialog({
-        defaultUri: vscode.Uri.file(
-          `snippets-export-${new Date().toISOString().split("T")[0]}.json`
-        ),
-        filters: {
-          "JSON Files": ["json"],
+      const items: SavedSearchPickItem[] = [
+        ...searchesResult.data.map((search) => ({
+          label: `$(bookmark) ${search.name}`,
+          description: `${search.count} snippets`,
+          detail: describeSavedQuery(search.query),
+          search,
+        })),
+        {
+          label: "$(add) New Saved Search...",
+          description: "Save a search query under a name",
         },
+      ];
+
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: "Select a saved search",
+        matchOnDescription: true,
+        matchOnDetail: true,
       });
 
-      if (uri) {
-        await vscode.workspace.fs.writeFile(
-          uri,
-          Buffer.from(exportJson, "utf8")
-        );
-        vscode.window.showInformationMessage(
-          `Exported ${exportData.snippets.length} snippets to ${uri.fsPath}`
+      if (!selected) {
+        return; // User cancelled
+      }
+
+      if (!selected.search) {
+        await this.createSavedSearch();
+        return;
+      }
+
+      const runResult = await this.snippetManager.runSavedSearch(
+        selected.search.id
+      );
+      if (!runResult.success) {
+        vscode.window.showErrorMessage(
+          `Failed to run saved search: ${runResult.error.message}`
         );
+        return;
       }
+
+      await this.showSnippetList(runResult.data, selected.search.name);
     } catch (error) {
-      console.error("Error exporting snippets:", error);
+      console.error("Error opening saved searches:", error);
       vscode.window.showErrorMessage(
-        `Error exporting snippets: ${
+        `Error opening saved searches: ${
           error instanceof Error ? error.message : error
         }`
       );
@@ -894,43 +1412,226 @@ export class CommandHandler {
   }
 
   /**
-   * Import snippets from file
+   * Pick a collection, or create one, and browse or arrange its snippets.
+   * Collections are shared with the Web GUI.
    */
-  async importSnippets(): Promise<void> {
+  async collections(): Promise<void> {
     try {
-      // Show open dialog
-      const uris = await vscode.window.showOpenDialog({
-        canSelectFiles: true,
-        canSelectMany: false,
-        filters: {
-          "JSON Files": ["json"],
-        },
-      });
-
-      if (!uris || uris.length === 0) {
+      const collection = await this.pickCollection(
+        "Select a collection to manage",
+        true
+      );
+      if (collection === undefined) {
         return; // User cancelled
       }
 
-      const fileContent = await vscode.workspace.fs.readFile(uris[0]);
-      const importData = JSON.parse(fileContent.toString());
+      if (collection === null) {
+        await this.createCollection();
+        return;
+      }
 
-      // Ask for conflict resolution strategy
-      const conflictResolution = await vscode.window.showQuickPick(
+      const action = await vscode.window.showQuickPick(
         [
           {
-            label: "Skip",
-            value: "skip",
-            description: "Skip snippets that already exist",
+            label: "$(list-ordered) View Snippets",
+            value: "view",
+            description: "Browse the snippets in their order",
           },
           {
-            label: "Overwrite",
-            value: "overwrite",
-            description: "Replace existing snippets",
+            label: "$(add) Add Snippets",
+            value: "add",
+            description: "Append snippets to the collection",
           },
           {
-            label: "Rename",
-            value: "rename",
-            description: "Create new snippets with modified names",
+            label: "$(arrow-both) Move Snippet",
+            value: "move",
+            description: "Change the position of a snippet",
+          },
+          {
+            label: "$(remove) Remove Snippets",
+            value: "remove",
+            description: "Take snippets out of the collection",
+          },
+          {
+            label: "$(trash) Delete Collection",
+            value: "delete",
+            description: "Delete the collection and its subcollections",
+          },
+        ],
+        { placeHolder: `Collection "${collection.name}"` }
+      );
+
+      if (!action) {
+        return; // User cancelled
+      }
+
+      switch (action.value) {
+        case "view":
+          await this.showCollectionSnippets(collection);
+          break;
+        case "add":
+          await this.addSnippetsToCollection(collection);
+          break;
+        case "move":
+          await this.moveCollectionSnippet(collection);
+          break;
+        case "remove":
+          await this.removeSnippetsFromCollection(collection);
+          break;
+        case "delete":
+          await this.deleteCollection(collection);
+          break;
+      }
+    } catch (error) {
+      console.error("Error managing collections:", error);
+      vscode.window.showErrorMessage(
+        `Error managing collections: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  }
+
+  /**
+   * Open web GUI
+   */
+  async openWebGUI(): Promise<void> {
+    // This will be handled by the WebGUILauncher in the extension
+    // The CommandHandler doesn't directly manage the launcher
+    vscode.commands.executeCommand("snippetLibrary.launchWebGUI");
+  }
+
+  /**
+   * Refresh snippets from storage
+   */
+  async refreshSnippets(): Promise<void> {
+    try {
+      const result = await this.snippetManager.refresh();
+      if (result.success) {
+        vscode.window.showInformationMessage(
+          "Snippets refreshed successfully!"
+        );
+      } else {
+        vscode.window.showErrorMessage(
+          `Failed to refresh snippets: ${result.error.message}`
+        );
+      }
+    } catch (error) {
+      console.error("Error refreshing snippets:", error);
+      vscode.window.showErrorMessage(
+        `Error refreshing snippets: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  }
+
+  /**
+   * Export snippets to file
+   */
+  async exportSnippets(): Promise<void> {
+    try {
+      const result = await this.snippetManager.exportSnippets();
+      if (!result.success) {
+        vscode.window.showErrorMessage(
+          `Failed to export snippets: ${result.error.message}`
+        );
+        return;
+      }
+
+      const exportData = result.data;
+
+      // Show save dialog
+      const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(
+          `snippets-export-${new Date().toISOString().split("T")[0]}.json`
+        ),
+        filters: {
+          "JSON Files": ["json"],
+          "VS Code Snippets": ["code-snippets"],
+          "Markdown Files": ["md"],
+        },
+      });
+
+      if (uri) {
+        let exportContent = JSON.stringify(exportData, null, 2);
+        if (uri.fsPath.endsWith(".code-snippets")) {
+          exportContent = JSON.stringify(
+            serializeVSCodeSnippets(exportData.snippets),
+            null,
+            2
+          );
+        } else if (/\.(md|markdown)$/i.test(uri.fsPath)) {
+          exportContent = serializeMarkdownSnippets(exportData.snippets);
+        }
+
+        await vscode.workspace.fs.writeFile(
+          uri,
+          Buffer.from(exportContent, "utf8")
+        );
+        vscode.window.showInformationMessage(
+          `Exported ${exportData.snippets.length} snippets to ${uri.fsPath}`
+        );
+      }
+    } catch (error) {
+      console.error("Error exporting snippets:", error);
+      vscode.window.showErrorMessage(
+        `Error exporting snippets: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  }
+
+  /**
+   * Import snippets from file
+   */
+  async importSnippets(): Promise<void> {
+    try {
+      // Show open dialog
+      const uris = await vscode.window.showOpenDialog({
+        canSelectFiles: true,
+        canSelectMany: false,
+        filters: {
+          "Snippet Files": ["json", "yaml", "yml", "code-snippets", "md"],
+        },
+      });
+
+      if (!uris || uris.length === 0) {
+        return; // User cancelled
+      }
+
+      // Accepts our export files as well as VS Code `.code-snippets` and
+      // per-language snippet files
+      const fileContent = await vscode.workspace.fs.readFile(uris[0]);
+      const parseResult = new ImportExportService(
+        this.snippetManager
+      ).parseImportContent(fileContent.toString(), uris[0].fsPath);
+
+      if (!parseResult.success) {
+        vscode.window.showErrorMessage(
+          `Error importing snippets: ${parseResult.error.message}`
+        );
+        return;
+      }
+
+      // Ask for conflict resolution strategy
+      const conflictResolution = await vscode.window.showQuickPick(
+        [
+          {
+            label: "Skip",
+            value: "skip",
+            description: "Skip snippets that already exist",
+          },
+          {
+            label: "Overwrite",
+            value: "overwrite",
+            description: "Replace existing snippets",
+          },
+          {
+            label: "Rename",
+            value: "rename",
+            description: "Create new snippets with modified names",
           },
         ],
         {
@@ -943,7 +1644,7 @@ export class CommandHandler {
       }
 
       const result = await this.snippetManager.importSnippets({
-        snippets: importData.snippets || [],
+        snippets: parseResult.data,
         conflictResolution: conflictResolution.value as
           | "skip"
           | "overwrite"
@@ -992,6 +1693,11 @@ export class CommandHandler {
           value: "preview",
           description: "View snippet code",
         },
+        {
+          label: "$(history) History",
+          value: "history",
+          description: "View revisions, compare and roll back",
+        },
         {
           label: "$(trash) Delete",
           value: "delete",
@@ -1014,12 +1720,148 @@ export class CommandHandler {
       case "preview":
         await this.previewSnippet(snippet);
         break;
+      case "history":
+        await this.showSnippetHistory(snippet);
+        break;
       case "delete":
         await this.deleteSnippet(snippet);
         break;
     }
   }
 
+  /**
+   * Show the revision history of a snippet with diff and rollback actions
+   */
+  private async showSnippetHistory(snippet: SnippetInterface): Promise<void> {
+    try {
+      const historyResult = await this.snippetManager.getSnippetHistory(
+        snippet.id
+      );
+      if (!historyResult.success) {
+        vscode.window.showErrorMessage(
+          `Failed to load history: ${historyResult.error.message}`
+        );
+        return;
+      }
+
+      const revisions = historyResult.data;
+      if (revisions.length === 0) {
+        vscode.window.showInformationMessage(
+          `No revisions recorded for "${snippet.title}" yet.`
+        );
+        return;
+      }
+
+      const latest = revisions[0];
+      const selected = await vscode.window.showQuickPick(
+        revisions.map((revision) => ({
+          label: `#${revision.revision}${
+            revision.revision === latest.revision ? " (current)" : ""
+          }`,
+          description: `${revision.timestamp.toLocaleString()} · ${
+            revision.source
+          }`,
+          detail: `Changed: ${revision.changedFields.join(", ")}`,
+          revision,
+        })),
+        {
+          placeHolder: `Select a revision of "${snippet.title}"`,
+        }
+      );
+
+      if (!selected) {
+        return; // User cancelled
+      }
+
+      const action = await vscode.window.showQuickPick(
+        [
+          {
+            label: "$(diff) Compare with Current",
+            value: "diff",
+          },
+          {
+            label: "$(discard) Restore This Revision",
+            value: "rollback",
+          },
+        ],
+        {
+          placeHolder: `What would you like to do with revision #${selected.revision.revision}?`,
+        }
+      );
+
+      if (!action) {
+        return; // User cancelled
+      }
+
+      if (action.value === "diff") {
+        const diffResult = await this.snippetManager.diffSnippetRevisions(
+          snippet.id,
+          selected.revision.revision,
+          latest.revision
+        );
+        if (!diffResult.success) {
+          vscode.window.showErrorMessage(
+            `Failed to compare revisions: ${diffResult.error.message}`
+          );
+          return;
+        }
+
+        const diff = diffResult.data;
+        const fieldLines = diff.changedFields
+          .filter((field) => field !== "code")
+          .map(
+            (field) =>
+              `${field}: ${JSON.stringify(
+                diff.fields[field]?.from
+              )} -> ${JSON.stringify(diff.fields[field]?.to)}`
+          );
+
+        const document = await vscode.workspace.openTextDocument({
+          content: [
+            `Revision #${diff.fromRevision} -> #${diff.toRevision}`,
+            ...fieldLines,
+            "",
+            formatDiff(diff.codeDiff),
+          ].join("\n"),
+          language: "diff",
+        });
+        await vscode.window.showTextDocument(document, { preview: true });
+        return;
+      }
+
+      const confirm = await vscode.window.showWarningMessage(
+        `Restore "${snippet.title}" to revision #${selected.revision.revision}?`,
+        { modal: true },
+        "Restore"
+      );
+      if (confirm !== "Restore") {
+        return;
+      }
+
+      const rollbackResult = await this.snippetManager.rollbackSnippet(
+        snippet.id,
+        selected.revision.revision,
+        extensionChange
+      );
+      if (rollbackResult.success) {
+        vscode.window.showInformationMessage(
+          `Snippet "${snippet.title}" restored to revision #${selected.revision.revision}`
+        );
+      } else {
+        vscode.window.showErrorMessage(
+          `Failed to restore snippet: ${rollbackResult.error.message}`
+        );
+      }
+    } catch (error) {
+      console.error("Error showing snippet history:", error);
+      vscode.window.showErrorMessage(
+        `Error showing snippet history: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  }
+
   /**
    * Edit a snippet with full metadata modification
    */
@@ -1079,7 +1921,8 @@ export class CommandHandler {
       if (Object.keys(updates).length > 0) {
         const result = await this.snippetManager.updateSnippet(
           snippet.id,
-          updates
+          updates,
+          extensionChange
         );
         if (result.success) {
           vscode.window.showInformationMessage(
@@ -1364,30 +2207,110 @@ export class CommandHandler {
   }
 
   /**
-   * Bulk delete multiple snippets
+   * Merge a group of duplicates into the snippet the user keeps, or delete
+   * the duplicates they pick
    */
-  private async bulkDelete(snippets: SnippetInterface[]): Promise<void> {
-    const confirmation = await vscode.window.showWarningMessage(
-      `Are you sure you want to delete ${snippets.length} snippets?`,
-      { modal: true },
-      "Delete All"
+  private async resolveDuplicateGroup(group: DuplicateGroup): Promise<void> {
+    const action = await vscode.window.showQuickPick(
+      [
+        {
+          label: "$(git-merge) Merge",
+          value: "merge",
+          description: "Keep one snippet with the tags, usage and descriptions",
+        },
+        {
+          label: "$(trash) Delete",
+          value: "delete",
+          description: "Delete some of the duplicates",
+        },
+      ],
+      {
+        placeHolder: `${group.snippets.length} duplicates of "${group.snippets[0].title}"`,
+      }
     );
 
-    if (confirmation !== "Delete All") {
+    if (!action) {
+      return; // User cancelled
+    }
+
+    const snippetItems = group.snippets.map((snippet) => ({
+      label: `$(file-code) ${snippet.title}`,
+      description: `${snippet.language} | used ${snippet.usageCount} times`,
+      detail: snippet.description || "No description",
+      snippet,
+    }));
+
+    if (action.value === "delete") {
+      const selected = await vscode.window.showQuickPick(snippetItems, {
+        placeHolder: "Select the duplicates to delete",
+        canPickMany: true,
+      });
+      if (selected && selected.length > 0) {
+        await this.bulkDelete(selected.map((item) => item.snippet));
+      }
       return;
     }
 
-    let successCount = 0;
-    let errorCount = 0;
-    const errors: string[] = [];
+    const target = await vscode.window.showQuickPick(snippetItems, {
+      placeHolder: "Select the snippet to keep",
+    });
+    if (!target) {
+      return;
+    }
 
-    await vscode.window.withProgress(
-      {
-        location: vscode.ProgressLocation.Notification,
-        title: "Deleting snippets...",
-        cancellable: false,
-      },
-      async (progress) => {
+    const sourceIds = group.snippets
+      .filter((snippet) => snippet.id !== target.snippet.id)
+      .map((snippet) => snippet.id);
+    const confirmation = await vscode.window.showWarningMessage(
+      `Merge ${sourceIds.length} snippets into "${target.snippet.title}"? The merged snippets will be deleted.`,
+      { modal: true },
+      "Merge"
+    );
+    if (confirmation !== "Merge") {
+      return;
+    }
+
+    const result = await this.snippetManager.mergeSnippets(
+      target.snippet.id,
+      sourceIds,
+      extensionChange
+    );
+    if (result.success) {
+      vscode.window.showInformationMessage(
+        `Merged ${sourceIds.length} snippets into "${result.data.title}".`
+      );
+    } else {
+      vscode.window.showErrorMessage(
+        `Failed to merge snippets: ${result.error.message}`
+      );
+    }
+  }
+
+  /**
+   * Bulk delete multiple snippets
+   */
+  private async bulkDelete(snippets: SnippetInterface[]): Promise<void> {
+    const confirmation = await vscode.window.showWarningMessage(
+      `Are you sure you want to delete ${snippets.length} snippets?`,
+      { modal: true },
+      "Delete All"
+    );
+
+    if (confirmation !== "Delete All") {
+      return;
+    }
+
+    let successCount = 0;
+    let errorCount = 0;
+    const errors: string[] = [];
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Deleting snippets...",
+        cancellable: false,
+      },
+      async (progress) => {
         for (let i = 0; i < snippets.length; i++) {
           const snippet = snippets[i];
           progress.report({
@@ -1465,9 +2388,11 @@ export class CommandHandler {
           });
 
           const newTags = [...new Set([...snippet.tags, ...tagsToAdd])];
-          const result = await this.snippetManager.updateSnippet(snippet.id, {
-            tags: newTags,
-          });
+          const result = await this.snippetManager.updateSnippet(
+            snippet.id,
+            { tags: newTags },
+            extensionChange
+          );
 
           if (result.success) {
             successCount++;
@@ -1536,9 +2461,11 @@ export class CommandHandler {
             (tag) => !tagsToRemoveSet.has(tag)
           );
           if (newTags.length !== snippet.tags.length) {
-            const result = await this.snippetManager.updateSnippet(snippet.id, {
-              tags: newTags,
-            });
+            const result = await this.snippetManager.updateSnippet(
+              snippet.id,
+              { tags: newTags },
+              extensionChange
+            );
 
             if (result.success) {
               successCount++;
@@ -1612,9 +2539,11 @@ export class CommandHandler {
             message: `Setting category for "${snippet.title}"...`,
           });
 
-          const result = await this.snippetManager.updateSnippet(snippet.id, {
-            category,
-          });
+          const result = await this.snippetManager.updateSnippet(
+            snippet.id,
+            { category },
+            extensionChange
+          );
 
           if (result.success) {
             successCount++;
@@ -1698,7 +2627,8 @@ export class CommandHandler {
     const processedCode = this.processSnippetCode(
       snippet.code,
       editor,
-      insertPosition
+      insertPosition,
+      snippet.variables
     );
     const snippetString = new vscode.SnippetString(processedCode);
 
@@ -1736,25 +2666,34 @@ export class CommandHandler {
   }
 
   /**
-   * Process snippet code to handle indentation, tab stops, and placeholders
+   * Process snippet code to handle indentation, tab stops, and placeholders.
+   * Snippets that already use template fields are converted as written;
+   * others get tab stops added heuristically.
    */
   private processSnippetCode(
     code: string,
     editor: vscode.TextEditor,
-    position: vscode.Position
+    position: vscode.Position,
+    variables?: SnippetVariable[]
   ): string {
     // Get current line indentation
     const currentLine = editor.document.lineAt(position.line);
     const currentIndentation = this.getIndentation(currentLine.text);
 
+    const isTemplate = hasTemplateFields(code, variables);
+    const processSyntax = (line: string) =>
+      isTemplate ? line : this.processSnippetSyntax(line);
+
     // Split code into lines
-    const lines = code.split("\n");
+    const lines = (
+      isTemplate ? toVSCodeSnippetBody(code, variables) : code
+    ).split("\n");
 
     // Process each line
     const processedLines = lines.map((line, index) => {
       if (index === 0) {
         // First line: don't add extra indentation (cursor position handles it)
-        return this.processSnippetSyntax(line);
+        return processSyntax(line);
       } else {
         // Subsequent lines: maintain relative indentation and add current indentation
         const lineIndentation = this.getIndentation(line);
@@ -1768,7 +2707,7 @@ export class CommandHandler {
         return (
           currentIndentation +
           lineIndentation +
-          this.processSnippetSyntax(trimmedLine)
+          processSyntax(trimmedLine)
         );
       }
     });
@@ -1911,15 +2850,6 @@ export class CommandHandler {
    */
   private async viewSnippetsByCategory(): Promise<void> {
     try {
-      const categoriesResult = await this.snippetManager.getCategories();
-      if (!categoriesResult.success) {
-        vscode.window.showErrorMessage(
-          `Failed to get categories: ${categoriesResult.error.message}`
-        );
-        return;
-      }
-
-      const categories = categoriesResult.data;
       const allSnippetsResult = await this.snippetManager.getAllSnippets();
       if (!allSnippetsResult.success) {
         vscode.window.showErrorMessage(
@@ -1931,19 +2861,15 @@ export class CommandHandler {
       const allSnippets = allSnippetsResult.data;
       const uncategorizedSnippets = allSnippets.filter((s) => !s.category);
 
-      // Create category options
-      const categoryOptions = [
-        ...categories.map((category) => {
-          const count = allSnippets.filter(
-            (s) => s.category === category
-          ).length;
-          return {
-            label: `$(folder) ${category}`,
-            description: `${count} snippets`,
-            value: category,
-          };
-        }),
-      ];
+      // Create category options, with subcategories below their parent.
+      // Counts include the snippets of subcategories.
+      const categoryOptions = flattenCategoryTree(
+        buildCategoryTree(allSnippets)
+      ).map(({ node, depth }) => ({
+        label: `${"    ".repeat(depth)}$(folder) ${node.name}`,
+        description: `${node.count} snippets`,
+        value: node.path,
+      }));
 
       if (uncategorizedSnippets.length > 0) {
         categoryOptions.push({
@@ -1968,14 +2894,16 @@ export class CommandHandler {
       if (selectedCategory.value === "__uncategorized__") {
         snippetsToShow = uncategorizedSnippets;
       } else {
-        snippetsToShow = allSnippets.filter(
-          (s) => s.category === selectedCategory.value
+        snippetsToShow = allSnippets.filter((s) =>
+          isInCategory(s.category, selectedCategory.value)
         );
       }
 
       await this.showSnippetList(
         snippetsToShow,
-        `Snippets in "${selectedCategory.label}"`
+        selectedCategory.value === "__uncategorized__"
+          ? "Uncategorized snippets"
+          : `Snippets in "${selectedCategory.value}"`
       );
     } catch (error) {
       console.error("Error viewing snippets by category:", error);
@@ -1987,6 +2915,27 @@ export class CommandHandler {
     }
   }
 
+  /**
+   * View the snippets of a collection in the collection's order
+   */
+  private async viewSnippetsByCollection(): Promise<void> {
+    try {
+      const collection = await this.pickCollection(
+        "Select a collection to view"
+      );
+      if (collection) {
+        await this.showCollectionSnippets(collection);
+      }
+    } catch (error) {
+      console.error("Error viewing snippets by collection:", error);
+      vscode.window.showErrorMessage(
+        `Error viewing snippets by collection: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  }
+
   /**
    * View snippets organized by tags
    */
@@ -2047,6 +2996,99 @@ export class CommandHandler {
     }
   }
 
+  /**
+   * Rename a tag across the library. Renaming to an existing tag merges
+   * the two.
+   */
+  private async renameTag(): Promise<void> {
+    try {
+      const allSnippetsResult = await this.snippetManager.getAllSnippets();
+      if (!allSnippetsResult.success) {
+        vscode.window.showErrorMessage(
+          `Failed to get snippets: ${allSnippetsResult.error.message}`
+        );
+        return;
+      }
+
+      const counts = new Map<string, number>();
+      for (const snippet of allSnippetsResult.data) {
+        for (const tag of snippet.tags) {
+          counts.set(tag, (counts.get(tag) || 0) + 1);
+        }
+      }
+
+      if (counts.size === 0) {
+        vscode.window.showInformationMessage("No tags to rename");
+        return;
+      }
+
+      const selectedTag = await vscode.window.showQuickPick(
+        Array.from(counts)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([tag, count]) => ({
+            label: `$(tag) ${tag}`,
+            description: `${count} snippets`,
+            value: tag,
+          })),
+        { placeHolder: "Select a tag to rename" }
+      );
+
+      if (!selectedTag) {
+        return; // User cancelled
+      }
+
+      const newName = await vscode.window.showInputBox({
+        prompt: `Rename "${selectedTag.value}" to`,
+        placeHolder: "An existing tag merges the two",
+        value: selectedTag.value,
+        validateInput: (value) =>
+          value.trim() ? null : "Tag name cannot be empty",
+      });
+
+      if (!newName || newName.trim() === selectedTag.value) {
+        return; // User cancelled or nothing to rename
+      }
+
+      const keepAlias = await vscode.window.showQuickPick(
+        [
+          {
+            label: "Keep the old name as an alias",
+            description: `"${selectedTag.value}" keeps finding these snippets`,
+            value: true,
+          },
+          { label: "Drop the old name", value: false },
+        ],
+        { placeHolder: "What should happen to the old name?" }
+      );
+
+      if (!keepAlias) {
+        return; // User cancelled
+      }
+
+      const result = await this.snippetManager.renameTag(
+        selectedTag.value,
+        newName.trim(),
+        { keepAlias: keepAlias.value },
+        extensionChange
+      );
+      if (!result.success) {
+        vscode.window.showErrorMessage(
+          `Failed to rename tag: ${result.error.message}`
+        );
+        return;
+      }
+
+      vscode.window.showInformationMessage(
+        `Renamed "${selectedTag.value}" in ${result.data} snippets`
+      );
+    } catch (error) {
+      console.error("Error renaming tag:", error);
+      vscode.window.showErrorMessage(
+        `Error renaming tag: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
   /**
    * View snippets organized by language
    */
@@ -2125,6 +3167,14 @@ export class CommandHandler {
 
       const stats = statsResult.data;
 
+      // Recent usage is reported when usage events are recorded
+      const reportResult = await this.snippetManager.getUsageReport({
+        days: 7,
+      });
+      const recentUsage = reportResult.success
+        ? formatUsageReport(reportResult.data)
+        : [];
+
       // Create statistics content
       const content = [
         "# Snippet Library Statistics",
@@ -2170,6 +3220,7 @@ export class CommandHandler {
               item.count
             } snippets (${item.percentage.toFixed(1)}%)`
         ),
+        ...recentUsage,
       ].join("\n");
 
       // Show statistics in a new document
@@ -2273,6 +3324,374 @@ export class CommandHandler {
     }
   }
 
+  /**
+   * Ask for a search query and a name, then save the search
+   */
+  private async createSavedSearch(): Promise<void> {
+    const text = await vscode.window.showInputBox({
+      prompt: "Search query to save",
+      placeHolder: 'e.g. lang:ts tag:react -tag:legacy "exact phrase"',
+      validateInput: (value) => {
+        const parsed = parseQuery(value);
+        return parsed.success ? null : parsed.error.message;
+      },
+    });
+    if (text === undefined) {
+      return; // User cancelled
+    }
+
+    const name = await vscode.window.showInputBox({
+      prompt: "Name of the saved search",
+      validateInput: (value) =>
+        value.trim() ? null : "Saved search name is required",
+    });
+    if (name === undefined) {
+      return; // User cancelled
+    }
+
+    const result = await this.snippetManager.saveSearch(name, {
+      text: text.trim() || undefined,
+    });
+    if (!result.success) {
+      vscode.window.showErrorMessage(
+        `Failed to save search: ${result.error.message}`
+      );
+      return;
+    }
+
+    vscode.window.showInformationMessage(
+      `Saved search "${result.data.name}" matches ${result.data.count} snippets`
+    );
+  }
+
+  /**
+   * Pick a collection, with subcollections listed below their parent.
+   * Resolves to null when the entry for a new collection is picked and to
+   * undefined when the user cancels.
+   */
+  private async pickCollection(
+    placeHolder: string,
+    allowCreate = false
+  ): Promise<SnippetCollection | null | undefined> {
+    const collectionsResult = await this.snippetManager.getCollections();
+    if (!collectionsResult.success) {
+      vscode.window.showErrorMessage(
+        `Failed to get collections: ${collectionsResult.error.message}`
+      );
+      return undefined;
+    }
+
+    const collections = collectionsResult.data;
+    if (collections.length === 0 && !allowCreate) {
+      vscode.window.showInformationMessage("No collections found.");
+      return undefined;
+    }
+
+    const items: CollectionPickItem[] = collections
+      .filter((collection) => !collection.parentId)
+      .flatMap((parent) => [
+        parent,
+        ...collections.filter(
+          (collection) => collection.parentId === parent.id
+        ),
+      ])
+      .map((collection) => ({
+        label: collection.parentId
+          ? `    $(folder) ${collection.name}`
+          : `$(folder-library) ${collection.name}`,
+        description: `${collection.snippetIds.length} snippets`,
+        detail: collection.description,
+        collection,
+      }));
+
+    if (allowCreate) {
+      items.push({
+        label: "$(add) New Collection...",
+        description: "Create a collection, optionally inside another",
+      });
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder,
+      matchOnDescription: true,
+    });
+
+    if (!selected) {
+      return undefined;
+    }
+    return selected.collection || null;
+  }
+
+  /**
+   * Ask for a name and an optional parent, then create a collection
+   */
+  private async createCollection(): Promise<void> {
+    const name = await vscode.window.showInputBox({
+      prompt: "Name of the collection",
+      validateInput: (value) =>
+        value.trim() ? null : "Collection name is required",
+    });
+    if (name === undefined) {
+      return; // User cancelled
+    }
+
+    const collectionsResult = await this.snippetManager.getCollections();
+    const parents = collectionsResult.success
+      ? collectionsResult.data.filter((collection) => !collection.parentId)
+      : [];
+
+    let parentId: string | undefined;
+    if (parents.length > 0) {
+      const parent = await vscode.window.showQuickPick(
+        [
+          { label: "$(root-folder) Top Level", value: "" },
+          ...parents.map((collection) => ({
+            label: `$(folder-library) ${collection.name}`,
+            value: collection.id,
+          })),
+        ],
+        { placeHolder: "Create the collection inside" }
+      );
+      if (!parent) {
+        return; // User cancelled
+      }
+      parentId = parent.value || undefined;
+    }
+
+    const result = await this.snippetManager.createCollection(name, {
+      parentId,
+    });
+    if (!result.success) {
+      vscode.window.showErrorMessage(
+        `Failed to create collection: ${result.error.message}`
+      );
+      return;
+    }
+
+    vscode.window.showInformationMessage(
+      `Created collection "${result.data.name}"`
+    );
+  }
+
+  /**
+   * Show the snippets of a collection in their order
+   */
+  private async showCollectionSnippets(
+    collection: SnippetCollection
+  ): Promise<void> {
+    const snippetsResult = await this.snippetManager.getCollectionSnippets(
+      collection.id
+    );
+    if (!snippetsResult.success) {
+      vscode.window.showErrorMessage(
+        `Failed to get collection snippets: ${snippetsResult.error.message}`
+      );
+      return;
+    }
+
+    await this.showSnippetList(
+      snippetsResult.data,
+      `Snippets in "${collection.name}"`
+    );
+  }
+
+  /**
+   * Append snippets that are not in the collection yet
+   */
+  private async addSnippetsToCollection(
+    collection: SnippetCollection
+  ): Promise<void> {
+    const allSnippetsResult = await this.snippetManager.getAllSnippets();
+    if (!allSnippetsResult.success) {
+      vscode.window.showErrorMessage(
+        `Failed to get snippets: ${allSnippetsResult.error.message}`
+      );
+      return;
+    }
+
+    const available = allSnippetsResult.data.filter(
+      (snippet) => !collection.snippetIds.includes(snippet.id)
+    );
+    if (available.length === 0) {
+      vscode.window.showInformationMessage(
+        `All snippets are already in "${collection.name}".`
+      );
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      available.map((snippet) => ({
+        label: snippet.title,
+        description: snippet.language,
+        snippet,
+      })),
+      {
+        placeHolder: `Select snippets to add to "${collection.name}"`,
+        canPickMany: true,
+      }
+    );
+    if (!selected || selected.length === 0) {
+      return; // User cancelled
+    }
+
+    const result = await this.snippetManager.addToCollection(
+      collection.id,
+      selected.map((item) => item.snippet.id)
+    );
+    if (!result.success) {
+      vscode.window.showErrorMessage(
+        `Failed to add snippets: ${result.error.message}`
+      );
+      return;
+    }
+
+    vscode.window.showInformationMessage(
+      `Added ${selected.length} snippets to "${collection.name}"`
+    );
+  }
+
+  /**
+   * Move one snippet of a collection to another position
+   */
+  private async moveCollectionSnippet(
+    collection: SnippetCollection
+  ): Promise<void> {
+    const snippetsResult = await this.snippetManager.getCollectionSnippets(
+      collection.id
+    );
+    if (!snippetsResult.success) {
+      vscode.window.showErrorMessage(
+        `Failed to get collection snippets: ${snippetsResult.error.message}`
+      );
+      return;
+    }
+
+    const snippets = snippetsResult.data;
+    if (snippets.length < 2) {
+      vscode.window.showInformationMessage(
+        `"${collection.name}" has nothing to reorder.`
+      );
+      return;
+    }
+
+    const toPickItems = (list: SnippetInterface[]) =>
+      list.map((snippet, index) => ({
+        label: `${index + 1}. ${snippet.title}`,
+        description: snippet.language,
+        index,
+      }));
+
+    const moved = await vscode.window.showQuickPick(toPickItems(snippets), {
+      placeHolder: "Select the snippet to move",
+    });
+    if (!moved) {
+      return; // User cancelled
+    }
+
+    const position = await vscode.window.showQuickPick(
+      toPickItems(snippets).filter((item) => item.index !== moved.index),
+      { placeHolder: `Move "${snippets[moved.index].title}" to the place of` }
+    );
+    if (!position) {
+      return; // User cancelled
+    }
+
+    const ids = snippets.map((snippet) => snippet.id);
+    const [id] = ids.splice(moved.index, 1);
+    ids.splice(position.index, 0, id);
+
+    const result = await this.snippetManager.reorderCollection(
+      collection.id,
+      ids
+    );
+    if (!result.success) {
+      vscode.window.showErrorMessage(
+        `Failed to reorder snippets: ${result.error.message}`
+      );
+    }
+  }
+
+  /**
+   * Take snippets out of a collection. The snippets are kept.
+   */
+  private async removeSnippetsFromCollection(
+    collection: SnippetCollection
+  ): Promise<void> {
+    const snippetsResult = await this.snippetManager.getCollectionSnippets(
+      collection.id
+    );
+    if (!snippetsResult.success) {
+      vscode.window.showErrorMessage(
+        `Failed to get collection snippets: ${snippetsResult.error.message}`
+      );
+      return;
+    }
+
+    if (snippetsResult.data.length === 0) {
+      vscode.window.showInformationMessage(
+        `"${collection.name}" has no snippets.`
+      );
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      snippetsResult.data.map((snippet) => ({
+        label: snippet.title,
+        description: snippet.language,
+        snippet,
+      })),
+      {
+        placeHolder: `Select snippets to remove from "${collection.name}"`,
+        canPickMany: true,
+      }
+    );
+    if (!selected || selected.length === 0) {
+      return; // User cancelled
+    }
+
+    const result = await this.snippetManager.removeFromCollection(
+      collection.id,
+      selected.map((item) => item.snippet.id)
+    );
+    if (!result.success) {
+      vscode.window.showErrorMessage(
+        `Failed to remove snippets: ${result.error.message}`
+      );
+      return;
+    }
+
+    vscode.window.showInformationMessage(
+      `Removed ${selected.length} snippets from "${collection.name}"`
+    );
+  }
+
+  /**
+   * Delete a collection and its subcollections after confirmation
+   */
+  private async deleteCollection(collection: SnippetCollection): Promise<void> {
+    const confirmation = await vscode.window.showWarningMessage(
+      `Delete the collection "${collection.name}" and its subcollections? ` +
+        "The snippets are kept.",
+      { modal: true },
+      "Delete"
+    );
+    if (confirmation !== "Delete") {
+      return;
+    }
+
+    const result = await this.snippetManager.deleteCollection(collection.id);
+    if (!result.success) {
+      vscode.window.showErrorMessage(
+        `Failed to delete collection: ${result.error.message}`
+      );
+      return;
+    }
+
+    vscode.window.showInformationMessage(
+      `Deleted collection "${collection.name}"`
+    );
+  }
+
   /**
    * Show a list of snippets with management options
    */
@@ -2314,9 +3733,11 @@ export class CommandHandler {
     for (const snippet of snippets) {
       const cleanTags = snippet.tags.filter((tag) => tag.trim().length > 0);
       if (cleanTags.length !== snippet.tags.length) {
-        const result = await this.snippetManager.updateSnippet(snippet.id, {
-          tags: cleanTags,
-        });
+        const result = await this.snippetManager.updateSnippet(
+          snippet.id,
+          { tags: cleanTags },
+          extensionChange
+        );
         if (result.success) {
           cleanedCount++;
         }
@@ -2336,15 +3757,17 @@ export class CommandHandler {
 
     for (const snippet of snippets) {
       if (snippet.category) {
-        const normalizedCategory = snippet.category
-          .trim()
-          .toLowerCase()
-          .replace(/\s+/g, "-");
+        // Each level of a hierarchical category is normalized on its own
+        const normalizedCategory = getCategorySegments(snippet.category)
+          .map((segment) => segment.toLowerCase().replace(/\s+/g, "-"))
+          .join(CATEGORY_SEPARATOR);
 
         if (normalizedCategory !== snippet.category) {
-          const result = await this.snippetManager.updateSnippet(snippet.id, {
-            category: normalizedCategory,
-          });
+          const result = await this.snippetManager.updateSnippet(
+            snippet.id,
+            { category: normalizedCategory },
+            extensionChange
+          );
           if (result.success) {
             cleanedCount++;
           }
@@ -2366,9 +3789,11 @@ export class CommandHandler {
     for (const snippet of snippets) {
       const uniqueTags = [...new Set(snippet.tags)];
       if (uniqueTags.length !== snippet.tags.length) {
-        const result = await this.snippetManager.updateSnippet(snippet.id, {
-          tags: uniqueTags,
-        });
+        const result = await this.snippetManager.updateSnippet(
+          snippet.id,
+          { tags: uniqueTags },
+          extensionChange
+        );
         if (result.success) {
           cleanedCount++;
         }
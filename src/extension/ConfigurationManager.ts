@@ -1,6 +1,10 @@
 import * as vscode from "vscode";
 import {
   StorageConfigInterface,
+  StorageLayout,
+  SnippetSource,
+  LibraryConfig,
+  GitSyncSettings,
   WebGUIConfig,
   KeybindingConfig,
   EditorConfig,
@@ -30,6 +34,36 @@ export class ConfigurationManager {
       backupInterval: config.get<number>("backupInterval", 24 * 60 * 60 * 1000), // 24 hours in ms
       maxBackups: config.get<number>("maxBackups", 10),
       path: config.get<string>("customStoragePath"),
+      layout: config.get<StorageLayout>("storageLayout", "single-file"),
+    };
+  }
+
+  /**
+   * Get the libraries to combine into one view, highest precedence first
+   */
+  getLibraryConfig(): LibraryConfig {
+    const config = vscode.workspace.getConfiguration(
+      ConfigurationManager.CONFIGURATION_SECTION
+    );
+
+    return {
+      sources: config.get<SnippetSource[]>("librarySources", []),
+      teamPath: config.get<string>("teamLibraryPath") || undefined,
+    };
+  }
+
+  /**
+   * Get the git repository to synchronize the library with
+   */
+  getGitSyncConfig(): GitSyncSettings {
+    const config = vscode.workspace.getConfiguration(
+      ConfigurationManager.CONFIGURATION_SECTION
+    );
+    const gitSync = config.get<any>("gitSync", {});
+
+    return {
+      remote: gitSync.remote || "",
+      branch: gitSync.branch || "main",
     };
   }
 
@@ -265,6 +299,11 @@ export class ConfigurationManager {
         this.updateConfig("storageFormat", storageConfig.format, target)
       );
     }
+    if (storageConfig.layout !== undefined) {
+      updates.push(
+        this.updateConfig("storageLayout", storageConfig.layout, target)
+      );
+    }
     if (storageConfig.autoBackup !== undefined) {
       updates.push(
         this.updateConfig("autoBackup", storageConfig.autoBackup, target)
@@ -364,10 +403,14 @@ export class ConfigurationManager {
     const defaultSettings = [
       { key: "storageLocation", value: "global" },
       { key: "storageFormat", value: "json" },
+      { key: "storageLayout", value: "single-file" },
       { key: "autoBackup", value: true },
       { key: "backupInterval", value: 24 * 60 * 60 * 1000 },
       { key: "maxBackups", value: 10 },
       { key: "customStoragePath", value: undefined },
+      { key: "librarySources", value: [] },
+      { key: "teamLibraryPath", value: undefined },
+      { key: "gitSync", value: { remote: "", branch: "main" } },
       {
         key: "webGUI",
         value: {
@@ -436,9 +479,13 @@ export class ConfigurationManager {
     return {
       storageLocation: config.get("storageLocation"),
       storageFormat: config.get("storageFormat"),
+      storageLayout: config.get("storageLayout"),
       autoBackup: config.get("autoBackup"),
       backupInterval: config.get("backupInterval"),
       customStoragePath: config.get("customStoragePath"),
+      librarySources: config.get("librarySources"),
+      teamLibraryPath: config.get("teamLibraryPath"),
+      gitSync: config.get("gitSync"),
       webGUIPort: config.get("webGUIPort"),
       webGUIAutoLaunch: config.get("webGUIAutoLaunch"),
     };
@@ -464,6 +511,17 @@ export class ConfigurationManager {
         errors.push("Invalid storage format. Must be 'json' or 'yaml'.");
       }
 
+      if (
+        extensionConfig.storage.layout &&
+        !["single-file", "per-snippet", "sqlite"].includes(
+          extensionConfig.storage.layout
+        )
+      ) {
+        errors.push(
+          "Invalid storage layout. Must be 'single-file', 'per-snippet' or 'sqlite'."
+        );
+      }
+
       if (extensionConfig.storage.backupInterval < 300000) {
         // 5 minutes minimum
         errors.push(
@@ -1,11 +1,20 @@
 import * as vscode from "vscode";
+import * as path from "path";
 import { SnippetManagerImpl } from "../core/services/SnippetManagerImpl";
 import {
   createStorageService,
   createWorkspaceStorageService,
   createGlobalStorageService,
+  createTeamStorageService,
+  LayeredStorageService,
+  LibraryLayer,
+  StorageService,
 } from "../core/services";
-import { SnippetInterface, StorageConfigInterface } from "../types";
+import {
+  SnippetInterface,
+  StorageConfigInterface,
+  LibraryConfig,
+} from "../types";
 import { CommandHandler } from "./CommandHandler";
 import { VSCodeSnippetIntegration } from "./VSCodeSnippetIntegration";
 import { ConfigurationManager } from "./ConfigurationManager";
@@ -48,6 +57,9 @@ export class SnippetLibraryExtension {
       openInBrowser: this.configManager.getWebGUIConfig().openInBrowser,
       healthCheckInterval: 30000, // 30 seconds
       maxStartupRetries: 3,
+      apiTokensFilePath:
+        context.globalStorageUri &&
+        path.join(context.globalStorageUri.fsPath, "webgui-tokens.json"),
     };
 
     this.webGUILauncher = new WebGUILauncher(webGUIConfig, {
@@ -121,6 +133,24 @@ export class SnippetLibraryExtension {
       vscode.commands.registerCommand("snippetLibrary.openWebGUI", () =>
         this.commandHandler.openWebGUI()
       ),
+      vscode.commands.registerCommand("snippetLibrary.quickSearch", () =>
+        this.commandHandler.quickSearch()
+      ),
+      vscode.commands.registerCommand("snippetLibrary.syncWithGit", () =>
+        this.syncWithGit()
+      ),
+      vscode.commands.registerCommand("snippetLibrary.findDuplicates", () =>
+        this.commandHandler.findDuplicates()
+      ),
+      vscode.commands.registerCommand("snippetLibrary.savedSearches", () =>
+        this.commandHandler.savedSearches()
+      ),
+      vscode.commands.registerCommand("snippetLibrary.collections", () =>
+        this.commandHandler.collections()
+      ),
+      vscode.commands.registerCommand("snippetLibrary.lintLibrary", () =>
+        this.commandHandler.lintLibrary()
+      ),
       // Additional utility commands
       vscode.commands.registerCommand("snippetLibrary.refreshSnippets", () =>
         this.commandHandler.refreshSnippets()
@@ -153,6 +183,10 @@ export class SnippetLibraryExtension {
       vscode.commands.registerCommand("snippetLibrary.webGUIStatus", () =>
         this.showWebGUIStatus()
       ),
+      vscode.commands.registerCommand(
+        "snippetLibrary.manageWebGUITokens",
+        () => this.manageWebGUITokens()
+      ),
     ];
 
     // Add all commands to disposables
@@ -230,6 +264,7 @@ export class SnippetLibraryExtension {
         watchPath = "";
       }
 
+      const gitSync = this.configManager.getGitSyncConfig();
       const syncConfig = {
         sync: {
           enableFileWatching: true,
@@ -251,6 +286,16 @@ export class SnippetLibraryExtension {
         enableAutoSync: true,
         enableConflictResolution: true,
         syncInterval: 30000, // 30 seconds
+        git: gitSync.remote
+          ? {
+              remote: gitSync.remote,
+              branch: gitSync.branch,
+              workingDirectory: vscode.Uri.joinPath(
+                this.context.globalStorageUri,
+                "git-sync"
+              ).fsPath,
+            }
+          : undefined,
       };
 
       const result = await this.syncCoordinator.initialize(
@@ -348,8 +393,19 @@ export class SnippetLibraryExtension {
   /**
    * Create storage service based on current configuration
    */
-  private createStorageService() {
+  private createStorageService(): StorageService {
     const config = this.configManager.getStorageConfig();
+    const libraryConfig = this.configManager.getLibraryConfig();
+
+    if (libraryConfig.sources.length > 0) {
+      const layeredStorage = this.createLayeredStorageService(
+        config,
+        libraryConfig
+      );
+      if (layeredStorage) {
+        return layeredStorage;
+      }
+    }
 
     if (config.location === "workspace") {
       // Use workspace-specific storage
@@ -357,19 +413,82 @@ export class SnippetLibraryExtension {
       if (workspaceFolder) {
         const workspacePath = workspaceFolder.uri.fsPath;
         return createWorkspaceStorageService(
-          `${workspacePath}/.vscode/snippets`
+          `${workspacePath}/.vscode/snippets`,
+          config.layout
         );
       } else {
         // Fallback to global if no workspace
         console.warn(
           "No workspace folder found, falling back to global storage"
         );
-        return createGlobalStorageService();
+        return createGlobalStorageService(config.layout);
       }
     } else {
       // Use global storage
-      return createGlobalStorageService();
+      return createGlobalStorageService(config.layout);
+    }
+  }
+
+  /**
+   * Combine the configured libraries. Returns null when none of them can
+   * take new snippets, in which case only the storage location is used.
+   */
+  private createLayeredStorageService(
+    config: StorageConfigInterface,
+    libraryConfig: LibraryConfig
+  ): LayeredStorageService | null {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const layers: LibraryLayer[] = [];
+
+    for (const source of new Set(libraryConfig.sources)) {
+      switch (source) {
+        case "workspace":
+          if (workspaceFolder) {
+            layers.push({
+              source,
+              storage: createWorkspaceStorageService(
+                `${workspaceFolder.uri.fsPath}/.vscode/snippets`,
+                config.layout
+              ),
+            });
+          }
+          break;
+        case "global":
+          layers.push({
+            source,
+            storage: createGlobalStorageService(config.layout),
+          });
+          break;
+        case "team":
+          if (libraryConfig.teamPath) {
+            layers.push({
+              source,
+              storage: createTeamStorageService(libraryConfig.teamPath),
+              readOnly: true,
+            });
+          } else {
+            console.warn("Team library enabled but no teamLibraryPath is set");
+          }
+          break;
+        default:
+          console.warn(`Ignoring unknown library source: ${source}`);
+      }
     }
+
+    const writeLayer =
+      layers.find((layer) => layer.source === config.location) ||
+      layers.find((layer) => !layer.readOnly);
+    if (!writeLayer) {
+      console.warn(
+        "No writable library among librarySources, using storage location only"
+      );
+      return null;
+    }
+
+    return new LayeredStorageService({
+      layers,
+      writeSource: writeLayer.source,
+    });
   }
 
   /**
@@ -391,7 +510,10 @@ export class SnippetLibraryExtension {
    */
   private async trackSnippetUsage(snippetId: string): Promise<void> {
     try {
-      const result = await this.snippetManager.incrementUsage(snippetId);
+      const result = await this.snippetManager.incrementUsage(
+        snippetId,
+        "completion"
+      );
       if (!result.success) {
         console.error("Failed to track snippet usage:", result.error.message);
       }
@@ -400,6 +522,56 @@ export class SnippetLibraryExtension {
     }
   }
 
+  /**
+   * Synchronize the library with its git repository and report the outcome
+   */
+  private async syncWithGit(): Promise<void> {
+    if (!this.syncCoordinator.getStatus().git) {
+      vscode.window.showWarningMessage(
+        "Git sync is not configured. Set snippetLibrary.gitSync.remote to a repository URL or path."
+      );
+      return;
+    }
+
+    try {
+      const result = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Syncing snippet library with git...",
+          cancellable: false,
+        },
+        () => this.syncCoordinator.syncGit()
+      );
+
+      if (!result.success) {
+        vscode.window.showErrorMessage(
+          `Git sync failed: ${result.error.message}`
+        );
+        return;
+      }
+
+      const { pulled, pushed, conflicts } = result.data;
+      let message = `Git sync complete: ${pulled} snippet(s) updated from the repository`;
+      message += pushed ? ", local changes pushed" : ", nothing to push";
+
+      if (pulled > 0) {
+        await this.vscodeIntegration.refreshSnippets();
+      }
+
+      if (conflicts.length > 0) {
+        vscode.window.showWarningMessage(
+          `${message}. ${conflicts.length} snippet(s) were edited on both sides and need resolving.`
+        );
+      } else {
+        vscode.window.showInformationMessage(message);
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Git sync failed: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
   /**
    * Show web GUI status information
    */
@@ -451,6 +623,87 @@ export class SnippetLibraryExtension {
     }
   }
 
+  /**
+   * Create API tokens for scripts using the web GUI server, or revoke them
+   */
+  private async manageWebGUITokens(): Promise<void> {
+    const tokens = this.webGUILauncher.getApiTokens();
+    const picked = await vscode.window.showQuickPick(
+      [
+        { label: "$(add) Create API Token", token: undefined },
+        ...tokens.map((token) => ({
+          label: `$(key) ${token.name}`,
+          description: token.scope === "read" ? "Read only" : "Read and write",
+          detail: `Created ${new Date(token.createdAt).toLocaleString()}`,
+          token,
+        })),
+      ],
+      { placeHolder: "Create an API token or pick one to revoke" }
+    );
+    if (!picked) {
+      return;
+    }
+
+    if (picked.token) {
+      const confirm = await vscode.window.showWarningMessage(
+        `Revoke the API token "${picked.token.name}"?` +
+          " Scripts using it lose access.",
+        { modal: true },
+        "Revoke"
+      );
+      if (confirm !== "Revoke") {
+        return;
+      }
+      const result = await this.webGUILauncher.revokeApiToken(
+        picked.token.id
+      );
+      if (!result.success) {
+        vscode.window.showErrorMessage(
+          `Failed to revoke API token: ${result.error.message}`
+        );
+        return;
+      }
+      vscode.window.showInformationMessage("API token revoked");
+      return;
+    }
+
+    const name = await vscode.window.showInputBox({
+      prompt: "Name of the API token",
+      placeHolder: "e.g. Build script",
+    });
+    if (!name) {
+      return;
+    }
+    const scope = await vscode.window.showQuickPick(
+      [
+        { label: "Read only", scope: "read" as const },
+        { label: "Read and write", scope: "write" as const },
+      ],
+      { placeHolder: "What may the token do?" }
+    );
+    if (!scope) {
+      return;
+    }
+
+    const result = await this.webGUILauncher.createApiToken(name, scope.scope);
+    if (!result.success) {
+      vscode.window.showErrorMessage(
+        `Failed to create API token: ${result.error.message}`
+      );
+      return;
+    }
+
+    // The token is not stored, so this is the only chance to copy it
+    const action = await vscode.window.showInformationMessage(
+      `API token "${result.data.apiToken.name}" created. Copy it now, it` +
+        " is not shown again. Send it as 'Authorization: Bearer <token>'.",
+      "Copy Token"
+    );
+    if (action === "Copy Token") {
+      await vscode.env.clipboard.writeText(result.data.token);
+    }
+  }
+
   /**
    * Dispose of all resources
    */
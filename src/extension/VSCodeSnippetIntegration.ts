@@ -3,6 +3,8 @@ import * as fs from "fs";
 import * as path from "path";
 import { SnippetManagerImpl } from "../core/services/SnippetManagerImpl";
 import { SnippetInterface } from "../types";
+import { toVSCodeSnippetBody } from "../core/template";
+import { getSnippetPrefix, getSnippetPrefixes } from "../core/utils";
 
 /**
  * Handles integration with VS Code's native snippet system
@@ -127,7 +129,7 @@ export class VSCodeSnippetIntegration {
         // Enhanced prefix matching
         const prefixMatch =
           currentWord === "" ||
-          snippet.prefix?.toLowerCase().startsWith(currentWord.toLowerCase()) ||
+          matchesPrefix(snippet, currentWord) ||
           snippet.title.toLowerCase().includes(currentWord.toLowerCase()) ||
           snippet.tags.some((tag) =>
             tag.toLowerCase().includes(currentWord.toLowerCase())
@@ -139,15 +141,16 @@ export class VSCodeSnippetIntegration {
       // Convert snippets to completion items
       const completionItems: vscode.CompletionItem[] = relevantSnippets.map(
         (snippet) => {
-          const prefix =
-            snippet.prefix || snippet.title.toLowerCase().replace(/\s+/g, "");
+          const prefix = getSnippetPrefix(snippet);
           const item = new vscode.CompletionItem(
             prefix,
             vscode.CompletionItemKind.Snippet
           );
 
           // Set the snippet content
-          item.insertText = new vscode.SnippetString(snippet.code);
+          item.insertText = new vscode.SnippetString(
+            toVSCodeSnippetBody(snippet.code, snippet.variables)
+          );
 
           // Set additional properties
           item.detail = `Snippet: ${snippet.title}`;
@@ -156,14 +159,14 @@ export class VSCodeSnippetIntegration {
             .appendCodeblock(snippet.code, snippet.language);
 
           // Enhanced filter text for better matching
-          item.filterText = `${prefix} ${snippet.title} ${snippet.tags.join(
-            " "
-          )}`;
+          item.filterText = [
+            ...getSnippetPrefixes(snippet),
+            snippet.title,
+            ...snippet.tags,
+          ].join(" ");
 
           // Set sort text to prioritize by usage and prefix match
-          const prefixMatchScore = snippet.prefix
-            ?.toLowerCase()
-            .startsWith(currentWord.toLowerCase())
+          const prefixMatchScore = matchesPrefix(snippet, currentWord)
             ? 0
             : 100;
           const usageScore = 1000 - snippet.usageCount;
@@ -414,9 +417,8 @@ export class VSCodeSnippetIntegration {
           snippet.prefix || snippet.title.toLowerCase().replace(/\s+/g, "-");
 
         languageSnippets[snippetKey] = {
-          prefix:
-            snippet.prefix || snippet.title.toLowerCase().replace(/\s+/g, ""),
-          body: snippet.code.split("\n"),
+          prefix: getDefinitionPrefix(snippet),
+          body: toVSCodeSnippetBody(snippet.code, snippet.variables).split("\n"),
           description: snippet.description || snippet.title,
           scope: snippet.scope?.join(",") || language,
         };
@@ -494,9 +496,8 @@ export class VSCodeSnippetIntegration {
   private createVSCodeSnippetDefinition(snippet: SnippetInterface): any {
     return {
       [snippet.title]: {
-        prefix:
-          snippet.prefix || snippet.title.toLowerCase().replace(/\s+/g, ""),
-        body: snippet.code.split("\n"),
+        prefix: getDefinitionPrefix(snippet),
+        body: toVSCodeSnippetBody(snippet.code, snippet.variables).split("\n"),
         description: snippet.description || snippet.title,
         scope: snippet.scope?.join(",") || snippet.language,
       },
@@ -578,3 +579,21 @@ export class VSCodeSnippetIntegration {
     }
   }
 }
+
+/**
+ * Check whether a prefix of the snippet starts with the typed word
+ */
+function matchesPrefix(snippet: SnippetInterface, word: string): boolean {
+  const typed = word.toLowerCase();
+  return [snippet.prefix, ...(snippet.prefixAliases || [])].some((prefix) =>
+    prefix?.toLowerCase().startsWith(typed)
+  );
+}
+
+/**
+ * Prefix of a VS Code snippet definition, a list when there are aliases
+ */
+function getDefinitionPrefix(snippet: SnippetInterface): string | string[] {
+  const prefixes = getSnippetPrefixes(snippet);
+  return prefixes.length > 1 ? prefixes : prefixes[0];
+}
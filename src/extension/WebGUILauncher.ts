@@ -5,6 +5,8 @@ import {
 } from "../webgui/server/WebGUIServerManager";
 import { SnippetManager } from "../interfaces/SnippetManager";
 import { SynchronizationCoordinator } from "../core/services/SynchronizationCoordinator";
+import { AccessTokenService } from "../core/services/AccessTokenService";
+import { AccessScope, ApiToken, Result } from "../types";
 
 export interface WebGUILauncherConfig {
   port: number;
@@ -14,6 +16,7 @@ export interface WebGUILauncherConfig {
   openInBrowser: boolean;
   healthCheckInterval: number;
   maxStartupRetries: number;
+  apiTokensFilePath?: string; // API tokens are kept in memory without it
 }
 
 export interface WebGUILauncherDependencies {
@@ -30,6 +33,7 @@ export class WebGUILauncher {
   private dependencies: WebGUILauncherDependencies;
   private healthCheckTimer: NodeJS.Timeout | null = null;
   private disposables: vscode.Disposable[] = [];
+  private accessTokens: AccessTokenService;
 
   constructor(
     config: WebGUILauncherConfig,
@@ -37,12 +41,21 @@ export class WebGUILauncher {
   ) {
     this.config = config;
     this.dependencies = dependencies;
+    // A new session secret for every run, handed to the browser on open
+    this.accessTokens = new AccessTokenService({
+      filePath: config.apiTokensFilePath,
+    });
   }
 
   /**
    * Initialize the launcher and set up VS Code integration
    */
   async initialize(): Promise<void> {
+    const tokensResult = await this.accessTokens.load();
+    if (!tokensResult.success) {
+      console.error("Failed to load API tokens:", tokensResult.error.message);
+    }
+
     // Create server manager
     const serverConfig: ServerManagerConfig = {
       port: this.config.port,
@@ -55,6 +68,7 @@ export class WebGUILauncher {
     this.serverManager = new WebGUIServerManager(serverConfig, {
       snippetManager: this.dependencies.snippetManager,
       syncCoordinator: this.dependencies.syncCoordinator,
+      accessTokens: this.accessTokens,
     });
 
     await this.serverManager.initialize();
@@ -114,7 +128,8 @@ export class WebGUILauncher {
           if (action === "Open in Browser") {
             this.openInBrowser();
           } else if (action === "Copy URL") {
-            vscode.env.clipboard.writeText(serverUrl);
+            // The URL signs the browser in, so it includes the secret
+            vscode.env.clipboard.writeText(this.getBrowserUrl());
             vscode.window.showInformationMessage("URL copied to clipboard");
           }
         });
@@ -240,9 +255,8 @@ export class WebGUILauncher {
    */
   async openInBrowser(): Promise<void> {
     try {
-      const serverUrl = this.getServerUrl();
-      await vscode.env.openExternal(vscode.Uri.parse(serverUrl));
-      console.log(`Opened web GUI in browser: ${serverUrl}`);
+      await vscode.env.openExternal(vscode.Uri.parse(this.getBrowserUrl()));
+      console.log(`Opened web GUI in browser: ${this.getServerUrl()}`);
     } catch (error) {
       console.error("Failed to open web GUI in browser:", error);
       vscode.window.showErrorMessage(
@@ -265,6 +279,38 @@ export class WebGUILauncher {
     return this.serverManager.getServerUrl();
   }
 
+  /**
+   * Get the URL that opens the web GUI signed in to this session
+   */
+  getBrowserUrl(): string {
+    const secret = encodeURIComponent(this.accessTokens.getSessionSecret());
+    return `${this.getServerUrl()}/?token=${secret}`;
+  }
+
+  /**
+   * Create an API token for scripts. The token is only shown once.
+   */
+  async createApiToken(
+    name: string,
+    scope: AccessScope
+  ): Promise<Result<{ token: string; apiToken: ApiToken }>> {
+    return this.accessTokens.createToken(name, scope);
+  }
+
+  /**
+   * Get the API tokens that may use the server
+   */
+  getApiTokens(): ApiToken[] {
+    return this.accessTokens.getTokens();
+  }
+
+  /**
+   * Revoke an API token
+   */
+  async revokeApiToken(id: string): Promise<Result<void>> {
+    return this.accessTokens.revokeToken(id);
+  }
+
   /**
    * Check if the server is running
    */
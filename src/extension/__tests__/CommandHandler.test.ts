@@ -128,15 +128,18 @@ describe("CommandHandler", () => {
 
       await commandHandler.saveSnippet();
 
-      expect(mockSnippetManager.createSnippet).toHaveBeenCalledWith({
-        title: "Test Snippet",
-        description: "Test description",
-        code: "console.log('test');",
-        language: "javascript",
-        tags: ["test", "utility"],
-        category: "utilities",
-        prefix: "testsnip",
-      });
+      expect(mockSnippetManager.createSnippet).toHaveBeenCalledWith(
+        {
+          title: "Test Snippet",
+          description: "Test description",
+          code: "console.log('test');",
+          language: "javascript",
+          tags: ["test", "utility"],
+          category: "utilities",
+          prefix: "testsnip",
+        },
+        { source: "extension" }
+      );
 
       expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
         'Snippet "Test Snippet" saved successfully!'
@@ -242,7 +245,10 @@ describe("CommandHandler", () => {
       await commandHandler.insertSnippet();
 
       expect(mockEditor.insertSnippet).toHaveBeenCalled();
-      expect(mockSnippetManager.incrementUsage).toHaveBeenCalledWith("1");
+      expect(mockSnippetManager.incrementUsage).toHaveBeenCalledWith(
+        "1",
+        "insert"
+      );
     });
 
     it("should handle snippet loading errors", async () => {
@@ -458,6 +464,225 @@ describe("CommandHandler", () => {
     });
   });
 
+  describe("findDuplicates", () => {
+    const code = "function sum(a, b) {\n  return a + b;\n}";
+    const duplicates = [
+      {
+        id: "1",
+        title: "Sum",
+        code,
+        language: "javascript",
+        tags: [],
+        description: "",
+        usageCount: 1,
+        updatedAt: new Date(),
+      },
+      {
+        id: "2",
+        title: "Add numbers",
+        code: "function add(x, y) { return x + y; }",
+        language: "javascript",
+        tags: [],
+        description: "",
+        usageCount: 3,
+        updatedAt: new Date(),
+      },
+    ];
+
+    it("should report a library without duplicates", async () => {
+      mockSnippetManager.getAllSnippets.mockResolvedValue({
+        success: true,
+        data: [duplicates[0]],
+      });
+
+      await commandHandler.findDuplicates();
+
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        "No duplicate snippets found."
+      );
+    });
+
+    it("should merge a group into the snippet to keep", async () => {
+      mockSnippetManager.getAllSnippets.mockResolvedValue({
+        success: true,
+        data: duplicates,
+      });
+      mockSnippetManager.mergeSnippets = vi.fn().mockResolvedValue({
+        success: true,
+        data: duplicates[1],
+      });
+      vi.mocked(vscode.window.showQuickPick)
+        .mockImplementationOnce(async (items: any) => items[0])
+        .mockResolvedValueOnce({ value: "merge" } as any)
+        .mockImplementationOnce(async (items: any) => items[0]);
+      vi.mocked(vscode.window.showWarningMessage).mockResolvedValue(
+        "Merge" as any
+      );
+
+      await commandHandler.findDuplicates();
+
+      expect(mockSnippetManager.mergeSnippets).toHaveBeenCalledWith(
+        "2",
+        ["1"],
+        { source: "extension" }
+      );
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        'Merged 1 snippets into "Add numbers".'
+      );
+    });
+  });
+
+  describe("savedSearches", () => {
+    const savedSearch = {
+      id: "search-1",
+      name: "React",
+      query: { text: "tag:react" },
+      createdAt: new Date(),
+      lastUsed: new Date(),
+      useCount: 0,
+      count: 1,
+    };
+
+    it("should list saved searches with counts and open one", async () => {
+      const snippet = {
+        id: "1",
+        title: "useFetch",
+        language: "typescript",
+        tags: ["react"],
+        description: "",
+      };
+      mockSnippetManager.getSavedSearches = vi
+        .fn()
+        .mockResolvedValue({ success: true, data: [savedSearch] });
+      mockSnippetManager.runSavedSearch = vi
+        .fn()
+        .mockResolvedValue({ success: true, data: [snippet] });
+      let offered: any[] = [];
+      vi.mocked(vscode.window.showQuickPick)
+        .mockImplementationOnce(async (items: any) => {
+          offered = items;
+          return items[0];
+        })
+        .mockResolvedValueOnce(undefined);
+
+      await commandHandler.savedSearches();
+
+      expect(offered[0]).toMatchObject({
+        label: "$(bookmark) React",
+        description: "1 snippets",
+        detail: "tag:react",
+      });
+      expect(mockSnippetManager.runSavedSearch).toHaveBeenCalledWith(
+        "search-1"
+      );
+      expect(vscode.window.showQuickPick).toHaveBeenLastCalledWith(
+        [expect.objectContaining({ snippet })],
+        expect.objectContaining({ placeHolder: "React (1 snippets)" })
+      );
+    });
+
+    it("should save a new search", async () => {
+      mockSnippetManager.getSavedSearches = vi
+        .fn()
+        .mockResolvedValue({ success: true, data: [] });
+      mockSnippetManager.saveSearch = vi
+        .fn()
+        .mockResolvedValue({ success: true, data: savedSearch });
+      vi.mocked(vscode.window.showQuickPick).mockImplementationOnce(
+        async (items: any) => items[0]
+      );
+      vi.mocked(vscode.window.showInputBox)
+        .mockResolvedValueOnce("tag:react")
+        .mockResolvedValueOnce("React");
+
+      await commandHandler.savedSearches();
+
+      expect(mockSnippetManager.saveSearch).toHaveBeenCalledWith("React", {
+        text: "tag:react",
+      });
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        'Saved search "React" matches 1 snippets'
+      );
+    });
+  });
+
+  describe("collections", () => {
+    const collection = {
+      id: "collection-1",
+      name: "Deploy",
+      snippetIds: ["1", "2"],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const child = {
+      id: "collection-2",
+      name: "Rollback",
+      parentId: "collection-1",
+      snippetIds: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const createSnippet = (id: string, title: string) => ({
+      id,
+      title,
+      language: "bash",
+      tags: [],
+      description: "",
+    });
+
+    beforeEach(() => {
+      mockSnippetManager.getCollections = vi
+        .fn()
+        .mockResolvedValue({ success: true, data: [child, collection] });
+      mockSnippetManager.getCollectionSnippets = vi.fn().mockResolvedValue({
+        success: true,
+        data: [createSnippet("1", "Build"), createSnippet("2", "Release")],
+      });
+    });
+
+    it("should list subcollections below their parent", async () => {
+      let offered: any[] = [];
+      vi.mocked(vscode.window.showQuickPick).mockImplementationOnce(
+        async (items: any) => {
+          offered = items;
+          return undefined;
+        }
+      );
+
+      await commandHandler.collections();
+
+      expect(offered.map((item) => item.collection?.id)).toEqual([
+        "collection-1",
+        "collection-2",
+        undefined,
+      ]);
+      expect(offered[0]).toMatchObject({
+        label: "$(folder-library) Deploy",
+        description: "2 snippets",
+      });
+    });
+
+    it("should move a snippet to another position", async () => {
+      mockSnippetManager.reorderCollection = vi
+        .fn()
+        .mockResolvedValue({ success: true, data: collection });
+      vi.mocked(vscode.window.showQuickPick)
+        .mockImplementationOnce(async (items: any) => items[0])
+        .mockImplementationOnce(async (items: any) =>
+          items.find((item: any) => item.value === "move")
+        )
+        .mockImplementationOnce(async (items: any) => items[1])
+        .mockImplementationOnce(async (items: any) => items[0]);
+
+      await commandHandler.collections();
+
+      expect(mockSnippetManager.reorderCollection).toHaveBeenCalledWith(
+        "collection-1",
+        ["2", "1"]
+      );
+    });
+  });
+
   describe("openWebGUI", () => {
     it("should show placeholder message", async () => {
       await commandHandler.openWebGUI();
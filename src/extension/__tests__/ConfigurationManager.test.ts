@@ -94,6 +94,51 @@ describe("ConfigurationManager", () => {
     });
   });
 
+  describe("getLibraryConfig", () => {
+    it("should return the combined library sources and team path", () => {
+      mockConfig.get
+        .mockReturnValueOnce(["workspace", "team", "global"]) // librarySources
+        .mockReturnValueOnce("/shared/team-snippets"); // teamLibraryPath
+
+      expect(configManager.getLibraryConfig()).toEqual({
+        sources: ["workspace", "team", "global"],
+        teamPath: "/shared/team-snippets",
+      });
+    });
+
+    it("should treat an empty team path as unset", () => {
+      mockConfig.get.mockReturnValueOnce([]).mockReturnValueOnce("");
+
+      expect(configManager.getLibraryConfig()).toEqual({
+        sources: [],
+        teamPath: undefined,
+      });
+    });
+  });
+
+  describe("getGitSyncConfig", () => {
+    it("should return the git remote and branch", () => {
+      mockConfig.get.mockReturnValueOnce({
+        remote: "git@example.com:team/snippets.git",
+        branch: "shared",
+      });
+
+      expect(configManager.getGitSyncConfig()).toEqual({
+        remote: "git@example.com:team/snippets.git",
+        branch: "shared",
+      });
+    });
+
+    it("should default to no remote on main", () => {
+      mockConfig.get.mockReturnValueOnce({});
+
+      expect(configManager.getGitSyncConfig()).toEqual({
+        remote: "",
+        branch: "main",
+      });
+    });
+  });
+
   describe("getWebGUIConfig", () => {
     it("should return default web GUI configuration", () => {
       mockConfig.get
@@ -281,6 +326,7 @@ describe("ConfigurationManager", () => {
         .mockReturnValueOnce(86400000) // storage.backupInterval
         .mockReturnValueOnce(10) // storage.maxBackups
         .mockReturnValueOnce(undefined) // storage.path
+        .mockReturnValueOnce("single-file") // storage.layout
         .mockReturnValueOnce({}) // webGUI (empty)
         .mockReturnValueOnce(3000) // webGUI fallbacks...
         .mockReturnValueOnce("localhost")
@@ -817,7 +863,7 @@ describe("ConfigurationManager", () => {
     it("should reset all configuration to defaults", async () => {
       await configManager.resetToDefaults();
 
-      expect(mockConfig.update).toHaveBeenCalledTimes(11); // All default settings
+      expect(mockConfig.update).toHaveBeenCalledTimes(15); // All default settings
       expect(mockConfig.update).toHaveBeenCalledWith(
         "storageLocation",
         "global",
@@ -93,6 +93,9 @@ describe("CommandHandler - Snippet Management Commands", () => {
       getCategories: vi.fn(),
       getLanguages: vi.fn(),
       getUsageStatistics: vi.fn(),
+      getUsageReport: vi.fn(),
+      lintLibrary: vi.fn(),
+      fixLintIssues: vi.fn(),
     } as any;
 
     // Mock ConfigurationManager
@@ -147,7 +150,8 @@ describe("CommandHandler - Snippet Management Commands", () => {
           tags: ["updated", "test"],
           category: "updated-utilities",
           prefix: "uptest",
-        })
+        }),
+        { source: "extension" }
       );
     });
 
@@ -174,7 +178,8 @@ describe("CommandHandler - Snippet Management Commands", () => {
         {
           title: "New Title",
           description: "New Description",
-        }
+        },
+        { source: "extension" }
       );
     });
 
@@ -278,7 +283,8 @@ describe("CommandHandler - Snippet Management Commands", () => {
       expect(mockSnippetManager.updateSnippet).toHaveBeenCalledTimes(2);
       expect(mockSnippetManager.updateSnippet).toHaveBeenCalledWith(
         mockSnippets[0].id,
-        { tags: expect.arrayContaining(["test", "console", "new", "tag"]) }
+        { tags: expect.arrayContaining(["test", "console", "new", "tag"]) },
+        { source: "extension" }
       );
     });
 
@@ -304,11 +310,13 @@ describe("CommandHandler - Snippet Management Commands", () => {
 
       expect(mockSnippetManager.updateSnippet).toHaveBeenCalledWith(
         mockSnippets[0].id,
-        { tags: ["console"] }
+        { tags: ["console"] },
+        { source: "extension" }
       );
       expect(mockSnippetManager.updateSnippet).toHaveBeenCalledWith(
         mockSnippets[1].id,
-        { tags: ["print"] }
+        { tags: ["print"] },
+        { source: "extension" }
       );
     });
 
@@ -344,7 +352,8 @@ describe("CommandHandler - Snippet Management Commands", () => {
       expect(mockSnippetManager.updateSnippet).toHaveBeenCalledTimes(2);
       expect(mockSnippetManager.updateSnippet).toHaveBeenCalledWith(
         mockSnippets[0].id,
-        { category: "new-category" }
+        { category: "new-category" },
+        { source: "extension" }
       );
     });
 
@@ -411,8 +420,58 @@ describe("CommandHandler - Snippet Management Commands", () => {
 
       await (commandHandler as any).viewSnippetsByCategory();
 
-      expect(mockSnippetManager.getCategories).toHaveBeenCalled();
       expect(vscode.window.showQuickPick).toHaveBeenCalledTimes(4);
+      expect((vscode.window.showQuickPick as Mock).mock.calls[1][0]).toEqual(
+        [
+          expect.objectContaining({ snippet: mockSnippets[0] }),
+          expect.objectContaining({ snippet: mockSnippets[1] }),
+        ]
+      );
+    });
+
+    it("should list subcategories under their parent category", async () => {
+      const nested = [
+        { ...mockSnippets[0], category: "backend/db" },
+        { ...mockSnippets[1], category: "backend" },
+      ];
+      (mockSnippetManager.getAllSnippets as Mock).mockResolvedValue({
+        success: true,
+        data: nested,
+      });
+      (vscode.window.showQuickPick as Mock).mockResolvedValueOnce(undefined);
+
+      await (commandHandler as any).viewSnippetsByCategory();
+
+      const options = (vscode.window.showQuickPick as Mock).mock.calls[0][0];
+      expect(
+        options.map((option: any) => [option.value, option.description])
+      ).toEqual([
+        ["backend", "2 snippets"],
+        ["backend/db", "1 snippets"],
+      ]);
+    });
+
+    it("should rename a tag and keep the old name as an alias", async () => {
+      mockSnippetManager.renameTag = vi.fn().mockResolvedValue({
+        success: true,
+        data: 3,
+      });
+      (vscode.window.showQuickPick as Mock)
+        .mockResolvedValueOnce({ value: "test" })
+        .mockResolvedValueOnce({ value: true });
+      (vscode.window.showInputBox as Mock).mockResolvedValueOnce(" testing ");
+
+      await (commandHandler as any).renameTag();
+
+      expect(mockSnippetManager.renameTag).toHaveBeenCalledWith(
+        "test",
+        "testing",
+        { keepAlias: true },
+        { source: "extension" }
+      );
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        'Renamed "test" in 3 snippets'
+      );
     });
 
     it("should view snippets by tags", async () => {
@@ -498,6 +557,20 @@ describe("CommandHandler - Snippet Management Commands", () => {
         success: true,
         data: mockStats,
       });
+      (mockSnippetManager.getUsageReport as Mock).mockResolvedValue({
+        success: true,
+        data: {
+          days: ["2023-01-01", "2023-01-02"],
+          staleDays: 90,
+          total: { total: 4, daily: [1, 3] },
+          sources: { completion: 3, webCopy: 1 },
+          snippets: [{ snippet: mockSnippets[0], total: 4, daily: [1, 3] }],
+          languages: [],
+          tags: [],
+          neverUsed: [mockSnippets[2]],
+          stale: [{ snippet: mockSnippets[1] }],
+        },
+      });
 
       (vscode.workspace.openTextDocument as Mock).mockResolvedValue({
         content: "# Statistics",
@@ -510,6 +583,12 @@ describe("CommandHandler - Snippet Management Commands", () => {
         content: expect.stringContaining("# Snippet Library Statistics"),
         language: "markdown",
       });
+      const { content } = (vscode.workspace.openTextDocument as Mock).mock
+        .calls[0][0];
+      expect(content).toContain("**Completion:** 3 uses");
+      expect(content).toContain("1. **Test Snippet 1** (4 uses)");
+      expect(content).toContain("## Not Used in 90 Days (1)\n- Test Snippet 2");
+      expect(content).toContain("## Never Used (1)\n- Test Snippet 3");
     });
 
     it("should perform cleanup operations", async () => {
@@ -542,11 +621,70 @@ describe("CommandHandler - Snippet Management Commands", () => {
 
       expect(mockSnippetManager.updateSnippet).toHaveBeenCalledWith(
         snippetsWithDuplicates[0].id,
-        { tags: ["test", "console"] }
+        { tags: ["test", "console"] },
+        { source: "extension" }
       );
       expect(mockSnippetManager.updateSnippet).toHaveBeenCalledWith(
         snippetsWithDuplicates[1].id,
-        { category: "utilities" }
+        { category: "utilities" },
+        { source: "extension" }
+      );
+    });
+
+    it("should show the lint report and apply safe fixes", async () => {
+      (mockSnippetManager.lintLibrary as Mock).mockResolvedValue({
+        success: true,
+        data: {
+          checked: 3,
+          issues: [
+            {
+              rule: "secret",
+              severity: "error",
+              snippetId: "1",
+              line: 2,
+              message: "Code contains what looks like a GitHub token",
+            },
+            {
+              rule: "trailingWhitespace",
+              severity: "info",
+              snippetId: "2",
+              message: "A line ends with whitespace",
+              fix: { description: "Remove trailing whitespace", changes: {} },
+            },
+          ],
+          counts: { error: 1, warning: 0, info: 1 },
+          fixable: 1,
+        },
+      });
+      (mockSnippetManager.getAllSnippets as Mock).mockResolvedValue({
+        success: true,
+        data: mockSnippets,
+      });
+      (mockSnippetManager.fixLintIssues as Mock).mockResolvedValue({
+        success: true,
+        data: 1,
+      });
+      (vscode.workspace.openTextDocument as Mock).mockResolvedValue({});
+      (vscode.window.showInformationMessage as Mock).mockResolvedValueOnce(
+        "Apply Fixes"
+      );
+
+      await commandHandler.lintLibrary();
+
+      const { content } = (vscode.workspace.openTextDocument as Mock).mock
+        .calls[0][0];
+      expect(content).toContain("1 errors, 0 warnings, 1 suggestions");
+      expect(content).toContain(
+        "## Errors (1)\n- **Test Snippet 1** (line 2): Code contains what " +
+          "looks like a GitHub token `secret`"
+      );
+      expect(content).toContain("_Fix: Remove trailing whitespace_");
+      expect(mockSnippetManager.fixLintIssues).toHaveBeenCalledWith(
+        undefined,
+        { source: "extension" }
+      );
+      expect(vscode.window.showInformationMessage).toHaveBeenLastCalledWith(
+        "Fixed 1 snippets"
       );
     });
   });
@@ -136,15 +136,18 @@ describe("Snippet Save and Insert Functionality", () => {
 
       await commandHandler.saveSnippet();
 
-      expect(mockSnippetManager.createSnippet).toHaveBeenCalledWith({
-        title: "Test Function",
-        description: "A test function",
-        code: expect.stringContaining("${1:testFunc}"), // Should have tab stops
-        language: "javascript",
-        tags: ["test", "function"],
-        category: "utilities",
-        prefix: "testfunc",
-      });
+      expect(mockSnippetManager.createSnippet).toHaveBeenCalledWith(
+        {
+          title: "Test Function",
+          description: "A test function",
+          code: expect.stringContaining("${1:testFunc}"), // Should have tab stops
+          language: "javascript",
+          tags: ["test", "function"],
+          category: "utilities",
+          prefix: "testfunc",
+        },
+        { source: "extension" }
+      );
 
       expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
         'Snippet "Test Function" saved successfully!'
@@ -186,15 +189,18 @@ describe("Snippet Save and Insert Functionality", () => {
 
       await commandHandler.saveSnippet();
 
-      expect(mockSnippetManager.createSnippet).toHaveBeenCalledWith({
-        title: "Manual Snippet",
-        description: "",
-        code: "enhanced code with ${1:placeholder}$0",
-        language: "javascript",
-        tags: [],
-        category: undefined,
-        prefix: undefined,
-      });
+      expect(mockSnippetManager.createSnippet).toHaveBeenCalledWith(
+        {
+          title: "Manual Snippet",
+          description: "",
+          code: "enhanced code with ${1:placeholder}$0",
+          language: "javascript",
+          tags: [],
+          category: undefined,
+          prefix: undefined,
+        },
+        { source: "extension" }
+      );
     });
 
     it("should save snippet without enhancement", async () => {
@@ -215,15 +221,18 @@ describe("Snippet Save and Insert Functionality", () => {
 
       await commandHandler.saveSnippet();
 
-      expect(mockSnippetManager.createSnippet).toHaveBeenCalledWith({
-        title: "Plain Snippet",
-        description: "Plain description",
-        code: originalCode, // Should be unchanged
-        language: "javascript",
-        tags: [],
-        category: undefined,
-        prefix: undefined,
-      });
+      expect(mockSnippetManager.createSnippet).toHaveBeenCalledWith(
+        {
+          title: "Plain Snippet",
+          description: "Plain description",
+          code: originalCode, // Should be unchanged
+          language: "javascript",
+          tags: [],
+          category: undefined,
+          prefix: undefined,
+        },
+        { source: "extension" }
+      );
     });
 
     it("should handle cancellation during enhancement selection", async () => {
@@ -417,7 +426,10 @@ describe("Snippet Save and Insert Functionality", () => {
       expect(mockEditor.insertSnippet).toHaveBeenCalled();
 
       // Verify usage was incremented
-      expect(mockSnippetManager.incrementUsage).toHaveBeenCalledWith("1");
+      expect(mockSnippetManager.incrementUsage).toHaveBeenCalledWith(
+        "1",
+        "insert"
+      );
 
       // Verify success message
       expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
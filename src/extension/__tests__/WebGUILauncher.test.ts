@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as vscode from "vscode";
 import { WebGUILauncher, WebGUILauncherConfig } from "../WebGUILauncher";
 import { SnippetManager } from "../../interfaces/SnippetManager";
+import { WebGUIServerManager } from "../../webgui/server/WebGUIServerManager";
 
 // Mock WebGUIServerManager
 vi.mock("../../webgui/server/WebGUIServerManager", () => ({
@@ -80,6 +82,47 @@ describe("WebGUILauncher", () => {
     });
   });
 
+  describe("authentication", () => {
+    beforeEach(async () => {
+      await launcher.initialize();
+    });
+
+    it("should open the browser with the session secret", async () => {
+      const manager = vi.mocked(WebGUIServerManager).mock.results[0].value;
+      const { accessTokens } = vi.mocked(WebGUIServerManager).mock
+        .calls[0][1];
+      manager.isRunning.mockReturnValue(true);
+
+      await launcher.openInBrowser();
+
+      const secret = accessTokens!.getSessionSecret();
+      expect(vscode.env.openExternal).toHaveBeenCalledTimes(1);
+      expect(
+        vi.mocked(vscode.env.openExternal).mock.calls[0][0].toString()
+      ).toBe(`http://localhost:3000/?token=${encodeURIComponent(secret)}`);
+      expect(accessTokens!.authenticate(secret)?.kind).toBe("session");
+    });
+
+    it("should create and revoke API tokens for the server", async () => {
+      const { accessTokens } = vi.mocked(WebGUIServerManager).mock
+        .calls[0][1];
+
+      const created = await launcher.createApiToken("CI", "read");
+      if (!created.success) {
+        throw new Error(created.error.message);
+      }
+
+      expect(launcher.getApiTokens()).toHaveLength(1);
+      expect(accessTokens!.authenticate(created.data.token)?.scope).toBe(
+        "read"
+      );
+
+      await launcher.revokeApiToken(created.data.apiToken.id);
+
+      expect(accessTokens!.authenticate(created.data.token)).toBeNull();
+    });
+  });
+
   describe("configuration management", () => {
     beforeEach(async () => {
       await launcher.initialize();
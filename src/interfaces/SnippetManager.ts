@@ -1,12 +1,24 @@
 import {
   SnippetInterface,
   SnippetData,
-  SearchQueryInterface,
+  AdvancedSearchQuery,
   ImportData,
   ImportResult,
   ExportData,
   ExportFilter,
   Result,
+  ChangeContext,
+  SnippetRevision,
+  RevisionDiff,
+  SavedSearchSummary,
+  SnippetCollection,
+  CategoryNode,
+  TagAliases,
+  UsageSource,
+  UsageReport,
+  UsageReportOptions,
+  LintOptions,
+  LintReport,
 } from "../types";
 
 /**
@@ -16,7 +28,10 @@ export interface SnippetManager {
   /**
    * Create a new snippet
    */
-  createSnippet(snippet: SnippetData): Promise<Result<SnippetInterface>>;
+  createSnippet(
+    snippet: SnippetData,
+    context?: ChangeContext
+  ): Promise<Result<SnippetInterface>>;
 
   /**
    * Retrieve a snippet by ID
@@ -28,7 +43,41 @@ export interface SnippetManager {
    */
   updateSnippet(
     id: string,
-    updates: Partial<SnippetData>
+    updates: Partial<SnippetData>,
+    context?: ChangeContext
+  ): Promise<Result<SnippetInterface>>;
+
+  /**
+   * Get the revision history of a snippet, newest first
+   */
+  getSnippetHistory(id: string): Promise<Result<SnippetRevision[]>>;
+
+  /**
+   * Get a line diff between two revisions of a snippet
+   */
+  diffSnippetRevisions(
+    id: string,
+    fromRevision: number,
+    toRevision: number
+  ): Promise<Result<RevisionDiff>>;
+
+  /**
+   * Roll a snippet back to a previous revision
+   */
+  rollbackSnippet(
+    id: string,
+    revision: number,
+    context?: ChangeContext
+  ): Promise<Result<SnippetInterface>>;
+
+  /**
+   * Merge duplicate snippets into one, combining their tags, usage counts
+   * and descriptions, and delete the merged snippets
+   */
+  mergeSnippets(
+    targetId: string,
+    sourceIds: string[],
+    context?: ChangeContext
   ): Promise<Result<SnippetInterface>>;
 
   /**
@@ -42,12 +91,145 @@ export interface SnippetManager {
   getAllSnippets(): Promise<Result<SnippetInterface[]>>;
 
   /**
-   * Search snippets based on query criteria
+   * Search snippets based on query criteria and advanced filters
    */
   searchSnippets(
-    query: SearchQueryInterface
+    query: AdvancedSearchQuery
   ): Promise<Result<SnippetInterface[]>>;
 
+  /**
+   * Get all saved searches with the number of snippets each matches
+   */
+  getSavedSearches(): Promise<Result<SavedSearchSummary[]>>;
+
+  /**
+   * Save a search under a name; the query text may use the query syntax
+   */
+  saveSearch(
+    name: string,
+    query: AdvancedSearchQuery
+  ): Promise<Result<SavedSearchSummary>>;
+
+  /**
+   * Rename a saved search or change its query
+   */
+  updateSavedSearch(
+    id: string,
+    updates: { name?: string; query?: AdvancedSearchQuery }
+  ): Promise<Result<SavedSearchSummary>>;
+
+  /**
+   * Delete a saved search
+   */
+  deleteSavedSearch(id: string): Promise<Result<void>>;
+
+  /**
+   * Run a saved search and record its use
+   */
+  runSavedSearch(id: string): Promise<Result<SnippetInterface[]>>;
+
+  /**
+   * Get all collections, sorted by name
+   */
+  getCollections(): Promise<Result<SnippetCollection[]>>;
+
+  /**
+   * Create an empty collection, optionally inside a top-level collection
+   */
+  createCollection(
+    name: string,
+    options?: { description?: string; parentId?: string }
+  ): Promise<Result<SnippetCollection>>;
+
+  /**
+   * Rename, describe or move a collection (a null parent moves it to the
+   * top level)
+   */
+  updateCollection(
+    id: string,
+    updates: { name?: string; description?: string; parentId?: string | null }
+  ): Promise<Result<SnippetCollection>>;
+
+  /**
+   * Delete a collection and its subcollections, keeping their snippets
+   */
+  deleteCollection(id: string): Promise<Result<void>>;
+
+  /**
+   * Get the snippets of a collection in their manual order
+   */
+  getCollectionSnippets(id: string): Promise<Result<SnippetInterface[]>>;
+
+  /**
+   * Add snippets to a collection at a position, at the end by default
+   */
+  addToCollection(
+    id: string,
+    snippetIds: string[],
+    index?: number
+  ): Promise<Result<SnippetCollection>>;
+
+  /**
+   * Remove snippets from a collection
+   */
+  removeFromCollection(
+    id: string,
+    snippetIds: string[]
+  ): Promise<Result<SnippetCollection>>;
+
+  /**
+   * Put the snippets of a collection in a new order
+   */
+  reorderCollection(
+    id: string,
+    snippetIds: string[]
+  ): Promise<Result<SnippetCollection>>;
+
+  /**
+   * Get the category tree with the number of snippets under every node
+   */
+  getCategoryTree(): Promise<Result<CategoryNode[]>>;
+
+  /**
+   * Get the tag aliases of the library
+   */
+  getTagAliases(): Promise<Result<TagAliases>>;
+
+  /**
+   * Make a tag an alias of another tag, retagging snippets that use it
+   */
+  setTagAlias(
+    alias: string,
+    tag: string,
+    context?: ChangeContext
+  ): Promise<Result<TagAliases>>;
+
+  /**
+   * Remove a tag alias
+   */
+  removeTagAlias(alias: string): Promise<Result<TagAliases>>;
+
+  /**
+   * Rename a tag in every snippet at once, merging it into an existing tag
+   * of the same name. Resolves to the number of snippets changed.
+   */
+  renameTag(
+    from: string,
+    to: string,
+    options?: { keepAlias?: boolean },
+    context?: ChangeContext
+  ): Promise<Result<number>>;
+
+  /**
+   * Move a category and its subcategories under a new path in every
+   * snippet at once. Resolves to the number of snippets changed.
+   */
+  renameCategory(
+    from: string,
+    to: string,
+    context?: ChangeContext
+  ): Promise<Result<number>>;
+
   /**
    * Import snippets from external data
    */
@@ -75,7 +257,35 @@ export interface SnippetManager {
   >;
 
   /**
-   * Increment usage count for a snippet
+   * Increment usage count for a snippet and record where it was used
+   */
+  incrementUsage(id: string, source?: UsageSource): Promise<Result<void>>;
+
+  /**
+   * Report how snippets were used over the last days
+   */
+  getUsageReport(options?: UsageReportOptions): Promise<Result<UsageReport>>;
+
+  /**
+   * Lint the whole library for problems such as missing descriptions,
+   * secrets in code or colliding prefixes
+   */
+  lintLibrary(options?: Partial<LintOptions>): Promise<Result<LintReport>>;
+
+  /**
+   * Apply the safe fixes of lint issues, to all snippets or only the
+   * given ones. Returns the number of snippets changed.
+   */
+  fixLintIssues(
+    snippetIds?: string[],
+    context?: ChangeContext
+  ): Promise<Result<number>>;
+
+  /**
+   * Replace the whole library with synchronized snippets, keeping their IDs
    */
-  incrementUsage(id: string): Promise<Result<void>>;
+  replaceSnippets(
+    snippets: SnippetInterface[],
+    context?: ChangeContext
+  ): Promise<Result<void>>;
 }
@@ -13,9 +13,17 @@ export interface SnippetInterface {
   updatedAt: Date;
   usageCount: number;
   prefix?: string; // For VS Code snippet integration
+  prefixAliases?: string[]; // Other prefixes that insert the snippet
   scope?: string[]; // File types where snippet is available
+  variables?: SnippetVariable[]; // Custom template variables used in code
+  source?: SnippetSource; // Library layer the snippet was loaded from
 }
 
+/**
+ * Library layer a snippet comes from when several libraries are combined
+ */
+export type SnippetSource = "global" | "workspace" | "team";
+
 /**
  * Data structure for creating or updating snippets
  */
@@ -27,7 +35,33 @@ export interface SnippetData {
   tags: string[];
   category?: string;
   prefix?: string;
+  prefixAliases?: string[];
   scope?: string[];
+  variables?: SnippetVariable[];
+}
+
+/**
+ * Custom variable referenced from snippet code as $NAME or ${NAME}
+ */
+export interface SnippetVariable {
+  name: string;
+  description?: string;
+  defaultValue?: string;
+  choices?: string[];
+}
+
+/**
+ * Field of a snippet template that can be filled in on insertion
+ */
+export interface TemplateField {
+  kind: "tabstop" | "placeholder" | "choice" | "variable";
+  key: string; // Tabstop index or variable name, used to supply values
+  index?: number;
+  name?: string;
+  builtin?: boolean;
+  defaultValue?: string;
+  choices?: string[];
+  description?: string;
 }
 
 /**
@@ -38,6 +72,7 @@ export interface SearchQueryInterface {
   language?: string;
   tags?: string[];
   category?: string;
+  source?: SnippetSource;
   dateRange?: {
     start: Date;
     end: Date;
@@ -46,6 +81,272 @@ export interface SearchQueryInterface {
   sortOrder?: "asc" | "desc";
 }
 
+/**
+ * Advanced search filter. Dates and numbers are compared through the
+ * greaterThan, lessThan, atLeast and atMost operators, with dates given as
+ * ISO strings. The "text" field stands for every field that free text
+ * search looks at; "calls" and "defines" match the functions the code
+ * calls and the kinds and names of what it defines.
+ */
+export interface AdvancedSearchFilter {
+  field:
+    | "title"
+    | "description"
+    | "code"
+    | "tags"
+    | "category"
+    | "language"
+    | "text"
+    | "calls"
+    | "defines"
+    | "usageCount"
+    | "createdAt"
+    | "updatedAt";
+  operator:
+    | "contains"
+    | "equals"
+    | "startsWith"
+    | "endsWith"
+    | "regex"
+    | "not"
+    | "greaterThan"
+    | "lessThan"
+    | "atLeast"
+    | "atMost";
+  value: string;
+  caseSensitive?: boolean;
+}
+
+/**
+ * Search query with advanced filters
+ */
+export interface AdvancedSearchQuery extends SearchQueryInterface {
+  filters?: AdvancedSearchFilter[];
+  operator?: "and" | "or"; // How to combine filters
+}
+
+/**
+ * Search kept under a name ("smart collection"). The text of the query may
+ * use the search query syntax; it is parsed each time the search runs, so
+ * relative dates stay relative.
+ */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: AdvancedSearchQuery;
+  createdAt: Date;
+  lastUsed: Date;
+  useCount: number;
+}
+
+/**
+ * Saved search with the number of snippets it currently matches
+ */
+export interface SavedSearchSummary extends SavedSearch {
+  count: number;
+}
+
+/**
+ * Named group of snippets kept in a user-defined order. Collections nest
+ * one level deep: a collection with a parent cannot have children.
+ */
+export interface SnippetCollection {
+  id: string;
+  name: string;
+  description?: string;
+  parentId?: string;
+  snippetIds: string[]; // In display order
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Node of the category tree. Categories are paths such as
+ * "backend/db/postgres"; the count includes snippets of subcategories.
+ */
+export interface CategoryNode {
+  name: string; // Last segment of the path
+  path: string;
+  count: number;
+  children: CategoryNode[];
+}
+
+/**
+ * Tag aliases of a library, mapping an alias such as "js" to the tag it
+ * stands for, such as "javascript"
+ */
+export type TagAliases = Record<string, string>;
+
+/**
+ * Where a snippet was used: completion in the editor, the insert and quick
+ * insert commands, copying it in the Web GUI or the command line
+ */
+export type UsageSource =
+  | "completion"
+  | "insert"
+  | "quickInsert"
+  | "webCopy"
+  | "cli"
+  | "unknown";
+
+/**
+ * Single use of a snippet
+ */
+export interface UsageEvent {
+  snippetId: string;
+  timestamp: Date;
+  source: UsageSource;
+}
+
+/**
+ * Options for a usage report
+ */
+export interface UsageReportOptions {
+  days?: number; // Length of the reported period, 30 days by default
+  staleDays?: number; // Unused for this long counts as stale, 90 by default
+}
+
+/**
+ * Uses over the reported period, with one count per day
+ */
+export interface UsageTrend {
+  total: number;
+  daily: number[]; // Same order as the days of the report
+}
+
+/**
+ * Usage of a library over a period of days
+ */
+export interface UsageReport {
+  start: Date;
+  end: Date;
+  days: string[]; // Days of the period as YYYY-MM-DD (UTC), oldest first
+  staleDays: number;
+  total: UsageTrend;
+  sources: Partial<Record<UsageSource, number>>;
+  snippets: Array<
+    UsageTrend & { snippet: SnippetInterface; lastUsed?: Date }
+  >; // Snippets used in the period, most used first
+  languages: Array<UsageTrend & { language: string }>;
+  tags: Array<UsageTrend & { tag: string }>;
+  neverUsed: SnippetInterface[];
+  stale: Array<{ snippet: SnippetInterface; lastUsed?: Date }>; // Oldest first
+}
+
+/**
+ * Number of snippets sharing a language, category or tag
+ */
+export interface LibraryCount {
+  name: string;
+  count: number;
+}
+
+/**
+ * Snippets added in a month and the size of the library at its end
+ */
+export interface LibraryGrowthPoint {
+  month: string; // YYYY-MM (UTC)
+  added: number;
+  total: number;
+}
+
+/**
+ * Kind of problem reported by library health warnings
+ */
+export type LibraryHealthKind =
+  | "missingDescription"
+  | "untagged"
+  | "duplicates";
+
+/**
+ * Snippets sharing a problem worth fixing
+ */
+export interface LibraryHealthWarning {
+  kind: LibraryHealthKind;
+  message: string;
+  snippets: SnippetInterface[];
+}
+
+/**
+ * Overview of a whole library for the Web GUI dashboard
+ */
+export interface LibraryDashboard {
+  total: number;
+  totalUsage: number;
+  languages: LibraryCount[]; // Most snippets first
+  categories: LibraryCount[]; // Top level categories
+  tags: LibraryCount[];
+  recentlyCreated: SnippetInterface[];
+  recentlyUpdated: SnippetInterface[];
+  mostUsed: SnippetInterface[];
+  growth: LibraryGrowthPoint[]; // Oldest month first
+  health: LibraryHealthWarning[]; // Only kinds with affected snippets
+}
+
+/**
+ * How serious a lint issue is
+ */
+export type LintSeverity = "error" | "warning" | "info";
+
+/**
+ * Check made by the library linter
+ */
+export type LintRule =
+  | "invalid"
+  | "missingDescription"
+  | "languageMismatch"
+  | "unbalancedBrackets"
+  | "trailingWhitespace"
+  | "secret"
+  | "duplicatePrefix"
+  | "longTitle"
+  | "unusedTag";
+
+/**
+ * Settings of the library linter
+ */
+export interface LintOptions {
+  maxTitleLength: number; // Longer titles are hard to read in quick picks
+  tagAliases: TagAliases;
+  disabledRules: LintRule[];
+}
+
+/**
+ * Change that resolves a lint issue without changing what a snippet does
+ */
+export interface LintFix {
+  description: string;
+  changes: Partial<SnippetData>;
+}
+
+/**
+ * Problem found by the library linter
+ */
+export interface LintIssue {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  snippetId?: string; // Missing for issues of the library as a whole
+  line?: number; // Line of the code, from 1
+  fix?: LintFix; // Only when the fix is safe to apply unattended
+}
+
+/**
+ * Result of linting a whole library
+ */
+export interface LintReport {
+  checked: number;
+  issues: LintIssue[]; // Errors first
+  counts: Record<LintSeverity, number>;
+  fixable: number;
+}
+
+/**
+ * How snippets are laid out on disk: one collection file, one code file
+ * plus metadata sidecar per snippet, or a SQLite database
+ */
+export type StorageLayout = "single-file" | "per-snippet" | "sqlite";
+
 /**
  * Configuration for snippet storage
  */
@@ -53,11 +354,29 @@ export interface StorageConfigInterface {
   location: "workspace" | "global";
   path?: string;
   format: "json" | "yaml";
+  layout?: StorageLayout; // Defaults to "single-file"
   autoBackup: boolean;
   backupInterval: number;
   maxBackups?: number;
 }
 
+/**
+ * Libraries combined into one view, highest precedence first. An empty
+ * source list uses only the configured storage location.
+ */
+export interface LibraryConfig {
+  sources: SnippetSource[];
+  teamPath?: string; // Shared folder or file of the read-only team library
+}
+
+/**
+ * Git repository the library is synchronized with
+ */
+export interface GitSyncSettings {
+  remote: string; // Empty when git sync is disabled
+  branch: string;
+}
+
 /**
  * Web GUI configuration
  */
@@ -145,6 +464,7 @@ export interface ImportResult {
  */
 export interface ImportData {
   snippets: SnippetData[];
+  collections?: SnippetCollection[]; // Refer to snippets by their exported IDs
   conflictResolution: "skip" | "overwrite" | "rename";
 }
 
@@ -155,6 +475,7 @@ export interface ExportFilter {
   tags?: string[];
   categories?: string[];
   languages?: string[];
+  collections?: string[]; // Collection IDs, subcollections included
   dateRange?: {
     start: Date;
     end: Date;
@@ -166,6 +487,7 @@ export interface ExportFilter {
  */
 export interface ExportData {
   snippets: SnippetInterface[];
+  collections?: SnippetCollection[];
   metadata: {
     exportedAt: Date;
     version: string;
@@ -192,12 +514,157 @@ export interface StorageChange {
   timestamp: Date;
 }
 
+/**
+ * Origin of a snippet revision
+ */
+export type RevisionSource =
+  | "extension"
+  | "webgui"
+  | "import"
+  | "sync"
+  | "rollback"
+  | "merge"
+  | "cli"
+  | "unknown";
+
+/**
+ * Recorded revision of a snippet
+ */
+export interface SnippetRevision {
+  snippetId: string;
+  revision: number;
+  timestamp: Date;
+  source: RevisionSource;
+  author?: string;
+  changedFields: Array<keyof SnippetData>;
+  snapshot: SnippetData;
+}
+
+/**
+ * Options describing who or what is making a change
+ */
+export interface ChangeContext {
+  source?: RevisionSource;
+  author?: string;
+}
+
+/**
+ * Single line of a line-based diff
+ */
+export interface DiffLine {
+  type: "unchanged" | "added" | "removed";
+  content: string;
+  oldLineNumber?: number;
+  newLineNumber?: number;
+}
+
+/**
+ * Region changed differently on both sides of a three-way merge
+ */
+export interface MergeHunk {
+  field: string; // Snippet field the region belongs to
+  baseLine?: number; // First line of the region in the base text
+  base: string;
+  local: string;
+  remote: string;
+}
+
+/**
+ * One field of a conflicting snippet, compared between both versions
+ */
+export interface ConflictFieldDiff {
+  field: keyof SnippetData;
+  local: unknown;
+  remote: unknown;
+  base?: unknown;
+  diff?: DiffLine[]; // Line diff from local to remote for text fields
+}
+
+/**
+ * Pending conflict with its differing fields, as shown to users
+ */
+export interface ConflictDetails {
+  id: string;
+  snippetId: string;
+  type: string;
+  source: "vscode" | "webgui" | "filesystem" | "git";
+  severity: "low" | "medium" | "high";
+  autoResolvable: boolean;
+  detectedAt: Date;
+  localSnippet: SnippetInterface;
+  remoteSnippet: SnippetInterface;
+  baseSnippet?: SnippetInterface;
+  fields: ConflictFieldDiff[];
+}
+
+/**
+ * Resolution picked field by field, optionally with edited values that
+ * take precedence over both versions
+ */
+export interface ConflictFieldResolution {
+  fields?: Partial<Record<keyof SnippetData, "local" | "remote">>;
+  merged?: Partial<SnippetData>;
+}
+
+/**
+ * Snippets whose code is the same or nearly the same once whitespace,
+ * comments and identifier names are ignored
+ */
+export interface DuplicateGroup {
+  id: string;
+  snippets: SnippetInterface[]; // Most used first
+  similarity: number; // Lowest similarity linking the group, 0 to 1
+  exact: boolean; // Every snippet has the same normalized code
+}
+
+/**
+ * Diff between two revisions of a snippet
+ */
+export interface RevisionDiff {
+  snippetId: string;
+  fromRevision: number;
+  toRevision: number;
+  changedFields: Array<keyof SnippetData>;
+  fields: Partial<
+    Record<keyof SnippetData, { from: unknown; to: unknown }>
+  >;
+  codeDiff: DiffLine[];
+}
+
+/**
+ * What an access token allows: reading the library, or changing it too
+ */
+export type AccessScope = "read" | "write";
+
+/**
+ * API token for scripts using the Web GUI server. Only a hash of the token
+ * is kept; the token itself is shown once when it is created.
+ */
+export interface ApiToken {
+  id: string;
+  name: string;
+  scope: AccessScope;
+  tokenHash: string;
+  createdAt: Date;
+}
+
+/**
+ * Access of an authenticated request: the browser session opened from
+ * VS Code, or an API token
+ */
+export interface AccessGrant {
+  kind: "session" | "token";
+  scope: AccessScope;
+  tokenId?: string;
+}
+
 /**
  * Error types for the snippet library system
  */
 export enum ErrorType {
   storageAccess = "storage_access",
   validation = "validation",
+  notFound = "not_found",
   syncConflict = "sync_conflict",
   network = "network",
   unknown = "unknown",
@@ -5,6 +5,13 @@ import SnippetGrid from "./pages/SnippetGrid/SnippetGrid";
 import SnippetEditor from "./pages/SnippetEditor/SnippetEditor";
 import SearchPage from "./pages/Search/SearchPage";
 import ImportExport from "./pages/ImportExport/ImportExport";
+import ConflictsPage from "./pages/Conflicts/ConflictsPage";
+import DuplicatesPage from "./pages/Duplicates/DuplicatesPage";
+import CollectionsPage from "./pages/Collections/CollectionsPage";
+import TagsPage from "./pages/Tags/TagsPage";
+import AnalyticsPage from "./pages/Analytics/AnalyticsPage";
+import DashboardPage from "./pages/Dashboard/DashboardPage";
+import LintPage from "./pages/Lint/LintPage";
 import NotFound from "./pages/NotFound/NotFound";
 
 const App: React.FC = () => {
@@ -13,10 +20,18 @@ const App: React.FC = () => {
       <Routes>
         <Route path="/" element={<SnippetGrid />} />
         <Route path="/snippets" element={<SnippetGrid />} />
+        <Route path="/dashboard" element={<DashboardPage />} />
         <Route path="/snippets/new" element={<SnippetEditor />} />
         <Route path="/snippets/:id/edit" element={<SnippetEditor />} />
         <Route path="/search" element={<SearchPage />} />
         <Route path="/import-export" element={<ImportExport />} />
+        <Route path="/conflicts" element={<ConflictsPage />} />
+        <Route path="/duplicates" element={<DuplicatesPage />} />
+        <Route path="/collections" element={<CollectionsPage />} />
+        <Route path="/collections/:id" element={<CollectionsPage />} />
+        <Route path="/tags" element={<TagsPage />} />
+        <Route path="/analytics" element={<AnalyticsPage />} />
+        <Route path="/lint" element={<LintPage />} />
         <Route path="*" element={<NotFound />} />
       </Routes>
     </Layout>
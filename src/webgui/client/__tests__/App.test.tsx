@@ -17,9 +17,16 @@ vi.mock("../services/api", () => ({
     update: vi.fn(),
     delete: vi.fn(),
     search: vi.fn().mockResolvedValue([]),
+    getSavedSearches: vi.fn().mockResolvedValue([]),
+    getCollections: vi.fn().mockResolvedValue([]),
   },
 }));
 
+// Live updates come from the server
+vi.mock("../services/socket", () => ({
+  getSocket: () => ({ on: vi.fn(), off: vi.fn() }),
+}));
+
 const createTestStore = () => {
   return configureStore({
     reducer: {
@@ -15,6 +15,11 @@ import { snippetsSlice } from "../../store/slices/snippetsSlice";
 import { uiSlice } from "../../store/slices/uiSlice";
 import { Snippet } from "../../../../core/models/Snippet";
 
+// Live updates come from the server
+vi.mock("../../services/socket", () => ({
+  getSocket: () => ({ on: vi.fn(), off: vi.fn() }),
+}));
+
 /**
  * End-to-end tests for Web GUI user journeys
  * Tests complete user workflows from UI interaction to data persistence
@@ -0,0 +1,42 @@
+import React from "react";
+import "./CountBars.css";
+
+interface CountBarsProps {
+  items: Array<{ name: string; count: number }>;
+  label: string;
+  emptyText?: string;
+}
+
+/**
+ * Horizontal bar per item, scaled to the largest count
+ */
+const CountBars: React.FC<CountBarsProps> = ({
+  items,
+  label,
+  emptyText = "Nothing to show",
+}) => {
+  if (items.length === 0) {
+    return <p className="count-bars-empty">{emptyText}</p>;
+  }
+
+  const max = Math.max(...items.map((item) => item.count), 1);
+
+  return (
+    <ul className="count-bars" aria-label={label}>
+      {items.map((item) => (
+        <li key={item.name} className="count-bars-item">
+          <span className="count-bars-name">{item.name}</span>
+          <span className="count-bars-track">
+            <span
+              className="count-bars-fill"
+              style={{ width: `${(item.count / max) * 100}%` }}
+            />
+          </span>
+          <span className="count-bars-count">{item.count}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default CountBars;
@@ -0,0 +1,37 @@
+import React from "react";
+import "./TrendBars.css";
+
+interface TrendBarsProps {
+  daily: number[];
+  days: string[];
+  label: string;
+  unit?: string;
+}
+
+/**
+ * Bar per day showing how uses changed over the reported period. Also
+ * used for other periods, such as months.
+ */
+const TrendBars: React.FC<TrendBarsProps> = ({
+  daily,
+  days,
+  label,
+  unit = "uses",
+}) => {
+  const max = Math.max(...daily, 1);
+
+  return (
+    <div className="trend-bars" role="img" aria-label={label}>
+      {daily.map((uses, index) => (
+        <span
+          key={days[index] || index}
+          className="trend-bar"
+          style={{ height: `${(uses / max) * 100}%` }}
+          title={`${days[index]}: ${uses} ${unit}`}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default TrendBars;
@@ -1,7 +1,28 @@
-import React from "react";
-import { useSelector, useDispatch } from "react-redux";
+import React, { useEffect, useMemo } from "react";
+import { useSelector } from "react-redux";
 import { RootState } from "../../store/store";
+import { useAppDispatch } from "../../store/hooks";
 import { toggleSidebar } from "../../store/slices/uiSlice";
+import {
+  fetchSnippetSummaries,
+  setSourceFilter,
+  setCategoryFilter,
+} from "../../store/slices/snippetsSlice";
+import {
+  fetchSavedSearches,
+  savedSearchesUpdated,
+} from "../../store/slices/savedSearchesSlice";
+import {
+  fetchCollections,
+  collectionsUpdated,
+} from "../../store/slices/collectionsSlice";
+import { getSocket } from "../../services/socket";
+import { buildCategoryTree } from "../../../../core/taxonomy";
+import {
+  SnippetSource,
+  SavedSearchSummary,
+  SnippetCollection,
+} from "../../../../types";
 import Header from "./Header";
 import Sidebar from "./Sidebar";
 import NotificationContainer from "../Notifications/NotificationContainer";
@@ -11,19 +32,100 @@ interface LayoutProps {
   children: React.ReactNode;
 }
 
+interface SavedSearchesUpdate {
+  searches: SavedSearchSummary[];
+}
+
+interface CollectionsUpdate {
+  collections: SnippetCollection[];
+}
+
 const Layout: React.FC<LayoutProps> = ({ children }) => {
-  const dispatch = useDispatch();
+  const dispatch = useAppDispatch();
   const { sidebarOpen, theme } = useSelector((state: RootState) => state.ui);
+  // Pages load only part of the library, so the sidebar uses summaries
+  const snippets = useSelector(
+    (state: RootState) => state.snippets?.summaries
+  );
+  const sourceFilter = useSelector(
+    (state: RootState) => state.snippets?.sourceFilter ?? null
+  );
+  const categoryFilter = useSelector(
+    (state: RootState) => state.snippets?.categoryFilter ?? null
+  );
+  const savedSearches = useSelector(
+    (state: RootState) => state.savedSearches?.items
+  );
+  const collections = useSelector(
+    (state: RootState) => state.collections?.items
+  );
+
+  useEffect(() => {
+    dispatch(fetchSnippetSummaries());
+    dispatch(fetchSavedSearches());
+    dispatch(fetchCollections());
+
+    // The server sends fresh counts whenever snippets change
+    const socket = getSocket();
+    const handleUpdate = (update: SavedSearchesUpdate) => {
+      dispatch(savedSearchesUpdated(update.searches));
+    };
+    const handleCollectionsUpdate = (update: CollectionsUpdate) => {
+      dispatch(collectionsUpdated(update.collections));
+    };
+    socket.on("savedSearchesUpdate", handleUpdate);
+    socket.on("collectionsUpdate", handleCollectionsUpdate);
+
+    return () => {
+      socket.off("savedSearchesUpdate", handleUpdate);
+      socket.off("collectionsUpdate", handleCollectionsUpdate);
+    };
+  }, [dispatch]);
+
+  const sources = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          (snippets || [])
+            .map((snippet) => snippet.source)
+            .filter((source): source is SnippetSource => !!source)
+        )
+      ),
+    [snippets]
+  );
+
+  const categories = useMemo(
+    () => buildCategoryTree(snippets || []),
+    [snippets]
+  );
 
   const handleToggleSidebar = () => {
     dispatch(toggleSidebar());
   };
 
+  const handleSelectSource = (source: SnippetSource | null) => {
+    dispatch(setSourceFilter(source));
+  };
+
+  const handleSelectCategory = (category: string | null) => {
+    dispatch(setCategoryFilter(category));
+  };
+
   return (
     <div className={`layout ${theme}`} data-testid="layout">
       <Header onToggleSidebar={handleToggleSidebar} />
       <div className="layout-body">
-        <Sidebar isOpen={sidebarOpen} />
+        <Sidebar
+          isOpen={sidebarOpen}
+          sources={sources}
+          activeSource={sourceFilter}
+          onSelectSource={handleSelectSource}
+          savedSearches={savedSearches}
+          collections={collections}
+          categories={categories}
+          activeCategory={categoryFilter}
+          onSelectCategory={handleSelectCategory}
+        />
         <main
           className={`main-content ${
             sidebarOpen ? "sidebar-open" : "sidebar-closed"
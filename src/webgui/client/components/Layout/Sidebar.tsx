@@ -1,19 +1,109 @@
 import React from "react";
-import { NavLink } from "react-router-dom";
+import { Link, NavLink } from "react-router-dom";
+import {
+  SnippetSource,
+  SavedSearchSummary,
+  SnippetCollection,
+  CategoryNode,
+} from "../../../../types";
 import "./Sidebar.css";
 
 interface SidebarProps {
   isOpen: boolean;
+  sources?: SnippetSource[];
+  activeSource?: SnippetSource | null;
+  onSelectSource?: (source: SnippetSource | null) => void;
+  savedSearches?: SavedSearchSummary[];
+  collections?: SnippetCollection[];
+  categories?: CategoryNode[];
+  activeCategory?: string | null;
+  onSelectCategory?: (category: string | null) => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ isOpen }) => {
+const sourceIcons: Record<SnippetSource, string> = {
+  workspace: "🗂️",
+  global: "👤",
+  team: "👥",
+};
+
+const Sidebar: React.FC<SidebarProps> = ({
+  isOpen,
+  sources = [],
+  activeSource = null,
+  onSelectSource,
+  savedSearches = [],
+  collections = [],
+  categories = [],
+  activeCategory = null,
+  onSelectCategory,
+}) => {
   const navItems = [
+    { path: "/dashboard", label: "Dashboard", icon: "📊" },
     { path: "/", label: "All Snippets", icon: "📄" },
     { path: "/snippets/new", label: "New Snippet", icon: "➕" },
     { path: "/search", label: "Search", icon: "🔍" },
     { path: "/import-export", label: "Import/Export", icon: "📁" },
+    { path: "/conflicts", label: "Conflicts", icon: "⚠️" },
+    { path: "/duplicates", label: "Duplicates", icon: "👯" },
+    { path: "/tags", label: "Tags", icon: "🏷️" },
+    { path: "/analytics", label: "Analytics", icon: "📈" },
+    { path: "/lint", label: "Lint", icon: "🩺" },
   ];
 
+  // Only offer a library filter when several libraries are combined
+  const libraryItems: Array<{
+    source: SnippetSource | null;
+    label: string;
+    icon: string;
+  }> =
+    sources.length > 1
+      ? [
+          { source: null, label: "All Libraries", icon: "📚" },
+          ...sources.map((source) => ({
+            source,
+            label: source.charAt(0).toUpperCase() + source.slice(1),
+            icon: sourceIcons[source],
+          })),
+        ]
+      : [];
+
+  // Subcollections are listed right below their parent
+  const collectionItems = collections
+    .filter((collection) => !collection.parentId)
+    .flatMap((parent) => [
+      parent,
+      ...collections.filter((collection) => collection.parentId === parent.id),
+    ]);
+
+  // Picking the selected category again clears the filter
+  const renderCategories = (nodes: CategoryNode[]): React.ReactNode =>
+    nodes.map((node) => (
+      <li key={node.path}>
+        <Link
+          to="/"
+          className={`sidebar-link ${
+            activeCategory === node.path ? "selected" : ""
+          }`}
+          onClick={() =>
+            onSelectCategory?.(activeCategory === node.path ? null : node.path)
+          }
+          title={node.path}
+          data-testid={`category-${node.path}`}
+        >
+          <span className="sidebar-icon">🔖</span>
+          {isOpen && (
+            <>
+              <span className="sidebar-label">{node.name}</span>
+              <span className="sidebar-count">{node.count}</span>
+            </>
+          )}
+        </Link>
+        {isOpen && node.children.length > 0 && (
+          <ul className="sidebar-tree">{renderCategories(node.children)}</ul>
+        )}
+      </li>
+    ));
+
   return (
     <aside
       className={`sidebar ${isOpen ? "open" : "closed"}`}
@@ -36,6 +126,107 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen }) => {
             </li>
           ))}
         </ul>
+        {libraryItems.length > 0 && (
+          <>
+            {isOpen && <h4 className="sidebar-section-title">Libraries</h4>}
+            <ul data-testid="library-filter">
+              {libraryItems.map((item) => (
+                <li key={item.source || "all"}>
+                  <Link
+                    to="/"
+                    className={`sidebar-link ${
+                      activeSource === item.source ? "selected" : ""
+                    }`}
+                    onClick={() => onSelectSource?.(item.source)}
+                    data-testid={`library-${item.source || "all"}`}
+                  >
+                    <span className="sidebar-icon">{item.icon}</span>
+                    {isOpen && (
+                      <span className="sidebar-label">{item.label}</span>
+                    )}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+        {savedSearches.length > 0 && (
+          <>
+            {isOpen && (
+              <h4 className="sidebar-section-title">Saved Searches</h4>
+            )}
+            <ul data-testid="saved-searches">
+              {savedSearches.map((search) => (
+                <li key={search.id}>
+                  <Link
+                    to={`/search?saved=${encodeURIComponent(search.id)}`}
+                    className="sidebar-link"
+                    title={search.name}
+                    data-testid={`saved-search-${search.id}`}
+                  >
+                    <span className="sidebar-icon">⭐</span>
+                    {isOpen && (
+                      <>
+                        <span className="sidebar-label">{search.name}</span>
+                        <span className="sidebar-count">{search.count}</span>
+                      </>
+                    )}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+        {categories.length > 0 && (
+          <>
+            {isOpen && <h4 className="sidebar-section-title">Categories</h4>}
+            <ul data-testid="categories">{renderCategories(categories)}</ul>
+          </>
+        )}
+        {isOpen && <h4 className="sidebar-section-title">Collections</h4>}
+        <ul data-testid="collections">
+          {collectionItems.map((collection) => (
+            <li key={collection.id}>
+              <NavLink
+                to={`/collections/${encodeURIComponent(collection.id)}`}
+                className={({ isActive }) =>
+                  `sidebar-link ${collection.parentId ? "nested" : ""} ${
+                    isActive ? "active" : ""
+                  }`
+                }
+                title={collection.name}
+                data-testid={`collection-${collection.id}`}
+              >
+                <span className="sidebar-icon">
+                  {collection.parentId ? "📂" : "🗃️"}
+                </span>
+                {isOpen && (
+                  <>
+                    <span className="sidebar-label">{collection.name}</span>
+                    <span className="sidebar-count">
+                      {collection.snippetIds.length}
+                    </span>
+                  </>
+                )}
+              </NavLink>
+            </li>
+          ))}
+          <li>
+            <NavLink
+              to="/collections"
+              end
+              className={({ isActive }) =>
+                `sidebar-link ${isActive ? "active" : ""}`
+              }
+              data-testid="nav-collections"
+            >
+              <span className="sidebar-icon">🗄️</span>
+              {isOpen && (
+                <span className="sidebar-label">Manage Collections</span>
+              )}
+            </NavLink>
+          </li>
+        </ul>
       </nav>
     </aside>
   );
@@ -7,6 +7,19 @@ import "@testing-library/jest-dom";
 import Layout from "../Layout";
 import uiReducer from "../../../store/slices/uiSlice";
 
+// Snippet summaries, saved searches, collections and their live updates
+// come from the server
+vi.mock("../../../services/api", () => ({
+  snippetAPI: {
+    getSummaries: vi.fn().mockResolvedValue([]),
+    getSavedSearches: vi.fn().mockResolvedValue([]),
+    getCollections: vi.fn().mockResolvedValue([]),
+  },
+}));
+vi.mock("../../../services/socket", () => ({
+  getSocket: () => ({ on: vi.fn(), off: vi.fn() }),
+}));
+
 const createTestStore = (initialState = {}) => {
   return configureStore({
     reducer: {
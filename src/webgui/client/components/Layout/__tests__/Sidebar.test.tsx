@@ -1,5 +1,5 @@
 import React from "react";
-import { render, screen } from "@testing-library/react";
+import { render, screen, fireEvent } from "@testing-library/react";
 import { BrowserRouter } from "react-router-dom";
 import "@testing-library/jest-dom";
 import Sidebar from "../Sidebar";
@@ -63,4 +63,121 @@ describe("Sidebar", () => {
     expect(searchLink).toHaveAttribute("href", "/search");
     expect(importExportLink).toHaveAttribute("href", "/import-export");
   });
+
+  it("hides the library filter for a single library", () => {
+    renderWithRouter(<Sidebar isOpen={true} sources={["global"]} />);
+
+    expect(screen.queryByTestId("library-filter")).not.toBeInTheDocument();
+  });
+
+  it("filters by library when several are combined", () => {
+    const onSelectSource = vi.fn();
+    renderWithRouter(
+      <Sidebar
+        isOpen={true}
+        sources={["workspace", "team"]}
+        activeSource="team"
+        onSelectSource={onSelectSource}
+      />
+    );
+
+    expect(screen.getByText("Libraries")).toBeInTheDocument();
+    expect(screen.getByTestId("library-team")).toHaveClass("selected");
+
+    fireEvent.click(screen.getByTestId("library-workspace"));
+    fireEvent.click(screen.getByTestId("library-all"));
+
+    expect(onSelectSource).toHaveBeenNthCalledWith(1, "workspace");
+    expect(onSelectSource).toHaveBeenNthCalledWith(2, null);
+  });
+
+  it("renders the category tree with counts", () => {
+    const onSelectCategory = vi.fn();
+    renderWithRouter(
+      <Sidebar
+        isOpen={true}
+        categories={[
+          {
+            name: "backend",
+            path: "backend",
+            count: 3,
+            children: [
+              { name: "db", path: "backend/db", count: 2, children: [] },
+            ],
+          },
+        ]}
+        activeCategory="backend"
+        onSelectCategory={onSelectCategory}
+      />
+    );
+
+    const db = screen.getByTestId("category-backend/db");
+    expect(screen.getByTestId("category-backend")).toHaveClass("selected");
+    expect(screen.getByTestId("category-backend")).toHaveTextContent("3");
+    expect(db).toHaveTextContent("db2");
+    expect(db.closest("ul")).toHaveClass("sidebar-tree");
+
+    fireEvent.click(db);
+    fireEvent.click(screen.getByTestId("category-backend"));
+
+    expect(onSelectCategory).toHaveBeenNthCalledWith(1, "backend/db");
+    expect(onSelectCategory).toHaveBeenNthCalledWith(2, null);
+  });
+
+  it("lists saved searches with their counts", () => {
+    renderWithRouter(
+      <Sidebar
+        isOpen={true}
+        savedSearches={[
+          {
+            id: "search-1",
+            name: "React hooks",
+            query: { text: "tag:react" },
+            createdAt: new Date(),
+            lastUsed: new Date(),
+            useCount: 0,
+            count: 3,
+          },
+        ]}
+      />
+    );
+
+    expect(screen.getByText("Saved Searches")).toBeInTheDocument();
+    const link = screen.getByTestId("saved-search-search-1");
+    expect(link).toHaveAttribute("href", "/search?saved=search-1");
+    expect(link).toHaveTextContent("React hooks");
+    expect(link).toHaveTextContent("3");
+  });
+
+  it("lists subcollections below their parent", () => {
+    const collection = {
+      snippetIds: ["a", "b"],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    renderWithRouter(
+      <Sidebar
+        isOpen={true}
+        collections={[
+          { ...collection, id: "c-2", name: "Backend" },
+          { ...collection, id: "c-1", name: "Frontend" },
+          { ...collection, id: "c-3", name: "Hooks", parentId: "c-1" },
+        ]}
+      />
+    );
+
+    const links = screen
+      .getByTestId("collections")
+      .querySelectorAll("a[data-testid^='collection-']");
+    expect(Array.from(links).map((link) => link.textContent)).toEqual([
+      "🗃️Backend2",
+      "🗃️Frontend2",
+      "📂Hooks2",
+    ]);
+    expect(screen.getByTestId("collection-c-3")).toHaveClass("nested");
+    expect(screen.getByTestId("collection-c-3")).toHaveAttribute(
+      "href",
+      "/collections/c-3"
+    );
+  });
 });
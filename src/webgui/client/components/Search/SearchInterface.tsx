@@ -6,17 +6,22 @@ import {
   addToHistory,
   clearQuery,
 } from "../../store/slices/searchSlice";
-import { SearchQueryInterface } from "../../../../types";
+import {
+  createSavedSearch,
+  deleteSavedSearch as removeSavedSearch,
+} from "../../store/slices/savedSearchesSlice";
+import { addNotification } from "../../store/slices/uiSlice";
+import {
+  AdvancedSearchQuery,
+  SearchQueryInterface,
+  SavedSearchSummary,
+} from "../../../../types";
+import { parseQuery, getQueryCompletions } from "../../../../core/query";
 import Button from "../UI/Button";
 import Input from "../UI/Input";
 import "./SearchInterface.css";
 
-interface SavedSearch {
-  id: string;
-  name: string;
-  query: SearchQueryInterface;
-  createdAt: Date;
-}
+const noSavedSearches: SavedSearchSummary[] = [];
 
 interface SearchInterfaceProps {
   onResultsChange?: (results: any[]) => void;
@@ -34,15 +39,19 @@ const SearchInterface: React.FC<SearchInterfaceProps> = ({
     (state) => state.search
   );
   const { items: snippets } = useAppSelector((state) => state.snippets);
+  const savedSearches = useAppSelector(
+    (state) => state.savedSearches?.items ?? noSavedSearches
+  );
 
   // Local state
   const [isExpanded, setIsExpanded] = useState(!compact);
-  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
   const [showSaveDialog, setShowSaveDialog] = useState(false);
   const [saveSearchName, setSaveSearchName] = useState("");
   const [showSavedSearches, setShowSavedSearches] = useState(false);
   const [tagInput, setTagInput] = useState("");
   const [showHistory, setShowHistory] = useState(false);
+  const [cursor, setCursor] = useState(0);
+  const [showCompletions, setShowCompletions] = useState(false);
 
   // Debounced search
   const [searchTimeout, setSearchTimeout] = useState<NodeJS.Timeout | null>(
@@ -67,6 +76,19 @@ const SearchInterface: React.FC<SearchInterfaceProps> = ({
     return Array.from(categories).sort();
   }, [snippets]);
 
+  // The search box accepts the same syntax as the extension and the REST
+  // API, such as `lang:ts tag:react -tag:legacy "exact phrase"`
+  const parsedText = useMemo(() => parseQuery(query.text || ""), [query.text]);
+  const parseError = parsedText.success ? undefined : parsedText.error.message;
+
+  const completions = useMemo(
+    () =>
+      showCompletions && query.text
+        ? getQueryCompletions(query.text, snippets, cursor, 8)
+        : [],
+    [showCompletions, query.text, snippets, cursor]
+  );
+
   // Debounced search effect
   useEffect(() => {
     if (searchTimeout) {
@@ -74,8 +96,11 @@ const SearchInterface: React.FC<SearchInterfaceProps> = ({
     }
 
     const timeout = setTimeout(() => {
+      if (!parsedText.success) {
+        return;
+      }
       if (query.text || hasActiveFilters()) {
-        dispatch(searchSnippets(query));
+        dispatch(searchSnippets(compileQuery(parsedText.data)));
         if (query.text) {
           dispatch(addToHistory(query.text));
         }
@@ -89,7 +114,7 @@ const SearchInterface: React.FC<SearchInterfaceProps> = ({
         clearTimeout(timeout);
       }
     };
-  }, [query, dispatch]);
+  }, [query, parsedText, dispatch]);
 
   // Notify parent of results changes
   useEffect(() => {
@@ -98,24 +123,6 @@ const SearchInterface: React.FC<SearchInterfaceProps> = ({
     }
   }, [results, onResultsChange]);
 
-  // Load saved searches from localStorage
-  useEffect(() => {
-    const saved = localStorage.getItem("snippet-saved-searches");
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        setSavedSearches(
-          parsed.map((s: any) => ({
-            ...s,
-            createdAt: new Date(s.createdAt),
-          }))
-        );
-      } catch (error) {
-        console.error("Failed to load saved searches:", error);
-      }
-    }
-  }, []);
-
   const hasActiveFilters = useCallback(() => {
     return (
       query.language ||
@@ -127,8 +134,26 @@ const SearchInterface: React.FC<SearchInterfaceProps> = ({
     );
   }, [query]);
 
+  // Combine the parsed search text with the filter controls; the text
+  // itself has been compiled into filters
+  const compileQuery = (parsed: AdvancedSearchQuery): AdvancedSearchQuery => ({
+    ...query,
+    text: undefined,
+    language: parsed.language || query.language,
+    category: parsed.category || query.category,
+    source: parsed.source || query.source,
+    filters: parsed.filters,
+  });
+
   const handleTextChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     dispatch(updateQuery({ text: event.target.value }));
+    setCursor(event.target.selectionStart ?? event.target.value.length);
+    setShowCompletions(true);
+  };
+
+  const applyCompletion = (completedQuery: string) => {
+    dispatch(updateQuery({ text: completedQuery }));
+    setCursor(completedQuery.length);
   };
 
   const handleLanguageChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -200,39 +225,34 @@ const SearchInterface: React.FC<SearchInterfaceProps> = ({
     setTagInput("");
   };
 
-  const saveCurrentSearch = () => {
+  // Saved searches are kept with the library, so they are shared with the
+  // extension and other browsers
+  const saveCurrentSearch = async () => {
     if (!saveSearchName.trim()) return;
 
-    const newSavedSearch: SavedSearch = {
-      id: Date.now().toString(),
-      name: saveSearchName.trim(),
-      query: { ...query },
-      createdAt: new Date(),
-    };
-
-    const updatedSavedSearches = [...savedSearches, newSavedSearch];
-    setSavedSearches(updatedSavedSearches);
-    localStorage.setItem(
-      "snippet-saved-searches",
-      JSON.stringify(updatedSavedSearches)
-    );
-
-    setSaveSearchName("");
-    setShowSaveDialog(false);
+    try {
+      await dispatch(
+        createSavedSearch({ name: saveSearchName.trim(), query: { ...query } })
+      ).unwrap();
+      setSaveSearchName("");
+      setShowSaveDialog(false);
+    } catch (err) {
+      dispatch(
+        addNotification({
+          type: "error",
+          message: err instanceof Error ? err.message : "Failed to save search",
+        })
+      );
+    }
   };
 
-  const loadSavedSearch = (savedSearch: SavedSearch) => {
+  const loadSavedSearch = (savedSearch: SavedSearchSummary) => {
     dispatch(updateQuery(savedSearch.query));
     setShowSavedSearches(false);
   };
 
   const deleteSavedSearch = (id: string) => {
-    const updatedSavedSearches = savedSearches.filter((s) => s.id !== id);
-    setSavedSearches(updatedSavedSearches);
-    localStorage.setItem(
-      "snippet-saved-searches",
-      JSON.stringify(updatedSavedSearches)
-    );
+    dispatch(removeSavedSearch(id));
   };
 
   const loadFromHistory = (text: string) => {
@@ -263,9 +283,12 @@ const SearchInterface: React.FC<SearchInterfaceProps> = ({
         <div className="search-input-container">
           <Input
             type="text"
-            placeholder="Search snippets..."
+            placeholder='Search snippets, e.g. lang:ts tag:react "phrase"'
             value={query.text || ""}
             onChange={handleTextChange}
+            onBlur={() => setShowCompletions(false)}
+            error={parseError}
+            aria-label="Search snippets"
             className="search-input"
           />
           <div className="search-input-actions">
@@ -290,6 +313,29 @@ const SearchInterface: React.FC<SearchInterfaceProps> = ({
           </div>
         </div>
 
+        {completions.length > 0 && (
+          <ul className="search-completions" role="listbox">
+            {completions.map((completion) => (
+              <li key={completion.label}>
+                <button
+                  type="button"
+                  className="search-completion"
+                  // Keep the focus in the search box
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => applyCompletion(completion.query)}
+                >
+                  <span className="search-completion-label">
+                    {completion.label}
+                  </span>
+                  <span className="search-completion-description">
+                    {completion.description}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
         {showHistory && (
           <div className="search-history">
             <div className="search-history-header">
@@ -519,7 +565,12 @@ const SearchInterface: React.FC<SearchInterfaceProps> = ({
                   className="saved-search-button"
                   onClick={() => loadSavedSearch(savedSearch)}
                 >
-                  <div className="saved-search-name">{savedSearch.name}</div>
+                  <div className="saved-search-name">
+                    {savedSearch.name}
+                    <span className="saved-search-count">
+                      {savedSearch.count}
+                    </span>
+                  </div>
                   <div className="saved-search-details">
                     {savedSearch.query.text && (
                       <span>"{savedSearch.query.text}"</span>
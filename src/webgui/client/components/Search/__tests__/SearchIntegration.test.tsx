@@ -6,6 +6,7 @@ import { configureStore } from "@reduxjs/toolkit";
 import SearchInterface from "../SearchInterface";
 import searchSlice from "../../../store/slices/searchSlice";
 import snippetsSlice from "../../../store/slices/snippetsSlice";
+import savedSearchesSlice from "../../../store/slices/savedSearchesSlice";
 import { Snippet } from "../../../../types";
 
 // Mock API with realistic responses
@@ -13,6 +14,17 @@ const mockSearchAPI = jest.fn();
 jest.mock("../../../services/api", () => ({
   snippetAPI: {
     search: mockSearchAPI,
+    // Saved searches are kept by the server, which adds their counts
+    createSavedSearch: jest.fn(async (name: string, query: any) => ({
+      id: `saved-${name}`,
+      name,
+      query,
+      createdAt: new Date(),
+      lastUsed: new Date(),
+      useCount: 0,
+      count: 0,
+    })),
+    deleteSavedSearch: jest.fn(async () => undefined),
   },
 }));
 
@@ -72,6 +84,7 @@ const createTestStore = (initialState = {}) => {
     reducer: {
       search: searchSlice,
       snippets: snippetsSlice,
+      savedSearches: savedSearchesSlice,
     },
     preloadedState: {
       search: {
@@ -271,7 +284,9 @@ describe("SearchInterface Integration Tests", () => {
       expect(languageSelect).toHaveValue("");
 
       // Load saved search
-      const savedSearchesButton = screen.getByText(/Saved Searches \(1\)/);
+      const savedSearchesButton = await screen.findByText(
+        /Saved Searches \(1\)/
+      );
       await user.click(savedSearchesButton);
 
       const savedSearchItem = screen.getByText("React Hooks Frontend");
@@ -317,7 +332,9 @@ describe("SearchInterface Integration Tests", () => {
       await user.click(confirmButton);
 
       // Verify both searches are saved
-      const savedSearchesButton = screen.getByText(/Saved Searches \(2\)/);
+      const savedSearchesButton = await screen.findByText(
+        /Saved Searches \(2\)/
+      );
       await user.click(savedSearchesButton);
 
       expect(screen.getByText("Python Search")).toBeInTheDocument();
@@ -328,7 +345,9 @@ describe("SearchInterface Integration Tests", () => {
       await user.click(deleteButtons[0]);
 
       // Verify count updated
-      expect(screen.getByText(/Saved Searches \(1\)/)).toBeInTheDocument();
+      expect(
+        await screen.findByText(/Saved Searches \(1\)/)
+      ).toBeInTheDocument();
     });
   });
 
@@ -60,7 +60,7 @@ describe("SearchInterface Basic Tests", () => {
 
       // Check for saved search features
       expect(componentString).toContain("savedSearches");
-      expect(componentString).toContain("localStorage");
+      expect(componentString).toContain("createSavedSearch");
       expect(componentString).toContain("saveCurrentSearch");
     });
 
@@ -12,6 +12,7 @@ import { configureStore } from "@reduxjs/toolkit";
 import SearchInterface from "../SearchInterface";
 import searchSlice from "../../../store/slices/searchSlice";
 import snippetsSlice from "../../../store/slices/snippetsSlice";
+import savedSearchesSlice from "../../../store/slices/savedSearchesSlice";
 import { Snippet } from "../../../../types";
 import { expect } from "vitest";
 import { it } from "vitest";
@@ -104,6 +105,17 @@ import { describe } from "vitest";
 jest.mock("../../../services/api", () => ({
   snippetAPI: {
     search: jest.fn(),
+    // Saved searches are kept by the server, which adds their counts
+    createSavedSearch: jest.fn(async (name: string, query: any) => ({
+      id: `saved-${name}`,
+      name,
+      query,
+      createdAt: new Date(),
+      lastUsed: new Date(),
+      useCount: 0,
+      count: 0,
+    })),
+    deleteSavedSearch: jest.fn(async () => undefined),
   },
 }));
 
@@ -151,6 +163,7 @@ const createTestStore = (initialState = {}) => {
     reducer: {
       search: searchSlice,
       snippets: snippetsSlice,
+      savedSearches: savedSearchesSlice,
     },
     preloadedState: {
       search: {
@@ -552,25 +565,29 @@ describe("SearchInterface", () => {
       await user.click(confirmButton);
 
       // Should show saved searches button
-      expect(screen.getByText(/Saved Searches \(1\)/)).toBeInTheDocument();
+      expect(
+        await screen.findByText(/Saved Searches \(1\)/)
+      ).toBeInTheDocument();
     });
 
     it("loads saved search", async () => {
       const user = userEvent.setup();
 
-      // Pre-populate localStorage with saved search
+      // Saved searches are loaded from the server into the store
       const savedSearch = {
         id: "1",
         name: "React Search",
         query: { text: "react", language: "javascript" },
-        createdAt: new Date().toISOString(),
+        createdAt: new Date(),
+        lastUsed: new Date(),
+        useCount: 0,
+        count: 2,
       };
-      localStorage.setItem(
-        "snippet-saved-searches",
-        JSON.stringify([savedSearch])
-      );
+      const store = createTestStore({
+        savedSearches: { items: [savedSearch], loading: false, error: null },
+      });
 
-      renderWithStore(<SearchInterface />);
+      renderWithStore(<SearchInterface />, store);
 
       const savedSearchesButton = screen.getByText(/Saved Searches \(1\)/);
       await user.click(savedSearchesButton);
@@ -6,6 +6,7 @@ import { configureStore } from "@reduxjs/toolkit";
 import SearchInterface from "../SearchInterface";
 import searchSlice from "../../../store/slices/searchSlice";
 import snippetsSlice from "../../../store/slices/snippetsSlice";
+import savedSearchesSlice from "../../../store/slices/savedSearchesSlice";
 import { Snippet } from "../../../../types";
 
 // Mock the API with performance tracking
@@ -13,6 +14,17 @@ const mockSearchAPI = jest.fn();
 jest.mock("../../../services/api", () => ({
   snippetAPI: {
     search: mockSearchAPI,
+    // Saved searches are kept by the server, which adds their counts
+    createSavedSearch: jest.fn(async (name: string, query: any) => ({
+      id: `saved-${name}`,
+      name,
+      query,
+      createdAt: new Date(),
+      lastUsed: new Date(),
+      useCount: 0,
+      count: 0,
+    })),
+    deleteSavedSearch: jest.fn(async () => undefined),
   },
 }));
 
@@ -70,6 +82,7 @@ const createTestStore = (snippetCount: number = 1000) => {
     reducer: {
       search: searchSlice,
       snippets: snippetsSlice,
+      savedSearches: savedSearchesSlice,
     },
     preloadedState: {
       search: {
@@ -349,33 +362,37 @@ describe("SearchInterface Performance Tests", () => {
   });
 
   describe("Saved Search Performance", () => {
-    it("efficiently loads saved searches from localStorage", () => {
+    it("efficiently renders many saved searches", () => {
       // Create many saved searches
       const savedSearches = Array.from({ length: 50 }, (_, i) => ({
         id: `search-${i}`,
         name: `Search ${i}`,
         query: { text: `query-${i}` },
-        createdAt: new Date().toISOString(),
+        createdAt: new Date(),
+        lastUsed: new Date(),
+        useCount: 0,
+        count: i,
       }));
 
-      localStorage.setItem(
-        "snippet-saved-searches",
-        JSON.stringify(savedSearches)
-      );
+      const store = createTestStore();
+      store.dispatch({
+        type: "savedSearches/savedSearchesUpdated",
+        payload: savedSearches,
+      });
 
       const startTime = performance.now();
-      renderWithStore(<SearchInterface />);
+      renderWithStore(<SearchInterface />, store);
       const endTime = performance.now();
 
       const loadTime = endTime - startTime;
 
-      // Should load saved searches efficiently
+      // Should render saved searches efficiently
       expect(loadTime).toBeLessThan(100);
 
       expect(screen.getByText(/Saved Searches \(50\)/)).toBeInTheDocument();
     });
 
-    it("handles localStorage operations efficiently", async () => {
+    it("saves searches efficiently", async () => {
       const user = userEvent.setup();
 
       const store = createTestStore();
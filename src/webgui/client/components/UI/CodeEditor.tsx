@@ -1,6 +1,8 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
 import { vscDarkPlus } from "react-syntax-highlighter/dist/esm/styles/prism";
+import { SnippetVariable, TemplateField } from "../../../../types";
+import { getTemplateFields } from "../../../../core/template";
 import "./CodeEditor.css";
 
 interface CodeEditorProps {
@@ -11,6 +13,7 @@ interface CodeEditorProps {
   error?: string;
   label?: string;
   rows?: number;
+  variables?: SnippetVariable[];
 }
 
 const CodeEditor: React.FC<CodeEditorProps> = ({
@@ -21,10 +24,16 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
   error,
   label,
   rows = 10,
+  variables,
 }) => {
   const [isPreview, setIsPreview] = useState(false);
   const [lineNumbers, setLineNumbers] = useState(true);
 
+  const templateFields = useMemo(
+    () => getTemplateFields(value, variables),
+    [value, variables]
+  );
+
   const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     onChange(e.target.value);
   };
@@ -37,6 +46,18 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
     setLineNumbers(!lineNumbers);
   };
 
+  const describeField = (field: TemplateField): string => {
+    const label =
+      field.index !== undefined ? `$${field.index}` : `$${field.name}`;
+    if (field.builtin) {
+      return `${label} (built-in)`;
+    }
+    if (field.choices) {
+      return `${label}: ${field.choices.join(" | ")}`;
+    }
+    return field.defaultValue ? `${label}: ${field.defaultValue}` : label;
+  };
+
   // Get language for syntax highlighter (map common languages)
   const getSyntaxLanguage = (lang: string): string => {
     const languageMap: { [key: string]: string } = {
@@ -110,6 +131,27 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
             >
               {value || placeholder}
             </SyntaxHighlighter>
+            {templateFields.length > 0 && (
+              <div
+                className="code-editor-fields"
+                data-testid="code-editor-fields"
+              >
+                <span className="code-editor-fields-label">
+                  Template fields:
+                </span>
+                {templateFields.map((field) => (
+                  <span
+                    key={`${field.kind}-${field.key}`}
+                    className={`code-editor-field ${
+                      field.builtin ? "code-editor-field--builtin" : ""
+                    }`}
+                    title={field.description}
+                  >
+                    {describeField(field)}
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
         ) : (
           <textarea
@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAppDispatch } from "../../store/hooks";
+import { addNotification } from "../../store/slices/uiSlice";
+import { snippetAPI } from "../../services/api";
+import {
+  SnippetInterface,
+  UsageReport,
+  UsageSource,
+  UsageTrend,
+} from "../../../../types";
+import Select from "../../components/UI/Select";
+import TrendBars from "../../components/Charts/TrendBars";
+import "./AnalyticsPage.css";
+
+const periodOptions = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+];
+
+const staleOptions = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "180", label: "180 days" },
+];
+
+const sourceLabels: Record<UsageSource, string> = {
+  completion: "Completion",
+  insert: "Insert command",
+  quickInsert: "Quick insert",
+  webCopy: "Web GUI copy",
+  cli: "Command line",
+  unknown: "Other",
+};
+
+type Grouping = "snippets" | "languages" | "tags";
+
+const groupingOptions = [
+  { value: "snippets", label: "Snippets" },
+  { value: "languages", label: "Languages" },
+  { value: "tags", label: "Tags" },
+];
+
+type TrendRow = UsageTrend & {
+  key: string;
+  label: string;
+  name: React.ReactNode;
+};
+
+/**
+ * Rows of the trend table for a grouping, most used first
+ */
+const getTrendRows = (report: UsageReport, grouping: Grouping): TrendRow[] => {
+  switch (grouping) {
+    case "languages":
+      return report.languages.map((item) => ({
+        ...item,
+        key: item.language,
+        label: item.language,
+        name: item.language,
+      }));
+    case "tags":
+      return report.tags.map((item) => ({
+        ...item,
+        key: item.tag,
+        label: item.tag,
+        name: item.tag,
+      }));
+    default:
+      return report.snippets.map((item) => ({
+        ...item,
+        key: item.snippet.id,
+        label: item.snippet.title,
+        name: (
+          <Link to={`/snippets/${item.snippet.id}/edit`}>
+            {item.snippet.title}
+          </Link>
+        ),
+      }));
+  }
+};
+
+const formatLastUsed = (lastUsed?: Date | string) =>
+  lastUsed
+    ? `Last used ${new Date(lastUsed).toLocaleDateString()}`
+    : "Used before usage was recorded";
+
+const AnalyticsPage: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const [days, setDays] = useState("30");
+  const [staleDays, setStaleDays] = useState("90");
+  const [grouping, setGrouping] = useState<Grouping>("snippets");
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    snippetAPI
+      .getUsageReport({
+        days: parseInt(days, 10),
+        staleDays: parseInt(staleDays, 10),
+      })
+      .then((data) => {
+        if (!cancelled) {
+          setReport(data);
+        }
+      })
+      .catch((err) =>
+        dispatch(
+          addNotification({
+            type: "error",
+            message:
+              err instanceof Error ? err.message : "Failed to load usage",
+          })
+        )
+      )
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [dispatch, days, staleDays]);
+
+  const rows = report ? getTrendRows(report, grouping) : [];
+
+  const renderSnippetLink = (snippet: SnippetInterface) => (
+    <Link to={`/snippets/${snippet.id}/edit`}>{snippet.title}</Link>
+  );
+
+  return (
+    <div className="analytics-page" data-testid="analytics-page">
+      <div className="analytics-header">
+        <h2>Usage Analytics</h2>
+        <div className="analytics-controls">
+          <Select
+            label="Period"
+            value={days}
+            options={periodOptions}
+            onChange={(event) => setDays(event.target.value)}
+          />
+          <Select
+            label="Stale after"
+            value={staleDays}
+            options={staleOptions}
+            onChange={(event) => setStaleDays(event.target.value)}
+          />
+        </div>
+      </div>
+
+      {!report ? (
+        <p className="analytics-empty">
+          {loading ? "Loading usage..." : "No usage recorded yet."}
+        </p>
+      ) : (
+        <>
+          <section className="analytics-section analytics-summary">
+            <div>
+              <div className="analytics-total" data-testid="usage-total">
+                {report.total.total}
+              </div>
+              <div className="analytics-help">uses in the period</div>
+            </div>
+            <TrendBars
+              daily={report.total.daily}
+              days={report.days}
+              label="Uses per day"
+            />
+            <ul className="analytics-sources">
+              {Object.entries(report.sources).map(([source, count]) => (
+                <li key={source}>
+                  {sourceLabels[source as UsageSource] || source}:{" "}
+                  <strong>{count}</strong>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <section className="analytics-section">
+            <div className="analytics-section-header">
+              <h3>Trends</h3>
+              <Select
+                label="Group by"
+                value={grouping}
+                options={groupingOptions}
+                onChange={(event) =>
+                  setGrouping(event.target.value as Grouping)
+                }
+              />
+            </div>
+            {rows.length === 0 ? (
+              <p className="analytics-help">Nothing was used in the period.</p>
+            ) : (
+              <table className="analytics-table" data-testid="usage-trends">
+                <tbody>
+                  {rows.slice(0, 20).map((row) => (
+                    <tr key={row.key}>
+                      <td>{row.name}</td>
+                      <td className="analytics-count">{row.total}</td>
+                      <td className="analytics-trend">
+                        <TrendBars
+                          daily={row.daily}
+                          days={report.days}
+                          label={`Uses of ${row.label} per day`}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          <section className="analytics-section">
+            <h3>
+              Not used in {report.staleDays} days ({report.stale.length})
+            </h3>
+            <ul className="analytics-list" data-testid="stale-snippets">
+              {report.stale.map(({ snippet, lastUsed }) => (
+                <li key={snippet.id}>
+                  {renderSnippetLink(snippet)}
+                  <span className="analytics-help">
+                    {formatLastUsed(lastUsed)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <section className="analytics-section">
+            <h3>Never used ({report.neverUsed.length})</h3>
+            <ul className="analytics-list" data-testid="never-used-snippets">
+              {report.neverUsed.map((snippet) => (
+                <li key={snippet.id}>{renderSnippetLink(snippet)}</li>
+              ))}
+            </ul>
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsPage;
@@ -0,0 +1,125 @@
+import React from "react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { Provider } from "react-redux";
+import { MemoryRouter } from "react-router-dom";
+import { configureStore } from "@reduxjs/toolkit";
+import "@testing-library/jest-dom";
+import AnalyticsPage from "../AnalyticsPage";
+import snippetsReducer from "../../../store/slices/snippetsSlice";
+import uiReducer from "../../../store/slices/uiSlice";
+
+// Mock the API
+vi.mock("../../../services/api", () => ({
+  snippetAPI: {
+    getUsageReport: vi.fn(),
+  },
+}));
+
+const { snippetAPI } = await import("../../../services/api");
+const mockSnippetAPI = snippetAPI as any;
+
+const createSnippet = (id: string, language = "javascript") => ({
+  id,
+  title: `Snippet ${id}`,
+  description: "",
+  code: "console.log('hello')",
+  language,
+  tags: ["react"],
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+  usageCount: 0,
+});
+
+const report = {
+  start: "2024-03-29",
+  end: "2024-03-31",
+  days: ["2024-03-29", "2024-03-30", "2024-03-31"],
+  staleDays: 90,
+  total: { total: 3, daily: [1, 0, 2] },
+  sources: { completion: 2, webCopy: 1 },
+  snippets: [
+    { snippet: createSnippet("1"), total: 3, daily: [1, 0, 2] },
+  ],
+  languages: [{ language: "javascript", total: 3, daily: [1, 0, 2] }],
+  tags: [{ tag: "react", total: 3, daily: [1, 0, 2] }],
+  neverUsed: [createSnippet("2", "python")],
+  stale: [
+    { snippet: createSnippet("3"), lastUsed: "2023-10-01T00:00:00.000Z" },
+  ],
+};
+
+const renderPage = () => {
+  const store = configureStore({
+    reducer: {
+      snippets: snippetsReducer,
+      ui: uiReducer,
+    },
+    middleware: (getDefaultMiddleware) =>
+      getDefaultMiddleware({
+        serializableCheck: false, // Disable for tests
+      }),
+  });
+  render(
+    <Provider store={store}>
+      <MemoryRouter>
+        <AnalyticsPage />
+      </MemoryRouter>
+    </Provider>
+  );
+  return store;
+};
+
+describe("AnalyticsPage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSnippetAPI.getUsageReport.mockResolvedValue(report);
+  });
+
+  it("shows totals, sources and trends", async () => {
+    renderPage();
+
+    expect(await screen.findByTestId("usage-total")).toHaveTextContent("3");
+    expect(screen.getByText(/Completion/)).toBeInTheDocument();
+    expect(screen.getByText(/Web GUI copy/)).toBeInTheDocument();
+    expect(screen.getByTestId("usage-trends")).toHaveTextContent("Snippet 1");
+    expect(
+      screen.getByRole("img", { name: "Uses of Snippet 1 per day" })
+    ).toBeInTheDocument();
+    expect(mockSnippetAPI.getUsageReport).toHaveBeenCalledWith({
+      days: 30,
+      staleDays: 90,
+    });
+  });
+
+  it("lists stale and never used snippets", async () => {
+    renderPage();
+
+    expect(await screen.findByTestId("stale-snippets")).toHaveTextContent(
+      "Snippet 3"
+    );
+    expect(screen.getByTestId("never-used-snippets")).toHaveTextContent(
+      "Snippet 2"
+    );
+  });
+
+  it("groups trends and reloads for another period", async () => {
+    renderPage();
+    await screen.findByTestId("usage-trends");
+
+    fireEvent.change(screen.getByLabelText("Group by"), {
+      target: { value: "languages" },
+    });
+    expect(screen.getByTestId("usage-trends")).toHaveTextContent("javascript");
+
+    fireEvent.change(screen.getByLabelText("Period"), {
+      target: { value: "7" },
+    });
+    await waitFor(() =>
+      expect(mockSnippetAPI.getUsageReport).toHaveBeenLastCalledWith({
+        days: 7,
+        staleDays: 90,
+      })
+    );
+  });
+});
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from "react";
+import { NavLink, useNavigate, useParams } from "react-router-dom";
+import { useAppDispatch, useAppSelector } from "../../store/hooks";
+import {
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  addToCollection,
+  reorderCollection,
+  removeFromCollection,
+} from "../../store/slices/collectionsSlice";
+import { fetchSnippets } from "../../store/slices/snippetsSlice";
+import { addNotification } from "../../store/slices/uiSlice";
+import Button from "../../components/UI/Button";
+import Input from "../../components/UI/Input";
+import Select from "../../components/UI/Select";
+import CollectionDetail from "./components/CollectionDetail";
+import "./CollectionsPage.css";
+
+const CollectionsPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const dispatch = useAppDispatch();
+  const { items: collections, loading, error } = useAppSelector(
+    (state) => state.collections
+  );
+  const snippets = useAppSelector((state) => state.snippets.items);
+  const [name, setName] = useState("");
+  const [parentId, setParentId] = useState("");
+
+  useEffect(() => {
+    dispatch(fetchSnippets());
+  }, [dispatch]);
+
+  const selected = collections.find((collection) => collection.id === id);
+
+  // Subcollections are listed right below their parent
+  const topLevel = collections.filter((collection) => !collection.parentId);
+  const tree = topLevel.flatMap((parent) => [
+    parent,
+    ...collections.filter((collection) => collection.parentId === parent.id),
+  ]);
+
+  const notifyError = (err: unknown, fallback: string) => {
+    dispatch(
+      addNotification({
+        type: "error",
+        message: err instanceof Error ? err.message : fallback,
+      })
+    );
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      const created = await dispatch(
+        createCollection({ name, parentId: parentId || undefined })
+      ).unwrap();
+      setName("");
+      setParentId("");
+      navigate(`/collections/${encodeURIComponent(created.id)}`);
+    } catch (err) {
+      notifyError(err, "Failed to create collection");
+    }
+  };
+
+  const handleRename = async () => {
+    if (!selected) return;
+    const newName = window.prompt("Rename collection", selected.name);
+    if (!newName || newName === selected.name) {
+      return;
+    }
+
+    try {
+      await dispatch(
+        updateCollection({ id: selected.id, updates: { name: newName } })
+      ).unwrap();
+    } catch (err) {
+      notifyError(err, "Failed to rename collection");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    if (
+      !window.confirm(
+        `Delete the collection "${selected.name}" and its subcollections? ` +
+          "The snippets are kept."
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await dispatch(deleteCollection(selected.id)).unwrap();
+      navigate("/collections");
+    } catch (err) {
+      notifyError(err, "Failed to delete collection");
+    }
+  };
+
+  const handleChange = async (change: Promise<unknown>, fallback: string) => {
+    try {
+      await change;
+    } catch (err) {
+      notifyError(err, fallback);
+    }
+  };
+
+  const status = loading
+    ? "Loading collections..."
+    : id
+    ? "Collection not found."
+    : collections.length === 0
+    ? "No collections yet. Create one to keep snippets in your own order."
+    : "Select a collection to arrange its snippets.";
+
+  return (
+    <div className="collections-page" data-testid="collections-page">
+      <div className="collections-header">
+        <h2>Collections</h2>
+        <form className="collections-create" onSubmit={handleCreate}>
+          <Input
+            label="Name"
+            value={name}
+            placeholder="New collection"
+            onChange={(event) => setName(event.target.value)}
+          />
+          <Select
+            label="Inside"
+            value={parentId}
+            options={[
+              { value: "", label: "Top level" },
+              ...topLevel.map((collection) => ({
+                value: collection.id,
+                label: collection.name,
+              })),
+            ]}
+            onChange={(event) => setParentId(event.target.value)}
+          />
+          <Button type="submit" disabled={!name.trim()}>
+            Create
+          </Button>
+        </form>
+      </div>
+
+      {error && <p className="collections-error">{error}</p>}
+
+      <div className="collections-layout">
+        <ul className="collections-tree" data-testid="collections-tree">
+          {tree.map((collection) => (
+            <li key={collection.id}>
+              <NavLink
+                to={`/collections/${encodeURIComponent(collection.id)}`}
+                className={({ isActive }) =>
+                  `collections-tree-link ${
+                    collection.parentId ? "nested" : ""
+                  } ${isActive ? "active" : ""}`
+                }
+              >
+                <span>{collection.name}</span>
+                <span className="collections-tree-count">
+                  {collection.snippetIds.length}
+                </span>
+              </NavLink>
+            </li>
+          ))}
+        </ul>
+
+        <div className="collections-content">
+          {selected ? (
+            <CollectionDetail
+              collection={selected}
+              snippets={snippets}
+              onReorder={(snippetIds) =>
+                handleChange(
+                  dispatch(
+                    reorderCollection({ id: selected.id, snippetIds })
+                  ).unwrap(),
+                  "Failed to reorder snippets"
+                )
+              }
+              onAdd={(snippetId) =>
+                handleChange(
+                  dispatch(
+                    addToCollection({
+                      id: selected.id,
+                      snippetIds: [snippetId],
+                    })
+                  ).unwrap(),
+                  "Failed to add snippet"
+                )
+              }
+              onRemove={(snippetId) =>
+                handleChange(
+                  dispatch(
+                    removeFromCollection({ id: selected.id, snippetId })
+                  ).unwrap(),
+                  "Failed to remove snippet"
+                )
+              }
+              onRename={handleRename}
+              onDelete={handleDelete}
+            />
+          ) : (
+            <p className="collections-status">{status}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CollectionsPage;
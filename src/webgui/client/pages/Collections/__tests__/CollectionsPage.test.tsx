@@ -0,0 +1,184 @@
+import React from "react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { Provider } from "react-redux";
+import { MemoryRouter, Routes, Route } from "react-router-dom";
+import { configureStore } from "@reduxjs/toolkit";
+import "@testing-library/jest-dom";
+import CollectionsPage from "../CollectionsPage";
+import collectionsReducer from "../../../store/slices/collectionsSlice";
+import snippetsReducer from "../../../store/slices/snippetsSlice";
+import uiReducer from "../../../store/slices/uiSlice";
+import { SnippetCollection } from "../../../../../types";
+
+// Mock the API
+vi.mock("../../../services/api", () => ({
+  snippetAPI: {
+    getAll: vi.fn(),
+    createCollection: vi.fn(),
+    addToCollection: vi.fn(),
+    reorderCollection: vi.fn(),
+    removeFromCollection: vi.fn(),
+  },
+}));
+
+const { snippetAPI } = await import("../../../services/api");
+const mockSnippetAPI = snippetAPI as any;
+
+const createSnippet = (id: string, title: string) => ({
+  id,
+  title,
+  description: "",
+  code: "print('hello')",
+  language: "python",
+  tags: [],
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+  usageCount: 0,
+});
+
+const createCollectionItem = (
+  id: string,
+  name: string,
+  overrides: Partial<SnippetCollection> = {}
+): SnippetCollection => ({
+  id,
+  name,
+  snippetIds: [],
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+  ...overrides,
+});
+
+const collections = [
+  createCollectionItem("c-1", "Scripts", { snippetIds: ["a", "b", "c"] }),
+  createCollectionItem("c-2", "Setup", { parentId: "c-1" }),
+];
+
+const renderPage = (path: string) => {
+  const store = configureStore({
+    reducer: {
+      collections: collectionsReducer,
+      snippets: snippetsReducer,
+      ui: uiReducer,
+    },
+    middleware: (getDefaultMiddleware) =>
+      getDefaultMiddleware({
+        serializableCheck: false, // Disable for tests
+      }),
+  });
+  store.dispatch({
+    type: "collections/collectionsUpdated",
+    payload: collections,
+  });
+  render(
+    <Provider store={store}>
+      <MemoryRouter initialEntries={[path]}>
+        <Routes>
+          <Route path="/collections" element={<CollectionsPage />} />
+          <Route path="/collections/:id" element={<CollectionsPage />} />
+        </Routes>
+      </MemoryRouter>
+    </Provider>
+  );
+  return store;
+};
+
+describe("CollectionsPage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSnippetAPI.getAll.mockResolvedValue([
+      createSnippet("a", "Backup"),
+      createSnippet("b", "Deploy"),
+      createSnippet("c", "Clean up"),
+      createSnippet("d", "Lint"),
+    ]);
+  });
+
+  it("shows the snippets of a collection in their order", async () => {
+    renderPage("/collections/c-1");
+
+    const list = await screen.findByTestId("collection-snippets");
+    await waitFor(() => {
+      expect(list.querySelectorAll("li")).toHaveLength(3);
+    });
+    expect(
+      Array.from(list.querySelectorAll(".collection-snippet-title")).map(
+        (title) => title.textContent
+      )
+    ).toEqual(["Backup", "Deploy", "Clean up"]);
+    expect(screen.getByTestId("collections-tree")).toHaveTextContent("Setup");
+  });
+
+  it("moves a snippet down", async () => {
+    mockSnippetAPI.reorderCollection.mockResolvedValue({
+      ...collections[0],
+      snippetIds: ["b", "a", "c"],
+    });
+    const store = renderPage("/collections/c-1");
+
+    fireEvent.click(await screen.findByLabelText("Move Backup down"));
+
+    await waitFor(() => {
+      expect(mockSnippetAPI.reorderCollection).toHaveBeenCalledWith("c-1", [
+        "b",
+        "a",
+        "c",
+      ]);
+    });
+    await waitFor(() => {
+      expect(store.getState().collections.items[0].snippetIds).toEqual([
+        "b",
+        "a",
+        "c",
+      ]);
+    });
+  });
+
+  it("adds a snippet that is not in the collection", async () => {
+    mockSnippetAPI.addToCollection.mockResolvedValue({
+      ...collections[0],
+      snippetIds: ["a", "b", "c", "d"],
+    });
+    renderPage("/collections/c-1");
+    await screen.findByRole("option", { name: "Lint" });
+
+    fireEvent.change(screen.getByLabelText("Add snippet"), {
+      target: { value: "d" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Add" }));
+
+    await waitFor(() => {
+      expect(mockSnippetAPI.addToCollection).toHaveBeenCalledWith(
+        "c-1",
+        ["d"],
+        undefined
+      );
+    });
+  });
+
+  it("creates a collection inside another", async () => {
+    mockSnippetAPI.createCollection.mockResolvedValue(
+      createCollectionItem("c-3", "Teardown", { parentId: "c-1" })
+    );
+    renderPage("/collections");
+
+    fireEvent.change(screen.getByLabelText("Name"), {
+      target: { value: "Teardown" },
+    });
+    fireEvent.change(screen.getByLabelText("Inside"), {
+      target: { value: "c-1" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Create" }));
+
+    await waitFor(() => {
+      expect(mockSnippetAPI.createCollection).toHaveBeenCalledWith(
+        "Teardown",
+        { description: undefined, parentId: "c-1" }
+      );
+    });
+    expect(
+      await screen.findByTestId("collection-detail")
+    ).toHaveTextContent("Teardown");
+  });
+});
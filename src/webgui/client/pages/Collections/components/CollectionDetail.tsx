@@ -0,0 +1,151 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import Button from "../../../components/UI/Button";
+import Select from "../../../components/UI/Select";
+import { Snippet } from "../../../../types/Snippet";
+import { SnippetCollection } from "../../../../../types";
+import "./CollectionDetail.css";
+
+interface CollectionDetailProps {
+  collection: SnippetCollection;
+  snippets: Snippet[]; // All snippets of the library
+  onReorder: (snippetIds: string[]) => void;
+  onAdd: (snippetId: string) => void;
+  onRemove: (snippetId: string) => void;
+  onRename: () => void;
+  onDelete: () => void;
+}
+
+const CollectionDetail: React.FC<CollectionDetailProps> = ({
+  collection,
+  snippets,
+  onReorder,
+  onAdd,
+  onRemove,
+  onRename,
+  onDelete,
+}) => {
+  const [selectedId, setSelectedId] = useState("");
+
+  const snippetsById = new Map<string, Snippet>(
+    snippets.map((snippet) => [snippet.id, snippet])
+  );
+  const members = collection.snippetIds
+    .map((id) => snippetsById.get(id))
+    .filter((snippet): snippet is Snippet => !!snippet);
+  const available = snippets
+    .filter((snippet) => !collection.snippetIds.includes(snippet.id))
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  const move = (from: number, to: number) => {
+    const ids = members.map((snippet) => snippet.id);
+    const [moved] = ids.splice(from, 1);
+    ids.splice(to, 0, moved);
+    onReorder(ids);
+  };
+
+  const handleAdd = () => {
+    onAdd(selectedId);
+    setSelectedId("");
+  };
+
+  return (
+    <section className="collection-detail" data-testid="collection-detail">
+      <div className="collection-detail-header">
+        <div>
+          <h3>{collection.name}</h3>
+          {collection.description && (
+            <p className="collection-detail-description">
+              {collection.description}
+            </p>
+          )}
+        </div>
+        <div className="collection-detail-actions">
+          <Button variant="secondary" size="sm" onClick={onRename}>
+            Rename
+          </Button>
+          <Button variant="danger" size="sm" onClick={onDelete}>
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      {members.length === 0 ? (
+        <p className="collection-detail-empty">
+          No snippets in this collection yet.
+        </p>
+      ) : (
+        <ol className="collection-snippets" data-testid="collection-snippets">
+          {members.map((snippet, index) => (
+            <li
+              key={snippet.id}
+              className="collection-snippet"
+              data-testid={`collection-snippet-${snippet.id}`}
+            >
+              <span className="collection-snippet-position">{index + 1}</span>
+              <div className="collection-snippet-info">
+                <Link
+                  to={`/snippets/${snippet.id}/edit`}
+                  className="collection-snippet-title"
+                >
+                  {snippet.title}
+                </Link>
+                <span className="collection-snippet-meta">
+                  {snippet.language}
+                </span>
+              </div>
+              <div className="collection-snippet-actions">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-label={`Move ${snippet.title} up`}
+                  disabled={index === 0}
+                  onClick={() => move(index, index - 1)}
+                >
+                  ↑
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-label={`Move ${snippet.title} down`}
+                  disabled={index === members.length - 1}
+                  onClick={() => move(index, index + 1)}
+                >
+                  ↓
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-label={`Remove ${snippet.title}`}
+                  onClick={() => onRemove(snippet.id)}
+                >
+                  ✕
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="collection-add">
+        <Select
+          label="Add snippet"
+          value={selectedId}
+          options={[
+            { value: "", label: "Choose a snippet" },
+            ...available.map((snippet) => ({
+              value: snippet.id,
+              label: snippet.title,
+            })),
+          ]}
+          onChange={(event) => setSelectedId(event.target.value)}
+        />
+        <Button size="sm" disabled={!selectedId} onClick={handleAdd}>
+          Add
+        </Button>
+      </div>
+    </section>
+  );
+};
+
+export default CollectionDetail;
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from "react";
+import { useAppDispatch, useAppSelector } from "../../store/hooks";
+import {
+  fetchConflicts,
+  resolveConflict,
+  conflictDetected,
+  conflictResolved,
+} from "../../store/slices/conflictsSlice";
+import { fetchSnippets } from "../../store/slices/snippetsSlice";
+import { addNotification } from "../../store/slices/uiSlice";
+import { getSocket } from "../../services/socket";
+import ConflictResolver from "./components/ConflictResolver";
+import {
+  ConflictDetails,
+  ConflictFieldResolution,
+} from "../../../../types";
+import "./ConflictsPage.css";
+
+type ConflictUpdate =
+  | { action: "detected"; conflict: ConflictDetails; timestamp: string }
+  | { action: "resolved"; conflictId: string; timestamp: string };
+
+const ConflictsPage: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { items, loading, error, resolvingId } = useAppSelector(
+    (state) => state.conflicts
+  );
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    dispatch(fetchConflicts());
+
+    // Keep the list current while synchronization runs elsewhere
+    const socket = getSocket();
+    const handleUpdate = (update: ConflictUpdate) => {
+      if (update.action === "detected") {
+        dispatch(conflictDetected(update.conflict));
+      } else {
+        dispatch(conflictResolved(update.conflictId));
+      }
+    };
+    socket.on("conflictUpdate", handleUpdate);
+
+    return () => {
+      socket.off("conflictUpdate", handleUpdate);
+    };
+  }, [dispatch]);
+
+  const selected =
+    items.find((conflict) => conflict.id === selectedId) || items[0] || null;
+
+  const handleResolve = async (
+    id: string,
+    resolution: ConflictFieldResolution
+  ) => {
+    try {
+      await dispatch(resolveConflict({ id, resolution })).unwrap();
+      dispatch(fetchSnippets());
+      dispatch(
+        addNotification({
+          type: "success",
+          message: "Conflict resolved",
+        })
+      );
+    } catch (err) {
+      dispatch(
+        addNotification({
+          type: "error",
+          message:
+            err instanceof Error ? err.message : "Failed to resolve conflict",
+        })
+      );
+    }
+  };
+
+  return (
+    <div className="conflicts-page" data-testid="conflicts-page">
+      <h2>Conflicts</h2>
+
+      {loading && <p className="conflicts-status">Loading conflicts...</p>}
+      {error && <p className="conflicts-error">{error}</p>}
+      {!loading && !error && items.length === 0 && (
+        <p className="conflicts-status">
+          No pending conflicts. Both sides are in sync.
+        </p>
+      )}
+
+      {items.length > 0 && (
+        <div className="conflicts-layout">
+          <ul className="conflicts-list">
+            {items.map((conflict) => (
+              <li key={conflict.id}>
+                <button
+                  type="button"
+                  className={`conflicts-item ${
+                    selected?.id === conflict.id ? "conflicts-item--active" : ""
+                  }`}
+                  onClick={() => setSelectedId(conflict.id)}
+                  data-testid={`conflict-item-${conflict.id}`}
+                >
+                  <span className="conflicts-item-title">
+                    {conflict.localSnippet.title}
+                  </span>
+                  <span className="conflicts-item-meta">
+                    {conflict.source} ·{" "}
+                    {new Date(conflict.detectedAt).toLocaleString()}
+                  </span>
+                  <span
+                    className={`conflicts-item-severity conflicts-item-severity--${conflict.severity}`}
+                  >
+                    {conflict.severity}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {selected && (
+            <ConflictResolver
+              conflict={selected}
+              resolving={resolvingId === selected.id}
+              onResolve={(resolution) =>
+                handleResolve(selected.id, resolution)
+              }
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConflictsPage;
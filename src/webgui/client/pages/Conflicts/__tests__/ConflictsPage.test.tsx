@@ -0,0 +1,180 @@
+import React from "react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { render, screen, fireEvent, waitFor, act } from "@testing-library/react";
+import { Provider } from "react-redux";
+import { configureStore } from "@reduxjs/toolkit";
+import "@testing-library/jest-dom";
+import ConflictsPage from "../ConflictsPage";
+import conflictsReducer from "../../../store/slices/conflictsSlice";
+import snippetsReducer from "../../../store/slices/snippetsSlice";
+import uiReducer from "../../../store/slices/uiSlice";
+import { ConflictDetails } from "../../../../../types";
+
+// Mock the API
+vi.mock("../../../services/api", () => ({
+  snippetAPI: {
+    getAll: vi.fn().mockResolvedValue([]),
+    getConflicts: vi.fn(),
+    resolveConflict: vi.fn(),
+  },
+}));
+
+// Capture live update handlers registered on the socket
+const socketHandlers: Record<string, (data: any) => void> = {};
+vi.mock("../../../services/socket", () => ({
+  getSocket: () => ({
+    on: (event: string, handler: (data: any) => void) => {
+      socketHandlers[event] = handler;
+    },
+    off: vi.fn(),
+  }),
+}));
+
+const { snippetAPI } = await import("../../../services/api");
+const mockSnippetAPI = snippetAPI as any;
+
+const snippet = {
+  id: "snippet-1",
+  title: "Fetch JSON",
+  description: "Fetch a URL",
+  code: "fetch(url);",
+  language: "javascript",
+  tags: ["http"],
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+  usageCount: 0,
+};
+
+const conflict: ConflictDetails = {
+  id: "conflict-1",
+  snippetId: "snippet-1",
+  type: "content",
+  source: "git",
+  severity: "medium",
+  autoResolvable: false,
+  detectedAt: new Date("2024-01-02"),
+  localSnippet: snippet,
+  remoteSnippet: { ...snippet, code: "fetch(url).then(parse);", tags: [] },
+  fields: [
+    {
+      field: "code",
+      local: "fetch(url);",
+      remote: "fetch(url).then(parse);",
+      diff: [
+        { type: "removed", content: "fetch(url);", oldLineNumber: 1 },
+        { type: "added", content: "fetch(url).then(parse);", newLineNumber: 1 },
+      ],
+    },
+    { field: "tags", local: ["http"], remote: [] },
+  ],
+};
+
+const renderPage = () => {
+  const store = configureStore({
+    reducer: {
+      conflicts: conflictsReducer,
+      snippets: snippetsReducer,
+      ui: uiReducer,
+    },
+    middleware: (getDefaultMiddleware) =>
+      getDefaultMiddleware({
+        serializableCheck: false, // Disable for tests
+      }),
+  });
+  render(
+    <Provider store={store}>
+      <ConflictsPage />
+    </Provider>
+  );
+  return store;
+};
+
+describe("ConflictsPage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSnippetAPI.getConflicts.mockResolvedValue([conflict]);
+    mockSnippetAPI.resolveConflict.mockResolvedValue(snippet);
+  });
+
+  it("shows local and remote versions side by side", async () => {
+    renderPage();
+
+    expect(await screen.findByTestId("conflict-resolver")).toBeInTheDocument();
+    expect(screen.getByTestId("conflict-code-local")).toHaveTextContent(
+      "fetch(url);"
+    );
+    expect(screen.getByTestId("conflict-code-remote")).toHaveTextContent(
+      "fetch(url).then(parse);"
+    );
+    expect(screen.getByTestId("conflict-tags-local")).toHaveTextContent(
+      "http"
+    );
+    expect(screen.getByTestId("conflict-tags-remote")).toHaveTextContent(
+      "(empty)"
+    );
+  });
+
+  it("resolves with the fields picked per side", async () => {
+    const store = renderPage();
+    await screen.findByTestId("conflict-resolver");
+
+    fireEvent.click(
+      screen.getByTestId("conflict-code-remote").querySelector("input")!
+    );
+    fireEvent.click(screen.getByTestId("conflict-resolve"));
+
+    await waitFor(() => {
+      expect(mockSnippetAPI.resolveConflict).toHaveBeenCalledWith(
+        "conflict-1",
+        { fields: { code: "remote" } }
+      );
+    });
+    await waitFor(() => {
+      expect(store.getState().conflicts.items).toEqual([]);
+    });
+  });
+
+  it("sends an edited merged result", async () => {
+    renderPage();
+    await screen.findByTestId("conflict-resolver");
+
+    fireEvent.click(screen.getByText("Use all remote"));
+    fireEvent.click(screen.getByTestId("conflict-edit-toggle"));
+    const editor = screen.getByDisplayValue("fetch(url).then(parse);");
+    fireEvent.change(editor, { target: { value: "merged();" } });
+    fireEvent.click(screen.getByTestId("conflict-resolve"));
+
+    await waitFor(() => {
+      expect(mockSnippetAPI.resolveConflict).toHaveBeenCalledWith(
+        "conflict-1",
+        {
+          fields: { code: "remote", tags: "remote" },
+          merged: { code: "merged();" },
+        }
+      );
+    });
+  });
+
+  it("updates the list from live conflict events", async () => {
+    mockSnippetAPI.getConflicts.mockResolvedValue([]);
+    renderPage();
+    expect(
+      await screen.findByText("No pending conflicts. Both sides are in sync.")
+    ).toBeInTheDocument();
+
+    act(() => {
+      socketHandlers.conflictUpdate({ action: "detected", conflict });
+    });
+    expect(screen.getByTestId("conflict-item-conflict-1")).toBeInTheDocument();
+
+    act(() => {
+      socketHandlers.conflictUpdate({
+        action: "resolved",
+        conflictId: "conflict-1",
+      });
+    });
+    expect(
+      screen.queryByTestId("conflict-item-conflict-1")
+    ).not.toBeInTheDocument();
+  });
+});
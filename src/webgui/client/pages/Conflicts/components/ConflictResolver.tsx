@@ -0,0 +1,217 @@
+import React, { useState, useEffect } from "react";
+import Button from "../../../components/UI/Button";
+import CodeEditor from "../../../components/UI/CodeEditor";
+import {
+  ConflictDetails,
+  ConflictFieldDiff,
+  ConflictFieldResolution,
+  DiffLine,
+  SnippetData,
+} from "../../../../../types";
+import "./ConflictResolver.css";
+
+type Side = "local" | "remote";
+
+interface ConflictResolverProps {
+  conflict: ConflictDetails;
+  resolving?: boolean;
+  onResolve: (resolution: ConflictFieldResolution) => void;
+}
+
+const formatValue = (value: unknown): string => {
+  const text = Array.isArray(value)
+    ? value
+        .map((item) =>
+          typeof item === "object" ? JSON.stringify(item) : String(item)
+        )
+        .join(", ")
+    : value === undefined || value === null
+    ? ""
+    : String(value);
+  return text || "(empty)";
+};
+
+const ConflictResolver: React.FC<ConflictResolverProps> = ({
+  conflict,
+  resolving = false,
+  onResolve,
+}) => {
+  const [choices, setChoices] = useState<
+    Partial<Record<keyof SnippetData, Side>>
+  >({});
+  const [editing, setEditing] = useState(false);
+  // Edited values of the text fields, such as code and description
+  const [merged, setMerged] = useState<Record<string, string>>({});
+
+  // Start over when another conflict is shown
+  useEffect(() => {
+    setChoices({});
+    setEditing(false);
+    setMerged({});
+  }, [conflict.id]);
+
+  // Only text fields can be edited by hand
+  const textFields = conflict.fields.filter((field) => field.diff);
+
+  const chosenSide = (field: keyof SnippetData): Side =>
+    choices[field] || "local";
+
+  const chooseAll = (side: Side) => {
+    setChoices(
+      Object.fromEntries(conflict.fields.map((field) => [field.field, side]))
+    );
+  };
+
+  const startEditing = (checked: boolean) => {
+    setEditing(checked);
+    if (checked) {
+      // Begin from the versions picked so far
+      setMerged(
+        Object.fromEntries(
+          textFields.map((field) => [
+            field.field,
+            String(field[chosenSide(field.field)] || ""),
+          ])
+        )
+      );
+    }
+  };
+
+  const handleResolve = () => {
+    onResolve({
+      fields: choices,
+      ...(editing && { merged: merged as Partial<SnippetData> }),
+    });
+  };
+
+  const renderLines = (lines: DiffLine[], hidden: DiffLine["type"]) => (
+    <pre className="conflict-diff-code">
+      {lines
+        .filter((line) => line.type !== hidden)
+        .map((line, index) => (
+          <div
+            key={index}
+            className={`conflict-diff-line conflict-diff-line--${line.type}`}
+          >
+            {line.content || " "}
+          </div>
+        ))}
+    </pre>
+  );
+
+  const renderSide = (field: ConflictFieldDiff, side: Side) => (
+    <label
+      className={`conflict-side ${
+        chosenSide(field.field) === side ? "conflict-side--chosen" : ""
+      }`}
+      data-testid={`conflict-${field.field}-${side}`}
+    >
+      <span className="conflict-side-header">
+        <input
+          type="radio"
+          name={`conflict-${conflict.id}-${field.field}`}
+          checked={chosenSide(field.field) === side}
+          disabled={editing && Boolean(field.diff)}
+          onChange={() => setChoices({ ...choices, [field.field]: side })}
+        />
+        {side === "local" ? "Local" : "Remote"}
+      </span>
+      {field.diff ? (
+        renderLines(field.diff, side === "local" ? "added" : "removed")
+      ) : (
+        <div className="conflict-side-value">
+          {formatValue(field[side])}
+        </div>
+      )}
+    </label>
+  );
+
+  return (
+    <div className="conflict-resolver" data-testid="conflict-resolver">
+      <div className="conflict-resolver-header">
+        <h3>{conflict.localSnippet.title}</h3>
+        <div className="conflict-resolver-actions">
+          <Button
+            size="sm"
+            variant="secondary"
+            type="button"
+            onClick={() => chooseAll("local")}
+          >
+            Use all local
+          </Button>
+          <Button
+            size="sm"
+            variant="secondary"
+            type="button"
+            onClick={() => chooseAll("remote")}
+          >
+            Use all remote
+          </Button>
+        </div>
+      </div>
+
+      {conflict.fields.length === 0 && (
+        <p className="conflict-resolver-status">
+          Both versions have the same content.
+        </p>
+      )}
+
+      {conflict.fields.map((field) => (
+        <div key={field.field} className="conflict-field">
+          <strong className="conflict-field-name">{field.field}</strong>
+          <div className="conflict-field-sides">
+            {renderSide(field, "local")}
+            {renderSide(field, "remote")}
+          </div>
+        </div>
+      ))}
+
+      {textFields.length > 0 && (
+        <label className="conflict-edit-toggle">
+          <input
+            type="checkbox"
+            checked={editing}
+            onChange={(e) => startEditing(e.target.checked)}
+            data-testid="conflict-edit-toggle"
+          />
+          Edit the merged result
+        </label>
+      )}
+
+      {editing &&
+        textFields.map((field) =>
+          field.field === "code" ? (
+            <CodeEditor
+              key={field.field}
+              label="Merged code"
+              value={merged.code || ""}
+              onChange={(value) => setMerged({ ...merged, code: value })}
+              language={conflict.localSnippet.language}
+            />
+          ) : (
+            <label key={field.field} className="conflict-merged-text">
+              Merged {field.field}
+              <textarea
+                value={merged[field.field] || ""}
+                onChange={(e) =>
+                  setMerged({ ...merged, [field.field]: e.target.value })
+                }
+                rows={3}
+              />
+            </label>
+          )
+        )}
+
+      <Button
+        type="button"
+        loading={resolving}
+        onClick={handleResolve}
+        data-testid="conflict-resolve"
+      >
+        Resolve
+      </Button>
+    </div>
+  );
+};
+
+export default ConflictResolver;
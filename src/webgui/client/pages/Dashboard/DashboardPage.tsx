@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAppDispatch } from "../../store/hooks";
+import { addNotification } from "../../store/slices/uiSlice";
+import { snippetAPI } from "../../services/api";
+import {
+  LibraryDashboard,
+  LibraryHealthKind,
+  SnippetInterface,
+} from "../../../../types";
+import CountBars from "../../components/Charts/CountBars";
+import TrendBars from "../../components/Charts/TrendBars";
+import "./DashboardPage.css";
+
+// Snippets listed under each health warning before "and N more"
+const WARNING_PREVIEW = 5;
+
+const warningLinks: Partial<Record<LibraryHealthKind, string>> = {
+  duplicates: "/duplicates",
+};
+
+const DashboardPage: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const [dashboard, setDashboard] = useState<LibraryDashboard | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    snippetAPI
+      .getDashboard()
+      .then((data) => {
+        if (!cancelled) {
+          setDashboard(data);
+        }
+      })
+      .catch((err) =>
+        dispatch(
+          addNotification({
+            type: "error",
+            message:
+              err instanceof Error ? err.message : "Failed to load dashboard",
+          })
+        )
+      )
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [dispatch]);
+
+  const renderSnippetList = (
+    snippets: SnippetInterface[],
+    testId: string,
+    detail: (snippet: SnippetInterface) => string
+  ) =>
+    snippets.length === 0 ? (
+      <p className="dashboard-help">No snippets yet.</p>
+    ) : (
+      <ul className="dashboard-list" data-testid={testId}>
+        {snippets.map((snippet) => (
+          <li key={snippet.id}>
+            <Link to={`/snippets/${snippet.id}/edit`}>{snippet.title}</Link>
+            <span className="dashboard-help">{detail(snippet)}</span>
+          </li>
+        ))}
+      </ul>
+    );
+
+  const formatDate = (date: Date | string) =>
+    new Date(date).toLocaleDateString();
+
+  if (!dashboard) {
+    return (
+      <div className="dashboard-page" data-testid="dashboard-page">
+        <h2>Dashboard</h2>
+        <p className="dashboard-help">
+          {loading ? "Loading dashboard..." : "The dashboard is unavailable."}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="dashboard-page" data-testid="dashboard-page">
+      <h2>Dashboard</h2>
+
+      <section className="dashboard-summary">
+        <div className="dashboard-stat">
+          <div className="dashboard-stat-value" data-testid="dashboard-total">
+            {dashboard.total}
+          </div>
+          <div className="dashboard-help">snippets</div>
+        </div>
+        <div className="dashboard-stat">
+          <div className="dashboard-stat-value" data-testid="dashboard-usage">
+            {dashboard.totalUsage}
+          </div>
+          <div className="dashboard-help">uses</div>
+        </div>
+        <div className="dashboard-stat">
+          <div className="dashboard-stat-value">
+            {dashboard.languages.length}
+          </div>
+          <div className="dashboard-help">languages</div>
+        </div>
+      </section>
+
+      {dashboard.health.length > 0 && (
+        <section
+          className="dashboard-section dashboard-health"
+          data-testid="health-warnings"
+        >
+          <div className="dashboard-section-header">
+            <h3>Library Health</h3>
+            <Link to="/lint">Lint the library</Link>
+          </div>
+          {dashboard.health.map((warning) => (
+            <div key={warning.kind} className="dashboard-warning">
+              <strong>⚠️ {warning.message}</strong>
+              {warningLinks[warning.kind] && (
+                <Link to={warningLinks[warning.kind] as string}>Review</Link>
+              )}
+              <ul className="dashboard-warning-snippets">
+                {warning.snippets.slice(0, WARNING_PREVIEW).map((snippet) => (
+                  <li key={snippet.id}>
+                    <Link to={`/snippets/${snippet.id}/edit`}>
+                      {snippet.title}
+                    </Link>
+                  </li>
+                ))}
+                {warning.snippets.length > WARNING_PREVIEW && (
+                  <li className="dashboard-help">
+                    and {warning.snippets.length - WARNING_PREVIEW} more
+                  </li>
+                )}
+              </ul>
+            </div>
+          ))}
+        </section>
+      )}
+
+      <div className="dashboard-grid">
+        <section className="dashboard-section">
+          <h3>Languages</h3>
+          <CountBars
+            items={dashboard.languages}
+            label="Snippets per language"
+          />
+        </section>
+        <section className="dashboard-section">
+          <h3>Categories</h3>
+          <CountBars
+            items={dashboard.categories}
+            label="Snippets per category"
+            emptyText="No categories yet"
+          />
+        </section>
+        <section className="dashboard-section">
+          <h3>Tags</h3>
+          <CountBars
+            items={dashboard.tags}
+            label="Snippets per tag"
+            emptyText="No tags yet"
+          />
+        </section>
+        <section className="dashboard-section">
+          <h3>Growth</h3>
+          <TrendBars
+            daily={dashboard.growth.map((point) => point.added)}
+            days={dashboard.growth.map((point) => point.month)}
+            label="Snippets added per month"
+            unit="added"
+          />
+          <p className="dashboard-help" data-testid="dashboard-growth">
+            {dashboard.growth.reduce((sum, point) => sum + point.added, 0)}{" "}
+            added in the last {dashboard.growth.length} months
+          </p>
+        </section>
+        <section className="dashboard-section">
+          <h3>Recently Added</h3>
+          {renderSnippetList(
+            dashboard.recentlyCreated,
+            "recently-created",
+            (snippet) => formatDate(snippet.createdAt)
+          )}
+        </section>
+        <section className="dashboard-section">
+          <h3>Recently Updated</h3>
+          {renderSnippetList(
+            dashboard.recentlyUpdated,
+            "recently-updated",
+            (snippet) => formatDate(snippet.updatedAt)
+          )}
+        </section>
+        <section className="dashboard-section">
+          <h3>Most Used</h3>
+          {renderSnippetList(
+            dashboard.mostUsed,
+            "most-used",
+            (snippet) => `${snippet.usageCount} uses`
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default DashboardPage;
@@ -0,0 +1,135 @@
+import React from "react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { Provider } from "react-redux";
+import { MemoryRouter } from "react-router-dom";
+import { configureStore } from "@reduxjs/toolkit";
+import "@testing-library/jest-dom";
+import DashboardPage from "../DashboardPage";
+import snippetsReducer from "../../../store/slices/snippetsSlice";
+import uiReducer from "../../../store/slices/uiSlice";
+
+// Mock the API
+vi.mock("../../../services/api", () => ({
+  snippetAPI: {
+    getDashboard: vi.fn(),
+  },
+}));
+
+const { snippetAPI } = await import("../../../services/api");
+const mockSnippetAPI = snippetAPI as any;
+
+const createSnippet = (id: string, usageCount = 0) => ({
+  id,
+  title: `Snippet ${id}`,
+  description: "",
+  code: "console.log('hello')",
+  language: "javascript",
+  tags: [],
+  createdAt: new Date("2024-03-01"),
+  updatedAt: new Date("2024-03-02"),
+  usageCount,
+});
+
+const dashboard = {
+  total: 8,
+  totalUsage: 12,
+  languages: [
+    { name: "javascript", count: 6 },
+    { name: "python", count: 2 },
+  ],
+  categories: [{ name: "backend", count: 3 }],
+  tags: [],
+  recentlyCreated: [createSnippet("new")],
+  recentlyUpdated: [createSnippet("edited")],
+  mostUsed: [createSnippet("popular", 12)],
+  growth: [
+    { month: "2024-02", added: 1, total: 6 },
+    { month: "2024-03", added: 2, total: 8 },
+  ],
+  health: [
+    {
+      kind: "untagged",
+      message: "7 snippets have no tags",
+      snippets: ["1", "2", "3", "4", "5", "6", "7"].map((id) =>
+        createSnippet(id)
+      ),
+    },
+    {
+      kind: "duplicates",
+      message: "1 snippet duplicates another snippet",
+      snippets: [createSnippet("copy")],
+    },
+  ],
+};
+
+const renderPage = () => {
+  const store = configureStore({
+    reducer: {
+      snippets: snippetsReducer,
+      ui: uiReducer,
+    },
+    middleware: (getDefaultMiddleware) =>
+      getDefaultMiddleware({
+        serializableCheck: false, // Disable for tests
+      }),
+  });
+  render(
+    <Provider store={store}>
+      <MemoryRouter>
+        <DashboardPage />
+      </MemoryRouter>
+    </Provider>
+  );
+  return store;
+};
+
+describe("DashboardPage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSnippetAPI.getDashboard.mockResolvedValue(dashboard);
+  });
+
+  it("shows totals and counts per language and category", async () => {
+    renderPage();
+
+    expect(await screen.findByTestId("dashboard-total")).toHaveTextContent(
+      "8"
+    );
+    expect(screen.getByTestId("dashboard-usage")).toHaveTextContent("12");
+    expect(
+      screen.getByRole("list", { name: "Snippets per language" })
+    ).toHaveTextContent("python");
+    expect(
+      screen.getByRole("list", { name: "Snippets per category" })
+    ).toHaveTextContent("backend");
+    expect(screen.getByText("No tags yet")).toBeInTheDocument();
+  });
+
+  it("shows growth and snippet lists", async () => {
+    renderPage();
+
+    expect(await screen.findByTestId("dashboard-growth")).toHaveTextContent(
+      "3 added in the last 2 months"
+    );
+    expect(screen.getByTestId("recently-created")).toHaveTextContent(
+      "Snippet new"
+    );
+    expect(screen.getByTestId("recently-updated")).toHaveTextContent(
+      "Snippet edited"
+    );
+    expect(screen.getByTestId("most-used")).toHaveTextContent("12 uses");
+  });
+
+  it("shows health warnings with a preview of affected snippets", async () => {
+    renderPage();
+
+    const warnings = await screen.findByTestId("health-warnings");
+    expect(warnings).toHaveTextContent("7 snippets have no tags");
+    expect(warnings).toHaveTextContent("and 2 more");
+    expect(screen.getByRole("link", { name: "Review" })).toHaveAttribute(
+      "href",
+      "/duplicates"
+    );
+  });
+});
@@ -0,0 +1,130 @@
+import React, { useEffect } from "react";
+import { useAppDispatch, useAppSelector } from "../../store/hooks";
+import {
+  fetchDuplicates,
+  mergeDuplicates,
+  deleteDuplicates,
+  setThreshold,
+} from "../../store/slices/duplicatesSlice";
+import { fetchSnippets } from "../../store/slices/snippetsSlice";
+import { addNotification } from "../../store/slices/uiSlice";
+import Select from "../../components/UI/Select";
+import DuplicateGroupCard from "./components/DuplicateGroupCard";
+import "./DuplicatesPage.css";
+
+const thresholdOptions = [
+  { value: "1", label: "Same code only" },
+  { value: "0.95", label: "Nearly identical (95%)" },
+  { value: "0.85", label: "Very similar (85%)" },
+  { value: "0.7", label: "Similar (70%)" },
+];
+
+const DuplicatesPage: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { groups, threshold, loading, error, pendingGroupId } =
+    useAppSelector((state) => state.duplicates);
+
+  useEffect(() => {
+    dispatch(fetchDuplicates(threshold));
+  }, [dispatch, threshold]);
+
+  const notifyError = (err: unknown, fallback: string) => {
+    dispatch(
+      addNotification({
+        type: "error",
+        message: err instanceof Error ? err.message : fallback,
+      })
+    );
+  };
+
+  const handleMerge = async (
+    groupId: string,
+    targetId: string,
+    sourceIds: string[]
+  ) => {
+    if (
+      !window.confirm(
+        `Merge ${sourceIds.length} snippets into the kept snippet? ` +
+          "The merged snippets will be deleted."
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const { snippet } = await dispatch(
+        mergeDuplicates({ groupId, targetId, sourceIds })
+      ).unwrap();
+      dispatch(fetchSnippets());
+      dispatch(
+        addNotification({
+          type: "success",
+          message: `Merged ${sourceIds.length} snippets into "${snippet.title}"`,
+        })
+      );
+    } catch (err) {
+      notifyError(err, "Failed to merge duplicates");
+    }
+  };
+
+  const handleDelete = async (groupId: string, ids: string[]) => {
+    if (!window.confirm(`Delete ${ids.length} duplicate snippets?`)) {
+      return;
+    }
+
+    try {
+      const { deleted } = await dispatch(
+        deleteDuplicates({ groupId, ids })
+      ).unwrap();
+      dispatch(fetchSnippets());
+      dispatch(
+        addNotification({
+          type: deleted.length === ids.length ? "success" : "warning",
+          message: `Deleted ${deleted.length} of ${ids.length} snippets`,
+        })
+      );
+    } catch (err) {
+      notifyError(err, "Failed to delete duplicates");
+    }
+  };
+
+  return (
+    <div className="duplicates-page" data-testid="duplicates-page">
+      <div className="duplicates-header">
+        <h2>Duplicates</h2>
+        <Select
+          label="Match"
+          value={String(threshold)}
+          options={thresholdOptions}
+          onChange={(event) =>
+            dispatch(setThreshold(parseFloat(event.target.value)))
+          }
+        />
+      </div>
+
+      {loading && (
+        <p className="duplicates-status">Looking for duplicates...</p>
+      )}
+      {error && <p className="duplicates-error">{error}</p>}
+      {!loading && !error && groups.length === 0 && (
+        <p className="duplicates-status">No duplicate snippets found.</p>
+      )}
+
+      <div className="duplicates-list">
+        {groups.map((group) => (
+          <DuplicateGroupCard
+            key={group.id}
+            group={group}
+            pending={pendingGroupId === group.id}
+            onMerge={(targetId, sourceIds) =>
+              handleMerge(group.id, targetId, sourceIds)
+            }
+            onDelete={(ids) => handleDelete(group.id, ids)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DuplicatesPage;
@@ -0,0 +1,138 @@
+import React from "react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { Provider } from "react-redux";
+import { configureStore } from "@reduxjs/toolkit";
+import "@testing-library/jest-dom";
+import DuplicatesPage from "../DuplicatesPage";
+import duplicatesReducer from "../../../store/slices/duplicatesSlice";
+import snippetsReducer from "../../../store/slices/snippetsSlice";
+import uiReducer from "../../../store/slices/uiSlice";
+import { DuplicateGroup } from "../../../../../types";
+
+// Mock the API
+vi.mock("../../../services/api", () => ({
+  snippetAPI: {
+    getAll: vi.fn().mockResolvedValue([]),
+    getDuplicates: vi.fn(),
+    mergeDuplicates: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+const { snippetAPI } = await import("../../../services/api");
+const mockSnippetAPI = snippetAPI as any;
+
+const createSnippet = (id: string, title: string, usageCount: number) => ({
+  id,
+  title,
+  description: "",
+  code: "const response = await fetch(url);",
+  language: "javascript",
+  tags: ["http"],
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+  usageCount,
+});
+
+const group: DuplicateGroup = {
+  id: "duplicates-a",
+  snippets: [
+    createSnippet("b", "Fetch URL", 5),
+    createSnippet("a", "Fetch JSON", 2),
+    createSnippet("c", "Get data", 0),
+  ],
+  similarity: 0.9,
+  exact: false,
+};
+
+const renderPage = () => {
+  const store = configureStore({
+    reducer: {
+      duplicates: duplicatesReducer,
+      snippets: snippetsReducer,
+      ui: uiReducer,
+    },
+    middleware: (getDefaultMiddleware) =>
+      getDefaultMiddleware({
+        serializableCheck: false, // Disable for tests
+      }),
+  });
+  render(
+    <Provider store={store}>
+      <DuplicatesPage />
+    </Provider>
+  );
+  return store;
+};
+
+describe("DuplicatesPage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(window, "confirm").mockReturnValue(true);
+    mockSnippetAPI.getDuplicates.mockResolvedValue([group]);
+    mockSnippetAPI.mergeDuplicates.mockResolvedValue(group.snippets[1]);
+    mockSnippetAPI.delete.mockResolvedValue(undefined);
+  });
+
+  it("shows each group with its similarity", async () => {
+    renderPage();
+
+    const card = await screen.findByTestId("duplicate-group-duplicates-a");
+    expect(card).toHaveTextContent("3 snippets · 90% similar");
+    expect(card).toHaveTextContent("Fetch URL");
+    expect(card).toHaveTextContent("used 5 times");
+    expect(mockSnippetAPI.getDuplicates).toHaveBeenCalledWith(0.85);
+  });
+
+  it("merges the group into the snippet to keep", async () => {
+    const store = renderPage();
+    await screen.findByTestId("duplicate-group-duplicates-a");
+
+    fireEvent.click(screen.getByLabelText("Keep Fetch JSON"));
+    fireEvent.click(screen.getByText("Merge into kept snippet"));
+
+    await waitFor(() => {
+      expect(mockSnippetAPI.mergeDuplicates).toHaveBeenCalledWith("a", [
+        "b",
+        "c",
+      ]);
+    });
+    await waitFor(() => {
+      expect(store.getState().duplicates.groups).toEqual([]);
+    });
+  });
+
+  it("deletes the selected snippets", async () => {
+    const store = renderPage();
+    await screen.findByTestId("duplicate-group-duplicates-a");
+    expect(
+      screen.getByRole("button", { name: "Delete selected" })
+    ).toBeDisabled();
+
+    fireEvent.click(screen.getByLabelText("Select Get data"));
+    fireEvent.click(screen.getByText("Delete selected"));
+
+    await waitFor(() => {
+      expect(mockSnippetAPI.delete).toHaveBeenCalledWith("c");
+    });
+    await waitFor(() => {
+      expect(
+        store.getState().duplicates.groups[0].snippets.map((s) => s.id)
+      ).toEqual(["b", "a"]);
+    });
+  });
+
+  it("searches again with another threshold", async () => {
+    renderPage();
+    await screen.findByTestId("duplicate-group-duplicates-a");
+
+    fireEvent.change(screen.getByLabelText("Match"), {
+      target: { value: "1" },
+    });
+
+    await waitFor(() => {
+      expect(mockSnippetAPI.getDuplicates).toHaveBeenCalledWith(1);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from "react";
+import Button from "../../../components/UI/Button";
+import { DuplicateGroup } from "../../../../../types";
+import "./DuplicateGroupCard.css";
+
+interface DuplicateGroupCardProps {
+  group: DuplicateGroup;
+  pending?: boolean;
+  onMerge: (targetId: string, sourceIds: string[]) => void;
+  onDelete: (ids: string[]) => void;
+}
+
+const DuplicateGroupCard: React.FC<DuplicateGroupCardProps> = ({
+  group,
+  pending = false,
+  onMerge,
+  onDelete,
+}) => {
+  // The most used snippet is listed first and kept by default
+  const [keepId, setKeepId] = useState(group.snippets[0].id);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // Start over when the snippets of the group change
+  const memberKey = group.snippets.map((snippet) => snippet.id).join(",");
+  useEffect(() => {
+    setKeepId(group.snippets[0].id);
+    setSelectedIds([]);
+  }, [memberKey]);
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((ids) =>
+      checked ? [...ids, id] : ids.filter((selected) => selected !== id)
+    );
+  };
+
+  const sourceIds = group.snippets
+    .map((snippet) => snippet.id)
+    .filter((id) => id !== keepId);
+
+  return (
+    <section
+      className="duplicate-group"
+      data-testid={`duplicate-group-${group.id}`}
+    >
+      <header className="duplicate-group-header">
+        <h3>
+          {group.snippets.length} snippets ·{" "}
+          {group.exact
+            ? "same code"
+            : `${Math.round(group.similarity * 100)}% similar`}
+        </h3>
+        <div className="duplicate-group-actions">
+          <Button
+            size="sm"
+            onClick={() => onMerge(keepId, sourceIds)}
+            disabled={pending}
+          >
+            Merge into kept snippet
+          </Button>
+          <Button
+            size="sm"
+            variant="danger"
+            onClick={() => onDelete(selectedIds)}
+            disabled={pending || selectedIds.length === 0}
+          >
+            Delete selected
+          </Button>
+        </div>
+      </header>
+
+      <ul className="duplicate-group-snippets">
+        {group.snippets.map((snippet) => (
+          <li
+            key={snippet.id}
+            className={`duplicate-snippet ${
+              snippet.id === keepId ? "duplicate-snippet--kept" : ""
+            }`}
+          >
+            <div className="duplicate-snippet-controls">
+              <label>
+                <input
+                  type="radio"
+                  name={`keep-${group.id}`}
+                  checked={snippet.id === keepId}
+                  onChange={() => setKeepId(snippet.id)}
+                  aria-label={`Keep ${snippet.title}`}
+                />
+                Keep
+              </label>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(snippet.id)}
+                  onChange={(event) =>
+                    toggleSelected(snippet.id, event.target.checked)
+                  }
+                  aria-label={`Select ${snippet.title}`}
+                />
+                Select
+              </label>
+            </div>
+            <div className="duplicate-snippet-info">
+              <span className="duplicate-snippet-title">{snippet.title}</span>
+              <span className="duplicate-snippet-meta">
+                {snippet.language} · used {snippet.usageCount} times
+                {snippet.tags.length > 0 && ` · ${snippet.tags.join(", ")}`}
+              </span>
+              {snippet.description && (
+                <span className="duplicate-snippet-description">
+                  {snippet.description}
+                </span>
+              )}
+              <pre className="duplicate-snippet-code">{snippet.code}</pre>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default DuplicateGroupCard;
@@ -1,11 +1,181 @@
-import React from "react";
+import React, { useState } from "react";
+import { useAppDispatch, useAppSelector } from "../../store/hooks";
+import { fetchSnippets } from "../../store/slices/snippetsSlice";
+import { addNotification } from "../../store/slices/uiSlice";
+import { snippetAPI, ExportFormat } from "../../services/api";
+import Button from "../../components/UI/Button";
+import Select from "../../components/UI/Select";
+import Input from "../../components/UI/Input";
 import "./ImportExport.css";
 
+type ConflictResolution = "skip" | "overwrite" | "rename";
+
+const exportFormats: Array<{
+  value: ExportFormat;
+  label: string;
+  extension: string;
+}> = [
+  { value: "json", label: "JSON", extension: "json" },
+  { value: "yaml", label: "YAML", extension: "yaml" },
+  {
+    value: "vscode",
+    label: "VS Code snippets (.code-snippets)",
+    extension: "code-snippets",
+  },
+  { value: "markdown", label: "Markdown", extension: "md" },
+];
+
+const conflictOptions = [
+  { value: "skip", label: "Skip existing snippets" },
+  { value: "overwrite", label: "Overwrite existing snippets" },
+  { value: "rename", label: "Import as renamed copies" },
+];
+
 const ImportExport: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const [file, setFile] = useState<File | null>(null);
+  const [conflictResolution, setConflictResolution] =
+    useState<ConflictResolution>("skip");
+  const [language, setLanguage] = useState("");
+  const [importing, setImporting] = useState(false);
+  const [importSummary, setImportSummary] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("json");
+  const [exportCollection, setExportCollection] = useState("");
+  const [exporting, setExporting] = useState(false);
+  const collections = useAppSelector((state) => state.collections.items);
+
+  const handleImport = async () => {
+    if (!file) {
+      return;
+    }
+
+    setImporting(true);
+    setImportSummary(null);
+    try {
+      const response: any = await snippetAPI.import(file, {
+        conflictResolution,
+        language: language.trim() || undefined,
+      });
+      // The server returns the snippet manager result envelope
+      const result = response && "data" in response ? response.data : response;
+      setImportSummary(
+        `${result.imported} imported, ${result.skipped} skipped, ${result.errors.length} errors`
+      );
+      dispatch(fetchSnippets());
+      dispatch(
+        addNotification({
+          type: "success",
+          message: `Imported ${result.imported} snippets`,
+        })
+      );
+    } catch (error) {
+      dispatch(
+        addNotification({
+          type: "error",
+          message:
+            error instanceof Error ? error.message : "Failed to import snippets",
+        })
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const blob = await snippetAPI.export(
+        exportFormat,
+        exportCollection || undefined
+      );
+      const extension =
+        exportFormats.find((format) => format.value === exportFormat)
+          ?.extension || "json";
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `snippets-export.${extension}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      dispatch(
+        addNotification({
+          type: "error",
+          message:
+            error instanceof Error ? error.message : "Failed to export snippets",
+        })
+      );
+    } finally {
+      setExporting(false);
+    }
+  };
+
   return (
     <div className="import-export-page" data-testid="import-export-page">
       <h2>Import & Export</h2>
-      <p>Import/Export functionality will be implemented in a future task.</p>
+
+      <section className="import-export-section">
+        <h3>Import</h3>
+        <p className="import-export-help">
+          Import an exported library (JSON, YAML or Markdown), a VS Code
+          <code>.code-snippets</code> file or a per-language snippet file such
+          as <code>javascript.json</code>.
+        </p>
+        <input
+          type="file"
+          aria-label="Import file"
+          accept=".json,.yaml,.yml,.code-snippets,.md,.markdown"
+          onChange={(e) => setFile(e.target.files?.[0] || null)}
+        />
+        <Select
+          label="Conflicts"
+          value={conflictResolution}
+          options={conflictOptions}
+          onChange={(e) =>
+            setConflictResolution(e.target.value as ConflictResolution)
+          }
+        />
+        <Input
+          label="Language"
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+          placeholder="Optional"
+          helperText="Used for VS Code snippets that have no scope"
+        />
+        <Button onClick={handleImport} loading={importing} disabled={!file}>
+          Import
+        </Button>
+        {importSummary && (
+          <p className="import-export-summary" role="status">
+            {importSummary}
+          </p>
+        )}
+      </section>
+
+      <section className="import-export-section">
+        <h3>Export</h3>
+        <Select
+          label="Format"
+          value={exportFormat}
+          options={exportFormats}
+          onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+        />
+        <Select
+          label="Collection"
+          value={exportCollection}
+          options={[
+            { value: "", label: "All snippets" },
+            ...collections.map((collection) => ({
+              value: collection.id,
+              label: collection.name,
+            })),
+          ]}
+          onChange={(e) => setExportCollection(e.target.value)}
+        />
+        <Button onClick={handleExport} loading={exporting}>
+          Download
+        </Button>
+      </section>
     </div>
   );
 };
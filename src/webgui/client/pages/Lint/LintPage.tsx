@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAppDispatch, useAppSelector } from "../../store/hooks";
+import { fetchSnippets } from "../../store/slices/snippetsSlice";
+import { addNotification } from "../../store/slices/uiSlice";
+import { snippetAPI } from "../../services/api";
+import { LintReport, LintSeverity } from "../../../../types";
+import Button from "../../components/UI/Button";
+import Select from "../../components/UI/Select";
+import "./LintPage.css";
+
+const severityLabels: Record<LintSeverity, string> = {
+  error: "Errors",
+  warning: "Warnings",
+  info: "Suggestions",
+};
+
+const severityOptions = [
+  { value: "", label: "All severities" },
+  ...(Object.keys(severityLabels) as LintSeverity[]).map((severity) => ({
+    value: severity,
+    label: severityLabels[severity],
+  })),
+];
+
+const LintPage: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const snippets = useAppSelector((state) => state.snippets.items);
+  const [report, setReport] = useState<LintReport | null>(null);
+  const [severity, setSeverity] = useState("");
+  const [fixing, setFixing] = useState(false);
+
+  const notifyError = (err: unknown, fallback: string) => {
+    dispatch(
+      addNotification({
+        type: "error",
+        message: err instanceof Error ? err.message : fallback,
+      })
+    );
+  };
+
+  const loadReport = async () => {
+    try {
+      setReport(await snippetAPI.lint());
+    } catch (err) {
+      notifyError(err, "Failed to lint snippets");
+    }
+  };
+
+  useEffect(() => {
+    dispatch(fetchSnippets());
+    loadReport();
+  }, [dispatch]);
+
+  const titles = useMemo(
+    () => new Map(snippets.map((snippet) => [snippet.id, snippet.title])),
+    [snippets]
+  );
+
+  const handleFix = async (snippetIds?: string[]) => {
+    setFixing(true);
+    try {
+      const result = await snippetAPI.fixLintIssues(snippetIds);
+      dispatch(
+        addNotification({
+          type: "success",
+          message: `Fixed ${result.fixed} snippets`,
+        })
+      );
+      dispatch(fetchSnippets());
+      await loadReport();
+    } catch (err) {
+      notifyError(err, "Failed to apply fixes");
+    } finally {
+      setFixing(false);
+    }
+  };
+
+  const issues = report
+    ? report.issues.filter(
+        (issue) => !severity || issue.severity === severity
+      )
+    : [];
+
+  return (
+    <div className="lint-page" data-testid="lint-page">
+      <div className="lint-header">
+        <h2>Lint</h2>
+        <div className="lint-controls">
+          <Select
+            label="Severity"
+            value={severity}
+            options={severityOptions}
+            onChange={(event) => setSeverity(event.target.value)}
+          />
+          <Button
+            onClick={() => handleFix()}
+            loading={fixing}
+            disabled={!report || report.fixable === 0}
+          >
+            Apply {report ? report.fixable : 0} Fixes
+          </Button>
+        </div>
+      </div>
+
+      {!report ? (
+        <p className="lint-help">Linting snippets...</p>
+      ) : (
+        <>
+          <p className="lint-summary" data-testid="lint-summary">
+            Checked {report.checked} snippets: {report.counts.error}{" "}
+            errors, {report.counts.warning} warnings, {report.counts.info}{" "}
+            suggestions.
+          </p>
+
+          {issues.length === 0 ? (
+            <p className="lint-help">No problems found.</p>
+          ) : (
+            <ul className="lint-issues" data-testid="lint-issues">
+              {issues.map((issue, index) => (
+                <li
+                  key={`${issue.snippetId}-${issue.rule}-${index}`}
+                  className={`lint-issue lint-issue-${issue.severity}`}
+                >
+                  <div className="lint-issue-main">
+                    {issue.snippetId && (
+                      <Link to={`/snippets/${issue.snippetId}/edit`}>
+                        {titles.get(issue.snippetId) || issue.snippetId}
+                      </Link>
+                    )}
+                    <span>
+                      {issue.message}
+                      {issue.line !== undefined && ` (line ${issue.line})`}
+                    </span>
+                    <code className="lint-rule">{issue.rule}</code>
+                  </div>
+                  {issue.fix && issue.snippetId && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={fixing}
+                      onClick={() => handleFix([issue.snippetId as string])}
+                    >
+                      {issue.fix.description}
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LintPage;
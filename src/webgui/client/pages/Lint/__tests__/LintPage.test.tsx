@@ -0,0 +1,137 @@
+import React from "react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { Provider } from "react-redux";
+import { MemoryRouter } from "react-router-dom";
+import { configureStore } from "@reduxjs/toolkit";
+import "@testing-library/jest-dom";
+import LintPage from "../LintPage";
+import snippetsReducer from "../../../store/slices/snippetsSlice";
+import uiReducer from "../../../store/slices/uiSlice";
+
+// Mock the API
+vi.mock("../../../services/api", () => ({
+  snippetAPI: {
+    getAll: vi.fn(),
+    lint: vi.fn(),
+    fixLintIssues: vi.fn(),
+  },
+}));
+
+const { snippetAPI } = await import("../../../services/api");
+const mockSnippetAPI = snippetAPI as any;
+
+const createSnippet = (id: string) => ({
+  id,
+  title: `Snippet ${id}`,
+  description: "",
+  code: "console.log('hello')",
+  language: "javascript",
+  tags: [],
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+  usageCount: 0,
+});
+
+const report = {
+  checked: 2,
+  issues: [
+    {
+      rule: "secret",
+      severity: "error",
+      snippetId: "1",
+      line: 3,
+      message: "Code contains what looks like a GitHub token",
+    },
+    {
+      rule: "trailingWhitespace",
+      severity: "info",
+      snippetId: "2",
+      line: 1,
+      message: "A line ends with whitespace",
+      fix: { description: "Remove trailing whitespace", changes: {} },
+    },
+  ],
+  counts: { error: 1, warning: 0, info: 1 },
+  fixable: 1,
+};
+
+const renderPage = () => {
+  const store = configureStore({
+    reducer: {
+      snippets: snippetsReducer,
+      ui: uiReducer,
+    },
+    middleware: (getDefaultMiddleware) =>
+      getDefaultMiddleware({
+        serializableCheck: false, // Disable for tests
+      }),
+  });
+  render(
+    <Provider store={store}>
+      <MemoryRouter>
+        <LintPage />
+      </MemoryRouter>
+    </Provider>
+  );
+  return store;
+};
+
+describe("LintPage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSnippetAPI.getAll.mockResolvedValue([
+      createSnippet("1"),
+      createSnippet("2"),
+    ]);
+    mockSnippetAPI.lint.mockResolvedValue(report);
+  });
+
+  it("lists issues with their snippets", async () => {
+    renderPage();
+
+    expect(await screen.findByTestId("lint-summary")).toHaveTextContent(
+      "Checked 2 snippets: 1 errors, 0 warnings, 1 suggestions."
+    );
+    const issues = screen.getByTestId("lint-issues");
+    expect(issues).toHaveTextContent(
+      "Code contains what looks like a GitHub token (line 3)"
+    );
+    expect(
+      await screen.findByRole("link", { name: "Snippet 1" })
+    ).toHaveAttribute("href", "/snippets/1/edit");
+  });
+
+  it("filters issues by severity", async () => {
+    renderPage();
+    await screen.findByTestId("lint-issues");
+
+    fireEvent.change(screen.getByLabelText("Severity"), {
+      target: { value: "info" },
+    });
+
+    expect(screen.getByTestId("lint-issues")).not.toHaveTextContent(
+      "GitHub token"
+    );
+    expect(screen.getByTestId("lint-issues")).toHaveTextContent(
+      "A line ends with whitespace"
+    );
+  });
+
+  it("applies fixes and lints again", async () => {
+    mockSnippetAPI.fixLintIssues.mockResolvedValue({ fixed: 1 });
+    renderPage();
+    await screen.findByTestId("lint-issues");
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "Remove trailing whitespace" })
+    );
+    await waitFor(() => expect(mockSnippetAPI.lint).toHaveBeenCalledTimes(2));
+    expect(mockSnippetAPI.fixLintIssues).toHaveBeenCalledWith(["2"]);
+
+    fireEvent.click(screen.getByRole("button", { name: "Apply 1 Fixes" }));
+    await waitFor(() =>
+      expect(mockSnippetAPI.fixLintIssues).toHaveBeenLastCalledWith(undefined)
+    );
+  });
+});
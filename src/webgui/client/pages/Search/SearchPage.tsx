@@ -1,5 +1,8 @@
-import React, { useState } from "react";
-import { useAppSelector } from "../../store/hooks";
+import React, { useState, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useAppDispatch, useAppSelector } from "../../store/hooks";
+import { clearQuery, updateQuery } from "../../store/slices/searchSlice";
+import { recordSnippetUsage } from "../../store/slices/snippetsSlice";
 import { SearchInterface } from "../../components/Search";
 import SnippetCard from "../SnippetGrid/components/SnippetCard";
 import { Snippet } from "../../../../types";
@@ -8,6 +11,22 @@ import "./SearchPage.css";
 const SearchPage: React.FC = () => {
   const [searchResults, setSearchResults] = useState<Snippet[]>([]);
   const { loading } = useAppSelector((state) => state.search);
+  const dispatch = useAppDispatch();
+
+  // Saved searches in the sidebar link here with ?saved=<id>
+  const [searchParams] = useSearchParams();
+  const savedId = searchParams.get("saved");
+  const savedSearch = useAppSelector((state) =>
+    state.savedSearches?.items.find((search) => search.id === savedId)
+  );
+
+  useEffect(() => {
+    if (savedSearch) {
+      dispatch(clearQuery());
+      dispatch(updateQuery(savedSearch.query));
+    }
+    // Only when another saved search is opened, not when counts change
+  }, [dispatch, savedSearch?.id]);
 
   const handleResultsChange = (results: Snippet[]) => {
     setSearchResults(results);
@@ -50,6 +69,7 @@ const SearchPage: React.FC = () => {
                     onSelect={() => {}}
                     onEdit={() => {}}
                     onDelete={() => {}}
+                    onCopy={(id) => dispatch(recordSnippetUsage(id))}
                   />
                 ))
               ) : (
@@ -10,12 +10,14 @@ import Input from "../../components/UI/Input";
 import Select from "../../components/UI/Select";
 import TagInput from "../../components/UI/TagInput";
 import CodeEditor from "../../components/UI/CodeEditor";
+import RevisionHistory from "./components/RevisionHistory";
+import VariablesEditor from "./components/VariablesEditor";
 import {
   validateForm,
   snippetValidationRules,
   ValidationErrors,
 } from "../../utils/validation";
-import { Snippet } from "../../../../types";
+import { Snippet, SnippetVariable } from "../../../../types";
 import "./SnippetEditor.css";
 
 const SnippetEditor: React.FC = () => {
@@ -35,11 +37,13 @@ const SnippetEditor: React.FC = () => {
     tags: [] as string[],
     category: "",
     prefix: "",
+    variables: [] as SnippetVariable[],
   });
 
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<ValidationErrors>({});
   const [showPreview, setShowPreview] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   // Language options
   const languageOptions = [
@@ -94,6 +98,7 @@ const SnippetEditor: React.FC = () => {
         tags: existingSnippet.tags,
         category: existingSnippet.category || "",
         prefix: existingSnippet.prefix || "",
+        variables: existingSnippet.variables || [],
       });
     }
   }, [isEditing, existingSnippet]);
@@ -128,6 +133,14 @@ const SnippetEditor: React.FC = () => {
     }
   };
 
+  const handleVariablesChange = (variables: SnippetVariable[]) => {
+    setFormData((prev) => ({ ...prev, variables }));
+
+    if (errors.variables) {
+      setErrors((prev) => ({ ...prev, variables: "" }));
+    }
+  };
+
   const validateFormData = (): boolean => {
     const validationErrors = validateForm(formData, snippetValidationRules);
     setErrors(validationErrors);
@@ -150,6 +163,8 @@ const SnippetEditor: React.FC = () => {
         prefix: formData.prefix.trim() || undefined,
         // Remove empty category if not provided
         category: formData.category.trim() || undefined,
+        variables:
+          formData.variables.length > 0 ? formData.variables : undefined,
       };
 
       if (isEditing && existingSnippet) {
@@ -198,6 +213,10 @@ const SnippetEditor: React.FC = () => {
     setShowPreview(!showPreview);
   };
 
+  const toggleHistory = () => {
+    setShowHistory(!showHistory);
+  };
+
   return (
     <div className="snippet-editor" data-testid="snippet-editor">
       <div className="snippet-editor-header">
@@ -210,6 +229,11 @@ const SnippetEditor: React.FC = () => {
           >
             {showPreview ? "Hide Preview" : "Show Preview"}
           </Button>
+          {isEditing && existingSnippet && (
+            <Button variant="ghost" onClick={toggleHistory}>
+              {showHistory ? "Hide History" : "Show History"}
+            </Button>
+          )}
           <Button variant="secondary" onClick={handleCancel}>
             Cancel
           </Button>
@@ -254,6 +278,13 @@ const SnippetEditor: React.FC = () => {
             language={formData.language}
             error={errors.code}
             placeholder="Enter your code snippet here..."
+            variables={formData.variables}
+          />
+
+          <VariablesEditor
+            value={formData.variables}
+            onChange={handleVariablesChange}
+            error={errors.variables}
           />
 
           <div className="snippet-form-row">
@@ -315,6 +346,7 @@ const SnippetEditor: React.FC = () => {
                 value={formData.code}
                 onChange={() => {}} // Read-only in preview
                 language={formData.language}
+                variables={formData.variables}
               />
               {formData.tags.length > 0 && (
                 <div className="snippet-preview-tags">
@@ -328,6 +360,10 @@ const SnippetEditor: React.FC = () => {
             </div>
           </div>
         )}
+
+        {showHistory && existingSnippet && (
+          <RevisionHistory snippetId={existingSnippet.id} />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,213 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { useAppDispatch } from "../../../store/hooks";
+import { rollbackSnippet } from "../../../store/slices/snippetsSlice";
+import { addNotification } from "../../../store/slices/uiSlice";
+import { snippetAPI } from "../../../services/api";
+import Button from "../../../components/UI/Button";
+import { SnippetRevision, RevisionDiff } from "../../../../../types";
+import "./RevisionHistory.css";
+
+interface RevisionHistoryProps {
+  snippetId: string;
+  onRestored?: () => void;
+}
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({
+  snippetId,
+  onRestored,
+}) => {
+  const dispatch = useAppDispatch();
+  const [revisions, setRevisions] = useState<SnippetRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [compareFrom, setCompareFrom] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const history = await snippetAPI.getHistory(snippetId);
+      setRevisions(history);
+      if (history.length >= 2) {
+        setCompareFrom(history[1].revision);
+        setCompareTo(history[0].revision);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load history");
+    } finally {
+      setLoading(false);
+    }
+  }, [snippetId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  useEffect(() => {
+    if (compareFrom === null || compareTo === null) {
+      setDiff(null);
+      return;
+    }
+
+    snippetAPI
+      .diffRevisions(snippetId, compareFrom, compareTo)
+      .then(setDiff)
+      .catch(() => setDiff(null));
+  }, [snippetId, compareFrom, compareTo]);
+
+  const handleRestore = async (revision: number) => {
+    setRestoring(revision);
+    try {
+      await dispatch(rollbackSnippet({ id: snippetId, revision })).unwrap();
+      dispatch(
+        addNotification({
+          type: "success",
+          message: `Snippet restored to revision ${revision}`,
+        })
+      );
+      await loadHistory();
+      onRestored?.();
+    } catch (err) {
+      dispatch(
+        addNotification({
+          type: "error",
+          message: "Failed to restore revision",
+        })
+      );
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const formatValue = (value: unknown): string => {
+    if (Array.isArray(value)) {
+      return value.join(", ");
+    }
+    if (value === undefined || value === null || value === "") {
+      return "(empty)";
+    }
+    return String(value);
+  };
+
+  if (loading) {
+    return (
+      <div className="revision-history" data-testid="revision-history">
+        <p className="revision-history-status">Loading history...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="revision-history" data-testid="revision-history">
+        <p className="revision-history-error">{error}</p>
+      </div>
+    );
+  }
+
+  const latestRevision = revisions.length > 0 ? revisions[0].revision : null;
+
+  return (
+    <div className="revision-history" data-testid="revision-history">
+      <h3>History</h3>
+
+      {revisions.length === 0 ? (
+        <p className="revision-history-status">No revisions recorded yet.</p>
+      ) : (
+        <ul className="revision-list">
+          {revisions.map((revision) => (
+            <li key={revision.revision} className="revision-item">
+              <div className="revision-item-header">
+                <span className="revision-number">#{revision.revision}</span>
+                <span className="revision-date">
+                  {new Date(revision.timestamp).toLocaleString()}
+                </span>
+                <span className="revision-source">{revision.source}</span>
+              </div>
+              <div className="revision-fields">
+                Changed: {revision.changedFields.join(", ")}
+              </div>
+              <div className="revision-actions">
+                <label>
+                  <input
+                    type="radio"
+                    name="compare-from"
+                    checked={compareFrom === revision.revision}
+                    onChange={() => setCompareFrom(revision.revision)}
+                  />
+                  From
+                </label>
+                <label>
+                  <input
+                    type="radio"
+                    name="compare-to"
+                    checked={compareTo === revision.revision}
+                    onChange={() => setCompareTo(revision.revision)}
+                  />
+                  To
+                </label>
+                {revision.revision !== latestRevision && (
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    type="button"
+                    loading={restoring === revision.revision}
+                    onClick={() => handleRestore(revision.revision)}
+                  >
+                    Restore
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {diff && (
+        <div className="revision-diff" data-testid="revision-diff">
+          <h4>
+            Changes #{diff.fromRevision} → #{diff.toRevision}
+          </h4>
+          {diff.changedFields.length === 0 && (
+            <p className="revision-history-status">No differences.</p>
+          )}
+          {diff.changedFields
+            .filter((field) => field !== "code")
+            .map((field) => (
+              <div key={field} className="revision-diff-field">
+                <strong>{field}</strong>
+                <div className="revision-diff-removed">
+                  {formatValue(diff.fields[field]?.from)}
+                </div>
+                <div className="revision-diff-added">
+                  {formatValue(diff.fields[field]?.to)}
+                </div>
+              </div>
+            ))}
+          {diff.changedFields.includes("code") && (
+            <pre className="revision-diff-code">
+              {diff.codeDiff.map((line, index) => (
+                <div
+                  key={index}
+                  className={`revision-diff-line revision-diff-line--${line.type}`}
+                >
+                  {line.type === "added"
+                    ? "+ "
+                    : line.type === "removed"
+                    ? "- "
+                    : "  "}
+                  {line.content}
+                </div>
+              ))}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RevisionHistory;
@@ -0,0 +1,116 @@
+import React from "react";
+import { SnippetVariable } from "../../../../../types";
+import Button from "../../../components/UI/Button";
+import "./VariablesEditor.css";
+
+interface VariablesEditorProps {
+  value: SnippetVariable[];
+  onChange: (variables: SnippetVariable[]) => void;
+  error?: string;
+}
+
+const VariablesEditor: React.FC<VariablesEditorProps> = ({
+  value,
+  onChange,
+  error,
+}) => {
+  const updateVariable = (index: number, updates: Partial<SnippetVariable>) => {
+    onChange(
+      value.map((variable, i) =>
+        i === index ? { ...variable, ...updates } : variable
+      )
+    );
+  };
+
+  const handleChoicesChange = (index: number, text: string) => {
+    const choices = text
+      .split(",")
+      .map((choice) => choice.trim())
+      .filter(Boolean);
+    updateVariable(index, {
+      choices: choices.length > 0 ? choices : undefined,
+    });
+  };
+
+  const addVariable = () => {
+    onChange([...value, { name: "" }]);
+  };
+
+  const removeVariable = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="variables-editor" data-testid="variables-editor">
+      <div className="variables-editor-header">
+        <label className="variables-editor-label">Variables</label>
+        <Button size="sm" variant="secondary" type="button" onClick={addVariable}>
+          Add Variable
+        </Button>
+      </div>
+      <p className="variables-editor-help">
+        Reference custom variables in the code as $NAME or ${"{"}NAME{"}"}.
+        They are filled in when the snippet is inserted.
+      </p>
+
+      {value.map((variable, index) => (
+        // Keyed by list length so the uncontrolled choices input resets
+        // when rows are added or removed
+        <div key={`${index}-${value.length}`} className="variables-editor-row">
+          <input
+            type="text"
+            aria-label="Variable name"
+            placeholder="NAME"
+            value={variable.name}
+            onChange={(e) => updateVariable(index, { name: e.target.value })}
+          />
+          <input
+            type="text"
+            aria-label="Default value"
+            placeholder="Default value"
+            value={variable.defaultValue || ""}
+            onChange={(e) =>
+              updateVariable(index, {
+                defaultValue: e.target.value || undefined,
+              })
+            }
+          />
+          <input
+            type="text"
+            aria-label="Choices"
+            placeholder="Choices (comma separated)"
+            defaultValue={(variable.choices || []).join(", ")}
+            onBlur={(e) => handleChoicesChange(index, e.target.value)}
+          />
+          <input
+            type="text"
+            aria-label="Description"
+            placeholder="Description"
+            value={variable.description || ""}
+            onChange={(e) =>
+              updateVariable(index, {
+                description: e.target.value || undefined,
+              })
+            }
+          />
+          <Button
+            size="sm"
+            variant="danger"
+            type="button"
+            onClick={() => removeVariable(index)}
+          >
+            Remove
+          </Button>
+        </div>
+      ))}
+
+      {error && (
+        <span className="variables-editor-error" role="alert">
+          {error}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default VariablesEditor;
@@ -21,14 +21,16 @@ import {
 } from "@dnd-kit/sortable";
 import { RootState } from "../../store/store";
 import {
-  fetchSnippets,
-  updateSnippet,
+  fetchSnippetPage,
   deleteSnippet,
+  recordSnippetUsage,
   toggleSelection,
   clearSelection,
 } from "../../store/slices/snippetsSlice";
 import { addNotification } from "../../store/slices/uiSlice";
 import { Snippet } from "../../../../types";
+import { getCategoryPaths } from "../../../../core/taxonomy";
+import { SnippetListQuery } from "../../services/api";
 import Button from "../../components/UI/Button";
 import SnippetCard from "./components/SnippetCard";
 import FilterControls from "./components/FilterControls";
@@ -45,15 +47,30 @@ interface FilterState {
   sortOrder: "asc" | "desc";
 }
 
+// Pause in typing after which the search is sent
+const SEARCH_DELAY = 300;
+
 const SnippetGrid: React.FC = () => {
   const dispatch = useAppDispatch();
   const {
     items: snippets,
     loading,
+    loadingMore,
     error,
     selectedIds,
+    total,
+    nextCursor,
   } = useSelector((state: RootState) => state.snippets);
+  const summaries = useSelector(
+    (state: RootState) => state.snippets.summaries
+  );
   const { viewMode } = useSelector((state: RootState) => state.ui);
+  const sourceFilter = useSelector(
+    (state: RootState) => state.snippets.sourceFilter
+  );
+  const categoryFilter = useSelector(
+    (state: RootState) => state.snippets.categoryFilter
+  );
 
   const [filters, setFilters] = useState<FilterState>({
     search: "",
@@ -64,7 +81,9 @@ const SnippetGrid: React.FC = () => {
     sortOrder: "desc",
   });
 
+  const [searchText, setSearchText] = useState("");
   const [localSnippets, setLocalSnippets] = useState<Snippet[]>([]);
+  const [lastVisibleRow, setLastVisibleRow] = useState(0);
 
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -74,8 +93,38 @@ const SnippetGrid: React.FC = () => {
   );
 
   useEffect(() => {
-    dispatch(fetchSnippets());
-  }, [dispatch]);
+    const timer = setTimeout(() => setSearchText(filters.search), SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [filters.search]);
+
+  // The server filters and sorts; a category picked in the filters
+  // replaces the one picked in the sidebar
+  const query = useMemo<SnippetListQuery>(() => {
+    const category = filters.category || categoryFilter;
+    return {
+      ...(searchText && { q: searchText }),
+      ...(filters.language && { language: filters.language }),
+      ...(filters.tags.length > 0 && { tags: filters.tags }),
+      ...(category && { category }),
+      ...(sourceFilter && { source: sourceFilter }),
+      sort: filters.sortBy,
+      order: filters.sortOrder,
+    };
+  }, [
+    searchText,
+    filters.language,
+    filters.tags,
+    filters.category,
+    filters.sortBy,
+    filters.sortOrder,
+    sourceFilter,
+    categoryFilter,
+  ]);
+
+  useEffect(() => {
+    setLastVisibleRow(0);
+    dispatch(fetchSnippetPage({ query }));
+  }, [dispatch, query]);
 
   useEffect(() => {
     if (error) {
@@ -92,62 +141,17 @@ const SnippetGrid: React.FC = () => {
     setLocalSnippets(snippets);
   }, [snippets]);
 
-  // Filter and sort snippets
-  const filteredSnippets = useMemo(() => {
-    let filtered = [...localSnippets];
-
-    // Apply search filter
-    if (filters.search) {
-      const searchLower = filters.search.toLowerCase();
-      filtered = filtered.filter(
-        (snippet) =>
-          snippet.title.toLowerCase().includes(searchLower) ||
-          snippet.description.toLowerCase().includes(searchLower) ||
-          snippet.code.toLowerCase().includes(searchLower) ||
-          snippet.tags.some((tag) => tag.toLowerCase().includes(searchLower))
-      );
-    }
-
-    // Apply language filter
-    if (filters.language) {
-      filtered = filtered.filter(
-        (snippet) => snippet.language === filters.language
-      );
-    }
-
-    // Apply tags filter
-    if (filters.tags.length > 0) {
-      filtered = filtered.filter((snippet) =>
-        filters.tags.every((tag) => snippet.tags.includes(tag))
-      );
-    }
-
-    // Apply category filter
-    if (filters.category) {
-      filtered = filtered.filter(
-        (snippet) => snippet.category === filters.category
-      );
-    }
-
-    // Apply sorting
-    filtered.sort((a, b) => {
-      let aValue: any = a[filters.sortBy];
-      let bValue: any = b[filters.sortBy];
-
-      if (filters.sortBy === "createdAt") {
-        aValue = new Date(aValue).getTime();
-        bValue = new Date(bValue).getTime();
-      }
-
-      if (filters.sortOrder === "asc") {
-        return aValue > bValue ? 1 : -1;
-      } else {
-        return aValue < bValue ? 1 : -1;
-      }
-    });
-
-    return filtered;
-  }, [localSnippets, filters]);
+  // Filters offer what the whole library has, not only the loaded pages
+  const options = useMemo(() => {
+    const all = summaries || [];
+    return {
+      languages: [...new Set(all.map((s) => s.language))],
+      tags: [...new Set(all.flatMap((s) => s.tags))],
+      categories: [
+        ...new Set(all.flatMap((s) => getCategoryPaths(s.category || ""))),
+      ],
+    };
+  }, [summaries]);
 
   const handleFilterChange = useCallback((newFilters: Partial<FilterState>) => {
     setFilters((prev) => ({ ...prev, ...newFilters }));
@@ -202,6 +206,13 @@ const SnippetGrid: React.FC = () => {
     [dispatch]
   );
 
+  const handleSnippetCopy = useCallback(
+    (snippetId: string) => {
+      dispatch(recordSnippetUsage(snippetId));
+    },
+    [dispatch]
+  );
+
   const handleSnippetSelect = useCallback(
     (snippetId: string, selected: boolean) => {
       dispatch(toggleSelection(snippetId));
@@ -213,15 +224,32 @@ const SnippetGrid: React.FC = () => {
     dispatch(clearSelection());
   }, [dispatch]);
 
+  const itemsPerRow = viewMode === "grid" ? 3 : 1;
+  const loadedRows = Math.ceil(localSnippets.length / itemsPerRow);
+
+  const handleItemsRendered = useCallback(
+    ({ visibleRowStopIndex }: { visibleRowStopIndex: number }) => {
+      setLastVisibleRow(visibleRowStopIndex);
+    },
+    []
+  );
+
+  // Load the next page once the last loaded row comes into view
+  useEffect(() => {
+    if (nextCursor && lastVisibleRow >= loadedRows - 1) {
+      dispatch(fetchSnippetPage({ query, cursor: nextCursor }));
+    }
+  }, [dispatch, query, nextCursor, lastVisibleRow, loadedRows]);
+
   // Grid item renderer for virtual scrolling
   const GridItem = useCallback(
     ({ columnIndex, rowIndex, style }: any) => {
-      const itemsPerRow = viewMode === "grid" ? 3 : 1;
       const index = rowIndex * itemsPerRow + columnIndex;
-      const snippet = filteredSnippets[index];
+      const snippet = localSnippets[index];
 
       if (!snippet) {
-        return <div style={style} />;
+        // Rows of pages that are not loaded yet
+        return <div style={style} className="snippet-card-placeholder" />;
       }
 
       return (
@@ -232,22 +260,25 @@ const SnippetGrid: React.FC = () => {
             onEdit={handleSnippetEdit}
             onDelete={handleSnippetDelete}
             onSelect={handleSnippetSelect}
+            onCopy={handleSnippetCopy}
             viewMode={viewMode}
           />
         </div>
       );
     },
     [
-      filteredSnippets,
+      localSnippets,
+      itemsPerRow,
       selectedIds,
       viewMode,
       handleSnippetEdit,
       handleSnippetDelete,
       handleSnippetSelect,
+      handleSnippetCopy,
     ]
   );
 
-  if (loading) {
+  if (loading && localSnippets.length === 0) {
     return (
       <div className="snippet-grid-loading" data-testid="loading">
         <div className="loading-spinner">Loading snippets...</div>
@@ -255,15 +286,16 @@ const SnippetGrid: React.FC = () => {
     );
   }
 
-  const itemsPerRow = viewMode === "grid" ? 3 : 1;
-  const rowCount = Math.ceil(filteredSnippets.length / itemsPerRow);
-  const columnCount = Math.min(filteredSnippets.length, itemsPerRow);
+  // Rows of the whole list, so that the scrollbar fits it
+  const count = total ?? localSnippets.length;
+  const rowCount = Math.ceil(count / itemsPerRow);
+  const columnCount = Math.min(count, itemsPerRow);
 
   return (
     <div className="snippet-grid-container" data-testid="snippet-grid">
       <div className="snippet-grid-header">
         <div className="snippet-grid-title">
-          <h2>Snippets ({filteredSnippets.length})</h2>
+          <h2>Snippets ({count})</h2>
           {selectedIds.length > 0 && (
             <span className="selection-count">
               {selectedIds.length} selected
@@ -281,15 +313,9 @@ const SnippetGrid: React.FC = () => {
       <FilterControls
         filters={filters}
         onFilterChange={handleFilterChange}
-        availableLanguages={[...new Set(snippets.map((s) => s.language))]}
-        availableTags={[...new Set(snippets.flatMap((s) => s.tags))]}
-        availableCategories={[
-          ...new Set(
-            snippets
-              .map((s) => s.category)
-              .filter((cat): cat is string => Boolean(cat))
-          ),
-        ]}
+        availableLanguages={options.languages}
+        availableTags={options.tags}
+        availableCategories={options.categories}
       />
 
       {selectedIds.length > 0 && (
@@ -299,7 +325,7 @@ const SnippetGrid: React.FC = () => {
         />
       )}
 
-      {filteredSnippets.length === 0 ? (
+      {count === 0 ? (
         <div className="snippet-grid-empty">
           {filters.search ||
           filters.language ||
@@ -340,11 +366,13 @@ const SnippetGrid: React.FC = () => {
           onDragEnd={handleDragEnd}
         >
           <SortableContext
-            items={filteredSnippets.map((s) => s.id)}
+            items={localSnippets.map((s) => s.id)}
             strategy={rectSortingStrategy}
           >
             <div className="snippet-grid-virtualized">
               <Grid
+                // Lists start at the top again when the query changes
+                key={JSON.stringify(query)}
                 className={`snippet-grid-virtual ${viewMode}`}
                 columnCount={columnCount}
                 columnWidth={viewMode === "grid" ? 350 : 1050}
@@ -352,10 +380,16 @@ const SnippetGrid: React.FC = () => {
                 rowCount={rowCount}
                 rowHeight={viewMode === "grid" ? 280 : 200}
                 width={viewMode === "grid" ? 1050 : 1050}
+                onItemsRendered={handleItemsRendered}
               >
                 {GridItem}
               </Grid>
             </div>
+            {loadingMore && (
+              <div className="snippet-grid-loading-more">
+                Loading more snippets...
+              </div>
+            )}
           </SortableContext>
         </DndContext>
       )}
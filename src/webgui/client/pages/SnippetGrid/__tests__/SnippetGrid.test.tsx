@@ -37,56 +37,24 @@ const mockSnippets: Snippet[] = [
   },
 ];
 
-// Mock the API service
+// Mock the API service; pages hold the snippets whose title matches q
 vi.mock("../../../services/api", () => ({
   snippetAPI: {
-    getAll: vi.fn().mockResolvedValue([
-      {
-        id: "1",
-        title: "Test Snippet 1",
-        description: "A test snippet",
-        code: "console.log('test');",
-        language: "javascript",
-        tags: ["test", "js"],
-        category: "utility",
-        createdAt: new Date("2023-01-01"),
-        updatedAt: new Date("2023-01-01"),
-        usageCount: 5,
-        prefix: "test1",
-      },
-      {
-        id: "2",
-        title: "Test Snippet 2",
-        description: "Another test snippet",
-        code: "print('hello')",
-        language: "python",
-        tags: ["test", "python"],
-        category: "example",
-        createdAt: new Date("2023-01-02"),
-        updatedAt: new Date("2023-01-02"),
-        usageCount: 3,
-        prefix: "test2",
-      },
-    ]),
+    getPage: vi.fn(async (query: { q?: string }) => {
+      const items = mockSnippets.filter(
+        (snippet) =>
+          !query.q ||
+          snippet.title.toLowerCase().includes(query.q.toLowerCase())
+      );
+      return { items, total: items.length };
+    }),
     create: vi.fn().mockResolvedValue({}),
     update: vi.fn().mockResolvedValue({}),
     delete: vi.fn().mockResolvedValue({}),
   },
 }));
 
-// Mock the Redux actions to prevent automatic fetching
-vi.mock("../../../store/slices/snippetsSlice", async () => {
-  const actual = await vi.importActual("../../../store/slices/snippetsSlice");
-  return {
-    ...actual,
-    fetchSnippets: vi.fn(() => ({
-      type: "snippets/fetchSnippets/fulfilled",
-      payload: mockSnippets,
-    })),
-  };
-});
-
-// Mock react-window
+// Mock react-window; every row is in view
 vi.mock("react-window", () => ({
   FixedSizeGrid: ({
     children,
@@ -94,7 +62,11 @@ vi.mock("react-window", () => ({
     rowCount,
     columnWidth,
     rowHeight,
+    onItemsRendered,
   }: any) => {
+    React.useEffect(() => {
+      onItemsRendered?.({ visibleRowStopIndex: rowCount - 1 });
+    }, [rowCount, onItemsRendered]);
     const items = [];
     for (let row = 0; row < rowCount; row++) {
       for (let col = 0; col < columnCount; col++) {
@@ -220,7 +192,12 @@ describe("SnippetGrid", () => {
     expect(screen.getByText("Loading snippets...")).toBeInTheDocument();
   });
 
-  it("renders empty state when no snippets", () => {
+  it("renders empty state when no snippets", async () => {
+    const { snippetAPI } = await import("../../../services/api");
+    vi.mocked(snippetAPI.getPage).mockResolvedValueOnce({
+      items: [],
+      total: 0,
+    });
     const store = createMockStore({
       snippets: {
         items: [],
@@ -232,7 +209,7 @@ describe("SnippetGrid", () => {
 
     renderWithStore(<SnippetGrid />, store);
     expect(
-      screen.getByText(
+      await screen.findByText(
         "No snippets found. Create your first snippet to get started!"
       )
     ).toBeInTheDocument();
@@ -391,10 +368,41 @@ describe("SnippetGrid", () => {
     expect(newSnippetButton).toBeInTheDocument();
   });
 
+  it("loads the next page when its rows come into view", async () => {
+    const { snippetAPI } = await import("../../../services/api");
+    vi.mocked(snippetAPI.getPage)
+      .mockResolvedValueOnce({
+        items: [mockSnippets[0]],
+        total: 2,
+        nextCursor: "next",
+      })
+      .mockResolvedValueOnce({ items: [mockSnippets[1]], total: 2 });
+
+    const store = createMockStore({
+      snippets: {
+        items: [],
+        loading: false,
+        error: null,
+        selectedIds: [],
+      },
+    });
+
+    renderWithStore(<SnippetGrid />, store);
+
+    await waitFor(() => {
+      expect(screen.getByText("Test Snippet 1")).toBeInTheDocument();
+      expect(screen.getByText("Test Snippet 2")).toBeInTheDocument();
+    });
+    expect(snippetAPI.getPage).toHaveBeenLastCalledWith(
+      expect.objectContaining({ sort: "createdAt", order: "desc" }),
+      expect.objectContaining({ cursor: "next" })
+    );
+  });
+
   it("handles error state", async () => {
     // Mock the API to reject for this test
     const { snippetAPI } = await import("../../../services/api");
-    vi.mocked(snippetAPI.getAll).mockRejectedValueOnce(
+    vi.mocked(snippetAPI.getPage).mockRejectedValueOnce(
       new Error("Failed to load snippets")
     );
 
@@ -4,7 +4,9 @@ import { CSS } from "@dnd-kit/utilities";
 import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
 import { vscDarkPlus } from "react-syntax-highlighter/dist/esm/styles/prism";
 import { Snippet } from "../../../../../types";
+import { hasTemplateFields } from "../../../../../core/template";
 import Button from "../../../components/UI/Button";
+import TemplateFillDialog from "./TemplateFillDialog";
 import "./SnippetCard.css";
 
 interface SnippetCardProps {
@@ -13,6 +15,7 @@ interface SnippetCardProps {
   onEdit: (snippet: Snippet) => void;
   onDelete: (snippetId: string) => void;
   onSelect: (snippetId: string, selected: boolean) => void;
+  onCopy?: (snippetId: string) => void;
   viewMode: "grid" | "list";
 }
 
@@ -22,9 +25,12 @@ const SnippetCard: React.FC<SnippetCardProps> = ({
   onEdit,
   onDelete,
   onSelect,
+  onCopy,
   viewMode,
 }) => {
   const [showFullCode, setShowFullCode] = useState(false);
+  const [showFillDialog, setShowFillDialog] = useState(false);
+  const [copied, setCopied] = useState(false);
   const {
     attributes,
     listeners,
@@ -55,6 +61,26 @@ const SnippetCard: React.FC<SnippetCardProps> = ({
     onDelete(snippet.id);
   };
 
+  const copyToClipboard = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(code);
+      onCopy?.(snippet.id);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy snippet:", error);
+    }
+  };
+
+  const handleCopy = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (hasTemplateFields(snippet.code, snippet.variables)) {
+      setShowFillDialog(true);
+    } else {
+      copyToClipboard(snippet.code);
+    }
+  };
+
   const truncateCode = (code: string, maxLines: number = 5) => {
     const lines = code.split("\n");
     if (lines.length <= maxLines) return code;
@@ -161,9 +187,19 @@ const SnippetCard: React.FC<SnippetCardProps> = ({
             <span className="snippet-category-value">{snippet.category}</span>
           </div>
         )}
+
+        {snippet.source && (
+          <div className="snippet-category">
+            <span className="snippet-category-label">Library:</span>
+            <span className="snippet-category-value">{snippet.source}</span>
+          </div>
+        )}
       </div>
 
       <div className="snippet-card-actions">
+        <Button size="sm" variant="secondary" onClick={handleCopy}>
+          {copied ? "Copied" : "Copy"}
+        </Button>
         <Button size="sm" variant="secondary" onClick={handleEdit}>
           Edit
         </Button>
@@ -171,6 +207,17 @@ const SnippetCard: React.FC<SnippetCardProps> = ({
           Delete
         </Button>
       </div>
+
+      {showFillDialog && (
+        <TemplateFillDialog
+          snippet={snippet}
+          onClose={() => setShowFillDialog(false)}
+          onCopy={(code) => {
+            setShowFillDialog(false);
+            copyToClipboard(code);
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from "react";
+import { createPortal } from "react-dom";
+import { Snippet, TemplateField } from "../../../../../types";
+import { getPromptFields, renderTemplate } from "../../../../../core/template";
+import Button from "../../../components/UI/Button";
+import "./TemplateFillDialog.css";
+
+interface TemplateFillDialogProps {
+  snippet: Snippet;
+  onCopy: (code: string) => void;
+  onClose: () => void;
+}
+
+const TemplateFillDialog: React.FC<TemplateFillDialogProps> = ({
+  snippet,
+  onCopy,
+  onClose,
+}) => {
+  const fields = useMemo(
+    () => getPromptFields(snippet.code, snippet.variables),
+    [snippet.code, snippet.variables]
+  );
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      fields.map((field) => [field.key, field.defaultValue ?? ""])
+    )
+  );
+
+  const output = useMemo(
+    () =>
+      renderTemplate(snippet.code, values, { variables: snippet.variables }),
+    [snippet.code, snippet.variables, values]
+  );
+
+  const getFieldLabel = (field: TemplateField): string => {
+    if (field.index !== undefined) {
+      return `Tabstop ${field.index}`;
+    }
+    return field.name as string;
+  };
+
+  const handleChange = (key: string, value: string) => {
+    setValues((previous) => ({ ...previous, [key]: value }));
+  };
+
+  // Rendered into the body so the card's drag transform does not affect it
+  return createPortal(
+    <div className="template-fill-overlay" onClick={onClose}>
+      <div
+        className="template-fill-dialog"
+        role="dialog"
+        aria-label={`Fill in ${snippet.title}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="template-fill-header">
+          <h3>Fill in "{snippet.title}"</h3>
+          <button
+            type="button"
+            className="template-fill-close"
+            aria-label="Close"
+            onClick={onClose}
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="template-fill-content">
+          {fields.map((field) => {
+            const id = `template-field-${field.key}`;
+            return (
+              <div key={field.key} className="template-fill-field">
+                <label htmlFor={id}>{getFieldLabel(field)}</label>
+                {field.choices ? (
+                  <select
+                    id={id}
+                    value={values[field.key]}
+                    onChange={(e) => handleChange(field.key, e.target.value)}
+                  >
+                    {field.choices.map((choice) => (
+                      <option key={choice} value={choice}>
+                        {choice}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    id={id}
+                    type="text"
+                    value={values[field.key]}
+                    onChange={(e) => handleChange(field.key, e.target.value)}
+                  />
+                )}
+                {field.description && (
+                  <span className="template-fill-description">
+                    {field.description}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+
+          <pre className="template-fill-output" data-testid="template-output">
+            {output}
+          </pre>
+        </div>
+
+        <div className="template-fill-actions">
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={() => onCopy(output)}>
+            Copy to Clipboard
+          </Button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default TemplateFillDialog;
@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useAppDispatch, useAppSelector } from "../../store/hooks";
+import { fetchSnippets } from "../../store/slices/snippetsSlice";
+import { addNotification } from "../../store/slices/uiSlice";
+import { snippetAPI } from "../../services/api";
+import { TagAliases } from "../../../../types";
+import Button from "../../components/UI/Button";
+import Input from "../../components/UI/Input";
+import Select from "../../components/UI/Select";
+import "./TagsPage.css";
+
+const TagsPage: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const snippets = useAppSelector((state) => state.snippets.items);
+  const [aliases, setAliases] = useState<TagAliases>({});
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [keepAlias, setKeepAlias] = useState(true);
+  const [renaming, setRenaming] = useState(false);
+  const [alias, setAlias] = useState("");
+  const [aliasTag, setAliasTag] = useState("");
+
+  useEffect(() => {
+    dispatch(fetchSnippets());
+    snippetAPI
+      .getTagAliases()
+      .then(setAliases)
+      .catch(() =>
+        dispatch(
+          addNotification({
+            type: "error",
+            message: "Failed to load tag aliases",
+          })
+        )
+      );
+  }, [dispatch]);
+
+  // Tags with the number of snippets using them, most used first
+  const tagCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const snippet of snippets) {
+      for (const tag of snippet.tags) {
+        counts.set(tag, (counts.get(tag) || 0) + 1);
+      }
+    }
+    return Array.from(counts).sort(
+      (a, b) => b[1] - a[1] || a[0].localeCompare(b[0])
+    );
+  }, [snippets]);
+
+  const notifyError = (err: unknown, fallback: string) => {
+    dispatch(
+      addNotification({
+        type: "error",
+        message: err instanceof Error ? err.message : fallback,
+      })
+    );
+  };
+
+  const handleRename = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setRenaming(true);
+    try {
+      const result = await snippetAPI.renameTag(from, to.trim(), keepAlias);
+      dispatch(
+        addNotification({
+          type: "success",
+          message: `Renamed "${from}" in ${result.renamed} snippets`,
+        })
+      );
+      setFrom("");
+      setTo("");
+      dispatch(fetchSnippets());
+      setAliases(await snippetAPI.getTagAliases());
+    } catch (err) {
+      notifyError(err, "Failed to rename tag");
+    } finally {
+      setRenaming(false);
+    }
+  };
+
+  const handleAddAlias = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      setAliases(await snippetAPI.setTagAlias(alias.trim(), aliasTag.trim()));
+      setAlias("");
+      setAliasTag("");
+      // Snippets tagged with the alias were retagged
+      dispatch(fetchSnippets());
+    } catch (err) {
+      notifyError(err, "Failed to add tag alias");
+    }
+  };
+
+  const handleRemoveAlias = async (name: string) => {
+    try {
+      setAliases(await snippetAPI.removeTagAlias(name));
+    } catch (err) {
+      notifyError(err, "Failed to remove tag alias");
+    }
+  };
+
+  return (
+    <div className="tags-page" data-testid="tags-page">
+      <h2>Tags</h2>
+
+      <section className="tags-section">
+        <h3>Rename or merge</h3>
+        <p className="tags-help">
+          Renaming a tag to one that already exists merges the two. Every
+          snippet is retagged at once.
+        </p>
+        <form className="tags-form" onSubmit={handleRename}>
+          <Select
+            label="Tag"
+            value={from}
+            options={[
+              { value: "", label: "Choose a tag" },
+              ...tagCounts.map(([tag, count]) => ({
+                value: tag,
+                label: `${tag} (${count})`,
+              })),
+            ]}
+            onChange={(event) => setFrom(event.target.value)}
+          />
+          <Input
+            label="New name"
+            value={to}
+            onChange={(event) => setTo(event.target.value)}
+          />
+          <label className="tags-checkbox">
+            <input
+              type="checkbox"
+              checked={keepAlias}
+              onChange={(event) => setKeepAlias(event.target.checked)}
+            />
+            Keep the old name as an alias
+          </label>
+          <Button
+            type="submit"
+            loading={renaming}
+            disabled={!from || !to.trim()}
+          >
+            Rename
+          </Button>
+        </form>
+      </section>
+
+      <section className="tags-section">
+        <h3>Aliases</h3>
+        <p className="tags-help">
+          Aliases are replaced by their tag when snippets are saved, and
+          searching for an alias finds the tag.
+        </p>
+        {Object.keys(aliases).length === 0 ? (
+          <p className="tags-help">No aliases yet.</p>
+        ) : (
+          <ul className="tags-aliases" data-testid="tag-aliases">
+            {Object.entries(aliases).map(([name, tag]) => (
+              <li key={name} className="tags-alias">
+                <span>
+                  <code>{name}</code> → <code>{tag}</code>
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-label={`Remove alias ${name}`}
+                  onClick={() => handleRemoveAlias(name)}
+                >
+                  ✕
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form className="tags-form" onSubmit={handleAddAlias}>
+          <Input
+            label="Alias"
+            value={alias}
+            placeholder="js"
+            onChange={(event) => setAlias(event.target.value)}
+          />
+          <Input
+            label="Stands for"
+            value={aliasTag}
+            placeholder="javascript"
+            onChange={(event) => setAliasTag(event.target.value)}
+          />
+          <Button type="submit" disabled={!alias.trim() || !aliasTag.trim()}>
+            Add Alias
+          </Button>
+        </form>
+      </section>
+    </div>
+  );
+};
+
+export default TagsPage;
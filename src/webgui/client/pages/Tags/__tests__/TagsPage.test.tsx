@@ -0,0 +1,117 @@
+import React from "react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { Provider } from "react-redux";
+import { MemoryRouter } from "react-router-dom";
+import { configureStore } from "@reduxjs/toolkit";
+import "@testing-library/jest-dom";
+import TagsPage from "../TagsPage";
+import snippetsReducer from "../../../store/slices/snippetsSlice";
+import uiReducer from "../../../store/slices/uiSlice";
+
+// Mock the API
+vi.mock("../../../services/api", () => ({
+  snippetAPI: {
+    getAll: vi.fn(),
+    getTagAliases: vi.fn(),
+    setTagAlias: vi.fn(),
+    removeTagAlias: vi.fn(),
+    renameTag: vi.fn(),
+  },
+}));
+
+const { snippetAPI } = await import("../../../services/api");
+const mockSnippetAPI = snippetAPI as any;
+
+const createSnippet = (id: string, tags: string[]) => ({
+  id,
+  title: `Snippet ${id}`,
+  description: "",
+  code: "console.log('hello')",
+  language: "javascript",
+  tags,
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+  usageCount: 0,
+});
+
+const renderPage = () => {
+  const store = configureStore({
+    reducer: {
+      snippets: snippetsReducer,
+      ui: uiReducer,
+    },
+    middleware: (getDefaultMiddleware) =>
+      getDefaultMiddleware({
+        serializableCheck: false, // Disable for tests
+      }),
+  });
+  render(
+    <Provider store={store}>
+      <MemoryRouter>
+        <TagsPage />
+      </MemoryRouter>
+    </Provider>
+  );
+  return store;
+};
+
+describe("TagsPage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSnippetAPI.getAll.mockResolvedValue([
+      createSnippet("1", ["js", "react"]),
+      createSnippet("2", ["js"]),
+    ]);
+    mockSnippetAPI.getTagAliases.mockResolvedValue({ es: "javascript" });
+  });
+
+  it("lists tags with counts and aliases", async () => {
+    renderPage();
+
+    expect(
+      await screen.findByRole("option", { name: "js (2)" })
+    ).toBeInTheDocument();
+    expect(screen.getByRole("option", { name: "react (1)" })).toBeVisible();
+    expect(await screen.findByTestId("tag-aliases")).toHaveTextContent(
+      "es → javascript"
+    );
+  });
+
+  it("renames a tag and keeps the old name as an alias", async () => {
+    mockSnippetAPI.renameTag.mockResolvedValue({ renamed: 2 });
+    const store = renderPage();
+    await screen.findByRole("option", { name: "js (2)" });
+
+    fireEvent.change(screen.getByLabelText("Tag"), {
+      target: { value: "js" },
+    });
+    fireEvent.change(screen.getByLabelText("New name"), {
+      target: { value: "javascript" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Rename" }));
+
+    await waitFor(() => {
+      expect(mockSnippetAPI.renameTag).toHaveBeenCalledWith(
+        "js",
+        "javascript",
+        true
+      );
+    });
+    await waitFor(() => {
+      expect(store.getState().ui.notifications[0].message).toBe(
+        'Renamed "js" in 2 snippets'
+      );
+    });
+  });
+
+  it("removes an alias", async () => {
+    mockSnippetAPI.removeTagAlias.mockResolvedValue({});
+    renderPage();
+
+    fireEvent.click(await screen.findByLabelText("Remove alias es"));
+
+    expect(await screen.findByText("No aliases yet.")).toBeInTheDocument();
+    expect(mockSnippetAPI.removeTagAlias).toHaveBeenCalledWith("es");
+  });
+});
@@ -1,109 +1,320 @@
 import { Snippet } from "../../types/Snippet";
 import { SearchQuery } from "../../types/SearchQuery";
+import {
+  SnippetRevision,
+  RevisionDiff,
+  ConflictDetails,
+  ConflictFieldResolution,
+  DuplicateGroup,
+  AdvancedSearchQuery,
+  SavedSearchSummary,
+  SnippetCollection,
+  TagAliases,
+  UsageSource,
+  UsageReport,
+  UsageReportOptions,
+  LibraryDashboard,
+  LintReport,
+} from "../../../types";
 
-const API_BASE_URL = "/api";
+/**
+ * Formats offered by the export endpoint
+ */
+export type ExportFormat = "json" | "yaml" | "vscode" | "markdown";
 
-class SnippetAPI {
-  private async request<T>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<T> {
-    const url = `${API_BASE_URL}${endpoint}`;
-    const config: RequestInit = {
-      headers: {
-        "Content-Type": "application/json",
-        ...options.headers,
-      },
-      ...options,
-    };
+import { ListSnippetsInput, createApiClient } from "./apiClient";
+
+/**
+ * Filters and sort order of a list of snippets
+ */
+export type SnippetListQuery = Omit<
+  ListSnippetsInput,
+  "limit" | "offset" | "cursor" | "fields"
+>;
 
-    const response = await fetch(url, config);
+/**
+ * Page of a list of snippets, with the cursor of the next one
+ */
+export interface SnippetListPage {
+  items: Snippet[];
+  total: number;
+  nextCursor?: string;
+}
 
-    if (!response.ok) {
-      const errorData = (await response.json().catch(() => ({}))) as any;
-      throw new Error(
-        errorData.message || `HTTP ${response.status}: ${response.statusText}`
-      );
-    }
+/**
+ * What the sidebar and filters need to know about every snippet
+ */
+export type SnippetSummary = Pick<
+  Snippet,
+  "id" | "language" | "tags" | "category" | "source"
+>;
 
-    return response.json() as Promise<T>;
-  }
+// Largest page the API hands out; whole lists are read page by page
+const PAGE_SIZE = 500;
 
+/**
+ * Read every page of a list, following the cursors so that changes in
+ * between neither skip nor repeat items
+ */
+async function fetchAll<T>(
+  fetchPage: (page: {
+    limit: number;
+    cursor?: string;
+  }) => Promise<{ items: T[]; nextCursor?: string }>
+): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await fetchPage({ limit: PAGE_SIZE, cursor });
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return items;
+}
+
+/**
+ * Methods of the Web GUI for version 1 of the API, on top of the client
+ * generated from its OpenAPI document
+ */
+class SnippetAPI {
+  private client = createApiClient({ baseUrl: "/api/v1" });
+
+  // Lists send whole snippets unless they are asked for some fields
   async getAll(): Promise<Snippet[]> {
-    return this.request<Snippet[]>("/snippets");
+    return fetchAll((page) => this.client.listSnippets(page)) as Promise<
+      Snippet[]
+    >;
+  }
+
+  async getPage(
+    query: SnippetListQuery,
+    options: { limit: number; cursor?: string }
+  ): Promise<SnippetListPage> {
+    const { items, total, nextCursor } = await this.client.listSnippets({
+      ...query,
+      ...options,
+    });
+    return { items: items as Snippet[], total, nextCursor };
+  }
+
+  async getSummaries(): Promise<SnippetSummary[]> {
+    return fetchAll((page) =>
+      this.client.listSnippets({
+        ...page,
+        fields: ["language", "tags", "category", "source"],
+      })
+    ) as Promise<SnippetSummary[]>;
   }
 
   async getById(id: string): Promise<Snippet> {
-    return this.request<Snippet>(`/snippets/${id}`);
+    return this.client.getSnippet({ id });
   }
 
   async create(
     snippet: Omit<Snippet, "id" | "createdAt" | "updatedAt" | "usageCount">
   ): Promise<Snippet> {
-    return this.request<Snippet>("/snippets", {
-      method: "POST",
-      body: JSON.stringify(snippet),
-    });
+    return this.client.createSnippet({ body: snippet });
   }
 
   async update(id: string, updates: Partial<Snippet>): Promise<Snippet> {
-    return this.request<Snippet>(`/snippets/${id}`, {
-      method: "PUT",
-      body: JSON.stringify(updates),
-    });
+    return this.client.updateSnippet({ id, body: updates });
   }
 
   async delete(id: string): Promise<void> {
-    await this.request<void>(`/snippets/${id}`, {
-      method: "DELETE",
-    });
+    await this.client.deleteSnippet({ id });
   }
 
-  async search(query: SearchQuery): Promise<Snippet[]> {
-    return this.request<Snippet[]>("/snippets/search", {
-      method: "POST",
-      body: JSON.stringify(query),
+  async getHistory(id: string): Promise<SnippetRevision[]> {
+    return fetchAll((page) => this.client.listRevisions({ id, ...page }));
+  }
+
+  async diffRevisions(
+    id: string,
+    fromRevision: number,
+    toRevision: number
+  ): Promise<RevisionDiff> {
+    return this.client.diffRevisions({
+      id,
+      from: fromRevision,
+      to: toRevision,
     });
   }
 
-  async import(
-    file: File
-  ): Promise<{ imported: number; skipped: number; errors: string[] }> {
-    const formData = new FormData();
-    formData.append("file", file);
+  async rollback(id: string, revision: number): Promise<Snippet> {
+    return this.client.rollbackSnippet({ id, revision });
+  }
 
-    const response = await fetch(`${API_BASE_URL}/snippets/import`, {
-      method: "POST",
-      body: formData,
-    });
+  // Values missing from one side of a conflict are left out of the JSON,
+  // so the client types them as optional
+  async getConflicts(): Promise<ConflictDetails[]> {
+    return fetchAll((page) => this.client.listConflicts(page)) as Promise<
+      ConflictDetails[]
+    >;
+  }
+
+  async getConflict(id: string): Promise<ConflictDetails> {
+    return this.client.getConflict({ id }) as Promise<ConflictDetails>;
+  }
+
+  async resolveConflict(
+    id: string,
+    resolution: ConflictFieldResolution
+  ): Promise<Snippet> {
+    return this.client.resolveConflict({ id, body: resolution });
+  }
 
-    if (!response.ok) {
-      const errorData = (await response.json().catch(() => ({}))) as any;
-      throw new Error(
-        errorData.message || `HTTP ${response.status}: ${response.statusText}`
-      );
-    }
+  async getDuplicates(threshold?: number): Promise<DuplicateGroup[]> {
+    return fetchAll((page) =>
+      this.client.listDuplicates({ threshold, ...page })
+    );
+  }
 
-    return response.json() as Promise<{
-      imported: number;
-      skipped: number;
-      errors: string[];
-    }>;
+  async mergeDuplicates(
+    targetId: string,
+    sourceIds: string[]
+  ): Promise<Snippet> {
+    return this.client.mergeDuplicates({ body: { targetId, sourceIds } });
   }
 
-  async export(format: "json" | "yaml" = "json"): Promise<Blob> {
-    const response = await fetch(
-      `${API_BASE_URL}/snippets/export?format=${format}`
+  async search(query: SearchQuery): Promise<Snippet[]> {
+    const { sortBy, sortOrder, ...filter } = query;
+    return fetchAll((page) =>
+      this.client.searchSnippets({
+        ...page,
+        sort: sortBy,
+        order: sortOrder,
+        body: filter,
+      })
     );
+  }
 
-    if (!response.ok) {
-      const errorData = (await response.json().catch(() => ({}))) as any;
-      throw new Error(
-        errorData.message || `HTTP ${response.status}: ${response.statusText}`
-      );
-    }
+  async getSavedSearches(): Promise<SavedSearchSummary[]> {
+    return fetchAll((page) => this.client.listSavedSearches(page));
+  }
+
+  async createSavedSearch(
+    name: string,
+    query: AdvancedSearchQuery
+  ): Promise<SavedSearchSummary> {
+    return this.client.createSavedSearch({ body: { name, query } });
+  }
+
+  async updateSavedSearch(
+    id: string,
+    updates: { name?: string; query?: AdvancedSearchQuery }
+  ): Promise<SavedSearchSummary> {
+    return this.client.updateSavedSearch({ id, body: updates });
+  }
 
-    return response.blob();
+  async deleteSavedSearch(id: string): Promise<void> {
+    await this.client.deleteSavedSearch({ id });
+  }
+
+  async getCollections(): Promise<SnippetCollection[]> {
+    return fetchAll((page) => this.client.listCollections(page));
+  }
+
+  async createCollection(
+    name: string,
+    options: { description?: string; parentId?: string } = {}
+  ): Promise<SnippetCollection> {
+    return this.client.createCollection({ body: { name, ...options } });
+  }
+
+  async updateCollection(
+    id: string,
+    updates: { name?: string; description?: string; parentId?: string | null }
+  ): Promise<SnippetCollection> {
+    return this.client.updateCollection({ id, body: updates });
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    await this.client.deleteCollection({ id });
+  }
+
+  async addToCollection(
+    id: string,
+    snippetIds: string[],
+    index?: number
+  ): Promise<SnippetCollection> {
+    return this.client.addToCollection({ id, body: { snippetIds, index } });
+  }
+
+  async reorderCollection(
+    id: string,
+    snippetIds: string[]
+  ): Promise<SnippetCollection> {
+    return this.client.reorderCollection({ id, body: { snippetIds } });
+  }
+
+  async removeFromCollection(
+    id: string,
+    snippetId: string
+  ): Promise<SnippetCollection> {
+    return this.client.removeFromCollection({ id, snippetId });
+  }
+
+  async getTagAliases(): Promise<TagAliases> {
+    return this.client.getTagAliases();
+  }
+
+  async setTagAlias(alias: string, tag: string): Promise<TagAliases> {
+    return this.client.setTagAlias({ alias, body: { tag } });
+  }
+
+  async removeTagAlias(alias: string): Promise<TagAliases> {
+    return this.client.removeTagAlias({ alias });
+  }
+
+  async renameTag(
+    from: string,
+    to: string,
+    keepAlias = false
+  ): Promise<{ renamed: number }> {
+    return this.client.renameTag({ body: { from, to, keepAlias } });
+  }
+
+  async recordUsage(
+    id: string,
+    source: UsageSource = "webCopy"
+  ): Promise<Snippet> {
+    return this.client.recordUsage({ id, body: { source } });
+  }
+
+  async getUsageReport(options: UsageReportOptions = {}): Promise<UsageReport> {
+    return this.client.getUsageReport(options);
+  }
+
+  async getDashboard(): Promise<LibraryDashboard> {
+    return this.client.getDashboard();
+  }
+
+  async lint(): Promise<LintReport> {
+    return this.client.lintLibrary();
+  }
+
+  async fixLintIssues(snippetIds?: string[]): Promise<{ fixed: number }> {
+    return this.client.fixLintIssues({ body: { snippetIds } });
+  }
+
+  async import(
+    file: File,
+    options: {
+      conflictResolution?: "skip" | "overwrite" | "rename";
+      language?: string;
+    } = {}
+  ): Promise<{ imported: number; skipped: number; errors: string[] }> {
+    return this.client.importSnippets({ body: { file, ...options } });
+  }
+
+  async export(
+    format: ExportFormat = "json",
+    collectionId?: string
+  ): Promise<Blob> {
+    return this.client.exportSnippets({
+      format,
+      collections: collectionId ? [collectionId] : undefined,
+    });
   }
 }
 
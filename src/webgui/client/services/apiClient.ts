@@ -0,0 +1,1099 @@
+/**
+ * Client for Snippet Library API 1.0.0.
+ *
+ * Generated from the OpenAPI document by npm run generate:api-client;
+ * do not edit.
+ */
+
+export interface ErrorResponse {
+  error: string;
+  message: string;
+  details?: unknown;
+}
+
+export interface SnippetVariable {
+  name: string;
+  description?: string;
+  defaultValue?: string;
+  choices?: string[];
+}
+
+export interface Snippet {
+  id: string;
+  title: string;
+  description: string;
+  code: string;
+  language: string;
+  tags: string[];
+  category?: string;
+  prefix?: string;
+  prefixAliases?: string[];
+  scope?: string[];
+  variables?: SnippetVariable[];
+  createdAt: Date;
+  updatedAt: Date;
+  usageCount: number;
+  source?: "global" | "workspace" | "team";
+}
+
+export interface SnippetData {
+  title: string;
+  description?: string;
+  code: string;
+  language: string;
+  tags?: string[];
+  category?: string;
+  prefix?: string;
+  prefixAliases?: string[];
+  scope?: string[];
+  variables?: SnippetVariable[];
+}
+
+export interface SnippetUpdate {
+  title?: string;
+  description?: string;
+  code?: string;
+  language?: string;
+  tags?: string[];
+  category?: string;
+  prefix?: string;
+  prefixAliases?: string[];
+  scope?: string[];
+  variables?: SnippetVariable[];
+}
+
+export interface SnippetPage {
+  items: Snippet[];
+  total: number;
+  limit: number;
+  offset: number;
+  /** Cursor of the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+/** Snippet with the fields a list asked for */
+export interface PartialSnippet {
+  id: string;
+  title?: string;
+  description?: string;
+  code?: string;
+  language?: string;
+  tags?: string[];
+  category?: string;
+  prefix?: string;
+  prefixAliases?: string[];
+  scope?: string[];
+  variables?: SnippetVariable[];
+  createdAt?: Date;
+  updatedAt?: Date;
+  usageCount?: number;
+  source?: "global" | "workspace" | "team";
+}
+
+export interface PartialSnippetPage {
+  items: PartialSnippet[];
+  total: number;
+  limit: number;
+  offset: number;
+  /** Cursor of the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+export interface SearchFilter {
+  field:
+    | "title"
+    | "description"
+    | "code"
+    | "tags"
+    | "category"
+    | "language"
+    | "text"
+    | "calls"
+    | "defines"
+    | "usageCount"
+    | "createdAt"
+    | "updatedAt";
+  operator:
+    | "contains"
+    | "equals"
+    | "startsWith"
+    | "endsWith"
+    | "regex"
+    | "not"
+    | "greaterThan"
+    | "lessThan"
+    | "atLeast"
+    | "atMost";
+  value: string;
+  caseSensitive?: boolean;
+}
+
+/** Text may use the search query syntax, e.g. lang:ts tag:ui */
+export interface SearchQuery {
+  text?: string;
+  language?: string;
+  tags?: string[];
+  category?: string;
+  source?: "global" | "workspace" | "team";
+  dateRange?: {
+    start: Date;
+    end: Date;
+  };
+  filters?: SearchFilter[];
+  operator?: "and" | "or";
+}
+
+export interface SnippetRevision {
+  snippetId: string;
+  revision: number;
+  timestamp: Date;
+  source:
+    | "extension"
+    | "webgui"
+    | "import"
+    | "sync"
+    | "rollback"
+    | "merge"
+    | "cli"
+    | "unknown";
+  author?: string;
+  changedFields: Array<
+    | "title"
+    | "description"
+    | "code"
+    | "language"
+    | "tags"
+    | "category"
+    | "prefix"
+    | "prefixAliases"
+    | "scope"
+    | "variables"
+  >;
+  snapshot: {
+    title: string;
+    description: string;
+    code: string;
+    language: string;
+    tags: string[];
+    category?: string;
+    prefix?: string;
+    prefixAliases?: string[];
+    scope?: string[];
+    variables?: SnippetVariable[];
+  };
+}
+
+export interface RevisionPage {
+  items: SnippetRevision[];
+  total: number;
+  limit: number;
+  offset: number;
+  /** Cursor of the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+export interface DiffLine {
+  type: "unchanged" | "added" | "removed";
+  content: string;
+  oldLineNumber?: number;
+  newLineNumber?: number;
+}
+
+export interface RevisionDiff {
+  snippetId: string;
+  fromRevision: number;
+  toRevision: number;
+  changedFields: Array<
+    | "title"
+    | "description"
+    | "code"
+    | "language"
+    | "tags"
+    | "category"
+    | "prefix"
+    | "prefixAliases"
+    | "scope"
+    | "variables"
+  >;
+  fields: Record<string, {
+    from?: unknown;
+    to?: unknown;
+  }>;
+  codeDiff: DiffLine[];
+}
+
+export interface ConflictFieldDiff {
+  field:
+    | "title"
+    | "description"
+    | "code"
+    | "language"
+    | "tags"
+    | "category"
+    | "prefix"
+    | "prefixAliases"
+    | "scope"
+    | "variables";
+  local?: unknown;
+  remote?: unknown;
+  base?: unknown;
+  diff?: DiffLine[];
+}
+
+export interface Conflict {
+  id: string;
+  snippetId: string;
+  type: string;
+  source: "vscode" | "webgui" | "filesystem" | "git";
+  severity: "low" | "medium" | "high";
+  autoResolvable: boolean;
+  detectedAt: Date;
+  localSnippet: Snippet;
+  remoteSnippet: Snippet;
+  baseSnippet?: Snippet;
+  fields: ConflictFieldDiff[];
+}
+
+export interface ConflictPage {
+  items: Conflict[];
+  total: number;
+  limit: number;
+  offset: number;
+  /** Cursor of the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+/** Version to keep field by field, and edited values */
+export interface ConflictResolution {
+  fields?: Record<string, "local" | "remote">;
+  merged?: SnippetUpdate;
+}
+
+export interface DuplicateGroup {
+  id: string;
+  snippets: Snippet[];
+  similarity: number;
+  exact: boolean;
+}
+
+export interface DuplicateGroupPage {
+  items: DuplicateGroup[];
+  total: number;
+  limit: number;
+  offset: number;
+  /** Cursor of the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: SearchQuery;
+  createdAt: Date;
+  lastUsed: Date;
+  useCount: number;
+  count: number;
+}
+
+export interface SavedSearchPage {
+  items: SavedSearch[];
+  total: number;
+  limit: number;
+  offset: number;
+  /** Cursor of the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+export interface Collection {
+  id: string;
+  name: string;
+  description?: string;
+  parentId?: string;
+  snippetIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CollectionPage {
+  items: Collection[];
+  total: number;
+  limit: number;
+  offset: number;
+  /** Cursor of the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+export interface CategoryNode {
+  name: string;
+  path: string;
+  count: number;
+  children: CategoryNode[];
+}
+
+/** Tags by the alias that stands for them */
+export type TagAliases = Record<string, string>;
+
+export interface UsageReport {
+  start: Date;
+  end: Date;
+  days: string[];
+  staleDays: number;
+  total: {
+    total: number;
+    daily: number[];
+  };
+  sources: Record<string, number>;
+  snippets: {
+    total: number;
+    daily: number[];
+    snippet: Snippet;
+    lastUsed?: Date;
+  }[];
+  languages: {
+    total: number;
+    daily: number[];
+    language: string;
+  }[];
+  tags: {
+    total: number;
+    daily: number[];
+    tag: string;
+  }[];
+  neverUsed: Snippet[];
+  stale: {
+    snippet: Snippet;
+    lastUsed?: Date;
+  }[];
+}
+
+export interface LibraryCount {
+  name: string;
+  count: number;
+}
+
+export interface LibraryDashboard {
+  total: number;
+  totalUsage: number;
+  languages: LibraryCount[];
+  categories: LibraryCount[];
+  tags: LibraryCount[];
+  recentlyCreated: Snippet[];
+  recentlyUpdated: Snippet[];
+  mostUsed: Snippet[];
+  growth: {
+    month: string;
+    added: number;
+    total: number;
+  }[];
+  health: {
+    kind: "missingDescription" | "untagged" | "duplicates";
+    message: string;
+    snippets: Snippet[];
+  }[];
+}
+
+export interface LintIssue {
+  rule:
+    | "invalid"
+    | "missingDescription"
+    | "languageMismatch"
+    | "unbalancedBrackets"
+    | "trailingWhitespace"
+    | "secret"
+    | "duplicatePrefix"
+    | "longTitle"
+    | "unusedTag";
+  severity: "error" | "warning" | "info";
+  message: string;
+  snippetId?: string;
+  line?: number;
+  fix?: {
+    description: string;
+    changes: SnippetUpdate;
+  };
+}
+
+export interface LintReport {
+  checked: number;
+  issues: LintIssue[];
+  counts: {
+    error: number;
+    warning: number;
+    info: number;
+  };
+  fixable: number;
+}
+
+export interface ImportSummary {
+  imported: number;
+  skipped: number;
+  errors: string[];
+}
+
+export interface ListSnippetsInput {
+  /** Query in the search syntax */
+  q?: string;
+  language?: string;
+  tags?: string[];
+  category?: string;
+  source?: "global" | "workspace" | "team";
+  /** Fields to send besides id; all when not given */
+  fields?: Array<
+    | "title"
+    | "description"
+    | "code"
+    | "language"
+    | "tags"
+    | "category"
+    | "prefix"
+    | "prefixAliases"
+    | "scope"
+    | "variables"
+    | "createdAt"
+    | "updatedAt"
+    | "usageCount"
+    | "source"
+  >;
+  limit?: number;
+  offset?: number;
+  /** nextCursor of the previous page, to continue after it */
+  cursor?: string;
+  /** Items keep their default order when not given */
+  sort?:
+    | "title"
+    | "language"
+    | "category"
+    | "createdAt"
+    | "updatedAt"
+    | "usageCount";
+  order?: "asc" | "desc";
+}
+
+export interface CreateSnippetInput {
+  body: SnippetData;
+}
+
+export interface SearchSnippetsInput {
+  limit?: number;
+  offset?: number;
+  /** nextCursor of the previous page, to continue after it */
+  cursor?: string;
+  /** Items keep their default order when not given */
+  sort?:
+    | "title"
+    | "language"
+    | "category"
+    | "createdAt"
+    | "updatedAt"
+    | "usageCount";
+  order?: "asc" | "desc";
+  body: SearchQuery;
+}
+
+export interface ExportSnippetsInput {
+  format?: "json" | "yaml" | "vscode" | "markdown";
+  tags?: string[];
+  languages?: string[];
+  categories?: string[];
+  /** Collection IDs; subcollections are included */
+  collections?: string[];
+}
+
+export interface ImportSnippetsInput {
+  body: {
+    /** Export, YAML, VS Code snippet or Markdown file */
+    file: Blob;
+    conflictResolution?: "skip" | "overwrite" | "rename";
+    /** Language of snippets that do not name one */
+    language?: string;
+  };
+}
+
+export interface GetSnippetInput {
+  id: string;
+}
+
+export interface UpdateSnippetInput {
+  id: string;
+  body: SnippetUpdate;
+}
+
+export interface DeleteSnippetInput {
+  id: string;
+}
+
+export interface RecordUsageInput {
+  id: string;
+  body?: {
+    source?:
+      | "completion"
+      | "insert"
+      | "quickInsert"
+      | "webCopy"
+      | "cli"
+      | "unknown";
+  };
+}
+
+export interface ListRevisionsInput {
+  id: string;
+  limit?: number;
+  offset?: number;
+  /** nextCursor of the previous page, to continue after it */
+  cursor?: string;
+  /** Items keep their default order when not given */
+  sort?: "revision" | "timestamp";
+  order?: "asc" | "desc";
+}
+
+export interface DiffRevisionsInput {
+  id: string;
+  from: number;
+  to: number;
+}
+
+export interface RollbackSnippetInput {
+  id: string;
+  revision: number;
+}
+
+export interface ListDuplicatesInput {
+  /** Lowest similarity to report, 0.9 by default */
+  threshold?: number;
+  limit?: number;
+  offset?: number;
+  /** nextCursor of the previous page, to continue after it */
+  cursor?: string;
+  /** Items keep their default order when not given */
+  sort?: "similarity";
+  order?: "asc" | "desc";
+}
+
+export interface MergeDuplicatesInput {
+  body: {
+    targetId: string;
+    sourceIds: string[];
+  };
+}
+
+export interface ListConflictsInput {
+  limit?: number;
+  offset?: number;
+  /** nextCursor of the previous page, to continue after it */
+  cursor?: string;
+  /** Items keep their default order when not given */
+  sort?: "detectedAt";
+  order?: "asc" | "desc";
+}
+
+export interface GetConflictInput {
+  id: string;
+}
+
+export interface ResolveConflictInput {
+  id: string;
+  body: ConflictResolution;
+}
+
+export interface ListSavedSearchesInput {
+  limit?: number;
+  offset?: number;
+  /** nextCursor of the previous page, to continue after it */
+  cursor?: string;
+  /** Items keep their default order when not given */
+  sort?: "name" | "createdAt" | "lastUsed" | "useCount" | "count";
+  order?: "asc" | "desc";
+}
+
+export interface CreateSavedSearchInput {
+  body: {
+    name: string;
+    query: SearchQuery;
+  };
+}
+
+export interface UpdateSavedSearchInput {
+  id: string;
+  body?: {
+    name?: string;
+    query?: SearchQuery;
+  };
+}
+
+export interface DeleteSavedSearchInput {
+  id: string;
+}
+
+export interface RunSavedSearchInput {
+  id: string;
+  limit?: number;
+  offset?: number;
+  /** nextCursor of the previous page, to continue after it */
+  cursor?: string;
+  /** Items keep their default order when not given */
+  sort?:
+    | "title"
+    | "language"
+    | "category"
+    | "createdAt"
+    | "updatedAt"
+    | "usageCount";
+  order?: "asc" | "desc";
+}
+
+export interface ListCollectionsInput {
+  limit?: number;
+  offset?: number;
+  /** nextCursor of the previous page, to continue after it */
+  cursor?: string;
+  /** Items keep their default order when not given */
+  sort?: "name" | "createdAt" | "updatedAt";
+  order?: "asc" | "desc";
+}
+
+export interface CreateCollectionInput {
+  body: {
+    name: string;
+    description?: string;
+    parentId?: string;
+  };
+}
+
+export interface UpdateCollectionInput {
+  id: string;
+  body?: {
+    name?: string;
+    description?: string;
+    /** null moves the collection to the top level */
+    parentId?: string | null;
+  };
+}
+
+export interface DeleteCollectionInput {
+  id: string;
+}
+
+export interface ListCollectionSnippetsInput {
+  id: string;
+  limit?: number;
+  offset?: number;
+  /** nextCursor of the previous page, to continue after it */
+  cursor?: string;
+  /** Items keep their default order when not given */
+  sort?:
+    | "title"
+    | "language"
+    | "category"
+    | "createdAt"
+    | "updatedAt"
+    | "usageCount";
+  order?: "asc" | "desc";
+}
+
+export interface AddToCollectionInput {
+  id: string;
+  body: {
+    snippetIds: string[];
+    index?: number;
+  };
+}
+
+export interface ReorderCollectionInput {
+  id: string;
+  body: {
+    snippetIds: string[];
+  };
+}
+
+export interface RemoveFromCollectionInput {
+  id: string;
+  snippetId: string;
+}
+
+export interface SetTagAliasInput {
+  alias: string;
+  body: {
+    tag: string;
+  };
+}
+
+export interface RemoveTagAliasInput {
+  alias: string;
+}
+
+export interface RenameTagInput {
+  body: {
+    from: string;
+    to: string;
+    keepAlias?: boolean;
+  };
+}
+
+export interface GetUsageReportInput {
+  days?: number;
+  staleDays?: number;
+}
+
+export interface FixLintIssuesInput {
+  body?: {
+    /** Snippets to fix; all of them when not given */
+    snippetIds?: string[];
+  };
+}
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export interface ApiClientOptions {
+  baseUrl?: string; // /api/v1 by default
+  fetch?: typeof fetch;
+}
+
+interface RequestOptions {
+  query?: Record<string, unknown>;
+  json?: unknown;
+  form?: Record<string, unknown>;
+  download?: boolean;
+}
+
+/**
+ * Create a client for the API. Failed requests are thrown as ApiError with
+ * the message of the server.
+ */
+export function createApiClient(options: ApiClientOptions = {}) {
+  const baseUrl = options.baseUrl ?? "/api/v1";
+  const encode = (value: string | number) => encodeURIComponent(String(value));
+
+  const send = async (
+    method: string,
+    path: string,
+    request: RequestOptions = {}
+  ): Promise<any> => {
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(request.query || {})) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (item !== undefined) {
+          params.append(name, String(item));
+        }
+      }
+    }
+    const query = params.toString();
+    const init: RequestInit = { method };
+
+    if (request.form) {
+      const form = new FormData();
+      for (const [name, value] of Object.entries(request.form)) {
+        if (value !== undefined) {
+          form.append(name, value instanceof Blob ? value : String(value));
+        }
+      }
+      init.body = form;
+    } else if (request.json !== undefined) {
+      init.headers = { "Content-Type": "application/json" };
+      init.body = JSON.stringify(request.json);
+    }
+
+    const response = await (options.fetch || fetch)(
+      `${baseUrl}${path}${query ? `?${query}` : ""}`,
+      init
+    );
+    if (!response.ok) {
+      const error = (await response.json().catch(() => ({}))) as any;
+      throw new ApiError(
+        error.message || `HTTP ${response.status}: ${response.statusText}`,
+        response.status,
+        error.details
+      );
+    }
+
+    if (request.download) {
+      return response.blob();
+    }
+    return response.status === 204 ? undefined : response.json();
+  };
+
+  return {
+    /** List snippets, optionally filtered */
+    listSnippets: (
+      input: ListSnippetsInput = {}
+    ): Promise<PartialSnippetPage> =>
+      send("GET", "/snippets", {
+        query: {
+          q: input.q,
+          language: input.language,
+          tags: input.tags,
+          category: input.category,
+          source: input.source,
+          fields: input.fields,
+          limit: input.limit,
+          offset: input.offset,
+          cursor: input.cursor,
+          sort: input.sort,
+          order: input.order,
+        },
+      }),
+    /** Create a snippet */
+    createSnippet: (input: CreateSnippetInput): Promise<Snippet> =>
+      send("POST", "/snippets", {
+        json: input.body,
+      }),
+    /** Search snippets with text and advanced filters */
+    searchSnippets: (input: SearchSnippetsInput): Promise<SnippetPage> =>
+      send("POST", "/snippets/search", {
+        query: {
+          limit: input.limit,
+          offset: input.offset,
+          cursor: input.cursor,
+          sort: input.sort,
+          order: input.order,
+        },
+        json: input.body,
+      }),
+    /** Download snippets as a file */
+    exportSnippets: (input: ExportSnippetsInput = {}): Promise<Blob> =>
+      send("GET", "/snippets/export", {
+        query: {
+          format: input.format,
+          tags: input.tags,
+          languages: input.languages,
+          categories: input.categories,
+          collections: input.collections,
+        },
+        download: true,
+      }),
+    /** Import snippets from a file */
+    importSnippets: (input: ImportSnippetsInput): Promise<ImportSummary> =>
+      send("POST", "/snippets/import", {
+        form: input.body,
+      }),
+    /** Get a snippet */
+    getSnippet: (input: GetSnippetInput): Promise<Snippet> =>
+      send("GET", `/snippets/${encode(input.id)}`),
+    /** Change fields of a snippet */
+    updateSnippet: (input: UpdateSnippetInput): Promise<Snippet> =>
+      send("PATCH", `/snippets/${encode(input.id)}`, {
+        json: input.body,
+      }),
+    /** Delete a snippet */
+    deleteSnippet: (input: DeleteSnippetInput): Promise<void> =>
+      send("DELETE", `/snippets/${encode(input.id)}`),
+    /** Record a use of a snippet */
+    recordUsage: (input: RecordUsageInput): Promise<Snippet> =>
+      send("POST", `/snippets/${encode(input.id)}/usage`, {
+        json: input.body,
+      }),
+    /** List the recorded revisions of a snippet */
+    listRevisions: (input: ListRevisionsInput): Promise<RevisionPage> =>
+      send("GET", `/snippets/${encode(input.id)}/revisions`, {
+        query: {
+          limit: input.limit,
+          offset: input.offset,
+          cursor: input.cursor,
+          sort: input.sort,
+          order: input.order,
+        },
+      }),
+    /** Compare two revisions of a snippet */
+    diffRevisions: (input: DiffRevisionsInput): Promise<RevisionDiff> =>
+      send("GET", `/snippets/${encode(input.id)}/revisions/diff`, {
+        query: {
+          from: input.from,
+          to: input.to,
+        },
+      }),
+    /** Restore a snippet to an earlier revision */
+    rollbackSnippet: (input: RollbackSnippetInput): Promise<Snippet> =>
+      send(
+        "POST",
+        `/snippets/${encode(input.id)}/revisions/${encode(input.revision)}/rollback`
+      ),
+    /** Find groups of snippets with the same or similar code */
+    listDuplicates: (
+      input: ListDuplicatesInput = {}
+    ): Promise<DuplicateGroupPage> =>
+      send("GET", "/duplicates", {
+        query: {
+          threshold: input.threshold,
+          limit: input.limit,
+          offset: input.offset,
+          cursor: input.cursor,
+          sort: input.sort,
+          order: input.order,
+        },
+      }),
+    /** Merge snippets into one, deleting the others */
+    mergeDuplicates: (input: MergeDuplicatesInput): Promise<Snippet> =>
+      send("POST", "/duplicates/merge", {
+        json: input.body,
+      }),
+    /** List conflicts waiting to be resolved */
+    listConflicts: (input: ListConflictsInput = {}): Promise<ConflictPage> =>
+      send("GET", "/conflicts", {
+        query: {
+          limit: input.limit,
+          offset: input.offset,
+          cursor: input.cursor,
+          sort: input.sort,
+          order: input.order,
+        },
+      }),
+    /** Get a conflict with its differing fields */
+    getConflict: (input: GetConflictInput): Promise<Conflict> =>
+      send("GET", `/conflicts/${encode(input.id)}`),
+    /** Resolve a conflict field by field */
+    resolveConflict: (input: ResolveConflictInput): Promise<Snippet> =>
+      send("POST", `/conflicts/${encode(input.id)}/resolve`, {
+        json: input.body,
+      }),
+    /** List saved searches with their current number of matches */
+    listSavedSearches: (
+      input: ListSavedSearchesInput = {}
+    ): Promise<SavedSearchPage> =>
+      send("GET", "/saved-searches", {
+        query: {
+          limit: input.limit,
+          offset: input.offset,
+          cursor: input.cursor,
+          sort: input.sort,
+          order: input.order,
+        },
+      }),
+    /** Save a search under a name */
+    createSavedSearch: (input: CreateSavedSearchInput): Promise<SavedSearch> =>
+      send("POST", "/saved-searches", {
+        json: input.body,
+      }),
+    /** Rename a saved search or change its query */
+    updateSavedSearch: (input: UpdateSavedSearchInput): Promise<SavedSearch> =>
+      send("PATCH", `/saved-searches/${encode(input.id)}`, {
+        json: input.body,
+      }),
+    /** Delete a saved search */
+    deleteSavedSearch: (input: DeleteSavedSearchInput): Promise<void> =>
+      send("DELETE", `/saved-searches/${encode(input.id)}`),
+    /** List the snippets a saved search matches */
+    runSavedSearch: (input: RunSavedSearchInput): Promise<SnippetPage> =>
+      send("GET", `/saved-searches/${encode(input.id)}/snippets`, {
+        query: {
+          limit: input.limit,
+          offset: input.offset,
+          cursor: input.cursor,
+          sort: input.sort,
+          order: input.order,
+        },
+      }),
+    /** List collections, by name unless sorted otherwise */
+    listCollections: (
+      input: ListCollectionsInput = {}
+    ): Promise<CollectionPage> =>
+      send("GET", "/collections", {
+        query: {
+          limit: input.limit,
+          offset: input.offset,
+          cursor: input.cursor,
+          sort: input.sort,
+          order: input.order,
+        },
+      }),
+    /** Create an empty collection */
+    createCollection: (input: CreateCollectionInput): Promise<Collection> =>
+      send("POST", "/collections", {
+        json: input.body,
+      }),
+    /** Rename, describe or move a collection */
+    updateCollection: (input: UpdateCollectionInput): Promise<Collection> =>
+      send("PATCH", `/collections/${encode(input.id)}`, {
+        json: input.body,
+      }),
+    /** Delete a collection, keeping its snippets */
+    deleteCollection: (input: DeleteCollectionInput): Promise<void> =>
+      send("DELETE", `/collections/${encode(input.id)}`),
+    /** List the snippets of a collection, in its order by default */
+    listCollectionSnippets: (
+      input: ListCollectionSnippetsInput
+    ): Promise<SnippetPage> =>
+      send("GET", `/collections/${encode(input.id)}/snippets`, {
+        query: {
+          limit: input.limit,
+          offset: input.offset,
+          cursor: input.cursor,
+          sort: input.sort,
+          order: input.order,
+        },
+      }),
+    /** Add snippets to a collection, at the end by default */
+    addToCollection: (input: AddToCollectionInput): Promise<Collection> =>
+      send("POST", `/collections/${encode(input.id)}/snippets`, {
+        json: input.body,
+      }),
+    /** Put the snippets of a collection in a new order */
+    reorderCollection: (input: ReorderCollectionInput): Promise<Collection> =>
+      send("PUT", `/collections/${encode(input.id)}/snippets`, {
+        json: input.body,
+      }),
+    /** Remove a snippet from a collection */
+    removeFromCollection: (
+      input: RemoveFromCollectionInput
+    ): Promise<Collection> =>
+      send(
+        "DELETE",
+        `/collections/${encode(input.id)}/snippets/${encode(input.snippetId)}`
+      ),
+    /** Get the tree of categories with snippet counts */
+    getCategoryTree: (): Promise<CategoryNode[]> =>
+      send("GET", "/categories"),
+    /** Get the tag aliases of the library */
+    getTagAliases: (): Promise<TagAliases> =>
+      send("GET", "/tags/aliases"),
+    /** Make a tag an alias of another, retagging its snippets */
+    setTagAlias: (input: SetTagAliasInput): Promise<TagAliases> =>
+      send("PUT", `/tags/aliases/${encode(input.alias)}`, {
+        json: input.body,
+      }),
+    /** Remove a tag alias */
+    removeTagAlias: (input: RemoveTagAliasInput): Promise<TagAliases> =>
+      send("DELETE", `/tags/aliases/${encode(input.alias)}`),
+    /** Rename a tag in every snippet */
+    renameTag: (
+      input: RenameTagInput
+    ): Promise<{
+      renamed: number;
+    }> =>
+      send("POST", "/tags/rename", {
+        json: input.body,
+      }),
+    /** Report how snippets were used over the last days */
+    getUsageReport: (input: GetUsageReportInput = {}): Promise<UsageReport> =>
+      send("GET", "/usage", {
+        query: {
+          days: input.days,
+          staleDays: input.staleDays,
+        },
+      }),
+    /** Get an overview of the library */
+    getDashboard: (): Promise<LibraryDashboard> =>
+      send("GET", "/dashboard"),
+    /** Check the library for problems */
+    lintLibrary: (): Promise<LintReport> =>
+      send("GET", "/lint"),
+    /** Apply the safe fixes of lint issues */
+    fixLintIssues: (
+      input: FixLintIssuesInput = {}
+    ): Promise<{
+      fixed: number;
+    }> =>
+      send("POST", "/lint/fix", {
+        json: input.body,
+      }),
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,18 @@
+/**
+ * Web GUI Socket Service
+ * Shares one Socket.IO connection to the server for live updates
+ */
+
+import { io, Socket } from "socket.io-client";
+
+let socket: Socket | null = null;
+
+/**
+ * Get the connection to the server, connecting on first use
+ */
+export function getSocket(): Socket {
+  if (!socket) {
+    socket = io();
+  }
+  return socket;
+}
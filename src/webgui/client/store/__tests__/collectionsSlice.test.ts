@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { configureStore } from "@reduxjs/toolkit";
+import collectionsReducer, {
+  fetchCollections,
+  createCollection,
+  deleteCollection,
+  reorderCollection,
+  collectionsUpdated,
+} from "../slices/collectionsSlice";
+import { SnippetCollection } from "../../../../types";
+
+// Mock the API
+vi.mock("../../services/api", () => ({
+  snippetAPI: {
+    getCollections: vi.fn(),
+    createCollection: vi.fn(),
+    updateCollection: vi.fn(),
+    deleteCollection: vi.fn(),
+    addToCollection: vi.fn(),
+    reorderCollection: vi.fn(),
+    removeFromCollection: vi.fn(),
+  },
+}));
+
+// Import after mocking
+const { snippetAPI } = await import("../../services/api");
+const mockSnippetAPI = snippetAPI as any;
+
+const createCollectionItem = (
+  id: string,
+  name: string,
+  overrides: Partial<SnippetCollection> = {}
+): SnippetCollection => ({
+  id,
+  name,
+  snippetIds: [],
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+  ...overrides,
+});
+
+describe("collectionsSlice", () => {
+  let store: ReturnType<typeof createStore>;
+
+  const createStore = () =>
+    configureStore({
+      reducer: {
+        collections: collectionsReducer,
+      },
+      middleware: (getDefaultMiddleware) =>
+        getDefaultMiddleware({
+          serializableCheck: false, // Disable for tests
+        }),
+    });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    store = createStore();
+    mockSnippetAPI.getCollections.mockResolvedValue([
+      createCollectionItem("c-1", "Frontend"),
+      createCollectionItem("c-2", "React", { parentId: "c-1" }),
+      createCollectionItem("c-3", "Scripts", { snippetIds: ["a", "b"] }),
+    ]);
+    await store.dispatch(fetchCollections());
+  });
+
+  it("should keep created collections sorted by name", async () => {
+    mockSnippetAPI.createCollection.mockResolvedValue(
+      createCollectionItem("c-4", "Backend")
+    );
+
+    await store.dispatch(createCollection({ name: "Backend" }));
+
+    expect(mockSnippetAPI.createCollection).toHaveBeenCalledWith("Backend", {
+      description: undefined,
+      parentId: undefined,
+    });
+    expect(
+      store.getState().collections.items.map((item) => item.name)
+    ).toEqual(["Backend", "Frontend", "React", "Scripts"]);
+  });
+
+  it("should remove subcollections with their parent", async () => {
+    mockSnippetAPI.deleteCollection.mockResolvedValue(undefined);
+
+    await store.dispatch(deleteCollection("c-1"));
+
+    expect(store.getState().collections.items.map((item) => item.id)).toEqual(
+      ["c-3"]
+    );
+  });
+
+  it("should take the order confirmed by the server", async () => {
+    mockSnippetAPI.reorderCollection.mockResolvedValue(
+      createCollectionItem("c-3", "Scripts", { snippetIds: ["b", "a"] })
+    );
+
+    await store.dispatch(
+      reorderCollection({ id: "c-3", snippetIds: ["b", "a"] })
+    );
+
+    const scripts = store
+      .getState()
+      .collections.items.find((item) => item.id === "c-3");
+    expect(scripts?.snippetIds).toEqual(["b", "a"]);
+  });
+
+  it("should replace collections pushed by the server", () => {
+    store.dispatch(
+      collectionsUpdated([createCollectionItem("c-5", "Pushed")])
+    );
+
+    expect(store.getState().collections.items).toHaveLength(1);
+    expect(store.getState().collections.items[0].name).toBe("Pushed");
+  });
+});
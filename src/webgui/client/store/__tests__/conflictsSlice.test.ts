@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { configureStore } from "@reduxjs/toolkit";
+import conflictsReducer, {
+  fetchConflicts,
+  resolveConflict,
+  conflictDetected,
+  conflictResolved,
+} from "../slices/conflictsSlice";
+import { ConflictDetails } from "../../../../types";
+
+// Mock the API
+vi.mock("../../services/api", () => ({
+  snippetAPI: {
+    getConflicts: vi.fn(),
+    resolveConflict: vi.fn(),
+  },
+}));
+
+// Import after mocking
+const { snippetAPI } = await import("../../services/api");
+const mockSnippetAPI = snippetAPI as any;
+
+const createConflict = (id: string): ConflictDetails => {
+  const snippet = {
+    id: "snippet-1",
+    title: "Fetch JSON",
+    description: "",
+    code: "fetch(url);",
+    language: "javascript",
+    tags: [],
+    createdAt: new Date("2024-01-01"),
+    updatedAt: new Date("2024-01-01"),
+    usageCount: 0,
+  };
+  return {
+    id,
+    snippetId: "snippet-1",
+    type: "content",
+    source: "git",
+    severity: "medium",
+    autoResolvable: false,
+    detectedAt: new Date("2024-01-02"),
+    localSnippet: snippet,
+    remoteSnippet: { ...snippet, code: "fetch(url).then(parse);" },
+    fields: [],
+  };
+};
+
+describe("conflictsSlice", () => {
+  let store: ReturnType<typeof createStore>;
+
+  const createStore = () =>
+    configureStore({
+      reducer: {
+        conflicts: conflictsReducer,
+      },
+      middleware: (getDefaultMiddleware) =>
+        getDefaultMiddleware({
+          serializableCheck: false, // Disable for tests
+        }),
+    });
+
+  beforeEach(() => {
+    store = createStore();
+    vi.clearAllMocks();
+  });
+
+  it("should load pending conflicts", async () => {
+    mockSnippetAPI.getConflicts.mockResolvedValue([createConflict("c-1")]);
+
+    await store.dispatch(fetchConflicts());
+
+    const state = store.getState().conflicts;
+    expect(state.loading).toBe(false);
+    expect(state.items.map((item) => item.id)).toEqual(["c-1"]);
+  });
+
+  it("should add and replace conflicts pushed by the server", () => {
+    store.dispatch(conflictDetected(createConflict("c-1")));
+    store.dispatch(conflictDetected(createConflict("c-2")));
+    store.dispatch(
+      conflictDetected({ ...createConflict("c-1"), severity: "high" })
+    );
+
+    const { items } = store.getState().conflicts;
+    expect(items.map((item) => [item.id, item.severity])).toEqual([
+      ["c-1", "high"],
+      ["c-2", "medium"],
+    ]);
+  });
+
+  it("should drop conflicts resolved elsewhere", () => {
+    store.dispatch(conflictDetected(createConflict("c-1")));
+    store.dispatch(conflictResolved("c-1"));
+
+    expect(store.getState().conflicts.items).toEqual([]);
+  });
+
+  it("should remove a conflict once resolved", async () => {
+    store.dispatch(conflictDetected(createConflict("c-1")));
+    mockSnippetAPI.resolveConflict.mockResolvedValue({ id: "snippet-1" });
+
+    await store.dispatch(
+      resolveConflict({ id: "c-1", resolution: { fields: {} } })
+    );
+
+    const state = store.getState().conflicts;
+    expect(mockSnippetAPI.resolveConflict).toHaveBeenCalledWith("c-1", {
+      fields: {},
+    });
+    expect(state.items).toEqual([]);
+    expect(state.resolvingId).toBeNull();
+  });
+
+  it("should keep the conflict when resolving fails", async () => {
+    store.dispatch(conflictDetected(createConflict("c-1")));
+    mockSnippetAPI.resolveConflict.mockRejectedValue(new Error("HTTP 400"));
+
+    await store.dispatch(resolveConflict({ id: "c-1", resolution: {} }));
+
+    const state = store.getState().conflicts;
+    expect(state.items).toHaveLength(1);
+    expect(state.error).toBe("HTTP 400");
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { configureStore } from "@reduxjs/toolkit";
+import duplicatesReducer, {
+  fetchDuplicates,
+  mergeDuplicates,
+  deleteDuplicates,
+} from "../slices/duplicatesSlice";
+import { DuplicateGroup } from "../../../../types";
+
+// Mock the API
+vi.mock("../../services/api", () => ({
+  snippetAPI: {
+    getDuplicates: vi.fn(),
+    mergeDuplicates: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+// Import after mocking
+const { snippetAPI } = await import("../../services/api");
+const mockSnippetAPI = snippetAPI as any;
+
+const createSnippet = (id: string) => ({
+  id,
+  title: `Snippet ${id}`,
+  description: "",
+  code: "fetch(url);",
+  language: "javascript",
+  tags: [],
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+  usageCount: 0,
+});
+
+const createGroup = (id: string, snippetIds: string[]): DuplicateGroup => ({
+  id,
+  snippets: snippetIds.map(createSnippet),
+  similarity: 1,
+  exact: true,
+});
+
+describe("duplicatesSlice", () => {
+  let store: ReturnType<typeof createStore>;
+
+  const createStore = () =>
+    configureStore({
+      reducer: {
+        duplicates: duplicatesReducer,
+      },
+      middleware: (getDefaultMiddleware) =>
+        getDefaultMiddleware({
+          serializableCheck: false, // Disable for tests
+        }),
+    });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    store = createStore();
+    mockSnippetAPI.getDuplicates.mockResolvedValue([
+      createGroup("g-1", ["a", "b"]),
+      createGroup("g-2", ["c", "d", "e"]),
+    ]);
+    await store.dispatch(fetchDuplicates(0.9));
+  });
+
+  it("should load duplicate groups for a threshold", () => {
+    const state = store.getState().duplicates;
+    expect(mockSnippetAPI.getDuplicates).toHaveBeenCalledWith(0.9);
+    expect(state.loading).toBe(false);
+    expect(state.groups.map((group) => group.id)).toEqual(["g-1", "g-2"]);
+  });
+
+  it("should remove a group once merged", async () => {
+    mockSnippetAPI.mergeDuplicates.mockResolvedValue(createSnippet("a"));
+
+    await store.dispatch(
+      mergeDuplicates({ groupId: "g-1", targetId: "a", sourceIds: ["b"] })
+    );
+
+    const state = store.getState().duplicates;
+    expect(mockSnippetAPI.mergeDuplicates).toHaveBeenCalledWith("a", ["b"]);
+    expect(state.groups.map((group) => group.id)).toEqual(["g-2"]);
+    expect(state.pendingGroupId).toBeNull();
+  });
+
+  it("should drop deleted snippets and groups left with one", async () => {
+    mockSnippetAPI.delete.mockResolvedValue(undefined);
+
+    await store.dispatch(deleteDuplicates({ groupId: "g-2", ids: ["e"] }));
+    await store.dispatch(deleteDuplicates({ groupId: "g-1", ids: ["b"] }));
+
+    const { groups } = store.getState().duplicates;
+    expect(groups.map((group) => group.id)).toEqual(["g-2"]);
+    expect(groups[0].snippets.map((snippet) => snippet.id)).toEqual([
+      "c",
+      "d",
+    ]);
+  });
+
+  it("should keep the group when deleting fails", async () => {
+    mockSnippetAPI.delete.mockRejectedValue(new Error("HTTP 500"));
+
+    await store.dispatch(deleteDuplicates({ groupId: "g-1", ids: ["b"] }));
+
+    const state = store.getState().duplicates;
+    expect(state.groups).toHaveLength(2);
+    expect(state.error).toBe("Failed to delete duplicates");
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { configureStore } from "@reduxjs/toolkit";
+import savedSearchesReducer, {
+  fetchSavedSearches,
+  createSavedSearch,
+  deleteSavedSearch,
+  savedSearchesUpdated,
+} from "../slices/savedSearchesSlice";
+import { SavedSearchSummary } from "../../../../types";
+
+// Mock the API
+vi.mock("../../services/api", () => ({
+  snippetAPI: {
+    getSavedSearches: vi.fn(),
+    createSavedSearch: vi.fn(),
+    updateSavedSearch: vi.fn(),
+    deleteSavedSearch: vi.fn(),
+  },
+}));
+
+// Import after mocking
+const { snippetAPI } = await import("../../services/api");
+const mockSnippetAPI = snippetAPI as any;
+
+const createSummary = (
+  id: string,
+  name: string,
+  count = 0
+): SavedSearchSummary => ({
+  id,
+  name,
+  query: { text: name.toLowerCase() },
+  createdAt: new Date("2024-01-01"),
+  lastUsed: new Date("2024-01-01"),
+  useCount: 0,
+  count,
+});
+
+describe("savedSearchesSlice", () => {
+  let store: ReturnType<typeof createStore>;
+
+  const createStore = () =>
+    configureStore({
+      reducer: {
+        savedSearches: savedSearchesReducer,
+      },
+      middleware: (getDefaultMiddleware) =>
+        getDefaultMiddleware({
+          serializableCheck: false, // Disable for tests
+        }),
+    });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    store = createStore();
+    mockSnippetAPI.getSavedSearches.mockResolvedValue([
+      createSummary("s-1", "Python", 2),
+      createSummary("s-2", "React", 5),
+    ]);
+    await store.dispatch(fetchSavedSearches());
+  });
+
+  it("should fetch saved searches", () => {
+    const state = store.getState().savedSearches;
+
+    expect(state.loading).toBe(false);
+    expect(state.items.map((item) => item.id)).toEqual(["s-1", "s-2"]);
+  });
+
+  it("should insert created searches in name order", async () => {
+    mockSnippetAPI.createSavedSearch.mockResolvedValue(
+      createSummary("s-3", "Java", 1)
+    );
+
+    await store.dispatch(
+      createSavedSearch({ name: "Java", query: { text: "java" } })
+    );
+
+    expect(mockSnippetAPI.createSavedSearch).toHaveBeenCalledWith("Java", {
+      text: "java",
+    });
+    expect(
+      store.getState().savedSearches.items.map((item) => item.name)
+    ).toEqual(["Java", "Python", "React"]);
+  });
+
+  it("should remove deleted searches", async () => {
+    mockSnippetAPI.deleteSavedSearch.mockResolvedValue(undefined);
+
+    await store.dispatch(deleteSavedSearch("s-1"));
+
+    expect(store.getState().savedSearches.items).toHaveLength(1);
+  });
+
+  it("should take fresh counts from live updates", () => {
+    store.dispatch(savedSearchesUpdated([createSummary("s-2", "React", 7)]));
+
+    expect(store.getState().savedSearches.items).toEqual([
+      createSummary("s-2", "React", 7),
+    ]);
+  });
+});
@@ -3,8 +3,11 @@ import snippetsReducer, {
   setSelectedIds,
   toggleSelection,
   clearSelection,
+  setSourceFilter,
+  setCategoryFilter,
   clearError,
   fetchSnippets,
+  fetchSnippetPage,
   createSnippet,
   updateSnippet,
   deleteSnippet,
@@ -38,6 +41,7 @@ import { describe } from "node:test";
 vi.mock("../../services/api", () => ({
   snippetAPI: {
     getAll: vi.fn(),
+    getPage: vi.fn(),
     create: vi.fn(),
     update: vi.fn(),
     delete: vi.fn(),
@@ -72,6 +76,13 @@ describe("snippetsSlice", () => {
         loading: false,
         error: null,
         selectedIds: [],
+        sourceFilter: null,
+        categoryFilter: null,
+        total: null,
+        nextCursor: null,
+        loadingMore: false,
+        pageRequestId: null,
+        summaries: [],
       });
     });
   });
@@ -103,6 +114,22 @@ describe("snippetsSlice", () => {
       expect(state.selectedIds).toEqual([]);
     });
 
+    it("should handle setSourceFilter", () => {
+      store.dispatch(setSourceFilter("team"));
+      expect(store.getState().snippets.sourceFilter).toBe("team");
+
+      store.dispatch(setSourceFilter(null));
+      expect(store.getState().snippets.sourceFilter).toBeNull();
+    });
+
+    it("should handle setCategoryFilter", () => {
+      store.dispatch(setCategoryFilter("backend/db"));
+      expect(store.getState().snippets.categoryFilter).toBe("backend/db");
+
+      store.dispatch(setCategoryFilter(null));
+      expect(store.getState().snippets.categoryFilter).toBeNull();
+    });
+
     it("should handle clearError", () => {
       // First set an error state
       store.dispatch({
@@ -165,6 +192,63 @@ describe("snippetsSlice", () => {
       });
     });
 
+    describe("fetchSnippetPage", () => {
+      const query = { sort: "title" as const };
+      const otherSnippet = { ...mockSnippet, id: "2", title: "Other" };
+
+      it("should replace the items with a first page", async () => {
+        mockSnippetAPI.getPage.mockResolvedValue({
+          items: [mockSnippet],
+          total: 2,
+          nextCursor: "next",
+        });
+
+        await store.dispatch(fetchSnippetPage({ query }));
+        const state = store.getState().snippets;
+
+        expect(state.items).toEqual([mockSnippet]);
+        expect(state.total).toBe(2);
+        expect(state.nextCursor).toBe("next");
+      });
+
+      it("should append next pages", async () => {
+        mockSnippetAPI.getPage
+          .mockResolvedValueOnce({
+            items: [mockSnippet],
+            total: 2,
+            nextCursor: "next",
+          })
+          .mockResolvedValueOnce({ items: [otherSnippet], total: 2 });
+
+        await store.dispatch(fetchSnippetPage({ query }));
+        await store.dispatch(fetchSnippetPage({ query, cursor: "next" }));
+        const state = store.getState().snippets;
+
+        expect(state.items).toEqual([mockSnippet, otherSnippet]);
+        expect(state.nextCursor).toBeNull();
+        expect(mockSnippetAPI.getPage).toHaveBeenLastCalledWith(query, {
+          limit: 60,
+          cursor: "next",
+        });
+      });
+
+      it("should drop first pages of outdated requests", async () => {
+        let resolveFirst: (page: unknown) => void = () => {};
+        mockSnippetAPI.getPage
+          .mockImplementationOnce(
+            () => new Promise((resolve) => (resolveFirst = resolve))
+          )
+          .mockResolvedValueOnce({ items: [otherSnippet], total: 1 });
+
+        const first = store.dispatch(fetchSnippetPage({ query }));
+        await store.dispatch(fetchSnippetPage({ query: { q: "other" } }));
+        resolveFirst({ items: [mockSnippet], total: 1 });
+        await first;
+
+        expect(store.getState().snippets.items).toEqual([otherSnippet]);
+      });
+    });
+
     describe("createSnippet", () => {
       it("should handle successful creation", async () => {
         const newSnippetData = {
@@ -0,0 +1,186 @@
+import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
+import { SnippetCollection } from "../../../../types";
+import { snippetAPI } from "../../services/api";
+
+export interface CollectionsState {
+  items: SnippetCollection[]; // Sorted by name
+  loading: boolean;
+  error: string | null;
+}
+
+const initialState: CollectionsState = {
+  items: [],
+  loading: false,
+  error: null,
+};
+
+// Async thunks
+export const fetchCollections = createAsyncThunk(
+  "collections/fetchCollections",
+  async () => {
+    const response = await snippetAPI.getCollections();
+    return response;
+  }
+);
+
+export const createCollection = createAsyncThunk(
+  "collections/createCollection",
+  async ({
+    name,
+    description,
+    parentId,
+  }: {
+    name: string;
+    description?: string;
+    parentId?: string;
+  }) => {
+    const response = await snippetAPI.createCollection(name, {
+      description,
+      parentId,
+    });
+    return response;
+  }
+);
+
+export const updateCollection = createAsyncThunk(
+  "collections/updateCollection",
+  async ({
+    id,
+    updates,
+  }: {
+    id: string;
+    updates: { name?: string; description?: string; parentId?: string | null };
+  }) => {
+    const response = await snippetAPI.updateCollection(id, updates);
+    return response;
+  }
+);
+
+export const deleteCollection = createAsyncThunk(
+  "collections/deleteCollection",
+  async (id: string) => {
+    await snippetAPI.deleteCollection(id);
+    return id;
+  }
+);
+
+export const addToCollection = createAsyncThunk(
+  "collections/addToCollection",
+  async ({
+    id,
+    snippetIds,
+    index,
+  }: {
+    id: string;
+    snippetIds: string[];
+    index?: number;
+  }) => {
+    const response = await snippetAPI.addToCollection(id, snippetIds, index);
+    return response;
+  }
+);
+
+export const reorderCollection = createAsyncThunk(
+  "collections/reorderCollection",
+  async ({ id, snippetIds }: { id: string; snippetIds: string[] }) => {
+    const response = await snippetAPI.reorderCollection(id, snippetIds);
+    return response;
+  }
+);
+
+export const removeFromCollection = createAsyncThunk(
+  "collections/removeFromCollection",
+  async ({ id, snippetId }: { id: string; snippetId: string }) => {
+    const response = await snippetAPI.removeFromCollection(id, snippetId);
+    return response;
+  }
+);
+
+const sortByName = (items: SnippetCollection[]) =>
+  items.sort((a, b) => a.name.localeCompare(b.name));
+
+const upsert = (state: CollectionsState, collection: SnippetCollection) => {
+  state.items = sortByName([
+    ...state.items.filter((item) => item.id !== collection.id),
+    collection,
+  ]);
+};
+
+const collectionsSlice = createSlice({
+  name: "collections",
+  initialState,
+  reducers: {
+    // Pushed by the server whenever collections or their snippets change
+    collectionsUpdated: (
+      state,
+      action: PayloadAction<SnippetCollection[]>
+    ) => {
+      state.items = action.payload;
+    },
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Fetch collections
+      .addCase(fetchCollections.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchCollections.fulfilled, (state, action) => {
+        state.loading = false;
+        state.items = action.payload;
+      })
+      .addCase(fetchCollections.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.error.message || "Failed to fetch collections";
+      })
+      // Create collection
+      .addCase(createCollection.fulfilled, (state, action) => {
+        upsert(state, action.payload);
+      })
+      .addCase(createCollection.rejected, (state, action) => {
+        state.error = action.error.message || "Failed to create collection";
+      })
+      // Update collection
+      .addCase(updateCollection.fulfilled, (state, action) => {
+        upsert(state, action.payload);
+      })
+      .addCase(updateCollection.rejected, (state, action) => {
+        state.error = action.error.message || "Failed to update collection";
+      })
+      // Delete collection, which also deletes its subcollections
+      .addCase(deleteCollection.fulfilled, (state, action) => {
+        state.items = state.items.filter(
+          (item) =>
+            item.id !== action.payload && item.parentId !== action.payload
+        );
+      })
+      .addCase(deleteCollection.rejected, (state, action) => {
+        state.error = action.error.message || "Failed to delete collection";
+      })
+      // Add, reorder and remove snippets
+      .addCase(addToCollection.fulfilled, (state, action) => {
+        upsert(state, action.payload);
+      })
+      .addCase(addToCollection.rejected, (state, action) => {
+        state.error = action.error.message || "Failed to add snippets";
+      })
+      .addCase(reorderCollection.fulfilled, (state, action) => {
+        upsert(state, action.payload);
+      })
+      .addCase(reorderCollection.rejected, (state, action) => {
+        state.error = action.error.message || "Failed to reorder snippets";
+      })
+      .addCase(removeFromCollection.fulfilled, (state, action) => {
+        upsert(state, action.payload);
+      })
+      .addCase(removeFromCollection.rejected, (state, action) => {
+        state.error = action.error.message || "Failed to remove snippet";
+      });
+  },
+});
+
+export const { collectionsUpdated, clearError } = collectionsSlice.actions;
+export default collectionsSlice.reducer;
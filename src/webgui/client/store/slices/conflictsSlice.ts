@@ -0,0 +1,99 @@
+import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
+import { ConflictDetails, ConflictFieldResolution } from "../../../../types";
+import { snippetAPI } from "../../services/api";
+
+export interface ConflictsState {
+  items: ConflictDetails[];
+  loading: boolean;
+  error: string | null;
+  resolvingId: string | null;
+}
+
+const initialState: ConflictsState = {
+  items: [],
+  loading: false,
+  error: null,
+  resolvingId: null,
+};
+
+// Async thunks
+export const fetchConflicts = createAsyncThunk(
+  "conflicts/fetchConflicts",
+  async () => {
+    const response = await snippetAPI.getConflicts();
+    return response;
+  }
+);
+
+export const resolveConflict = createAsyncThunk(
+  "conflicts/resolveConflict",
+  async ({
+    id,
+    resolution,
+  }: {
+    id: string;
+    resolution: ConflictFieldResolution;
+  }) => {
+    const snippet = await snippetAPI.resolveConflict(id, resolution);
+    return { id, snippet };
+  }
+);
+
+const conflictsSlice = createSlice({
+  name: "conflicts",
+  initialState,
+  reducers: {
+    // Pushed by the server when synchronization finds a new conflict
+    conflictDetected: (state, action: PayloadAction<ConflictDetails>) => {
+      const index = state.items.findIndex(
+        (item) => item.id === action.payload.id
+      );
+      if (index >= 0) {
+        state.items[index] = action.payload;
+      } else {
+        state.items.push(action.payload);
+      }
+    },
+    // Pushed by the server when a conflict is resolved anywhere
+    conflictResolved: (state, action: PayloadAction<string>) => {
+      state.items = state.items.filter((item) => item.id !== action.payload);
+    },
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Fetch conflicts
+      .addCase(fetchConflicts.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchConflicts.fulfilled, (state, action) => {
+        state.loading = false;
+        state.items = action.payload;
+      })
+      .addCase(fetchConflicts.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.error.message || "Failed to fetch conflicts";
+      })
+      // Resolve conflict
+      .addCase(resolveConflict.pending, (state, action) => {
+        state.resolvingId = action.meta.arg.id;
+      })
+      .addCase(resolveConflict.fulfilled, (state, action) => {
+        state.resolvingId = null;
+        state.items = state.items.filter(
+          (item) => item.id !== action.payload.id
+        );
+      })
+      .addCase(resolveConflict.rejected, (state, action) => {
+        state.resolvingId = null;
+        state.error = action.error.message || "Failed to resolve conflict";
+      });
+  },
+});
+
+export const { conflictDetected, conflictResolved, clearError } =
+  conflictsSlice.actions;
+export default conflictsSlice.reducer;
@@ -0,0 +1,128 @@
+import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
+import { DuplicateGroup } from "../../../../types";
+import { snippetAPI } from "../../services/api";
+
+export interface DuplicatesState {
+  groups: DuplicateGroup[];
+  threshold: number; // Similarity needed for near duplicates
+  loading: boolean;
+  error: string | null;
+  pendingGroupId: string | null; // Group being merged or deleted
+}
+
+const initialState: DuplicatesState = {
+  groups: [],
+  threshold: 0.85,
+  loading: false,
+  error: null,
+  pendingGroupId: null,
+};
+
+// Async thunks
+export const fetchDuplicates = createAsyncThunk(
+  "duplicates/fetchDuplicates",
+  async (threshold?: number) => {
+    const response = await snippetAPI.getDuplicates(threshold);
+    return response;
+  }
+);
+
+export const mergeDuplicates = createAsyncThunk(
+  "duplicates/mergeDuplicates",
+  async ({
+    groupId,
+    targetId,
+    sourceIds,
+  }: {
+    groupId: string;
+    targetId: string;
+    sourceIds: string[];
+  }) => {
+    const snippet = await snippetAPI.mergeDuplicates(targetId, sourceIds);
+    return { groupId, snippet };
+  }
+);
+
+export const deleteDuplicates = createAsyncThunk(
+  "duplicates/deleteDuplicates",
+  async ({ groupId, ids }: { groupId: string; ids: string[] }) => {
+    const results = await Promise.allSettled(
+      ids.map((id) => snippetAPI.delete(id))
+    );
+    const deleted = ids.filter((_, i) => results[i].status === "fulfilled");
+    if (deleted.length === 0) {
+      throw new Error("Failed to delete duplicates");
+    }
+    return { groupId, deleted };
+  }
+);
+
+const duplicatesSlice = createSlice({
+  name: "duplicates",
+  initialState,
+  reducers: {
+    setThreshold: (state, action: PayloadAction<number>) => {
+      state.threshold = action.payload;
+    },
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Fetch duplicates
+      .addCase(fetchDuplicates.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchDuplicates.fulfilled, (state, action) => {
+        state.loading = false;
+        state.groups = action.payload;
+      })
+      .addCase(fetchDuplicates.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.error.message || "Failed to find duplicates";
+      })
+      // Merge a group into one snippet
+      .addCase(mergeDuplicates.pending, (state, action) => {
+        state.pendingGroupId = action.meta.arg.groupId;
+      })
+      .addCase(mergeDuplicates.fulfilled, (state, action) => {
+        state.pendingGroupId = null;
+        state.groups = state.groups.filter(
+          (group) => group.id !== action.payload.groupId
+        );
+      })
+      .addCase(mergeDuplicates.rejected, (state, action) => {
+        state.pendingGroupId = null;
+        state.error = action.error.message || "Failed to merge duplicates";
+      })
+      // Delete snippets of a group; a group of one is no longer a duplicate
+      .addCase(deleteDuplicates.pending, (state, action) => {
+        state.pendingGroupId = action.meta.arg.groupId;
+      })
+      .addCase(deleteDuplicates.fulfilled, (state, action) => {
+        const { groupId, deleted } = action.payload;
+        state.pendingGroupId = null;
+        state.groups = state.groups
+          .map((group) =>
+            group.id === groupId
+              ? {
+                  ...group,
+                  snippets: group.snippets.filter(
+                    (snippet) => !deleted.includes(snippet.id)
+                  ),
+                }
+              : group
+          )
+          .filter((group) => group.snippets.length > 1);
+      })
+      .addCase(deleteDuplicates.rejected, (state, action) => {
+        state.pendingGroupId = null;
+        state.error = action.error.message || "Failed to delete duplicates";
+      });
+  },
+});
+
+export const { setThreshold, clearError } = duplicatesSlice.actions;
+export default duplicatesSlice.reducer;
@@ -0,0 +1,121 @@
+import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
+import { AdvancedSearchQuery, SavedSearchSummary } from "../../../../types";
+import { snippetAPI } from "../../services/api";
+
+export interface SavedSearchesState {
+  items: SavedSearchSummary[]; // Sorted by name
+  loading: boolean;
+  error: string | null;
+}
+
+const initialState: SavedSearchesState = {
+  items: [],
+  loading: false,
+  error: null,
+};
+
+// Async thunks
+export const fetchSavedSearches = createAsyncThunk(
+  "savedSearches/fetchSavedSearches",
+  async () => {
+    const response = await snippetAPI.getSavedSearches();
+    return response;
+  }
+);
+
+export const createSavedSearch = createAsyncThunk(
+  "savedSearches/createSavedSearch",
+  async ({ name, query }: { name: string; query: AdvancedSearchQuery }) => {
+    const response = await snippetAPI.createSavedSearch(name, query);
+    return response;
+  }
+);
+
+export const updateSavedSearch = createAsyncThunk(
+  "savedSearches/updateSavedSearch",
+  async ({
+    id,
+    updates,
+  }: {
+    id: string;
+    updates: { name?: string; query?: AdvancedSearchQuery };
+  }) => {
+    const response = await snippetAPI.updateSavedSearch(id, updates);
+    return response;
+  }
+);
+
+export const deleteSavedSearch = createAsyncThunk(
+  "savedSearches/deleteSavedSearch",
+  async (id: string) => {
+    await snippetAPI.deleteSavedSearch(id);
+    return id;
+  }
+);
+
+const sortByName = (items: SavedSearchSummary[]) =>
+  items.sort((a, b) => a.name.localeCompare(b.name));
+
+const savedSearchesSlice = createSlice({
+  name: "savedSearches",
+  initialState,
+  reducers: {
+    // Pushed by the server with fresh counts whenever snippets change
+    savedSearchesUpdated: (
+      state,
+      action: PayloadAction<SavedSearchSummary[]>
+    ) => {
+      state.items = action.payload;
+    },
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Fetch saved searches
+      .addCase(fetchSavedSearches.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchSavedSearches.fulfilled, (state, action) => {
+        state.loading = false;
+        state.items = action.payload;
+      })
+      .addCase(fetchSavedSearches.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.error.message || "Failed to fetch saved searches";
+      })
+      // Create saved search
+      .addCase(createSavedSearch.fulfilled, (state, action) => {
+        state.items = sortByName([
+          ...state.items.filter((item) => item.id !== action.payload.id),
+          action.payload,
+        ]);
+      })
+      .addCase(createSavedSearch.rejected, (state, action) => {
+        state.error = action.error.message || "Failed to save search";
+      })
+      // Update saved search
+      .addCase(updateSavedSearch.fulfilled, (state, action) => {
+        state.items = sortByName(
+          state.items.map((item) =>
+            item.id === action.payload.id ? action.payload : item
+          )
+        );
+      })
+      .addCase(updateSavedSearch.rejected, (state, action) => {
+        state.error = action.error.message || "Failed to update saved search";
+      })
+      // Delete saved search
+      .addCase(deleteSavedSearch.fulfilled, (state, action) => {
+        state.items = state.items.filter((item) => item.id !== action.payload);
+      })
+      .addCase(deleteSavedSearch.rejected, (state, action) => {
+        state.error = action.error.message || "Failed to delete saved search";
+      });
+  },
+});
+
+export const { savedSearchesUpdated, clearError } = savedSearchesSlice.actions;
+export default savedSearchesSlice.reducer;
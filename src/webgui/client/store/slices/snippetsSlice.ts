@@ -1,12 +1,23 @@
 import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
-import { Snippet } from "../../../../types";
-import { snippetAPI } from "../../services/api";
+import { Snippet, SnippetSource } from "../../../../types";
+import {
+  snippetAPI,
+  SnippetListQuery,
+  SnippetSummary,
+} from "../../services/api";
 
 export interface SnippetsState {
   items: Snippet[];
   loading: boolean;
   error: string | null;
   selectedIds: string[];
+  sourceFilter: SnippetSource | null; // Library shown when several are combined
+  categoryFilter: string | null; // Category picked in the sidebar
+  total: number | null; // Of the list whose pages are loaded
+  nextCursor: string | null; // Of the page after the loaded ones
+  loadingMore: boolean;
+  pageRequestId: string | null; // Of the latest request for a first page
+  summaries: SnippetSummary[]; // Of the whole library
 }
 
 const initialState: SnippetsState = {
@@ -14,6 +25,43 @@ const initialState: SnippetsState = {
   loading: false,
   error: null,
   selectedIds: [],
+  sourceFilter: null,
+  categoryFilter: null,
+  total: null,
+  nextCursor: null,
+  loadingMore: false,
+  pageRequestId: null,
+  summaries: [],
+};
+
+// Snippets loaded at a time by lists that page
+export const SNIPPET_PAGE_SIZE = 60;
+
+const summarize = (snippet: Snippet): SnippetSummary => ({
+  id: snippet.id,
+  language: snippet.language,
+  tags: snippet.tags,
+  category: snippet.category,
+  source: snippet.source,
+});
+
+const saveSummaries = (state: SnippetsState, snippets: Snippet[]) => {
+  const ids = snippets.map((snippet) => snippet.id);
+  state.summaries = [
+    ...(state.summaries || []).filter((summary) => !ids.includes(summary.id)),
+    ...snippets.map(summarize),
+  ];
+};
+
+const removeSnippets = (state: SnippetsState, ids: string[]) => {
+  state.items = state.items.filter((item) => !ids.includes(item.id));
+  state.selectedIds = state.selectedIds.filter((id) => !ids.includes(id));
+  state.summaries = (state.summaries || []).filter(
+    (summary) => !ids.includes(summary.id)
+  );
+  if (typeof state.total === "number") {
+    state.total = Math.max(0, state.total - ids.length);
+  }
 };
 
 // Async thunks
@@ -25,6 +73,35 @@ export const fetchSnippets = createAsyncThunk(
   }
 );
 
+/**
+ * Load the first page of a list of snippets, or the page after the loaded
+ * ones with the cursor the last one came with
+ */
+export const fetchSnippetPage = createAsyncThunk(
+  "snippets/fetchSnippetPage",
+  async ({ query, cursor }: { query: SnippetListQuery; cursor?: string }) => {
+    const response = await snippetAPI.getPage(query, {
+      limit: SNIPPET_PAGE_SIZE,
+      cursor,
+    });
+    return response;
+  },
+  {
+    // Next pages are loaded one at a time
+    condition: ({ cursor }, { getState }) =>
+      !cursor ||
+      !(getState() as { snippets: SnippetsState }).snippets.loadingMore,
+  }
+);
+
+export const fetchSnippetSummaries = createAsyncThunk(
+  "snippets/fetchSnippetSummaries",
+  async () => {
+    const response = await snippetAPI.getSummaries();
+    return response;
+  }
+);
+
 export const createSnippet = createAsyncThunk(
   "snippets/createSnippet",
   async (
@@ -43,6 +120,22 @@ export const updateSnippet = createAsyncThunk(
   }
 );
 
+export const rollbackSnippet = createAsyncThunk(
+  "snippets/rollbackSnippet",
+  async ({ id, revision }: { id: string; revision: number }) => {
+    const response = await snippetAPI.rollback(id, revision);
+    return response;
+  }
+);
+
+export const recordSnippetUsage = createAsyncThunk(
+  "snippets/recordSnippetUsage",
+  async (id: string) => {
+    const response = await snippetAPI.recordUsage(id);
+    return response;
+  }
+);
+
 export const deleteSnippet = createAsyncThunk(
   "snippets/deleteSnippet",
   async (id: string) => {
@@ -120,6 +213,12 @@ const snippetsSlice = createSlice({
     clearSelection: (state) => {
       state.selectedIds = [];
     },
+    setSourceFilter: (state, action: PayloadAction<SnippetSource | null>) => {
+      state.sourceFilter = action.payload;
+    },
+    setCategoryFilter: (state, action: PayloadAction<string | null>) => {
+      state.categoryFilter = action.payload;
+    },
     clearError: (state) => {
       state.error = null;
     },
@@ -134,14 +233,68 @@ const snippetsSlice = createSlice({
       .addCase(fetchSnippets.fulfilled, (state, action) => {
         state.loading = false;
         state.items = action.payload;
+        state.total = action.payload.length;
+        state.nextCursor = null;
+        state.summaries = action.payload.map(summarize);
       })
       .addCase(fetchSnippets.rejected, (state, action) => {
         state.loading = false;
         state.error = action.error.message || "Failed to fetch snippets";
       })
+      // Fetch a page of snippets; responses to outdated requests are
+      // dropped, as are next pages of a list that was loaded again
+      .addCase(fetchSnippetPage.pending, (state, action) => {
+        if (action.meta.arg.cursor) {
+          state.loadingMore = true;
+        } else {
+          state.loading = true;
+          state.error = null;
+          state.nextCursor = null;
+          state.pageRequestId = action.meta.requestId;
+        }
+      })
+      .addCase(fetchSnippetPage.fulfilled, (state, action) => {
+        const { items, total, nextCursor } = action.payload;
+        if (action.meta.arg.cursor) {
+          state.loadingMore = false;
+          if (action.meta.arg.cursor !== state.nextCursor) {
+            return;
+          }
+          const loaded = state.items.map((item) => item.id);
+          state.items.push(
+            ...items.filter((item) => !loaded.includes(item.id))
+          );
+        } else {
+          if (action.meta.requestId !== state.pageRequestId) {
+            return;
+          }
+          state.loading = false;
+          state.items = items;
+        }
+        state.total = total;
+        state.nextCursor = nextCursor ?? null;
+      })
+      .addCase(fetchSnippetPage.rejected, (state, action) => {
+        if (action.meta.arg.cursor) {
+          state.loadingMore = false;
+        } else if (action.meta.requestId === state.pageRequestId) {
+          state.loading = false;
+        } else {
+          return;
+        }
+        state.error = action.error.message || "Failed to fetch snippets";
+      })
+      // Fetch summaries
+      .addCase(fetchSnippetSummaries.fulfilled, (state, action) => {
+        state.summaries = action.payload;
+      })
       // Create snippet
       .addCase(createSnippet.fulfilled, (state, action) => {
         state.items.push(action.payload);
+        saveSummaries(state, [action.payload]);
+        if (typeof state.total === "number") {
+          state.total += 1;
+        }
       })
       .addCase(createSnippet.rejected, (state, action) => {
         state.error = action.error.message || "Failed to create snippet";
@@ -154,29 +307,43 @@ const snippetsSlice = createSlice({
         if (index >= 0) {
           state.items[index] = action.payload;
         }
+        saveSummaries(state, [action.payload]);
       })
       .addCase(updateSnippet.rejected, (state, action) => {
         state.error = action.error.message || "Failed to update snippet";
       })
+      // Roll back snippet
+      .addCase(rollbackSnippet.fulfilled, (state, action) => {
+        const index = state.items.findIndex(
+          (item) => item.id === action.payload.id
+        );
+        if (index >= 0) {
+          state.items[index] = action.payload;
+        }
+        saveSummaries(state, [action.payload]);
+      })
+      .addCase(rollbackSnippet.rejected, (state, action) => {
+        state.error = action.error.message || "Failed to roll back snippet";
+      })
+      // Record usage; a lost usage event is not worth an error
+      .addCase(recordSnippetUsage.fulfilled, (state, action) => {
+        const index = state.items.findIndex(
+          (item) => item.id === action.payload.id
+        );
+        if (index >= 0) {
+          state.items[index] = action.payload;
+        }
+      })
       // Delete snippet
       .addCase(deleteSnippet.fulfilled, (state, action) => {
-        state.items = state.items.filter((item) => item.id !== action.payload);
-        state.selectedIds = state.selectedIds.filter(
-          (id) => id !== action.payload
-        );
+        removeSnippets(state, [action.payload]);
       })
       .addCase(deleteSnippet.rejected, (state, action) => {
         state.error = action.error.message || "Failed to delete snippet";
       })
       // Bulk delete snippets
       .addCase(bulkDeleteSnippets.fulfilled, (state, action) => {
-        const { successful } = action.payload;
-        state.items = state.items.filter(
-          (item) => !successful.includes(item.id)
-        );
-        state.selectedIds = state.selectedIds.filter(
-          (id) => !successful.includes(id)
-        );
+        removeSnippets(state, action.payload.successful);
       })
       .addCase(bulkDeleteSnippets.rejected, (state, action) => {
         state.error = action.error.message || "Failed to delete snippets";
@@ -192,6 +359,7 @@ const snippetsSlice = createSlice({
             state.items[index] = updatedSnippet;
           }
         });
+        saveSummaries(state, successful);
       })
       .addCase(bulkUpdateSnippets.rejected, (state, action) => {
         state.error = action.error.message || "Failed to update snippets";
@@ -199,6 +367,12 @@ const snippetsSlice = createSlice({
   },
 });
 
-export const { setSelectedIds, toggleSelection, clearSelection, clearError } =
-  snippetsSlice.actions;
+export const {
+  setSelectedIds,
+  toggleSelection,
+  clearSelection,
+  setSourceFilter,
+  setCategoryFilter,
+  clearError,
+} = snippetsSlice.actions;
 export default snippetsSlice.reducer;
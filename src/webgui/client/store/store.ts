@@ -2,12 +2,20 @@ import { configureStore } from "@reduxjs/toolkit";
 import snippetsReducer from "./slices/snippetsSlice";
 import uiReducer from "./slices/uiSlice";
 import searchReducer from "./slices/searchSlice";
+import conflictsReducer from "./slices/conflictsSlice";
+import duplicatesReducer from "./slices/duplicatesSlice";
+import savedSearchesReducer from "./slices/savedSearchesSlice";
+import collectionsReducer from "./slices/collectionsSlice";
 
 export const store = configureStore({
   reducer: {
     snippets: snippetsReducer,
     ui: uiReducer,
     search: searchReducer,
+    conflicts: conflictsReducer,
+    duplicates: duplicatesReducer,
+    savedSearches: savedSearchesReducer,
+    collections: collectionsReducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
@@ -1,3 +1,5 @@
+import { validateTemplate } from "../../../core/template";
+
 export interface ValidationRule {
   required?: boolean;
   minLength?: number;
@@ -79,6 +81,9 @@ export const snippetValidationRules = {
       if (value && value.trim().length === 0) {
         return "Code cannot be empty or only whitespace";
       }
+      if (value) {
+        return validateTemplate(value)[0] || null;
+      }
       return null;
     },
   },
@@ -108,4 +113,12 @@ export const snippetValidationRules = {
       return null;
     },
   },
+  variables: {
+    custom: (value: any[]) => {
+      if (value && value.length > 0) {
+        return validateTemplate("", value)[0] || null;
+      }
+      return null;
+    },
+  },
 };
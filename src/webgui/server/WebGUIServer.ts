@@ -10,11 +10,57 @@ import {
   Snippet,
   SnippetInterface,
   SearchQuery,
+  AdvancedSearchQuery,
   ImportData,
   ExportData,
   ExportFilter,
+  SnippetSource,
+  ConflictDetails,
+  ConflictFieldResolution,
+  UsageSource,
+  SnippetError,
+  ErrorType,
 } from "../../types";
 import { SynchronizationCoordinator } from "../../core/services/SynchronizationCoordinator";
+import {
+  describeConflict,
+  applyFieldResolution,
+} from "../../core/services/ConflictResolutionService";
+import {
+  ImportExportService,
+  FileFormat,
+  getFileExtension,
+} from "../../core/services/ImportExportService";
+import { parseQuery } from "../../core/query";
+import { DuplicateDetectionService } from "../../core/services/DuplicateDetectionService";
+import { LibraryStatsService } from "../../core/services/LibraryStatsService";
+import {
+  AccessTokenService,
+  SESSION_COOKIE,
+  getRequestToken,
+  createSocketGuard,
+} from "../../core/services/AccessTokenService";
+import { API_V1_BASE_PATH, ApiEvents, createApiRouter } from "./v1";
+
+const usageSources: UsageSource[] = [
+  "completion",
+  "insert",
+  "quickInsert",
+  "webCopy",
+  "cli",
+  "unknown",
+];
+
+// POST endpoints that only read, so read-only API tokens may use them
+const readOnlyPosts = [
+  "/api/snippets/search",
+  "/api/snippets/export",
+  `${API_V1_BASE_PATH}/snippets/search`,
+];
+
+const authenticationRequired =
+  "Authentication required. Open the Web GUI from VS Code, or send an API" +
+  " token as 'Authorization: Bearer <token>'";
 
 export interface WebGUIServerConfig {
   port: number;
@@ -25,6 +71,8 @@ export interface WebGUIServerConfig {
 export interface WebGUIServerDependencies {
   snippetManager: SnippetManager;
   syncCoordinator?: SynchronizationCoordinator;
+  // Without access tokens the API is open to anyone who can reach it
+  accessTokens?: AccessTokenService;
 }
 
 export class WebGUIServer {
@@ -34,6 +82,7 @@ export class WebGUIServer {
   private config: WebGUIServerConfig;
   private dependencies: WebGUIServerDependencies;
   private upload: multer.Multer;
+  private savedSearchesTimer: NodeJS.Timeout | null = null;
 
   constructor(
     config: WebGUIServerConfig,
@@ -50,16 +99,23 @@ export class WebGUIServer {
         fileSize: 10 * 1024 * 1024, // 10MB limit
       },
       fileFilter: (req, file, cb) => {
-        // Accept JSON and YAML files
+        // Accept JSON, YAML, VS Code snippet and Markdown files
         if (
           file.mimetype === "application/json" ||
           file.originalname.endsWith(".json") ||
           file.originalname.endsWith(".yaml") ||
-          file.originalname.endsWith(".yml")
+          file.originalname.endsWith(".yml") ||
+          file.originalname.endsWith(".code-snippets") ||
+          file.originalname.endsWith(".md") ||
+          file.originalname.endsWith(".markdown")
         ) {
           cb(null, true);
         } else {
-          cb(new Error("Only JSON and YAML files are allowed"));
+          cb(
+            new Error(
+              "Only JSON, YAML, VS Code snippet and Markdown files are allowed"
+            )
+          );
         }
       },
     });
@@ -67,6 +123,8 @@ export class WebGUIServer {
     this.setupMiddleware();
     this.setupRoutes();
     this.setupErrorHandling();
+    this.setupConflictEvents();
+    this.setupSavedSearchEvents();
   }
 
   private setupMiddleware(): void {
@@ -90,6 +148,67 @@ export class WebGUIServer {
       console.log(`${new Date().toISOString()} - ${req.method} ${req.path}`);
       next();
     });
+
+    if (this.dependencies.accessTokens) {
+      this.app.use(this.authenticate.bind(this));
+    }
+  }
+
+  /**
+   * Require a session or API token for API requests. The browser opens the
+   * Web GUI with the session secret in the URL, which is traded for a
+   * cookie so the secret does not stay in the address bar.
+   */
+  private authenticate(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): void {
+    const accessTokens = this.dependencies.accessTokens!;
+
+    if (!req.path.startsWith("/api/")) {
+      const token = req.query.token;
+      if (
+        req.method === "GET" &&
+        typeof token === "string" &&
+        accessTokens.authenticate(token)?.kind === "session"
+      ) {
+        const url = new URL(req.originalUrl, "http://localhost");
+        url.searchParams.delete("token");
+        res.cookie(SESSION_COOKIE, token, {
+          httpOnly: true,
+          sameSite: "strict",
+          path: "/",
+        });
+        res.redirect(302, `${url.pathname}${url.search}`);
+        return;
+      }
+      next();
+      return;
+    }
+
+    const grant = accessTokens.authenticate(getRequestToken(req.headers));
+    if (!grant) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="snippet-library"');
+      res.status(401).json({
+        error: "Unauthorized",
+        message: authenticationRequired,
+      });
+      return;
+    }
+
+    const reads =
+      ["GET", "HEAD", "OPTIONS"].includes(req.method) ||
+      (req.method === "POST" && readOnlyPosts.includes(req.path));
+    if (grant.scope === "read" && !reads) {
+      res.status(403).json({
+        error: "Forbidden",
+        message: "This API token can only read the library",
+      });
+      return;
+    }
+
+    next();
   }
 
   private setupRoutes(): void {
@@ -115,6 +234,20 @@ export class WebGUIServer {
       res.json({ status: "ok", timestamp: new Date().toISOString() });
     });
 
+    // Versioned API with a published contract. The routes below stay for
+    // clients of the unversioned API.
+    this.app.use(
+      API_V1_BASE_PATH,
+      createApiRouter(
+        {
+          snippetManager: this.dependencies.snippetManager,
+          syncCoordinator: this.dependencies.syncCoordinator,
+          events: this.createApiEvents(),
+        },
+        { upload: this.upload }
+      )
+    );
+
     // Snippet CRUD endpoints
     this.app.get("/api/snippets", this.getSnippets.bind(this));
     this.app.post("/api/snippets", this.createSnippet.bind(this));
@@ -148,6 +281,92 @@ export class WebGUIServer {
 
     // Statistics endpoint
     this.app.get("/api/snippets/stats", this.getSnippetStats.bind(this));
+    this.app.get("/api/dashboard", this.getDashboard.bind(this));
+
+    // Library lint endpoints
+    this.app.get("/api/lint", this.lintLibrary.bind(this));
+    this.app.post("/api/lint/fix", this.fixLintIssues.bind(this));
+
+    // Revision history endpoints
+    this.app.get(
+      "/api/snippets/:id/history",
+      this.getSnippetHistory.bind(this)
+    );
+    this.app.get(
+      "/api/snippets/:id/history/diff",
+      this.diffSnippetRevisions.bind(this)
+    );
+    this.app.post(
+      "/api/snippets/:id/history/:revision/rollback",
+      this.rollbackSnippet.bind(this)
+    );
+
+    // Usage analytics endpoints
+    this.app.post("/api/snippets/:id/usage", this.recordUsage.bind(this));
+    this.app.get("/api/usage", this.getUsageReport.bind(this));
+
+    // Duplicate detection endpoints
+    this.app.get("/api/duplicates", this.getDuplicates.bind(this));
+    this.app.post("/api/duplicates/merge", this.mergeDuplicates.bind(this));
+
+    // Saved search endpoints
+    this.app.get("/api/saved-searches", this.getSavedSearches.bind(this));
+    this.app.post("/api/saved-searches", this.createSavedSearch.bind(this));
+    this.app.put(
+      "/api/saved-searches/:id",
+      this.updateSavedSearch.bind(this)
+    );
+    this.app.delete(
+      "/api/saved-searches/:id",
+      this.deleteSavedSearch.bind(this)
+    );
+    this.app.get(
+      "/api/saved-searches/:id/snippets",
+      this.runSavedSearch.bind(this)
+    );
+
+    // Collection endpoints
+    this.app.get("/api/collections", this.getCollections.bind(this));
+    this.app.post("/api/collections", this.createCollection.bind(this));
+    this.app.put("/api/collections/:id", this.updateCollection.bind(this));
+    this.app.delete(
+      "/api/collections/:id",
+      this.deleteCollection.bind(this)
+    );
+    this.app.get(
+      "/api/collections/:id/snippets",
+      this.getCollectionSnippets.bind(this)
+    );
+    this.app.post(
+      "/api/collections/:id/snippets",
+      this.addToCollection.bind(this)
+    );
+    this.app.put(
+      "/api/collections/:id/snippets",
+      this.reorderCollection.bind(this)
+    );
+    this.app.delete(
+      "/api/collections/:id/snippets/:snippetId",
+      this.removeFromCollection.bind(this)
+    );
+
+    // Category and tag endpoints
+    this.app.get("/api/categories", this.getCategoryTree.bind(this));
+    this.app.get("/api/tags/aliases", this.getTagAliases.bind(this));
+    this.app.put("/api/tags/aliases/:alias", this.setTagAlias.bind(this));
+    this.app.delete(
+      "/api/tags/aliases/:alias",
+      this.removeTagAlias.bind(this)
+    );
+    this.app.post("/api/tags/rename", this.renameTag.bind(this));
+
+    // Conflict endpoints
+    this.app.get("/api/conflicts", this.getConflicts.bind(this));
+    this.app.get("/api/conflicts/:id", this.getConflict.bind(this));
+    this.app.post(
+      "/api/conflicts/:id/resolve",
+      this.resolveConflict.bind(this)
+    );
 
     // ID-specific routes (must come after specific routes)
     this.app.get("/api/snippets/:id", this.getSnippet.bind(this));
@@ -158,6 +377,28 @@ export class WebGUIServer {
     this.app.get("*", this.serveFrontend.bind(this));
   }
 
+  /**
+   * Tell clients, and the synchronization coordinator where needed, about
+   * changes made through the versioned API
+   */
+  private createApiEvents(): ApiEvents {
+    return {
+      snippetChanged: async (action, snippet) => {
+        this.emitSnippetUpdate(action, snippet);
+        if (this.dependencies.syncCoordinator) {
+          await this.dependencies.syncCoordinator.handleWebGUIUpdate(
+            snippet,
+            action
+          );
+        }
+      },
+      snippetRefreshed: (snippet) => this.emitSnippetUpdate("updated", snippet),
+      snippetsChanged: (action, count) => this.emitBulkUpdate(action, count),
+      collectionsChanged: () => this.emitCollectionsUpdate(),
+      savedSearchesChanged: () => this.scheduleSavedSearchesUpdate(),
+    };
+  }
+
   private setupErrorHandling(): void {
     // 404 handler
     this.app.use((req: Request, res: Response) => {
@@ -303,7 +544,14 @@ export class WebGUIServer {
               <div class="endpoint">GET /api/snippets/:id - Get specific snippet</div>
               <div class="endpoint">PUT /api/snippets/:id - Update snippet</div>
               <div class="endpoint">DELETE /api/snippets/:id - Delete snippet</div>
+              <div class="endpoint">GET /api/snippets/:id/history - Get snippet revision history</div>
               <div class="endpoint">GET /api/snippets/search - Search snippets</div>
+              <div class="endpoint">GET /api/saved-searches - Get saved searches with counts</div>
+              <div class="endpoint">GET /api/collections - Get snippet collections</div>
+              <div class="endpoint">GET /api/categories - Get the category tree with counts</div>
+              <div class="endpoint">GET /api/usage - Get usage trends and unused snippets</div>
+              <div class="endpoint">GET /api/dashboard - Get library counts, growth and health warnings</div>
+              <div class="endpoint">GET /api/lint - Lint the library for problems</div>
               <div class="endpoint">GET /health - Server health check</div>
             </div>
 
@@ -426,6 +674,10 @@ export class WebGUIServer {
         query.category = req.query.category as string;
       }
 
+      if (req.query.source) {
+        query.source = req.query.source as SnippetSource;
+      }
+
       if (req.query.sortBy) {
         query.sortBy = req.query.sortBy as "title" | "createdAt" | "usageCount";
       }
@@ -451,7 +703,8 @@ export class WebGUIServer {
     try {
       const snippetData = req.body;
       const result = await this.dependencies.snippetManager.createSnippet(
-        snippetData
+        snippetData,
+        { source: "webgui" }
       );
 
       if (!result.success) {
@@ -513,7 +766,8 @@ export class WebGUIServer {
       const updates = req.body;
       const result = await this.dependencies.snippetManager.updateSnippet(
         id,
-        updates
+        updates,
+        { source: "webgui" }
       );
 
       if (!result.success) {
@@ -581,245 +835,1198 @@ export class WebGUIServer {
     }
   }
 
-  private async searchSnippetsGet(
+  private async getDuplicates(
     req: Request,
     res: Response,
     next: NextFunction
   ): Promise<void> {
     try {
-      const query: SearchQuery = {};
-
-      // Parse query parameters
-      if (req.query.text) {
-        query.text = req.query.text as string;
+      const threshold =
+        req.query.threshold !== undefined
+          ? parseFloat(req.query.threshold as string)
+          : undefined;
+      if (
+        threshold !== undefined &&
+        (isNaN(threshold) || threshold <= 0 || threshold > 1)
+      ) {
+        res
+          .status(400)
+          .json({ error: "threshold must be a number between 0 and 1" });
+        return;
       }
 
-      if (req.query.language) {
-        query.language = req.query.language as string;
+      const result = await this.dependencies.snippetManager.getAllSnippets();
+      if (!result.success) {
+        res.status(500).json({ error: result.error.message });
+        return;
       }
 
-      if (req.query.tags) {
-        const tags = Array.isArray(req.query.tags)
-          ? (req.query.tags as string[])
-          : (req.query.tags as string).split(",");
-        query.tags = tags;
-      }
+      res.json(
+        new DuplicateDetectionService().findDuplicates(
+          result.data,
+          threshold !== undefined ? { threshold } : {}
+        )
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
 
-      if (req.query.category) {
-        query.category = req.query.category as string;
+  private async mergeDuplicates(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { targetId, sourceIds } = req.body || {};
+
+      if (typeof targetId !== "string" || !Array.isArray(sourceIds)) {
+        res
+          .status(400)
+          .json({ error: "targetId and a sourceIds array are required" });
+        return;
       }
 
-      if (req.query.sortBy) {
-        query.sortBy = req.query.sortBy as "title" | "createdAt" | "usageCount";
+      // Get merged snippets before deletion for real-time updates
+      const sources: SnippetInterface[] = [];
+      for (const id of sourceIds) {
+        const sourceResult = await this.dependencies.snippetManager.getSnippet(
+          id
+        );
+        if (sourceResult.success && sourceResult.data) {
+          sources.push(sourceResult.data);
+        }
       }
 
-      if (req.query.sortOrder) {
-        query.sortOrder = req.query.sortOrder as "asc" | "desc";
+      const result = await this.dependencies.snippetManager.mergeSnippets(
+        targetId,
+        sourceIds,
+        { source: "webgui" }
+      );
+
+      if (!result.success) {
+        res
+          .status(this.getErrorStatus(result.error))
+          .json({ error: result.error.message });
+        return;
       }
 
-      // Parse date range
-      if (req.query.startDate && req.query.endDate) {
-        query.dateRange = {
-          start: new Date(req.query.startDate as string),
-          end: new Date(req.query.endDate as string),
-        };
+      const snippet = result.data;
+
+      // Emit real-time updates
+      this.emitSnippetUpdate("updated", snippet);
+      sources.forEach((source) => this.emitSnippetUpdate("deleted", source));
+
+      // Notify synchronization coordinator
+      if (this.dependencies.syncCoordinator) {
+        await this.dependencies.syncCoordinator.handleWebGUIUpdate(
+          snippet,
+          "updated"
+        );
+        for (const source of sources) {
+          await this.dependencies.syncCoordinator.handleWebGUIUpdate(
+            source,
+            "deleted"
+          );
+        }
       }
 
-      const snippets = await this.dependencies.snippetManager.searchSnippets(
-        query
-      );
-      res.json(snippets);
+      res.json(snippet);
     } catch (error) {
       next(error);
     }
   }
 
-  private async searchSnippets(
+  private async getConflicts(
     req: Request,
     res: Response,
     next: NextFunction
   ): Promise<void> {
     try {
-      const query: SearchQuery = req.body;
-      const snippets = await this.dependencies.snippetManager.searchSnippets(
-        query
-      );
-      res.json(snippets);
+      const conflicts = this.dependencies.syncCoordinator
+        ? this.dependencies.syncCoordinator.getPendingConflicts()
+        : [];
+
+      res.json(conflicts.map(describeConflict));
     } catch (error) {
       next(error);
     }
   }
 
-  private async importSnippets(
+  private async getConflict(
     req: Request,
     res: Response,
     next: NextFunction
   ): Promise<void> {
     try {
-      let importData: ImportData;
+      const { id } = req.params;
+      const conflict = this.dependencies.syncCoordinator
+        ?.getPendingConflicts()
+        .find((pending) => pending.id === id);
 
-      // Handle both file upload and JSON body
-      if (req.file) {
-        // File upload case
-        try {
-          const fileContent = req.file.buffer.toString("utf8");
-          const parsedData = JSON.parse(fileContent);
-
-          // Handle different import formats
-          if (parsedData.snippets && Array.isArray(parsedData.snippets)) {
-            // Full export format
-            importData = {
-              snippets: parsedData.snippets,
-              conflictResolution:
-                (req.body.conflictResolution as
-                  | "skip"
-                  | "overwrite"
-                  | "rename") || "skip",
-            };
-          } else if (Array.isArray(parsedData)) {
-            // Simple array format
-            importData = {
-              snippets: parsedData,
-              conflictResolution:
-                (req.body.conflictResolution as
-                  | "skip"
-                  | "overwrite"
-                  | "rename") || "skip",
-            };
-          } else {
-            res.status(400).json({ error: "Invalid file format" });
-            return;
-          }
-        } catch (parseError) {
-          res.status(400).json({ error: "Invalid JSON file" });
-          return;
-        }
-      } else if (req.body && (req.body.snippets || Array.isArray(req.body))) {
-        // JSON body case (backward compatibility)
-        if (req.body.snippets) {
-          importData = req.body as ImportData;
-        } else {
-          // Direct array of snippets
-          importData = {
-            snippets: req.body,
-            conflictResolution: "skip",
-          };
-        }
-      } else {
-        res
-          .status(400)
-          .json({ error: "No file uploaded or invalid JSON body" });
+      if (!conflict) {
+        res.status(404).json({ error: "Conflict not found" });
         return;
       }
 
-      const result = await this.dependencies.snippetManager.importSnippets(
-        importData
-      );
-
-      // Emit real-time update for bulk import
-      if (result.success) {
-        this.emitBulkUpdate("imported", result.data.imported);
-      }
-
-      res.json(result);
+      res.json(describeConflict(conflict));
     } catch (error) {
       next(error);
     }
   }
 
-  private async importSnippetsJson(
+  private async resolveConflict(
     req: Request,
     res: Response,
     next: NextFunction
   ): Promise<void> {
     try {
-      const importData: ImportData = req.body;
-      const result = await this.dependencies.snippetManager.importSnippets(
-        importData
+      const { id } = req.params;
+      const resolution: ConflictFieldResolution = req.body || {};
+      const syncCoordinator = this.dependencies.syncCoordinator;
+      const conflict = syncCoordinator
+        ?.getPendingConflicts()
+        .find((pending) => pending.id === id);
+
+      if (!syncCoordinator || !conflict) {
+        res.status(404).json({ error: "Conflict not found" });
+        return;
+      }
+
+      const invalidChoice = Object.values(resolution.fields || {}).find(
+        (choice) => choice !== "local" && choice !== "remote"
       );
+      if (invalidChoice !== undefined) {
+        res.status(400).json({
+          error: `Invalid field choice: ${invalidChoice}`,
+        });
+        return;
+      }
 
-      // Emit real-time update for bulk import
-      if (result.success) {
-        this.emitBulkUpdate("imported", result.data.imported);
+      const result = await syncCoordinator.resolveConflict(id, {
+        type: "manual",
+        customResolver: (local, remote) =>
+          applyFieldResolution(local, remote, resolution),
+      });
+
+      if (!result.success) {
+        res.status(400).json({ error: result.error.message });
+        return;
       }
 
-      res.json(result);
+      const snippetResult = await this.dependencies.snippetManager.getSnippet(
+        conflict.snippetId
+      );
+      if (!snippetResult.success || !snippetResult.data) {
+        res.status(404).json({ error: "Snippet not found" });
+        return;
+      }
+
+      this.emitSnippetUpdate("updated", snippetResult.data);
+
+      res.json(snippetResult.data);
     } catch (error) {
       next(error);
     }
   }
 
-  private async exportSnippets(
+  private async getSnippetHistory(
     req: Request,
     res: Response,
     next: NextFunction
   ): Promise<void> {
     try {
-      // For backward compatibility, pass query parameters as-is to the snippet manager
-      // The snippet manager should handle the filtering logic
-      const filter = req.query as any;
-
-      const exportData = await this.dependencies.snippetManager.exportSnippets(
-        filter
+      const { id } = req.params;
+      const result = await this.dependencies.snippetManager.getSnippetHistory(
+        id
       );
 
-      const filename = "snippets-export.json";
+      if (!result.success) {
+        res
+          .status(this.getErrorStatus(result.error))
+          .json({ error: result.error.message });
+        return;
+      }
 
-      res.setHeader("Content-Type", "application/json");
-      res.setHeader(
-        "Content-Disposition",
-        `attachment; filename="${filename}"`
-      );
-      res.json(exportData);
+      res.json(result.data);
     } catch (error) {
       next(error);
     }
   }
 
-  private async exportSnippetsPost(
+  private async diffSnippetRevisions(
     req: Request,
     res: Response,
     next: NextFunction
   ): Promise<void> {
     try {
-      const filter: ExportFilter = req.body;
-      const exportData = await this.dependencies.snippetManager.exportSnippets(
-        filter
-      );
+      const { id } = req.params;
+      const from = parseInt(req.query.from as string, 10);
+      const to = parseInt(req.query.to as string, 10);
 
-      const filename = "snippets-export.json";
+      if (isNaN(from) || isNaN(to)) {
+        res
+          .status(400)
+          .json({ error: "from and to revision numbers are required" });
+        return;
+      }
 
-      res.setHeader("Content-Type", "application/json");
-      res.setHeader(
-        "Content-Disposition",
-        `attachment; filename="${filename}"`
-      );
-      res.json(exportData);
+      const result =
+        await this.dependencies.snippetManager.diffSnippetRevisions(
+          id,
+          from,
+          to
+        );
+
+      if (!result.success) {
+        res
+          .status(this.getErrorStatus(result.error))
+          .json({ error: result.error.message });
+        return;
+      }
+
+      res.json(result.data);
     } catch (error) {
       next(error);
     }
   }
 
-  // New route handlers for enhanced functionality
-  private async bulkDeleteSnippets(
+  private async rollbackSnippet(
     req: Request,
     res: Response,
     next: NextFunction
   ): Promise<void> {
     try {
-      const { ids } = req.body;
+      const { id } = req.params;
+      const revision = parseInt(req.params.revision, 10);
 
-      if (!Array.isArray(ids)) {
-        res.status(400).json({ error: "ids must be an array" });
+      if (isNaN(revision)) {
+        res.status(400).json({ error: "revision must be a number" });
         return;
       }
 
-      const results = {
-        deleted: 0,
-        failed: 0,
-        errors: [] as string[],
-      };
-
+      const result = await this.dependencies.snippetManager.rollbackSnippet(
+        id,
+        revision,
+        { source: "webgui" }
+      );
+
+      if (!result.success) {
+        res
+          .status(this.getErrorStatus(result.error))
+          .json({ error: result.error.message });
+        return;
+      }
+
+      const snippet = result.data;
+
+      // Emit real-time update
+      this.emitSnippetUpdate("updated", snippet);
+
+      // Notify synchronization coordinator
+      if (this.dependencies.syncCoordinator) {
+        await this.dependencies.syncCoordinator.handleWebGUIUpdate(
+          snippet,
+          "updated"
+        );
+      }
+
+      res.json(snippet);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Answer lookups of missing snippets, revisions and the like with 404
+   */
+  private getErrorStatus(error: SnippetError, fallback = 400): number {
+    return error.type === ErrorType.notFound ? 404 : fallback;
+  }
+
+  private async getSavedSearches(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result =
+        await this.dependencies.snippetManager.getSavedSearches();
+      if (!result.success) {
+        res.status(500).json({ error: result.error.message });
+        return;
+      }
+
+      res.json(result.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async createSavedSearch(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { name, query } = req.body || {};
+
+      if (typeof name !== "string" || !query || typeof query !== "object") {
+        res.status(400).json({ error: "name and a query object are required" });
+        return;
+      }
+
+      const result = await this.dependencies.snippetManager.saveSearch(
+        name,
+        query
+      );
+      if (!result.success) {
+        res.status(400).json({
+          error: result.error.message,
+          details: result.error.details,
+        });
+        return;
+      }
+
+      this.scheduleSavedSearchesUpdate();
+      res.status(201).json(result.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async updateSavedSearch(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { name, query } = req.body || {};
+
+      if (
+        (name !== undefined && typeof name !== "string") ||
+        (query !== undefined && (!query || typeof query !== "object"))
+      ) {
+        res
+          .status(400)
+          .json({ error: "name must be a string and query an object" });
+        return;
+      }
+
+      const result = await this.dependencies.snippetManager.updateSavedSearch(
+        req.params.id,
+        { name, query }
+      );
+      if (!result.success) {
+        res
+          .status(this.getErrorStatus(result.error))
+          .json({
+            error: result.error.message,
+            details: result.error.details,
+          });
+        return;
+      }
+
+      this.scheduleSavedSearchesUpdate();
+      res.json(result.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async deleteSavedSearch(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result = await this.dependencies.snippetManager.deleteSavedSearch(
+        req.params.id
+      );
+      if (!result.success) {
+        res
+          .status(this.getErrorStatus(result.error))
+          .json({ error: result.error.message });
+        return;
+      }
+
+      this.scheduleSavedSearchesUpdate();
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async runSavedSearch(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result = await this.dependencies.snippetManager.runSavedSearch(
+        req.params.id
+      );
+      if (!result.success) {
+        res
+          .status(this.getErrorStatus(result.error))
+          .json({ error: result.error.message });
+        return;
+      }
+
+      res.json(result.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async getCollections(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result = await this.dependencies.snippetManager.getCollections();
+      if (!result.success) {
+        res.status(500).json({ error: result.error.message });
+        return;
+      }
+
+      res.json(result.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async createCollection(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { name, description, parentId } = req.body || {};
+
+      if (
+        typeof name !== "string" ||
+        (description !== undefined && typeof description !== "string") ||
+        (parentId !== undefined && typeof parentId !== "string")
+      ) {
+        res.status(400).json({
+          error: "name is required; description and parentId must be strings",
+        });
+        return;
+      }
+
+      const result = await this.dependencies.snippetManager.createCollection(
+        name,
+        { description, parentId }
+      );
+      if (!result.success) {
+        res
+          .status(this.getErrorStatus(result.error))
+          .json({
+            error: result.error.message,
+            details: result.error.details,
+          });
+        return;
+      }
+
+      this.emitCollectionsUpdate();
+      res.status(201).json(result.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async updateCollection(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { name, description, parentId } = req.body || {};
+
+      if (
+        (name !== undefined && typeof name !== "string") ||
+        (description !== undefined && typeof description !== "string") ||
+        (parentId !== undefined &&
+          parentId !== null &&
+          typeof parentId !== "string")
+      ) {
+        res.status(400).json({
+          error: "name and description must be strings, parentId a string",
+        });
+        return;
+      }
+
+      const result = await this.dependencies.snippetManager.updateCollection(
+        req.params.id,
+        { name, description, parentId }
+      );
+      if (!result.success) {
+        res
+          .status(this.getErrorStatus(result.error))
+          .json({
+            error: result.error.message,
+            details: result.error.details,
+          });
+        return;
+      }
+
+      this.emitCollectionsUpdate();
+      res.json(result.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async deleteCollection(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result = await this.dependencies.snippetManager.deleteCollection(
+        req.params.id
+      );
+      if (!result.success) {
+        res
+          .status(this.getErrorStatus(result.error))
+          .json({ error: result.error.message });
+        return;
+      }
+
+      this.emitCollectionsUpdate();
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async getCollectionSnippets(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result =
+        await this.dependencies.snippetManager.getCollectionSnippets(
+          req.params.id
+        );
+      if (!result.success) {
+        res
+          .status(this.getErrorStatus(result.error))
+          .json({ error: result.error.message });
+        return;
+      }
+
+      res.json(result.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async addToCollection(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { snippetIds, index } = req.body || {};
+
+      if (
+        !Array.isArray(snippetIds) ||
+        (index !== undefined && !Number.isInteger(index))
+      ) {
+        res
+          .status(400)
+          .json({ error: "snippetIds must be an array and index an integer" });
+        return;
+      }
+
+      const result = await this.dependencies.snippetManager.addToCollection(
+        req.params.id,
+        snippetIds,
+        index
+      );
+      if (!result.success) {
+        res
+          .status(this.getErrorStatus(result.error))
+          .json({
+            error: result.error.message,
+            details: result.error.details,
+          });
+        return;
+      }
+
+      this.emitCollectionsUpdate();
+      res.json(result.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async reorderCollection(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { snippetIds } = req.body || {};
+
+      if (!Array.isArray(snippetIds)) {
+        res.status(400).json({ error: "snippetIds must be an array" });
+        return;
+      }
+
+      const result = await this.dependencies.snippetManager.reorderCollection(
+        req.params.id,
+        snippetIds
+      );
+      if (!result.success) {
+        res
+          .status(this.getErrorStatus(result.error))
+          .json({
+            error: result.error.message,
+            details: result.error.details,
+          });
+        return;
+      }
+
+      this.emitCollectionsUpdate();
+      res.json(result.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async removeFromCollection(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result =
+        await this.dependencies.snippetManager.removeFromCollection(
+          req.params.id,
+          [req.params.snippetId]
+        );
+      if (!result.success) {
+        res
+          .status(this.getErrorStatus(result.error))
+          .json({ error: result.error.message });
+        return;
+      }
+
+      this.emitCollectionsUpdate();
+      res.json(result.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async getCategoryTree(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result = await this.dependencies.snippetManager.getCategoryTree();
+      if (!result.success) {
+        res.status(500).json({ error: result.error.message });
+        return;
+      }
+
+      res.json(result.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async getTagAliases(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result = await this.dependencies.snippetManager.getTagAliases();
+      if (!result.success) {
+        res.status(500).json({ error: result.error.message });
+        return;
+      }
+
+      res.json(result.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async setTagAlias(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { tag } = req.body || {};
+
+      if (typeof tag !== "string") {
+        res.status(400).json({ error: "tag is required" });
+        return;
+      }
+
+      const result = await this.dependencies.snippetManager.setTagAlias(
+        req.params.alias,
+        tag,
+        { source: "webgui" }
+      );
+      if (!result.success) {
+        res.status(400).json({
+          error: result.error.message,
+          details: result.error.details,
+        });
+        return;
+      }
+
+      // Snippets tagged with the alias were retagged
+      this.scheduleSavedSearchesUpdate();
+      res.json(result.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async removeTagAlias(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result = await this.dependencies.snippetManager.removeTagAlias(
+        req.params.alias
+      );
+      if (!result.success) {
+        res.status(404).json({ error: result.error.message });
+        return;
+      }
+
+      res.json(result.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async renameTag(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { from, to, keepAlias } = req.body || {};
+
+      if (typeof from !== "string" || typeof to !== "string") {
+        res.status(400).json({ error: "from and to are required" });
+        return;
+      }
+
+      const result = await this.dependencies.snippetManager.renameTag(
+        from,
+        to,
+        { keepAlias: keepAlias === true },
+        { source: "webgui" }
+      );
+      if (!result.success) {
+        res
+          .status(this.getErrorStatus(result.error))
+          .json({
+            error: result.error.message,
+            details: result.error.details,
+          });
+        return;
+      }
+
+      this.emitBulkUpdate("updated", result.data);
+      res.json({ renamed: result.data });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async recordUsage(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { source = "webCopy" } = req.body || {};
+
+      if (!usageSources.includes(source)) {
+        res.status(400).json({
+          error: `source must be one of: ${usageSources.join(", ")}`,
+        });
+        return;
+      }
+
+      const result = await this.dependencies.snippetManager.incrementUsage(
+        req.params.id,
+        source
+      );
+      if (!result.success) {
+        res
+          .status(this.getErrorStatus(result.error, 500))
+          .json({ error: result.error.message });
+        return;
+      }
+
+      // Other clients show the new usage count
+      const snippetResult = await this.dependencies.snippetManager.getSnippet(
+        req.params.id
+      );
+      if (!snippetResult.success || !snippetResult.data) {
+        res.status(204).end();
+        return;
+      }
+
+      this.emitSnippetUpdate("updated", snippetResult.data);
+      res.json(snippetResult.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async getUsageReport(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const days = req.query.days
+        ? parseInt(req.query.days as string, 10)
+        : undefined;
+      const staleDays = req.query.staleDays
+        ? parseInt(req.query.staleDays as string, 10)
+        : undefined;
+
+      if (
+        (days !== undefined && (isNaN(days) || days < 1)) ||
+        (staleDays !== undefined && (isNaN(staleDays) || staleDays < 0))
+      ) {
+        res.status(400).json({
+          error: "days and staleDays must be positive numbers",
+        });
+        return;
+      }
+
+      const result = await this.dependencies.snippetManager.getUsageReport({
+        days,
+        staleDays,
+      });
+      if (!result.success) {
+        res.status(500).json({ error: result.error.message });
+        return;
+      }
+
+      res.json(result.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async searchSnippetsGet(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      let query: AdvancedSearchQuery = {};
+
+      // The q parameter uses the same query syntax as the search boxes of
+      // the extension and the Web GUI; other parameters narrow it further
+      if (typeof req.query.q === "string") {
+        const parsed = parseQuery(req.query.q);
+        if (!parsed.success) {
+          res.status(400).json({
+            error: parsed.error.message,
+            details: parsed.error.details,
+          });
+          return;
+        }
+        query = parsed.data;
+      }
+
+      if (req.query.text) {
+        query.text = req.query.text as string;
+      }
+
+      if (req.query.language) {
+        query.language = req.query.language as string;
+      }
+
+      if (req.query.tags) {
+        const tags = Array.isArray(req.query.tags)
+          ? (req.query.tags as string[])
+          : (req.query.tags as string).split(",");
+        query.tags = tags;
+      }
+
+      if (req.query.category) {
+        query.category = req.query.category as string;
+      }
+
+      if (req.query.source) {
+        query.source = req.query.source as SnippetSource;
+      }
+
+      if (req.query.sortBy) {
+        query.sortBy = req.query.sortBy as "title" | "createdAt" | "usageCount";
+      }
+
+      if (req.query.sortOrder) {
+        query.sortOrder = req.query.sortOrder as "asc" | "desc";
+      }
+
+      // Parse date range
+      if (req.query.startDate && req.query.endDate) {
+        query.dateRange = {
+          start: new Date(req.query.startDate as string),
+          end: new Date(req.query.endDate as string),
+        };
+      }
+
+      const snippets = await this.dependencies.snippetManager.searchSnippets(
+        query
+      );
+      res.json(snippets);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async searchSnippets(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const query: AdvancedSearchQuery = req.body;
+      const snippets = await this.dependencies.snippetManager.searchSnippets(
+        query
+      );
+      res.json(snippets);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async importSnippets(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      let importData: ImportData;
+
+      // Handle both file upload and JSON body
+      if (req.file) {
+        // File upload case: export envelope, snippet array, YAML or a
+        // VS Code snippet file (format detected from the file name)
+        const parseResult = this.createImportExportService().parseImportFile(
+          req.file.buffer.toString("utf8"),
+          req.file.originalname || "import.json",
+          req.body.language || undefined
+        );
+
+        if (!parseResult.success) {
+          res.status(400).json({
+            error: (parseResult as any).error.message,
+            details: (parseResult as any).error.details,
+          });
+          return;
+        }
+
+        importData = {
+          ...parseResult.data,
+          conflictResolution:
+            (req.body.conflictResolution as "skip" | "overwrite" | "rename") ||
+            "skip",
+        };
+      } else if (req.body && (req.body.snippets || Array.isArray(req.body))) {
+        // JSON body case (backward compatibility)
+        if (req.body.snippets) {
+          importData = req.body as ImportData;
+        } else {
+          // Direct array of snippets
+          importData = {
+            snippets: req.body,
+            conflictResolution: "skip",
+          };
+        }
+      } else {
+        res
+          .status(400)
+          .json({ error: "No file uploaded or invalid JSON body" });
+        return;
+      }
+
+      const result = await this.dependencies.snippetManager.importSnippets(
+        importData
+      );
+
+      // Emit real-time update for bulk import
+      if (result.success) {
+        this.emitBulkUpdate("imported", result.data.imported);
+      }
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async importSnippetsJson(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const importData: ImportData = req.body;
+      const result = await this.dependencies.snippetManager.importSnippets(
+        importData
+      );
+
+      // Emit real-time update for bulk import
+      if (result.success) {
+        this.emitBulkUpdate("imported", result.data.imported);
+      }
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async exportSnippets(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const filter = { ...(req.query as any) };
+      // Collections are given as a comma-separated list of IDs
+      if (typeof filter.collections === "string") {
+        filter.collections = filter.collections.split(",").filter(Boolean);
+      }
+
+      const { format, ...query } = filter;
+      if (format && format !== "json") {
+        await this.sendFormattedExport(res, format, query);
+        return;
+      }
+
+      // For backward compatibility, pass query parameters as-is to the snippet manager
+      // The snippet manager should handle the filtering logic
+
+      const exportData = await this.dependencies.snippetManager.exportSnippets(
+        filter
+      );
+
+      const filename = "snippets-export.json";
+
+      res.setHeader("Content-Type", "application/json");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}"`
+      );
+      res.json(exportData);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async exportSnippetsPost(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const filter: ExportFilter = req.body;
+      const exportData = await this.dependencies.snippetManager.exportSnippets(
+        filter
+      );
+
+      const filename = "snippets-export.json";
+
+      res.setHeader("Content-Type", "application/json");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}"`
+      );
+      res.json(exportData);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Send an export in a non-JSON format as a file download
+   */
+  private async sendFormattedExport(
+    res: Response,
+    format: string,
+    filter: ExportFilter
+  ): Promise<void> {
+    const service = this.createImportExportService();
+    if (!service.isFormatSupported(format)) {
+      res.status(400).json({
+        error: `Unsupported export format: ${format}`,
+        supportedFormats: service.getSupportedFormats(),
+      });
+      return;
+    }
+
+    const result = await service.exportToString(format, filter, true);
+    if (!result.success) {
+      res.status(500).json({ error: (result as any).error.message });
+      return;
+    }
+
+    const contentTypes: Record<FileFormat, string> = {
+      json: "application/json",
+      yaml: "application/x-yaml",
+      vscode: "application/json",
+      markdown: "text/markdown; charset=utf-8",
+    };
+
+    res.setHeader("Content-Type", contentTypes[format]);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="snippets-export.${getFileExtension(format)}"`
+    );
+    res.send(result.data);
+  }
+
+  private createImportExportService(): ImportExportService {
+    return new ImportExportService(this.dependencies.snippetManager);
+  }
+
+  // New route handlers for enhanced functionality
+  private async bulkDeleteSnippets(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { ids } = req.body;
+
+      if (!Array.isArray(ids)) {
+        res.status(400).json({ error: "ids must be an array" });
+        return;
+      }
+
+      const results = {
+        deleted: 0,
+        failed: 0,
+        errors: [] as string[],
+      };
+
       for (const id of ids) {
         try {
           const success = await this.dependencies.snippetManager.deleteSnippet(
@@ -953,6 +2160,78 @@ export class WebGUIServer {
     }
   }
 
+  private async getDashboard(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result = await this.dependencies.snippetManager.getAllSnippets();
+      if (!result.success) {
+        res.status(500).json({ error: result.error.message });
+        return;
+      }
+
+      res.json(new LibraryStatsService().getDashboard(result.data));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async lintLibrary(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result = await this.dependencies.snippetManager.lintLibrary();
+      if (!result.success) {
+        res.status(500).json({ error: result.error.message });
+        return;
+      }
+
+      res.json(result.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async fixLintIssues(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { snippetIds } = req.body || {};
+
+      if (
+        snippetIds !== undefined &&
+        (!Array.isArray(snippetIds) ||
+          snippetIds.some((id) => typeof id !== "string"))
+      ) {
+        res.status(400).json({ error: "snippetIds must be an array of IDs" });
+        return;
+      }
+
+      const result = await this.dependencies.snippetManager.fixLintIssues(
+        snippetIds,
+        { source: "webgui" }
+      );
+      if (!result.success) {
+        res.status(500).json({
+          error: result.error.message,
+          details: result.error.details,
+        });
+        return;
+      }
+
+      this.emitBulkUpdate("updated", result.data);
+      res.json({ fixed: result.data });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // WebSocket functionality
   private setupWebSocket(): void {
     if (!this.server) return;
@@ -967,6 +2246,11 @@ export class WebGUIServer {
       },
     });
 
+    const accessTokens = this.dependencies.accessTokens;
+    if (accessTokens) {
+      this.io.use(createSocketGuard(accessTokens));
+    }
+
     this.io.on("connection", (socket) => {
       console.log(`Client connected: ${socket.id}`);
 
@@ -982,6 +2266,53 @@ export class WebGUIServer {
     });
   }
 
+  private setupConflictEvents(): void {
+    const syncCoordinator = this.dependencies.syncCoordinator;
+    if (!syncCoordinator) {
+      return;
+    }
+
+    syncCoordinator.onConflictDetected((conflict) => {
+      this.emitConflictUpdate({
+        action: "detected",
+        conflict: describeConflict(conflict),
+      });
+    });
+    syncCoordinator.onConflictResolved((result) => {
+      this.emitConflictUpdate({
+        action: "resolved",
+        conflictId: result.conflictId,
+      });
+    });
+  }
+
+  private setupSavedSearchEvents(): void {
+    const syncCoordinator = this.dependencies.syncCoordinator;
+    if (!syncCoordinator) {
+      return;
+    }
+
+    // Snippets changed outside the Web GUI also change saved search counts
+    syncCoordinator.onSyncEvent((event) => {
+      if (event.type === "snippet_changed" || event.type === "sync_completed") {
+        this.scheduleSavedSearchesUpdate();
+      }
+    });
+  }
+
+  private emitConflictUpdate(
+    update:
+      | { action: "detected"; conflict: ConflictDetails }
+      | { action: "resolved"; conflictId: string }
+  ): void {
+    if (this.io) {
+      this.io.emit("conflictUpdate", {
+        ...update,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
   private emitSnippetUpdate(
     action: "created" | "updated" | "deleted",
     snippet: Snippet
@@ -992,6 +2323,10 @@ export class WebGUIServer {
         snippet,
         timestamp: new Date().toISOString(),
       });
+      this.scheduleSavedSearchesUpdate();
+      if (action === "deleted") {
+        this.emitCollectionsUpdate();
+      }
     }
   }
 
@@ -1005,9 +2340,53 @@ export class WebGUIServer {
         count,
         timestamp: new Date().toISOString(),
       });
+      this.scheduleSavedSearchesUpdate();
+      if (action !== "updated") {
+        // Deleted snippets leave their collections; imports may add some
+        this.emitCollectionsUpdate();
+      }
+    }
+  }
+
+  /**
+   * Send the current collections to clients
+   */
+  private async emitCollectionsUpdate(): Promise<void> {
+    if (!this.io) {
+      return;
+    }
+
+    const result = await this.dependencies.snippetManager.getCollections();
+    if (this.io && result.success) {
+      this.io.emit("collectionsUpdate", {
+        collections: result.data,
+        timestamp: new Date().toISOString(),
+      });
     }
   }
 
+  /**
+   * Send fresh saved search counts to clients. Bursts of changes, such as
+   * the deletions of a merge, are combined into a single update.
+   */
+  private scheduleSavedSearchesUpdate(): void {
+    if (!this.io || this.savedSearchesTimer) {
+      return;
+    }
+
+    this.savedSearchesTimer = setTimeout(async () => {
+      this.savedSearchesTimer = null;
+      const result =
+        await this.dependencies.snippetManager.getSavedSearches();
+      if (this.io && result.success) {
+        this.io.emit("savedSearchesUpdate", {
+          searches: result.data,
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }, 100);
+  }
+
   // Server lifecycle methods
   public async start(): Promise<void> {
     return new Promise((resolve, reject) => {
@@ -1046,6 +2425,11 @@ export class WebGUIServer {
         } else {
           console.log("Web GUI server stopped");
 
+          if (this.savedSearchesTimer) {
+            clearTimeout(this.savedSearchesTimer);
+            this.savedSearchesTimer = null;
+          }
+
           // Close WebSocket server
           if (this.io) {
             this.io.close();
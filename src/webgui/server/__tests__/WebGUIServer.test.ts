@@ -6,15 +6,46 @@ import {
   WebGUIServerDependencies,
 } from "../WebGUIServer";
 import { SnippetManager } from "../../../interfaces/SnippetManager";
-import { Snippet, SearchQuery, ImportData, ExportData } from "../../../types";
+import {
+  Snippet,
+  SearchQuery,
+  ImportData,
+  ExportData,
+  ErrorType,
+} from "../../../types";
+import { AccessTokenService } from "../../../core/services/AccessTokenService";
 
 // Mock SnippetManager
 const mockSnippetManager: SnippetManager = {
   createSnippet: vi.fn(),
   getSnippet: vi.fn(),
+  getAllSnippets: vi.fn(),
   updateSnippet: vi.fn(),
+  mergeSnippets: vi.fn(),
   deleteSnippet: vi.fn(),
   searchSnippets: vi.fn(),
+  getSavedSearches: vi.fn(),
+  saveSearch: vi.fn(),
+  updateSavedSearch: vi.fn(),
+  deleteSavedSearch: vi.fn(),
+  runSavedSearch: vi.fn(),
+  getCollections: vi.fn(),
+  createCollection: vi.fn(),
+  updateCollection: vi.fn(),
+  deleteCollection: vi.fn(),
+  getCollectionSnippets: vi.fn(),
+  addToCollection: vi.fn(),
+  removeFromCollection: vi.fn(),
+  reorderCollection: vi.fn(),
+  getCategoryTree: vi.fn(),
+  getTagAliases: vi.fn(),
+  setTagAlias: vi.fn(),
+  removeTagAlias: vi.fn(),
+  renameTag: vi.fn(),
+  incrementUsage: vi.fn(),
+  getUsageReport: vi.fn(),
+  lintLibrary: vi.fn(),
+  fixLintIssues: vi.fn(),
   importSnippets: vi.fn(),
   exportSnippets: vi.fn(),
 };
@@ -345,6 +376,37 @@ describe("WebGUIServer", () => {
         .send({ text: "test" })
         .expect(500);
     });
+
+    it("should compile the q parameter into filters", async () => {
+      vi.mocked(mockSnippetManager.searchSnippets).mockResolvedValue([
+        mockSnippet,
+      ]);
+
+      await request(server.getApp())
+        .get("/api/snippets/search")
+        .query({ q: 'lang:ts -tag:legacy "exact phrase"', sortBy: "title" })
+        .expect(200);
+
+      expect(mockSnippetManager.searchSnippets).toHaveBeenCalledWith({
+        language: "typescript",
+        sortBy: "title",
+        filters: [
+          { field: "tags", operator: "not", value: "legacy" },
+          { field: "text", operator: "contains", value: "exact phrase" },
+        ],
+      });
+    });
+
+    it("should reject a query that does not parse", async () => {
+      const response = await request(server.getApp())
+        .get("/api/snippets/search")
+        .query({ q: "colour:red" })
+        .expect(400);
+
+      expect(response.body.error).toBe('Unknown search field "colour"');
+      expect(response.body.details).toMatchObject({ position: 0 });
+      expect(mockSnippetManager.searchSnippets).not.toHaveBeenCalled();
+    });
   });
 
   describe("Import/Export Endpoints", () => {
@@ -484,6 +546,671 @@ describe("WebGUIServer", () => {
     });
   });
 
+  describe("Conflict Endpoints", () => {
+    const conflict = {
+      id: "conflict-1",
+      snippetId: "test-id",
+      type: "content",
+      source: "git",
+      severity: "medium",
+      autoResolvable: false,
+      detectedAt: new Date("2024-01-01T00:00:00.000Z"),
+      localSnippet: { ...mockSnippet, code: "local();" },
+      remoteSnippet: { ...mockSnippet, code: "remote();", tags: ["sync"] },
+    };
+    let syncCoordinator: any;
+
+    beforeEach(() => {
+      syncCoordinator = {
+        getPendingConflicts: vi.fn().mockReturnValue([conflict]),
+        resolveConflict: vi.fn().mockResolvedValue({
+          success: true,
+          data: undefined,
+        }),
+        onConflictDetected: vi.fn(),
+        onConflictResolved: vi.fn(),
+        onSyncEvent: vi.fn(),
+      };
+      server = new WebGUIServer(config, {
+        snippetManager: mockSnippetManager,
+        syncCoordinator,
+      });
+    });
+
+    it("should list no conflicts without a sync coordinator", async () => {
+      const response = await request(
+        new WebGUIServer(config, dependencies).getApp()
+      )
+        .get("/api/conflicts")
+        .expect(200);
+
+      expect(response.body).toEqual([]);
+    });
+
+    it("should list pending conflicts with their differing fields", async () => {
+      const response = await request(server.getApp())
+        .get("/api/conflicts")
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].id).toBe("conflict-1");
+      expect(
+        response.body[0].fields.map((field: any) => field.field)
+      ).toEqual(["code", "tags"]);
+      expect(response.body[0].fields[0].diff).toEqual([
+        { type: "removed", content: "local();", oldLineNumber: 1 },
+        { type: "added", content: "remote();", newLineNumber: 1 },
+      ]);
+    });
+
+    it("should return 404 for unknown conflicts", async () => {
+      await request(server.getApp())
+        .get("/api/conflicts/missing")
+        .expect(404);
+      await request(server.getApp())
+        .post("/api/conflicts/missing/resolve")
+        .send({})
+        .expect(404);
+    });
+
+    it("should resolve a conflict with the picked fields", async () => {
+      const resolved = { ...mockSnippet, code: "merged();", tags: ["sync"] };
+      (mockSnippetManager.getSnippet as any).mockResolvedValue({
+        success: true,
+        data: resolved,
+      });
+
+      const response = await request(server.getApp())
+        .post("/api/conflicts/conflict-1/resolve")
+        .send({ fields: { tags: "remote" }, merged: { code: "merged();" } })
+        .expect(200);
+
+      expect(response.body.code).toBe("merged();");
+      const [id, strategy] = syncCoordinator.resolveConflict.mock.calls[0];
+      expect(id).toBe("conflict-1");
+      expect(strategy.type).toBe("manual");
+      expect(
+        strategy.customResolver(conflict.localSnippet, conflict.remoteSnippet)
+      ).toMatchObject({ code: "merged();", tags: ["sync"] });
+    });
+
+    it("should reject invalid field choices", async () => {
+      const response = await request(server.getApp())
+        .post("/api/conflicts/conflict-1/resolve")
+        .send({ fields: { code: "both" } })
+        .expect(400);
+
+      expect(response.body.error).toBe("Invalid field choice: both");
+      expect(syncCoordinator.resolveConflict).not.toHaveBeenCalled();
+    });
+
+    it("should subscribe to conflict events of the coordinator", () => {
+      expect(syncCoordinator.onConflictDetected).toHaveBeenCalled();
+      expect(syncCoordinator.onConflictResolved).toHaveBeenCalled();
+    });
+  });
+
+  describe("Duplicate Endpoints", () => {
+    const code = "function sum(a, b) {\n  return a + b;\n}";
+
+    it("should list groups of duplicate snippets", async () => {
+      (mockSnippetManager.getAllSnippets as any).mockResolvedValue({
+        success: true,
+        data: [
+          { ...mockSnippet, code },
+          { ...mockSnippet, id: "copy-id", code: code.replace(/a/g, "x") },
+          { ...mockSnippet, id: "other-id" },
+        ],
+      });
+
+      const response = await request(server.getApp())
+        .get("/api/duplicates")
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0]).toMatchObject({ exact: true, similarity: 1 });
+      expect(
+        response.body[0].snippets.map((snippet: any) => snippet.id).sort()
+      ).toEqual(["copy-id", "test-id"]);
+    });
+
+    it("should reject an invalid threshold", async () => {
+      await request(server.getApp())
+        .get("/api/duplicates?threshold=2")
+        .expect(400);
+    });
+
+    it("should merge duplicates into the target", async () => {
+      const merged = { ...mockSnippet, usageCount: 3 };
+      (mockSnippetManager.getSnippet as any).mockResolvedValue({
+        success: true,
+        data: { ...mockSnippet, id: "copy-id" },
+      });
+      (mockSnippetManager.mergeSnippets as any).mockResolvedValue({
+        success: true,
+        data: merged,
+      });
+
+      const response = await request(server.getApp())
+        .post("/api/duplicates/merge")
+        .send({ targetId: "test-id", sourceIds: ["copy-id"] })
+        .expect(200);
+
+      expect(response.body.usageCount).toBe(3);
+      expect(mockSnippetManager.mergeSnippets).toHaveBeenCalledWith(
+        "test-id",
+        ["copy-id"],
+        { source: "webgui" }
+      );
+    });
+
+    it("should report merge failures", async () => {
+      (mockSnippetManager.getSnippet as any).mockResolvedValue({
+        success: true,
+        data: null,
+      });
+      (mockSnippetManager.mergeSnippets as any).mockResolvedValue({
+        success: false,
+        error: { type: ErrorType.notFound, message: "Snippet not found" },
+      });
+
+      await request(server.getApp())
+        .post("/api/duplicates/merge")
+        .send({ targetId: "test-id", sourceIds: ["missing"] })
+        .expect(404);
+      await request(server.getApp())
+        .post("/api/duplicates/merge")
+        .send({ targetId: "test-id" })
+        .expect(400);
+    });
+  });
+
+  describe("Saved Search Endpoints", () => {
+    const savedSearch = {
+      id: "search-1",
+      name: "React",
+      query: { text: "tag:react" },
+      createdAt: new Date().toISOString(),
+      lastUsed: new Date().toISOString(),
+      useCount: 0,
+    };
+
+    it("should list saved searches with their counts", async () => {
+      (mockSnippetManager.getSavedSearches as any).mockResolvedValue({
+        success: true,
+        data: [{ ...savedSearch, count: 2 }],
+      });
+
+      const response = await request(server.getApp())
+        .get("/api/saved-searches")
+        .expect(200);
+
+      expect(response.body).toEqual([{ ...savedSearch, count: 2 }]);
+    });
+
+    it("should save a search", async () => {
+      (mockSnippetManager.saveSearch as any).mockResolvedValue({
+        success: true,
+        data: savedSearch,
+      });
+
+      const response = await request(server.getApp())
+        .post("/api/saved-searches")
+        .send({ name: "React", query: { text: "tag:react" } })
+        .expect(201);
+
+      expect(response.body.id).toBe("search-1");
+      expect(mockSnippetManager.saveSearch).toHaveBeenCalledWith("React", {
+        text: "tag:react",
+      });
+      await request(server.getApp())
+        .post("/api/saved-searches")
+        .send({ name: "No query" })
+        .expect(400);
+    });
+
+    it("should run a saved search", async () => {
+      (mockSnippetManager.runSavedSearch as any).mockResolvedValue({
+        success: true,
+        data: [mockSnippet],
+      });
+
+      const response = await request(server.getApp())
+        .get("/api/saved-searches/search-1/snippets")
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(mockSnippetManager.runSavedSearch).toHaveBeenCalledWith(
+        "search-1"
+      );
+    });
+
+    it("should report unknown saved searches", async () => {
+      const notFound = {
+        success: false,
+        error: {
+          type: ErrorType.notFound,
+          message: "Saved search not found",
+        },
+      };
+      (mockSnippetManager.updateSavedSearch as any).mockResolvedValue(
+        notFound
+      );
+      (mockSnippetManager.deleteSavedSearch as any).mockResolvedValue(
+        notFound
+      );
+
+      await request(server.getApp())
+        .put("/api/saved-searches/missing")
+        .send({ name: "Other" })
+        .expect(404);
+      await request(server.getApp())
+        .delete("/api/saved-searches/missing")
+        .expect(404);
+    });
+  });
+
+  describe("Collection Endpoints", () => {
+    const collection = {
+      id: "collection-1",
+      name: "Favorites",
+      snippetIds: ["1", "2"],
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    it("should create a collection", async () => {
+      (mockSnippetManager.createCollection as any).mockResolvedValue({
+        success: true,
+        data: collection,
+      });
+
+      const response = await request(server.getApp())
+        .post("/api/collections")
+        .send({ name: "Favorites", parentId: "collection-0" })
+        .expect(201);
+
+      expect(response.body.id).toBe("collection-1");
+      expect(mockSnippetManager.createCollection).toHaveBeenCalledWith(
+        "Favorites",
+        { description: undefined, parentId: "collection-0" }
+      );
+      await request(server.getApp())
+        .post("/api/collections")
+        .send({ description: "No name" })
+        .expect(400);
+    });
+
+    it("should add, reorder and remove snippets", async () => {
+      const updated = { success: true, data: collection };
+      (mockSnippetManager.addToCollection as any).mockResolvedValue(updated);
+      (mockSnippetManager.reorderCollection as any).mockResolvedValue(updated);
+      (mockSnippetManager.removeFromCollection as any).mockResolvedValue(
+        updated
+      );
+
+      await request(server.getApp())
+        .post("/api/collections/collection-1/snippets")
+        .send({ snippetIds: ["2"], index: 0 })
+        .expect(200);
+      await request(server.getApp())
+        .put("/api/collections/collection-1/snippets")
+        .send({ snippetIds: ["2", "1"] })
+        .expect(200);
+      await request(server.getApp())
+        .delete("/api/collections/collection-1/snippets/2")
+        .expect(200);
+
+      expect(mockSnippetManager.addToCollection).toHaveBeenCalledWith(
+        "collection-1",
+        ["2"],
+        0
+      );
+      expect(mockSnippetManager.reorderCollection).toHaveBeenCalledWith(
+        "collection-1",
+        ["2", "1"]
+      );
+      expect(mockSnippetManager.removeFromCollection).toHaveBeenCalledWith(
+        "collection-1",
+        ["2"]
+      );
+      await request(server.getApp())
+        .put("/api/collections/collection-1/snippets")
+        .send({ snippetIds: "2" })
+        .expect(400);
+    });
+
+    it("should list the snippets of a collection in order", async () => {
+      (mockSnippetManager.getCollectionSnippets as any).mockResolvedValue({
+        success: true,
+        data: [mockSnippet],
+      });
+
+      const response = await request(server.getApp())
+        .get("/api/collections/collection-1/snippets")
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+    });
+
+    it("should report unknown collections", async () => {
+      (mockSnippetManager.deleteCollection as any).mockResolvedValue({
+        success: false,
+        error: {
+          type: ErrorType.notFound,
+          message: "Collection not found",
+        },
+      });
+
+      await request(server.getApp())
+        .delete("/api/collections/missing")
+        .expect(404);
+    });
+  });
+
+  describe("Category and Tag Endpoints", () => {
+    it("should return the category tree", async () => {
+      const tree = [
+        {
+          name: "backend",
+          path: "backend",
+          count: 2,
+          children: [
+            { name: "db", path: "backend/db", count: 1, children: [] },
+          ],
+        },
+      ];
+      (mockSnippetManager.getCategoryTree as any).mockResolvedValue({
+        success: true,
+        data: tree,
+      });
+
+      const response = await request(server.getApp())
+        .get("/api/categories")
+        .expect(200);
+
+      expect(response.body).toEqual(tree);
+    });
+
+    it("should rename a tag", async () => {
+      (mockSnippetManager.renameTag as any)
+        .mockResolvedValueOnce({ success: true, data: 3 })
+        .mockResolvedValueOnce({
+          success: false,
+          error: { type: ErrorType.notFound, message: "Tag not found" },
+        });
+
+      const response = await request(server.getApp())
+        .post("/api/tags/rename")
+        .send({ from: "js", to: "javascript", keepAlias: true })
+        .expect(200);
+      await request(server.getApp())
+        .post("/api/tags/rename")
+        .send({ from: "missing", to: "javascript" })
+        .expect(404);
+      await request(server.getApp())
+        .post("/api/tags/rename")
+        .send({ from: "js" })
+        .expect(400);
+
+      expect(response.body).toEqual({ renamed: 3 });
+      expect(mockSnippetManager.renameTag).toHaveBeenCalledWith(
+        "js",
+        "javascript",
+        { keepAlias: true },
+        { source: "webgui" }
+      );
+    });
+
+    it("should set and remove tag aliases", async () => {
+      (mockSnippetManager.setTagAlias as any).mockResolvedValue({
+        success: true,
+        data: { js: "javascript" },
+      });
+      (mockSnippetManager.removeTagAlias as any).mockResolvedValue({
+        success: true,
+        data: {},
+      });
+
+      const response = await request(server.getApp())
+        .put("/api/tags/aliases/js")
+        .send({ tag: "javascript" })
+        .expect(200);
+      await request(server.getApp())
+        .delete("/api/tags/aliases/js")
+        .expect(200);
+
+      expect(response.body).toEqual({ js: "javascript" });
+      expect(mockSnippetManager.setTagAlias).toHaveBeenCalledWith(
+        "js",
+        "javascript",
+        { source: "webgui" }
+      );
+      expect(mockSnippetManager.removeTagAlias).toHaveBeenCalledWith("js");
+    });
+  });
+
+  describe("Usage Analytics Endpoints", () => {
+    it("should record a copy in the Web GUI", async () => {
+      const snippet = { id: "1", title: "Copied", usageCount: 4 };
+      (mockSnippetManager.incrementUsage as any).mockResolvedValue({
+        success: true,
+        data: undefined,
+      });
+      (mockSnippetManager.getSnippet as any).mockResolvedValue({
+        success: true,
+        data: snippet,
+      });
+
+      const response = await request(server.getApp())
+        .post("/api/snippets/1/usage")
+        .send({})
+        .expect(200);
+      await request(server.getApp())
+        .post("/api/snippets/1/usage")
+        .send({ source: "telepathy" })
+        .expect(400);
+
+      expect(response.body).toEqual(snippet);
+      expect(mockSnippetManager.incrementUsage).toHaveBeenCalledTimes(1);
+      expect(mockSnippetManager.incrementUsage).toHaveBeenCalledWith(
+        "1",
+        "webCopy"
+      );
+    });
+
+    it("should return the usage report for a period", async () => {
+      const report = { days: ["2024-03-31"], total: { total: 0, daily: [0] } };
+      (mockSnippetManager.getUsageReport as any).mockResolvedValue({
+        success: true,
+        data: report,
+      });
+
+      const response = await request(server.getApp())
+        .get("/api/usage?days=7&staleDays=30")
+        .expect(200);
+      await request(server.getApp()).get("/api/usage?days=none").expect(400);
+
+      expect(response.body).toEqual(report);
+      expect(mockSnippetManager.getUsageReport).toHaveBeenCalledWith({
+        days: 7,
+        staleDays: 30,
+      });
+    });
+  });
+
+  describe("Dashboard Endpoint", () => {
+    it("should compute the dashboard from all snippets", async () => {
+      (mockSnippetManager.getAllSnippets as any).mockResolvedValue({
+        success: true,
+        data: [
+          { ...mockSnippet, id: "1", usageCount: 2 },
+          { ...mockSnippet, id: "2", description: "", tags: [] },
+        ],
+      });
+
+      const response = await request(server.getApp())
+        .get("/api/dashboard")
+        .expect(200);
+
+      expect(response.body.total).toBe(2);
+      expect(response.body.totalUsage).toBe(2);
+      expect(response.body.languages).toEqual([
+        { name: "javascript", count: 2 },
+      ]);
+      expect(response.body.growth).toHaveLength(12);
+      expect(
+        response.body.health.map((warning: any) => warning.kind)
+      ).toEqual(["missingDescription", "untagged", "duplicates"]);
+    });
+
+    it("should fail when snippets cannot be loaded", async () => {
+      (mockSnippetManager.getAllSnippets as any).mockResolvedValue({
+        success: false,
+        error: { message: "Storage failed" },
+      });
+
+      const response = await request(server.getApp())
+        .get("/api/dashboard")
+        .expect(500);
+
+      expect(response.body.error).toBe("Storage failed");
+    });
+  });
+
+  describe("Lint Endpoints", () => {
+    it("should return the lint report", async () => {
+      const report = {
+        checked: 1,
+        issues: [],
+        counts: { error: 0, warning: 0, info: 0 },
+        fixable: 0,
+      };
+      (mockSnippetManager.lintLibrary as any).mockResolvedValue({
+        success: true,
+        data: report,
+      });
+
+      const response = await request(server.getApp())
+        .get("/api/lint")
+        .expect(200);
+
+      expect(response.body).toEqual(report);
+    });
+
+    it("should apply fixes to the given snippets", async () => {
+      (mockSnippetManager.fixLintIssues as any).mockResolvedValue({
+        success: true,
+        data: 2,
+      });
+
+      const response = await request(server.getApp())
+        .post("/api/lint/fix")
+        .send({ snippetIds: ["1", "2"] })
+        .expect(200);
+      await request(server.getApp())
+        .post("/api/lint/fix")
+        .send({ snippetIds: "1" })
+        .expect(400);
+
+      expect(response.body).toEqual({ fixed: 2 });
+      expect(mockSnippetManager.fixLintIssues).toHaveBeenCalledTimes(1);
+      expect(mockSnippetManager.fixLintIssues).toHaveBeenCalledWith(
+        ["1", "2"],
+        { source: "webgui" }
+      );
+    });
+  });
+
+  describe("Authentication", () => {
+    let accessTokens: AccessTokenService;
+    let readToken: string;
+    let securedServer: WebGUIServer;
+
+    beforeEach(async () => {
+      accessTokens = new AccessTokenService({ sessionSecret: "secret" });
+      const created = await accessTokens.createToken("Reports", "read");
+      if (!created.success) {
+        throw new Error(created.error.message);
+      }
+      readToken = created.data.token;
+      securedServer = new WebGUIServer(config, {
+        ...dependencies,
+        accessTokens,
+      });
+      vi.mocked(mockSnippetManager.searchSnippets).mockResolvedValue({
+        success: true,
+        data: [mockSnippet],
+      });
+    });
+
+    it("should reject API requests without a valid token", async () => {
+      const missing = await request(securedServer.getApp())
+        .get("/api/snippets")
+        .expect(401);
+      const wrong = await request(securedServer.getApp())
+        .get("/api/snippets")
+        .set("Authorization", "Bearer sl_wrong")
+        .expect(401);
+      const malformed = await request(securedServer.getApp())
+        .get("/api/snippets")
+        .set("Cookie", "snippet_library_session=%E0%A4%A")
+        .expect(401);
+
+      expect(missing.headers["www-authenticate"]).toContain("Bearer");
+      expect(missing.body).toEqual({
+        error: "Unauthorized",
+        message: expect.stringContaining("Authentication required"),
+      });
+      expect(wrong.body.error).toBe("Unauthorized");
+      expect(malformed.body.error).toBe("Unauthorized");
+      expect(mockSnippetManager.searchSnippets).not.toHaveBeenCalled();
+    });
+
+    it("should keep the health check open", async () => {
+      await request(securedServer.getApp()).get("/health").expect(200);
+    });
+
+    it("should trade the session secret for a cookie", async () => {
+      const opened = await request(securedServer.getApp())
+        .get("/snippets?token=secret&view=grid")
+        .expect(302);
+      const cookie = opened.headers["set-cookie"][0];
+
+      expect(opened.headers.location).toBe("/snippets?view=grid");
+      expect(cookie).toMatch(/^snippet_library_session=secret;/);
+      expect(cookie).toContain("HttpOnly");
+      expect(cookie).toContain("SameSite=Strict");
+
+      await request(securedServer.getApp())
+        .get("/api/snippets")
+        .set("Cookie", cookie.split(";")[0])
+        .expect(200);
+    });
+
+    it("should let read-only tokens read but not change", async () => {
+      await request(securedServer.getApp())
+        .get("/api/snippets")
+        .set("Authorization", `Bearer ${readToken}`)
+        .expect(200);
+      await request(securedServer.getApp())
+        .post("/api/snippets/search")
+        .set("Authorization", `Bearer ${readToken}`)
+        .send({ text: "test" })
+        .expect(200);
+      const denied = await request(securedServer.getApp())
+        .delete("/api/snippets/test-id")
+        .set("Authorization", `Bearer ${readToken}`)
+        .expect(403);
+
+      expect(denied.body).toEqual({
+        error: "Forbidden",
+        message: "This API token can only read the library",
+      });
+      expect(mockSnippetManager.deleteSnippet).not.toHaveBeenCalled();
+    });
+  });
+
   describe("CORS Configuration", () => {
     beforeEach(async () => {
       await server.start();
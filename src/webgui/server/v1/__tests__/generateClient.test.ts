@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import { API_CLIENT_PATH, generateApiClient } from "../generateClient";
+import { buildOpenApiDocument } from "../openapi";
+
+describe("generateApiClient", () => {
+  const document = buildOpenApiDocument();
+
+  it("should match the committed client", () => {
+    const committed = fs.readFileSync(
+      path.resolve(__dirname, "../../../../..", API_CLIENT_PATH),
+      "utf8"
+    );
+
+    // Run npm run generate:api-client after changing the API
+    expect(generateApiClient(document)).toBe(committed);
+  });
+
+  it("should declare a method and input type per operation", () => {
+    const source = generateApiClient(document);
+
+    expect(source).toContain("export interface Snippet {");
+    expect(source).toContain("export interface UpdateSnippetInput {");
+    expect(source).toMatch(/updateSnippet: \(input: UpdateSnippetInput\)/);
+    expect(source).toContain('send("PATCH", `/snippets/${encode(input.id)}`');
+  });
+
+  it("should download files as blobs", () => {
+    expect(generateApiClient(document)).toMatch(
+      /exportSnippets: \([^)]*\): Promise<Blob>/
+    );
+  });
+});
@@ -0,0 +1,295 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import express from "express";
+import request from "supertest";
+import { WebGUIServer } from "../../WebGUIServer";
+import { SnippetManagerImpl } from "../../../../core/services/SnippetManagerImpl";
+import { createTeamStorageService } from "../../../../core/services";
+import { API_V1_BASE_PATH } from "../openapi";
+import { ApiOperation } from "../operations";
+import { createApiRouter } from "../router";
+import { ref } from "../schema";
+
+describe("API v1 router", () => {
+  let tempDir: string;
+  let server: WebGUIServer;
+
+  const api = () => request(server.getApp());
+
+  const createSnippet = async (title: string, language = "javascript") => {
+    const response = await api()
+      .post(`${API_V1_BASE_PATH}/snippets`)
+      .send({ title, code: `// ${title}`, language, tags: ["demo"] })
+      .expect(201);
+    return response.body;
+  };
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "snippet-api-"));
+    const storage = createTeamStorageService(
+      path.join(tempDir, "snippets.json")
+    );
+    const snippetManager = new SnippetManagerImpl(storage);
+    await snippetManager.initialize();
+    // Reloads on the manager's own saves could read a half-written file
+    storage.stopWatching();
+
+    server = new WebGUIServer(
+      { port: 0, host: "localhost" },
+      { snippetManager }
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should serve the OpenAPI document", async () => {
+    const response = await api()
+      .get(`${API_V1_BASE_PATH}/openapi.json`)
+      .expect(200);
+
+    expect(response.body.openapi).toBe("3.0.3");
+    expect(response.body.servers).toEqual([{ url: API_V1_BASE_PATH }]);
+    expect(response.body.paths["/snippets/{id}"]).toHaveProperty("patch");
+    expect(response.body.components.schemas).toHaveProperty("Snippet");
+  });
+
+  it("should create, read, update and delete snippets", async () => {
+    const created = await createSnippet("Hello");
+    expect(created).toMatchObject({ title: "Hello", usageCount: 0 });
+
+    await api()
+      .patch(`${API_V1_BASE_PATH}/snippets/${created.id}`)
+      .send({ title: "Hello again" })
+      .expect(200);
+    const fetched = await api()
+      .get(`${API_V1_BASE_PATH}/snippets/${created.id}`)
+      .expect(200);
+    expect(fetched.body.title).toBe("Hello again");
+
+    await api()
+      .delete(`${API_V1_BASE_PATH}/snippets/${created.id}`)
+      .expect(204);
+    await api()
+      .get(`${API_V1_BASE_PATH}/snippets/${created.id}`)
+      .expect(404);
+  });
+
+  it("should answer changes to missing snippets with 404", async () => {
+    await api()
+      .patch(`${API_V1_BASE_PATH}/snippets/missing`)
+      .send({ title: "Gone" })
+      .expect(404);
+    await api().delete(`${API_V1_BASE_PATH}/snippets/missing`).expect(404);
+  });
+
+  it("should page and sort lists", async () => {
+    for (const title of ["Charlie", "Alpha", "Bravo"]) {
+      await createSnippet(title);
+    }
+
+    const response = await api()
+      .get(`${API_V1_BASE_PATH}/snippets`)
+      .query({ sort: "title", order: "desc", limit: 2, offset: 1 })
+      .expect(200);
+
+    expect(response.body).toMatchObject({ total: 3, limit: 2, offset: 1 });
+    expect(response.body.items.map((item: any) => item.title)).toEqual([
+      "Bravo",
+      "Alpha",
+    ]);
+  });
+
+  it("should continue lists after their cursor", async () => {
+    for (const title of ["Alpha", "Bravo", "Delta"]) {
+      await createSnippet(title);
+    }
+    const list = (query: Record<string, unknown>) =>
+      api()
+        .get(`${API_V1_BASE_PATH}/snippets`)
+        .query({ sort: "title", limit: 2, ...query })
+        .expect(200);
+
+    const first = await list({});
+    expect(first.body.items.map((item: any) => item.title)).toEqual([
+      "Alpha",
+      "Bravo",
+    ]);
+
+    // Neither shifts the next page, not even removing its last item
+    await createSnippet("Aardvark");
+    await createSnippet("Abacus");
+    await api()
+      .delete(`${API_V1_BASE_PATH}/snippets/${first.body.items[1].id}`)
+      .expect(204);
+
+    const second = await list({ cursor: first.body.nextCursor });
+    expect(second.body.items.map((item: any) => item.title)).toEqual([
+      "Delta",
+    ]);
+    expect(second.body.nextCursor).toBeUndefined();
+  });
+
+  it("should reject cursors of lists sorted another way", async () => {
+    await createSnippet("Alpha");
+    await createSnippet("Bravo");
+    const first = await api()
+      .get(`${API_V1_BASE_PATH}/snippets`)
+      .query({ sort: "title", limit: 1 })
+      .expect(200);
+
+    const response = await api()
+      .get(`${API_V1_BASE_PATH}/snippets`)
+      .query({ sort: "usageCount", cursor: first.body.nextCursor })
+      .expect(400);
+
+    expect(response.body.message).toBe("Invalid cursor");
+  });
+
+  it("should send only the fields asked for", async () => {
+    await createSnippet("Slim");
+
+    const response = await api()
+      .get(`${API_V1_BASE_PATH}/snippets`)
+      .query({ fields: ["title", "tags"] })
+      .expect(200);
+
+    expect(response.body.items).toEqual([
+      { id: expect.any(String), title: "Slim", tags: ["demo"] },
+    ]);
+  });
+
+  it("should answer unchanged reads with 304", async () => {
+    await createSnippet("Cached");
+    const first = await api().get(`${API_V1_BASE_PATH}/snippets`).expect(200);
+    const etag = first.headers.etag;
+
+    await api()
+      .get(`${API_V1_BASE_PATH}/snippets`)
+      .set("If-None-Match", etag)
+      .expect(304);
+
+    await createSnippet("Changed");
+    const changed = await api()
+      .get(`${API_V1_BASE_PATH}/snippets`)
+      .set("If-None-Match", etag)
+      .expect(200);
+    expect(changed.headers.etag).not.toBe(etag);
+  });
+
+  it("should filter lists by repeated query parameters", async () => {
+    await createSnippet("Script", "python");
+    await createSnippet("Page", "html");
+
+    const response = await api()
+      .get(`${API_V1_BASE_PATH}/snippets`)
+      .query({ language: "python" })
+      .expect(200);
+
+    expect(response.body.total).toBe(1);
+    expect(response.body.items[0].title).toBe("Script");
+  });
+
+  it("should reject invalid input with the problems found", async () => {
+    const body = await api()
+      .post(`${API_V1_BASE_PATH}/snippets`)
+      .send({ title: "No code", language: 42 })
+      .expect(400);
+    expect(body.body).toEqual({
+      error: "Bad Request",
+      message: expect.stringContaining("body.code is required"),
+    });
+    expect(body.body.message).toContain("body.language must be a string");
+
+    const query = await api()
+      .get(`${API_V1_BASE_PATH}/snippets`)
+      .query({ limit: "many", order: "sideways" })
+      .expect(400);
+    expect(query.body.message).toContain("query.limit must be an integer");
+    expect(query.body.message).toContain("query.order must be one of");
+  });
+
+  it("should answer unknown routes with a JSON 404", async () => {
+    const response = await api()
+      .get(`${API_V1_BASE_PATH}/nothing-here`)
+      .expect(404);
+
+    expect(response.body).toEqual({
+      error: "Not Found",
+      message: `Route GET ${API_V1_BASE_PATH}/nothing-here not found`,
+    });
+  });
+
+  it("should download exports as files", async () => {
+    await createSnippet("Exported");
+
+    const response = await api()
+      .get(`${API_V1_BASE_PATH}/snippets/export`)
+      .query({ format: "yaml" })
+      .expect(200);
+
+    expect(response.headers["content-disposition"]).toBe(
+      'attachment; filename="snippets-export.yaml"'
+    );
+    expect(response.text).toContain("Exported");
+  });
+
+  it("should import uploaded files", async () => {
+    const file = JSON.stringify({
+      snippets: [
+        {
+          title: "Imported",
+          code: "print(1)",
+          language: "python",
+          tags: [],
+        },
+      ],
+      metadata: {
+        exportedAt: new Date().toISOString(),
+        version: "1.0.0",
+        count: 1,
+      },
+    });
+
+    const response = await api()
+      .post(`${API_V1_BASE_PATH}/snippets/import`)
+      .attach("file", Buffer.from(file), "snippets.json")
+      .field("conflictResolution", "skip")
+      .expect(200);
+
+    expect(response.body.imported).toBe(1);
+    const list = await api().get(`${API_V1_BASE_PATH}/snippets`).expect(200);
+    expect(list.body.items[0].title).toBe("Imported");
+  });
+
+  it("should refuse to send responses that break the schema", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const broken: ApiOperation = {
+      operationId: "broken",
+      method: "get",
+      path: "/broken",
+      tag: "test",
+      summary: "Answer with the wrong shape",
+      response: ref("Snippet"),
+      handle: async () => ({ success: true, data: { id: 1 } }),
+    };
+    const app = express().use(
+      "/api",
+      createApiRouter(
+        { snippetManager: {} as any, events: {} as any },
+        { operations: [broken] }
+      )
+    );
+
+    const response = await request(app).get("/api/broken").expect(500);
+
+    expect(response.body.message).toBe(
+      "Response does not match the API schema"
+    );
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+});
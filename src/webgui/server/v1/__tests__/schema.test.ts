@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import {
+  JsonSchema,
+  applyDefaults,
+  coerceParameter,
+  ref,
+  validateSchema,
+} from "../schema";
+
+const components: Record<string, JsonSchema> = {
+  Item: {
+    type: "object",
+    properties: {
+      name: { type: "string", minLength: 1 },
+      kind: { type: "string", enum: ["a", "b"] },
+      createdAt: { type: "string", format: "date-time" },
+      parent: { type: "string", nullable: true },
+      note: { type: "string", default: "" },
+      children: { type: "array", items: ref("Item") },
+    },
+    required: ["name"],
+    additionalProperties: false,
+  },
+};
+
+describe("validateSchema", () => {
+  it("should accept values matching the schema", () => {
+    const value = {
+      name: "root",
+      kind: "a",
+      createdAt: new Date().toISOString(),
+      parent: null,
+      children: [{ name: "leaf" }],
+    };
+
+    expect(validateSchema(ref("Item"), value, components)).toEqual([]);
+  });
+
+  it("should report each problem with its path", () => {
+    const problems = validateSchema(
+      ref("Item"),
+      {
+        kind: "c",
+        createdAt: "yesterday",
+        children: [{ name: 3 }],
+        extra: true,
+      },
+      components
+    );
+
+    expect(problems).toEqual([
+      "value.name is required",
+      "value.kind must be one of: a, b",
+      "value.createdAt must be a date",
+      "value.children[0].name must be a string",
+      "value.extra is not allowed",
+    ]);
+  });
+
+  it("should reject null unless the schema is nullable", () => {
+    expect(
+      validateSchema({ type: "string" }, null, components, "title")
+    ).toEqual(["title must not be null"]);
+    expect(
+      validateSchema({ type: "string", nullable: true }, null, components)
+    ).toEqual([]);
+  });
+
+  it("should check number ranges", () => {
+    const schema: JsonSchema = { type: "integer", minimum: 1, maximum: 10 };
+
+    expect(validateSchema(schema, 5, components)).toEqual([]);
+    expect(validateSchema(schema, 11, components, "limit")).toHaveLength(1);
+    expect(validateSchema(schema, 1.5, components, "limit")).toHaveLength(1);
+  });
+});
+
+describe("coerceParameter", () => {
+  it("should convert query strings to the schema type", () => {
+    expect(coerceParameter({ type: "integer" }, "20")).toBe(20);
+    expect(coerceParameter({ type: "boolean" }, "true")).toBe(true);
+    expect(coerceParameter({ type: "string" }, "20")).toBe("20");
+  });
+
+  it("should wrap single values of array parameters", () => {
+    const schema: JsonSchema = { type: "array", items: { type: "string" } };
+
+    expect(coerceParameter(schema, "python")).toEqual(["python"]);
+    expect(coerceParameter(schema, ["a", "b"])).toEqual(["a", "b"]);
+  });
+
+  it("should leave values that do not convert for validation", () => {
+    expect(coerceParameter({ type: "integer" }, "many")).toBe("many");
+  });
+});
+
+describe("applyDefaults", () => {
+  it("should fill in missing properties throughout the value", () => {
+    const value = { name: "root", children: [{ name: "leaf", note: "x" }] };
+
+    applyDefaults(ref("Item"), value, components);
+
+    expect(value).toEqual({
+      name: "root",
+      note: "",
+      children: [{ name: "leaf", note: "x" }],
+    });
+  });
+});
@@ -0,0 +1,359 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  OpenApiDocument,
+  OpenApiOperation,
+  OpenApiParameter,
+  buildOpenApiDocument,
+} from "./openapi";
+import { JsonSchema, getRefName } from "./schema";
+
+/**
+ * Where the generated client is kept, relative to the repository
+ */
+export const API_CLIENT_PATH = "src/webgui/client/services/apiClient.ts";
+
+const identifier = /^[A-Za-z_$][\w$]*$/;
+
+const propertyName = (name: string) =>
+  identifier.test(name) ? name : JSON.stringify(name);
+
+const pascalCase = (name: string) =>
+  name.charAt(0).toUpperCase() + name.slice(1);
+
+const comment = (text: string | undefined, indent: string) =>
+  text ? [`${indent}/** ${text} */`] : [];
+
+/**
+ * TypeScript type of a schema. Dates are typed as Date like the shared
+ * types the client uses, although JSON carries them as ISO strings.
+ */
+function typeOf(schema: JsonSchema, indent = ""): string {
+  const type = baseTypeOf(schema, indent);
+  return schema.nullable ? `${type} | null` : type;
+}
+
+function baseTypeOf(schema: JsonSchema, indent: string): string {
+  if (schema.$ref) {
+    return getRefName(schema.$ref);
+  }
+  if (schema.format === "binary") {
+    return "Blob";
+  }
+  if (schema.enum) {
+    // Long unions get a line per member
+    const members = schema.enum.map((value) => JSON.stringify(value));
+    const union = members.join(" | ");
+    return indent.length + union.length > 60
+      ? members.map((member) => `\n${indent}  | ${member}`).join("")
+      : union;
+  }
+
+  switch (schema.type) {
+    case "string":
+      return schema.format === "date-time" ? "Date" : "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "array": {
+      const item = typeOf(schema.items || {}, indent);
+      if (item.startsWith("\n")) {
+        return `Array<${item}\n${indent}>`;
+      }
+      return /[ |]/.test(item) && !item.startsWith("{")
+        ? `Array<${item}>`
+        : `${item}[]`;
+    }
+    case "object":
+      if (schema.properties) {
+        return objectTypeOf(schema, indent);
+      }
+      return typeof schema.additionalProperties === "object"
+        ? `Record<string, ${typeOf(schema.additionalProperties, indent)}>`
+        : "Record<string, unknown>";
+    default:
+      return "unknown";
+  }
+}
+
+function objectTypeOf(schema: JsonSchema, indent: string): string {
+  const inner = `${indent}  `;
+  const lines = Object.entries(schema.properties || {}).flatMap(
+    ([name, property]) => {
+      const type = typeOf(property, inner);
+      const optional = schema.required?.includes(name) ? "" : "?";
+      return [
+        ...comment(property.description, inner),
+        `${inner}${propertyName(name)}${optional}:${
+          type.startsWith("\n") ? "" : " "
+        }${type};`,
+      ];
+    }
+  );
+  return ["{", ...lines, `${indent}}`].join("\n");
+}
+
+function declareSchema(name: string, schema: JsonSchema): string[] {
+  return [
+    ...comment(schema.description, ""),
+    schema.type === "object" && schema.properties
+      ? `export interface ${name} ${objectTypeOf(schema, "")}`
+      : `export type ${name} = ${typeOf(schema)};`,
+    "",
+  ];
+}
+
+/**
+ * Describe the input of an operation: its path and query parameters, and
+ * its body
+ */
+function inputOf(operation: OpenApiOperation): JsonSchema | undefined {
+  const parameters = operation.parameters || [];
+  const content = operation.requestBody?.content || {};
+  const bodySchema = Object.values(content)[0]?.schema;
+  if (parameters.length === 0 && !bodySchema) {
+    return undefined;
+  }
+
+  const schema: JsonSchema = {
+    type: "object",
+    properties: {},
+    required: [],
+  };
+  for (const parameter of parameters) {
+    schema.properties![parameter.name] = {
+      ...parameter.schema,
+      description: parameter.description,
+    };
+    if (parameter.required) {
+      schema.required!.push(parameter.name);
+    }
+  }
+  if (bodySchema) {
+    schema.properties!.body = bodySchema;
+    if (operation.requestBody!.required) {
+      schema.required!.push("body");
+    }
+  }
+  return schema;
+}
+
+function describeCall(
+  urlPath: string,
+  httpMethod: string,
+  operation: OpenApiOperation
+): string[] {
+  const parameters: OpenApiParameter[] = operation.parameters || [];
+  const input = inputOf(operation);
+  const inputType = `${pascalCase(operation.operationId)}Input`;
+  const optional = input && input.required!.length === 0;
+  const [response] = Object.values(operation.responses);
+  const download = !!response.content?.["application/octet-stream"];
+  const returnType = download
+    ? "Blob"
+    : response.content
+    ? typeOf(response.content["application/json"].schema, "    ")
+    : "void";
+
+  const pathExpression = parameters.some((p) => p.in === "path")
+    ? `\`${urlPath.replace(/\{(\w+)\}/g, "${encode(input.$1)}")}\``
+    : JSON.stringify(urlPath);
+
+  const queryNames = parameters
+    .filter((parameter) => parameter.in === "query")
+    .map((parameter) => parameter.name);
+  const requestOptions = [
+    ...(queryNames.length > 0
+      ? [
+          "query: {",
+          ...queryNames.map((name) => `  ${name}: input.${name},`),
+          "},",
+        ]
+      : []),
+    ...(operation.requestBody
+      ? [
+          operation.requestBody.content["multipart/form-data"]
+            ? "form: input.body,"
+            : "json: input.body,",
+        ]
+      : []),
+    ...(download ? ["download: true,"] : []),
+  ];
+
+  const parameter = input
+    ? `input: ${inputType}${optional ? " = {}" : ""}`
+    : "";
+  const returns = `Promise<${returnType}>`;
+  const head = `    ${operation.operationId}: (${parameter}): ${returns} =>`;
+  const method = JSON.stringify(httpMethod.toUpperCase());
+  const options = requestOptions.map((line) => `        ${line}`);
+
+  let call = [`      send(${method}, ${pathExpression}),`];
+  if (options.length > 0) {
+    const opening = `      send(${method}, ${pathExpression}, {`;
+    call =
+      opening.length <= 80
+        ? [opening, ...options, "      }),"]
+        : [
+            "      send(",
+            `        ${method},`,
+            `        ${pathExpression},`,
+            "        {",
+            ...options.map((line) => `  ${line}`),
+            "        }",
+            "      ),",
+          ];
+  } else if (call[0].length > 80) {
+    call = [
+      "      send(",
+      `        ${method},`,
+      `        ${pathExpression}`,
+      "      ),",
+    ];
+  }
+
+  return [
+    ...comment(operation.summary, "    "),
+    ...(head.length <= 80
+      ? [head]
+      : [
+          `    ${operation.operationId}: (`,
+          `      ${parameter}`,
+          `    ): ${returns} =>`,
+        ]),
+    ...call,
+  ];
+}
+
+const runtime = `export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export interface ApiClientOptions {
+  baseUrl?: string; // /api/v1 by default
+  fetch?: typeof fetch;
+}
+
+interface RequestOptions {
+  query?: Record<string, unknown>;
+  json?: unknown;
+  form?: Record<string, unknown>;
+  download?: boolean;
+}
+
+/**
+ * Create a client for the API. Failed requests are thrown as ApiError with
+ * the message of the server.
+ */
+export function createApiClient(options: ApiClientOptions = {}) {
+  const baseUrl = options.baseUrl ?? "/api/v1";
+  const encode = (value: string | number) => encodeURIComponent(String(value));
+
+  const send = async (
+    method: string,
+    path: string,
+    request: RequestOptions = {}
+  ): Promise<any> => {
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(request.query || {})) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (item !== undefined) {
+          params.append(name, String(item));
+        }
+      }
+    }
+    const query = params.toString();
+    const init: RequestInit = { method };
+
+    if (request.form) {
+      const form = new FormData();
+      for (const [name, value] of Object.entries(request.form)) {
+        if (value !== undefined) {
+          form.append(name, value instanceof Blob ? value : String(value));
+        }
+      }
+      init.body = form;
+    } else if (request.json !== undefined) {
+      init.headers = { "Content-Type": "application/json" };
+      init.body = JSON.stringify(request.json);
+    }
+
+    const response = await (options.fetch || fetch)(
+      \`\${baseUrl}\${path}\${query ? \`?\${query}\` : ""}\`,
+      init
+    );
+    if (!response.ok) {
+      const error = (await response.json().catch(() => ({}))) as any;
+      throw new ApiError(
+        error.message || \`HTTP \${response.status}: \${response.statusText}\`,
+        response.status,
+        error.details
+      );
+    }
+
+    if (request.download) {
+      return response.blob();
+    }
+    return response.status === 204 ? undefined : response.json();
+  };
+`;
+
+/**
+ * Generate the source of a typed client for the API described by an
+ * OpenAPI document
+ */
+export function generateApiClient(document: OpenApiDocument): string {
+  const lines = [
+    "/**",
+    ` * Client for ${document.info.title} ${document.info.version}.`,
+    " *",
+    " * Generated from the OpenAPI document by npm run generate:api-client;",
+    " * do not edit.",
+    " */",
+    "",
+  ];
+
+  for (const [name, schema] of Object.entries(document.components.schemas)) {
+    lines.push(...declareSchema(name, schema));
+  }
+
+  const calls: string[] = [];
+  for (const [urlPath, methods] of Object.entries(document.paths)) {
+    for (const [method, operation] of Object.entries(methods)) {
+      const input = inputOf(operation);
+      if (input) {
+        lines.push(
+          ...declareSchema(
+            `${pascalCase(operation.operationId)}Input`,
+            input
+          )
+        );
+      }
+      calls.push(...describeCall(urlPath, method, operation));
+    }
+  }
+
+  lines.push(runtime, "  return {", ...calls, "  };", "}", "");
+  lines.push("export type ApiClient = ReturnType<typeof createApiClient>;", "");
+  return lines.join("\n");
+}
+
+// npm run generate:api-client
+if (require.main === module) {
+  const outputPath = path.resolve(
+    __dirname,
+    "../../../..",
+    process.argv[2] || API_CLIENT_PATH
+  );
+  fs.writeFileSync(outputPath, generateApiClient(buildOpenApiDocument()));
+  console.log(`Wrote ${outputPath}`);
+}
@@ -0,0 +1,16 @@
+export {
+  ApiContext,
+  ApiEvents,
+  ApiOperation,
+  operations,
+  paginate,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+} from "./operations";
+export {
+  API_V1_BASE_PATH,
+  OpenApiDocument,
+  buildOpenApiDocument,
+} from "./openapi";
+export { createApiRouter, ApiRouterOptions } from "./router";
+export { generateApiClient } from "./generateClient";
@@ -0,0 +1,168 @@
+import { ApiOperation, operations as allOperations } from "./operations";
+import { components } from "./schemas";
+import { JsonSchema, ref } from "./schema";
+
+/**
+ * Where version 1 of the API is served
+ */
+export const API_V1_BASE_PATH = "/api/v1";
+
+/**
+ * OpenAPI 3.0 document, reduced to the parts this API uses
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers: Array<{ url: string }>;
+  security: Array<Record<string, string[]>>;
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes: Record<string, unknown>;
+  };
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: "path" | "query";
+  required: boolean;
+  schema: JsonSchema;
+  description?: string;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  tags: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, { schema: JsonSchema }>;
+  };
+  responses: Record<
+    string,
+    {
+      description: string;
+      headers?: Record<string, { description: string; schema: JsonSchema }>;
+      content?: Record<string, { schema: JsonSchema }>;
+    }
+  >;
+  "x-read-only"?: boolean;
+}
+
+const describeParameters = (
+  location: "path" | "query",
+  schema?: JsonSchema
+): OpenApiParameter[] =>
+  Object.entries(schema?.properties || {}).map(([name, property]) => {
+    const { description, ...propertySchema } = property;
+    return {
+      name,
+      in: location,
+      required: location === "path" || !!schema!.required?.includes(name),
+      schema: propertySchema,
+      ...(description && { description }),
+    };
+  });
+
+const describeOperation = (operation: ApiOperation): OpenApiOperation => {
+  const status = String(operation.status || (operation.response ? 200 : 204));
+  const cached = operation.method === "get" && !operation.download;
+  const parameters = [
+    ...describeParameters("path", {
+      type: "object",
+      properties: operation.params,
+    }),
+    ...describeParameters("query", operation.query),
+  ];
+
+  return {
+    operationId: operation.operationId,
+    summary: operation.summary,
+    tags: [operation.tag],
+    ...(parameters.length > 0 && { parameters }),
+    ...(operation.body && {
+      requestBody: {
+        required: !!operation.body.required || !!operation.body.$ref,
+        content: {
+          [operation.upload ? "multipart/form-data" : "application/json"]: {
+            schema: operation.body,
+          },
+        },
+      },
+    }),
+    responses: {
+      [status]: operation.download
+        ? {
+            description: "File download",
+            content: {
+              "application/octet-stream": {
+                schema: { type: "string", format: "binary" },
+              },
+            },
+          }
+        : operation.response
+        ? {
+            description: "Success",
+            ...(cached && {
+              headers: {
+                ETag: {
+                  description: "Version of the response for If-None-Match",
+                  schema: { type: "string" },
+                },
+              },
+            }),
+            content: { "application/json": { schema: operation.response } },
+          }
+        : { description: "No content" },
+      ...(cached && {
+        304: { description: "Not modified since the ETag in If-None-Match" },
+      }),
+      default: {
+        description: "Error",
+        content: { "application/json": { schema: ref("ErrorResponse") } },
+      },
+    },
+    ...(operation.readOnly && { "x-read-only": true }),
+  };
+};
+
+/**
+ * Build the OpenAPI document describing the operations. Bodies of
+ * operations marked x-read-only are queries, so read-only API tokens may
+ * send them.
+ */
+export function buildOpenApiDocument(
+  operations: ApiOperation[] = allOperations
+): OpenApiDocument {
+  const paths: OpenApiDocument["paths"] = {};
+  for (const operation of operations) {
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method]: describeOperation(operation),
+    };
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "Snippet Library API",
+      version: "1.0.0",
+      description:
+        "Lists take limit, offset, sort and order parameters and answer " +
+        "with a page of items and their total. The nextCursor of a page " +
+        "continues the list after it, even when items were added or " +
+        "removed in between. Reads answer with an ETag to revalidate them " +
+        "with If-None-Match.",
+    },
+    servers: [{ url: API_V1_BASE_PATH }],
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      schemas: components,
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+      },
+    },
+  };
+}
@@ -0,0 +1,1185 @@
+import { SnippetManager } from "../../../interfaces/SnippetManager";
+import {
+  AdvancedSearchQuery,
+  ErrorType,
+  ExportFilter,
+  ImportData,
+  Result,
+  SnippetInterface,
+} from "../../../types";
+import { createError } from "../../../core/utils";
+import { parseQuery } from "../../../core/query";
+import { SynchronizationCoordinator } from "../../../core/services/SynchronizationCoordinator";
+import {
+  describeConflict,
+  applyFieldResolution,
+} from "../../../core/services/ConflictResolutionService";
+import {
+  ImportExportService,
+  FileFormat,
+  getFileExtension,
+} from "../../../core/services/ImportExportService";
+import { DuplicateDetectionService } from "../../../core/services/DuplicateDetectionService";
+import { LibraryStatsService } from "../../../core/services/LibraryStatsService";
+import { JsonSchema, ref } from "./schema";
+import { components } from "./schemas";
+
+export type HttpMethod = "get" | "post" | "put" | "patch" | "delete";
+
+/**
+ * Page sizes of list operations
+ */
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+/**
+ * Validated input of an operation
+ */
+export interface ApiInput {
+  params: Record<string, any>;
+  query: Record<string, any>;
+  body: any;
+}
+
+/**
+ * File sent instead of a JSON response
+ */
+export interface ApiFile {
+  content: string;
+  contentType: string;
+  filename: string;
+}
+
+/**
+ * Notifications for other clients about changes made through the API
+ */
+export interface ApiEvents {
+  // Also tells the synchronization coordinator
+  snippetChanged(
+    action: "created" | "updated" | "deleted",
+    snippet: SnippetInterface
+  ): Promise<void>;
+  // Changes that need no synchronization, such as usage counts
+  snippetRefreshed(snippet: SnippetInterface): void;
+  snippetsChanged(
+    action: "imported" | "deleted" | "updated",
+    count: number
+  ): void;
+  collectionsChanged(): void;
+  savedSearchesChanged(): void;
+}
+
+/**
+ * Services the operations work with
+ */
+export interface ApiContext {
+  snippetManager: SnippetManager;
+  syncCoordinator?: SynchronizationCoordinator;
+  events: ApiEvents;
+}
+
+/**
+ * Operation of the API with the schemas of its input and output. The
+ * router validates requests and responses against the schemas, and the
+ * OpenAPI document and the client are generated from them.
+ */
+export interface ApiOperation {
+  operationId: string;
+  method: HttpMethod;
+  path: string; // Relative to /api/v1, with {name} for path parameters
+  tag: string;
+  summary: string;
+  params?: Record<string, JsonSchema>;
+  query?: JsonSchema; // Object schema of the query parameters
+  body?: JsonSchema;
+  upload?: boolean; // The body is a form with a file field
+  readOnly?: boolean; // For POST operations that do not change anything
+  status?: number; // Of successful responses, 200 by default
+  response?: JsonSchema; // No content without one
+  download?: boolean; // The response is an ApiFile
+  handle(input: ApiInput, context: ApiContext): Promise<Result<unknown>>;
+}
+
+const text: JsonSchema = { type: "string" };
+const texts: JsonSchema = { type: "array", items: text };
+const idParam = { id: text };
+
+const snippetSortFields = [
+  "title",
+  "language",
+  "category",
+  "createdAt",
+  "updatedAt",
+  "usageCount",
+];
+
+/**
+ * Query of a list operation: filters, then the same paging and sorting
+ * parameters for every list
+ */
+const listQuery = (
+  sortFields: string[],
+  filters: Record<string, JsonSchema> = {}
+): JsonSchema => ({
+  type: "object",
+  properties: {
+    ...filters,
+    limit: {
+      type: "integer",
+      minimum: 1,
+      maximum: MAX_PAGE_SIZE,
+      default: DEFAULT_PAGE_SIZE,
+    },
+    offset: { type: "integer", minimum: 0, default: 0 },
+    cursor: {
+      type: "string",
+      description: "nextCursor of the previous page, to continue after it",
+    },
+    sort: {
+      type: "string",
+      enum: sortFields,
+      description: "Items keep their default order when not given",
+    },
+    order: { type: "string", enum: ["asc", "desc"], default: "asc" },
+  },
+});
+
+const sortValue = (value: unknown) =>
+  value instanceof Date ? value.getTime() : value;
+
+const isMissing = (value: unknown) => value === undefined || value === null;
+
+const compareValues = (a: unknown, b: unknown): number => {
+  const left = sortValue(a);
+  const right = sortValue(b);
+  if (typeof left === "number" && typeof right === "number") {
+    return left - right;
+  }
+  return String(left).localeCompare(String(right), undefined, {
+    sensitivity: "base",
+    numeric: true,
+  });
+};
+
+/**
+ * Position in a sorted list after which the next page starts. Items are
+ * told apart by their id.
+ */
+interface Cursor {
+  index: number;
+  id?: string;
+  value?: unknown; // Of the sort field
+  sort?: string;
+  order?: string;
+}
+
+interface SortKey {
+  value: unknown;
+  id: string;
+}
+
+const encodeCursor = (cursor: Cursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+const decodeCursor = (text: string): Cursor | undefined => {
+  try {
+    const cursor = JSON.parse(Buffer.from(text, "base64url").toString());
+    return Number.isInteger(cursor?.index) ? cursor : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const getSortKey = (item: any, sort: string): SortKey => ({
+  value: sortValue(item[sort]),
+  id: String(item.id ?? ""),
+});
+
+/**
+ * Compare items by the sort field, then by id so that every item has its
+ * own place. Items without a value come last in either order.
+ */
+const compareKeys = (a: SortKey, b: SortKey, direction: number): number =>
+  Number(isMissing(a.value)) - Number(isMissing(b.value)) ||
+  (isMissing(a.value) ? 0 : direction * compareValues(a.value, b.value)) ||
+  compareValues(a.id, b.id);
+
+/**
+ * Find where the page after a cursor starts. Sorted lists continue after
+ * the sort value and id of the last item, so items added, changed or
+ * removed in between do not shift the pages. Lists in their default order
+ * continue after the last item, or at its position if it is gone.
+ */
+const findCursorStart = (
+  items: unknown[],
+  cursor: Cursor,
+  sort: string | undefined,
+  direction: number
+): number => {
+  let start: number;
+  if (sort) {
+    const last = { value: cursor.value, id: cursor.id ?? "" };
+    start = items.findIndex(
+      (item) => compareKeys(getSortKey(item, sort), last, direction) > 0
+    );
+  } else {
+    const index = items.findIndex((item: any) => item.id === cursor.id);
+    start = index >= 0 ? index + 1 : cursor.index;
+  }
+  return start < 0 ? items.length : Math.min(start, items.length);
+};
+
+/**
+ * Sort a list by the sort and order parameters and cut out the page the
+ * limit and offset or cursor parameters ask for. Pages that are not the
+ * last come with the cursor of the next one.
+ */
+export function paginate<T>(
+  items: T[],
+  query: Record<string, any>
+): Result<{
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+  nextCursor?: string;
+}> {
+  const { sort, order, limit } = query;
+  const direction = order === "desc" ? -1 : 1;
+  const sorted = sort
+    ? [...items].sort((a, b) =>
+        compareKeys(getSortKey(a, sort), getSortKey(b, sort), direction)
+      )
+    : items;
+
+  let offset: number = query.offset;
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor);
+    if (!cursor || cursor.sort !== sort || cursor.order !== order) {
+      return {
+        success: false,
+        error: createError(
+          ErrorType.validation,
+          "Invalid cursor",
+          { cursor: query.cursor },
+          true,
+          "Use the nextCursor of a page sorted the same way"
+        ),
+      };
+    }
+    offset = findCursorStart(sorted, cursor, sort, direction);
+  }
+
+  const page = sorted.slice(offset, offset + limit);
+  const end = offset + page.length;
+  const last: any = page[page.length - 1];
+  return {
+    success: true,
+    data: {
+      items: page,
+      total: items.length,
+      limit,
+      offset,
+      ...(end < sorted.length && {
+        nextCursor: encodeCursor({
+          index: end,
+          id: last?.id,
+          value: sort ? sortValue(last?.[sort]) : undefined,
+          sort,
+          order,
+        }),
+      }),
+    },
+  };
+}
+
+const paginated = async <T>(
+  result: Promise<Result<T[]>> | Result<T[]>,
+  query: Record<string, any>
+) => {
+  const items = await result;
+  return items.success ? paginate(items.data, query) : items;
+};
+
+/**
+ * Keep the given fields of items, and their id
+ */
+const project = <T extends object>(items: T[], fields: string[]) =>
+  items.map((item) =>
+    Object.fromEntries(
+      Object.entries(item).filter(
+        ([name]) => name === "id" || fields.includes(name)
+      )
+    )
+  );
+
+const notFound = (message: string, details: any): Result<never> => ({
+  success: false,
+  error: createError(ErrorType.notFound, message, details, false),
+});
+
+/**
+ * Answer with the current version of a snippet after a change
+ */
+const getChangedSnippet = async (
+  context: ApiContext,
+  id: string
+): Promise<Result<SnippetInterface>> => {
+  const result = await context.snippetManager.getSnippet(id);
+  if (!result.success) {
+    return result;
+  }
+  return result.data
+    ? { success: true, data: result.data }
+    : notFound("Snippet not found", { id });
+};
+
+/**
+ * Tell other clients about a change once it succeeded
+ */
+const notify = async <T>(
+  result: Promise<Result<T>>,
+  notifyChange: (data: T) => unknown
+): Promise<Result<T>> => {
+  const resolved = await result;
+  if (resolved.success) {
+    await notifyChange(resolved.data);
+  }
+  return resolved;
+};
+
+const exportContentTypes: Record<FileFormat, string> = {
+  json: "application/json",
+  yaml: "application/x-yaml",
+  vscode: "application/json",
+  markdown: "text/markdown; charset=utf-8",
+};
+
+/**
+ * Operations of version 1 of the API. Operations with fixed paths come
+ * before those with parameters in the same place, which they would match.
+ */
+export const operations: ApiOperation[] = [
+  // Snippets
+  {
+    operationId: "listSnippets",
+    method: "get",
+    path: "/snippets",
+    tag: "snippets",
+    summary: "List snippets, optionally filtered",
+    query: listQuery(snippetSortFields, {
+      q: { type: "string", description: "Query in the search syntax" },
+      language: text,
+      tags: texts,
+      category: text,
+      source: { type: "string", enum: ["global", "workspace", "team"] },
+      fields: {
+        type: "array",
+        items: {
+          type: "string",
+          enum: Object.keys(components.PartialSnippet.properties!).filter(
+            (name) => name !== "id"
+          ),
+        },
+        description: "Fields to send besides id; all when not given",
+      },
+    }),
+    response: ref("PartialSnippetPage"),
+    async handle({ query }, { snippetManager }) {
+      let search: AdvancedSearchQuery = {};
+      if (query.q) {
+        const parsed = parseQuery(query.q);
+        if (!parsed.success) {
+          return parsed;
+        }
+        search = parsed.data;
+      }
+
+      const { language, tags, category, source, fields } = query;
+      const page = await paginated(
+        snippetManager.searchSnippets({
+          ...search,
+          ...(language && { language }),
+          ...(tags && { tags: [...(search.tags || []), ...tags] }),
+          ...(category && { category }),
+          ...(source && { source }),
+        }),
+        query
+      );
+      if (!page.success || !fields) {
+        return page;
+      }
+      return {
+        success: true,
+        data: { ...page.data, items: project(page.data.items, fields) },
+      };
+    },
+  },
+  {
+    operationId: "createSnippet",
+    method: "post",
+    path: "/snippets",
+    tag: "snippets",
+    summary: "Create a snippet",
+    body: ref("SnippetData"),
+    status: 201,
+    response: ref("Snippet"),
+    handle: ({ body }, { snippetManager, events }) =>
+      notify(
+        // Snippets always have a description and tags, if only empty ones
+        snippetManager.createSnippet(
+          { description: "", tags: [], ...body },
+          { source: "webgui" }
+        ),
+        (s) => events.snippetChanged("created", s)
+      ),
+  },
+  {
+    operationId: "searchSnippets",
+    method: "post",
+    path: "/snippets/search",
+    tag: "snippets",
+    summary: "Search snippets with text and advanced filters",
+    query: listQuery(snippetSortFields),
+    body: ref("SearchQuery"),
+    readOnly: true,
+    response: ref("SnippetPage"),
+    handle: ({ query, body }, { snippetManager }) =>
+      paginated(snippetManager.searchSnippets(body), query),
+  },
+  {
+    operationId: "exportSnippets",
+    method: "get",
+    path: "/snippets/export",
+    tag: "snippets",
+    summary: "Download snippets as a file",
+    query: {
+      type: "object",
+      properties: {
+        format: {
+          type: "string",
+          enum: ["json", "yaml", "vscode", "markdown"],
+          default: "json",
+        },
+        tags: texts,
+        languages: texts,
+        categories: texts,
+        collections: {
+          ...texts,
+          description: "Collection IDs; subcollections are included",
+        },
+      },
+    },
+    download: true,
+    async handle({ query }, { snippetManager }) {
+      const { format, ...filter } = query as ExportFilter & {
+        format: FileFormat;
+      };
+      const result = await new ImportExportService(
+        snippetManager
+      ).exportToString(format, filter, true);
+      if (!result.success) {
+        return result;
+      }
+
+      return {
+        success: true,
+        data: {
+          content: result.data,
+          contentType: exportContentTypes[format],
+          filename: `snippets-export.${getFileExtension(format)}`,
+        },
+      };
+    },
+  },
+  {
+    operationId: "importSnippets",
+    method: "post",
+    path: "/snippets/import",
+    tag: "snippets",
+    summary: "Import snippets from a file",
+    upload: true,
+    body: {
+      type: "object",
+      properties: {
+        file: {
+          type: "string",
+          format: "binary",
+          description: "Export, YAML, VS Code snippet or Markdown file",
+        },
+        conflictResolution: {
+          type: "string",
+          enum: ["skip", "overwrite", "rename"],
+        },
+        language: {
+          type: "string",
+          description: "Language of snippets that do not name one",
+        },
+      },
+      required: ["file"],
+    },
+    response: ref("ImportSummary"),
+    async handle({ body }, { snippetManager, events }) {
+      const { file, conflictResolution = "skip", language } = body;
+      const parsed = new ImportExportService(snippetManager).parseImportFile(
+        file.buffer.toString("utf8"),
+        file.originalname || "import.json",
+        language || undefined
+      );
+      if (!parsed.success) {
+        return parsed;
+      }
+
+      const importData: ImportData = { ...parsed.data, conflictResolution };
+      const result = await snippetManager.importSnippets(importData);
+      if (!result.success) {
+        return result;
+      }
+
+      const { imported, skipped, errors } = result.data;
+      events.snippetsChanged("imported", imported);
+      return { success: true, data: { imported, skipped, errors } };
+    },
+  },
+  {
+    operationId: "getSnippet",
+    method: "get",
+    path: "/snippets/{id}",
+    tag: "snippets",
+    summary: "Get a snippet",
+    params: idParam,
+    response: ref("Snippet"),
+    handle: ({ params }, context) => getChangedSnippet(context, params.id),
+  },
+  {
+    operationId: "updateSnippet",
+    method: "patch",
+    path: "/snippets/{id}",
+    tag: "snippets",
+    summary: "Change fields of a snippet",
+    params: idParam,
+    body: ref("SnippetUpdate"),
+    response: ref("Snippet"),
+    handle: ({ params, body }, { snippetManager, events }) =>
+      notify(
+        snippetManager.updateSnippet(params.id, body, { source: "webgui" }),
+        (snippet) => events.snippetChanged("updated", snippet)
+      ),
+  },
+  {
+    operationId: "deleteSnippet",
+    method: "delete",
+    path: "/snippets/{id}",
+    tag: "snippets",
+    summary: "Delete a snippet",
+    params: idParam,
+    async handle({ params }, context) {
+      const snippet = await getChangedSnippet(context, params.id);
+      if (!snippet.success) {
+        return snippet;
+      }
+
+      return notify(context.snippetManager.deleteSnippet(params.id), () =>
+        context.events.snippetChanged("deleted", snippet.data)
+      );
+    },
+  },
+  {
+    operationId: "recordUsage",
+    method: "post",
+    path: "/snippets/{id}/usage",
+    tag: "snippets",
+    summary: "Record a use of a snippet",
+    params: idParam,
+    body: {
+      type: "object",
+      properties: {
+        source: {
+          type: "string",
+          enum: [
+            "completion",
+            "insert",
+            "quickInsert",
+            "webCopy",
+            "cli",
+            "unknown",
+          ],
+          default: "webCopy",
+        },
+      },
+    },
+    response: ref("Snippet"),
+    async handle({ params, body }, context) {
+      const result = await context.snippetManager.incrementUsage(
+        params.id,
+        body.source || "webCopy"
+      );
+      if (!result.success) {
+        return result;
+      }
+
+      // Other clients show the new usage count
+      return notify(getChangedSnippet(context, params.id), (snippet) =>
+        context.events.snippetRefreshed(snippet)
+      );
+    },
+  },
+
+  // History
+  {
+    operationId: "listRevisions",
+    method: "get",
+    path: "/snippets/{id}/revisions",
+    tag: "history",
+    summary: "List the recorded revisions of a snippet",
+    params: idParam,
+    query: listQuery(["revision", "timestamp"]),
+    response: ref("RevisionPage"),
+    handle: ({ params, query }, { snippetManager }) =>
+      paginated(snippetManager.getSnippetHistory(params.id), query),
+  },
+  {
+    operationId: "diffRevisions",
+    method: "get",
+    path: "/snippets/{id}/revisions/diff",
+    tag: "history",
+    summary: "Compare two revisions of a snippet",
+    params: idParam,
+    query: {
+      type: "object",
+      properties: {
+        from: { type: "integer", minimum: 1 },
+        to: { type: "integer", minimum: 1 },
+      },
+      required: ["from", "to"],
+    },
+    response: ref("RevisionDiff"),
+    handle: ({ params, query }, { snippetManager }) =>
+      snippetManager.diffSnippetRevisions(params.id, query.from, query.to),
+  },
+  {
+    operationId: "rollbackSnippet",
+    method: "post",
+    path: "/snippets/{id}/revisions/{revision}/rollback",
+    tag: "history",
+    summary: "Restore a snippet to an earlier revision",
+    params: { ...idParam, revision: { type: "integer", minimum: 1 } },
+    response: ref("Snippet"),
+    handle: ({ params }, { snippetManager, events }) =>
+      notify(
+        snippetManager.rollbackSnippet(params.id, params.revision, {
+          source: "webgui",
+        }),
+        (snippet) => events.snippetChanged("updated", snippet)
+      ),
+  },
+
+  // Duplicates
+  {
+    operationId: "listDuplicates",
+    method: "get",
+    path: "/duplicates",
+    tag: "duplicates",
+    summary: "Find groups of snippets with the same or similar code",
+    query: listQuery(["similarity"], {
+      threshold: {
+        type: "number",
+        minimum: 0.01,
+        maximum: 1,
+        description: "Lowest similarity to report, 0.9 by default",
+      },
+    }),
+    response: ref("DuplicateGroupPage"),
+    async handle({ query }, { snippetManager }) {
+      const result = await snippetManager.getAllSnippets();
+      if (!result.success) {
+        return result;
+      }
+
+      const { threshold } = query;
+      return paginate(
+        new DuplicateDetectionService().findDuplicates(
+          result.data,
+          threshold !== undefined ? { threshold } : {}
+        ),
+        query
+      );
+    },
+  },
+  {
+    operationId: "mergeDuplicates",
+    method: "post",
+    path: "/duplicates/merge",
+    tag: "duplicates",
+    summary: "Merge snippets into one, deleting the others",
+    body: {
+      type: "object",
+      properties: { targetId: text, sourceIds: texts },
+      required: ["targetId", "sourceIds"],
+    },
+    response: ref("Snippet"),
+    async handle({ body }, { snippetManager, events }) {
+      // Merged snippets are gone afterwards, so they are read first
+      const sources: SnippetInterface[] = [];
+      for (const id of body.sourceIds) {
+        const source = await snippetManager.getSnippet(id);
+        if (source.success && source.data) {
+          sources.push(source.data);
+        }
+      }
+
+      return notify(
+        snippetManager.mergeSnippets(body.targetId, body.sourceIds, {
+          source: "webgui",
+        }),
+        async (snippet) => {
+          await events.snippetChanged("updated", snippet);
+          for (const source of sources) {
+            await events.snippetChanged("deleted", source);
+          }
+        }
+      );
+    },
+  },
+
+  // Conflicts
+  {
+    operationId: "listConflicts",
+    method: "get",
+    path: "/conflicts",
+    tag: "conflicts",
+    summary: "List conflicts waiting to be resolved",
+    query: listQuery(["detectedAt"]),
+    response: ref("ConflictPage"),
+    handle: async ({ query }, { syncCoordinator }) =>
+      paginate(
+        (syncCoordinator?.getPendingConflicts() || []).map(describeConflict),
+        query
+      ),
+  },
+  {
+    operationId: "getConflict",
+    method: "get",
+    path: "/conflicts/{id}",
+    tag: "conflicts",
+    summary: "Get a conflict with its differing fields",
+    params: idParam,
+    response: ref("Conflict"),
+    async handle({ params }, { syncCoordinator }) {
+      const conflict = syncCoordinator
+        ?.getPendingConflicts()
+        .find((pending) => pending.id === params.id);
+      return conflict
+        ? { success: true, data: describeConflict(conflict) }
+        : notFound("Conflict not found", params);
+    },
+  },
+  {
+    operationId: "resolveConflict",
+    method: "post",
+    path: "/conflicts/{id}/resolve",
+    tag: "conflicts",
+    summary: "Resolve a conflict field by field",
+    params: idParam,
+    body: ref("ConflictResolution"),
+    response: ref("Snippet"),
+    async handle({ params, body }, context) {
+      const { syncCoordinator } = context;
+      const conflict = syncCoordinator
+        ?.getPendingConflicts()
+        .find((pending) => pending.id === params.id);
+      if (!syncCoordinator || !conflict) {
+        return notFound("Conflict not found", params);
+      }
+
+      const result = await syncCoordinator.resolveConflict(params.id, {
+        type: "manual",
+        customResolver: (local, remote) =>
+          applyFieldResolution(local, remote, body),
+      });
+      if (!result.success) {
+        return result;
+      }
+
+      return notify(getChangedSnippet(context, conflict.snippetId), (s) =>
+        context.events.snippetRefreshed(s)
+      );
+    },
+  },
+
+  // Saved searches
+  {
+    operationId: "listSavedSearches",
+    method: "get",
+    path: "/saved-searches",
+    tag: "saved searches",
+    summary: "List saved searches with their current number of matches",
+    query: listQuery(["name", "createdAt", "lastUsed", "useCount", "count"]),
+    response: ref("SavedSearchPage"),
+    handle: ({ query }, { snippetManager }) =>
+      paginated(snippetManager.getSavedSearches(), query),
+  },
+  {
+    operationId: "createSavedSearch",
+    method: "post",
+    path: "/saved-searches",
+    tag: "saved searches",
+    summary: "Save a search under a name",
+    body: {
+      type: "object",
+      properties: { name: text, query: ref("SearchQuery") },
+      required: ["name", "query"],
+    },
+    status: 201,
+    response: ref("SavedSearch"),
+    handle: ({ body }, { snippetManager, events }) =>
+      notify(snippetManager.saveSearch(body.name, body.query), () =>
+        events.savedSearchesChanged()
+      ),
+  },
+  {
+    operationId: "updateSavedSearch",
+    method: "patch",
+    path: "/saved-searches/{id}",
+    tag: "saved searches",
+    summary: "Rename a saved search or change its query",
+    params: idParam,
+    body: {
+      type: "object",
+      properties: { name: text, query: ref("SearchQuery") },
+    },
+    response: ref("SavedSearch"),
+    handle: ({ params, body }, { snippetManager, events }) =>
+      notify(snippetManager.updateSavedSearch(params.id, body), () =>
+        events.savedSearchesChanged()
+      ),
+  },
+  {
+    operationId: "deleteSavedSearch",
+    method: "delete",
+    path: "/saved-searches/{id}",
+    tag: "saved searches",
+    summary: "Delete a saved search",
+    params: idParam,
+    handle: ({ params }, { snippetManager, events }) =>
+      notify(snippetManager.deleteSavedSearch(params.id), () =>
+        events.savedSearchesChanged()
+      ),
+  },
+  {
+    operationId: "runSavedSearch",
+    method: "get",
+    path: "/saved-searches/{id}/snippets",
+    tag: "saved searches",
+    summary: "List the snippets a saved search matches",
+    params: idParam,
+    query: listQuery(snippetSortFields),
+    response: ref("SnippetPage"),
+    handle: ({ params, query }, { snippetManager }) =>
+      paginated(snippetManager.runSavedSearch(params.id), query),
+  },
+
+  // Collections
+  {
+    operationId: "listCollections",
+    method: "get",
+    path: "/collections",
+    tag: "collections",
+    summary: "List collections, by name unless sorted otherwise",
+    query: listQuery(["name", "createdAt", "updatedAt"]),
+    response: ref("CollectionPage"),
+    handle: ({ query }, { snippetManager }) =>
+      paginated(snippetManager.getCollections(), query),
+  },
+  {
+    operationId: "createCollection",
+    method: "post",
+    path: "/collections",
+    tag: "collections",
+    summary: "Create an empty collection",
+    body: {
+      type: "object",
+      properties: { name: text, description: text, parentId: text },
+      required: ["name"],
+    },
+    status: 201,
+    response: ref("Collection"),
+    handle: ({ body }, { snippetManager, events }) =>
+      notify(
+        snippetManager.createCollection(body.name, {
+          description: body.description,
+          parentId: body.parentId,
+        }),
+        () => events.collectionsChanged()
+      ),
+  },
+  {
+    operationId: "updateCollection",
+    method: "patch",
+    path: "/collections/{id}",
+    tag: "collections",
+    summary: "Rename, describe or move a collection",
+    params: idParam,
+    body: {
+      type: "object",
+      properties: {
+        name: text,
+        description: text,
+        parentId: {
+          type: "string",
+          nullable: true,
+          description: "null moves the collection to the top level",
+        },
+      },
+    },
+    response: ref("Collection"),
+    handle: ({ params, body }, { snippetManager, events }) =>
+      notify(snippetManager.updateCollection(params.id, body), () =>
+        events.collectionsChanged()
+      ),
+  },
+  {
+    operationId: "deleteCollection",
+    method: "delete",
+    path: "/collections/{id}",
+    tag: "collections",
+    summary: "Delete a collection, keeping its snippets",
+    params: idParam,
+    handle: ({ params }, { snippetManager, events }) =>
+      notify(snippetManager.deleteCollection(params.id), () =>
+        events.collectionsChanged()
+      ),
+  },
+  {
+    operationId: "listCollectionSnippets",
+    method: "get",
+    path: "/collections/{id}/snippets",
+    tag: "collections",
+    summary: "List the snippets of a collection, in its order by default",
+    params: idParam,
+    query: listQuery(snippetSortFields),
+    response: ref("SnippetPage"),
+    handle: ({ params, query }, { snippetManager }) =>
+      paginated(snippetManager.getCollectionSnippets(params.id), query),
+  },
+  {
+    operationId: "addToCollection",
+    method: "post",
+    path: "/collections/{id}/snippets",
+    tag: "collections",
+    summary: "Add snippets to a collection, at the end by default",
+    params: idParam,
+    body: {
+      type: "object",
+      properties: {
+        snippetIds: texts,
+        index: { type: "integer", minimum: 0 },
+      },
+      required: ["snippetIds"],
+    },
+    response: ref("Collection"),
+    handle: ({ params, body }, { snippetManager, events }) =>
+      notify(
+        snippetManager.addToCollection(params.id, body.snippetIds, body.index),
+        () => events.collectionsChanged()
+      ),
+  },
+  {
+    operationId: "reorderCollection",
+    method: "put",
+    path: "/collections/{id}/snippets",
+    tag: "collections",
+    summary: "Put the snippets of a collection in a new order",
+    params: idParam,
+    body: {
+      type: "object",
+      properties: { snippetIds: texts },
+      required: ["snippetIds"],
+    },
+    response: ref("Collection"),
+    handle: ({ params, body }, { snippetManager, events }) =>
+      notify(
+        snippetManager.reorderCollection(params.id, body.snippetIds),
+        () => events.collectionsChanged()
+      ),
+  },
+  {
+    operationId: "removeFromCollection",
+    method: "delete",
+    path: "/collections/{id}/snippets/{snippetId}",
+    tag: "collections",
+    summary: "Remove a snippet from a collection",
+    params: { ...idParam, snippetId: text },
+    response: ref("Collection"),
+    handle: ({ params }, { snippetManager, events }) =>
+      notify(
+        snippetManager.removeFromCollection(params.id, [params.snippetId]),
+        () => events.collectionsChanged()
+      ),
+  },
+
+  // Taxonomy
+  {
+    operationId: "getCategoryTree",
+    method: "get",
+    path: "/categories",
+    tag: "taxonomy",
+    summary: "Get the tree of categories with snippet counts",
+    response: { type: "array", items: ref("CategoryNode") },
+    handle: (input, { snippetManager }) => snippetManager.getCategoryTree(),
+  },
+  {
+    operationId: "getTagAliases",
+    method: "get",
+    path: "/tags/aliases",
+    tag: "taxonomy",
+    summary: "Get the tag aliases of the library",
+    response: ref("TagAliases"),
+    handle: (input, { snippetManager }) => snippetManager.getTagAliases(),
+  },
+  {
+    operationId: "setTagAlias",
+    method: "put",
+    path: "/tags/aliases/{alias}",
+    tag: "taxonomy",
+    summary: "Make a tag an alias of another, retagging its snippets",
+    params: { alias: text },
+    body: {
+      type: "object",
+      properties: { tag: text },
+      required: ["tag"],
+    },
+    response: ref("TagAliases"),
+    handle: ({ params, body }, { snippetManager, events }) =>
+      // Snippets tagged with the alias were retagged
+      notify(
+        snippetManager.setTagAlias(params.alias, body.tag, {
+          source: "webgui",
+        }),
+        () => events.savedSearchesChanged()
+      ),
+  },
+  {
+    operationId: "removeTagAlias",
+    method: "delete",
+    path: "/tags/aliases/{alias}",
+    tag: "taxonomy",
+    summary: "Remove a tag alias",
+    params: { alias: text },
+    response: ref("TagAliases"),
+    handle: ({ params }, { snippetManager }) =>
+      snippetManager.removeTagAlias(params.alias),
+  },
+  {
+    operationId: "renameTag",
+    method: "post",
+    path: "/tags/rename",
+    tag: "taxonomy",
+    summary: "Rename a tag in every snippet",
+    body: {
+      type: "object",
+      properties: {
+        from: text,
+        to: text,
+        keepAlias: { type: "boolean" },
+      },
+      required: ["from", "to"],
+    },
+    response: {
+      type: "object",
+      properties: { renamed: { type: "integer" } },
+      required: ["renamed"],
+    },
+    async handle({ body }, { snippetManager, events }) {
+      const result = await snippetManager.renameTag(
+        body.from,
+        body.to,
+        { keepAlias: body.keepAlias === true },
+        { source: "webgui" }
+      );
+      if (!result.success) {
+        return result;
+      }
+
+      events.snippetsChanged("updated", result.data);
+      return { success: true, data: { renamed: result.data } };
+    },
+  },
+
+  // Reports
+  {
+    operationId: "getUsageReport",
+    method: "get",
+    path: "/usage",
+    tag: "reports",
+    summary: "Report how snippets were used over the last days",
+    query: {
+      type: "object",
+      properties: {
+        days: { type: "integer", minimum: 1, default: 30 },
+        staleDays: { type: "integer", minimum: 0, default: 90 },
+      },
+    },
+    response: ref("UsageReport"),
+    handle: ({ query }, { snippetManager }) =>
+      snippetManager.getUsageReport(query),
+  },
+  {
+    operationId: "getDashboard",
+    method: "get",
+    path: "/dashboard",
+    tag: "reports",
+    summary: "Get an overview of the library",
+    response: ref("LibraryDashboard"),
+    async handle(input, { snippetManager }) {
+      const result = await snippetManager.getAllSnippets();
+      return result.success
+        ? {
+            success: true,
+            data: new LibraryStatsService().getDashboard(result.data),
+          }
+        : result;
+    },
+  },
+  {
+    operationId: "lintLibrary",
+    method: "get",
+    path: "/lint",
+    tag: "reports",
+    summary: "Check the library for problems",
+    response: ref("LintReport"),
+    handle: (input, { snippetManager }) => snippetManager.lintLibrary(),
+  },
+  {
+    operationId: "fixLintIssues",
+    method: "post",
+    path: "/lint/fix",
+    tag: "reports",
+    summary: "Apply the safe fixes of lint issues",
+    body: {
+      type: "object",
+      properties: {
+        snippetIds: {
+          ...texts,
+          description: "Snippets to fix; all of them when not given",
+        },
+      },
+    },
+    response: {
+      type: "object",
+      properties: { fixed: { type: "integer" } },
+      required: ["fixed"],
+    },
+    async handle({ body }, { snippetManager, events }) {
+      const result = await snippetManager.fixLintIssues(body.snippetIds, {
+        source: "webgui",
+      });
+      if (!result.success) {
+        return result;
+      }
+
+      events.snippetsChanged("updated", result.data);
+      return { success: true, data: { fixed: result.data } };
+    },
+  },
+];
@@ -0,0 +1,224 @@
+import express, {
+  Request,
+  Response,
+  NextFunction,
+  RequestHandler,
+  Router,
+} from "express";
+import { createHash } from "crypto";
+import multer from "multer";
+import { ErrorType, SnippetError } from "../../../types";
+import {
+  ApiContext,
+  ApiFile,
+  ApiOperation,
+  operations as allOperations,
+} from "./operations";
+import { buildOpenApiDocument } from "./openapi";
+import { components } from "./schemas";
+import {
+  JsonSchema,
+  applyDefaults,
+  coerceParameter,
+  validateSchema,
+} from "./schema";
+
+export interface ApiRouterOptions {
+  upload?: multer.Multer; // For operations that take a file
+  operations?: ApiOperation[];
+}
+
+const statusNames = new Map([
+  [400, "Bad Request"],
+  [404, "Not Found"],
+  [500, "Internal Server Error"],
+]);
+
+const sendError = (
+  res: Response,
+  status: number,
+  message: string,
+  details?: unknown
+) => {
+  res.status(status).json({
+    error: statusNames.get(status),
+    message,
+    ...(details !== undefined && { details }),
+  });
+};
+
+const getErrorStatus = (error: SnippetError): number =>
+  error.type === ErrorType.notFound
+    ? 404
+    : error.type === ErrorType.validation
+    ? 400
+    : 500;
+
+/**
+ * Whether an If-None-Match header names an ETag, compared weakly
+ */
+const matchesETag = (header: string | undefined, etag: string): boolean =>
+  !!header &&
+  header
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === etag);
+
+/**
+ * Convert parameters to their types, fill in defaults and validate them
+ */
+const readParameters = (
+  schema: JsonSchema,
+  values: Record<string, unknown>,
+  location: string,
+  problems: string[]
+): Record<string, any> => {
+  const parameters: Record<string, any> = {};
+  for (const [name, property] of Object.entries(schema.properties || {})) {
+    const value =
+      values[name] !== undefined
+        ? coerceParameter(property, values[name])
+        : property.default;
+    if (value !== undefined) {
+      parameters[name] = value;
+    }
+  }
+
+  problems.push(...validateSchema(schema, parameters, components, location));
+  return parameters;
+};
+
+/**
+ * Handle requests of an operation: validate the input, run the operation
+ * and check its response against the schema before sending it
+ */
+const handleOperation =
+  (operation: ApiOperation, context: ApiContext) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const problems: string[] = [];
+      const params = readParameters(
+        { type: "object", properties: operation.params },
+        req.params,
+        "path",
+        problems
+      );
+      const query = readParameters(
+        operation.query || { type: "object" },
+        req.query,
+        "query",
+        problems
+      );
+
+      let body = req.body ?? {};
+      if (operation.upload) {
+        body = { ...body, file: req.file };
+      }
+      if (operation.body) {
+        problems.push(
+          ...validateSchema(operation.body, body, components, "body")
+        );
+      }
+
+      if (problems.length > 0) {
+        sendError(res, 400, `Invalid request: ${problems.join("; ")}`);
+        return;
+      }
+
+      const result = await operation.handle({ params, query, body }, context);
+      if (!result.success) {
+        sendError(
+          res,
+          getErrorStatus(result.error),
+          result.error.message,
+          result.error.details
+        );
+        return;
+      }
+
+      if (operation.download) {
+        const file = result.data as ApiFile;
+        res.setHeader("Content-Type", file.contentType);
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${file.filename}"`
+        );
+        res.status(operation.status || 200).send(file.content);
+        return;
+      }
+      if (!operation.response) {
+        res.status(204).end();
+        return;
+      }
+
+      // Validate what clients will see, with dates turned into strings
+      const data = JSON.parse(JSON.stringify(result.data));
+      applyDefaults(operation.response, data, components);
+      const invalid = validateSchema(
+        operation.response,
+        data,
+        components,
+        "response"
+      );
+      if (invalid.length > 0) {
+        console.error(
+          `Response of ${operation.operationId} does not match its schema:`,
+          invalid
+        );
+        sendError(res, 500, "Response does not match the API schema");
+        return;
+      }
+
+      // Clients revalidate reads with the ETag instead of loading them again
+      const json = JSON.stringify(data);
+      if (req.method === "GET") {
+        const hash = createHash("sha1").update(json).digest("base64url");
+        const etag = `"${hash}"`;
+        res.setHeader("ETag", etag);
+        res.setHeader("Cache-Control", "no-cache");
+        if (matchesETag(req.headers["if-none-match"], etag)) {
+          res.status(304).end();
+          return;
+        }
+      }
+      res.status(operation.status || 200).type("json").send(json);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+/**
+ * Router for version 1 of the API, serving its OpenAPI document at
+ * /openapi.json. Unknown routes get a JSON 404 instead of the Web GUI.
+ */
+export function createApiRouter(
+  context: ApiContext,
+  options: ApiRouterOptions = {}
+): Router {
+  const operations = options.operations || allOperations;
+  const document = buildOpenApiDocument(operations);
+  const router = express.Router();
+
+  router.get("/openapi.json", (req: Request, res: Response) => {
+    res.json(document);
+  });
+
+  for (const operation of operations) {
+    const path = operation.path.replace(/\{(\w+)\}/g, ":$1");
+    const handlers: RequestHandler[] = [handleOperation(operation, context)];
+    if (operation.upload && options.upload) {
+      handlers.unshift(options.upload.single("file"));
+    }
+    router[operation.method](path, ...handlers);
+  }
+
+  router.use((req: Request, res: Response) => {
+    sendError(
+      res,
+      404,
+      `Route ${req.method} ${req.baseUrl}${req.path} not found`
+    );
+  });
+
+  return router;
+}
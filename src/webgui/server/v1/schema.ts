@@ -0,0 +1,246 @@
+/**
+ * Subset of JSON Schema used to describe the API. It follows the dialect of
+ * OpenAPI 3.0, so schemas go into the OpenAPI document unchanged.
+ */
+export interface JsonSchema {
+  $ref?: string;
+  type?: "string" | "number" | "integer" | "boolean" | "object" | "array";
+  format?: "date-time" | "binary";
+  enum?: Array<string | number>;
+  nullable?: boolean;
+  description?: string;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+}
+
+/**
+ * Schemas that $ref can point to, by name
+ */
+export type SchemaComponents = Record<string, JsonSchema>;
+
+/**
+ * Reference a component schema
+ */
+export const ref = (name: string): JsonSchema => ({
+  $ref: `#/components/schemas/${name}`,
+});
+
+/**
+ * Get the name of the component schema a $ref points to
+ */
+export const getRefName = (reference: string): string =>
+  reference.slice(reference.lastIndexOf("/") + 1);
+
+const describeType = (schema: JsonSchema): string => {
+  switch (schema.type) {
+    case "integer":
+      return "an integer";
+    case "array":
+      return "an array";
+    case "object":
+      return "an object";
+    default:
+      return `a ${schema.type}`;
+  }
+};
+
+/**
+ * Check a value against a schema. Resolves to the problems found, each
+ * naming the path of the offending value; no problems means it is valid.
+ */
+export function validateSchema(
+  schema: JsonSchema,
+  value: unknown,
+  components: SchemaComponents,
+  path = "value"
+): string[] {
+  if (schema.$ref) {
+    const target = components[getRefName(schema.$ref)];
+    if (!target) {
+      throw new Error(`Unknown schema: ${schema.$ref}`);
+    }
+    return validateSchema(target, value, components, path);
+  }
+
+  // Uploaded files are checked by the upload, not the schema
+  if (schema.format === "binary") {
+    return [];
+  }
+
+  if (value === null) {
+    return schema.nullable || !schema.type ? [] : [`${path} must not be null`];
+  }
+
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") {
+        return [`${path} must be a string`];
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return [`${path} must not be empty`];
+      }
+      if (schema.format === "date-time" && isNaN(Date.parse(value))) {
+        return [`${path} must be a date`];
+      }
+      break;
+    case "number":
+    case "integer":
+      if (
+        typeof value !== "number" ||
+        !isFinite(value) ||
+        (schema.type === "integer" && !Number.isInteger(value))
+      ) {
+        return [`${path} must be ${describeType(schema)}`];
+      }
+      if (
+        (schema.minimum !== undefined && value < schema.minimum) ||
+        (schema.maximum !== undefined && value > schema.maximum)
+      ) {
+        return [
+          `${path} must be between ${schema.minimum ?? "-Infinity"} and ` +
+            `${schema.maximum ?? "Infinity"}`,
+        ];
+      }
+      break;
+    case "boolean":
+      if (typeof value !== "boolean") {
+        return [`${path} must be a boolean`];
+      }
+      break;
+    case "array":
+      if (!Array.isArray(value)) {
+        return [`${path} must be an array`];
+      }
+      return schema.items
+        ? value.flatMap((item, index) =>
+            validateSchema(
+              schema.items!,
+              item,
+              components,
+              `${path}[${index}]`
+            )
+          )
+        : [];
+    case "object":
+      if (typeof value !== "object" || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      return validateObject(
+        schema,
+        value as Record<string, unknown>,
+        components,
+        path
+      );
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return [`${path} must be one of: ${schema.enum.join(", ")}`];
+  }
+  return [];
+}
+
+function validateObject(
+  schema: JsonSchema,
+  value: Record<string, unknown>,
+  components: SchemaComponents,
+  path: string
+): string[] {
+  const properties = schema.properties || {};
+  const problems = (schema.required || [])
+    .filter((name) => value[name] === undefined)
+    .map((name) => `${path}.${name} is required`);
+
+  for (const [name, property] of Object.entries(value)) {
+    if (property === undefined) {
+      continue;
+    }
+    const propertySchema =
+      properties[name] ||
+      (typeof schema.additionalProperties === "object"
+        ? schema.additionalProperties
+        : undefined);
+
+    if (propertySchema) {
+      problems.push(
+        ...validateSchema(
+          propertySchema,
+          property,
+          components,
+          `${path}.${name}`
+        )
+      );
+    } else if (schema.additionalProperties === false) {
+      problems.push(`${path}.${name} is not allowed`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Fill in the defaults of properties missing from a value, in place. Used
+ * for responses, so stored data that predates a field still matches.
+ */
+export function applyDefaults(
+  schema: JsonSchema,
+  value: unknown,
+  components: SchemaComponents
+): void {
+  if (schema.$ref) {
+    const target = components[getRefName(schema.$ref)];
+    if (target) {
+      applyDefaults(target, value, components);
+    }
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item) =>
+      applyDefaults(schema.items || {}, item, components)
+    );
+  } else if (value && typeof value === "object" && schema.properties) {
+    const object = value as Record<string, unknown>;
+    for (const [name, property] of Object.entries(schema.properties)) {
+      if (object[name] === undefined && property.default !== undefined) {
+        object[name] = property.default;
+      } else {
+        applyDefaults(property, object[name], components);
+      }
+    }
+  }
+}
+
+/**
+ * Turn the text of a path or query parameter into the type its schema asks
+ * for, so it can be validated like a JSON value. Text that does not convert
+ * is kept and fails validation.
+ */
+export function coerceParameter(
+  schema: JsonSchema,
+  value: unknown
+): unknown {
+  if (schema.type === "array") {
+    const values = Array.isArray(value) ? value : [value];
+    return values.map((item) => coerceParameter(schema.items || {}, item));
+  }
+  if (typeof value !== "string") {
+    return value;
+  }
+
+  switch (schema.type) {
+    case "number":
+    case "integer":
+      return value.trim() !== "" && !isNaN(Number(value))
+        ? Number(value)
+        : value;
+    case "boolean":
+      return value === "true" ? true : value === "false" ? false : value;
+    default:
+      return value;
+  }
+}
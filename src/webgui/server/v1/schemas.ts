@@ -0,0 +1,539 @@
+import { JsonSchema, SchemaComponents, ref } from "./schema";
+
+const text: JsonSchema = { type: "string" };
+const date: JsonSchema = { type: "string", format: "date-time" };
+const count: JsonSchema = { type: "integer", minimum: 0 };
+const texts: JsonSchema = { type: "array", items: text };
+const any: JsonSchema = {};
+
+const listOf = (name: string): JsonSchema => ({
+  type: "array",
+  items: ref(name),
+});
+
+/**
+ * Page of a list, with the total number of items across all pages
+ */
+const pageOf = (name: string): JsonSchema => ({
+  type: "object",
+  properties: {
+    items: listOf(name),
+    total: count,
+    limit: count,
+    offset: count,
+    nextCursor: {
+      type: "string",
+      description: "Cursor of the next page; absent on the last page",
+    },
+  },
+  required: ["items", "total", "limit", "offset"],
+});
+
+const snippetFields: Record<string, JsonSchema> = {
+  title: text,
+  description: text,
+  code: text,
+  language: text,
+  tags: texts,
+  category: text,
+  prefix: text,
+  prefixAliases: texts,
+  scope: texts,
+  variables: listOf("SnippetVariable"),
+};
+
+// Fields of snippets that revisions, diffs and conflicts refer to
+const snippetField: JsonSchema = {
+  type: "string",
+  enum: Object.keys(snippetFields),
+};
+
+const snippetProperties: Record<string, JsonSchema> = {
+  id: text,
+  ...snippetFields,
+  createdAt: date,
+  updatedAt: date,
+  usageCount: count,
+  source: { type: "string", enum: ["global", "workspace", "team"] },
+};
+
+const usageTrend: Record<string, JsonSchema> = {
+  total: count,
+  daily: { type: "array", items: count },
+};
+
+/**
+ * Schemas of the resources the API reads and writes
+ */
+export const components: SchemaComponents = {
+  ErrorResponse: {
+    type: "object",
+    properties: {
+      error: text,
+      message: text,
+      details: any,
+    },
+    required: ["error", "message"],
+  },
+  SnippetVariable: {
+    type: "object",
+    properties: {
+      name: text,
+      description: text,
+      defaultValue: text,
+      choices: texts,
+    },
+    required: ["name"],
+  },
+  Snippet: {
+    type: "object",
+    properties: {
+      ...snippetProperties,
+      description: { ...text, default: "" },
+    },
+    required: [
+      "id",
+      "title",
+      "description",
+      "code",
+      "language",
+      "tags",
+      "createdAt",
+      "updatedAt",
+      "usageCount",
+    ],
+  },
+  SnippetData: {
+    type: "object",
+    properties: snippetFields,
+    required: ["title", "code", "language"],
+  },
+  SnippetUpdate: {
+    type: "object",
+    properties: snippetFields,
+  },
+  SnippetPage: pageOf("Snippet"),
+  PartialSnippet: {
+    type: "object",
+    description: "Snippet with the fields a list asked for",
+    properties: snippetProperties,
+    required: ["id"],
+  },
+  PartialSnippetPage: pageOf("PartialSnippet"),
+  SearchFilter: {
+    type: "object",
+    properties: {
+      field: {
+        type: "string",
+        enum: [
+          "title",
+          "description",
+          "code",
+          "tags",
+          "category",
+          "language",
+          "text",
+          "calls",
+          "defines",
+          "usageCount",
+          "createdAt",
+          "updatedAt",
+        ],
+      },
+      operator: {
+        type: "string",
+        enum: [
+          "contains",
+          "equals",
+          "startsWith",
+          "endsWith",
+          "regex",
+          "not",
+          "greaterThan",
+          "lessThan",
+          "atLeast",
+          "atMost",
+        ],
+      },
+      value: text,
+      caseSensitive: { type: "boolean" },
+    },
+    required: ["field", "operator", "value"],
+  },
+  SearchQuery: {
+    type: "object",
+    description: "Text may use the search query syntax, e.g. lang:ts tag:ui",
+    properties: {
+      text,
+      language: text,
+      tags: texts,
+      category: text,
+      source: { type: "string", enum: ["global", "workspace", "team"] },
+      dateRange: {
+        type: "object",
+        properties: { start: date, end: date },
+        required: ["start", "end"],
+      },
+      filters: listOf("SearchFilter"),
+      operator: { type: "string", enum: ["and", "or"] },
+    },
+  },
+  SnippetRevision: {
+    type: "object",
+    properties: {
+      snippetId: text,
+      revision: count,
+      timestamp: date,
+      source: {
+        type: "string",
+        enum: [
+          "extension",
+          "webgui",
+          "import",
+          "sync",
+          "rollback",
+          "merge",
+          "cli",
+          "unknown",
+        ],
+      },
+      author: text,
+      changedFields: { type: "array", items: snippetField },
+      snapshot: {
+        type: "object",
+        properties: snippetFields,
+        required: ["title", "description", "code", "language", "tags"],
+      },
+    },
+    required: [
+      "snippetId",
+      "revision",
+      "timestamp",
+      "source",
+      "changedFields",
+      "snapshot",
+    ],
+  },
+  RevisionPage: pageOf("SnippetRevision"),
+  DiffLine: {
+    type: "object",
+    properties: {
+      type: { type: "string", enum: ["unchanged", "added", "removed"] },
+      content: text,
+      oldLineNumber: count,
+      newLineNumber: count,
+    },
+    required: ["type", "content"],
+  },
+  RevisionDiff: {
+    type: "object",
+    properties: {
+      snippetId: text,
+      fromRevision: count,
+      toRevision: count,
+      changedFields: { type: "array", items: snippetField },
+      fields: {
+        type: "object",
+        additionalProperties: {
+          type: "object",
+          properties: { from: any, to: any },
+        },
+      },
+      codeDiff: listOf("DiffLine"),
+    },
+    required: [
+      "snippetId",
+      "fromRevision",
+      "toRevision",
+      "changedFields",
+      "fields",
+      "codeDiff",
+    ],
+  },
+  ConflictFieldDiff: {
+    type: "object",
+    properties: {
+      field: snippetField,
+      local: any,
+      remote: any,
+      base: any,
+      diff: listOf("DiffLine"),
+    },
+    required: ["field"],
+  },
+  Conflict: {
+    type: "object",
+    properties: {
+      id: text,
+      snippetId: text,
+      type: text,
+      source: {
+        type: "string",
+        enum: ["vscode", "webgui", "filesystem", "git"],
+      },
+      severity: { type: "string", enum: ["low", "medium", "high"] },
+      autoResolvable: { type: "boolean" },
+      detectedAt: date,
+      localSnippet: ref("Snippet"),
+      remoteSnippet: ref("Snippet"),
+      baseSnippet: ref("Snippet"),
+      fields: listOf("ConflictFieldDiff"),
+    },
+    required: [
+      "id",
+      "snippetId",
+      "type",
+      "source",
+      "severity",
+      "autoResolvable",
+      "detectedAt",
+      "localSnippet",
+      "remoteSnippet",
+      "fields",
+    ],
+  },
+  ConflictPage: pageOf("Conflict"),
+  ConflictResolution: {
+    type: "object",
+    description: "Version to keep field by field, and edited values",
+    properties: {
+      fields: {
+        type: "object",
+        additionalProperties: { type: "string", enum: ["local", "remote"] },
+      },
+      merged: ref("SnippetUpdate"),
+    },
+  },
+  DuplicateGroup: {
+    type: "object",
+    properties: {
+      id: text,
+      snippets: listOf("Snippet"),
+      similarity: { type: "number", minimum: 0, maximum: 1 },
+      exact: { type: "boolean" },
+    },
+    required: ["id", "snippets", "similarity", "exact"],
+  },
+  DuplicateGroupPage: pageOf("DuplicateGroup"),
+  SavedSearch: {
+    type: "object",
+    properties: {
+      id: text,
+      name: text,
+      query: ref("SearchQuery"),
+      createdAt: date,
+      lastUsed: date,
+      useCount: count,
+      count,
+    },
+    required: [
+      "id",
+      "name",
+      "query",
+      "createdAt",
+      "lastUsed",
+      "useCount",
+      "count",
+    ],
+  },
+  SavedSearchPage: pageOf("SavedSearch"),
+  Collection: {
+    type: "object",
+    properties: {
+      id: text,
+      name: text,
+      description: text,
+      parentId: text,
+      snippetIds: texts,
+      createdAt: date,
+      updatedAt: date,
+    },
+    required: ["id", "name", "snippetIds", "createdAt", "updatedAt"],
+  },
+  CollectionPage: pageOf("Collection"),
+  CategoryNode: {
+    type: "object",
+    properties: {
+      name: text,
+      path: text,
+      count,
+      children: listOf("CategoryNode"),
+    },
+    required: ["name", "path", "count", "children"],
+  },
+  TagAliases: {
+    type: "object",
+    description: "Tags by the alias that stands for them",
+    additionalProperties: text,
+  },
+  UsageReport: {
+    type: "object",
+    properties: {
+      start: date,
+      end: date,
+      days: texts,
+      staleDays: count,
+      total: {
+        type: "object",
+        properties: usageTrend,
+        required: ["total", "daily"],
+      },
+      sources: { type: "object", additionalProperties: count },
+      snippets: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            ...usageTrend,
+            snippet: ref("Snippet"),
+            lastUsed: date,
+          },
+          required: ["total", "daily", "snippet"],
+        },
+      },
+      languages: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { ...usageTrend, language: text },
+          required: ["total", "daily", "language"],
+        },
+      },
+      tags: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { ...usageTrend, tag: text },
+          required: ["total", "daily", "tag"],
+        },
+      },
+      neverUsed: listOf("Snippet"),
+      stale: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { snippet: ref("Snippet"), lastUsed: date },
+          required: ["snippet"],
+        },
+      },
+    },
+    required: [
+      "start",
+      "end",
+      "days",
+      "staleDays",
+      "total",
+      "sources",
+      "snippets",
+      "languages",
+      "tags",
+      "neverUsed",
+      "stale",
+    ],
+  },
+  LibraryCount: {
+    type: "object",
+    properties: { name: text, count },
+    required: ["name", "count"],
+  },
+  LibraryDashboard: {
+    type: "object",
+    properties: {
+      total: count,
+      totalUsage: count,
+      languages: listOf("LibraryCount"),
+      categories: listOf("LibraryCount"),
+      tags: listOf("LibraryCount"),
+      recentlyCreated: listOf("Snippet"),
+      recentlyUpdated: listOf("Snippet"),
+      mostUsed: listOf("Snippet"),
+      growth: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { month: text, added: count, total: count },
+          required: ["month", "added", "total"],
+        },
+      },
+      health: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            kind: {
+              type: "string",
+              enum: ["missingDescription", "untagged", "duplicates"],
+            },
+            message: text,
+            snippets: listOf("Snippet"),
+          },
+          required: ["kind", "message", "snippets"],
+        },
+      },
+    },
+    required: [
+      "total",
+      "totalUsage",
+      "languages",
+      "categories",
+      "tags",
+      "recentlyCreated",
+      "recentlyUpdated",
+      "mostUsed",
+      "growth",
+      "health",
+    ],
+  },
+  LintIssue: {
+    type: "object",
+    properties: {
+      rule: {
+        type: "string",
+        enum: [
+          "invalid",
+          "missingDescription",
+          "languageMismatch",
+          "unbalancedBrackets",
+          "trailingWhitespace",
+          "secret",
+          "duplicatePrefix",
+          "longTitle",
+          "unusedTag",
+        ],
+      },
+      severity: { type: "string", enum: ["error", "warning", "info"] },
+      message: text,
+      snippetId: text,
+      line: count,
+      fix: {
+        type: "object",
+        properties: { description: text, changes: ref("SnippetUpdate") },
+        required: ["description", "changes"],
+      },
+    },
+    required: ["rule", "severity", "message"],
+  },
+  LintReport: {
+    type: "object",
+    properties: {
+      checked: count,
+      issues: listOf("LintIssue"),
+      counts: {
+        type: "object",
+        properties: { error: count, warning: count, info: count },
+        required: ["error", "warning", "info"],
+      },
+      fixable: count,
+    },
+    required: ["checked", "issues", "counts", "fixable"],
+  },
+  ImportSummary: {
+    type: "object",
+    properties: {
+      imported: count,
+      skipped: count,
+      errors: texts,
+    },
+    required: ["imported", "skipped", "errors"],
+  },
+};
@@ -3,6 +3,7 @@ export interface SearchQuery {
   language?: string;
   tags?: string[];
   category?: string;
+  source?: "global" | "workspace" | "team";
   dateRange?: {
     start: Date;
     end: Date;
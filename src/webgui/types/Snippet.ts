@@ -10,5 +10,7 @@ export interface Snippet {
   updatedAt: Date;
   usageCount: number;
   prefix?: string;
+  prefixAliases?: string[];
   scope?: string[];
+  source?: "global" | "workspace" | "team";
 }